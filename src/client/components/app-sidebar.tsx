@@ -22,6 +22,7 @@ import { masterDataSidebarMenus } from "../../modules/master-data/client/menus/s
 import { warehouseSetupSidebarMenus } from "../../modules/warehouse-setup/client/menus/sideBarMenus"
 import { inventoryItemsSidebarMenus } from "../../modules/inventory-items/client/menus/sideBarMenus"
 import { purchaseOrderSidebarMenus } from "../../modules/purchase-order/client/menus/sideBarMenus"
+import { salesOrderSidebarMenus } from "../../modules/sales-order/client/menus/sideBarMenus"
 import { workflowSidebarMenus } from "../../modules/workflow/client/menus/sideBarMenus"
 import { reportsSidebarMenus } from "../../modules/reports/client/menus/sideBarMenus"
 // This is sample data.
@@ -150,6 +151,8 @@ const data = {
 
     purchaseOrderSidebarMenus,
 
+    salesOrderSidebarMenus,
+
 
 
 
@@ -0,0 +1,35 @@
+export interface ProductUnit {
+  uom: string;
+  conversionFactor: number;
+}
+
+/**
+ * Base units per one of the given unit; the base unit and unknown units count as 1
+ */
+export function getConversionFactor(uom: string | null | undefined, uoms: ProductUnit[] = []): number {
+  return uoms.find((unit) => unit.uom === uom)?.conversionFactor || 1;
+}
+
+/**
+ * Break a base-unit quantity down into the largest units first, e.g. 27 EA with CASE = 12 gives "2 CASE 3 EA"
+ */
+export function formatUomBreakdown(quantity: number, baseUom: string, uoms: ProductUnit[] = []): string {
+  if (quantity <= 0 || uoms.length === 0) {
+    return `${quantity} ${baseUom}`;
+  }
+
+  let remaining = quantity;
+  const parts: string[] = [];
+  for (const unit of [...uoms].sort((a, b) => b.conversionFactor - a.conversionFactor)) {
+    const count = Math.floor(remaining / unit.conversionFactor);
+    if (count > 0) {
+      parts.push(`${count} ${unit.uom}`);
+      remaining -= count * unit.conversionFactor;
+    }
+  }
+  if (remaining > 0 || parts.length === 0) {
+    parts.push(`${remaining} ${baseUom}`);
+  }
+
+  return parts.join(' ');
+}
@@ -1,27 +1,79 @@
-import React from 'react'
+import React, { useEffect, useState } from 'react'
+import axios from 'axios'
 
-import data from "./data.json"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@client/components/ui/select'
 import { SectionCards } from './SectionCards'
 import { ChartAreaInteractive } from './ChartAreaInteractive'
 import { DataTable } from './DataTable'
+import type { DashboardData, TimeRange } from './types'
+
+const TIME_RANGE_DAYS: Record<TimeRange, number> = { '7d': 7, '30d': 30, '90d': 90 }
 
 const Dashboard = () => {
+  const [data, setData] = useState<DashboardData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [warehouseId, setWarehouseId] = useState('all')
+  const [timeRange, setTimeRange] = useState<TimeRange>('90d')
+
+  useEffect(() => {
+    setLoading(true)
+    axios.get('/api/dashboard', {
+      params: {
+        warehouseId: warehouseId === 'all' ? undefined : warehouseId,
+        days: TIME_RANGE_DAYS[timeRange],
+      },
+    }).then((response) => {
+      setData(response.data.data)
+    }).catch((error) => {
+      console.error('Error fetching dashboard:', error)
+    }).finally(() => {
+      setLoading(false)
+    })
+  }, [warehouseId, timeRange])
+
   return (
     <>
       <header className="flex items-center justify-between gap-2 px-2 pb-4" >
         <div className="flex items-center gap-2">
           <h1 className="text-2xl font-semibold">Dashboard</h1>
         </div>
+        <Select value={warehouseId} onValueChange={setWarehouseId}>
+          <SelectTrigger className="w-56" aria-label="Warehouse">
+            <SelectValue placeholder="All warehouses" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All warehouses</SelectItem>
+            {data?.warehouses.map((warehouse) => (
+              <SelectItem key={warehouse.id} value={warehouse.id}>
+                {warehouse.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </header>
 
       <div className="@container/main flex flex-1 flex-col gap-2">
         <div className="flex flex-col gap-4 px-2 py-2 md:gap-6">
 
-          <SectionCards />
-          <div className="px-0 lg:px-0">
-            <ChartAreaInteractive />
-          </div>
-          <DataTable data={data} />
+          {!data ? (
+            <div className="flex items-center justify-center p-12 text-muted-foreground">
+              {loading ? 'Loading dashboard...' : 'Dashboard is not available'}
+            </div>
+          ) : (
+            <>
+              <SectionCards data={data} />
+              <div className="px-0 lg:px-0">
+                <ChartAreaInteractive series={data.series} timeRange={timeRange} onTimeRangeChange={setTimeRange} />
+              </div>
+              <DataTable data={data} />
+            </>
+          )}
 
         </div>
       </div>
@@ -29,4 +81,4 @@ const Dashboard = () => {
   )
 }
 
-export default Dashboard
\ No newline at end of file
+export default Dashboard
@@ -1,4 +1,4 @@
-import { IconTrendingDown, IconTrendingUp } from "@tabler/icons-react"
+import { IconAlertTriangle, IconBox, IconCalendarDue, IconTruckDelivery } from "@tabler/icons-react"
 
 import { Badge } from "@client/components/ui/badge"
 import {
@@ -10,93 +10,123 @@ import {
   CardTitle,
 } from "@client/components/ui/card"
 
-export function SectionCards() {
+import type { DashboardData } from "./types"
+
+const numberFormat = new Intl.NumberFormat()
+const currencyFormat = new Intl.NumberFormat(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+const STATE_LABELS: Record<string, string> = {
+  create: "Draft",
+  approve: "Awaiting approval",
+  receive: "Receiving",
+  putaway: "Putaway",
+}
+
+export function SectionCards({ data }: { data: DashboardData }) {
+  const { onHand, openPurchaseOrders, nearExpiry, belowReorderPoint, binUtilization } = data
+  // Sections the user may not see elsewhere come back as null and their cards are left out
+  const utilizationPercents = [binUtilization?.weightPercent ?? null, binUtilization?.volumePercent ?? null]
+    .filter((value): value is number => value !== null)
+  const utilizationPercent = utilizationPercents.length > 0 ? Math.max(...utilizationPercents) : null
+
   return (
     <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 px-0 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs lg:px-0 @xl/main:grid-cols-2 @5xl/main:grid-cols-4">
       <Card className="@container/card">
         <CardHeader>
-          <CardDescription>Total Revenue</CardDescription>
+          <CardDescription>On Hand</CardDescription>
           <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            $1,250.00
+            {numberFormat.format(onHand.quantity)} units
           </CardTitle>
           <CardAction>
             <Badge variant="outline">
-              <IconTrendingUp />
-              +12.5%
+              <IconBox />
+              {numberFormat.format(onHand.productCount)} SKUs
             </Badge>
           </CardAction>
         </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Trending up this month <IconTrendingUp className="size-4" />
-          </div>
-          <div className="text-muted-foreground">
-            Visitors for the last 6 months
-          </div>
-        </CardFooter>
+        {onHand.value !== null && (
+          <CardFooter className="flex-col items-start gap-1.5 text-sm">
+            <div className="line-clamp-1 flex gap-2 font-medium">
+              Value {currencyFormat.format(onHand.value)}
+            </div>
+            <div className="text-muted-foreground">
+              At unit cost
+              {!!onHand.uncostedQuantity && `, ${numberFormat.format(onHand.uncostedQuantity)} units uncosted`}
+            </div>
+          </CardFooter>
+        )}
       </Card>
+      {openPurchaseOrders && (
+        <Card className="@container/card">
+          <CardHeader>
+            <CardDescription>Open Purchase Orders</CardDescription>
+            <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
+              {numberFormat.format(openPurchaseOrders.total)}
+            </CardTitle>
+            <CardAction>
+              <Badge variant="outline">
+                <IconTruckDelivery />
+                In progress
+              </Badge>
+            </CardAction>
+          </CardHeader>
+          <CardFooter className="flex-col items-start gap-1.5 text-sm">
+            <div className="line-clamp-2 text-muted-foreground">
+              {openPurchaseOrders.byState.length === 0
+                ? "No open orders"
+                : openPurchaseOrders.byState
+                    .map((row) => `${STATE_LABELS[row.state] || row.state}: ${row.count}`)
+                    .join(" · ")}
+            </div>
+          </CardFooter>
+        </Card>
+      )}
       <Card className="@container/card">
         <CardHeader>
-          <CardDescription>New Customers</CardDescription>
+          <CardDescription>Needs Attention</CardDescription>
           <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            1,234
+            {numberFormat.format(nearExpiry.count + belowReorderPoint.count)}
           </CardTitle>
           <CardAction>
-            <Badge variant="outline">
-              <IconTrendingDown />
-              -20%
+            <Badge variant={nearExpiry.count + belowReorderPoint.count > 0 ? "destructive" : "outline"}>
+              <IconCalendarDue />
+              {nearExpiry.days} days
             </Badge>
           </CardAction>
         </CardHeader>
         <CardFooter className="flex-col items-start gap-1.5 text-sm">
           <div className="line-clamp-1 flex gap-2 font-medium">
-            Down 20% this period <IconTrendingDown className="size-4" />
+            {numberFormat.format(nearExpiry.count)} lots near expiry ({numberFormat.format(nearExpiry.quantity)} units)
           </div>
           <div className="text-muted-foreground">
-            Acquisition needs attention
-          </div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>Active Accounts</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            45,678
-          </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <IconTrendingUp />
-              +12.5%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Strong user retention <IconTrendingUp className="size-4" />
-          </div>
-          <div className="text-muted-foreground">Engagement exceed targets</div>
-        </CardFooter>
-      </Card>
-      <Card className="@container/card">
-        <CardHeader>
-          <CardDescription>Growth Rate</CardDescription>
-          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            4.5%
-          </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <IconTrendingUp />
-              +4.5%
-            </Badge>
-          </CardAction>
-        </CardHeader>
-        <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Steady performance increase <IconTrendingUp className="size-4" />
+            {numberFormat.format(belowReorderPoint.count)} products at or below reorder point
           </div>
-          <div className="text-muted-foreground">Meets growth projections</div>
         </CardFooter>
       </Card>
+      {binUtilization && (
+        <Card className="@container/card">
+          <CardHeader>
+            <CardDescription>Bin Utilization</CardDescription>
+            <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
+              {utilizationPercent !== null ? `${utilizationPercent}%` : "-"}
+            </CardTitle>
+            <CardAction>
+              <Badge variant={binUtilization.nearlyFullBinCount > 0 ? "destructive" : "outline"}>
+                <IconAlertTriangle />
+                {numberFormat.format(binUtilization.nearlyFullBinCount)} nearly full
+              </Badge>
+            </CardAction>
+          </CardHeader>
+          <CardFooter className="flex-col items-start gap-1.5 text-sm">
+            <div className="line-clamp-1 flex gap-2 font-medium">
+              {numberFormat.format(binUtilization.occupiedBinCount)} of {numberFormat.format(binUtilization.binCount)} bins occupied
+            </div>
+            <div className="text-muted-foreground">
+              Weight {binUtilization.weightPercent ?? "-"}% · volume {binUtilization.volumePercent ?? "-"}% of capacity
+            </div>
+          </CardFooter>
+        </Card>
+      )}
     </div>
   )
 }
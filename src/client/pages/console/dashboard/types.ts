@@ -0,0 +1,71 @@
+export interface Utilization {
+  weight: number
+  volume: number
+  maxWeight: number | null
+  maxVolume: number | null
+  weightPercent: number | null
+  volumePercent: number | null
+  skuCount: number
+  quantity: number
+  binCount: number
+  occupiedBinCount: number
+}
+
+export interface DashboardSeriesPoint {
+  date: string
+  receipts: number
+  adjustments: number
+}
+
+export interface NearExpiryItem {
+  inventoryItemId: string
+  sku: string
+  productName: string
+  batchNumber: string | null
+  expiryDate: string
+  daysToExpiry: number
+  quantity: number
+  binName: string
+  warehouseName: string
+}
+
+export interface BelowReorderItem {
+  productId: string
+  sku: string
+  productName: string
+  availableQuantity: number
+  reorderPoint: number
+}
+
+// Response of GET /api/dashboard
+export interface DashboardData {
+  warehouseId: string | null
+  warehouses: { id: string; name: string }[]
+  onHand: {
+    quantity: number
+    value: number | null
+    uncostedQuantity: number | null
+    productCount: number
+  }
+  openPurchaseOrders: {
+    total: number
+    byState: { state: string; count: number }[]
+  } | null
+  nearExpiry: {
+    days: number
+    count: number
+    quantity: number
+    items: NearExpiryItem[]
+  }
+  belowReorderPoint: {
+    count: number
+    items: BelowReorderItem[]
+  }
+  binUtilization: (Utilization & {
+    warningPercent: number
+    nearlyFullBinCount: number
+  }) | null
+  series: DashboardSeriesPoint[]
+}
+
+export type TimeRange = "7d" | "30d" | "90d"
@@ -1,5 +1,5 @@
 import { relations } from 'drizzle-orm';
-import { boolean, integer, jsonb, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { boolean, index, integer, jsonb, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
 import { tenant, user } from '@server/lib/db/schema/system';
 
 /**
@@ -235,9 +235,9 @@ export const generatedDocuments = pgTable('generated_documents', {
 },
   (t) => [
     // Index for looking up documents by type and tenant
-    uniqueIndex('gen_docs_tenant_type_idx').on(t.tenantId, t.documentType),
+    index('gen_docs_tenant_type_idx').on(t.tenantId, t.documentType),
     // Index for finding all versions of a specific document
-    uniqueIndex('gen_docs_ref_idx').on(t.tenantId, t.referenceType, t.referenceId),
+    index('gen_docs_ref_idx').on(t.tenantId, t.referenceType, t.referenceId),
     // Index for quick document number lookup
     uniqueIndex('gen_docs_number_idx').on(t.tenantId, t.documentNumber),
   ]
@@ -0,0 +1,76 @@
+import { db } from '@server/lib/db';
+import { documentNumberConfig } from '../lib/db/schemas/documentNumbering';
+import { and, eq } from 'drizzle-orm';
+import axios from 'axios';
+
+const DOCUMENT_NUMBERING_API = 'http://localhost:5000/api/modules/document-numbering';
+
+export interface GeneratedDocumentNumber {
+  documentNumber: string;
+  historyId: string;
+}
+
+/**
+ * Generate the next document number for a document type using the tenant's active
+ * configuration and its default prefixes.
+ * The caller's Authorization header is forwarded so the number is issued for the same tenant.
+ */
+export async function generateDocumentNumber(
+  tenantId: string,
+  authorization: string | undefined,
+  documentType: string,
+  documentTableName: string
+): Promise<GeneratedDocumentNumber> {
+  const [docConfig] = await db
+    .select()
+    .from(documentNumberConfig)
+    .where(
+      and(
+        eq(documentNumberConfig.tenantId, tenantId),
+        eq(documentNumberConfig.documentType, documentType),
+        eq(documentNumberConfig.isActive, true)
+      )
+    )
+    .limit(1);
+
+  if (!docConfig) {
+    throw new Error(`Document numbering configuration not found for ${documentType}`);
+  }
+
+  const generatePayload: any = {
+    documentType,
+    documentTableName,
+  };
+
+  if (docConfig.prefix1DefaultValue) {
+    generatePayload.prefix1 = docConfig.prefix1DefaultValue;
+  }
+
+  if (docConfig.prefix2DefaultValue) {
+    generatePayload.prefix2 = docConfig.prefix2DefaultValue;
+  }
+
+  const response = await axios.post(`${DOCUMENT_NUMBERING_API}/generate`, generatePayload, {
+    headers: { Authorization: authorization },
+  });
+
+  return {
+    documentNumber: response.data.documentNumber,
+    historyId: response.data.historyId,
+  };
+}
+
+/**
+ * Link a generated number's history entry to the document that uses it
+ */
+export async function linkDocumentNumber(
+  authorization: string | undefined,
+  historyId: string,
+  documentId: string
+): Promise<void> {
+  await axios.put(
+    `${DOCUMENT_NUMBERING_API}/history/${historyId}`,
+    { documentId },
+    { headers: { Authorization: authorization } }
+  );
+}
@@ -1,8 +1,289 @@
+import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Button } from '@client/components/ui/button';
+import { Badge } from '@client/components/ui/badge';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Textarea } from '@client/components/ui/textarea';
+import { Check, Search, X } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@client/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
 import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
-import { Construction } from 'lucide-react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { getConversionFactor, ProductUnit } from '@client/lib/uom';
+
+type Mode = 'existing' | 'new';
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  pending: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+};
 
 const Adjustment = () => {
+  const [mode, setMode] = useState<Mode>('existing');
+  const [reasonCodes, setReasonCodes] = useState<any[]>([]);
+  const [approvalThreshold, setApprovalThreshold] = useState(0);
+  const [stockSearch, setStockSearch] = useState('');
+  const [stockRows, setStockRows] = useState<any[]>([]);
+  const [selectedRow, setSelectedRow] = useState<any>(null);
+  const [binSearch, setBinSearch] = useState('');
+  const [binOptions, setBinOptions] = useState<any[]>([]);
+  const [productSearch, setProductSearch] = useState('');
+  const [productOptions, setProductOptions] = useState<any[]>([]);
+  const [binId, setBinId] = useState('');
+  const [productId, setProductId] = useState('');
+  const [batchNumber, setBatchNumber] = useState('');
+  const [lotNumber, setLotNumber] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [unitCost, setUnitCost] = useState('');
+  const [quantityDelta, setQuantityDelta] = useState('');
+  const [productUnits, setProductUnits] = useState<{ baseUom: string; uoms: ProductUnit[] } | null>(null);
+  const [uom, setUom] = useState('');
+  const [reasonCode, setReasonCode] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [adjustments, setAdjustments] = useState<any[]>([]);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [loading, setLoading] = useState(true);
+  const [rejecting, setRejecting] = useState<any>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  useEffect(() => {
+    fetchReasonCodes();
+    searchStock('');
+  }, []);
+
+  useEffect(() => {
+    fetchAdjustments();
+  }, [statusFilter]);
+
+  const adjustedProductId = mode === 'existing' ? selectedRow?.productId : productId;
+
+  // Units of the product being adjusted, so the change can be entered in cases, pallets, etc.
+  useEffect(() => {
+    const fetchProductUnits = async () => {
+      try {
+        const response = await axios.get(`/api/modules/master-data/products/${adjustedProductId}`);
+        const product = response.data.data;
+        setProductUnits({
+          baseUom: product.baseUom,
+          uoms: (product.uoms || []).filter((unit: any) => unit.isActive),
+        });
+        setUom(product.baseUom);
+      } catch (error) {
+        console.error('Error fetching product units:', error);
+      }
+    };
+
+    setProductUnits(null);
+    setUom('');
+    if (adjustedProductId) {
+      fetchProductUnits();
+    }
+  }, [adjustedProductId]);
+
+  const fetchReasonCodes = async () => {
+    try {
+      const response = await axios.get('/api/modules/inventory-items/adjustments/reason-codes');
+      setReasonCodes(response.data.data.reasonCodes || []);
+      setApprovalThreshold(response.data.data.approvalThreshold || 0);
+    } catch (error) {
+      console.error('Error fetching reason codes:', error);
+      toast.error('Failed to fetch reason codes');
+    }
+  };
+
+  const fetchAdjustments = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/modules/inventory-items/adjustments', {
+        params: {
+          page: 1,
+          limit: 50,
+          status: statusFilter === 'all' ? undefined : statusFilter,
+        },
+      });
+      setAdjustments(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching adjustments:', error);
+      toast.error('Failed to fetch adjustments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const searchStock = async (search: string) => {
+    try {
+      const response = await axios.get('/api/modules/inventory-items/inventory-items', {
+        params: { page: 1, limit: 10, search: search || undefined },
+      });
+      setStockRows(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching inventory items:', error);
+    }
+  };
+
+  const searchBins = async (search: string) => {
+    try {
+      const response = await axios.get('/api/modules/warehouse-setup/bins', {
+        params: { page: 1, limit: 20, search: search || undefined },
+      });
+      setBinOptions(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching bins:', error);
+    }
+  };
+
+  const searchProducts = async (search: string) => {
+    try {
+      const response = await axios.get('/api/modules/master-data/products', {
+        params: { page: 1, limit: 20, search: search || undefined },
+      });
+      setProductOptions(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    }
+  };
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setSelectedRow(null);
+    if (next === 'new' && binOptions.length === 0) {
+      searchBins('');
+      searchProducts('');
+    }
+  };
+
+  const resetForm = () => {
+    setSelectedRow(null);
+    setBinId('');
+    setProductId('');
+    setBatchNumber('');
+    setLotNumber('');
+    setExpiryDate('');
+    setUnitCost('');
+    setQuantityDelta('');
+    setReasonCode('');
+    setNotes('');
+  };
+
+  const delta = parseFloat(quantityDelta) || 0;
+  const conversionFactor = getConversionFactor(uom, productUnits?.uoms);
+  const cost = mode === 'existing' ? parseFloat(selectedRow?.costPerUnit || 0) : parseFloat(unitCost) || 0;
+  const valueImpact = Math.abs(delta) * conversionFactor * cost;
+  const needsApproval = approvalThreshold > 0 && valueImpact > approvalThreshold;
+  const selectedReason = reasonCodes.find((reason) => reason.code === reasonCode);
+
+  const handleSubmit = async () => {
+    if (mode === 'existing' && !selectedRow) {
+      toast.error('Select the stock to adjust');
+      return;
+    }
+
+    if (mode === 'new' && (!binId || !productId)) {
+      toast.error('Select a bin and a product');
+      return;
+    }
+
+    if (delta === 0) {
+      toast.error('Enter a positive or negative quantity change');
+      return;
+    }
+
+    if (!reasonCode) {
+      toast.error('Select a reason code');
+      return;
+    }
+
+    const payload = mode === 'existing'
+      ? { inventoryItemId: selectedRow.id }
+      : {
+        binId,
+        productId,
+        batchNumber: batchNumber.trim() || undefined,
+        lotNumber: lotNumber.trim() || undefined,
+        expiryDate: expiryDate || undefined,
+        unitCost: unitCost || undefined,
+      };
+
+    try {
+      setSubmitting(true);
+      const response = await axios.post('/api/modules/inventory-items/adjustments', {
+        ...payload,
+        quantityDelta: delta,
+        uom: uom || undefined,
+        reasonCode,
+        notes: notes.trim() || undefined,
+      });
+      if (response.data.data.status === 'pending') {
+        toast.warning(response.data.message);
+      } else {
+        toast.success(`${response.data.data.adjustmentNumber}: ${response.data.message}`);
+      }
+      resetForm();
+      searchStock(stockSearch);
+      fetchAdjustments();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to create adjustment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleApprove = async (adjustment: any) => {
+    try {
+      await axios.post(`/api/modules/inventory-items/adjustments/${adjustment.id}/approve`);
+      toast.success(`Adjustment ${adjustment.adjustmentNumber} approved`);
+      fetchAdjustments();
+      searchStock(stockSearch);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to approve adjustment');
+    }
+  };
+
+  const confirmReject = async () => {
+    if (!rejecting) return;
+
+    if (!rejectReason.trim()) {
+      toast.error('Enter a rejection reason');
+      return;
+    }
+
+    try {
+      await axios.post(`/api/modules/inventory-items/adjustments/${rejecting.id}/reject`, {
+        reason: rejectReason.trim(),
+      });
+      toast.success(`Adjustment ${rejecting.adjustmentNumber} rejected`);
+      setRejecting(null);
+      fetchAdjustments();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to reject adjustment');
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -16,18 +297,341 @@ const Adjustment = () => {
 
       <Card>
         <CardHeader>
-          <CardTitle>Coming Soon</CardTitle>
+          <CardTitle>New Adjustment</CardTitle>
+          <div className="flex gap-2">
+            <Button variant={mode === 'existing' ? 'default' : 'outline'} size="sm" onClick={() => switchMode('existing')}>
+              Existing Stock
+            </Button>
+            <Button variant={mode === 'new' ? 'default' : 'outline'} size="sm" onClick={() => switchMode('new')}>
+              Stock Not Yet in Bin
+            </Button>
+          </div>
         </CardHeader>
-        <CardContent>
-          <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
-            <Construction className="h-16 w-16 mb-4" />
-            <p className="text-lg font-medium">This feature is under development</p>
-            <p className="text-sm mt-2">
-              Inventory adjustment functionality will be available soon.
-            </p>
+        <CardContent className="space-y-4">
+          {mode === 'existing' ? (
+            <div className="space-y-2">
+              <div className="relative max-w-sm">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by SKU, product, batch or lot..."
+                  value={stockSearch}
+                  onChange={(e) => {
+                    setStockSearch(e.target.value);
+                    searchStock(e.target.value);
+                  }}
+                  className="pl-8"
+                />
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Bin</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Expiry</TableHead>
+                    <TableHead className="text-right">Available</TableHead>
+                    <TableHead className="text-right">Reserved</TableHead>
+                    <TableHead className="w-[100px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stockRows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-4 text-muted-foreground">
+                        No stock found.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    stockRows.map((row) => (
+                      <TableRow key={row.id} className={selectedRow?.id === row.id ? 'bg-muted' : ''}>
+                        <TableCell>
+                          <div className="font-medium">{row.product?.sku}</div>
+                          <div className="text-sm text-muted-foreground">{row.product?.name}</div>
+                        </TableCell>
+                        <TableCell>{row.bin?.name}</TableCell>
+                        <TableCell>{row.batchNumber || '-'}</TableCell>
+                        <TableCell>{row.expiryDate ? new Date(row.expiryDate).toLocaleDateString() : '-'}</TableCell>
+                        <TableCell className="text-right">{row.availableQuantity}</TableCell>
+                        <TableCell className="text-right">{row.reservedQuantity}</TableCell>
+                        <TableCell>
+                          <Button
+                            variant={selectedRow?.id === row.id ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setSelectedRow(row)}
+                          >
+                            {selectedRow?.id === row.id ? 'Selected' : 'Select'}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Bin</Label>
+                <Input
+                  placeholder="Search bins..."
+                  value={binSearch}
+                  onChange={(e) => {
+                    setBinSearch(e.target.value);
+                    searchBins(e.target.value);
+                  }}
+                />
+                <Select value={binId} onValueChange={setBinId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select bin" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {binOptions.map((bin) => (
+                      <SelectItem key={bin.id} value={bin.id}>
+                        {bin.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Product</Label>
+                <Input
+                  placeholder="Search products..."
+                  value={productSearch}
+                  onChange={(e) => {
+                    setProductSearch(e.target.value);
+                    searchProducts(e.target.value);
+                  }}
+                />
+                <Select value={productId} onValueChange={setProductId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {productOptions.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.sku} — {product.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adj-batch">Batch Number</Label>
+                <Input id="adj-batch" value={batchNumber} onChange={(e) => setBatchNumber(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adj-lot">Lot Number</Label>
+                <Input id="adj-lot" value={lotNumber} onChange={(e) => setLotNumber(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adj-expiry">Expiry Date</Label>
+                <Input id="adj-expiry" type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adj-cost">Unit Cost</Label>
+                <Input
+                  id="adj-cost"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={unitCost}
+                  onChange={(e) => setUnitCost(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="adj-delta">Quantity Change</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="adj-delta"
+                  type="number"
+                  step={1}
+                  placeholder="e.g. -5 or 10"
+                  value={quantityDelta}
+                  onChange={(e) => setQuantityDelta(e.target.value)}
+                />
+                {productUnits && productUnits.uoms.length > 0 && (
+                  <Select value={uom} onValueChange={setUom}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={productUnits.baseUom}>{productUnits.baseUom}</SelectItem>
+                      {productUnits.uoms.map((unit) => (
+                        <SelectItem key={unit.uom} value={unit.uom}>
+                          {unit.uom} ({unit.conversionFactor})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              {conversionFactor > 1 && delta !== 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {delta * conversionFactor} {productUnits?.baseUom}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reasonCode} onValueChange={setReasonCode}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {reasonCodes.map((reason) => (
+                    <SelectItem key={reason.code} value={reason.code}>
+                      {reason.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedReason && selectedReason.direction !== 'both' && (
+                <p className="text-xs text-muted-foreground">Only allows a quantity {selectedReason.direction}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="adj-notes">Notes</Label>
+            <Textarea id="adj-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
           </div>
+
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-muted-foreground">
+              Value impact: ${valueImpact.toFixed(2)}
+              {needsApproval && ` — above the approval threshold of $${approvalThreshold.toFixed(2)}, needs approval`}
+            </div>
+            <Button onClick={handleSubmit} disabled={submitting}>
+              {submitting ? 'Saving...' : needsApproval ? 'Submit for Approval' : 'Apply Adjustment'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Adjustments</CardTitle>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="pending">Pending Approval</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Bin / Batch</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Requested By</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {adjustments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-8">
+                      No adjustments found.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  adjustments.map((adjustment) => (
+                    <TableRow key={adjustment.id}>
+                      <TableCell className="font-medium">{adjustment.adjustmentNumber}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{adjustment.productSku}</div>
+                        <div className="text-sm text-muted-foreground">{adjustment.productName}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{adjustment.binName}</div>
+                        <div className="text-sm text-muted-foreground">{adjustment.batchNumber || '-'}</div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {adjustment.quantityDelta > 0 ? `+${adjustment.quantityDelta}` : adjustment.quantityDelta}
+                      </TableCell>
+                      <TableCell>
+                        {reasonCodes.find((reason) => reason.code === adjustment.reasonCode)?.name || adjustment.reasonCode}
+                      </TableCell>
+                      <TableCell className="text-right">${parseFloat(adjustment.valueImpact || 0).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={STATUS_VARIANTS[adjustment.status]}
+                          className="capitalize"
+                          title={adjustment.rejectionReason || undefined}
+                        >
+                          {adjustment.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{adjustment.createdByName}</TableCell>
+                      <TableCell>
+                        {adjustment.status === 'pending' && (
+                          <div className="flex gap-2">
+                            <Button variant="ghost" size="icon" onClick={() => handleApprove(adjustment)} title="Approve">
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => {
+                                setRejectReason('');
+                                setRejecting(adjustment);
+                              }}
+                              title="Reject"
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {rejecting?.adjustmentNumber}</DialogTitle>
+            <DialogDescription>The adjustment will not change stock.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-reason">Reason</Label>
+            <Textarea id="reject-reason" value={rejectReason} onChange={(e) => setRejectReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={confirmReject}>
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,8 +1,508 @@
+import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Button } from '@client/components/ui/button';
+import { Badge } from '@client/components/ui/badge';
+import { Checkbox } from '@client/components/ui/checkbox';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Textarea } from '@client/components/ui/textarea';
+import { ArrowLeft, Eye, Plus } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@client/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
 import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
-import { Construction } from 'lucide-react';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+const SESSION_STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  counting: 'secondary',
+  review: 'outline',
+  posted: 'default',
+  cancelled: 'destructive',
+};
+
+const LINE_STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  counted: 'outline',
+  recount: 'destructive',
+  approved: 'default',
+};
 
 const CycleCount = () => {
+  const [sessions, setSessions] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [session, setSession] = useState<any>(null);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [selectedLineIds, setSelectedLineIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  // New session dialog
+  const [createOpen, setCreateOpen] = useState(false);
+  const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [warehouseId, setWarehouseId] = useState('');
+  const [scopeType, setScopeType] = useState('zone');
+  const [zoneId, setZoneId] = useState('');
+  const [aisleId, setAisleId] = useState('');
+  const [binIds, setBinIds] = useState<string[]>([]);
+  const [blindCount, setBlindCount] = useState(true);
+  const [notes, setNotes] = useState('');
+
+  // Found stock dialog
+  const [foundOpen, setFoundOpen] = useState(false);
+  const [foundBinId, setFoundBinId] = useState('');
+  const [productSearch, setProductSearch] = useState('');
+  const [productOptions, setProductOptions] = useState<any[]>([]);
+  const [foundProductId, setFoundProductId] = useState('');
+  const [foundBatch, setFoundBatch] = useState('');
+  const [foundExpiry, setFoundExpiry] = useState('');
+  const [foundQuantity, setFoundQuantity] = useState('');
+
+  useEffect(() => {
+    fetchSessions();
+  }, [statusFilter]);
+
+  const fetchSessions = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/modules/inventory-items/cycle-counts', {
+        params: {
+          page: 1,
+          limit: 50,
+          status: statusFilter === 'all' ? undefined : statusFilter,
+        },
+      });
+      setSessions(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching cycle counts:', error);
+      toast.error('Failed to fetch cycle counts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openSession = async (id: string) => {
+    try {
+      const response = await axios.get(`/api/modules/inventory-items/cycle-counts/${id}`);
+      setSession(response.data.data);
+      setCounts({});
+      setSelectedLineIds([]);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to fetch cycle count');
+    }
+  };
+
+  const openCreate = async () => {
+    setWarehouseId('');
+    setScopeType('zone');
+    setZoneId('');
+    setAisleId('');
+    setBinIds([]);
+    setBlindCount(true);
+    setNotes('');
+    setCreateOpen(true);
+
+    if (warehouses.length === 0) {
+      try {
+        const response = await axios.get('/api/modules/warehouse-setup/warehouses', {
+          params: { page: 1, limit: 100, includeHierarchy: true },
+        });
+        setWarehouses(response.data.data || []);
+      } catch (error) {
+        console.error('Error fetching warehouses:', error);
+        toast.error('Failed to fetch warehouses');
+      }
+    }
+  };
+
+  const selectedWarehouse = warehouses.find((warehouse) => warehouse.id === warehouseId);
+  const warehouseZones: any[] = selectedWarehouse?.zones || [];
+  const warehouseAisles: any[] = warehouseZones.flatMap((zone) =>
+    (zone.aisles || []).map((aisle: any) => ({ ...aisle, zoneName: zone.name }))
+  );
+  const warehouseBins: any[] = warehouseAisles.flatMap((aisle) =>
+    (aisle.shelves || []).flatMap((shelf: any) =>
+      (shelf.bins || []).map((bin: any) => ({ ...bin, path: `${aisle.zoneName} / ${aisle.name} / ${shelf.name}` }))
+    )
+  );
+
+  const handleCreate = async () => {
+    if (!warehouseId) {
+      toast.error('Select a warehouse');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await axios.post('/api/modules/inventory-items/cycle-counts', {
+        warehouseId,
+        scopeType,
+        zoneId: scopeType === 'zone' ? zoneId : undefined,
+        aisleId: scopeType === 'aisle' ? aisleId : undefined,
+        binIds: scopeType === 'bins' ? binIds : undefined,
+        blindCount,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(`${response.data.data.countNumber}: ${response.data.message}`);
+      setCreateOpen(false);
+      setSession(response.data.data);
+      setCounts({});
+      setSelectedLineIds([]);
+      fetchSessions();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to start cycle count');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const saveCount = async (line: any) => {
+    const value = counts[line.id];
+    if (value === undefined || value === '') {
+      toast.error('Enter the counted quantity');
+      return;
+    }
+
+    try {
+      await axios.put(`/api/modules/inventory-items/cycle-counts/${session.id}/lines/${line.id}`, {
+        countedQuantity: parseInt(value),
+      });
+      toast.success(`Count saved for ${line.productSku} in ${line.binName}`);
+      const { [line.id]: _saved, ...rest } = counts;
+      setCounts(rest);
+      openSession(session.id);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save count');
+    }
+  };
+
+  const searchProducts = async (search: string) => {
+    try {
+      const response = await axios.get('/api/modules/master-data/products', {
+        params: { page: 1, limit: 20, search: search || undefined },
+      });
+      setProductOptions(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    }
+  };
+
+  const openFound = () => {
+    setFoundBinId('');
+    setProductSearch('');
+    setFoundProductId('');
+    setFoundBatch('');
+    setFoundExpiry('');
+    setFoundQuantity('');
+    setFoundOpen(true);
+    searchProducts('');
+  };
+
+  const handleAddFound = async () => {
+    if (!foundBinId || !foundProductId || foundQuantity === '') {
+      toast.error('Select a bin and a product and enter the counted quantity');
+      return;
+    }
+
+    try {
+      await axios.post(`/api/modules/inventory-items/cycle-counts/${session.id}/lines`, {
+        binId: foundBinId,
+        productId: foundProductId,
+        batchNumber: foundBatch.trim() || undefined,
+        expiryDate: foundExpiry || undefined,
+        countedQuantity: parseInt(foundQuantity),
+      });
+      toast.success('Found stock added to the count');
+      setFoundOpen(false);
+      openSession(session.id);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to add line');
+    }
+  };
+
+  const runAction = async (action: string, body?: any) => {
+    try {
+      setSubmitting(true);
+      const response = await axios.post(`/api/modules/inventory-items/cycle-counts/${session.id}/${action}`, body);
+      toast.success(response.data.message);
+      if (action === 'cancel') {
+        setSession(null);
+      } else {
+        setSession(response.data.data);
+        setSelectedLineIds([]);
+      }
+      fetchSessions();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Action failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleLine = (lineId: string, checked: boolean) => {
+    setSelectedLineIds(checked ? [...selectedLineIds, lineId] : selectedLineIds.filter((id) => id !== lineId));
+  };
+
+  const scopeLabel = (row: any) => {
+    if (row.scopeType === 'zone') return `Zone ${row.zoneName}`;
+    if (row.scopeType === 'aisle') return `Aisle ${row.aisleName}`;
+    if (row.scopeType === 'bins') return 'Selected bins';
+    return 'Whole warehouse';
+  };
+
+  if (session) {
+    const counting = session.status === 'counting';
+    const reviewing = session.status === 'review';
+    const reviewable = session.lines.filter((line: any) => line.status === 'counted' || line.status === 'approved');
+
+    return (
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => setSession(null)}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold">{session.countNumber}</h1>
+              <p className="text-muted-foreground">
+                {session.warehouseName} · {scopeLabel(session)} · {session.bins.length} bin(s)
+                {session.blindCount && ' · Blind count'}
+              </p>
+            </div>
+            <Badge variant={SESSION_STATUS_VARIANTS[session.status]} className="capitalize">
+              {session.status}
+            </Badge>
+          </div>
+          <div className="flex gap-2">
+            {counting && (
+              <>
+                <Button variant="outline" onClick={openFound}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Found Stock
+                </Button>
+                <Button onClick={() => runAction('submit')} disabled={submitting}>
+                  Submit for Review
+                </Button>
+              </>
+            )}
+            {reviewing && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => runAction('review', { lineIds: selectedLineIds, action: 'recount' })}
+                  disabled={submitting || selectedLineIds.length === 0}
+                >
+                  Request Recount
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => runAction('review', { lineIds: selectedLineIds, action: 'approve' })}
+                  disabled={submitting || selectedLineIds.length === 0}
+                >
+                  Approve Selected
+                </Button>
+                <Button onClick={() => runAction('post')} disabled={submitting}>
+                  Post Variances
+                </Button>
+              </>
+            )}
+            {(counting || reviewing) && (
+              <Button variant="destructive" onClick={() => runAction('cancel')} disabled={submitting}>
+                Cancel Count
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {reviewing && (
+                    <TableHead className="w-[40px]">
+                      <Checkbox
+                        checked={reviewable.length > 0 && selectedLineIds.length === reviewable.length}
+                        onCheckedChange={(checked) =>
+                          setSelectedLineIds(checked ? reviewable.map((line: any) => line.id) : [])
+                        }
+                      />
+                    </TableHead>
+                  )}
+                  <TableHead>Bin</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Available Now</TableHead>
+                  <TableHead className="text-right">Counted</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead>Status</TableHead>
+                  {counting && <TableHead className="w-[200px]">Count</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {session.lines.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={10} className="text-center py-8">
+                      No stock in scope. Add any stock found in the bins.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  session.lines.map((line: any) => (
+                    <TableRow key={line.id}>
+                      {reviewing && (
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedLineIds.includes(line.id)}
+                            onCheckedChange={(checked) => toggleLine(line.id, !!checked)}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>{line.binName}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{line.productSku}</div>
+                        <div className="text-sm text-muted-foreground">{line.productName}</div>
+                      </TableCell>
+                      <TableCell>{line.batchNumber || '-'}</TableCell>
+                      <TableCell className="text-right">{line.expectedQuantity ?? '—'}</TableCell>
+                      <TableCell className="text-right">{line.currentQuantity ?? '—'}</TableCell>
+                      <TableCell className="text-right">{line.countedQuantity ?? '-'}</TableCell>
+                      <TableCell
+                        className={`text-right ${line.variance ? 'font-medium text-destructive' : ''}`}
+                      >
+                        {line.variance === null ? '—' : line.variance > 0 ? `+${line.variance}` : line.variance}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={LINE_STATUS_VARIANTS[line.status]} className="capitalize">
+                          {line.status}
+                        </Badge>
+                        {line.recountCount > 0 && (
+                          <div className="text-xs text-muted-foreground mt-1">Recounts: {line.recountCount}</div>
+                        )}
+                      </TableCell>
+                      {counting && (
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Input
+                              type="number"
+                              min={0}
+                              className="w-24"
+                              value={counts[line.id] ?? ''}
+                              placeholder={line.countedQuantity?.toString() ?? ''}
+                              onChange={(e) => setCounts({ ...counts, [line.id]: e.target.value })}
+                            />
+                            <Button size="sm" onClick={() => saveCount(line)}>
+                              Save
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Dialog open={foundOpen} onOpenChange={setFoundOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add Found Stock</DialogTitle>
+              <DialogDescription>Record stock found in a bin of this count that has no line yet.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Bin</Label>
+                <Select value={foundBinId} onValueChange={setFoundBinId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select bin" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {session.bins.map((bin: any) => (
+                      <SelectItem key={bin.id} value={bin.id}>
+                        {bin.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Product</Label>
+                <Input
+                  placeholder="Search products..."
+                  value={productSearch}
+                  onChange={(e) => {
+                    setProductSearch(e.target.value);
+                    searchProducts(e.target.value);
+                  }}
+                />
+                <Select value={foundProductId} onValueChange={setFoundProductId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {productOptions.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.sku} — {product.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="found-batch">Batch Number</Label>
+                  <Input id="found-batch" value={foundBatch} onChange={(e) => setFoundBatch(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="found-expiry">Expiry Date</Label>
+                  <Input id="found-expiry" type="date" value={foundExpiry} onChange={(e) => setFoundExpiry(e.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="found-quantity">Counted Quantity</Label>
+                <Input
+                  id="found-quantity"
+                  type="number"
+                  min={0}
+                  value={foundQuantity}
+                  onChange={(e) => setFoundQuantity(e.target.value)}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setFoundOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleAddFound}>Add</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -12,22 +512,213 @@ const CycleCount = () => {
             Perform physical inventory counts and audits
           </p>
         </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Count
+        </Button>
       </div>
 
       <Card>
-        <CardHeader>
-          <CardTitle>Coming Soon</CardTitle>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Count Sessions</CardTitle>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="counting">Counting</SelectItem>
+              <SelectItem value="review">In Review</SelectItem>
+              <SelectItem value="posted">Posted</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+            </SelectContent>
+          </Select>
         </CardHeader>
         <CardContent>
-          <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
-            <Construction className="h-16 w-16 mb-4" />
-            <p className="text-lg font-medium">This feature is under development</p>
-            <p className="text-sm mt-2">
-              Cycle count and audit functionality will be available soon.
-            </p>
-          </div>
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Started By</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead className="w-[80px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8">
+                      No cycle counts found.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sessions.map((row) => (
+                    <TableRow key={row.id}>
+                      <TableCell className="font-medium">
+                        {row.countNumber}
+                        {row.blindCount && <Badge variant="outline" className="ml-2">Blind</Badge>}
+                      </TableCell>
+                      <TableCell>{row.warehouseName}</TableCell>
+                      <TableCell>{scopeLabel(row)}</TableCell>
+                      <TableCell>{row.countedLines} / {row.lineCount} counted</TableCell>
+                      <TableCell>
+                        <Badge variant={SESSION_STATUS_VARIANTS[row.status]} className="capitalize">
+                          {row.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{row.createdByName}</TableCell>
+                      <TableCell>{new Date(row.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="icon" onClick={() => openSession(row.id)} title="Open">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Cycle Count</DialogTitle>
+            <DialogDescription>
+              Bins in scope are frozen against stock moves until the count is posted or cancelled.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Warehouse</Label>
+                <Select
+                  value={warehouseId}
+                  onValueChange={(value) => {
+                    setWarehouseId(value);
+                    setZoneId('');
+                    setAisleId('');
+                    setBinIds([]);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Scope</Label>
+                <Select value={scopeType} onValueChange={setScopeType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="warehouse">Whole warehouse</SelectItem>
+                    <SelectItem value="zone">Zone</SelectItem>
+                    <SelectItem value="aisle">Aisle</SelectItem>
+                    <SelectItem value="bins">Selected bins</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {scopeType === 'zone' && (
+              <div className="space-y-2">
+                <Label>Zone</Label>
+                <Select value={zoneId} onValueChange={setZoneId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select zone" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouseZones.map((zone) => (
+                      <SelectItem key={zone.id} value={zone.id}>
+                        {zone.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {scopeType === 'aisle' && (
+              <div className="space-y-2">
+                <Label>Aisle</Label>
+                <Select value={aisleId} onValueChange={setAisleId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select aisle" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouseAisles.map((aisle) => (
+                      <SelectItem key={aisle.id} value={aisle.id}>
+                        {aisle.zoneName} / {aisle.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {scopeType === 'bins' && (
+              <div className="space-y-2">
+                <Label>Bins ({binIds.length} selected)</Label>
+                <div className="max-h-60 overflow-y-auto border rounded-md p-2 space-y-1">
+                  {warehouseBins.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Select a warehouse with bins.</p>
+                  ) : (
+                    warehouseBins.map((bin) => (
+                      <label key={bin.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={binIds.includes(bin.id)}
+                          onCheckedChange={(checked) =>
+                            setBinIds(checked ? [...binIds, bin.id] : binIds.filter((id) => id !== bin.id))
+                          }
+                        />
+                        <span className="font-medium">{bin.name}</span>
+                        <span className="text-muted-foreground">{bin.path}</span>
+                        {bin.countRequestedAt && <Badge variant="outline">Short pick</Badge>}
+                      </label>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={blindCount} onCheckedChange={(checked) => setBlindCount(!!checked)} />
+              Blind count — hide expected quantities from counters
+            </label>
+
+            <div className="space-y-2">
+              <Label htmlFor="count-notes">Notes</Label>
+              <Textarea id="count-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={submitting}>
+              {submitting ? 'Starting...' : 'Start Count'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
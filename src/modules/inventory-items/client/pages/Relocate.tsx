@@ -1,13 +1,144 @@
+import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Button } from '@client/components/ui/button';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Textarea } from '@client/components/ui/textarea';
+import { ArrowRight, Search } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@client/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
 import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
-import { Construction } from 'lucide-react';
+import axios from 'axios';
+import { toast } from 'sonner';
 
 const Relocate = () => {
+  const [stockSearch, setStockSearch] = useState('');
+  const [stockRows, setStockRows] = useState<any[]>([]);
+  const [selectedRow, setSelectedRow] = useState<any>(null);
+  const [quantity, setQuantity] = useState('');
+  const [destinations, setDestinations] = useState<any[]>([]);
+  const [toBinId, setToBinId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [transfers, setTransfers] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    searchStock('');
+    fetchTransfers();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedRow) return;
+
+    // Capacity checks depend on the quantity, so re-rank the bins when it changes
+    const timer = setTimeout(() => fetchDestinations(selectedRow.id, parseInt(quantity) || undefined), 300);
+    return () => clearTimeout(timer);
+  }, [selectedRow, quantity]);
+
+  const searchStock = async (search: string) => {
+    try {
+      const response = await axios.get('/api/modules/inventory-items/inventory-items', {
+        params: { page: 1, limit: 10, search: search || undefined },
+      });
+      setStockRows(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching inventory items:', error);
+    }
+  };
+
+  const fetchTransfers = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/modules/inventory-items/transfers', {
+        params: { page: 1, limit: 20 },
+      });
+      setTransfers(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching transfers:', error);
+      toast.error('Failed to fetch transfers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchDestinations = async (inventoryItemId: string, moveQuantity?: number) => {
+    try {
+      const response = await axios.get('/api/modules/inventory-items/transfers/destinations', {
+        params: { inventoryItemId, quantity: moveQuantity },
+      });
+      setDestinations(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching destination bins:', error);
+      setDestinations([]);
+    }
+  };
+
+  const selectRow = (row: any) => {
+    setSelectedRow(row);
+    setQuantity(row.availableQuantity.toString());
+    setToBinId('');
+    setNotes('');
+  };
+
+  const selectedDestination = destinations.find((destination) => destination.binId === toBinId);
+
+  const handleTransfer = async () => {
+    if (!selectedRow) {
+      toast.error('Select the stock to move');
+      return;
+    }
+
+    const moveQuantity = parseInt(quantity);
+    if (!moveQuantity || moveQuantity <= 0 || moveQuantity > selectedRow.availableQuantity) {
+      toast.error(`Enter a quantity between 1 and ${selectedRow.availableQuantity}`);
+      return;
+    }
+
+    if (!toBinId) {
+      toast.error('Select a destination bin');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await axios.post('/api/modules/inventory-items/transfers', {
+        inventoryItemId: selectedRow.id,
+        toBinId,
+        quantity: moveQuantity,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(`Moved ${moveQuantity} unit(s) of ${selectedRow.product?.sku} to ${selectedDestination?.binName}`);
+      (response.data.warnings || []).forEach((warning: string) => toast.warning(warning));
+      setSelectedRow(null);
+      setDestinations([]);
+      searchStock(stockSearch);
+      fetchTransfers();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to transfer stock');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <div>
-          <h1 className="text-3xl font-bold">Inventory Relocation</h1>
+          <h1 className="text-3xl font-bold">Relocate Inventory</h1>
           <p className="text-muted-foreground">
             Move inventory items between bins and locations
           </p>
@@ -16,16 +147,184 @@ const Relocate = () => {
 
       <Card>
         <CardHeader>
-          <CardTitle>Coming Soon</CardTitle>
+          <CardTitle>Select Stock</CardTitle>
         </CardHeader>
-        <CardContent>
-          <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
-            <Construction className="h-16 w-16 mb-4" />
-            <p className="text-lg font-medium">This feature is under development</p>
-            <p className="text-sm mt-2">
-              Inventory relocation functionality will be available soon.
-            </p>
+        <CardContent className="space-y-2">
+          <div className="relative max-w-sm">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by SKU, product, batch or lot..."
+              value={stockSearch}
+              onChange={(e) => {
+                setStockSearch(e.target.value);
+                searchStock(e.target.value);
+              }}
+              className="pl-8"
+            />
           </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Bin</TableHead>
+                <TableHead>Batch / Lot</TableHead>
+                <TableHead>Expiry</TableHead>
+                <TableHead className="text-right">Available</TableHead>
+                <TableHead className="text-right">Reserved</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stockRows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-4 text-muted-foreground">
+                    No stock found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                stockRows.map((row) => (
+                  <TableRow key={row.id} className={selectedRow?.id === row.id ? 'bg-muted' : ''}>
+                    <TableCell>
+                      <div className="font-medium">{row.product?.sku}</div>
+                      <div className="text-sm text-muted-foreground">{row.product?.name}</div>
+                    </TableCell>
+                    <TableCell>{row.bin?.name}</TableCell>
+                    <TableCell>
+                      <div>{row.batchNumber || '-'}</div>
+                      <div className="text-sm text-muted-foreground">{row.lotNumber || ''}</div>
+                    </TableCell>
+                    <TableCell>{row.expiryDate ? new Date(row.expiryDate).toLocaleDateString() : '-'}</TableCell>
+                    <TableCell className="text-right">{row.availableQuantity}</TableCell>
+                    <TableCell className="text-right">{row.reservedQuantity}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant={selectedRow?.id === row.id ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => selectRow(row)}
+                        disabled={row.availableQuantity === 0}
+                      >
+                        {selectedRow?.id === row.id ? 'Selected' : 'Select'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selectedRow && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Move {selectedRow.product?.sku} from {selectedRow.bin?.name}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="move-quantity">Quantity (max {selectedRow.availableQuantity})</Label>
+                <Input
+                  id="move-quantity"
+                  type="number"
+                  min={1}
+                  max={selectedRow.availableQuantity}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                />
+                {selectedRow.reservedQuantity > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {selectedRow.reservedQuantity} reserved unit(s) stay in the current bin
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Destination Bin</Label>
+                <Select value={toBinId} onValueChange={setToBinId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select destination bin" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {destinations.map((destination) => (
+                      <SelectItem key={destination.binId} value={destination.binId} disabled={!destination.eligible}>
+                        {destination.binName} — {destination.zoneName} / {destination.aisleName} / {destination.shelfName}
+                        {!destination.eligible && ` (${destination.reasons.join(', ')})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedDestination && selectedDestination.reasons.length > 0 && (
+                  <p className="text-xs text-muted-foreground">{selectedDestination.reasons.join(' · ')}</p>
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="move-notes">Notes</Label>
+              <Textarea id="move-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setSelectedRow(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleTransfer} disabled={submitting}>
+                {submitting ? 'Moving...' : 'Move Stock'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Transfers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Move</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead>Moved By</TableHead>
+                  <TableHead>Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transfers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      No transfers yet.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  transfers.map((transfer) => (
+                    <TableRow key={transfer.id}>
+                      <TableCell>
+                        <div className="font-medium">{transfer.productSku}</div>
+                        <div className="text-sm text-muted-foreground">{transfer.productName}</div>
+                      </TableCell>
+                      <TableCell>{transfer.batchNumber || '-'}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {transfer.fromBinName}
+                          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                          {transfer.toBinName}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{transfer.quantity}</TableCell>
+                      <TableCell>{transfer.createdByName}</TableCell>
+                      <TableCell>{new Date(transfer.createdAt).toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -18,6 +18,7 @@ import { ViewStockDetailsDialog } from '../components/ViewStockDetailsDialog';
 import axios from 'axios';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
+import { formatUomBreakdown, ProductUnit } from '@client/lib/uom';
 
 interface StockItem {
   productId: string;
@@ -25,6 +26,8 @@ interface StockItem {
   productName: string;
   productDescription: string | null;
   hasExpiryDate: boolean;
+  baseUom: string;
+  uoms: ProductUnit[];
   totalAvailableQuantity: number;
   totalReservedQuantity: number;
   locationCount: number;
@@ -203,8 +206,13 @@ const StockInformation = () => {
                       <TableCell className="text-right">
                         <div className="flex flex-col items-end">
                           <span className="font-semibold text-green-600">
-                            {item.totalAvailableQuantity.toLocaleString()}
+                            {item.totalAvailableQuantity.toLocaleString()} {item.baseUom}
                           </span>
+                          {item.uoms.length > 0 && (
+                            <span className="text-xs text-muted-foreground">
+                              {formatUomBreakdown(Number(item.totalAvailableQuantity), item.baseUom, item.uoms)}
+                            </span>
+                          )}
                           {item.totalReservedQuantity > 0 && (
                             <span className="text-xs text-orange-600">
                               ({item.totalReservedQuantity.toLocaleString()} reserved)
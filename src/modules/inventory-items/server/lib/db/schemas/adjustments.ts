@@ -0,0 +1,90 @@
+import { relations } from 'drizzle-orm';
+import { date, decimal, index, integer, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { tenant, user } from '@server/lib/db/schema/system';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { bins } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { inventoryItems } from './inventoryItems';
+
+/**
+ * Inventory Adjustments Table
+ * A requested quantity correction for one product/batch in one bin.
+ * Stock only changes once the adjustment is `approved`; adjustments under the tenant's
+ * approval threshold are approved on creation.
+ */
+export const inventoryAdjustments = pgTable('inventory_adjustments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  adjustmentNumber: varchar('adjustment_number', { length: 100 }).notNull(),
+  inventoryItemId: uuid('inventory_item_id')
+    .references(() => inventoryItems.id),
+  productId: uuid('product_id')
+    .notNull()
+    .references(() => products.id),
+  binId: uuid('bin_id')
+    .notNull()
+    .references(() => bins.id),
+  batchNumber: varchar('batch_number', { length: 100 }),
+  lotNumber: varchar('lot_number', { length: 100 }),
+  expiryDate: date('expiry_date'),
+  quantityDelta: integer('quantity_delta').notNull(),
+  reasonCode: varchar('reason_code', { length: 100 }).notNull(),
+  unitCost: decimal('unit_cost', { precision: 10, scale: 2 }),
+  valueImpact: decimal('value_impact', { precision: 15, scale: 2 }),
+  status: varchar('status', {
+    length: 50,
+    enum: ['pending', 'approved', 'rejected']
+  }).notNull().default('pending'),
+  notes: text('notes'),
+  createdBy: uuid('created_by')
+    .references(() => user.id),
+  approvedBy: uuid('approved_by')
+    .references(() => user.id),
+  approvedAt: timestamp('approved_at'),
+  rejectedBy: uuid('rejected_by')
+    .references(() => user.id),
+  rejectedAt: timestamp('rejected_at'),
+  rejectionReason: text('rejection_reason'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    uniqueIndex('inventory_adjustments_tenant_number_idx').on(t.tenantId, t.adjustmentNumber),
+    index('inventory_adjustments_tenant_idx').on(t.tenantId),
+    index('inventory_adjustments_status_idx').on(t.status),
+    index('inventory_adjustments_inventory_item_idx').on(t.inventoryItemId),
+  ]
+);
+
+// Relations
+export const inventoryAdjustmentsRelations = relations(inventoryAdjustments, ({ one }) => ({
+  tenant: one(tenant, {
+    fields: [inventoryAdjustments.tenantId],
+    references: [tenant.id],
+  }),
+  inventoryItem: one(inventoryItems, {
+    fields: [inventoryAdjustments.inventoryItemId],
+    references: [inventoryItems.id],
+  }),
+  product: one(products, {
+    fields: [inventoryAdjustments.productId],
+    references: [products.id],
+  }),
+  bin: one(bins, {
+    fields: [inventoryAdjustments.binId],
+    references: [bins.id],
+  }),
+  creator: one(user, {
+    fields: [inventoryAdjustments.createdBy],
+    references: [user.id],
+  }),
+  approver: one(user, {
+    fields: [inventoryAdjustments.approvedBy],
+    references: [user.id],
+  }),
+}));
+
+// Types
+export type InventoryAdjustment = typeof inventoryAdjustments.$inferSelect;
+export type NewInventoryAdjustment = typeof inventoryAdjustments.$inferInsert;
@@ -0,0 +1,180 @@
+import { relations } from 'drizzle-orm';
+import { boolean, date, index, integer, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { tenant, user } from '@server/lib/db/schema/system';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { aisles, bins, warehouses, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { inventoryItems } from './inventoryItems';
+import { inventoryAdjustments } from './adjustments';
+
+/**
+ * Cycle Counts Table
+ * A count session over a warehouse, zone, aisle or hand-picked list of bins.
+ * While a session is `counting` or `review`, its bins are frozen against stock moves.
+ */
+export const cycleCounts = pgTable('cycle_counts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  countNumber: varchar('count_number', { length: 100 }).notNull(),
+  warehouseId: uuid('warehouse_id')
+    .notNull()
+    .references(() => warehouses.id),
+  scopeType: varchar('scope_type', {
+    length: 50,
+    enum: ['warehouse', 'zone', 'aisle', 'bins']
+  }).notNull(),
+  zoneId: uuid('zone_id')
+    .references(() => zones.id),
+  aisleId: uuid('aisle_id')
+    .references(() => aisles.id),
+  blindCount: boolean('blind_count').default(false).notNull(),
+  status: varchar('status', {
+    length: 50,
+    enum: ['counting', 'review', 'posted', 'cancelled']
+  }).notNull().default('counting'),
+  notes: text('notes'),
+  createdBy: uuid('created_by')
+    .references(() => user.id),
+  postedBy: uuid('posted_by')
+    .references(() => user.id),
+  postedAt: timestamp('posted_at'),
+  cancelledBy: uuid('cancelled_by')
+    .references(() => user.id),
+  cancelledAt: timestamp('cancelled_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    uniqueIndex('cycle_counts_tenant_number_idx').on(t.tenantId, t.countNumber),
+    index('cycle_counts_tenant_idx').on(t.tenantId),
+    index('cycle_counts_status_idx').on(t.status),
+  ]
+);
+
+/**
+ * Cycle Count Bins Table
+ * The bins in scope of a count session, resolved when the session is created.
+ */
+export const cycleCountBins = pgTable('cycle_count_bins', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  cycleCountId: uuid('cycle_count_id')
+    .notNull()
+    .references(() => cycleCounts.id, { onDelete: 'cascade' }),
+  binId: uuid('bin_id')
+    .notNull()
+    .references(() => bins.id),
+},
+  (t) => [
+    uniqueIndex('cycle_count_bins_unique_idx').on(t.cycleCountId, t.binId),
+    index('cycle_count_bins_bin_idx').on(t.binId),
+  ]
+);
+
+/**
+ * Cycle Count Lines Table
+ * One product/batch in one bin. Lines are created from the stock in scope when the session starts;
+ * counters add lines for stock they find that the system does not know about.
+ */
+export const cycleCountLines = pgTable('cycle_count_lines', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  cycleCountId: uuid('cycle_count_id')
+    .notNull()
+    .references(() => cycleCounts.id, { onDelete: 'cascade' }),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  binId: uuid('bin_id')
+    .notNull()
+    .references(() => bins.id),
+  productId: uuid('product_id')
+    .notNull()
+    .references(() => products.id),
+  inventoryItemId: uuid('inventory_item_id')
+    .references(() => inventoryItems.id),
+  batchNumber: varchar('batch_number', { length: 100 }),
+  lotNumber: varchar('lot_number', { length: 100 }),
+  expiryDate: date('expiry_date'),
+  expectedQuantity: integer('expected_quantity').default(0).notNull(),
+  countedQuantity: integer('counted_quantity'),
+  varianceQuantity: integer('variance_quantity'),
+  recountCount: integer('recount_count').default(0).notNull(),
+  status: varchar('status', {
+    length: 50,
+    enum: ['pending', 'counted', 'recount', 'approved']
+  }).notNull().default('pending'),
+  adjustmentId: uuid('adjustment_id')
+    .references(() => inventoryAdjustments.id),
+  notes: text('notes'),
+  countedBy: uuid('counted_by')
+    .references(() => user.id),
+  countedAt: timestamp('counted_at'),
+  reviewedBy: uuid('reviewed_by')
+    .references(() => user.id),
+  reviewedAt: timestamp('reviewed_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    index('cycle_count_lines_count_idx').on(t.cycleCountId),
+    index('cycle_count_lines_bin_idx').on(t.binId),
+  ]
+);
+
+// Relations
+export const cycleCountsRelations = relations(cycleCounts, ({ one, many }) => ({
+  tenant: one(tenant, {
+    fields: [cycleCounts.tenantId],
+    references: [tenant.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [cycleCounts.warehouseId],
+    references: [warehouses.id],
+  }),
+  creator: one(user, {
+    fields: [cycleCounts.createdBy],
+    references: [user.id],
+  }),
+  bins: many(cycleCountBins),
+  lines: many(cycleCountLines),
+}));
+
+export const cycleCountBinsRelations = relations(cycleCountBins, ({ one }) => ({
+  cycleCount: one(cycleCounts, {
+    fields: [cycleCountBins.cycleCountId],
+    references: [cycleCounts.id],
+  }),
+  bin: one(bins, {
+    fields: [cycleCountBins.binId],
+    references: [bins.id],
+  }),
+}));
+
+export const cycleCountLinesRelations = relations(cycleCountLines, ({ one }) => ({
+  cycleCount: one(cycleCounts, {
+    fields: [cycleCountLines.cycleCountId],
+    references: [cycleCounts.id],
+  }),
+  bin: one(bins, {
+    fields: [cycleCountLines.binId],
+    references: [bins.id],
+  }),
+  product: one(products, {
+    fields: [cycleCountLines.productId],
+    references: [products.id],
+  }),
+  inventoryItem: one(inventoryItems, {
+    fields: [cycleCountLines.inventoryItemId],
+    references: [inventoryItems.id],
+  }),
+  adjustment: one(inventoryAdjustments, {
+    fields: [cycleCountLines.adjustmentId],
+    references: [inventoryAdjustments.id],
+  }),
+}));
+
+// Types
+export type CycleCount = typeof cycleCounts.$inferSelect;
+export type NewCycleCount = typeof cycleCounts.$inferInsert;
+export type CycleCountLine = typeof cycleCountLines.$inferSelect;
+export type NewCycleCountLine = typeof cycleCountLines.$inferInsert;
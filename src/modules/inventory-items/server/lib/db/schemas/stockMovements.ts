@@ -0,0 +1,97 @@
+import { relations } from 'drizzle-orm';
+import { date, index, integer, pgTable, text, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import { tenant, user } from '@server/lib/db/schema/system';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { bins } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { inventoryItems } from './inventoryItems';
+
+export const stockMovementTypes = [
+  'opening_balance',
+  'receipt',
+  'putaway',
+  'transfer',
+  'adjustment',
+  'pick',
+  'pick_short',
+  'count_variance',
+  'manual',
+] as const;
+export type StockMovementType = typeof stockMovementTypes[number];
+
+/**
+ * Stock Movements Table
+ * Append-only ledger of on-hand (available + reserved) quantity changes, one row per bin whose
+ * quantity changed. Rows are never updated or deleted; a correction is recorded as a new movement.
+ * Moves between bins write an outbound and an inbound row that both carry the from/to bins.
+ */
+export const stockMovements = pgTable('stock_movements', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  movementType: varchar('movement_type', {
+    length: 50,
+    enum: stockMovementTypes
+  }).notNull(),
+  // Kept when the row is deleted; product, bin and batch still identify the stock
+  inventoryItemId: uuid('inventory_item_id')
+    .references(() => inventoryItems.id, { onDelete: 'set null' }),
+  productId: uuid('product_id')
+    .notNull()
+    .references(() => products.id),
+  binId: uuid('bin_id')
+    .notNull()
+    .references(() => bins.id),
+  fromBinId: uuid('from_bin_id')
+    .references(() => bins.id),
+  toBinId: uuid('to_bin_id')
+    .references(() => bins.id),
+  quantityDelta: integer('quantity_delta').notNull(),
+  batchNumber: varchar('batch_number', { length: 100 }),
+  lotNumber: varchar('lot_number', { length: 100 }),
+  expiryDate: date('expiry_date'),
+  reasonCode: varchar('reason_code', { length: 100 }),
+  referenceType: varchar('reference_type', { length: 100 }),
+  referenceId: uuid('reference_id'),
+  referenceNumber: varchar('reference_number', { length: 100 }),
+  notes: text('notes'),
+  createdBy: uuid('created_by')
+    .references(() => user.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+},
+  (t) => [
+    index('stock_movements_tenant_idx').on(t.tenantId),
+    index('stock_movements_tenant_product_bin_idx').on(t.tenantId, t.productId, t.binId, t.createdAt),
+    index('stock_movements_inventory_item_idx').on(t.inventoryItemId),
+    index('stock_movements_reference_idx').on(t.referenceType, t.referenceId),
+    index('stock_movements_created_at_idx').on(t.createdAt),
+  ]
+);
+
+// Relations
+export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+  tenant: one(tenant, {
+    fields: [stockMovements.tenantId],
+    references: [tenant.id],
+  }),
+  inventoryItem: one(inventoryItems, {
+    fields: [stockMovements.inventoryItemId],
+    references: [inventoryItems.id],
+  }),
+  product: one(products, {
+    fields: [stockMovements.productId],
+    references: [products.id],
+  }),
+  bin: one(bins, {
+    fields: [stockMovements.binId],
+    references: [bins.id],
+  }),
+  creator: one(user, {
+    fields: [stockMovements.createdBy],
+    references: [user.id],
+  }),
+}));
+
+// Types
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type NewStockMovement = typeof stockMovements.$inferInsert;
@@ -0,0 +1,66 @@
+import { relations } from 'drizzle-orm';
+import { date, index, integer, pgTable, text, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import { tenant, user } from '@server/lib/db/schema/system';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { bins } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { inventoryItems } from './inventoryItems';
+
+/**
+ * Stock Transfers Table
+ * A bin-to-bin move of part or all of an inventory row. Partial moves split the row, so the
+ * destination row can differ from the source row.
+ */
+export const stockTransfers = pgTable('stock_transfers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  productId: uuid('product_id')
+    .notNull()
+    .references(() => products.id),
+  fromInventoryItemId: uuid('from_inventory_item_id')
+    .notNull()
+    .references(() => inventoryItems.id),
+  toInventoryItemId: uuid('to_inventory_item_id')
+    .notNull()
+    .references(() => inventoryItems.id),
+  fromBinId: uuid('from_bin_id')
+    .notNull()
+    .references(() => bins.id),
+  toBinId: uuid('to_bin_id')
+    .notNull()
+    .references(() => bins.id),
+  quantity: integer('quantity').notNull(),
+  batchNumber: varchar('batch_number', { length: 100 }),
+  lotNumber: varchar('lot_number', { length: 100 }),
+  expiryDate: date('expiry_date'),
+  notes: text('notes'),
+  createdBy: uuid('created_by')
+    .references(() => user.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+},
+  (t) => [
+    index('stock_transfers_tenant_created_idx').on(t.tenantId, t.createdAt),
+    index('stock_transfers_product_idx').on(t.productId),
+  ]
+);
+
+// Relations
+export const stockTransfersRelations = relations(stockTransfers, ({ one }) => ({
+  tenant: one(tenant, {
+    fields: [stockTransfers.tenantId],
+    references: [tenant.id],
+  }),
+  product: one(products, {
+    fields: [stockTransfers.productId],
+    references: [products.id],
+  }),
+  creator: one(user, {
+    fields: [stockTransfers.createdBy],
+    references: [user.id],
+  }),
+}));
+
+// Types
+export type StockTransfer = typeof stockTransfers.$inferSelect;
+export type NewStockTransfer = typeof stockTransfers.$inferInsert;
@@ -0,0 +1,811 @@
+import express from 'express';
+import { db } from '@server/lib/db';
+import { inventoryItems } from '../lib/db/schemas/inventoryItems';
+import { inventoryAdjustments } from '../lib/db/schemas/adjustments';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { bins } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { user } from '@server/lib/db/schema/system';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { eq, and, desc, count, ilike, or, isNull } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { logAudit, getClientIp } from '@server/services/auditService';
+import { generateDocumentNumber, linkDocumentNumber } from '@modules/document-numbering/server/services/documentNumberService';
+import {
+  AdjustmentValidationError,
+  applyAdjustment,
+  getAdjustmentReasonCodes,
+  getApprovalThreshold,
+} from '../services/adjustmentService';
+import { getFrozenBins } from '../services/cycleCountService';
+import { getProductUoms, toBaseQuantity, UomConversionError } from '@modules/master-data/server/services/uomService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('inventory-items'));
+
+const approvers = alias(user, 'approvers');
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     InventoryAdjustment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         adjustmentNumber:
+ *           type: string
+ *         inventoryItemId:
+ *           type: string
+ *           format: uuid
+ *         productId:
+ *           type: string
+ *           format: uuid
+ *         binId:
+ *           type: string
+ *           format: uuid
+ *         batchNumber:
+ *           type: string
+ *         lotNumber:
+ *           type: string
+ *         expiryDate:
+ *           type: string
+ *           format: date
+ *         quantityDelta:
+ *           type: integer
+ *           description: Positive to add stock, negative to remove it
+ *         reasonCode:
+ *           type: string
+ *         unitCost:
+ *           type: number
+ *         valueImpact:
+ *           type: number
+ *           description: Absolute quantity delta times unit cost, compared with the approval threshold
+ *         status:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *         notes:
+ *           type: string
+ *         approvedBy:
+ *           type: string
+ *           format: uuid
+ *         approvedAt:
+ *           type: string
+ *           format: date-time
+ *         rejectionReason:
+ *           type: string
+ */
+
+// ==================== HELPER FUNCTIONS ====================
+
+const adjustmentColumns = {
+  id: inventoryAdjustments.id,
+  adjustmentNumber: inventoryAdjustments.adjustmentNumber,
+  inventoryItemId: inventoryAdjustments.inventoryItemId,
+  productId: inventoryAdjustments.productId,
+  productSku: products.sku,
+  productName: products.name,
+  binId: inventoryAdjustments.binId,
+  binName: bins.name,
+  batchNumber: inventoryAdjustments.batchNumber,
+  lotNumber: inventoryAdjustments.lotNumber,
+  expiryDate: inventoryAdjustments.expiryDate,
+  quantityDelta: inventoryAdjustments.quantityDelta,
+  reasonCode: inventoryAdjustments.reasonCode,
+  unitCost: inventoryAdjustments.unitCost,
+  valueImpact: inventoryAdjustments.valueImpact,
+  status: inventoryAdjustments.status,
+  notes: inventoryAdjustments.notes,
+  createdBy: inventoryAdjustments.createdBy,
+  createdByName: user.fullname,
+  approvedBy: inventoryAdjustments.approvedBy,
+  approvedByName: approvers.fullname,
+  approvedAt: inventoryAdjustments.approvedAt,
+  rejectedAt: inventoryAdjustments.rejectedAt,
+  rejectionReason: inventoryAdjustments.rejectionReason,
+  createdAt: inventoryAdjustments.createdAt,
+};
+
+function selectAdjustments() {
+  return db
+    .select(adjustmentColumns)
+    .from(inventoryAdjustments)
+    .leftJoin(products, eq(inventoryAdjustments.productId, products.id))
+    .leftJoin(bins, eq(inventoryAdjustments.binId, bins.id))
+    .leftJoin(user, eq(inventoryAdjustments.createdBy, user.id))
+    .leftJoin(approvers, eq(inventoryAdjustments.approvedBy, approvers.id));
+}
+
+async function getAdjustmentDetail(id: string, tenantId: string) {
+  const [record] = await selectAdjustments()
+    .where(and(eq(inventoryAdjustments.id, id), eq(inventoryAdjustments.tenantId, tenantId)));
+  return record || null;
+}
+
+// ==================== REASON CODES ====================
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/adjustments/reason-codes:
+ *   get:
+ *     summary: Get the tenant's adjustment reason codes and approval threshold
+ *     description: |
+ *       Reason codes are maintained as options with code `inventory.adjustment.reason.<code>`, the label
+ *       as name and the allowed direction (`increase`, `decrease` or `both`) as value. Damage, shrinkage,
+ *       found and expiry write-off are used until the tenant defines its own. The approval threshold is
+ *       the `inventory.adjustment.approval_threshold` option (0 disables approval).
+ *     tags: [Inventory Adjustments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reason codes and approval threshold
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/adjustments/reason-codes', authorized('ADMIN', 'inventory-items.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+
+    const [reasonCodes, approvalThreshold] = await Promise.all([
+      getAdjustmentReasonCodes(tenantId),
+      getApprovalThreshold(tenantId),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        reasonCodes,
+        approvalThreshold,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching adjustment reason codes:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// ==================== ADJUSTMENTS ====================
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/adjustments:
+ *   get:
+ *     summary: Get all inventory adjustments
+ *     tags: [Inventory Adjustments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by adjustment number, product SKU or batch number
+ *     responses:
+ *       200:
+ *         description: List of inventory adjustments
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/adjustments', authorized('ADMIN', 'inventory-items.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = req.query.status as string;
+    const search = req.query.search as string;
+    const offset = (page - 1) * limit;
+
+    const whereConditions = [eq(inventoryAdjustments.tenantId, tenantId)];
+    if (status) {
+      whereConditions.push(eq(inventoryAdjustments.status, status as any));
+    }
+    if (search) {
+      whereConditions.push(
+        or(
+          ilike(inventoryAdjustments.adjustmentNumber, `%${search}%`),
+          ilike(products.sku, `%${search}%`),
+          ilike(inventoryAdjustments.batchNumber, `%${search}%`)
+        )!
+      );
+    }
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(inventoryAdjustments)
+      .leftJoin(products, eq(inventoryAdjustments.productId, products.id))
+      .where(and(...whereConditions));
+
+    const data = await selectAdjustments()
+      .where(and(...whereConditions))
+      .orderBy(desc(inventoryAdjustments.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(totalResult.count / limit);
+
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching inventory adjustments:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/adjustments/{id}:
+ *   get:
+ *     summary: Get an inventory adjustment by ID
+ *     tags: [Inventory Adjustments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Inventory adjustment details
+ *       404:
+ *         description: Inventory adjustment not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/adjustments/:id', authorized('ADMIN', 'inventory-items.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const adjustment = await getAdjustmentDetail(req.params.id, tenantId);
+
+    if (!adjustment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Inventory adjustment not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: adjustment,
+    });
+  } catch (error) {
+    console.error('Error fetching inventory adjustment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/adjustments:
+ *   post:
+ *     summary: Create an inventory adjustment
+ *     description: |
+ *       Adjust an existing inventory row (`inventoryItemId`) or a product/batch in a bin (`binId` + `productId`).
+ *       An increase for a product/batch that is not yet in the bin creates a new inventory row.
+ *       When the value impact exceeds the tenant's approval threshold the adjustment stays `pending`
+ *       until it is approved; otherwise it is applied immediately. Applied adjustments write a stock movement.
+ *     tags: [Inventory Adjustments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - quantityDelta
+ *               - reasonCode
+ *             properties:
+ *               inventoryItemId:
+ *                 type: string
+ *                 format: uuid
+ *               binId:
+ *                 type: string
+ *                 format: uuid
+ *               productId:
+ *                 type: string
+ *                 format: uuid
+ *               batchNumber:
+ *                 type: string
+ *               lotNumber:
+ *                 type: string
+ *               expiryDate:
+ *                 type: string
+ *                 format: date
+ *               unitCost:
+ *                 type: number
+ *                 description: Cost per base unit of new stock; existing rows use their own cost
+ *               quantityDelta:
+ *                 type: number
+ *                 description: In uom; must come to a whole number of base units
+ *               uom:
+ *                 type: string
+ *                 description: Base or alternate unit of measure of the product (defaults to the base unit)
+ *               reasonCode:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Adjustment created (applied or pending approval)
+ *       400:
+ *         description: Invalid input or the bin is frozen by a cycle count
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/adjustments', authorized('ADMIN', 'inventory-items.adjust'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { inventoryItemId, binId, productId, lotNumber, expiryDate, unitCost, reasonCode, uom, notes } = req.body;
+    const batchNumber = req.body.batchNumber?.trim() || null;
+    let quantityDelta = Number(req.body.quantityDelta);
+
+    if (!Number.isFinite(quantityDelta) || quantityDelta === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Quantity change must be a non-zero number',
+      });
+    }
+
+    const reasonCodes = await getAdjustmentReasonCodes(tenantId);
+    const reason = reasonCodes.find((code) => code.code === reasonCode);
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        message: 'A valid reason code is required',
+      });
+    }
+
+    if (
+      (reason.direction === 'increase' && quantityDelta < 0) ||
+      (reason.direction === 'decrease' && quantityDelta > 0)
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: `Reason "${reason.name}" only allows a quantity ${reason.direction}`,
+      });
+    }
+
+    // Resolve the inventory row being adjusted, if there is one
+    let target: typeof inventoryItems.$inferSelect | undefined;
+    if (inventoryItemId) {
+      [target] = await db
+        .select()
+        .from(inventoryItems)
+        .where(and(eq(inventoryItems.id, inventoryItemId), eq(inventoryItems.tenantId, tenantId)));
+
+      if (!target) {
+        return res.status(400).json({
+          success: false,
+          message: 'Inventory item not found',
+        });
+      }
+    } else {
+      if (!binId || !productId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Select an inventory item, or a bin and a product',
+        });
+      }
+
+      const [bin] = await db
+        .select({ id: bins.id })
+        .from(bins)
+        .where(and(eq(bins.id, binId), eq(bins.tenantId, tenantId)));
+      const [product] = await db
+        .select({ id: products.id })
+        .from(products)
+        .where(and(eq(products.id, productId), eq(products.tenantId, tenantId)));
+
+      if (!bin || !product) {
+        return res.status(400).json({
+          success: false,
+          message: 'Bin or product not found',
+        });
+      }
+
+      [target] = await db
+        .select()
+        .from(inventoryItems)
+        .where(and(
+          eq(inventoryItems.tenantId, tenantId),
+          eq(inventoryItems.binId, binId),
+          eq(inventoryItems.productId, productId),
+          batchNumber ? eq(inventoryItems.batchNumber, batchNumber) : isNull(inventoryItems.batchNumber)
+        ))
+        .limit(1);
+    }
+
+    // A change entered in an alternate unit is applied in base units
+    const adjustedProductId: string = target ? target.productId : productId;
+    const uomInfo = (await getProductUoms(tenantId, [adjustedProductId])).get(adjustedProductId);
+    if (!uomInfo) {
+      return res.status(400).json({
+        success: false,
+        message: 'Bin or product not found',
+      });
+    }
+    quantityDelta = toBaseQuantity(uomInfo, quantityDelta, uom).baseQuantity;
+
+    if (!target && quantityDelta < 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'There is no stock to decrease for this product in the bin',
+      });
+    }
+
+    if (target && target.availableQuantity + quantityDelta < 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Only ${target.availableQuantity} unit(s) are available to adjust in this bin`,
+      });
+    }
+
+    const adjustedBinId: string = target ? target.binId : binId;
+    const frozen = await getFrozenBins(db, tenantId, [adjustedBinId]);
+    if (frozen.size > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Bin is frozen by cycle count ${frozen.get(adjustedBinId)}`,
+      });
+    }
+
+    const cost = target ? target.costPerUnit : (unitCost !== undefined && unitCost !== '' ? parseFloat(unitCost).toFixed(2) : null);
+    const valueImpact = (Math.abs(quantityDelta) * (cost ? parseFloat(cost) : 0)).toFixed(2);
+    const approvalThreshold = await getApprovalThreshold(tenantId);
+    const requiresApproval = approvalThreshold > 0 && parseFloat(valueImpact) > approvalThreshold;
+
+    // Generate adjustment number via document numbering service
+    let adjustmentNumber: string;
+    let documentHistoryId: string;
+
+    try {
+      const generated = await generateDocumentNumber(tenantId, req.headers.authorization, 'ADJ', 'inventory_adjustments');
+      adjustmentNumber = generated.documentNumber;
+      documentHistoryId = generated.historyId;
+    } catch (error: any) {
+      console.error('Error generating adjustment number:', error.response?.data || error.message);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to generate adjustment number',
+      });
+    }
+
+    const adjustment = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(inventoryAdjustments)
+        .values({
+          tenantId,
+          adjustmentNumber,
+          inventoryItemId: target?.id || null,
+          productId: target ? target.productId : productId,
+          binId: target ? target.binId : binId,
+          batchNumber: target ? target.batchNumber : batchNumber,
+          lotNumber: target ? target.lotNumber : lotNumber || null,
+          expiryDate: target ? target.expiryDate : expiryDate || null,
+          quantityDelta,
+          reasonCode: reason.code,
+          unitCost: cost,
+          valueImpact,
+          notes: notes || null,
+          createdBy: userId,
+        })
+        .returning();
+
+      // Update document history with the actual document ID
+      try {
+        await linkDocumentNumber(req.headers.authorization, documentHistoryId, created.id);
+      } catch (error) {
+        console.error('Error updating document history:', error);
+        throw new Error('Failed to update document history');
+      }
+
+      return requiresApproval ? created : applyAdjustment(tx, created, userId);
+    });
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'inventory-items',
+      action: 'create',
+      resourceType: 'inventory_adjustment',
+      resourceId: adjustment.id,
+      description: requiresApproval
+        ? `Requested adjustment ${adjustmentNumber} of ${quantityDelta} (${reason.name}), pending approval`
+        : `Adjusted stock by ${quantityDelta} (${reason.name}) with ${adjustmentNumber}`,
+      changedFields: {
+        adjustmentNumber,
+        inventoryItemId: adjustment.inventoryItemId,
+        productId: adjustment.productId,
+        binId: adjustment.binId,
+        batchNumber: adjustment.batchNumber,
+        quantityDelta,
+        reasonCode: reason.code,
+        valueImpact,
+        approvalThreshold,
+        status: adjustment.status,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: await getAdjustmentDetail(adjustment.id, tenantId),
+      message: requiresApproval
+        ? 'Adjustment exceeds the approval threshold and is pending approval'
+        : 'Adjustment applied successfully',
+    });
+  } catch (error) {
+    if (error instanceof AdjustmentValidationError || error instanceof UomConversionError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    console.error('Error creating inventory adjustment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// ==================== APPROVAL ====================
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/adjustments/{id}/approve:
+ *   post:
+ *     summary: Approve a pending inventory adjustment and apply it to stock
+ *     tags: [Inventory Adjustments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Adjustment approved and applied
+ *       400:
+ *         description: Adjustment is not pending or stock no longer allows it (e.g. the bin is frozen by a cycle count)
+ *       404:
+ *         description: Inventory adjustment not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/adjustments/:id/approve', authorized('ADMIN', 'inventory-items.adjust.approve'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const adjustment = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(inventoryAdjustments)
+        .where(and(eq(inventoryAdjustments.id, id), eq(inventoryAdjustments.tenantId, tenantId)))
+        .for('update');
+
+      if (!existing) {
+        return null;
+      }
+
+      if (existing.status !== 'pending') {
+        throw new AdjustmentValidationError(`Adjustment is already ${existing.status}`);
+      }
+
+      const frozen = await getFrozenBins(tx, tenantId, [existing.binId]);
+      if (frozen.size > 0) {
+        throw new AdjustmentValidationError(`Bin is frozen by cycle count ${frozen.get(existing.binId)}`);
+      }
+
+      return applyAdjustment(tx, existing, userId);
+    });
+
+    if (!adjustment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Inventory adjustment not found',
+      });
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'inventory-items',
+      action: 'approve',
+      resourceType: 'inventory_adjustment',
+      resourceId: id,
+      description: `Approved adjustment ${adjustment.adjustmentNumber} of ${adjustment.quantityDelta} (${adjustment.reasonCode})`,
+      changedFields: {
+        status: { from: 'pending', to: 'approved' },
+        inventoryItemId: adjustment.inventoryItemId,
+        quantityDelta: adjustment.quantityDelta,
+        valueImpact: adjustment.valueImpact,
+      },
+      previousState: 'pending',
+      newState: 'approved',
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: await getAdjustmentDetail(id, tenantId),
+      message: 'Adjustment approved and applied',
+    });
+  } catch (error) {
+    if (error instanceof AdjustmentValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    console.error('Error approving inventory adjustment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/adjustments/{id}/reject:
+ *   post:
+ *     summary: Reject a pending inventory adjustment
+ *     tags: [Inventory Adjustments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Adjustment rejected
+ *       400:
+ *         description: Missing reason or adjustment is not pending
+ *       404:
+ *         description: Inventory adjustment not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/adjustments/:id/reject', authorized('ADMIN', 'inventory-items.adjust.approve'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        message: 'Rejection reason is required',
+      });
+    }
+
+    const [existing] = await db
+      .select()
+      .from(inventoryAdjustments)
+      .where(and(eq(inventoryAdjustments.id, id), eq(inventoryAdjustments.tenantId, tenantId)));
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Inventory adjustment not found',
+      });
+    }
+
+    const [updated] = await db
+      .update(inventoryAdjustments)
+      .set({
+        status: 'rejected',
+        rejectedBy: userId,
+        rejectedAt: new Date(),
+        rejectionReason: reason,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(inventoryAdjustments.id, id), eq(inventoryAdjustments.status, 'pending')))
+      .returning();
+
+    if (!updated) {
+      return res.status(400).json({
+        success: false,
+        message: `Adjustment is already ${existing.status}`,
+      });
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'inventory-items',
+      action: 'reject',
+      resourceType: 'inventory_adjustment',
+      resourceId: id,
+      description: `Rejected adjustment ${existing.adjustmentNumber}: ${reason}`,
+      changedFields: {
+        status: { from: 'pending', to: 'rejected' },
+        reason,
+      },
+      previousState: 'pending',
+      newState: 'rejected',
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: await getAdjustmentDetail(id, tenantId),
+      message: 'Adjustment rejected',
+    });
+  } catch (error) {
+    console.error('Error rejecting inventory adjustment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,1326 @@
+import express from 'express';
+import { db } from '@server/lib/db';
+import { inventoryItems } from '../lib/db/schemas/inventoryItems';
+import { cycleCountBins, cycleCountLines, cycleCounts, CycleCount } from '../lib/db/schemas/cycleCounts';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { aisles, bins, warehouses, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { user } from '@server/lib/db/schema/system';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { eq, and, asc, desc, count, ilike, inArray, isNull, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { logAudit, getClientIp } from '@server/services/auditService';
+import { generateDocumentNumber, linkDocumentNumber } from '@modules/document-numbering/server/services/documentNumberService';
+import {
+  CycleCountValidationError,
+  createCountLines,
+  expectedBinQuantity,
+  getFrozenBins,
+  postCycleCount,
+  resolveScopeBins,
+} from '../services/cycleCountService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('inventory-items'));
+
+const counters = alias(user, 'counters');
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CycleCount:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         countNumber:
+ *           type: string
+ *         warehouseId:
+ *           type: string
+ *           format: uuid
+ *         scopeType:
+ *           type: string
+ *           enum: [warehouse, zone, aisle, bins]
+ *         zoneId:
+ *           type: string
+ *           format: uuid
+ *         aisleId:
+ *           type: string
+ *           format: uuid
+ *         blindCount:
+ *           type: boolean
+ *           description: Hide expected quantities from counters while the session is counting
+ *         status:
+ *           type: string
+ *           enum: [counting, review, posted, cancelled]
+ *         notes:
+ *           type: string
+ *     CycleCountLine:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         binId:
+ *           type: string
+ *           format: uuid
+ *         productId:
+ *           type: string
+ *           format: uuid
+ *         inventoryItemId:
+ *           type: string
+ *           format: uuid
+ *         batchNumber:
+ *           type: string
+ *         expectedQuantity:
+ *           type: integer
+ *           description: Available plus reserved quantity when the session started; null for blind counts while counting
+ *         currentQuantity:
+ *           type: integer
+ *           description: Current available plus reserved quantity; null for blind counts while counting
+ *         countedQuantity:
+ *           type: integer
+ *         variance:
+ *           type: integer
+ *           description: Counted minus current available plus reserved quantity (the posted variance once posted)
+ *         recountCount:
+ *           type: integer
+ *         status:
+ *           type: string
+ *           enum: [pending, counted, recount, approved]
+ *         adjustmentId:
+ *           type: string
+ *           format: uuid
+ */
+
+// ==================== HELPER FUNCTIONS ====================
+
+async function getCycleCountDetail(id: string, tenantId: string) {
+  const [session] = await db
+    .select({
+      id: cycleCounts.id,
+      countNumber: cycleCounts.countNumber,
+      warehouseId: cycleCounts.warehouseId,
+      warehouseName: warehouses.name,
+      scopeType: cycleCounts.scopeType,
+      zoneId: cycleCounts.zoneId,
+      zoneName: zones.name,
+      aisleId: cycleCounts.aisleId,
+      aisleName: aisles.name,
+      blindCount: cycleCounts.blindCount,
+      status: cycleCounts.status,
+      notes: cycleCounts.notes,
+      createdBy: cycleCounts.createdBy,
+      createdByName: user.fullname,
+      postedAt: cycleCounts.postedAt,
+      cancelledAt: cycleCounts.cancelledAt,
+      createdAt: cycleCounts.createdAt,
+    })
+    .from(cycleCounts)
+    .leftJoin(warehouses, eq(cycleCounts.warehouseId, warehouses.id))
+    .leftJoin(zones, eq(cycleCounts.zoneId, zones.id))
+    .leftJoin(aisles, eq(cycleCounts.aisleId, aisles.id))
+    .leftJoin(user, eq(cycleCounts.createdBy, user.id))
+    .where(and(eq(cycleCounts.id, id), eq(cycleCounts.tenantId, tenantId)));
+
+  if (!session) return null;
+
+  const lines = await db
+    .select({
+      id: cycleCountLines.id,
+      binId: cycleCountLines.binId,
+      binName: bins.name,
+      productId: cycleCountLines.productId,
+      productSku: products.sku,
+      productName: products.name,
+      inventoryItemId: cycleCountLines.inventoryItemId,
+      batchNumber: cycleCountLines.batchNumber,
+      lotNumber: cycleCountLines.lotNumber,
+      expiryDate: cycleCountLines.expiryDate,
+      expectedQuantity: cycleCountLines.expectedQuantity,
+      currentQuantity: sql<number | null>`${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity}`,
+      countedQuantity: cycleCountLines.countedQuantity,
+      varianceQuantity: cycleCountLines.varianceQuantity,
+      recountCount: cycleCountLines.recountCount,
+      status: cycleCountLines.status,
+      adjustmentId: cycleCountLines.adjustmentId,
+      notes: cycleCountLines.notes,
+      countedByName: counters.fullname,
+      countedAt: cycleCountLines.countedAt,
+    })
+    .from(cycleCountLines)
+    .leftJoin(bins, eq(cycleCountLines.binId, bins.id))
+    .leftJoin(products, eq(cycleCountLines.productId, products.id))
+    .leftJoin(inventoryItems, eq(cycleCountLines.inventoryItemId, inventoryItems.id))
+    .leftJoin(counters, eq(cycleCountLines.countedBy, counters.id))
+    .where(eq(cycleCountLines.cycleCountId, id))
+    .orderBy(asc(bins.name), asc(products.sku), asc(cycleCountLines.createdAt));
+
+  const sessionBins = await db
+    .select({ id: bins.id, name: bins.name })
+    .from(cycleCountBins)
+    .innerJoin(bins, eq(cycleCountBins.binId, bins.id))
+    .where(eq(cycleCountBins.cycleCountId, id))
+    .orderBy(asc(bins.name));
+
+  const hideExpected = session.blindCount && session.status === 'counting';
+
+  return {
+    ...session,
+    bins: sessionBins,
+    lines: lines.map(({ varianceQuantity, ...line }) => {
+      const currentQuantity = line.currentQuantity ?? 0;
+      const variance = session.status === 'posted'
+        ? varianceQuantity
+        : line.countedQuantity !== null ? line.countedQuantity - currentQuantity : null;
+
+      return {
+        ...line,
+        expectedQuantity: hideExpected ? null : line.expectedQuantity,
+        currentQuantity: hideExpected ? null : currentQuantity,
+        variance: hideExpected ? null : variance,
+      };
+    }),
+  };
+}
+
+/**
+ * Lock a session of the tenant and check it is in the expected status. Returns null when it does not exist.
+ */
+async function lockCycleCount(
+  tx: Pick<typeof db, 'select'>,
+  id: string,
+  tenantId: string,
+  statuses: CycleCount['status'][]
+): Promise<CycleCount | null> {
+  const [session] = await tx
+    .select()
+    .from(cycleCounts)
+    .where(and(eq(cycleCounts.id, id), eq(cycleCounts.tenantId, tenantId)))
+    .for('update');
+
+  if (!session) return null;
+
+  if (!statuses.includes(session.status)) {
+    throw new CycleCountValidationError(`Cycle count is ${session.status}`);
+  }
+
+  return session;
+}
+
+// ==================== CYCLE COUNTS ====================
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/cycle-counts:
+ *   get:
+ *     summary: Get all cycle count sessions
+ *     tags: [Cycle Counts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [counting, review, posted, cancelled]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by count number
+ *     responses:
+ *       200:
+ *         description: List of cycle count sessions with line progress
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/cycle-counts', authorized('ADMIN', 'inventory-items.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = req.query.status as string;
+    const search = req.query.search as string;
+    const offset = (page - 1) * limit;
+
+    const whereConditions = [eq(cycleCounts.tenantId, tenantId)];
+    if (status) {
+      whereConditions.push(eq(cycleCounts.status, status as any));
+    }
+    if (search) {
+      whereConditions.push(ilike(cycleCounts.countNumber, `%${search}%`));
+    }
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(cycleCounts)
+      .where(and(...whereConditions));
+
+    const sessions = await db
+      .select({
+        id: cycleCounts.id,
+        countNumber: cycleCounts.countNumber,
+        warehouseId: cycleCounts.warehouseId,
+        warehouseName: warehouses.name,
+        scopeType: cycleCounts.scopeType,
+        zoneName: zones.name,
+        aisleName: aisles.name,
+        blindCount: cycleCounts.blindCount,
+        status: cycleCounts.status,
+        createdByName: user.fullname,
+        postedAt: cycleCounts.postedAt,
+        createdAt: cycleCounts.createdAt,
+      })
+      .from(cycleCounts)
+      .leftJoin(warehouses, eq(cycleCounts.warehouseId, warehouses.id))
+      .leftJoin(zones, eq(cycleCounts.zoneId, zones.id))
+      .leftJoin(aisles, eq(cycleCounts.aisleId, aisles.id))
+      .leftJoin(user, eq(cycleCounts.createdBy, user.id))
+      .where(and(...whereConditions))
+      .orderBy(desc(cycleCounts.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const progress = sessions.length > 0
+      ? await db
+        .select({
+          cycleCountId: cycleCountLines.cycleCountId,
+          lineCount: count(),
+          countedLines: sql<number>`count(*) filter (where ${cycleCountLines.status} in ('counted', 'approved'))`.mapWith(Number),
+        })
+        .from(cycleCountLines)
+        .where(inArray(cycleCountLines.cycleCountId, sessions.map((session) => session.id)))
+        .groupBy(cycleCountLines.cycleCountId)
+      : [];
+    const progressBySession = new Map(progress.map((row) => [row.cycleCountId, row]));
+
+    const data = sessions.map((session) => ({
+      ...session,
+      lineCount: progressBySession.get(session.id)?.lineCount ?? 0,
+      countedLines: progressBySession.get(session.id)?.countedLines ?? 0,
+    }));
+
+    const totalPages = Math.ceil(totalResult.count / limit);
+
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching cycle counts:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/cycle-counts/{id}:
+ *   get:
+ *     summary: Get a cycle count session with its lines
+ *     description: For blind counts, expected and current quantities and variances are withheld while the session is counting.
+ *     tags: [Cycle Counts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Cycle count details
+ *       404:
+ *         description: Cycle count not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/cycle-counts/:id', authorized('ADMIN', 'inventory-items.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const session = await getCycleCountDetail(req.params.id, tenantId);
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Cycle count not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: session,
+    });
+  } catch (error) {
+    console.error('Error fetching cycle count:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/cycle-counts:
+ *   post:
+ *     summary: Start a cycle count session
+ *     description: |
+ *       Resolves the bins in scope, freezes them against stock moves and creates a line for every
+ *       inventory row in them that holds stock. Bins already under an open count cannot be counted again.
+ *       Requires a `CC` document numbering configuration.
+ *     tags: [Cycle Counts]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - warehouseId
+ *               - scopeType
+ *             properties:
+ *               warehouseId:
+ *                 type: string
+ *                 format: uuid
+ *               scopeType:
+ *                 type: string
+ *                 enum: [warehouse, zone, aisle, bins]
+ *               zoneId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Required for zone scope
+ *               aisleId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Required for aisle scope
+ *               binIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *                 description: Required for bins scope
+ *               blindCount:
+ *                 type: boolean
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Cycle count started
+ *       400:
+ *         description: Invalid scope or bins already frozen
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/cycle-counts', authorized('ADMIN', 'inventory-items.cycle-count'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { warehouseId, scopeType, zoneId, aisleId, binIds, blindCount, notes } = req.body;
+
+    if (!warehouseId || !scopeType) {
+      return res.status(400).json({
+        success: false,
+        message: 'Warehouse and scope are required',
+      });
+    }
+
+    const [warehouse] = await db
+      .select({ id: warehouses.id })
+      .from(warehouses)
+      .where(and(eq(warehouses.id, warehouseId), eq(warehouses.tenantId, tenantId)));
+
+    if (!warehouse) {
+      return res.status(400).json({
+        success: false,
+        message: 'Warehouse not found',
+      });
+    }
+
+    const scope = {
+      warehouseId,
+      scopeType,
+      zoneId: scopeType === 'zone' ? zoneId : null,
+      aisleId: scopeType === 'aisle' ? aisleId : null,
+      binIds: scopeType === 'bins' && Array.isArray(binIds) ? binIds : undefined,
+    };
+    const scopeBinIds = await resolveScopeBins(db, tenantId, scope);
+
+    if (scopeBinIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'There are no bins in the selected scope',
+      });
+    }
+
+    // Generate count number via document numbering service
+    let countNumber: string;
+    let documentHistoryId: string;
+
+    try {
+      const generated = await generateDocumentNumber(tenantId, req.headers.authorization, 'CC', 'cycle_counts');
+      countNumber = generated.documentNumber;
+      documentHistoryId = generated.historyId;
+    } catch (error: any) {
+      console.error('Error generating cycle count number:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to generate cycle count number',
+        error: error.message,
+      });
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const frozen = await getFrozenBins(tx, tenantId, scopeBinIds);
+      if (frozen.size > 0) {
+        const openCounts = [...new Set(frozen.values())].join(', ');
+        throw new CycleCountValidationError(`${frozen.size} bin(s) in scope are already being counted in ${openCounts}`);
+      }
+
+      const [created] = await tx
+        .insert(cycleCounts)
+        .values({
+          tenantId,
+          countNumber,
+          warehouseId,
+          scopeType: scope.scopeType,
+          zoneId: scope.zoneId,
+          aisleId: scope.aisleId,
+          blindCount: !!blindCount,
+          notes: notes || null,
+          createdBy: userId,
+        })
+        .returning();
+
+      const lineCount = await createCountLines(tx, { tenantId, cycleCountId: created.id, binIds: scopeBinIds });
+
+      try {
+        await linkDocumentNumber(req.headers.authorization, documentHistoryId, created.id);
+      } catch (error) {
+        console.error('Error linking cycle count number:', error);
+        throw new Error('Failed to update document history');
+      }
+
+      return { created, lineCount };
+    });
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'inventory-items',
+      action: 'create',
+      resourceType: 'cycle_count',
+      resourceId: result.created.id,
+      description: `Started cycle count ${countNumber} over ${scopeBinIds.length} bin(s) with ${result.lineCount} line(s)${result.created.blindCount ? ' (blind)' : ''}`,
+      changedFields: {
+        scopeType: scope.scopeType,
+        binCount: scopeBinIds.length,
+        lineCount: result.lineCount,
+        blindCount: result.created.blindCount,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: await getCycleCountDetail(result.created.id, tenantId),
+      message: 'Cycle count started',
+    });
+  } catch (error) {
+    if (error instanceof CycleCountValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error creating cycle count:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// ==================== COUNTING ====================
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/cycle-counts/{id}/lines:
+ *   post:
+ *     summary: Add a line for stock found in a bin of the count
+ *     description: For product/batch combinations the session has no line for, e.g. stock the system does not know about.
+ *     tags: [Cycle Counts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - binId
+ *               - productId
+ *               - countedQuantity
+ *             properties:
+ *               binId:
+ *                 type: string
+ *                 format: uuid
+ *               productId:
+ *                 type: string
+ *                 format: uuid
+ *               batchNumber:
+ *                 type: string
+ *               lotNumber:
+ *                 type: string
+ *               expiryDate:
+ *                 type: string
+ *                 format: date
+ *               countedQuantity:
+ *                 type: integer
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Line added and counted
+ *       400:
+ *         description: Session is not counting, bin is not in scope or the line already exists
+ *       404:
+ *         description: Cycle count not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/cycle-counts/:id/lines', authorized('ADMIN', 'inventory-items.cycle-count'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const { binId, productId, batchNumber, lotNumber, expiryDate, notes } = req.body;
+    const countedQuantity = Number(req.body.countedQuantity);
+
+    if (!binId || !productId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Bin and product are required',
+      });
+    }
+
+    if (!Number.isInteger(countedQuantity) || countedQuantity < 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Counted quantity must be a whole number of zero or more',
+      });
+    }
+
+    const [product] = await db
+      .select({ id: products.id })
+      .from(products)
+      .where(and(eq(products.id, productId), eq(products.tenantId, tenantId)));
+
+    if (!product) {
+      return res.status(400).json({
+        success: false,
+        message: 'Product not found',
+      });
+    }
+
+    const line = await db.transaction(async (tx) => {
+      const session = await lockCycleCount(tx, id, tenantId, ['counting']);
+      if (!session) return null;
+
+      const [inScope] = await tx
+        .select({ id: cycleCountBins.id })
+        .from(cycleCountBins)
+        .where(and(eq(cycleCountBins.cycleCountId, id), eq(cycleCountBins.binId, binId)));
+
+      if (!inScope) {
+        throw new CycleCountValidationError('Bin is not part of this cycle count');
+      }
+
+      const [duplicate] = await tx
+        .select({ id: cycleCountLines.id })
+        .from(cycleCountLines)
+        .where(and(
+          eq(cycleCountLines.cycleCountId, id),
+          eq(cycleCountLines.binId, binId),
+          eq(cycleCountLines.productId, productId),
+          batchNumber ? eq(cycleCountLines.batchNumber, batchNumber) : isNull(cycleCountLines.batchNumber)
+        ));
+
+      if (duplicate) {
+        throw new CycleCountValidationError('This product and batch already has a line in the bin; record the count on it');
+      }
+
+      // The system may hold an empty row for the product/batch; count against it so posting reuses it
+      const [existingRow] = await tx
+        .select()
+        .from(inventoryItems)
+        .where(and(
+          eq(inventoryItems.tenantId, tenantId),
+          eq(inventoryItems.binId, binId),
+          eq(inventoryItems.productId, productId),
+          batchNumber ? eq(inventoryItems.batchNumber, batchNumber) : isNull(inventoryItems.batchNumber)
+        ))
+        .limit(1);
+
+      const [created] = await tx
+        .insert(cycleCountLines)
+        .values({
+          cycleCountId: id,
+          tenantId,
+          binId,
+          productId,
+          inventoryItemId: existingRow?.id ?? null,
+          batchNumber: batchNumber || null,
+          lotNumber: existingRow ? existingRow.lotNumber : lotNumber || null,
+          expiryDate: existingRow ? existingRow.expiryDate : expiryDate || null,
+          expectedQuantity: existingRow ? expectedBinQuantity(existingRow) : 0,
+          countedQuantity,
+          status: 'counted',
+          notes: notes || null,
+          countedBy: userId,
+          countedAt: new Date(),
+        })
+        .returning();
+
+      return { ...created, expectedQuantity: session.blindCount ? null : created.expectedQuantity };
+    });
+
+    if (!line) {
+      return res.status(404).json({
+        success: false,
+        message: 'Cycle count not found',
+      });
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'inventory-items',
+      action: 'count',
+      resourceType: 'cycle_count',
+      resourceId: id,
+      description: `Added and counted ${countedQuantity} unit(s) of an unexpected product/batch`,
+      changedFields: {
+        lineId: line.id,
+        binId,
+        productId,
+        batchNumber: line.batchNumber,
+        countedQuantity,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: line,
+      message: 'Line added',
+    });
+  } catch (error) {
+    if (error instanceof CycleCountValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error adding cycle count line:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/cycle-counts/{id}/lines/{lineId}:
+ *   put:
+ *     summary: Record the counted quantity of a line
+ *     description: Counts can be corrected until the session is submitted for review.
+ *     tags: [Cycle Counts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - countedQuantity
+ *             properties:
+ *               countedQuantity:
+ *                 type: integer
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Count recorded
+ *       400:
+ *         description: Invalid quantity or session is not counting
+ *       404:
+ *         description: Cycle count or line not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.put('/cycle-counts/:id/lines/:lineId', authorized('ADMIN', 'inventory-items.cycle-count'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id, lineId } = req.params;
+    const { notes } = req.body;
+    const countedQuantity = Number(req.body.countedQuantity);
+
+    if (!Number.isInteger(countedQuantity) || countedQuantity < 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Counted quantity must be a whole number of zero or more',
+      });
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const session = await lockCycleCount(tx, id, tenantId, ['counting']);
+      if (!session) return null;
+
+      const [line] = await tx
+        .select()
+        .from(cycleCountLines)
+        .where(and(eq(cycleCountLines.id, lineId), eq(cycleCountLines.cycleCountId, id)));
+
+      if (!line) return null;
+
+      const [updated] = await tx
+        .update(cycleCountLines)
+        .set({
+          countedQuantity,
+          status: 'counted',
+          notes: notes !== undefined ? notes || null : line.notes,
+          countedBy: userId,
+          countedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(cycleCountLines.id, lineId))
+        .returning();
+
+      return {
+        previous: line,
+        updated: { ...updated, expectedQuantity: session.blindCount ? null : updated.expectedQuantity },
+      };
+    });
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: 'Cycle count line not found',
+      });
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'inventory-items',
+      action: 'count',
+      resourceType: 'cycle_count',
+      resourceId: id,
+      description: `Counted ${countedQuantity} unit(s) on line ${lineId}`,
+      changedFields: {
+        lineId,
+        countedQuantity: { from: result.previous.countedQuantity, to: countedQuantity },
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: result.updated,
+      message: 'Count recorded',
+    });
+  } catch (error) {
+    if (error instanceof CycleCountValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error recording cycle count:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/cycle-counts/{id}/submit:
+ *   post:
+ *     summary: Submit a counted session for supervisor review
+ *     tags: [Cycle Counts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Session submitted for review
+ *       400:
+ *         description: Session is not counting or lines are still uncounted
+ *       404:
+ *         description: Cycle count not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/cycle-counts/:id/submit', authorized('ADMIN', 'inventory-items.cycle-count'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const session = await db.transaction(async (tx) => {
+      const locked = await lockCycleCount(tx, id, tenantId, ['counting']);
+      if (!locked) return null;
+
+      const [uncounted] = await tx
+        .select({ count: count() })
+        .from(cycleCountLines)
+        .where(and(
+          eq(cycleCountLines.cycleCountId, id),
+          inArray(cycleCountLines.status, ['pending', 'recount'])
+        ));
+
+      if (uncounted.count > 0) {
+        throw new CycleCountValidationError(`${uncounted.count} line(s) still need to be counted`);
+      }
+
+      const [updated] = await tx
+        .update(cycleCounts)
+        .set({ status: 'review', updatedAt: new Date() })
+        .where(eq(cycleCounts.id, id))
+        .returning();
+
+      return updated;
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Cycle count not found',
+      });
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'inventory-items',
+      action: 'state_change',
+      resourceType: 'cycle_count',
+      resourceId: id,
+      description: `Submitted cycle count ${session.countNumber} for review`,
+      previousState: 'counting',
+      newState: 'review',
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: await getCycleCountDetail(id, tenantId),
+      message: 'Cycle count submitted for review',
+    });
+  } catch (error) {
+    if (error instanceof CycleCountValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error submitting cycle count:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// ==================== REVIEW ====================
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/cycle-counts/{id}/review:
+ *   post:
+ *     summary: Approve line variances or request recounts
+ *     description: |
+ *       `approve` accepts the counted quantities of the lines for posting. `recount` clears their counts
+ *       and returns the session to counting so counters count them again.
+ *     tags: [Cycle Counts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lineIds
+ *               - action
+ *             properties:
+ *               lineIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               action:
+ *                 type: string
+ *                 enum: [approve, recount]
+ *     responses:
+ *       200:
+ *         description: Lines reviewed
+ *       400:
+ *         description: Session is not in review or lines are invalid
+ *       404:
+ *         description: Cycle count not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/cycle-counts/:id/review', authorized('ADMIN', 'inventory-items.cycle-count.review'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const { lineIds, action } = req.body;
+
+    if (!Array.isArray(lineIds) || lineIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Select at least one line',
+      });
+    }
+
+    if (action !== 'approve' && action !== 'recount') {
+      return res.status(400).json({
+        success: false,
+        message: 'Action must be approve or recount',
+      });
+    }
+
+    const session = await db.transaction(async (tx) => {
+      const locked = await lockCycleCount(tx, id, tenantId, ['review']);
+      if (!locked) return null;
+
+      const lines = await tx
+        .select({ id: cycleCountLines.id })
+        .from(cycleCountLines)
+        .where(and(eq(cycleCountLines.cycleCountId, id), inArray(cycleCountLines.id, lineIds)));
+
+      if (lines.length !== new Set(lineIds).size) {
+        throw new CycleCountValidationError('Every line must belong to this cycle count');
+      }
+
+      if (action === 'approve') {
+        await tx
+          .update(cycleCountLines)
+          .set({ status: 'approved', reviewedBy: userId, reviewedAt: new Date(), updatedAt: new Date() })
+          .where(inArray(cycleCountLines.id, lineIds));
+        return locked;
+      }
+
+      await tx
+        .update(cycleCountLines)
+        .set({
+          status: 'recount',
+          countedQuantity: null,
+          recountCount: sql`${cycleCountLines.recountCount} + 1`,
+          reviewedBy: userId,
+          reviewedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(inArray(cycleCountLines.id, lineIds));
+
+      await tx
+        .update(cycleCounts)
+        .set({ status: 'counting', updatedAt: new Date() })
+        .where(eq(cycleCounts.id, id));
+
+      return locked;
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Cycle count not found',
+      });
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'inventory-items',
+      action: action === 'approve' ? 'approve' : 'recount',
+      resourceType: 'cycle_count',
+      resourceId: id,
+      description: action === 'approve'
+        ? `Approved ${lineIds.length} line(s) of cycle count ${session.countNumber}`
+        : `Requested a recount of ${lineIds.length} line(s) of cycle count ${session.countNumber}`,
+      changedFields: { lineIds },
+      previousState: 'review',
+      newState: action === 'approve' ? 'review' : 'counting',
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: await getCycleCountDetail(id, tenantId),
+      message: action === 'approve' ? 'Lines approved' : 'Recount requested',
+    });
+  } catch (error) {
+    if (error instanceof CycleCountValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error reviewing cycle count:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/cycle-counts/{id}/post:
+ *   post:
+ *     summary: Post the approved variances of a reviewed session as inventory adjustments
+ *     description: |
+ *       Every line must be approved. Variances are measured against the current available quantity and
+ *       posted as approved adjustments with reason `cycle_count`; the session's bins are then unfrozen.
+ *     tags: [Cycle Counts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Cycle count posted
+ *       400:
+ *         description: Session is not in review or lines are not all approved
+ *       404:
+ *         description: Cycle count not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/cycle-counts/:id/post', authorized('ADMIN', 'inventory-items.cycle-count.review'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const result = await db.transaction(async (tx) => {
+      const session = await lockCycleCount(tx, id, tenantId, ['review']);
+      if (!session) return null;
+
+      const posting = await postCycleCount(tx, session, userId);
+
+      await tx
+        .update(cycleCounts)
+        .set({ status: 'posted', postedBy: userId, postedAt: new Date(), updatedAt: new Date() })
+        .where(eq(cycleCounts.id, id));
+
+      return { session, ...posting };
+    });
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: 'Cycle count not found',
+      });
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'inventory-items',
+      action: 'post',
+      resourceType: 'cycle_count',
+      resourceId: id,
+      description: `Posted cycle count ${result.session.countNumber}: ${result.adjustedLines} adjustment(s), net variance ${result.netVariance}`,
+      changedFields: {
+        adjustedLines: result.adjustedLines,
+        netVariance: result.netVariance,
+      },
+      previousState: 'review',
+      newState: 'posted',
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: await getCycleCountDetail(id, tenantId),
+      message: result.adjustedLines > 0
+        ? `Cycle count posted with ${result.adjustedLines} adjustment(s)`
+        : 'Cycle count posted with no variances',
+    });
+  } catch (error) {
+    if (error instanceof CycleCountValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error posting cycle count:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/cycle-counts/{id}/cancel:
+ *   post:
+ *     summary: Cancel an open cycle count and unfreeze its bins
+ *     tags: [Cycle Counts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Cycle count cancelled
+ *       400:
+ *         description: Session is already posted or cancelled
+ *       404:
+ *         description: Cycle count not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/cycle-counts/:id/cancel', authorized('ADMIN', 'inventory-items.cycle-count.review'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const session = await db.transaction(async (tx) => {
+      const locked = await lockCycleCount(tx, id, tenantId, ['counting', 'review']);
+      if (!locked) return null;
+
+      await tx
+        .update(cycleCounts)
+        .set({ status: 'cancelled', cancelledBy: userId, cancelledAt: new Date(), updatedAt: new Date() })
+        .where(eq(cycleCounts.id, id));
+
+      return locked;
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Cycle count not found',
+      });
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'inventory-items',
+      action: 'cancel',
+      resourceType: 'cycle_count',
+      resourceId: id,
+      description: `Cancelled cycle count ${session.countNumber}`,
+      previousState: session.status,
+      newState: 'cancelled',
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      message: 'Cycle count cancelled',
+    });
+  } catch (error) {
+    if (error instanceof CycleCountValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error cancelling cycle count:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
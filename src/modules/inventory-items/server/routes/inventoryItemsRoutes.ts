@@ -6,6 +6,8 @@ import { bins } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSe
 import { authenticated, authorized } from '@server/middleware/authMiddleware';
 import { eq, and, desc, count, ilike, sql, or } from 'drizzle-orm';
 import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { recordStockMovement } from '../services/stockMovementService';
+import { getProductUoms } from '@modules/master-data/server/services/uomService';
 
 const router = express.Router();
 router.use(authenticated());
@@ -406,21 +408,44 @@ router.post('/inventory-items', authorized('ADMIN', 'inventory-items.create'), a
       });
     }
 
-    const [newRecord] = await db
-      .insert(inventoryItems)
-      .values({
-        tenantId,
-        productId,
-        binId,
-        availableQuantity,
-        reservedQuantity: reservedQuantity || 0,
-        expiryDate: expiryDate || null,
-        batchNumber: batchNumber || null,
-        lotNumber: lotNumber || null,
-        receivedDate: receivedDate || null,
-        costPerUnit: costPerUnit || null,
-      })
-      .returning();
+    const newRecord = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(inventoryItems)
+        .values({
+          tenantId,
+          productId,
+          binId,
+          availableQuantity,
+          reservedQuantity: reservedQuantity || 0,
+          expiryDate: expiryDate || null,
+          batchNumber: batchNumber || null,
+          lotNumber: lotNumber || null,
+          receivedDate: receivedDate || null,
+          costPerUnit: costPerUnit || null,
+        })
+        .returning();
+
+      const onHand = created.availableQuantity + created.reservedQuantity;
+      if (onHand > 0) {
+        await recordStockMovement(tx, {
+          tenantId,
+          movementType: 'manual',
+          inventoryItemId: created.id,
+          productId: created.productId,
+          binId: created.binId,
+          toBinId: created.binId,
+          batchNumber: created.batchNumber,
+          lotNumber: created.lotNumber,
+          expiryDate: created.expiryDate,
+          quantityDelta: onHand,
+          referenceType: 'inventory_item',
+          referenceId: created.id,
+          createdBy: req.user!.id,
+        });
+      }
+
+      return created;
+    });
 
     res.status(201).json({
       success: true,
@@ -539,11 +564,37 @@ router.put('/inventory-items/:id', authorized('ADMIN', 'inventory-items.edit'),
     if (receivedDate !== undefined) updateData.receivedDate = receivedDate;
     if (costPerUnit !== undefined) updateData.costPerUnit = costPerUnit;
 
-    const [updatedRecord] = await db
-      .update(inventoryItems)
-      .set(updateData)
-      .where(and(eq(inventoryItems.id, id), eq(inventoryItems.tenantId, tenantId)))
-      .returning();
+    const updatedRecord = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(inventoryItems)
+        .set(updateData)
+        .where(and(eq(inventoryItems.id, id), eq(inventoryItems.tenantId, tenantId)))
+        .returning();
+
+      // Quantity edits bypass the stock workflows, so record them as manual movements
+      const delta = (updated.availableQuantity + updated.reservedQuantity)
+        - (existingRecord.availableQuantity + existingRecord.reservedQuantity);
+      if (delta !== 0) {
+        await recordStockMovement(tx, {
+          tenantId,
+          movementType: 'manual',
+          inventoryItemId: updated.id,
+          productId: updated.productId,
+          binId: updated.binId,
+          fromBinId: delta < 0 ? updated.binId : null,
+          toBinId: delta > 0 ? updated.binId : null,
+          batchNumber: updated.batchNumber,
+          lotNumber: updated.lotNumber,
+          expiryDate: updated.expiryDate,
+          quantityDelta: delta,
+          referenceType: 'inventory_item',
+          referenceId: updated.id,
+          createdBy: req.user!.id,
+        });
+      }
+
+      return updated;
+    });
 
     res.json({
       success: true,
@@ -600,9 +651,32 @@ router.delete('/inventory-items/:id', authorized('ADMIN', 'inventory-items.delet
       });
     }
 
-    await db
-      .delete(inventoryItems)
-      .where(and(eq(inventoryItems.id, id), eq(inventoryItems.tenantId, tenantId)));
+    await db.transaction(async (tx) => {
+      // Write off the remaining stock first; the ledger keeps the rows after the item is gone
+      const onHand = existingRecord.availableQuantity + existingRecord.reservedQuantity;
+      if (onHand > 0) {
+        await recordStockMovement(tx, {
+          tenantId,
+          movementType: 'manual',
+          inventoryItemId: existingRecord.id,
+          productId: existingRecord.productId,
+          binId: existingRecord.binId,
+          fromBinId: existingRecord.binId,
+          batchNumber: existingRecord.batchNumber,
+          lotNumber: existingRecord.lotNumber,
+          expiryDate: existingRecord.expiryDate,
+          quantityDelta: -onHand,
+          referenceType: 'inventory_item',
+          referenceId: existingRecord.id,
+          notes: 'Inventory item deleted',
+          createdBy: req.user!.id,
+        });
+      }
+
+      await tx
+        .delete(inventoryItems)
+        .where(and(eq(inventoryItems.id, id), eq(inventoryItems.tenantId, tenantId)));
+    });
 
     res.json({
       success: true,
@@ -714,6 +788,7 @@ router.get('/stock-information', authorized('ADMIN', 'inventory-items.view'), as
         productName: products.name,
         productDescription: products.description,
         hasExpiryDate: products.hasExpiryDate,
+        baseUom: products.baseUom,
         totalAvailableQuantity: sql<number>`SUM(${inventoryItems.availableQuantity})`,
         totalReservedQuantity: sql<number>`SUM(${inventoryItems.reservedQuantity})`,
         locationCount: sql<number>`COUNT(DISTINCT ${inventoryItems.binId})`,
@@ -730,15 +805,23 @@ router.get('/stock-information', authorized('ADMIN', 'inventory-items.view'), as
         products.sku,
         products.name,
         products.description,
-        products.hasExpiryDate
+        products.hasExpiryDate,
+        products.baseUom
       );
     const total = allResults.length;
 
     // Apply pagination
-    const data = allResults
+    const pageResults = allResults
       .sort((a, b) => (a.productSku || '').localeCompare(b.productSku || ''))
       .slice(offset, offset + limit);
 
+    // Alternate units let the client show quantities as e.g. 2 CASE 3 EA
+    const uomMap = await getProductUoms(tenantId, pageResults.map((row) => row.productId));
+    const data = pageResults.map((row) => ({
+      ...row,
+      uoms: uomMap.get(row.productId)?.uoms || [],
+    }));
+
     const totalPages = Math.ceil(total / limit);
 
     res.json({
@@ -0,0 +1,135 @@
+import express from 'express';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { resolveScan } from '../services/scanService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('inventory-items'));
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Gs1Data:
+ *       type: object
+ *       properties:
+ *         gtin:
+ *           type: string
+ *           description: AI 01 (or 02), as a GTIN-14
+ *         batchNumber:
+ *           type: string
+ *           description: AI 10
+ *         expiryDate:
+ *           type: string
+ *           format: date
+ *           description: AI 17; day 00 is read as the last day of the month
+ *         count:
+ *           type: integer
+ *           description: AI 37, number of trade items identified by the GTIN
+ *         elements:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *           description: Every application identifier in the scan
+ *     ScanMatch:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [bin, product, package, batch]
+ *         bin:
+ *           type: object
+ *           description: For bin matches, with its warehouse and zone
+ *         product:
+ *           type: object
+ *           description: For product matches
+ *         uom:
+ *           type: string
+ *           description: For product matches, the unit the barcode identifies (null for the base unit)
+ *         conversionFactor:
+ *           type: integer
+ *         baseQuantity:
+ *           type: integer
+ *           description: For GS1 product matches, the AI 37 count in base units
+ *         packageType:
+ *           type: object
+ *           description: For package matches
+ *         batch:
+ *           type: object
+ *           description: For batch matches, the inventory row holding the batch
+ */
+
+// ==================== SCAN ====================
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/scan/resolve:
+ *   get:
+ *     summary: Resolve a barcode scan to bins, products, packages and batches
+ *     description: |
+ *       GS1-128 / GS1 DataMatrix scans (with a symbology identifier, FNC1 sent as the group separator, the
+ *       human-readable (AI) form, or starting with AI 01 and a valid GTIN-14) are parsed into their application
+ *       identifiers; the GTIN resolves to a product or one of its package units and the batch to the stock
+ *       holding it. Any other scan is matched against bin barcodes, product barcodes and SKUs, package unit and
+ *       package type barcodes, and batch numbers. All matches are returned.
+ *     tags: [Scan]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Raw scan (URL-encode the group separator as %1D)
+ *     responses:
+ *       200:
+ *         description: Parsed GS1 data (null for other scans) and every match
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                 gs1:
+ *                   $ref: '#/components/schemas/Gs1Data'
+ *                 matches:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ScanMatch'
+ *       400:
+ *         description: No scan given
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/scan/resolve', authorized('ADMIN', 'inventory-items.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const code = typeof req.query.code === 'string' ? req.query.code : '';
+
+    if (!code.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Scan code is required',
+      });
+    }
+
+    const result = await resolveScan(tenantId, code);
+
+    res.json({
+      success: true,
+      data: result,
+      message: result.matches.length === 0 ? 'No match for scan' : undefined,
+    });
+  } catch (error) {
+    console.error('Error resolving scan:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,457 @@
+import express from 'express';
+import { db } from '@server/lib/db';
+import { stockMovements, stockMovementTypes, StockMovementType } from '../lib/db/schemas/stockMovements';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { bins } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { user } from '@server/lib/db/schema/system';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { eq, and, desc, count, gte, lte, ilike, or } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { logAudit, getClientIp } from '@server/services/auditService';
+import { getLedgerDiscrepancies, getOnHandAt, recordStockMovement } from '../services/stockMovementService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('inventory-items'));
+
+const fromBins = alias(bins, 'from_bins');
+const toBins = alias(bins, 'to_bins');
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StockMovement:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         movementType:
+ *           type: string
+ *           enum: [opening_balance, receipt, putaway, transfer, adjustment, pick, pick_short, count_variance, manual]
+ *         inventoryItemId:
+ *           type: string
+ *           format: uuid
+ *           description: Null once the inventory row has been deleted
+ *         productId:
+ *           type: string
+ *           format: uuid
+ *         binId:
+ *           type: string
+ *           format: uuid
+ *           description: Bin whose on-hand quantity changed
+ *         fromBinId:
+ *           type: string
+ *           format: uuid
+ *         toBinId:
+ *           type: string
+ *           format: uuid
+ *         quantityDelta:
+ *           type: integer
+ *           description: Change in on-hand (available + reserved) quantity of the bin
+ *         batchNumber:
+ *           type: string
+ *         lotNumber:
+ *           type: string
+ *         expiryDate:
+ *           type: string
+ *           format: date
+ *         reasonCode:
+ *           type: string
+ *         referenceType:
+ *           type: string
+ *           description: Source document type, e.g. goods_receipt, putaway_task, stock_transfer, inventory_adjustment, pick_list_item
+ *         referenceId:
+ *           type: string
+ *           format: uuid
+ *         referenceNumber:
+ *           type: string
+ *         notes:
+ *           type: string
+ *         createdBy:
+ *           type: string
+ *           format: uuid
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+// ==================== STOCK MOVEMENTS ====================
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/stock-movements:
+ *   get:
+ *     summary: Get stock ledger movements
+ *     tags: [Stock Movements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by product SKU, product name, batch or reference number
+ *       - in: query
+ *         name: productId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: binId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: inventoryItemId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: movementType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: referenceType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: referenceId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: List of stock movements, newest first
+ *       400:
+ *         description: Invalid movement type or date
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/stock-movements', authorized('ADMIN', 'inventory-items.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const search = req.query.search as string;
+    const productId = req.query.productId as string;
+    const binId = req.query.binId as string;
+    const inventoryItemId = req.query.inventoryItemId as string;
+    const movementType = req.query.movementType as string;
+    const referenceType = req.query.referenceType as string;
+    const referenceId = req.query.referenceId as string;
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
+    const offset = (page - 1) * limit;
+
+    if (movementType && !stockMovementTypes.includes(movementType as StockMovementType)) {
+      return res.status(400).json({
+        success: false,
+        message: `Movement type must be one of: ${stockMovementTypes.join(', ')}`,
+      });
+    }
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date range',
+      });
+    }
+
+    const whereConditions = [eq(stockMovements.tenantId, tenantId)];
+    if (productId) whereConditions.push(eq(stockMovements.productId, productId));
+    if (binId) whereConditions.push(eq(stockMovements.binId, binId));
+    if (inventoryItemId) whereConditions.push(eq(stockMovements.inventoryItemId, inventoryItemId));
+    if (movementType) whereConditions.push(eq(stockMovements.movementType, movementType as StockMovementType));
+    if (referenceType) whereConditions.push(eq(stockMovements.referenceType, referenceType));
+    if (referenceId) whereConditions.push(eq(stockMovements.referenceId, referenceId));
+    if (from) whereConditions.push(gte(stockMovements.createdAt, from));
+    if (to) whereConditions.push(lte(stockMovements.createdAt, to));
+    if (search) {
+      whereConditions.push(
+        or(
+          ilike(products.sku, `%${search}%`),
+          ilike(products.name, `%${search}%`),
+          ilike(stockMovements.batchNumber, `%${search}%`),
+          ilike(stockMovements.referenceNumber, `%${search}%`)
+        )!
+      );
+    }
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(stockMovements)
+      .leftJoin(products, eq(stockMovements.productId, products.id))
+      .where(and(...whereConditions));
+
+    const data = await db
+      .select({
+        id: stockMovements.id,
+        movementType: stockMovements.movementType,
+        inventoryItemId: stockMovements.inventoryItemId,
+        productId: stockMovements.productId,
+        productSku: products.sku,
+        productName: products.name,
+        binId: stockMovements.binId,
+        binName: bins.name,
+        fromBinId: stockMovements.fromBinId,
+        fromBinName: fromBins.name,
+        toBinId: stockMovements.toBinId,
+        toBinName: toBins.name,
+        quantityDelta: stockMovements.quantityDelta,
+        batchNumber: stockMovements.batchNumber,
+        lotNumber: stockMovements.lotNumber,
+        expiryDate: stockMovements.expiryDate,
+        reasonCode: stockMovements.reasonCode,
+        referenceType: stockMovements.referenceType,
+        referenceId: stockMovements.referenceId,
+        referenceNumber: stockMovements.referenceNumber,
+        notes: stockMovements.notes,
+        createdBy: stockMovements.createdBy,
+        createdByName: user.fullname,
+        createdAt: stockMovements.createdAt,
+      })
+      .from(stockMovements)
+      .leftJoin(products, eq(stockMovements.productId, products.id))
+      .leftJoin(bins, eq(stockMovements.binId, bins.id))
+      .leftJoin(fromBins, eq(stockMovements.fromBinId, fromBins.id))
+      .leftJoin(toBins, eq(stockMovements.toBinId, toBins.id))
+      .leftJoin(user, eq(stockMovements.createdBy, user.id))
+      .where(and(...whereConditions))
+      .orderBy(desc(stockMovements.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(totalResult.count / limit);
+
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching stock movements:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/stock-movements/on-hand:
+ *   get:
+ *     summary: Rebuild on-hand quantities from the ledger at a point in time
+ *     description: |
+ *       Sums the movements recorded up to and including `at` per product, bin and batch.
+ *       At least one of `productId` and `binId` is required. Combinations with a zero balance are omitted.
+ *     tags: [Stock Movements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: at
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Point in time to rebuild (defaults to now)
+ *       - in: query
+ *         name: productId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: binId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: On-hand quantity per product, bin and batch with the total
+ *       400:
+ *         description: Missing product/bin or invalid timestamp
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/stock-movements/on-hand', authorized('ADMIN', 'inventory-items.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const productId = req.query.productId as string;
+    const binId = req.query.binId as string;
+    const at = req.query.at ? new Date(req.query.at as string) : new Date();
+
+    if (!productId && !binId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Product ID or Bin ID is required',
+      });
+    }
+
+    if (isNaN(at.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid timestamp',
+      });
+    }
+
+    const balances = await getOnHandAt(tenantId, { at, productId, binId });
+
+    res.json({
+      success: true,
+      data: {
+        at,
+        totalQuantity: balances.reduce((sum, balance) => sum + balance.quantity, 0),
+        balances,
+      },
+    });
+  } catch (error) {
+    console.error('Error rebuilding on-hand quantities:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/stock-movements/reconciliation:
+ *   get:
+ *     summary: List inventory rows whose quantity does not match the ledger
+ *     description: Compares each row's available + reserved quantity with the sum of its movements.
+ *     tags: [Stock Movements]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rows with a difference (on-hand minus ledger)
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/stock-movements/reconciliation', authorized('ADMIN', 'inventory-items.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const data = await getLedgerDiscrepancies(db, tenantId);
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error reconciling stock ledger:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/stock-movements/opening-balances:
+ *   post:
+ *     summary: Record opening balances for stock the ledger does not know about
+ *     description: |
+ *       Writes one `opening_balance` movement per inventory row whose quantity differs from its ledger,
+ *       e.g. stock that existed before the ledger was introduced. Running it again is a no-op.
+ *     tags: [Stock Movements]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Opening balances recorded
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/stock-movements/opening-balances', authorized('ADMIN', 'inventory-items.edit'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+
+    const recorded = await db.transaction(async (tx) => {
+      const discrepancies = await getLedgerDiscrepancies(tx, tenantId);
+
+      for (const row of discrepancies) {
+        await recordStockMovement(tx, {
+          tenantId,
+          movementType: 'opening_balance',
+          inventoryItemId: row.inventoryItemId,
+          productId: row.productId,
+          binId: row.binId,
+          fromBinId: row.difference < 0 ? row.binId : null,
+          toBinId: row.difference > 0 ? row.binId : null,
+          quantityDelta: row.difference,
+          batchNumber: row.batchNumber,
+          lotNumber: row.lotNumber,
+          expiryDate: row.expiryDate,
+          referenceType: 'inventory_item',
+          referenceId: row.inventoryItemId,
+          createdBy: userId,
+        });
+      }
+
+      return discrepancies;
+    });
+
+    if (recorded.length > 0) {
+      await logAudit({
+        tenantId,
+        userId,
+        module: 'inventory-items',
+        action: 'create',
+        resourceType: 'stock_ledger',
+        resourceId: tenantId,
+        description: `Recorded opening balances for ${recorded.length} inventory item(s)`,
+        changedFields: {
+          inventoryItems: recorded.length,
+          quantity: recorded.reduce((sum, row) => sum + row.difference, 0),
+        },
+        ipAddress: getClientIp(req),
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: recorded,
+      message: `Recorded ${recorded.length} opening balance(s)`,
+    });
+  } catch (error) {
+    console.error('Error recording opening balances:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,382 @@
+import express from 'express';
+import { db } from '@server/lib/db';
+import { inventoryItems } from '../lib/db/schemas/inventoryItems';
+import { stockTransfers } from '../lib/db/schemas/stockTransfers';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { bins } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { user } from '@server/lib/db/schema/system';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { eq, and, desc, count, ilike, or } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { logAudit, getClientIp } from '@server/services/auditService';
+import { evaluatePutawayBins } from '@modules/purchase-order/server/services/putawayService';
+import { getBinWarehouseId, transferStock, TransferValidationError } from '../services/transferService';
+import { getBinCapacityWarnings } from '@modules/warehouse-setup/server/services/capacityService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('inventory-items'));
+
+const fromBins = alias(bins, 'from_bins');
+const toBins = alias(bins, 'to_bins');
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StockTransfer:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         productId:
+ *           type: string
+ *           format: uuid
+ *         fromInventoryItemId:
+ *           type: string
+ *           format: uuid
+ *         toInventoryItemId:
+ *           type: string
+ *           format: uuid
+ *           description: Same as the source row when the whole row moved, otherwise the split-off row
+ *         fromBinId:
+ *           type: string
+ *           format: uuid
+ *         toBinId:
+ *           type: string
+ *           format: uuid
+ *         quantity:
+ *           type: integer
+ *         batchNumber:
+ *           type: string
+ *         lotNumber:
+ *           type: string
+ *         expiryDate:
+ *           type: string
+ *           format: date
+ *         notes:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+// ==================== TRANSFERS ====================
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/transfers:
+ *   get:
+ *     summary: Get bin-to-bin stock transfers
+ *     tags: [Stock Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by product SKU, product name or batch number
+ *     responses:
+ *       200:
+ *         description: List of stock transfers, newest first
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/transfers', authorized('ADMIN', 'inventory-items.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const search = req.query.search as string;
+    const offset = (page - 1) * limit;
+
+    const whereConditions = [eq(stockTransfers.tenantId, tenantId)];
+    if (search) {
+      whereConditions.push(
+        or(
+          ilike(products.sku, `%${search}%`),
+          ilike(products.name, `%${search}%`),
+          ilike(stockTransfers.batchNumber, `%${search}%`)
+        )!
+      );
+    }
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(stockTransfers)
+      .leftJoin(products, eq(stockTransfers.productId, products.id))
+      .where(and(...whereConditions));
+
+    const data = await db
+      .select({
+        id: stockTransfers.id,
+        productId: stockTransfers.productId,
+        productSku: products.sku,
+        productName: products.name,
+        fromInventoryItemId: stockTransfers.fromInventoryItemId,
+        toInventoryItemId: stockTransfers.toInventoryItemId,
+        fromBinId: stockTransfers.fromBinId,
+        fromBinName: fromBins.name,
+        toBinId: stockTransfers.toBinId,
+        toBinName: toBins.name,
+        quantity: stockTransfers.quantity,
+        batchNumber: stockTransfers.batchNumber,
+        lotNumber: stockTransfers.lotNumber,
+        expiryDate: stockTransfers.expiryDate,
+        notes: stockTransfers.notes,
+        createdByName: user.fullname,
+        createdAt: stockTransfers.createdAt,
+      })
+      .from(stockTransfers)
+      .leftJoin(products, eq(stockTransfers.productId, products.id))
+      .leftJoin(fromBins, eq(stockTransfers.fromBinId, fromBins.id))
+      .leftJoin(toBins, eq(stockTransfers.toBinId, toBins.id))
+      .leftJoin(user, eq(stockTransfers.createdBy, user.id))
+      .where(and(...whereConditions))
+      .orderBy(desc(stockTransfers.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(totalResult.count / limit);
+
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching stock transfers:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/transfers/destinations:
+ *   get:
+ *     summary: Rank the bins of the stock's warehouse as transfer destinations
+ *     description: |
+ *       Uses the putaway bin rules (fixed SKU, category, temperature, capacity, cycle count freeze).
+ *       Ineligible bins are included with the reasons so they can be shown as unavailable.
+ *     tags: [Stock Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: inventoryItemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: quantity
+ *         schema:
+ *           type: integer
+ *         description: Units to move (defaults to all available units)
+ *     responses:
+ *       200:
+ *         description: Bins ordered best first
+ *       404:
+ *         description: Inventory item not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/transfers/destinations', authorized('ADMIN', 'inventory-items.relocate'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const inventoryItemId = req.query.inventoryItemId as string;
+
+    const [source] = inventoryItemId
+      ? await db
+        .select()
+        .from(inventoryItems)
+        .where(and(eq(inventoryItems.id, inventoryItemId), eq(inventoryItems.tenantId, tenantId)))
+      : [];
+
+    if (!source) {
+      return res.status(404).json({
+        success: false,
+        message: 'Inventory item not found',
+      });
+    }
+
+    const warehouseId = await getBinWarehouseId(db, tenantId, source.binId);
+    if (!warehouseId) {
+      return res.json({
+        success: true,
+        data: [],
+      });
+    }
+
+    const quantity = parseInt(req.query.quantity as string) || source.availableQuantity;
+    const data = await evaluatePutawayBins(db, {
+      tenantId,
+      warehouseId,
+      productId: source.productId,
+      quantity,
+      excludeBinIds: [source.binId],
+      includeIneligible: true,
+    });
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error evaluating transfer destinations:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/inventory-items/transfers:
+ *   post:
+ *     summary: Move all or part of an inventory row to another bin
+ *     description: |
+ *       Only available (unreserved) units move. A row that moves in full keeps its identity; otherwise it is
+ *       split and the new row keeps batch, lot, expiry, received date and cost. The destination must pass
+ *       the fixed SKU, category, temperature and capacity rules, and neither bin may be frozen by a cycle count.
+ *       The move is recorded as an outbound and an inbound `transfer` stock movement. A destination left nearly
+ *       full is reported in `warnings`.
+ *     tags: [Stock Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - inventoryItemId
+ *               - toBinId
+ *               - quantity
+ *             properties:
+ *               inventoryItemId:
+ *                 type: string
+ *                 format: uuid
+ *               toBinId:
+ *                 type: string
+ *                 format: uuid
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Stock transferred
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/StockTransfer'
+ *                 warnings:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Destination bin at 90% or more of its max weight or volume
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: Invalid quantity, destination in another warehouse, unsuitable destination (including over capacity) or frozen bin
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/transfers', authorized('ADMIN', 'inventory-items.relocate'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { inventoryItemId, toBinId, notes } = req.body;
+    const quantity = Number(req.body.quantity);
+
+    if (!inventoryItemId || !toBinId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Inventory item and destination bin are required',
+      });
+    }
+
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Quantity must be a positive whole number',
+      });
+    }
+
+    const transfer = await db.transaction(async (tx) => {
+      return transferStock(tx, { tenantId, userId, inventoryItemId, toBinId, quantity, notes });
+    });
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'inventory-items',
+      action: 'transfer',
+      resourceType: 'inventory_item',
+      resourceId: transfer.fromInventoryItemId,
+      description: `Moved ${quantity} unit(s) between bins`,
+      changedFields: {
+        binId: { from: transfer.fromBinId, to: transfer.toBinId },
+        quantity,
+        toInventoryItemId: transfer.toInventoryItemId,
+        batchNumber: transfer.batchNumber,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    const warnings = await getBinCapacityWarnings(db, tenantId, toBinId);
+
+    res.status(201).json({
+      success: true,
+      data: transfer,
+      warnings,
+      message: 'Stock transferred successfully',
+    });
+  } catch (error) {
+    if (error instanceof TransferValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error transferring stock:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,156 @@
+import { db } from '@server/lib/db';
+import { inventoryItems } from '../lib/db/schemas/inventoryItems';
+import { inventoryAdjustments, InventoryAdjustment } from '../lib/db/schemas/adjustments';
+import { StockMovementType } from '../lib/db/schemas/stockMovements';
+import { getTenantNumberOption, getTenantOptionsByPrefix } from '@server/services/optionService';
+import { recordStockMovement } from './stockMovementService';
+import { eq, sql } from 'drizzle-orm';
+
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+export const ADJUSTMENT_REASON_PREFIX = 'inventory.adjustment.reason.';
+export const ADJUSTMENT_APPROVAL_THRESHOLD_OPTION = 'inventory.adjustment.approval_threshold';
+
+export type ReasonDirection = 'increase' | 'decrease' | 'both';
+
+export interface AdjustmentReasonCode {
+  code: string;
+  name: string;
+  direction: ReasonDirection;
+}
+
+// Used until the tenant maintains its own reason codes in sys_option
+const DEFAULT_REASON_CODES: AdjustmentReasonCode[] = [
+  { code: 'damage', name: 'Damage', direction: 'decrease' },
+  { code: 'shrinkage', name: 'Shrinkage', direction: 'decrease' },
+  { code: 'found', name: 'Found', direction: 'increase' },
+  { code: 'expiry_write_off', name: 'Expiry Write-off', direction: 'decrease' },
+];
+
+export class AdjustmentValidationError extends Error {}
+
+/**
+ * Get the tenant's adjustment reason codes.
+ *
+ * Each reason is a sys_option row with code `inventory.adjustment.reason.<code>`, the label as name
+ * and the allowed direction (`increase`, `decrease` or `both`) as value.
+ */
+export async function getAdjustmentReasonCodes(tenantId: string): Promise<AdjustmentReasonCode[]> {
+  const options = await getTenantOptionsByPrefix(tenantId, ADJUSTMENT_REASON_PREFIX);
+  if (options.length === 0) {
+    return DEFAULT_REASON_CODES;
+  }
+
+  return options.map((option) => {
+    const direction = option.value.toLowerCase();
+    return {
+      code: option.code.slice(ADJUSTMENT_REASON_PREFIX.length),
+      name: option.name,
+      direction: direction === 'increase' || direction === 'decrease' ? direction : 'both',
+    };
+  });
+}
+
+/**
+ * Value above which an adjustment needs approval. 0 (the default) disables approval.
+ */
+export async function getApprovalThreshold(tenantId: string): Promise<number> {
+  return getTenantNumberOption(tenantId, ADJUSTMENT_APPROVAL_THRESHOLD_OPTION, 0);
+}
+
+/**
+ * Apply an adjustment to stock and record it in the movement ledger. Must run inside a transaction.
+ *
+ * Adjustments against an existing inventory row lock it and change its available quantity; a decrease
+ * can never take more than is available (reserved stock is left alone). An increase without an
+ * inventory row creates one for the product/batch in the bin. Cycle count postings pass `count_variance`
+ * as the movement type so the ledger tells them apart from manual adjustments.
+ */
+export async function applyAdjustment(
+  executor: Executor,
+  adjustment: InventoryAdjustment,
+  userId: string,
+  movementType: StockMovementType = 'adjustment'
+): Promise<InventoryAdjustment> {
+  let inventoryItemId = adjustment.inventoryItemId;
+
+  if (inventoryItemId) {
+    const [row] = await executor
+      .select()
+      .from(inventoryItems)
+      .where(eq(inventoryItems.id, inventoryItemId))
+      .for('update');
+
+    if (!row) {
+      throw new AdjustmentValidationError('Inventory record no longer exists');
+    }
+
+    if (row.availableQuantity + adjustment.quantityDelta < 0) {
+      throw new AdjustmentValidationError(
+        `Only ${row.availableQuantity} unit(s) are available to adjust in this bin`
+      );
+    }
+
+    await executor
+      .update(inventoryItems)
+      .set({
+        availableQuantity: sql`${inventoryItems.availableQuantity} + ${adjustment.quantityDelta}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(inventoryItems.id, inventoryItemId));
+  } else {
+    if (adjustment.quantityDelta < 0) {
+      throw new AdjustmentValidationError('There is no stock to decrease for this product in the bin');
+    }
+
+    const [created] = await executor
+      .insert(inventoryItems)
+      .values({
+        tenantId: adjustment.tenantId,
+        productId: adjustment.productId,
+        binId: adjustment.binId,
+        availableQuantity: adjustment.quantityDelta,
+        batchNumber: adjustment.batchNumber,
+        lotNumber: adjustment.lotNumber,
+        expiryDate: adjustment.expiryDate,
+        receivedDate: new Date().toISOString().split('T')[0],
+        costPerUnit: adjustment.unitCost,
+      })
+      .returning({ id: inventoryItems.id });
+    inventoryItemId = created.id;
+  }
+
+  await recordStockMovement(executor, {
+    tenantId: adjustment.tenantId,
+    movementType,
+    inventoryItemId,
+    productId: adjustment.productId,
+    binId: adjustment.binId,
+    fromBinId: adjustment.quantityDelta < 0 ? adjustment.binId : null,
+    toBinId: adjustment.quantityDelta > 0 ? adjustment.binId : null,
+    quantityDelta: adjustment.quantityDelta,
+    batchNumber: adjustment.batchNumber,
+    lotNumber: adjustment.lotNumber,
+    expiryDate: adjustment.expiryDate,
+    reasonCode: adjustment.reasonCode,
+    referenceType: 'inventory_adjustment',
+    referenceId: adjustment.id,
+    referenceNumber: adjustment.adjustmentNumber,
+    notes: adjustment.notes,
+    createdBy: userId,
+  });
+
+  const [updated] = await executor
+    .update(inventoryAdjustments)
+    .set({
+      inventoryItemId,
+      status: 'approved',
+      approvedBy: userId,
+      approvedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(inventoryAdjustments.id, adjustment.id))
+    .returning();
+
+  return updated;
+}
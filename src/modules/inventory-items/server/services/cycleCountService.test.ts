@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { CycleCountValidationError, countVariance, expectedBinQuantity } from './cycleCountService';
+
+describe('cycle count variance', () => {
+  // 6 units free to pick and 4 held for an order, all physically in the bin
+  const partlyReservedRow = { availableQuantity: 6, reservedQuantity: 4 };
+
+  it('expects the available and reserved units in the bin', () => {
+    expect(expectedBinQuantity(partlyReservedRow)).toBe(10);
+  });
+
+  it('finds no variance when every unit in the bin is counted', () => {
+    expect(countVariance(10, partlyReservedRow)).toBe(0);
+  });
+
+  it('measures shortages and overages against available plus reserved', () => {
+    expect(countVariance(9, partlyReservedRow)).toBe(-1);
+    expect(countVariance(12, partlyReservedRow)).toBe(2);
+  });
+
+  it('allows a shortage that takes the available quantity down to zero', () => {
+    expect(countVariance(4, partlyReservedRow)).toBe(-6);
+  });
+
+  it('rejects a count below the reserved quantity', () => {
+    expect(() => countVariance(3, partlyReservedRow)).toThrow(CycleCountValidationError);
+  });
+
+  it('treats every counted unit as an overage when the bin has no inventory row', () => {
+    expect(countVariance(5, null)).toBe(5);
+  });
+});
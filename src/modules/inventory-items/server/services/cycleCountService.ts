@@ -0,0 +1,246 @@
+import { db } from '@server/lib/db';
+import { InventoryItem, inventoryItems } from '../lib/db/schemas/inventoryItems';
+import { inventoryAdjustments } from '../lib/db/schemas/adjustments';
+import { cycleCountBins, cycleCountLines, cycleCounts, CycleCount } from '../lib/db/schemas/cycleCounts';
+import { aisles, bins, shelves, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { applyAdjustment } from './adjustmentService';
+import { and, asc, eq, gt, inArray, or, SQL } from 'drizzle-orm';
+
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+export const CYCLE_COUNT_REASON_CODE = 'cycle_count';
+
+// Sessions in these states freeze their bins
+const OPEN_COUNT_STATUSES: CycleCount['status'][] = ['counting', 'review'];
+
+export class CycleCountValidationError extends Error {}
+
+export interface CycleCountScope {
+  warehouseId: string;
+  scopeType: CycleCount['scopeType'];
+  zoneId?: string | null;
+  aisleId?: string | null;
+  binIds?: string[];
+}
+
+/**
+ * Bins frozen by an open cycle count, mapped to the count number that froze them.
+ * Stock moves into or out of these bins must be refused until the count is posted or cancelled.
+ */
+export async function getFrozenBins(
+  executor: Pick<typeof db, 'select'>,
+  tenantId: string,
+  binIds: string[]
+): Promise<Map<string, string>> {
+  if (binIds.length === 0) return new Map();
+
+  const rows = await executor
+    .select({ binId: cycleCountBins.binId, countNumber: cycleCounts.countNumber })
+    .from(cycleCountBins)
+    .innerJoin(cycleCounts, eq(cycleCountBins.cycleCountId, cycleCounts.id))
+    .where(and(
+      eq(cycleCounts.tenantId, tenantId),
+      inArray(cycleCounts.status, OPEN_COUNT_STATUSES),
+      inArray(cycleCountBins.binId, binIds)
+    ));
+
+  return new Map(rows.map((row) => [row.binId, row.countNumber]));
+}
+
+/**
+ * Resolve the bins covered by a count scope. Zone, aisle and bin scopes must lie within the warehouse.
+ */
+export async function resolveScopeBins(
+  executor: Pick<typeof db, 'select'>,
+  tenantId: string,
+  scope: CycleCountScope
+): Promise<string[]> {
+  let scopeCondition: SQL | undefined;
+  switch (scope.scopeType) {
+    case 'warehouse':
+      scopeCondition = undefined;
+      break;
+    case 'zone':
+      if (!scope.zoneId) throw new CycleCountValidationError('Select a zone to count');
+      scopeCondition = eq(zones.id, scope.zoneId);
+      break;
+    case 'aisle':
+      if (!scope.aisleId) throw new CycleCountValidationError('Select an aisle to count');
+      scopeCondition = eq(aisles.id, scope.aisleId);
+      break;
+    case 'bins':
+      if (!scope.binIds || scope.binIds.length === 0) throw new CycleCountValidationError('Select at least one bin to count');
+      scopeCondition = inArray(bins.id, scope.binIds);
+      break;
+    default:
+      throw new CycleCountValidationError('Scope must be warehouse, zone, aisle or bins');
+  }
+
+  const rows = await executor
+    .select({ id: bins.id })
+    .from(bins)
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .where(and(
+      eq(bins.tenantId, tenantId),
+      eq(zones.warehouseId, scope.warehouseId),
+      scopeCondition
+    ));
+
+  if (scope.scopeType === 'bins' && rows.length !== new Set(scope.binIds).size) {
+    throw new CycleCountValidationError('Every bin must belong to the selected warehouse');
+  }
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Units a counter finds in the bin for an inventory row. Reserved units have not left the bin yet, so they are
+ * counted together with the available ones.
+ */
+export function expectedBinQuantity(row: Pick<InventoryItem, 'availableQuantity' | 'reservedQuantity'>): number {
+  return row.availableQuantity + row.reservedQuantity;
+}
+
+/**
+ * The variance of a counted line against the row's available and reserved units. It is posted against the
+ * available units, so a count below the reserved quantity cannot be posted until the reservations are released.
+ */
+export function countVariance(
+  countedQuantity: number,
+  row: Pick<InventoryItem, 'availableQuantity' | 'reservedQuantity'> | null | undefined
+): number {
+  const reserved = row?.reservedQuantity ?? 0;
+  if (countedQuantity < reserved) {
+    throw new CycleCountValidationError(
+      `Counted ${countedQuantity} unit(s) but ${reserved} are reserved; release the reservations before posting`
+    );
+  }
+  return countedQuantity - (row ? expectedBinQuantity(row) : 0);
+}
+
+/**
+ * Create the count session's bins and one line per inventory row in them that holds stock.
+ * The expected quantity is the row's available and reserved quantity at the time the session starts.
+ */
+export async function createCountLines(
+  executor: Executor,
+  params: { tenantId: string; cycleCountId: string; binIds: string[] }
+): Promise<number> {
+  await executor
+    .insert(cycleCountBins)
+    .values(params.binIds.map((binId) => ({ cycleCountId: params.cycleCountId, binId })));
+
+  const stock = await executor
+    .select()
+    .from(inventoryItems)
+    .where(and(
+      eq(inventoryItems.tenantId, params.tenantId),
+      inArray(inventoryItems.binId, params.binIds),
+      or(gt(inventoryItems.availableQuantity, 0), gt(inventoryItems.reservedQuantity, 0))
+    ))
+    .orderBy(asc(inventoryItems.binId), asc(inventoryItems.productId));
+
+  if (stock.length === 0) return 0;
+
+  await executor.insert(cycleCountLines).values(stock.map((row) => ({
+    cycleCountId: params.cycleCountId,
+    tenantId: params.tenantId,
+    binId: row.binId,
+    productId: row.productId,
+    inventoryItemId: row.id,
+    batchNumber: row.batchNumber,
+    lotNumber: row.lotNumber,
+    expiryDate: row.expiryDate,
+    expectedQuantity: expectedBinQuantity(row),
+  })));
+
+  return stock.length;
+}
+
+/**
+ * Post the approved lines of a count session that is in review. The session must already be locked by the caller.
+ *
+ * Each line's variance is measured against the row's current available and reserved quantity and adjusts the
+ * available quantity; reserved units are left as they are. Non-zero variances are
+ * written as approved inventory adjustments (reason `cycle_count`, numbered after the count) and recorded in the
+ * stock ledger as `count_variance` movements. Must run inside a transaction.
+ */
+export async function postCycleCount(
+  executor: Executor,
+  count: CycleCount,
+  userId: string
+): Promise<{ adjustedLines: number; netVariance: number }> {
+  const lines = await executor
+    .select()
+    .from(cycleCountLines)
+    .where(eq(cycleCountLines.cycleCountId, count.id))
+    .orderBy(asc(cycleCountLines.createdAt), asc(cycleCountLines.id))
+    .for('update');
+
+  if (lines.some((line) => line.status !== 'approved')) {
+    throw new CycleCountValidationError('Approve or recount every line before posting');
+  }
+
+  let adjustedLines = 0;
+  let netVariance = 0;
+
+  for (const line of lines) {
+    const [row] = line.inventoryItemId
+      ? await executor
+        .select()
+        .from(inventoryItems)
+        .where(eq(inventoryItems.id, line.inventoryItemId))
+        .for('update')
+      : [];
+
+    const variance = countVariance(line.countedQuantity ?? 0, row);
+    let adjustmentId: string | null = null;
+
+    if (variance !== 0) {
+      adjustedLines++;
+      netVariance += variance;
+
+      const unitCost = row?.costPerUnit ?? null;
+      const [adjustment] = await executor
+        .insert(inventoryAdjustments)
+        .values({
+          tenantId: count.tenantId,
+          adjustmentNumber: `${count.countNumber}-${adjustedLines}`,
+          inventoryItemId: line.inventoryItemId,
+          productId: line.productId,
+          binId: line.binId,
+          batchNumber: line.batchNumber,
+          lotNumber: line.lotNumber,
+          expiryDate: line.expiryDate,
+          quantityDelta: variance,
+          reasonCode: CYCLE_COUNT_REASON_CODE,
+          unitCost,
+          valueImpact: (Math.abs(variance) * (unitCost ? parseFloat(unitCost) : 0)).toFixed(2),
+          notes: `Cycle count ${count.countNumber}`,
+          createdBy: userId,
+        })
+        .returning();
+
+      const applied = await applyAdjustment(executor, adjustment, userId, 'count_variance');
+      adjustmentId = applied.id;
+    }
+
+    await executor
+      .update(cycleCountLines)
+      .set({ varianceQuantity: variance, adjustmentId, updatedAt: new Date() })
+      .where(eq(cycleCountLines.id, line.id));
+  }
+
+  // The count settles the stock of its bins, including bins a short pick asked to have counted
+  await executor
+    .update(bins)
+    .set({ countRequestedAt: null })
+    .where(inArray(
+      bins.id,
+      executor.select({ binId: cycleCountBins.binId }).from(cycleCountBins).where(eq(cycleCountBins.cycleCountId, count.id))
+    ));
+
+  return { adjustedLines, netVariance };
+}
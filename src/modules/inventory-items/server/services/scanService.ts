@@ -0,0 +1,323 @@
+import { db } from '@server/lib/db';
+import { inventoryItems } from '../lib/db/schemas/inventoryItems';
+import { packageTypes, productUoms, products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { aisles, bins, shelves, warehouses, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { and, asc, eq, gt, or, sql, SQL } from 'drizzle-orm';
+import { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+// FNC1 is transmitted by scanners as the ASCII group separator
+const GROUP_SEPARATOR = '\x1d';
+
+// Symbology identifiers of GS1-128, GS1 DataMatrix and GS1 QR Code, prefixed by scanners that send them
+const GS1_SYMBOLOGY_IDENTIFIERS = [']C1', ']d2', ']Q3'];
+
+// Data length of the application identifiers with a predefined length, keyed by the AI's first two digits
+const PREDEFINED_DATA_LENGTHS: Record<string, number> = {
+  '00': 18, '01': 14, '02': 14, '03': 14, '04': 16,
+  '11': 6, '12': 6, '13': 6, '14': 6, '15': 6, '16': 6, '17': 6, '18': 6, '19': 6,
+  '20': 2,
+  '31': 6, '32': 6, '33': 6, '34': 6, '35': 6, '36': 6,
+  '41': 13,
+};
+
+const THREE_DIGIT_AI_PREFIXES = ['23', '24', '25', '40', '41', '42', '43', '71'];
+const FOUR_DIGIT_AI_PREFIXES = ['31', '32', '33', '34', '35', '36', '39', '70', '72', '80', '81', '82'];
+
+export interface Gs1Data {
+  gtin: string | null;
+  batchNumber: string | null;
+  expiryDate: string | null;
+  count: number | null;
+  // Every application identifier in the scan, including those not mapped above
+  elements: Record<string, string>;
+}
+
+export type ScanMatch =
+  | {
+    type: 'bin';
+    bin: { id: string; name: string; barcode: string | null; warehouseId: string; warehouseName: string; zoneName: string };
+  }
+  | {
+    type: 'product';
+    product: { id: string; sku: string; name: string; baseUom: string; hasExpiryDate: boolean | null };
+    // Unit the scanned barcode identifies; null for the base unit
+    uom: string | null;
+    conversionFactor: number;
+    // AI 37 count converted to base units
+    baseQuantity: number | null;
+  }
+  | {
+    type: 'package';
+    packageType: { id: string; name: string; barcode: string | null; unitsPerPackage: number | null };
+  }
+  | {
+    type: 'batch';
+    batch: {
+      inventoryItemId: string;
+      productId: string;
+      sku: string;
+      binId: string;
+      binName: string;
+      batchNumber: string | null;
+      lotNumber: string | null;
+      expiryDate: string | null;
+      availableQuantity: number;
+    };
+  };
+
+export interface ScanResult {
+  code: string;
+  gs1: Gs1Data | null;
+  matches: ScanMatch[];
+}
+
+function getAiLength(data: string): number {
+  const prefix = data.slice(0, 2);
+  if (FOUR_DIGIT_AI_PREFIXES.includes(prefix)) return 4;
+  if (THREE_DIGIT_AI_PREFIXES.includes(prefix)) return 3;
+  return 2;
+}
+
+/**
+ * True when the last digit of a GTIN-8/12/13/14 is its GS1 mod-10 check digit
+ */
+export function isValidGtin(gtin: string): boolean {
+  if (!/^(\d{8}|\d{12,14})$/.test(gtin)) return false;
+
+  const digits = gtin.split('').map(Number);
+  const checkDigit = digits.pop()!;
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+/**
+ * GS1 YYMMDD date as YYYY-MM-DD. Day 00 means the last day of the month.
+ */
+function parseGs1Date(value: string): string | null {
+  if (!/^\d{6}$/.test(value)) return null;
+
+  const year = 2000 + parseInt(value.slice(0, 2));
+  const month = parseInt(value.slice(2, 4));
+  let day = parseInt(value.slice(4, 6));
+  if (month < 1 || month > 12) return null;
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day === 0) {
+    day = lastDay;
+  } else if (day > lastDay) {
+    return null;
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function splitElements(data: string): Record<string, string> | null {
+  const elements: Record<string, string> = {};
+
+  // Human-readable form, e.g. (01)09501101530003(17)250630(10)AB12
+  if (data.startsWith('(')) {
+    const pattern = /\((\d{2,4})\)([^(]*)/g;
+    let match: RegExpExecArray | null;
+    let consumed = 0;
+    while ((match = pattern.exec(data)) !== null) {
+      elements[match[1]] = match[2].replace(GROUP_SEPARATOR, '').trim();
+      consumed += match[0].length;
+    }
+    return consumed === data.length && Object.keys(elements).length > 0 ? elements : null;
+  }
+
+  let rest = data.startsWith(GROUP_SEPARATOR) ? data.slice(1) : data;
+  while (rest.length > 0) {
+    if (!/^\d{2}/.test(rest)) return null;
+
+    const aiLength = getAiLength(rest);
+    const ai = rest.slice(0, aiLength);
+    const fixedLength = PREDEFINED_DATA_LENGTHS[rest.slice(0, 2)];
+
+    let value: string;
+    if (fixedLength) {
+      value = rest.slice(aiLength, aiLength + fixedLength);
+      if (value.length !== fixedLength) return null;
+      rest = rest.slice(aiLength + fixedLength);
+    } else {
+      const end = rest.indexOf(GROUP_SEPARATOR);
+      value = end === -1 ? rest.slice(aiLength) : rest.slice(aiLength, end);
+      rest = end === -1 ? '' : rest.slice(end);
+    }
+    if (rest.startsWith(GROUP_SEPARATOR)) {
+      rest = rest.slice(1);
+    }
+
+    elements[ai] = value;
+  }
+
+  return Object.keys(elements).length > 0 ? elements : null;
+}
+
+/**
+ * Parse a GS1-128 / GS1 DataMatrix scan into its application identifiers, mapping 01 (GTIN), 10 (batch),
+ * 17 (expiry) and 37 (count). Returns null when the scan is not GS1: it must carry a GS1 symbology
+ * identifier, a group separator or the human-readable (AI) form, or start with AI 01 and a valid GTIN-14.
+ */
+export function parseGs1(scan: string): Gs1Data | null {
+  let data = scan.trim();
+  const symbology = GS1_SYMBOLOGY_IDENTIFIERS.find((identifier) => data.startsWith(identifier));
+  if (symbology) {
+    data = data.slice(symbology.length);
+  }
+
+  const looksLikeGs1 = !!symbology ||
+    data.includes(GROUP_SEPARATOR) ||
+    /^\(\d{2,4}\)/.test(data) ||
+    (data.startsWith('01') && isValidGtin(data.slice(2, 16)));
+  if (!looksLikeGs1) return null;
+
+  const elements = splitElements(data);
+  if (!elements) return null;
+
+  const count = elements['37'] !== undefined ? parseInt(elements['37']) : null;
+  return {
+    gtin: elements['01'] ?? elements['02'] ?? null,
+    batchNumber: elements['10'] || null,
+    expiryDate: elements['17'] ? parseGs1Date(elements['17']) : null,
+    count: count !== null && Number.isFinite(count) ? count : null,
+    elements,
+  };
+}
+
+// GTIN-8/12/13 barcodes are stored as printed, GS1 scans carry them zero-padded to GTIN-14
+function barcodeEquals(column: AnyPgColumn, code: string): SQL {
+  return /^\d+$/.test(code)
+    ? sql`ltrim(${column}, '0') = ${code.replace(/^0+/, '')}`
+    : eq(column, code);
+}
+
+async function findProductsByBarcode(tenantId: string, code: string, includeSku: boolean) {
+  const productFields = {
+    id: products.id,
+    sku: products.sku,
+    name: products.name,
+    baseUom: products.baseUom,
+    hasExpiryDate: products.hasExpiryDate,
+  };
+
+  const baseUnits = await db
+    .select(productFields)
+    .from(products)
+    .where(and(
+      eq(products.tenantId, tenantId),
+      includeSku ? or(barcodeEquals(products.barcode, code), eq(products.sku, code)) : barcodeEquals(products.barcode, code)
+    ));
+
+  const packages = await db
+    .select({ ...productFields, uom: productUoms.uom, conversionFactor: productUoms.conversionFactor })
+    .from(productUoms)
+    .innerJoin(products, eq(productUoms.productId, products.id))
+    .where(and(
+      eq(productUoms.tenantId, tenantId),
+      eq(productUoms.isActive, true),
+      barcodeEquals(productUoms.barcode, code)
+    ));
+
+  return [
+    ...baseUnits.map((product) => ({ product, uom: null, conversionFactor: 1 })),
+    ...packages.map(({ uom, conversionFactor, ...product }) => ({ product, uom, conversionFactor })),
+  ];
+}
+
+async function findBatches(tenantId: string, batchNumber: string, productId?: string) {
+  return db
+    .select({
+      inventoryItemId: inventoryItems.id,
+      productId: inventoryItems.productId,
+      sku: products.sku,
+      binId: inventoryItems.binId,
+      binName: bins.name,
+      batchNumber: inventoryItems.batchNumber,
+      lotNumber: inventoryItems.lotNumber,
+      expiryDate: inventoryItems.expiryDate,
+      availableQuantity: inventoryItems.availableQuantity,
+    })
+    .from(inventoryItems)
+    .innerJoin(products, eq(inventoryItems.productId, products.id))
+    .innerJoin(bins, eq(inventoryItems.binId, bins.id))
+    .where(and(
+      eq(inventoryItems.tenantId, tenantId),
+      eq(inventoryItems.batchNumber, batchNumber),
+      gt(inventoryItems.availableQuantity, 0),
+      productId ? eq(inventoryItems.productId, productId) : undefined
+    ))
+    .orderBy(asc(inventoryItems.expiryDate), asc(bins.name))
+    .limit(50);
+}
+
+/**
+ * Resolve a raw scan for the tenant. GS1 scans resolve their GTIN to a product (or one of its package
+ * units) and their batch to the stock holding it; any other scan is looked up as a bin barcode, a product
+ * barcode or SKU, a package unit or package type barcode, and a batch number. Every match is returned.
+ */
+export async function resolveScan(tenantId: string, scan: string): Promise<ScanResult> {
+  const code = scan.trim();
+  const gs1 = parseGs1(code);
+  const matches: ScanMatch[] = [];
+
+  if (gs1) {
+    const productMatches = gs1.gtin ? await findProductsByBarcode(tenantId, gs1.gtin, false) : [];
+    for (const match of productMatches) {
+      matches.push({
+        type: 'product',
+        ...match,
+        baseQuantity: gs1.count !== null ? gs1.count * match.conversionFactor : null,
+      });
+    }
+
+    if (gs1.batchNumber) {
+      const productIds = productMatches.map((match) => match.product.id);
+      const batches = productIds.length > 0
+        ? (await Promise.all(productIds.map((productId) => findBatches(tenantId, gs1.batchNumber!, productId)))).flat()
+        : await findBatches(tenantId, gs1.batchNumber);
+      matches.push(...batches.map((batch) => ({ type: 'batch' as const, batch })));
+    }
+
+    return { code, gs1, matches };
+  }
+
+  const binMatches = await db
+    .select({
+      id: bins.id,
+      name: bins.name,
+      barcode: bins.barcode,
+      warehouseId: warehouses.id,
+      warehouseName: warehouses.name,
+      zoneName: zones.name,
+    })
+    .from(bins)
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .innerJoin(warehouses, eq(zones.warehouseId, warehouses.id))
+    .where(and(eq(bins.tenantId, tenantId), eq(bins.barcode, code)));
+  matches.push(...binMatches.map((bin) => ({ type: 'bin' as const, bin })));
+
+  const productMatches = await findProductsByBarcode(tenantId, code, true);
+  matches.push(...productMatches.map((match) => ({ type: 'product' as const, ...match, baseQuantity: null })));
+
+  const packageMatches = await db
+    .select({
+      id: packageTypes.id,
+      name: packageTypes.name,
+      barcode: packageTypes.barcode,
+      unitsPerPackage: packageTypes.unitsPerPackage,
+    })
+    .from(packageTypes)
+    .where(and(eq(packageTypes.tenantId, tenantId), eq(packageTypes.barcode, code)));
+  matches.push(...packageMatches.map((packageType) => ({ type: 'package' as const, packageType })));
+
+  const batches = await findBatches(tenantId, code);
+  matches.push(...batches.map((batch) => ({ type: 'batch' as const, batch })));
+
+  return { code, gs1: null, matches };
+}
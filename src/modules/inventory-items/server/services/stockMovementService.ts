@@ -0,0 +1,129 @@
+import { db } from '@server/lib/db';
+import { inventoryItems } from '../lib/db/schemas/inventoryItems';
+import { stockMovements, NewStockMovement, StockMovement, StockMovementType } from '../lib/db/schemas/stockMovements';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { bins } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { and, eq, lte, ne, sql } from 'drizzle-orm';
+
+type Executor = Pick<typeof db, 'insert'>;
+
+/**
+ * Append a movement to the stock ledger. Call it in the same transaction as the
+ * inventory change it describes so the ledger and on-hand quantities never drift apart.
+ */
+export async function recordStockMovement(
+  executor: Executor,
+  movement: Omit<NewStockMovement, 'id' | 'createdAt'>
+): Promise<StockMovement> {
+  const [created] = await executor
+    .insert(stockMovements)
+    .values(movement)
+    .returning();
+
+  return created;
+}
+
+/**
+ * Record a move of `quantity` units between bins as an outbound row for the source bin and an
+ * inbound row for the destination bin. The rows differ only in bin, inventory row and sign.
+ */
+export async function recordBinMove(
+  executor: Executor,
+  move: {
+    tenantId: string;
+    movementType: StockMovementType;
+    productId: string;
+    batchNumber: string | null;
+    lotNumber: string | null;
+    expiryDate: string | null;
+    fromBinId: string;
+    toBinId: string;
+    fromInventoryItemId: string;
+    toInventoryItemId: string;
+    quantity: number;
+    referenceType: string;
+    referenceId: string;
+    referenceNumber?: string | null;
+    notes?: string | null;
+    createdBy: string;
+  }
+): Promise<void> {
+  const { fromInventoryItemId, toInventoryItemId, quantity, ...shared } = move;
+
+  await executor.insert(stockMovements).values([
+    { ...shared, inventoryItemId: fromInventoryItemId, binId: move.fromBinId, quantityDelta: -quantity },
+    { ...shared, inventoryItemId: toInventoryItemId, binId: move.toBinId, quantityDelta: quantity },
+  ]);
+}
+
+/**
+ * Rebuild on-hand quantities from the ledger as they stood at `at`, per product, bin and batch.
+ * Stock that has since left a bin still shows; combinations whose balance was zero are omitted.
+ */
+export async function getOnHandAt(
+  tenantId: string,
+  params: { at: Date; productId?: string; binId?: string }
+) {
+  const quantity = sql<number>`sum(${stockMovements.quantityDelta})`.mapWith(Number);
+
+  return db
+    .select({
+      productId: stockMovements.productId,
+      productSku: products.sku,
+      productName: products.name,
+      binId: stockMovements.binId,
+      binName: bins.name,
+      batchNumber: stockMovements.batchNumber,
+      quantity,
+      movementCount: sql<number>`count(*)`.mapWith(Number),
+      lastMovementAt: sql<Date>`max(${stockMovements.createdAt})`.mapWith((value) => new Date(value)),
+    })
+    .from(stockMovements)
+    .innerJoin(products, eq(stockMovements.productId, products.id))
+    .innerJoin(bins, eq(stockMovements.binId, bins.id))
+    .where(and(
+      eq(stockMovements.tenantId, tenantId),
+      lte(stockMovements.createdAt, params.at),
+      params.productId ? eq(stockMovements.productId, params.productId) : undefined,
+      params.binId ? eq(stockMovements.binId, params.binId) : undefined
+    ))
+    .groupBy(stockMovements.productId, products.id, stockMovements.binId, bins.id, stockMovements.batchNumber)
+    .having(ne(sql`sum(${stockMovements.quantityDelta})`, 0))
+    .orderBy(products.sku, bins.name, stockMovements.batchNumber);
+}
+
+/**
+ * Inventory rows whose on-hand quantity (available + reserved) differs from the sum of their ledger movements,
+ * e.g. stock that existed before the ledger or was changed outside the application.
+ */
+export async function getLedgerDiscrepancies(executor: Pick<typeof db, 'select'>, tenantId: string) {
+  const ledgerQuantity = sql<number>`coalesce(sum(${stockMovements.quantityDelta}), 0)`.mapWith(Number);
+  const onHandQuantity = sql<number>`${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity}`.mapWith(Number);
+
+  const rows = await executor
+    .select({
+      inventoryItemId: inventoryItems.id,
+      productId: inventoryItems.productId,
+      productSku: products.sku,
+      productName: products.name,
+      binId: inventoryItems.binId,
+      binName: bins.name,
+      batchNumber: inventoryItems.batchNumber,
+      lotNumber: inventoryItems.lotNumber,
+      expiryDate: inventoryItems.expiryDate,
+      onHandQuantity,
+      ledgerQuantity,
+    })
+    .from(inventoryItems)
+    .innerJoin(products, eq(inventoryItems.productId, products.id))
+    .innerJoin(bins, eq(inventoryItems.binId, bins.id))
+    .leftJoin(stockMovements, eq(stockMovements.inventoryItemId, inventoryItems.id))
+    .where(eq(inventoryItems.tenantId, tenantId))
+    .groupBy(inventoryItems.id, products.id, bins.id)
+    .having(ne(
+      sql`${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity}`,
+      sql`coalesce(sum(${stockMovements.quantityDelta}), 0)`
+    ));
+
+  return rows.map((row) => ({ ...row, difference: row.onHandQuantity - row.ledgerQuantity }));
+}
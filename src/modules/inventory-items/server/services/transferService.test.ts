@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { assertSameWarehouse, TransferValidationError } from './transferService';
+
+describe('transfer destination warehouse', () => {
+  it('accepts a destination bin in the source warehouse', () => {
+    expect(() => assertSameWarehouse('warehouse-a', 'warehouse-a')).not.toThrow();
+  });
+
+  it('rejects a destination bin in another warehouse', () => {
+    expect(() => assertSameWarehouse('warehouse-a', 'warehouse-b')).toThrow(TransferValidationError);
+    expect(() => assertSameWarehouse('warehouse-a', 'warehouse-b')).toThrow(/same warehouse/);
+  });
+
+  it('rejects an unknown destination bin', () => {
+    expect(() => assertSameWarehouse('warehouse-a', null)).toThrow('Destination bin not found');
+  });
+});
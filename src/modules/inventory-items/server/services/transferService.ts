@@ -0,0 +1,193 @@
+import { db } from '@server/lib/db';
+import { inventoryItems } from '../lib/db/schemas/inventoryItems';
+import { stockTransfers, StockTransfer } from '../lib/db/schemas/stockTransfers';
+import { aisles, bins, shelves, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { putawayTasks } from '@modules/purchase-order/server/lib/db/schemas/putaway';
+import { evaluatePutawayBins } from '@modules/purchase-order/server/services/putawayService';
+import { getFrozenBins } from './cycleCountService';
+import { recordBinMove } from './stockMovementService';
+import { and, eq, sql } from 'drizzle-orm';
+
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+export class TransferValidationError extends Error {}
+
+/**
+ * Warehouse a bin belongs to, or null if the bin is not one of the tenant's
+ */
+export async function getBinWarehouseId(
+  executor: Pick<typeof db, 'select'>,
+  tenantId: string,
+  binId: string
+): Promise<string | null> {
+  const [row] = await executor
+    .select({ warehouseId: zones.warehouseId })
+    .from(bins)
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .where(and(eq(bins.id, binId), eq(bins.tenantId, tenantId)));
+
+  return row?.warehouseId ?? null;
+}
+
+/**
+ * Transfers stay inside one warehouse; moving stock between warehouses is not a bin transfer
+ */
+export function assertSameWarehouse(
+  fromWarehouseId: string | null,
+  toWarehouseId: string | null
+): asserts toWarehouseId is string {
+  if (!toWarehouseId) {
+    throw new TransferValidationError('Destination bin not found');
+  }
+  if (fromWarehouseId !== toWarehouseId) {
+    throw new TransferValidationError('Destination bin must be in the same warehouse as the current bin');
+  }
+}
+
+/**
+ * Move `quantity` available units of an inventory row to another bin. Must run inside a transaction.
+ *
+ * The destination must be in the source bin's warehouse and pass the same constraints as a putaway
+ * destination (fixed SKU, category, temperature, capacity), and neither bin may be frozen by a cycle count. A row that moves in full
+ * (all of its stock, nothing reserved) keeps its identity; otherwise it is split and the new row keeps
+ * the batch, lot, expiry, received date and cost. The move is recorded as a transfer and as an
+ * outbound and an inbound `transfer` movement in the stock ledger.
+ */
+export async function transferStock(
+  executor: Executor,
+  params: {
+    tenantId: string;
+    userId: string;
+    inventoryItemId: string;
+    toBinId: string;
+    quantity: number;
+    notes?: string | null;
+  }
+): Promise<StockTransfer> {
+  const { tenantId, userId, toBinId, quantity } = params;
+
+  const [source] = await executor
+    .select()
+    .from(inventoryItems)
+    .where(and(eq(inventoryItems.id, params.inventoryItemId), eq(inventoryItems.tenantId, tenantId)))
+    .for('update');
+
+  if (!source) {
+    throw new TransferValidationError('Inventory item not found');
+  }
+
+  if (source.binId === toBinId) {
+    throw new TransferValidationError('Destination bin must differ from the current bin');
+  }
+
+  if (quantity > source.availableQuantity) {
+    throw new TransferValidationError(`Only ${source.availableQuantity} unit(s) are available to move`);
+  }
+
+  const [pendingPutaway] = await executor
+    .select({ id: putawayTasks.id })
+    .from(putawayTasks)
+    .where(and(eq(putawayTasks.inventoryItemId, source.id), eq(putawayTasks.status, 'pending')))
+    .limit(1);
+
+  if (pendingPutaway) {
+    throw new TransferValidationError('This stock is awaiting putaway; confirm its putaway task instead');
+  }
+
+  const frozen = await getFrozenBins(executor, tenantId, [source.binId]);
+  if (frozen.size > 0) {
+    throw new TransferValidationError(`Current bin is frozen by cycle count ${frozen.get(source.binId)}`);
+  }
+
+  const warehouseId = await getBinWarehouseId(executor, tenantId, toBinId);
+  assertSameWarehouse(await getBinWarehouseId(executor, tenantId, source.binId), warehouseId);
+
+  const evaluations = await evaluatePutawayBins(executor, {
+    tenantId,
+    warehouseId,
+    productId: source.productId,
+    quantity,
+    excludeBinIds: [source.binId],
+    includeIneligible: true,
+  });
+  const destination = evaluations.find((evaluation) => evaluation.binId === toBinId);
+  if (!destination) {
+    throw new TransferValidationError('Destination bin not found');
+  }
+  if (!destination.eligible) {
+    throw new TransferValidationError(`Bin ${destination.binName} is not suitable: ${destination.reasons.join(', ')}`);
+  }
+
+  let toInventoryItemId = source.id;
+  if (quantity === source.availableQuantity && source.reservedQuantity === 0) {
+    await executor
+      .update(inventoryItems)
+      .set({ binId: toBinId, updatedAt: new Date() })
+      .where(eq(inventoryItems.id, source.id));
+  } else {
+    await executor
+      .update(inventoryItems)
+      .set({
+        availableQuantity: sql`${inventoryItems.availableQuantity} - ${quantity}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(inventoryItems.id, source.id));
+
+    const [split] = await executor
+      .insert(inventoryItems)
+      .values({
+        tenantId,
+        productId: source.productId,
+        binId: toBinId,
+        availableQuantity: quantity,
+        reservedQuantity: 0,
+        expiryDate: source.expiryDate,
+        batchNumber: source.batchNumber,
+        lotNumber: source.lotNumber,
+        receivedDate: source.receivedDate,
+        costPerUnit: source.costPerUnit,
+      })
+      .returning({ id: inventoryItems.id });
+    toInventoryItemId = split.id;
+  }
+
+  const [transfer] = await executor
+    .insert(stockTransfers)
+    .values({
+      tenantId,
+      productId: source.productId,
+      fromInventoryItemId: source.id,
+      toInventoryItemId,
+      fromBinId: source.binId,
+      toBinId,
+      quantity,
+      batchNumber: source.batchNumber,
+      lotNumber: source.lotNumber,
+      expiryDate: source.expiryDate,
+      notes: params.notes || null,
+      createdBy: userId,
+    })
+    .returning();
+
+  await recordBinMove(executor, {
+    tenantId,
+    movementType: 'transfer',
+    productId: source.productId,
+    batchNumber: source.batchNumber,
+    lotNumber: source.lotNumber,
+    expiryDate: source.expiryDate,
+    fromBinId: source.binId,
+    toBinId,
+    fromInventoryItemId: source.id,
+    toInventoryItemId,
+    quantity,
+    referenceType: 'stock_transfer',
+    referenceId: transfer.id,
+    notes: transfer.notes,
+    createdBy: userId,
+  });
+
+  return transfer;
+}
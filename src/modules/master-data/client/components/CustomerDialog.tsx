@@ -1,7 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import axios from 'axios';
 import { toast } from 'sonner';
 import { Plus, Trash2, MapPin } from 'lucide-react';
@@ -24,33 +23,7 @@ import {
   SelectValue,
 } from '@client/components/ui/select';
 import { Separator } from '@client/components/ui/separator';
-
-const locationSchema = z.object({
-  id: z.string().optional(),
-  locationType: z.string().min(1, 'Location type is required'),
-  address: z.string().min(1, 'Address is required'),
-  city: z.string().min(1, 'City is required'),
-  state: z.string().min(1, 'State is required'),
-  postalCode: z.string().min(1, 'Postal code is required'),
-  country: z.string().min(1, 'Country is required'),
-  latitude: z.number().optional().or(z.nan().transform(() => undefined)),
-  longitude: z.number().optional().or(z.nan().transform(() => undefined)),
-  contactPerson: z.string().optional(),
-  phone: z.string().optional(),
-  email: z.string().email().optional().or(z.literal('')),
-  isActive: z.boolean(),
-});
-
-const customerSchema = z.object({
-  name: z.string().min(1, 'Customer name is required'),
-  contactPerson: z.string().optional(),
-  email: z.string().email().optional().or(z.literal('')),
-  phone: z.string().optional(),
-  taxId: z.string().optional(),
-  locations: z.array(locationSchema),
-});
-
-type CustomerForm = z.infer<typeof customerSchema>;
+import { customerSchema, type CustomerForm } from '../schemas/masterDataSchemas';
 
 interface CustomerDialogProps {
   open: boolean;
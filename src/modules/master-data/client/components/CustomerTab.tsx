@@ -25,6 +25,7 @@ import {
   AlertDialogTitle,
 } from '@client/components/ui/alert-dialog';
 import CustomerDialog from './CustomerDialog';
+import ImportExportMenu from './ImportExportMenu';
 
 interface CustomerLocation {
   id: string;
@@ -136,10 +137,13 @@ const CustomerTab = () => {
             Manage customers and their delivery locations
           </p>
         </div>
-        <Button onClick={handleAdd}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Customer
-        </Button>
+        <div className="flex items-center gap-2">
+          <ImportExportMenu entity="customers" label="customers" onImported={fetchCustomers} />
+          <Button onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Customer
+          </Button>
+        </div>
       </div>
 
       <div className="flex items-center gap-4">
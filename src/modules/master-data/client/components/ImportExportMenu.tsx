@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { Download, FileCheck, Loader2, Upload } from 'lucide-react';
+import { Button } from '@client/components/ui/button';
+import { Badge } from '@client/components/ui/badge';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@client/components/ui/dropdown-menu';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+
+interface ImportExportMenuProps {
+  entity: 'product-types' | 'package-types' | 'products' | 'suppliers' | 'customers';
+  // Plural name shown in messages, e.g. "package types"
+  label: string;
+  onImported: () => void;
+}
+
+const ImportExportMenu = ({ entity, label, onImported }: ImportExportMenuProps) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<any>(null);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    try {
+      const response = await axios.get(`/api/modules/master-data/import-export/${entity}/export`, {
+        params: { format },
+        responseType: 'blob',
+      });
+
+      const url = URL.createObjectURL(new Blob([response.data]));
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', `${entity}-${new Date().toISOString().slice(0, 10)}.${format}`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(`Error exporting ${label}:`, error);
+      toast.error(`Failed to export ${label}`);
+    }
+  };
+
+  const openImport = () => {
+    setFile(null);
+    setReport(null);
+    setDialogOpen(true);
+  };
+
+  const upload = async (dryRun: boolean) => {
+    const formData = new FormData();
+    formData.append('file', file!);
+    return axios.post(`/api/modules/master-data/import-export/${entity}/import`, formData, {
+      params: { dryRun },
+    });
+  };
+
+  const handleValidate = async () => {
+    setValidating(true);
+    try {
+      const response = await upload(true);
+      setReport(response.data.data);
+      if (response.data.data.failed > 0) {
+        toast.error(response.data.message);
+      } else {
+        toast.success(response.data.message);
+      }
+    } catch (error: any) {
+      setReport(null);
+      toast.error(error.response?.data?.message || 'Failed to validate file');
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const response = await upload(false);
+      toast.success(response.data.message);
+      setDialogOpen(false);
+      onImported();
+    } catch (error: any) {
+      if (error.response?.data?.data) {
+        setReport(error.response.data.data);
+      }
+      toast.error(error.response?.data?.message || `Failed to import ${label}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!importing) {
+      setDialogOpen(open);
+    }
+  };
+
+  const canImport = !!report && report.failed === 0 && !validating && !importing;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Download className="h-4 w-4 mr-2" />
+            Import / Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => handleExport('csv')}>Export CSV</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport('xlsx')}>Export XLSX</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={openImport}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[95vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import {label}</DialogTitle>
+            <DialogDescription>
+              Upload a CSV or XLSX file with the columns of the export. Existing records are updated and new ones
+              created; validate the file first to see what will change.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor={`import-file-${entity}`}>File</Label>
+            <Input
+              id={`import-file-${entity}`}
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setReport(null);
+              }}
+            />
+          </div>
+
+          {report && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{report.totalRows} row(s)</span>
+                <Badge variant="secondary">{report.created} to create</Badge>
+                <Badge variant="secondary">{report.updated} to update</Badge>
+                {report.failed > 0 && <Badge variant="destructive">{report.failed} with errors</Badge>}
+              </div>
+              <div className="border rounded-md max-h-72 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[70px]">Row</TableHead>
+                      <TableHead>Key</TableHead>
+                      <TableHead className="w-[90px]">Action</TableHead>
+                      <TableHead>Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.map((row: any) => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell className="font-medium">{row.key}</TableCell>
+                        <TableCell>
+                          <Badge variant={row.action === 'error' ? 'destructive' : 'outline'} className="capitalize">
+                            {row.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-destructive">{row.errors.join('; ')}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleValidate}
+              disabled={!file || validating || importing}
+            >
+              {validating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileCheck className="h-4 w-4 mr-2" />}
+              Validate
+            </Button>
+            <Button onClick={handleImport} disabled={!canImport}>
+              {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ImportExportMenu;
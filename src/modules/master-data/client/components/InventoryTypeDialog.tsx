@@ -1,7 +1,6 @@
 import { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import axios from 'axios';
 import { toast } from 'sonner';
 import {
@@ -16,15 +15,7 @@ import { Input } from '@client/components/ui/input';
 import { Label } from '@client/components/ui/label';
 import { Textarea } from '@client/components/ui/textarea';
 import { Switch } from '@client/components/ui/switch';
-
-const inventoryTypeSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  description: z.string().optional(),
-  category: z.string().optional(),
-  isActive: z.boolean(),
-});
-
-type InventoryTypeForm = z.infer<typeof inventoryTypeSchema>;
+import { inventoryTypeSchema, type InventoryTypeForm } from '../schemas/masterDataSchemas';
 
 interface InventoryTypeDialogProps {
   open: boolean;
@@ -25,6 +25,7 @@ import {
   AlertDialogTitle,
 } from '@client/components/ui/alert-dialog';
 import InventoryTypeDialog from './InventoryTypeDialog';
+import ImportExportMenu from './ImportExportMenu';
 
 interface InventoryType {
   id: string;
@@ -115,10 +116,13 @@ const InventoryTypeTab = () => {
             Manage inventory type categories used for classification
           </p>
         </div>
-        <Button onClick={handleAdd}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Inventory Type
-        </Button>
+        <div className="flex items-center gap-2">
+          <ImportExportMenu entity="product-types" label="inventory types" onImported={fetchInventoryTypes} />
+          <Button onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Inventory Type
+          </Button>
+        </div>
       </div>
 
       <div className="flex items-center gap-4">
@@ -1,7 +1,6 @@
 import { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import axios from 'axios';
 import { toast } from 'sonner';
 import {
@@ -16,18 +15,7 @@ import { Input } from '@client/components/ui/input';
 import { Label } from '@client/components/ui/label';
 import { Textarea } from '@client/components/ui/textarea';
 import { Switch } from '@client/components/ui/switch';
-
-const packageTypeSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  description: z.string().optional(),
-  unitsPerPackage: z.number().optional().or(z.nan().transform(() => undefined)),
-  barcode: z.string().optional(),
-  dimensions: z.string().optional(),
-  weight: z.string().optional(),
-  isActive: z.boolean(),
-});
-
-type PackageTypeForm = z.infer<typeof packageTypeSchema>;
+import { packageTypeSchema, type PackageTypeForm } from '../schemas/masterDataSchemas';
 
 interface PackageTypeDialogProps {
   open: boolean;
@@ -25,6 +25,7 @@ import {
   AlertDialogTitle,
 } from '@client/components/ui/alert-dialog';
 import PackageTypeDialog from './PackageTypeDialog';
+import ImportExportMenu from './ImportExportMenu';
 
 interface PackageType {
   id: string;
@@ -114,10 +115,13 @@ const PackageTypeTab = () => {
             Manage packaging types used for inventory items
           </p>
         </div>
-        <Button onClick={handleAdd}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Package Type
-        </Button>
+        <div className="flex items-center gap-2">
+          <ImportExportMenu entity="package-types" label="package types" onImported={fetchPackageTypes} />
+          <Button onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Package Type
+          </Button>
+        </div>
       </div>
 
       <div className="flex items-center gap-4">
@@ -1,7 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import axios from 'axios';
 import { toast } from 'sonner';
 import {
@@ -16,6 +15,7 @@ import { Input } from '@client/components/ui/input';
 import { Label } from '@client/components/ui/label';
 import { Textarea } from '@client/components/ui/textarea';
 import { Switch } from '@client/components/ui/switch';
+import { Plus, Trash2 } from 'lucide-react';
 import {
   Select,
   SelectContent,
@@ -23,24 +23,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@client/components/ui/select';
+import { productSchema, type ProductForm } from '../schemas/masterDataSchemas';
 
-const productSchema = z.object({
-  sku: z.string().min(1, 'SKU is required'),
-  name: z.string().min(1, 'Name is required'),
-  description: z.string().optional(),
-  inventoryTypeId: z.string().optional(),
-  packageTypeId: z.string().optional(),
-  weight: z.string().optional(),
-  dimensions: z.string().optional(),
-  minimumStockLevel: z.number().optional().or(z.nan().transform(() => undefined)),
-  reorderPoint: z.number().optional().or(z.nan().transform(() => undefined)),
-  hasExpiryDate: z.boolean(),
-  requiredTemperatureMin: z.number().optional().or(z.nan().transform(() => undefined)),
-  requiredTemperatureMax: z.number().optional().or(z.nan().transform(() => undefined)),
-  active: z.boolean(),
-});
-
-type ProductForm = z.infer<typeof productSchema>;
+interface UomRow {
+  uom: string;
+  packageTypeId: string;
+  conversionFactor: string;
+  barcode: string;
+}
 
 interface ProductDialogProps {
   open: boolean;
@@ -57,6 +47,7 @@ const ProductDialog = ({
 }: ProductDialogProps) => {
   const [inventoryTypes, setInventoryTypes] = useState<any[]>([]);
   const [packageTypes, setPackageTypes] = useState<any[]>([]);
+  const [uoms, setUoms] = useState<UomRow[]>([]);
   
   const {
     register,
@@ -71,6 +62,8 @@ const ProductDialog = ({
       sku: '',
       name: '',
       description: '',
+      barcode: '',
+      baseUom: 'EA',
       inventoryTypeId: '',
       packageTypeId: '',
       weight: '',
@@ -88,6 +81,7 @@ const ProductDialog = ({
   const hasExpiryDate = watch('hasExpiryDate');
   const inventoryTypeId = watch('inventoryTypeId');
   const packageTypeId = watch('packageTypeId');
+  const baseUom = watch('baseUom');
 
   useEffect(() => {
     const fetchOptions = async () => {
@@ -113,6 +107,8 @@ const ProductDialog = ({
       setValue('sku', editingItem.sku);
       setValue('name', editingItem.name);
       setValue('description', editingItem.description || '');
+      setValue('barcode', editingItem.barcode || '');
+      setValue('baseUom', editingItem.baseUom || 'EA');
       setValue('inventoryTypeId', editingItem.inventoryTypeId || '');
       setValue('packageTypeId', editingItem.packageTypeId || '');
       setValue('weight', editingItem.weight || '');
@@ -128,6 +124,8 @@ const ProductDialog = ({
         sku: '',
         name: '',
         description: '',
+        barcode: '',
+        baseUom: 'EA',
         inventoryTypeId: '',
         packageTypeId: '',
         weight: '',
@@ -139,13 +137,58 @@ const ProductDialog = ({
         requiredTemperatureMax: undefined,
         active: true,
       });
+      setUoms([]);
     }
   }, [editingItem, open, reset, setValue]);
 
+  // Alternate units are only returned by the product detail endpoint
+  useEffect(() => {
+    const fetchUoms = async () => {
+      try {
+        const response = await axios.get(`/api/modules/master-data/products/${editingItem.id}`);
+        setUoms((response.data.data.uoms || []).map((uom: any) => ({
+          uom: uom.uom,
+          packageTypeId: uom.packageTypeId || '',
+          conversionFactor: String(uom.conversionFactor),
+          barcode: uom.barcode || '',
+        })));
+      } catch (error) {
+        console.error('Failed to fetch units of measure:', error);
+      }
+    };
+
+    if (open && editingItem) {
+      fetchUoms();
+    }
+  }, [editingItem, open]);
+
+  const updateUom = (index: number, changes: Partial<UomRow>) => {
+    setUoms((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleUomPackageTypeChange = (index: number, value: string) => {
+    const packageType = packageTypes.find((pkg) => pkg.id === value);
+    updateUom(index, {
+      packageTypeId: value === 'none' ? '' : value,
+      // Default the conversion factor to the package's units per package
+      ...(packageType?.unitsPerPackage && !uoms[index].conversionFactor
+        ? { conversionFactor: String(packageType.unitsPerPackage) }
+        : {}),
+    });
+  };
+
   const onSubmit = async (data: ProductForm) => {
     try {
       const payload = {
         ...data,
+        baseUom: data.baseUom.trim().toUpperCase(),
+        uoms: uoms.map((row) => ({
+          uom: row.uom,
+          packageTypeId: row.packageTypeId || null,
+          conversionFactor: row.conversionFactor ? parseInt(row.conversionFactor) : undefined,
+          barcode: row.barcode.trim() || null,
+        })),
+        barcode: data.barcode?.trim() || null,
         inventoryTypeId: data.inventoryTypeId || null,
         packageTypeId: data.packageTypeId || null,
         minimumStockLevel: data.minimumStockLevel || undefined,
@@ -209,6 +252,15 @@ const ProductDialog = ({
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="barcode">Barcode (GTIN / EAN)</Label>
+            <Input
+              id="barcode"
+              {...register('barcode')}
+              placeholder="Barcode of a single unit"
+            />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="description">Description</Label>
             <Textarea
@@ -327,6 +379,84 @@ const ProductDialog = ({
             </div>
           </div>
 
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Units of Measure</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setUoms([...uoms, { uom: '', packageTypeId: '', conversionFactor: '', barcode: '' }])}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add Unit
+              </Button>
+            </div>
+            <div className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="baseUom" className="text-xs text-muted-foreground">
+                  Base Unit <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="baseUom"
+                  {...register('baseUom')}
+                  placeholder="EA"
+                />
+              </div>
+              <div className="text-xs text-muted-foreground pb-3 col-span-4">
+                Stock is held and counted in the base unit
+              </div>
+              {uoms.map((row, index) => (
+                <div key={index} className="contents">
+                  <Input
+                    value={row.uom}
+                    onChange={(e) => updateUom(index, { uom: e.target.value.toUpperCase() })}
+                    placeholder="e.g., CASE"
+                  />
+                  <Select
+                    value={row.packageTypeId || 'none'}
+                    onValueChange={(value) => handleUomPackageTypeChange(index, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Package" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No package</SelectItem>
+                      {packageTypes.map((pkg) => (
+                        <SelectItem key={pkg.id} value={pkg.id}>
+                          {pkg.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="2"
+                    value={row.conversionFactor}
+                    onChange={(e) => updateUom(index, { conversionFactor: e.target.value })}
+                    placeholder={`${baseUom || 'EA'} per unit`}
+                  />
+                  <Input
+                    value={row.barcode}
+                    onChange={(e) => updateUom(index, { barcode: e.target.value })}
+                    placeholder="GTIN"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setUoms(uoms.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            {errors.baseUom && (
+              <p className="text-sm text-red-500">{errors.baseUom.message}</p>
+            )}
+          </div>
+
           <div className="flex items-center justify-between">
             <Label htmlFor="hasExpiryDate">Has Expiry Date</Label>
             <Switch
@@ -1,11 +1,12 @@
 import { useState, useEffect } from 'react';
 import axios from 'axios';
-import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { Plus, Pencil, Trash2, Printer } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@client/provider/AuthProvider';
 import { Button } from '@client/components/ui/button';
 import { Badge } from '@client/components/ui/badge';
 import { Input } from '@client/components/ui/input';
+import { Checkbox } from '@client/components/ui/checkbox';
 import {
   Table,
   TableBody,
@@ -25,6 +26,8 @@ import {
   AlertDialogTitle,
 } from '@client/components/ui/alert-dialog';
 import ProductDialog from './ProductDialog';
+import ImportExportMenu from './ImportExportMenu';
+import { PrintLabelsDialog } from '@modules/warehouse-setup/client/components/PrintLabelsDialog';
 
 interface Product {
   id: string;
@@ -54,6 +57,8 @@ const ProductTab = () => {
   const [editingItem, setEditingItem] = useState<Product | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deletingItem, setDeletingItem] = useState<Product | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [labelsDialogOpen, setLabelsDialogOpen] = useState(false);
 
   const fetchProducts = async () => {
     try {
@@ -119,6 +124,16 @@ const ProductTab = () => {
       product.name.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const allSelected = filteredProducts.length > 0 && filteredProducts.every((product) => selectedIds.includes(product.id));
+
+  const toggleSelected = (productId: string, checked: boolean) => {
+    setSelectedIds((current) => checked ? [...current, productId] : current.filter((id) => id !== productId));
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? filteredProducts.map((product) => product.id) : []);
+  };
+
   return (
     <div className="flex flex-col gap-4">
       <div className="flex items-center justify-between">
@@ -128,10 +143,13 @@ const ProductTab = () => {
             Manage your inventory master data
           </p>
         </div>
-        <Button onClick={handleAdd}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Inventory Item
-        </Button>
+        <div className="flex items-center gap-2">
+          <ImportExportMenu entity="products" label="inventory items" onImported={fetchProducts} />
+          <Button onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Inventory Item
+          </Button>
+        </div>
       </div>
 
       <div className="flex items-center gap-4">
@@ -141,12 +159,27 @@ const ProductTab = () => {
           onChange={(e) => setSearchTerm(e.target.value)}
           className="max-w-sm"
         />
+        <Button
+          variant="outline"
+          onClick={() => setLabelsDialogOpen(true)}
+          disabled={selectedIds.length === 0}
+        >
+          <Printer className="h-4 w-4 mr-2" />
+          Print Labels{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''}
+        </Button>
       </div>
 
       <div className="border rounded-lg overflow-x-auto">
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-[40px]">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                  aria-label="Select all"
+                />
+              </TableHead>
               <TableHead>SKU</TableHead>
               <TableHead>Item Name</TableHead>
               <TableHead>Type</TableHead>
@@ -161,19 +194,26 @@ const ProductTab = () => {
           <TableBody>
             {loading ? (
               <TableRow>
-                <TableCell colSpan={9} className="text-center py-10">
+                <TableCell colSpan={10} className="text-center py-10">
                   Loading...
                 </TableCell>
               </TableRow>
             ) : filteredProducts.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={9} className="text-center py-10 text-muted-foreground">
+                <TableCell colSpan={10} className="text-center py-10 text-muted-foreground">
                   No products found
                 </TableCell>
               </TableRow>
             ) : (
               filteredProducts.map((product) => (
                 <TableRow key={product.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.includes(product.id)}
+                      onCheckedChange={(checked) => toggleSelected(product.id, checked === true)}
+                      aria-label={`Select ${product.sku}`}
+                    />
+                  </TableCell>
                   <TableCell className="font-medium">{product.sku}</TableCell>
                   <TableCell>{product.name}</TableCell>
                   <TableCell>{product.productType?.name || '-'}</TableCell>
@@ -224,6 +264,13 @@ const ProductTab = () => {
         onSuccess={handleDialogSuccess}
       />
 
+      <PrintLabelsDialog
+        open={labelsDialogOpen}
+        onOpenChange={setLabelsDialogOpen}
+        targetType="product"
+        productIds={selectedIds}
+      />
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
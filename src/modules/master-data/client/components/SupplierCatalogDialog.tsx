@@ -0,0 +1,422 @@
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { Pencil, Plus, Star, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import { Button } from '@client/components/ui/button';
+import { Badge } from '@client/components/ui/badge';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Switch } from '@client/components/ui/switch';
+import { Separator } from '@client/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@client/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+
+interface SupplierProduct {
+  id: string;
+  productId: string;
+  productSku: string;
+  productName: string;
+  supplierSku: string | null;
+  packSize: number;
+  minimumOrderQuantity: number | null;
+  leadTimeDays: number | null;
+  contractPrice: string | null;
+  contractValidFrom: string | null;
+  contractValidTo: string | null;
+  lastPurchasePrice: string | null;
+  lastPurchaseDate: string | null;
+  isPreferred: boolean;
+  isActive: boolean;
+}
+
+interface SupplierCatalogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  supplier: { id: string; name: string } | null;
+  onChange?: () => void;
+}
+
+const emptyForm = {
+  productId: '',
+  supplierSku: '',
+  packSize: '1',
+  minimumOrderQuantity: '',
+  leadTimeDays: '',
+  contractPrice: '',
+  contractValidFrom: '',
+  contractValidTo: '',
+  isPreferred: false,
+  isActive: true,
+};
+
+const toNumberOrNull = (value: string) => (value === '' ? null : Number(value));
+
+const SupplierCatalogDialog = ({
+  open,
+  onOpenChange,
+  supplier,
+  onChange,
+}: SupplierCatalogDialogProps) => {
+  const [entries, setEntries] = useState<SupplierProduct[]>([]);
+  const [products, setProducts] = useState<any[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (open && supplier) {
+      setEditingId(null);
+      setForm(emptyForm);
+      fetchEntries();
+      fetchProducts();
+    }
+  }, [open, supplier]);
+
+  const fetchEntries = async () => {
+    if (!supplier) return;
+
+    try {
+      setLoading(true);
+      const response = await axios.get(`/api/modules/master-data/suppliers/${supplier.id}/products`);
+      setEntries(response.data.data || []);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to fetch supplier catalog');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchProducts = async () => {
+    try {
+      const response = await axios.get('/api/modules/master-data/products', {
+        params: { page: 1, limit: 100 },
+      });
+      setProducts(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    }
+  };
+
+  const handleEdit = (entry: SupplierProduct) => {
+    setEditingId(entry.id);
+    setForm({
+      productId: entry.productId,
+      supplierSku: entry.supplierSku || '',
+      packSize: String(entry.packSize),
+      minimumOrderQuantity: entry.minimumOrderQuantity?.toString() ?? '',
+      leadTimeDays: entry.leadTimeDays?.toString() ?? '',
+      contractPrice: entry.contractPrice ?? '',
+      contractValidFrom: entry.contractValidFrom ?? '',
+      contractValidTo: entry.contractValidTo ?? '',
+      isPreferred: entry.isPreferred,
+      isActive: entry.isActive,
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    if (!supplier) return;
+
+    if (!form.productId) {
+      toast.error('Please select a product');
+      return;
+    }
+
+    const payload = {
+      productId: form.productId,
+      supplierSku: form.supplierSku || null,
+      packSize: Number(form.packSize) || 1,
+      minimumOrderQuantity: toNumberOrNull(form.minimumOrderQuantity),
+      leadTimeDays: toNumberOrNull(form.leadTimeDays),
+      contractPrice: form.contractPrice === '' ? null : form.contractPrice,
+      contractValidFrom: form.contractValidFrom || null,
+      contractValidTo: form.contractValidTo || null,
+      isPreferred: form.isPreferred,
+      isActive: form.isActive,
+    };
+
+    try {
+      setSaving(true);
+      if (editingId) {
+        await axios.put(`/api/modules/master-data/suppliers/${supplier.id}/products/${editingId}`, payload);
+        toast.success('Catalog entry updated successfully');
+      } else {
+        await axios.post(`/api/modules/master-data/suppliers/${supplier.id}/products`, payload);
+        toast.success('Product added to catalog');
+      }
+      handleCancelEdit();
+      fetchEntries();
+      onChange?.();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save catalog entry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: SupplierProduct) => {
+    if (!supplier) return;
+
+    try {
+      await axios.delete(`/api/modules/master-data/suppliers/${supplier.id}/products/${entry.id}`);
+      toast.success('Product removed from catalog');
+      if (editingId === entry.id) handleCancelEdit();
+      fetchEntries();
+      onChange?.();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to remove catalog entry');
+    }
+  };
+
+  const catalogProductIds = new Set(entries.map((entry) => entry.productId));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl sm:max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Product Catalog - {supplier?.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-4 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label>
+                Product <span className="text-destructive">*</span>
+              </Label>
+              <Select
+                value={form.productId}
+                onValueChange={(value) => setForm({ ...form, productId: value })}
+                disabled={!!editingId}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products
+                    .filter((product) => product.id === form.productId || !catalogProductIds.has(product.id))
+                    .map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.sku} - {product.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierSku">Supplier SKU</Label>
+              <Input
+                id="supplierSku"
+                value={form.supplierSku}
+                onChange={(e) => setForm({ ...form, supplierSku: e.target.value })}
+                placeholder="Supplier's product code"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="packSize">Pack Size</Label>
+              <Input
+                id="packSize"
+                type="number"
+                min="1"
+                value={form.packSize}
+                onChange={(e) => setForm({ ...form, packSize: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="minimumOrderQuantity">Minimum Order Qty</Label>
+              <Input
+                id="minimumOrderQuantity"
+                type="number"
+                min="0"
+                value={form.minimumOrderQuantity}
+                onChange={(e) => setForm({ ...form, minimumOrderQuantity: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leadTimeDays">Lead Time (days)</Label>
+              <Input
+                id="leadTimeDays"
+                type="number"
+                min="0"
+                value={form.leadTimeDays}
+                onChange={(e) => setForm({ ...form, leadTimeDays: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contractPrice">Contract Price</Label>
+              <Input
+                id="contractPrice"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.contractPrice}
+                onChange={(e) => setForm({ ...form, contractPrice: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contractValidFrom">Valid From</Label>
+              <Input
+                id="contractValidFrom"
+                type="date"
+                value={form.contractValidFrom}
+                onChange={(e) => setForm({ ...form, contractValidFrom: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contractValidTo">Valid To</Label>
+              <Input
+                id="contractValidTo"
+                type="date"
+                value={form.contractValidTo}
+                onChange={(e) => setForm({ ...form, contractValidTo: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id="isPreferred"
+                checked={form.isPreferred}
+                onCheckedChange={(checked) => setForm({ ...form, isPreferred: checked })}
+              />
+              <Label htmlFor="isPreferred">Preferred supplier</Label>
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id="isActive"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+              <Label htmlFor="isActive">Active</Label>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="outline" onClick={handleCancelEdit}>
+                Cancel
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={saving}>
+              {!editingId && <Plus className="h-4 w-4 mr-2" />}
+              {saving ? 'Saving...' : editingId ? 'Update Entry' : 'Add to Catalog'}
+            </Button>
+          </div>
+
+          <Separator />
+
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Supplier SKU</TableHead>
+                  <TableHead className="text-right">Pack</TableHead>
+                  <TableHead className="text-right">MOQ</TableHead>
+                  <TableHead className="text-right">Lead Time</TableHead>
+                  <TableHead className="text-right">Contract Price</TableHead>
+                  <TableHead className="text-right">Last Purchase</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                ) : entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                      No products in this supplier's catalog
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-1 font-medium">
+                          {entry.productSku}
+                          {entry.isPreferred && <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />}
+                        </div>
+                        <div className="text-sm text-muted-foreground">{entry.productName}</div>
+                      </TableCell>
+                      <TableCell>
+                        <span className="font-mono text-sm">{entry.supplierSku || '-'}</span>
+                      </TableCell>
+                      <TableCell className="text-right">{entry.packSize}</TableCell>
+                      <TableCell className="text-right">{entry.minimumOrderQuantity ?? '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {entry.leadTimeDays !== null ? `${entry.leadTimeDays} day(s)` : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.contractPrice ? (
+                          <div>
+                            <div>${parseFloat(entry.contractPrice).toFixed(2)}</div>
+                            {(entry.contractValidFrom || entry.contractValidTo) && (
+                              <div className="text-xs text-muted-foreground">
+                                {entry.contractValidFrom || '...'} to {entry.contractValidTo || '...'}
+                              </div>
+                            )}
+                          </div>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.lastPurchasePrice ? (
+                          <div>
+                            <div>${parseFloat(entry.lastPurchasePrice).toFixed(2)}</div>
+                            <div className="text-xs text-muted-foreground">{entry.lastPurchaseDate}</div>
+                          </div>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={entry.isActive ? 'default' : 'secondary'}>
+                          {entry.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <Button variant="ghost" size="icon" onClick={() => handleEdit(entry)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(entry)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SupplierCatalogDialog;
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import axios from 'axios';
-import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { Plus, Pencil, Trash2, Package } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@client/provider/AuthProvider';
 import { Button } from '@client/components/ui/button';
@@ -25,6 +25,8 @@ import {
   AlertDialogTitle,
 } from '@client/components/ui/alert-dialog';
 import SupplierDialog from './SupplierDialog';
+import SupplierCatalogDialog from './SupplierCatalogDialog';
+import ImportExportMenu from './ImportExportMenu';
 
 interface SupplierLocation {
   id: string;
@@ -46,6 +48,7 @@ interface Supplier {
   phone: string | null;
   taxId: string | null;
   locationCount?: number;
+  productCount?: number;
   locations?: SupplierLocation[];
   isActive?: boolean;
 }
@@ -59,6 +62,7 @@ const SupplierTab = () => {
   const [editingItem, setEditingItem] = useState<Supplier | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deletingItem, setDeletingItem] = useState<Supplier | null>(null);
+  const [catalogSupplier, setCatalogSupplier] = useState<Supplier | null>(null);
 
   const fetchSuppliers = async () => {
     try {
@@ -133,13 +137,16 @@ const SupplierTab = () => {
         <div className="flex flex-col gap-1">
           <h2 className="text-lg font-semibold">Supplier Management</h2>
           <p className="text-sm text-muted-foreground">
-            Manage suppliers and their pickup locations
+            Manage suppliers, their pickup locations and product catalogs
           </p>
         </div>
-        <Button onClick={handleAdd}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Supplier
-        </Button>
+        <div className="flex items-center gap-2">
+          <ImportExportMenu entity="suppliers" label="suppliers" onImported={fetchSuppliers} />
+          <Button onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Supplier
+          </Button>
+        </div>
       </div>
 
       <div className="flex items-center gap-4">
@@ -159,6 +166,7 @@ const SupplierTab = () => {
               <TableHead>Code</TableHead>
               <TableHead>Contact</TableHead>
               <TableHead>Locations</TableHead>
+              <TableHead>Catalog</TableHead>
               <TableHead>Status</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -166,13 +174,13 @@ const SupplierTab = () => {
           <TableBody>
             {loading ? (
               <TableRow>
-                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                   Loading...
                 </TableCell>
               </TableRow>
             ) : filteredSuppliers.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                   No suppliers found
                 </TableCell>
               </TableRow>
@@ -209,6 +217,11 @@ const SupplierTab = () => {
                       {supplier.locationCount || 0} location{supplier.locationCount !== 1 ? 's' : ''}
                     </span>
                   </TableCell>
+                  <TableCell>
+                    <span className="text-sm">
+                      {supplier.productCount || 0} product{supplier.productCount !== 1 ? 's' : ''}
+                    </span>
+                  </TableCell>
                   <TableCell>
                     <Badge variant={supplier.isActive !== false ? 'default' : 'secondary'}>
                       {supplier.isActive !== false ? 'Active' : 'Inactive'}
@@ -216,6 +229,14 @@ const SupplierTab = () => {
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex items-center justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setCatalogSupplier(supplier)}
+                        title="Product catalog"
+                      >
+                        <Package className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -246,12 +267,19 @@ const SupplierTab = () => {
         onSuccess={handleDialogSuccess}
       />
 
+      <SupplierCatalogDialog
+        open={!!catalogSupplier}
+        onOpenChange={(open) => !open && setCatalogSupplier(null)}
+        supplier={catalogSupplier}
+        onChange={fetchSuppliers}
+      />
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the supplier "{deletingItem?.name}" and all associated locations.
+              This will permanently delete the supplier "{deletingItem?.name}", all associated locations and its product catalog.
               This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+
+export const inventoryTypeSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  category: z.string().optional(),
+  isActive: z.boolean(),
+});
+
+export const packageTypeSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  unitsPerPackage: z.number().optional().or(z.nan().transform(() => undefined)),
+  barcode: z.string().optional(),
+  dimensions: z.string().optional(),
+  weight: z.string().optional(),
+  isActive: z.boolean(),
+});
+
+export const productSchema = z.object({
+  sku: z.string().min(1, 'SKU is required'),
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  barcode: z.string().optional(),
+  baseUom: z.string().min(1, 'Base unit of measure is required'),
+  inventoryTypeId: z.string().optional(),
+  packageTypeId: z.string().optional(),
+  weight: z.string().optional(),
+  dimensions: z.string().optional(),
+  minimumStockLevel: z.number().optional().or(z.nan().transform(() => undefined)),
+  reorderPoint: z.number().optional().or(z.nan().transform(() => undefined)),
+  hasExpiryDate: z.boolean(),
+  requiredTemperatureMin: z.number().optional().or(z.nan().transform(() => undefined)),
+  requiredTemperatureMax: z.number().optional().or(z.nan().transform(() => undefined)),
+  active: z.boolean(),
+});
+
+export const locationSchema = z.object({
+  id: z.string().optional(),
+  locationType: z.string().min(1, 'Location type is required'),
+  address: z.string().min(1, 'Address is required'),
+  city: z.string().min(1, 'City is required'),
+  state: z.string().min(1, 'State is required'),
+  postalCode: z.string().min(1, 'Postal code is required'),
+  country: z.string().min(1, 'Country is required'),
+  latitude: z.number().optional().or(z.nan().transform(() => undefined)),
+  longitude: z.number().optional().or(z.nan().transform(() => undefined)),
+  contactPerson: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.string().email().optional().or(z.literal('')),
+  isActive: z.boolean(),
+});
+
+export const supplierSchema = z.object({
+  name: z.string().min(1, 'Supplier name is required'),
+  contactPerson: z.string().optional(),
+  email: z.string().email().optional().or(z.literal('')),
+  phone: z.string().optional(),
+  taxId: z.string().optional(),
+  locations: z.array(locationSchema),
+});
+
+export const customerSchema = z.object({
+  name: z.string().min(1, 'Customer name is required'),
+  contactPerson: z.string().optional(),
+  email: z.string().email().optional().or(z.literal('')),
+  phone: z.string().optional(),
+  taxId: z.string().optional(),
+  locations: z.array(locationSchema),
+});
+
+export type InventoryTypeForm = z.infer<typeof inventoryTypeSchema>;
+export type PackageTypeForm = z.infer<typeof packageTypeSchema>;
+export type ProductForm = z.infer<typeof productSchema>;
+export type SupplierForm = z.infer<typeof supplierSchema>;
+export type CustomerForm = z.infer<typeof customerSchema>;
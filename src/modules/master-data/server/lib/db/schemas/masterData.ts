@@ -1,5 +1,5 @@
 import { relations } from 'drizzle-orm';
-import { boolean, decimal, integer, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { boolean, date, decimal, integer, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
 import { tenant } from '@server/lib/db/schema/system';
 
 export const productTypes = pgTable('product_types', {
@@ -51,6 +51,10 @@ export const products = pgTable('products', {
   sku: varchar('sku', { length: 255 }).notNull(),
   name: varchar('name', { length: 255 }).notNull(),
   description: text('description'),
+  // GTIN / EAN of a single base unit
+  barcode: varchar('barcode', { length: 100 }),
+  // Unit every stored quantity of the product is counted in
+  baseUom: varchar('base_uom', { length: 20 }).notNull().default('EA'),
   minimumStockLevel: integer('minimum_stock_level'),
   reorderPoint: integer('reorder_point'),
   requiredTemperatureMin: decimal('required_temperature_min', { precision: 5, scale: 2 }),
@@ -108,6 +112,63 @@ export const supplierLocations = pgTable('supplier_locations', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Alternate units of measure of a product (case, pallet, ...), each a whole number of base units.
+// Quantities entered in an alternate unit are converted to base units before they are stored.
+export const productUoms = pgTable('product_uoms', {
+  id: uuid('id').primaryKey(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  productId: uuid('product_id')
+    .notNull()
+    .references(() => products.id, { onDelete: 'cascade' }),
+  uom: varchar('uom', { length: 20 }).notNull(),
+  packageTypeId: uuid('package_type_id')
+    .references(() => packageTypes.id),
+  conversionFactor: integer('conversion_factor').notNull(),
+  // GTIN of the package, e.g. the case-level GTIN-14
+  barcode: varchar('barcode', { length: 100 }),
+  isActive: boolean('is_active').default(true),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    uniqueIndex('product_uoms_unique_idx').on(t.tenantId, t.productId, t.uom),
+  ]
+);
+
+// Products a supplier sells, with the supplier's own SKU, ordering constraints and contract price.
+// The last purchase price is kept up to date from purchase orders.
+export const supplierProducts = pgTable('supplier_products', {
+  id: uuid('id').primaryKey(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  supplierId: uuid('supplier_id')
+    .notNull()
+    .references(() => suppliers.id, { onDelete: 'cascade' }),
+  productId: uuid('product_id')
+    .notNull()
+    .references(() => products.id, { onDelete: 'cascade' }),
+  supplierSku: varchar('supplier_sku', { length: 255 }),
+  packSize: integer('pack_size').notNull().default(1),
+  minimumOrderQuantity: integer('minimum_order_quantity'),
+  leadTimeDays: integer('lead_time_days'),
+  contractPrice: decimal('contract_price', { precision: 10, scale: 2 }),
+  contractValidFrom: date('contract_valid_from'),
+  contractValidTo: date('contract_valid_to'),
+  lastPurchasePrice: decimal('last_purchase_price', { precision: 10, scale: 2 }),
+  lastPurchaseDate: date('last_purchase_date'),
+  isPreferred: boolean('is_preferred').default(false),
+  isActive: boolean('is_active').default(true),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    uniqueIndex('supplier_products_unique_idx').on(t.tenantId, t.supplierId, t.productId),
+  ]
+);
+
 export const customers = pgTable('customers', {
   id: uuid('id').primaryKey(),
   tenantId: uuid('tenant_id')
@@ -165,7 +226,7 @@ export const packageTypesRelations = relations(packageTypes, ({ one, many }) =>
   products: many(products),
 }));
 
-export const productsRelations = relations(products, ({ one }) => ({
+export const productsRelations = relations(products, ({ one, many }) => ({
   tenant: one(tenant, {
     fields: [products.tenantId],
     references: [tenant.id],
@@ -178,6 +239,23 @@ export const productsRelations = relations(products, ({ one }) => ({
     fields: [products.packageTypeId],
     references: [packageTypes.id],
   }),
+  suppliers: many(supplierProducts),
+  uoms: many(productUoms),
+}));
+
+export const productUomsRelations = relations(productUoms, ({ one }) => ({
+  product: one(products, {
+    fields: [productUoms.productId],
+    references: [products.id],
+  }),
+  packageType: one(packageTypes, {
+    fields: [productUoms.packageTypeId],
+    references: [packageTypes.id],
+  }),
+  tenant: one(tenant, {
+    fields: [productUoms.tenantId],
+    references: [tenant.id],
+  }),
 }));
 
 export const suppliersRelations = relations(suppliers, ({ one, many }) => ({
@@ -186,6 +264,7 @@ export const suppliersRelations = relations(suppliers, ({ one, many }) => ({
     references: [tenant.id],
   }),
   locations: many(supplierLocations),
+  products: many(supplierProducts),
 }));
 
 export const supplierLocationsRelations = relations(supplierLocations, ({ one }) => ({
@@ -199,6 +278,21 @@ export const supplierLocationsRelations = relations(supplierLocations, ({ one })
   }),
 }));
 
+export const supplierProductsRelations = relations(supplierProducts, ({ one }) => ({
+  supplier: one(suppliers, {
+    fields: [supplierProducts.supplierId],
+    references: [suppliers.id],
+  }),
+  product: one(products, {
+    fields: [supplierProducts.productId],
+    references: [products.id],
+  }),
+  tenant: one(tenant, {
+    fields: [supplierProducts.tenantId],
+    references: [tenant.id],
+  }),
+}));
+
 export const customersRelations = relations(customers, ({ one, many }) => ({
   tenant: one(tenant, {
     fields: [customers.tenantId],
@@ -233,6 +327,12 @@ export type NewSupplier = typeof suppliers.$inferInsert;
 export type SupplierLocation = typeof supplierLocations.$inferSelect;
 export type NewSupplierLocation = typeof supplierLocations.$inferInsert;
 
+export type ProductUom = typeof productUoms.$inferSelect;
+export type NewProductUom = typeof productUoms.$inferInsert;
+
+export type SupplierProduct = typeof supplierProducts.$inferSelect;
+export type NewSupplierProduct = typeof supplierProducts.$inferInsert;
+
 export type Customer = typeof customers.$inferSelect;
 export type NewCustomer = typeof customers.$inferInsert;
 
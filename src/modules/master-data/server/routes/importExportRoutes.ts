@@ -0,0 +1,259 @@
+import express from 'express';
+import fileUpload from 'express-fileupload';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { logAuditChanges, getClientIp } from '@server/services/auditService';
+import {
+  FILE_FORMATS,
+  FileFormat,
+  IMPORT_EXPORT_ENTITIES,
+  ImportExportError,
+  exportEntity,
+  importEntity,
+  isImportExportEntity,
+} from '../services/importExportService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('master-data'));
+
+// ================================================================================
+// IMPORT / EXPORT ROUTES
+// ================================================================================
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MasterDataImportReport:
+ *       type: object
+ *       properties:
+ *         entity:
+ *           type: string
+ *           enum: [product-types, package-types, products, suppliers, customers]
+ *         dryRun:
+ *           type: boolean
+ *         totalRows:
+ *           type: integer
+ *         created:
+ *           type: integer
+ *         updated:
+ *           type: integer
+ *         failed:
+ *           type: integer
+ *           description: Records with at least one invalid row; nothing is imported while this is above zero
+ *         rows:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               row:
+ *                 type: integer
+ *                 description: Spreadsheet row number, the header being row 1
+ *               key:
+ *                 type: string
+ *                 description: Natural key the row is matched on
+ *               action:
+ *                 type: string
+ *                 enum: [create, update, error]
+ *               errors:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ */
+
+/**
+ * @swagger
+ * /api/modules/master-data/import-export/{entity}/export:
+ *   get:
+ *     summary: Export all records of a master data entity as CSV or XLSX
+ *     description: The file has the columns the import reads. Suppliers and customers have one row per location.
+ *     tags: [Master Data - Import / Export]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: entity
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [product-types, package-types, products, suppliers, customers]
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *     responses:
+ *       200:
+ *         description: Export file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Unknown entity or format
+ */
+router.get('/import-export/:entity/export', authorized('ADMIN', 'master-data.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { entity } = req.params;
+    const format = (req.query.format as string) || 'csv';
+
+    if (!isImportExportEntity(entity)) {
+      return res.status(400).json({
+        success: false,
+        message: `Entity must be one of: ${IMPORT_EXPORT_ENTITIES.join(', ')}`,
+      });
+    }
+    if (!(FILE_FORMATS as readonly string[]).includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: `Format must be one of: ${FILE_FORMATS.join(', ')}`,
+      });
+    }
+
+    const file = await exportEntity(tenantId, entity, format as FileFormat);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.data);
+  } catch (error) {
+    console.error('Error exporting master data:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/master-data/import-export/{entity}/import:
+ *   post:
+ *     summary: Import a master data entity from CSV or XLSX
+ *     description: |
+ *       Validates every row with the same rules as the entry forms and upserts records by natural key: name for
+ *       product and package types, SKU for products, and tax ID (or name when it is empty) for suppliers and
+ *       customers. Columns missing from the file are left unchanged on update. The import is all or nothing;
+ *       with dryRun=true the file is only validated.
+ *     tags: [Master Data - Import / Export]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: entity
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [product-types, package-types, products, suppliers, customers]
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: .csv or .xlsx file; the first worksheet of a workbook is read
+ *     responses:
+ *       200:
+ *         description: Validation report; records were written unless it was a dry run
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/MasterDataImportReport'
+ *       400:
+ *         description: Unreadable file, missing columns, or invalid rows (the report is in data)
+ */
+router.post(
+  '/import-export/:entity/import',
+  authorized('ADMIN', ['master-data.create', 'master-data.edit'], 'and'),
+  async (req, res) => {
+    try {
+      const tenantId = req.user!.activeTenantId;
+      const { entity } = req.params;
+      const dryRun = req.query.dryRun === 'true';
+
+      if (!isImportExportEntity(entity)) {
+        return res.status(400).json({
+          success: false,
+          message: `Entity must be one of: ${IMPORT_EXPORT_ENTITIES.join(', ')}`,
+        });
+      }
+
+      const file = req.files?.file as fileUpload.UploadedFile | undefined;
+      if (!file || Array.isArray(file)) {
+        return res.status(400).json({
+          success: false,
+          message: 'A single file is required',
+        });
+      }
+
+      const { report, changes } = await importEntity(tenantId, entity, { name: file.name, data: file.data }, dryRun);
+
+      if (report.failed > 0) {
+        return res.status(dryRun ? 200 : 400).json({
+          success: dryRun,
+          data: report,
+          message: `${report.failed} record(s) have errors${dryRun ? '' : '; nothing was imported'}`,
+        });
+      }
+
+      if (dryRun) {
+        return res.json({
+          success: true,
+          data: report,
+          message: `File is valid: ${report.created} to create, ${report.updated} to update`,
+        });
+      }
+
+      await logAuditChanges({
+        tenantId,
+        userId: req.user!.id,
+        module: 'master-data',
+        description: `Imported ${entity} from ${file.name}`,
+        ipAddress: getClientIp(req),
+      }, changes);
+
+      res.json({
+        success: true,
+        data: report,
+        message: `Import complete: ${report.created} created, ${report.updated} updated`,
+      });
+    } catch (error) {
+      if (error instanceof ImportExportError) {
+        return res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+      }
+      console.error('Error importing master data:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,8 +1,8 @@
 import express from 'express';
 import { db } from '@server/lib/db';
-import { productTypes, packageTypes, products, suppliers, supplierLocations, customers, customerLocations } from '../lib/db/schemas/masterData';
+import { productTypes, packageTypes, products, productUoms, NewProductUom, suppliers, supplierLocations, supplierProducts, customers, customerLocations } from '../lib/db/schemas/masterData';
 import { authenticated, authorized } from '@server/middleware/authMiddleware';
-import { eq, and, desc, count, ilike } from 'drizzle-orm';
+import { eq, and, desc, asc, count, ilike, ne, inArray, sql } from 'drizzle-orm';
 import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
 import crypto from 'crypto';
 
@@ -10,6 +10,8 @@ const router = express.Router();
 router.use(authenticated());
 router.use(checkModuleAuthorization('master-data'));
 
+class ProductValidationError extends Error {}
+
 // ================================================================================
 // PRODUCT TYPES ROUTES
 // ================================================================================
@@ -755,6 +757,16 @@ router.delete('/package-types/:id', authorized('ADMIN', 'master-data.delete'), a
  *           type: string
  *         description:
  *           type: string
+ *         barcode:
+ *           type: string
+ *           description: GTIN / EAN of a single base unit
+ *         baseUom:
+ *           type: string
+ *           description: Unit all stored quantities are counted in (default EA)
+ *         uoms:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ProductUom'
  *         minimumStockLevel:
  *           type: integer
  *         reorderPoint:
@@ -779,6 +791,83 @@ router.delete('/package-types/:id', authorized('ADMIN', 'master-data.delete'), a
  *           format: date-time
  */
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ProductUom:
+ *       type: object
+ *       required:
+ *         - uom
+ *       properties:
+ *         uom:
+ *           type: string
+ *           description: Unit code, e.g. CASE or PALLET
+ *         packageTypeId:
+ *           type: string
+ *           format: uuid
+ *         conversionFactor:
+ *           type: integer
+ *           description: Base units in one of this unit; defaults to the package type's units per package
+ *         barcode:
+ *           type: string
+ *           description: GTIN of the package, resolved by the inventory scan endpoint
+ *         isActive:
+ *           type: boolean
+ */
+
+/**
+ * Validate a product's alternate units and build their rows. A unit linked to a package type
+ * without its own conversion factor takes the package type's units per package.
+ */
+async function buildProductUoms(
+  tenantId: string,
+  productId: string,
+  baseUom: string,
+  uoms: any[]
+): Promise<NewProductUom[]> {
+  const packageTypeIds = [...new Set(uoms.map((uom) => uom.packageTypeId).filter(Boolean))] as string[];
+  const packageTypeRecords = packageTypeIds.length === 0 ? [] : await db
+    .select({ id: packageTypes.id, unitsPerPackage: packageTypes.unitsPerPackage })
+    .from(packageTypes)
+    .where(and(eq(packageTypes.tenantId, tenantId), inArray(packageTypes.id, packageTypeIds)));
+  const packageTypeMap = new Map(packageTypeRecords.map((packageType) => [packageType.id, packageType]));
+
+  const seen = new Set<string>([baseUom]);
+  return uoms.map((uom) => {
+    const code = String(uom.uom || '').trim().toUpperCase();
+    if (!code) {
+      throw new ProductValidationError('Each unit of measure requires a code');
+    }
+    if (seen.has(code)) {
+      throw new ProductValidationError(`Unit of measure ${code} is listed more than once or is the base unit`);
+    }
+    seen.add(code);
+
+    if (uom.packageTypeId && !packageTypeMap.has(uom.packageTypeId)) {
+      throw new ProductValidationError(`Package type of ${code} not found`);
+    }
+
+    const conversionFactor = Number(
+      uom.conversionFactor ?? packageTypeMap.get(uom.packageTypeId)?.unitsPerPackage
+    );
+    if (!Number.isInteger(conversionFactor) || conversionFactor < 2) {
+      throw new ProductValidationError(`${code} must convert to a whole number of at least 2 ${baseUom}`);
+    }
+
+    return {
+      id: crypto.randomUUID(),
+      tenantId,
+      productId,
+      uom: code,
+      packageTypeId: uom.packageTypeId || null,
+      conversionFactor,
+      barcode: uom.barcode || null,
+      isActive: uom.isActive ?? true,
+    };
+  });
+}
+
 /**
  * @swagger
  * /api/modules/master-data/products:
@@ -832,6 +921,8 @@ router.get('/products', authorized('ADMIN', 'master-data.view'), async (req, res
         sku: products.sku,
         name: products.name,
         description: products.description,
+        barcode: products.barcode,
+        baseUom: products.baseUom,
         inventoryTypeId: products.inventoryTypeId,
         packageTypeId: products.packageTypeId,
         weight: products.weight,
@@ -863,6 +954,8 @@ router.get('/products', authorized('ADMIN', 'master-data.view'), async (req, res
       sku: row.sku,
       name: row.name,
       description: row.description,
+      barcode: row.barcode,
+      baseUom: row.baseUom,
       inventoryTypeId: row.inventoryTypeId,
       packageTypeId: row.packageTypeId,
       weight: row.weight,
@@ -912,7 +1005,7 @@ router.get('/products', authorized('ADMIN', 'master-data.view'), async (req, res
  * @swagger
  * /api/modules/master-data/products/{id}:
  *   get:
- *     summary: Get a product by ID
+ *     summary: Get a product by ID with its alternate units of measure
  *     tags: [Master Data - Products]
  *     security:
  *       - bearerAuth: []
@@ -944,9 +1037,27 @@ router.get('/products/:id', authorized('ADMIN', 'master-data.view'), async (req,
       });
     }
 
+    const uoms = await db
+      .select({
+        id: productUoms.id,
+        uom: productUoms.uom,
+        packageTypeId: productUoms.packageTypeId,
+        packageTypeName: packageTypes.name,
+        conversionFactor: productUoms.conversionFactor,
+        barcode: productUoms.barcode,
+        isActive: productUoms.isActive,
+      })
+      .from(productUoms)
+      .leftJoin(packageTypes, eq(productUoms.packageTypeId, packageTypes.id))
+      .where(and(eq(productUoms.productId, id), eq(productUoms.tenantId, tenantId)))
+      .orderBy(asc(productUoms.conversionFactor));
+
     res.json({
       success: true,
-      data: record,
+      data: {
+        ...record,
+        uoms,
+      },
     });
   } catch (error) {
     console.error('Error fetching product:', error);
@@ -981,6 +1092,15 @@ router.get('/products/:id', authorized('ADMIN', 'master-data.view'), async (req,
  *                 type: string
  *               description:
  *                 type: string
+ *               barcode:
+ *                 type: string
+ *               baseUom:
+ *                 type: string
+ *               uoms:
+ *                 type: array
+ *                 description: Alternate units of measure; on update, replaces the existing units when given
+ *                 items:
+ *                   $ref: '#/components/schemas/ProductUom'
  *               inventoryTypeId:
  *                 type: string
  *                 format: uuid
@@ -1014,6 +1134,9 @@ router.post('/products', authorized('ADMIN', 'master-data.create'), async (req,
       sku,
       name,
       description,
+      barcode,
+      baseUom,
+      uoms = [],
       inventoryTypeId,
       packageTypeId,
       minimumStockLevel,
@@ -1033,26 +1156,40 @@ router.post('/products', authorized('ADMIN', 'master-data.create'), async (req,
       });
     }
 
-    const [newRecord] = await db
-      .insert(products)
-      .values({
-        id: crypto.randomUUID(),
-        tenantId,
-        sku,
-        name,
-        description,
-        inventoryTypeId,
-        packageTypeId,
-        minimumStockLevel,
-        reorderPoint,
-        requiredTemperatureMin,
-        requiredTemperatureMax,
-        weight,
-        dimensions,
-        active: active ?? true,
-        hasExpiryDate: hasExpiryDate ?? false,
-      })
-      .returning();
+    const productId = crypto.randomUUID();
+    const effectiveBaseUom = String(baseUom || 'EA').trim().toUpperCase();
+    const uomValues = await buildProductUoms(tenantId, productId, effectiveBaseUom, uoms);
+
+    const newRecord = await db.transaction(async (tx) => {
+      const [record] = await tx
+        .insert(products)
+        .values({
+          id: productId,
+          tenantId,
+          sku,
+          name,
+          description,
+          barcode: barcode || null,
+          baseUom: effectiveBaseUom,
+          inventoryTypeId,
+          packageTypeId,
+          minimumStockLevel,
+          reorderPoint,
+          requiredTemperatureMin,
+          requiredTemperatureMax,
+          weight,
+          dimensions,
+          active: active ?? true,
+          hasExpiryDate: hasExpiryDate ?? false,
+        })
+        .returning();
+
+      if (uomValues.length > 0) {
+        await tx.insert(productUoms).values(uomValues);
+      }
+
+      return record;
+    });
 
     res.status(201).json({
       success: true,
@@ -1060,6 +1197,12 @@ router.post('/products', authorized('ADMIN', 'master-data.create'), async (req,
       message: 'Product created successfully',
     });
   } catch (error) {
+    if (error instanceof ProductValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
     console.error('Error creating product:', error);
     res.status(500).json({
       success: false,
@@ -1096,6 +1239,15 @@ router.post('/products', authorized('ADMIN', 'master-data.create'), async (req,
  *                 type: string
  *               description:
  *                 type: string
+ *               barcode:
+ *                 type: string
+ *               baseUom:
+ *                 type: string
+ *               uoms:
+ *                 type: array
+ *                 description: Alternate units of measure; on update, replaces the existing units when given
+ *                 items:
+ *                   $ref: '#/components/schemas/ProductUom'
  *               inventoryTypeId:
  *                 type: string
  *                 format: uuid
@@ -1130,6 +1282,9 @@ router.put('/products/:id', authorized('ADMIN', 'master-data.edit'), async (req,
       sku,
       name,
       description,
+      barcode,
+      baseUom,
+      uoms,
       inventoryTypeId,
       packageTypeId,
       minimumStockLevel,
@@ -1142,39 +1297,87 @@ router.put('/products/:id', authorized('ADMIN', 'master-data.edit'), async (req,
       hasExpiryDate,
     } = req.body;
 
-    const [updated] = await db
-      .update(products)
-      .set({
-        sku,
-        name,
-        description,
-        inventoryTypeId,
-        packageTypeId,
-        minimumStockLevel,
-        reorderPoint,
-        requiredTemperatureMin,
-        requiredTemperatureMax,
-        weight,
-        dimensions,
-        active,
-        hasExpiryDate,
-      })
-      .where(and(eq(products.id, id), eq(products.tenantId, tenantId)))
-      .returning();
+    const [existing] = await db
+      .select({ baseUom: products.baseUom })
+      .from(products)
+      .where(and(eq(products.id, id), eq(products.tenantId, tenantId)));
 
-    if (!updated) {
+    if (!existing) {
       return res.status(404).json({
         success: false,
         message: 'Product not found',
       });
     }
 
+    const effectiveBaseUom = baseUom ? String(baseUom).trim().toUpperCase() : existing.baseUom;
+
+    // Stored quantities are counted in the base unit, so it cannot change while stock exists
+    if (effectiveBaseUom !== existing.baseUom) {
+      const stock = await db.execute(sql`
+        SELECT 1 FROM inventory_items
+        WHERE tenant_id = ${tenantId} AND product_id = ${id}
+        LIMIT 1
+      `);
+      if (stock.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Base unit of measure cannot be changed while the product has inventory',
+        });
+      }
+    }
+
+    const uomValues = Array.isArray(uoms)
+      ? await buildProductUoms(tenantId, id, effectiveBaseUom, uoms)
+      : null;
+
+    const updated = await db.transaction(async (tx) => {
+      const [record] = await tx
+        .update(products)
+        .set({
+          sku,
+          name,
+          description,
+          barcode,
+          baseUom: effectiveBaseUom,
+          inventoryTypeId,
+          packageTypeId,
+          minimumStockLevel,
+          reorderPoint,
+          requiredTemperatureMin,
+          requiredTemperatureMax,
+          weight,
+          dimensions,
+          active,
+          hasExpiryDate,
+        })
+        .where(and(eq(products.id, id), eq(products.tenantId, tenantId)))
+        .returning();
+
+      if (uomValues) {
+        await tx
+          .delete(productUoms)
+          .where(and(eq(productUoms.productId, id), eq(productUoms.tenantId, tenantId)));
+
+        if (uomValues.length > 0) {
+          await tx.insert(productUoms).values(uomValues);
+        }
+      }
+
+      return record;
+    });
+
     res.json({
       success: true,
       data: updated,
       message: 'Product updated successfully',
     });
   } catch (error) {
+    if (error instanceof ProductValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
     console.error('Error updating product:', error);
     res.status(500).json({
       success: false,
@@ -1367,10 +1570,16 @@ router.get('/suppliers', authorized('ADMIN', 'master-data.view'), async (req, re
           .select({ count: count() })
           .from(supplierLocations)
           .where(eq(supplierLocations.supplierId, supplier.id));
+
+        const [productCount] = await db
+          .select({ count: count() })
+          .from(supplierProducts)
+          .where(eq(supplierProducts.supplierId, supplier.id));
         
         return {
           ...supplier,
           locationCount: Number(locationCount?.count) || 0,
+          productCount: Number(productCount?.count) || 0,
         };
       })
     );
@@ -1750,6 +1959,487 @@ router.delete('/suppliers/:id', authorized('ADMIN', 'master-data.delete'), async
   }
 });
 
+// ================================================================================
+// SUPPLIER CATALOG ROUTES
+// ================================================================================
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SupplierProduct:
+ *       type: object
+ *       required:
+ *         - productId
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         supplierId:
+ *           type: string
+ *           format: uuid
+ *         productId:
+ *           type: string
+ *           format: uuid
+ *         supplierSku:
+ *           type: string
+ *           description: The supplier's own code for the product
+ *         packSize:
+ *           type: integer
+ *           description: Units per pack; order quantities are multiples of it
+ *         minimumOrderQuantity:
+ *           type: integer
+ *         leadTimeDays:
+ *           type: integer
+ *           description: Days from order to delivery
+ *         contractPrice:
+ *           type: number
+ *         contractValidFrom:
+ *           type: string
+ *           format: date
+ *         contractValidTo:
+ *           type: string
+ *           format: date
+ *         lastPurchasePrice:
+ *           type: number
+ *           description: Unit cost on the latest purchase order from this supplier (read-only)
+ *         lastPurchaseDate:
+ *           type: string
+ *           format: date
+ *         isPreferred:
+ *           type: boolean
+ *           description: Preferred supplier for the product; at most one per product
+ *         isActive:
+ *           type: boolean
+ */
+
+/**
+ * Check the numeric and date fields of a catalog entry, returning an error message or null
+ */
+function validateSupplierProduct(body: any): string | null {
+  const { packSize, minimumOrderQuantity, leadTimeDays, contractPrice, contractValidFrom, contractValidTo } = body;
+
+  if (packSize !== undefined && packSize !== null && (!Number.isInteger(Number(packSize)) || Number(packSize) < 1)) {
+    return 'Pack size must be a whole number of at least 1';
+  }
+  if (minimumOrderQuantity !== undefined && minimumOrderQuantity !== null &&
+    (!Number.isInteger(Number(minimumOrderQuantity)) || Number(minimumOrderQuantity) < 0)) {
+    return 'Minimum order quantity must be a whole number of at least 0';
+  }
+  if (leadTimeDays !== undefined && leadTimeDays !== null &&
+    (!Number.isInteger(Number(leadTimeDays)) || Number(leadTimeDays) < 0)) {
+    return 'Lead time must be a whole number of days';
+  }
+  if (contractPrice !== undefined && contractPrice !== null && contractPrice !== '' &&
+    (isNaN(Number(contractPrice)) || Number(contractPrice) < 0)) {
+    return 'Contract price must be a non-negative number';
+  }
+  if (contractValidFrom && contractValidTo && contractValidTo < contractValidFrom) {
+    return 'Contract validity end date must not be before its start date';
+  }
+  return null;
+}
+
+/**
+ * @swagger
+ * /api/modules/master-data/suppliers/{id}/products:
+ *   get:
+ *     summary: Get a supplier's product catalog
+ *     tags: [Master Data - Suppliers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Catalog entries with product SKU and name
+ *       404:
+ *         description: Supplier not found
+ */
+router.get('/suppliers/:id/products', authorized('ADMIN', 'master-data.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+
+    const [supplier] = await db
+      .select({ id: suppliers.id })
+      .from(suppliers)
+      .where(and(eq(suppliers.id, id), eq(suppliers.tenantId, tenantId)));
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        message: 'Supplier not found',
+      });
+    }
+
+    const data = await db
+      .select({
+        id: supplierProducts.id,
+        supplierId: supplierProducts.supplierId,
+        productId: supplierProducts.productId,
+        productSku: products.sku,
+        productName: products.name,
+        supplierSku: supplierProducts.supplierSku,
+        packSize: supplierProducts.packSize,
+        minimumOrderQuantity: supplierProducts.minimumOrderQuantity,
+        leadTimeDays: supplierProducts.leadTimeDays,
+        contractPrice: supplierProducts.contractPrice,
+        contractValidFrom: supplierProducts.contractValidFrom,
+        contractValidTo: supplierProducts.contractValidTo,
+        lastPurchasePrice: supplierProducts.lastPurchasePrice,
+        lastPurchaseDate: supplierProducts.lastPurchaseDate,
+        isPreferred: supplierProducts.isPreferred,
+        isActive: supplierProducts.isActive,
+      })
+      .from(supplierProducts)
+      .innerJoin(products, eq(supplierProducts.productId, products.id))
+      .where(and(eq(supplierProducts.supplierId, id), eq(supplierProducts.tenantId, tenantId)))
+      .orderBy(asc(products.sku));
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error fetching supplier catalog:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/master-data/suppliers/{id}/products:
+ *   post:
+ *     summary: Add a product to a supplier's catalog
+ *     tags: [Master Data - Suppliers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SupplierProduct'
+ *     responses:
+ *       201:
+ *         description: Catalog entry created successfully
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Supplier or product not found
+ *       409:
+ *         description: Product is already in the supplier's catalog
+ */
+router.post('/suppliers/:id/products', authorized('ADMIN', 'master-data.create'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+    const {
+      productId,
+      supplierSku,
+      packSize,
+      minimumOrderQuantity,
+      leadTimeDays,
+      contractPrice,
+      contractValidFrom,
+      contractValidTo,
+      isPreferred,
+      isActive,
+    } = req.body;
+
+    if (!productId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Product is required',
+      });
+    }
+
+    const validationError = validateSupplierProduct(req.body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError,
+      });
+    }
+
+    const [supplier] = await db
+      .select({ id: suppliers.id })
+      .from(suppliers)
+      .where(and(eq(suppliers.id, id), eq(suppliers.tenantId, tenantId)));
+
+    const [product] = await db
+      .select({ id: products.id })
+      .from(products)
+      .where(and(eq(products.id, productId), eq(products.tenantId, tenantId)));
+
+    if (!supplier || !product) {
+      return res.status(404).json({
+        success: false,
+        message: !supplier ? 'Supplier not found' : 'Product not found',
+      });
+    }
+
+    const [existing] = await db
+      .select({ id: supplierProducts.id })
+      .from(supplierProducts)
+      .where(and(
+        eq(supplierProducts.tenantId, tenantId),
+        eq(supplierProducts.supplierId, id),
+        eq(supplierProducts.productId, productId)
+      ));
+
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: 'Product is already in this supplier\'s catalog',
+      });
+    }
+
+    const newRecord = await db.transaction(async (tx) => {
+      // Only one preferred supplier per product
+      if (isPreferred) {
+        await tx
+          .update(supplierProducts)
+          .set({ isPreferred: false })
+          .where(and(eq(supplierProducts.tenantId, tenantId), eq(supplierProducts.productId, productId)));
+      }
+
+      const [record] = await tx
+        .insert(supplierProducts)
+        .values({
+          id: crypto.randomUUID(),
+          tenantId,
+          supplierId: id,
+          productId,
+          supplierSku: supplierSku || null,
+          packSize: packSize ? Number(packSize) : 1,
+          minimumOrderQuantity: minimumOrderQuantity ?? null,
+          leadTimeDays: leadTimeDays ?? null,
+          contractPrice: contractPrice !== undefined && contractPrice !== '' ? contractPrice : null,
+          contractValidFrom: contractValidFrom || null,
+          contractValidTo: contractValidTo || null,
+          isPreferred: isPreferred ?? false,
+          isActive: isActive ?? true,
+        })
+        .returning();
+
+      return record;
+    });
+
+    res.status(201).json({
+      success: true,
+      data: newRecord,
+      message: 'Catalog entry created successfully',
+    });
+  } catch (error) {
+    console.error('Error creating supplier catalog entry:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/master-data/suppliers/{id}/products/{entryId}:
+ *   put:
+ *     summary: Update a supplier catalog entry
+ *     description: The product of an entry cannot be changed; remove the entry and add a new one instead.
+ *     tags: [Master Data - Suppliers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: entryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SupplierProduct'
+ *     responses:
+ *       200:
+ *         description: Catalog entry updated successfully
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Catalog entry not found
+ */
+router.put('/suppliers/:id/products/:entryId', authorized('ADMIN', 'master-data.edit'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id, entryId } = req.params;
+    const {
+      supplierSku,
+      packSize,
+      minimumOrderQuantity,
+      leadTimeDays,
+      contractPrice,
+      contractValidFrom,
+      contractValidTo,
+      isPreferred,
+      isActive,
+    } = req.body;
+
+    const validationError = validateSupplierProduct(req.body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError,
+      });
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const [entry] = await tx
+        .select({ productId: supplierProducts.productId })
+        .from(supplierProducts)
+        .where(and(
+          eq(supplierProducts.id, entryId),
+          eq(supplierProducts.supplierId, id),
+          eq(supplierProducts.tenantId, tenantId)
+        ));
+
+      if (!entry) return null;
+
+      if (isPreferred) {
+        await tx
+          .update(supplierProducts)
+          .set({ isPreferred: false })
+          .where(and(
+            eq(supplierProducts.tenantId, tenantId),
+            eq(supplierProducts.productId, entry.productId),
+            ne(supplierProducts.id, entryId)
+          ));
+      }
+
+      const [record] = await tx
+        .update(supplierProducts)
+        .set({
+          supplierSku: supplierSku || null,
+          packSize: packSize ? Number(packSize) : 1,
+          minimumOrderQuantity: minimumOrderQuantity ?? null,
+          leadTimeDays: leadTimeDays ?? null,
+          contractPrice: contractPrice !== undefined && contractPrice !== '' ? contractPrice : null,
+          contractValidFrom: contractValidFrom || null,
+          contractValidTo: contractValidTo || null,
+          isPreferred,
+          isActive,
+        })
+        .where(eq(supplierProducts.id, entryId))
+        .returning();
+
+      return record;
+    });
+
+    if (!updated) {
+      return res.status(404).json({
+        success: false,
+        message: 'Catalog entry not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: updated,
+      message: 'Catalog entry updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating supplier catalog entry:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/master-data/suppliers/{id}/products/{entryId}:
+ *   delete:
+ *     summary: Remove a product from a supplier's catalog
+ *     tags: [Master Data - Suppliers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: entryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Catalog entry deleted successfully
+ *       404:
+ *         description: Catalog entry not found
+ */
+router.delete('/suppliers/:id/products/:entryId', authorized('ADMIN', 'master-data.delete'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id, entryId } = req.params;
+
+    const [deleted] = await db
+      .delete(supplierProducts)
+      .where(and(
+        eq(supplierProducts.id, entryId),
+        eq(supplierProducts.supplierId, id),
+        eq(supplierProducts.tenantId, tenantId)
+      ))
+      .returning();
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        message: 'Catalog entry not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Catalog entry deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting supplier catalog entry:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
 // ================================================================================
 // CUSTOMERS ROUTES
 // ================================================================================
@@ -0,0 +1,1069 @@
+import { db } from '@server/lib/db';
+import {
+  customerLocations,
+  customers,
+  packageTypes,
+  productTypes,
+  productUoms,
+  products,
+  supplierLocations,
+  suppliers,
+} from '../lib/db/schemas/masterData';
+import {
+  customerSchema,
+  inventoryTypeSchema,
+  packageTypeSchema,
+  productSchema,
+  supplierSchema,
+} from '../../client/schemas/masterDataSchemas';
+import { AuditedChange } from '@server/services/auditService';
+import { and, asc, eq, sql } from 'drizzle-orm';
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { parse, writeToBuffer } from 'fast-csv';
+import ExcelJS from 'exceljs';
+import crypto from 'crypto';
+import type { z } from 'zod';
+
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+// A tenant-scoped master data table the import writes to
+type ImportTable = PgTable & { id: PgColumn; tenantId: PgColumn };
+
+export class ImportExportError extends Error {}
+
+export const IMPORT_EXPORT_ENTITIES = ['product-types', 'package-types', 'products', 'suppliers', 'customers'] as const;
+export type ImportExportEntity = (typeof IMPORT_EXPORT_ENTITIES)[number];
+
+export const FILE_FORMATS = ['csv', 'xlsx'] as const;
+export type FileFormat = (typeof FILE_FORMATS)[number];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+const CONTENT_TYPES: Record<FileFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Location columns of supplier and customer files, by location field
+const LOCATION_COLUMNS: Record<string, string> = {
+  locationType: 'locationType',
+  address: 'address',
+  city: 'city',
+  state: 'state',
+  postalCode: 'postalCode',
+  country: 'country',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  contactPerson: 'locationContactPerson',
+  phone: 'locationPhone',
+  email: 'locationEmail',
+  isActive: 'locationActive',
+};
+
+const PARTNER_COLUMNS = ['name', 'contactPerson', 'email', 'phone', 'taxId', ...Object.values(LOCATION_COLUMNS)];
+
+interface SheetRow {
+  // Spreadsheet row number; the header is row 1
+  row: number;
+  values: Record<string, string>;
+}
+
+interface Sheet {
+  // Known columns present in the file
+  headers: Set<string>;
+  rows: SheetRow[];
+}
+
+interface RowError {
+  row: number;
+  message: string;
+}
+
+// One record to write, prepared from one or more rows of the file
+interface PreparedRecord {
+  rows: number[];
+  key: string;
+  action: 'create' | 'update';
+  errors: RowError[];
+  // Returns the records it created or updated, for the audit trail
+  write: (executor: Executor) => Promise<AuditedChange[]>;
+}
+
+interface EntityDefinition {
+  // Worksheet and file name
+  name: string;
+  columns: string[];
+  // Columns the file must have
+  requiredColumns: string[];
+  exportRows: (tenantId: string) => Promise<Record<string, unknown>[]>;
+  prepare: (tenantId: string, sheet: Sheet) => Promise<PreparedRecord[]>;
+}
+
+export interface ImportRowResult {
+  row: number;
+  key: string;
+  action: 'create' | 'update' | 'error';
+  errors: string[];
+}
+
+export interface ImportReport {
+  entity: ImportExportEntity;
+  dryRun: boolean;
+  totalRows: number;
+  created: number;
+  updated: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+// ==================== Cell helpers ====================
+
+function text(row: SheetRow, column: string): string {
+  return row.values[column] ?? '';
+}
+
+function readNumber(row: SheetRow, column: string, errors: string[], integer = false): number | undefined {
+  const value = text(row, column);
+  if (!value) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || (integer && !Number.isInteger(parsed))) {
+    errors.push(`${column} must be ${integer ? 'a whole number' : 'a number'}`);
+    return undefined;
+  }
+  return parsed;
+}
+
+function readBoolean(row: SheetRow, column: string, errors: string[], defaultValue: boolean): boolean {
+  const value = text(row, column).toLowerCase();
+  if (!value) return defaultValue;
+  if (['true', 'yes', 'y', '1'].includes(value)) return true;
+  if (['false', 'no', 'n', '0'].includes(value)) return false;
+  errors.push(`${column} must be true or false`);
+  return defaultValue;
+}
+
+function toDecimal(value: number | undefined): string | null {
+  return value === undefined ? null : value.toString();
+}
+
+function hasLocation(row: SheetRow): boolean {
+  return Object.values(LOCATION_COLUMNS).some((column) => text(row, column) !== '');
+}
+
+/**
+ * Keep the fields whose column is in the file, so an update leaves fields of missing columns unchanged
+ */
+function presentFields<T extends object>(
+  values: T,
+  headers: Set<string>,
+  columns: Record<string, string> = {}
+): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([field]) => headers.has(columns[field] ?? field))
+  ) as Partial<T>;
+}
+
+/**
+ * Insert a record and return it as a created record for the audit trail
+ */
+async function insertRecord(
+  executor: Executor,
+  table: ImportTable,
+  resourceType: string,
+  values: Record<string, unknown>
+): Promise<AuditedChange> {
+  const [after] = await executor.insert(table).values(values as any).returning();
+  return { resourceType, resourceId: after.id as string, before: null, after };
+}
+
+/**
+ * Update a record of the tenant and return it before and after, for the audit trail
+ */
+async function updateRecord(
+  executor: Executor,
+  table: ImportTable,
+  resourceType: string,
+  tenantId: string,
+  id: string,
+  values: Record<string, unknown>
+): Promise<AuditedChange> {
+  const where = and(eq(table.id, id), eq(table.tenantId, tenantId));
+  const [before] = await executor.select().from(table as PgTable).where(where);
+  const [after] = await executor.update(table).set(values).where(where).returning();
+  return { resourceType, resourceId: id, before, after };
+}
+
+function issueMessages(error: z.ZodError): string[] {
+  return error.issues.map((issue) => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+}
+
+function rowErrors(row: number, messages: string[]): RowError[] {
+  return messages.map((message) => ({ row, message }));
+}
+
+// ==================== File parsing ====================
+
+async function readCsv(data: Buffer): Promise<{ headers: string[]; rows: SheetRow[] }> {
+  return new Promise((resolve, reject) => {
+    let headers: string[] = [];
+    const rows: SheetRow[] = [];
+    const stream = parse<Record<string, string>, Record<string, string>>({
+      headers: (names) => {
+        // Spreadsheet programs may start the file with a byte order mark
+        headers = names.map((name) => (name || '').replace(/^\uFEFF/, '').trim());
+        return headers;
+      },
+      ignoreEmpty: true,
+      trim: true,
+    })
+      .on('data', (values: Record<string, string>) => {
+        rows.push({ row: rows.length + 2, values });
+      })
+      .on('end', () => resolve({ headers, rows }))
+      .on('error', (error) => reject(new ImportExportError(`Could not read the CSV file: ${error.message}`)));
+
+    stream.write(data);
+    stream.end();
+  });
+}
+
+async function readXlsx(data: Buffer): Promise<{ headers: string[]; rows: SheetRow[] }> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(data as any);
+  } catch {
+    throw new ImportExportError('Could not read the XLSX file');
+  }
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new ImportExportError('The workbook has no worksheets');
+  }
+
+  const headers: string[] = [];
+  worksheet.getRow(1).eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+    headers[columnNumber] = cell.text.trim();
+  });
+
+  const rows: SheetRow[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const values: Record<string, string> = {};
+    headers.forEach((header, columnNumber) => {
+      if (header) values[header] = row.getCell(columnNumber).text.trim();
+    });
+    if (Object.values(values).some((value) => value !== '')) {
+      rows.push({ row: rowNumber, values });
+    }
+  });
+
+  return { headers: headers.filter(Boolean), rows };
+}
+
+/**
+ * Parse an uploaded file into rows keyed by the entity's column names. Headers match columns regardless of case;
+ * unknown columns are ignored.
+ */
+async function readSheet(definition: EntityDefinition, format: FileFormat, data: Buffer): Promise<Sheet> {
+  const { headers, rows } = format === 'csv' ? await readCsv(data) : await readXlsx(data);
+
+  const columnsByHeader = new Map(definition.columns.map((column) => [column.toLowerCase(), column]));
+  const headerColumns = new Map<string, string>();
+  for (const header of headers) {
+    const column = columnsByHeader.get(header.toLowerCase());
+    if (column) headerColumns.set(header, column);
+  }
+
+  const present = new Set(headerColumns.values());
+  const missing = definition.requiredColumns.filter((column) => !present.has(column));
+  if (missing.length > 0) {
+    throw new ImportExportError(`Missing column(s): ${missing.join(', ')}`);
+  }
+  if (rows.length === 0) {
+    throw new ImportExportError('The file has no data rows');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportExportError(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`);
+  }
+
+  return {
+    headers: present,
+    rows: rows.map(({ row, values }) => {
+      const mapped: Record<string, string> = {};
+      for (const [header, column] of headerColumns) {
+        mapped[column] = (values[header] ?? '').trim();
+      }
+      return { row, values: mapped };
+    }),
+  };
+}
+
+// ==================== Product types ====================
+
+const productTypeDefinition: EntityDefinition = {
+  name: 'product-types',
+  columns: ['name', 'description', 'category', 'isActive'],
+  requiredColumns: ['name'],
+
+  async exportRows(tenantId) {
+    const records = await db
+      .select()
+      .from(productTypes)
+      .where(eq(productTypes.tenantId, tenantId))
+      .orderBy(asc(productTypes.name));
+
+    return records.map((record) => ({
+      name: record.name,
+      description: record.description,
+      category: record.category,
+      isActive: record.isActive,
+    }));
+  },
+
+  async prepare(tenantId, sheet) {
+    const existing = await db
+      .select({ id: productTypes.id, name: productTypes.name })
+      .from(productTypes)
+      .where(eq(productTypes.tenantId, tenantId));
+    const idsByName = new Map(existing.map((record) => [record.name, record.id]));
+    const seen = new Map<string, number>();
+
+    return sheet.rows.map((row) => {
+      const errors: string[] = [];
+      const form = {
+        name: text(row, 'name'),
+        description: text(row, 'description'),
+        category: text(row, 'category'),
+        isActive: readBoolean(row, 'isActive', errors, true),
+      };
+
+      const result = inventoryTypeSchema.safeParse(form);
+      if (!result.success) errors.push(...issueMessages(result.error));
+      if (seen.has(form.name)) errors.push(`name ${form.name} is also on row ${seen.get(form.name)}`);
+      seen.set(form.name, row.row);
+
+      const values = {
+        name: form.name,
+        description: form.description || null,
+        category: form.category || null,
+        isActive: form.isActive,
+      };
+      const id = idsByName.get(form.name);
+
+      return {
+        rows: [row.row],
+        key: form.name,
+        action: id ? 'update' : 'create',
+        errors: rowErrors(row.row, errors),
+        write: async (executor) => [
+          id
+            ? await updateRecord(executor, productTypes, 'product_type', tenantId, id, presentFields(values, sheet.headers))
+            : await insertRecord(executor, productTypes, 'product_type', { id: crypto.randomUUID(), tenantId, ...values }),
+        ],
+      };
+    });
+  },
+};
+
+// ==================== Package types ====================
+
+const packageTypeDefinition: EntityDefinition = {
+  name: 'package-types',
+  columns: ['name', 'description', 'unitsPerPackage', 'barcode', 'dimensions', 'weight', 'isActive'],
+  requiredColumns: ['name'],
+
+  async exportRows(tenantId) {
+    const records = await db
+      .select()
+      .from(packageTypes)
+      .where(eq(packageTypes.tenantId, tenantId))
+      .orderBy(asc(packageTypes.name));
+
+    return records.map((record) => ({
+      name: record.name,
+      description: record.description,
+      unitsPerPackage: record.unitsPerPackage,
+      barcode: record.barcode,
+      dimensions: record.dimensions,
+      weight: record.weight,
+      isActive: record.isActive,
+    }));
+  },
+
+  async prepare(tenantId, sheet) {
+    const existing = await db
+      .select({ id: packageTypes.id, name: packageTypes.name })
+      .from(packageTypes)
+      .where(eq(packageTypes.tenantId, tenantId));
+    const idsByName = new Map(existing.map((record) => [record.name, record.id]));
+    const seen = new Map<string, number>();
+
+    return sheet.rows.map((row) => {
+      const errors: string[] = [];
+      const weight = readNumber(row, 'weight', errors);
+      const form = {
+        name: text(row, 'name'),
+        description: text(row, 'description'),
+        unitsPerPackage: readNumber(row, 'unitsPerPackage', errors, true),
+        barcode: text(row, 'barcode'),
+        dimensions: text(row, 'dimensions'),
+        weight: weight === undefined ? '' : weight.toString(),
+        isActive: readBoolean(row, 'isActive', errors, true),
+      };
+
+      const result = packageTypeSchema.safeParse(form);
+      if (!result.success) errors.push(...issueMessages(result.error));
+      if (seen.has(form.name)) errors.push(`name ${form.name} is also on row ${seen.get(form.name)}`);
+      seen.set(form.name, row.row);
+
+      const values = {
+        name: form.name,
+        description: form.description || null,
+        unitsPerPackage: form.unitsPerPackage ?? null,
+        barcode: form.barcode || null,
+        dimensions: form.dimensions || null,
+        weight: form.weight || null,
+        isActive: form.isActive,
+      };
+      const id = idsByName.get(form.name);
+
+      return {
+        rows: [row.row],
+        key: form.name,
+        action: id ? 'update' : 'create',
+        errors: rowErrors(row.row, errors),
+        write: async (executor) => [
+          id
+            ? await updateRecord(executor, packageTypes, 'package_type', tenantId, id, presentFields(values, sheet.headers))
+            : await insertRecord(executor, packageTypes, 'package_type', { id: crypto.randomUUID(), tenantId, ...values }),
+        ],
+      };
+    });
+  },
+};
+
+// ==================== Products ====================
+
+// Product fields whose column has another name; types are referenced by name
+const PRODUCT_COLUMNS: Record<string, string> = {
+  inventoryTypeId: 'inventoryType',
+  packageTypeId: 'packageType',
+};
+
+const productDefinition: EntityDefinition = {
+  name: 'products',
+  columns: [
+    'sku',
+    'name',
+    'description',
+    'barcode',
+    'baseUom',
+    'inventoryType',
+    'packageType',
+    'weight',
+    'dimensions',
+    'minimumStockLevel',
+    'reorderPoint',
+    'requiredTemperatureMin',
+    'requiredTemperatureMax',
+    'hasExpiryDate',
+    'active',
+  ],
+  requiredColumns: ['sku', 'name'],
+
+  async exportRows(tenantId) {
+    const records = await db
+      .select({
+        product: products,
+        inventoryType: productTypes.name,
+        packageType: packageTypes.name,
+      })
+      .from(products)
+      .leftJoin(productTypes, eq(products.inventoryTypeId, productTypes.id))
+      .leftJoin(packageTypes, eq(products.packageTypeId, packageTypes.id))
+      .where(eq(products.tenantId, tenantId))
+      .orderBy(asc(products.sku));
+
+    return records.map(({ product, inventoryType, packageType }) => ({
+      sku: product.sku,
+      name: product.name,
+      description: product.description,
+      barcode: product.barcode,
+      baseUom: product.baseUom,
+      inventoryType,
+      packageType,
+      weight: product.weight,
+      dimensions: product.dimensions,
+      minimumStockLevel: product.minimumStockLevel,
+      reorderPoint: product.reorderPoint,
+      requiredTemperatureMin: product.requiredTemperatureMin,
+      requiredTemperatureMax: product.requiredTemperatureMax,
+      hasExpiryDate: product.hasExpiryDate,
+      active: product.active,
+    }));
+  },
+
+  async prepare(tenantId, sheet) {
+    const [existing, typeRecords, packageRecords, alternateUoms] = await Promise.all([
+      db
+        .select({ id: products.id, sku: products.sku, baseUom: products.baseUom })
+        .from(products)
+        .where(eq(products.tenantId, tenantId)),
+      db
+        .select({ id: productTypes.id, name: productTypes.name })
+        .from(productTypes)
+        .where(eq(productTypes.tenantId, tenantId)),
+      db
+        .select({ id: packageTypes.id, name: packageTypes.name })
+        .from(packageTypes)
+        .where(eq(packageTypes.tenantId, tenantId)),
+      db
+        .select({ productId: productUoms.productId, uom: productUoms.uom })
+        .from(productUoms)
+        .where(eq(productUoms.tenantId, tenantId)),
+    ]);
+
+    const productsBySku = new Map(existing.map((record) => [record.sku, record]));
+    const typeIds = new Map(typeRecords.map((record) => [record.name, record.id]));
+    const packageIds = new Map(packageRecords.map((record) => [record.name, record.id]));
+    const alternates = new Set(alternateUoms.map((record) => `${record.productId}\u0000${record.uom}`));
+
+    // Stored quantities are counted in the base unit, so it cannot change while stock exists
+    const stocked = new Set<string>();
+    if (sheet.headers.has('baseUom')) {
+      const stockRows = await db.execute(sql`
+        SELECT DISTINCT product_id FROM inventory_items WHERE tenant_id = ${tenantId}
+      `);
+      stockRows.forEach((stockRow: any) => stocked.add(stockRow.product_id));
+    }
+
+    const seen = new Map<string, number>();
+
+    return sheet.rows.map((row) => {
+      const errors: string[] = [];
+      const sku = text(row, 'sku');
+      const current = productsBySku.get(sku);
+      const weight = readNumber(row, 'weight', errors);
+
+      const form = {
+        sku,
+        name: text(row, 'name'),
+        description: text(row, 'description'),
+        barcode: text(row, 'barcode'),
+        baseUom: (sheet.headers.has('baseUom') ? text(row, 'baseUom') : current?.baseUom ?? 'EA').toUpperCase(),
+        weight: weight === undefined ? '' : weight.toString(),
+        dimensions: text(row, 'dimensions'),
+        minimumStockLevel: readNumber(row, 'minimumStockLevel', errors, true),
+        reorderPoint: readNumber(row, 'reorderPoint', errors, true),
+        requiredTemperatureMin: readNumber(row, 'requiredTemperatureMin', errors),
+        requiredTemperatureMax: readNumber(row, 'requiredTemperatureMax', errors),
+        hasExpiryDate: readBoolean(row, 'hasExpiryDate', errors, false),
+        active: readBoolean(row, 'active', errors, true),
+      };
+
+      const result = productSchema.safeParse(form);
+      if (!result.success) errors.push(...issueMessages(result.error));
+      if (seen.has(sku)) errors.push(`sku ${sku} is also on row ${seen.get(sku)}`);
+      seen.set(sku, row.row);
+
+      const inventoryType = text(row, 'inventoryType');
+      const inventoryTypeId = inventoryType ? typeIds.get(inventoryType) : undefined;
+      if (inventoryType && !inventoryTypeId) errors.push(`Inventory type ${inventoryType} not found`);
+
+      const packageType = text(row, 'packageType');
+      const packageTypeId = packageType ? packageIds.get(packageType) : undefined;
+      if (packageType && !packageTypeId) errors.push(`Package type ${packageType} not found`);
+
+      if (current && form.baseUom && form.baseUom !== current.baseUom) {
+        if (stocked.has(current.id)) {
+          errors.push('Base unit of measure cannot be changed while the product has inventory');
+        }
+        if (alternates.has(`${current.id}\u0000${form.baseUom}`)) {
+          errors.push(`${form.baseUom} is already an alternate unit of this product`);
+        }
+      }
+
+      const values = {
+        sku,
+        name: form.name,
+        description: form.description || null,
+        barcode: form.barcode || null,
+        baseUom: form.baseUom,
+        inventoryTypeId: inventoryTypeId ?? null,
+        packageTypeId: packageTypeId ?? null,
+        weight: form.weight || null,
+        dimensions: form.dimensions || null,
+        minimumStockLevel: form.minimumStockLevel ?? null,
+        reorderPoint: form.reorderPoint ?? null,
+        requiredTemperatureMin: toDecimal(form.requiredTemperatureMin),
+        requiredTemperatureMax: toDecimal(form.requiredTemperatureMax),
+        hasExpiryDate: form.hasExpiryDate,
+        active: form.active,
+      };
+
+      return {
+        rows: [row.row],
+        key: sku,
+        action: current ? 'update' : 'create',
+        errors: rowErrors(row.row, errors),
+        write: async (executor) => [
+          current
+            ? await updateRecord(
+              executor, products, 'product', tenantId, current.id, presentFields(values, sheet.headers, PRODUCT_COLUMNS)
+            )
+            : await insertRecord(executor, products, 'product', { id: crypto.randomUUID(), tenantId, ...values }),
+        ],
+      };
+    });
+  },
+};
+
+// ==================== Suppliers and customers ====================
+
+interface PartnerValues {
+  name: string;
+  contactPerson: string | null;
+  email: string | null;
+  phone: string | null;
+  taxId: string | null;
+}
+
+interface LocationValues {
+  locationType: string;
+  address: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  latitude: string | null;
+  longitude: string | null;
+  contactPerson: string | null;
+  phone: string | null;
+  email: string | null;
+  isActive: boolean;
+}
+
+interface PartnerRecord {
+  id: string;
+  name: string;
+  taxId: string | null;
+  locations: { id: string; locationType: string | null; address: string | null }[];
+}
+
+// Table access for suppliers or customers, which share their shape
+interface PartnerStore {
+  label: string;
+  schema: typeof supplierSchema | typeof customerSchema;
+  load: (tenantId: string) => Promise<PartnerRecord[]>;
+  exportRows: (tenantId: string) => Promise<Record<string, unknown>[]>;
+  insertPartner: (executor: Executor, tenantId: string, id: string, values: PartnerValues) => Promise<AuditedChange>;
+  updatePartner: (
+    executor: Executor, tenantId: string, id: string, values: Partial<PartnerValues>
+  ) => Promise<AuditedChange>;
+  insertLocation: (
+    executor: Executor, tenantId: string, partnerId: string, values: LocationValues
+  ) => Promise<AuditedChange>;
+  updateLocation: (
+    executor: Executor, tenantId: string, id: string, values: Partial<LocationValues>
+  ) => Promise<AuditedChange>;
+}
+
+function locationKey(locationType: string | null, address: string | null): string {
+  return `${(locationType || '').trim().toLowerCase()}\u0000${(address || '').trim().toLowerCase()}`;
+}
+
+function partnerExportRow(
+  partner: typeof suppliers.$inferSelect,
+  location: Omit<typeof supplierLocations.$inferSelect, 'supplierId'> | null
+) {
+  return {
+    name: partner.name,
+    contactPerson: partner.contactPerson,
+    email: partner.email,
+    phone: partner.phone,
+    taxId: partner.taxId,
+    locationType: location?.locationType ?? null,
+    address: location?.address ?? null,
+    city: location?.city ?? null,
+    state: location?.state ?? null,
+    postalCode: location?.postalCode ?? null,
+    country: location?.country ?? null,
+    latitude: location?.latitude ?? null,
+    longitude: location?.longitude ?? null,
+    locationContactPerson: location?.contactPerson ?? null,
+    locationPhone: location?.phone ?? null,
+    locationEmail: location?.email ?? null,
+    locationActive: location ? location.isActive : null,
+  };
+}
+
+function groupLocations(rows: { id: string; partnerId: string; locationType: string | null; address: string | null }[]) {
+  const byPartner = new Map<string, PartnerRecord['locations']>();
+  for (const { partnerId, ...location } of rows) {
+    byPartner.set(partnerId, [...(byPartner.get(partnerId) || []), location]);
+  }
+  return byPartner;
+}
+
+const supplierStore: PartnerStore = {
+  label: 'Supplier',
+  schema: supplierSchema,
+
+  async load(tenantId) {
+    const [records, locations] = await Promise.all([
+      db
+        .select({ id: suppliers.id, name: suppliers.name, taxId: suppliers.taxId })
+        .from(suppliers)
+        .where(eq(suppliers.tenantId, tenantId)),
+      db
+        .select({
+          id: supplierLocations.id,
+          partnerId: supplierLocations.supplierId,
+          locationType: supplierLocations.locationType,
+          address: supplierLocations.address,
+        })
+        .from(supplierLocations)
+        .where(eq(supplierLocations.tenantId, tenantId)),
+    ]);
+    const byPartner = groupLocations(locations);
+    return records.map((record) => ({ ...record, locations: byPartner.get(record.id) || [] }));
+  },
+
+  async exportRows(tenantId) {
+    const records = await db
+      .select({ partner: suppliers, location: supplierLocations })
+      .from(suppliers)
+      .leftJoin(supplierLocations, eq(supplierLocations.supplierId, suppliers.id))
+      .where(eq(suppliers.tenantId, tenantId))
+      .orderBy(asc(suppliers.name), asc(supplierLocations.createdAt));
+    return records.map(({ partner, location }) => partnerExportRow(partner, location));
+  },
+
+  insertPartner: (executor, tenantId, id, values) =>
+    insertRecord(executor, suppliers, 'supplier', { id, tenantId, ...values }),
+
+  updatePartner: (executor, tenantId, id, values) =>
+    updateRecord(executor, suppliers, 'supplier', tenantId, id, values),
+
+  insertLocation: (executor, tenantId, partnerId, values) =>
+    insertRecord(executor, supplierLocations, 'supplier_location', { id: crypto.randomUUID(), supplierId: partnerId, tenantId, ...values }),
+
+  updateLocation: (executor, tenantId, id, values) =>
+    updateRecord(executor, supplierLocations, 'supplier_location', tenantId, id, values),
+};
+
+const customerStore: PartnerStore = {
+  label: 'Customer',
+  schema: customerSchema,
+
+  async load(tenantId) {
+    const [records, locations] = await Promise.all([
+      db
+        .select({ id: customers.id, name: customers.name, taxId: customers.taxId })
+        .from(customers)
+        .where(eq(customers.tenantId, tenantId)),
+      db
+        .select({
+          id: customerLocations.id,
+          partnerId: customerLocations.customerId,
+          locationType: customerLocations.locationType,
+          address: customerLocations.address,
+        })
+        .from(customerLocations)
+        .where(eq(customerLocations.tenantId, tenantId)),
+    ]);
+    const byPartner = groupLocations(locations);
+    return records.map((record) => ({ ...record, locations: byPartner.get(record.id) || [] }));
+  },
+
+  async exportRows(tenantId) {
+    const records = await db
+      .select({ partner: customers, location: customerLocations })
+      .from(customers)
+      .leftJoin(customerLocations, eq(customerLocations.customerId, customers.id))
+      .where(eq(customers.tenantId, tenantId))
+      .orderBy(asc(customers.name), asc(customerLocations.createdAt));
+    return records.map(({ partner, location }) => partnerExportRow(partner, location));
+  },
+
+  insertPartner: (executor, tenantId, id, values) =>
+    insertRecord(executor, customers, 'customer', { id, tenantId, ...values }),
+
+  updatePartner: (executor, tenantId, id, values) =>
+    updateRecord(executor, customers, 'customer', tenantId, id, values),
+
+  insertLocation: (executor, tenantId, partnerId, values) =>
+    insertRecord(executor, customerLocations, 'customer_location', { id: crypto.randomUUID(), customerId: partnerId, tenantId, ...values }),
+
+  updateLocation: (executor, tenantId, id, values) =>
+    updateRecord(executor, customerLocations, 'customer_location', tenantId, id, values),
+};
+
+/**
+ * Suppliers and customers have one row per location. Rows with the same tax ID, or the same name when the tax ID
+ * is empty, are one partner whose details come from its first row. Locations are matched to existing ones by type
+ * and address and updated or added; locations missing from the file are kept, as orders refer to them.
+ */
+async function preparePartners(store: PartnerStore, tenantId: string, sheet: Sheet): Promise<PreparedRecord[]> {
+  const existing = await store.load(tenantId);
+  const byTaxId = new Map(existing.filter((partner) => partner.taxId).map((partner) => [partner.taxId!, partner]));
+  const byName = new Map(existing.map((partner) => [partner.name, partner]));
+
+  const groups = new Map<string, SheetRow[]>();
+  for (const row of sheet.rows) {
+    const taxId = text(row, 'taxId');
+    const key = taxId ? `taxId\u0000${taxId}` : `name\u0000${text(row, 'name')}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  const namesInFile = new Map<string, number>();
+  const records: PreparedRecord[] = [];
+
+  for (const rows of groups.values()) {
+    const first = rows[0];
+    const errors: RowError[] = [];
+    const name = text(first, 'name');
+    const taxId = text(first, 'taxId');
+
+    let match = taxId ? byTaxId.get(taxId) : undefined;
+    const named = byName.get(name);
+    if (!match && named) {
+      if (taxId && named.taxId) {
+        errors.push({ row: first.row, message: `${store.label} ${name} already exists with tax ID ${named.taxId}` });
+      } else {
+        match = named;
+      }
+    } else if (match && named && named.id !== match.id) {
+      errors.push({ row: first.row, message: `Another ${store.label.toLowerCase()} is named ${name}` });
+    }
+
+    if (namesInFile.has(name)) {
+      errors.push({ row: first.row, message: `name ${name} is also on row ${namesInFile.get(name)}` });
+    }
+    namesInFile.set(name, first.row);
+
+    const locationRows: SheetRow[] = [];
+    const locationForms = rows.filter(hasLocation).map((row) => {
+      const messages: string[] = [];
+      const form = {
+        locationType: text(row, 'locationType'),
+        address: text(row, 'address'),
+        city: text(row, 'city'),
+        state: text(row, 'state'),
+        postalCode: text(row, 'postalCode'),
+        country: text(row, 'country'),
+        latitude: readNumber(row, 'latitude', messages),
+        longitude: readNumber(row, 'longitude', messages),
+        contactPerson: text(row, 'locationContactPerson'),
+        phone: text(row, 'locationPhone'),
+        email: text(row, 'locationEmail'),
+        isActive: readBoolean(row, 'locationActive', messages, true),
+      };
+      errors.push(...rowErrors(row.row, messages));
+      locationRows.push(row);
+      return form;
+    });
+
+    const form = {
+      name,
+      contactPerson: text(first, 'contactPerson'),
+      email: text(first, 'email'),
+      phone: text(first, 'phone'),
+      taxId,
+      locations: locationForms,
+    };
+
+    const result = store.schema.safeParse(form);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const [field, index, locationField] = issue.path;
+        if (field === 'locations' && typeof index === 'number') {
+          const column = LOCATION_COLUMNS[String(locationField)] ?? String(locationField);
+          errors.push({ row: locationRows[index].row, message: `${column}: ${issue.message}` });
+        } else {
+          errors.push({ row: first.row, message: `${issue.path.join('.')}: ${issue.message}` });
+        }
+      }
+    }
+
+    const existingLocations = new Map((match?.locations || []).map((location) => [
+      locationKey(location.locationType, location.address),
+      location.id,
+    ]));
+    const locationsInGroup = new Map<string, number>();
+    const locations = locationForms.map((location, index) => {
+      const key = locationKey(location.locationType, location.address);
+      if (locationsInGroup.has(key)) {
+        errors.push({
+          row: locationRows[index].row,
+          message: `Location ${location.locationType} at ${location.address} is also on row ${locationsInGroup.get(key)}`,
+        });
+      }
+      locationsInGroup.set(key, locationRows[index].row);
+
+      const values: LocationValues = {
+        locationType: location.locationType,
+        address: location.address,
+        city: location.city,
+        state: location.state,
+        postalCode: location.postalCode,
+        country: location.country,
+        latitude: toDecimal(location.latitude),
+        longitude: toDecimal(location.longitude),
+        contactPerson: location.contactPerson || null,
+        phone: location.phone || null,
+        email: location.email || null,
+        isActive: location.isActive,
+      };
+      return { id: existingLocations.get(key), values };
+    });
+
+    const values: PartnerValues = {
+      name,
+      contactPerson: form.contactPerson || null,
+      email: form.email || null,
+      phone: form.phone || null,
+      taxId: taxId || null,
+    };
+
+    records.push({
+      rows: rows.map((row) => row.row),
+      key: taxId || name,
+      action: match ? 'update' : 'create',
+      errors,
+      write: async (executor) => {
+        const partnerId = match?.id ?? crypto.randomUUID();
+        const changes = [
+          match
+            ? await store.updatePartner(executor, tenantId, partnerId, presentFields(values, sheet.headers))
+            : await store.insertPartner(executor, tenantId, partnerId, values),
+        ];
+
+        for (const location of locations) {
+          changes.push(location.id
+            ? await store.updateLocation(
+              executor,
+              tenantId,
+              location.id,
+              presentFields(location.values, sheet.headers, LOCATION_COLUMNS)
+            )
+            : await store.insertLocation(executor, tenantId, partnerId, location.values));
+        }
+        return changes;
+      },
+    });
+  }
+
+  return records;
+}
+
+const supplierDefinition: EntityDefinition = {
+  name: 'suppliers',
+  columns: PARTNER_COLUMNS,
+  requiredColumns: ['name'],
+  exportRows: (tenantId) => supplierStore.exportRows(tenantId),
+  prepare: (tenantId, sheet) => preparePartners(supplierStore, tenantId, sheet),
+};
+
+const customerDefinition: EntityDefinition = {
+  name: 'customers',
+  columns: PARTNER_COLUMNS,
+  requiredColumns: ['name'],
+  exportRows: (tenantId) => customerStore.exportRows(tenantId),
+  prepare: (tenantId, sheet) => preparePartners(customerStore, tenantId, sheet),
+};
+
+const DEFINITIONS: Record<ImportExportEntity, EntityDefinition> = {
+  'product-types': productTypeDefinition,
+  'package-types': packageTypeDefinition,
+  products: productDefinition,
+  suppliers: supplierDefinition,
+  customers: customerDefinition,
+};
+
+// ==================== Export and import ====================
+
+export function isImportExportEntity(value: string): value is ImportExportEntity {
+  return (IMPORT_EXPORT_ENTITIES as readonly string[]).includes(value);
+}
+
+/**
+ * Write all records of an entity in the column layout the import reads
+ */
+export async function exportEntity(
+  tenantId: string,
+  entity: ImportExportEntity,
+  format: FileFormat
+): Promise<{ filename: string; contentType: string; data: Buffer }> {
+  const definition = DEFINITIONS[entity];
+  const rows = await definition.exportRows(tenantId);
+  const filename = `${definition.name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (format === 'csv') {
+    const data = await writeToBuffer(
+      rows.map((row) => Object.fromEntries(definition.columns.map((column) => [column, row[column] ?? '']))),
+      { headers: definition.columns }
+    );
+    return { filename, contentType: CONTENT_TYPES.csv, data };
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(definition.name);
+  worksheet.columns = definition.columns.map((column) => ({ header: column, key: column, width: 20 }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.addRows(rows);
+
+  const data = Buffer.from(await workbook.xlsx.writeBuffer());
+  return { filename, contentType: CONTENT_TYPES.xlsx, data };
+}
+
+/**
+ * Validate an uploaded CSV or XLSX file and, unless it is a dry run, upsert its records by natural key: name for
+ * product and package types, SKU for products and tax ID or name for suppliers and customers. The import is all or
+ * nothing, so nothing is written while any row has an error; the report lists the outcome of every row and
+ * `changes` the records written, for the audit trail.
+ */
+export async function importEntity(
+  tenantId: string,
+  entity: ImportExportEntity,
+  file: { name: string; data: Buffer },
+  dryRun: boolean
+): Promise<{ report: ImportReport; changes: AuditedChange[] }> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension !== 'csv' && extension !== 'xlsx') {
+    throw new ImportExportError('Only .csv and .xlsx files can be imported');
+  }
+
+  const definition = DEFINITIONS[entity];
+  const sheet = await readSheet(definition, extension, file.data);
+  const records = await definition.prepare(tenantId, sheet);
+
+  const valid = records.filter((record) => record.errors.length === 0);
+  const report: ImportReport = {
+    entity,
+    dryRun,
+    totalRows: sheet.rows.length,
+    created: valid.filter((record) => record.action === 'create').length,
+    updated: valid.filter((record) => record.action === 'update').length,
+    failed: records.length - valid.length,
+    rows: records
+      .flatMap((record) => record.rows.map((row) => ({
+        row,
+        key: record.key,
+        action: record.errors.length > 0 ? 'error' as const : record.action,
+        errors: record.errors.filter((error) => error.row === row).map((error) => error.message),
+      })))
+      .sort((a, b) => a.row - b.row),
+  };
+
+  const changes: AuditedChange[] = [];
+  if (!dryRun && report.failed === 0) {
+    await db.transaction(async (tx) => {
+      for (const record of records) {
+        changes.push(...await record.write(tx));
+      }
+    });
+  }
+
+  return { report, changes };
+}
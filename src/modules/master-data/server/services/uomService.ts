@@ -0,0 +1,78 @@
+import { db } from '@server/lib/db';
+import { productUoms, products } from '../lib/db/schemas/masterData';
+import { and, eq, inArray } from 'drizzle-orm';
+
+export class UomConversionError extends Error {}
+
+export interface ProductUomInfo {
+  productId: string;
+  sku: string;
+  baseUom: string;
+  // Active alternate units, largest first
+  uoms: { uom: string; conversionFactor: number }[];
+}
+
+/**
+ * Load the base unit and active alternate units of each product
+ */
+export async function getProductUoms(tenantId: string, productIds: string[]): Promise<Map<string, ProductUomInfo>> {
+  const result = new Map<string, ProductUomInfo>();
+  if (productIds.length === 0) return result;
+
+  const productRecords = await db
+    .select({ id: products.id, sku: products.sku, baseUom: products.baseUom })
+    .from(products)
+    .where(and(eq(products.tenantId, tenantId), inArray(products.id, productIds)));
+
+  for (const product of productRecords) {
+    result.set(product.id, { productId: product.id, sku: product.sku, baseUom: product.baseUom, uoms: [] });
+  }
+
+  const alternates = await db
+    .select({ productId: productUoms.productId, uom: productUoms.uom, conversionFactor: productUoms.conversionFactor })
+    .from(productUoms)
+    .where(and(
+      eq(productUoms.tenantId, tenantId),
+      eq(productUoms.isActive, true),
+      inArray(productUoms.productId, productIds)
+    ));
+
+  for (const alternate of alternates) {
+    result.get(alternate.productId)?.uoms.push({ uom: alternate.uom, conversionFactor: alternate.conversionFactor });
+  }
+  for (const info of result.values()) {
+    info.uoms.sort((a, b) => b.conversionFactor - a.conversionFactor);
+  }
+
+  return result;
+}
+
+/**
+ * Convert a quantity entered in a unit of the product to base units. No unit, or the base unit, leaves
+ * the quantity as is. Throws UomConversionError for an unknown unit or a result that is not a whole number.
+ */
+export function toBaseQuantity(
+  info: ProductUomInfo,
+  quantity: number,
+  uom?: string | null
+): { baseQuantity: number; conversionFactor: number } {
+  let conversionFactor = 1;
+
+  if (uom && uom !== info.baseUom) {
+    const alternate = info.uoms.find((candidate) => candidate.uom === uom);
+    if (!alternate) {
+      throw new UomConversionError(`${uom} is not a unit of measure of ${info.sku}`);
+    }
+    conversionFactor = alternate.conversionFactor;
+  }
+
+  // Round away floating point noise from fractional alternate quantities (e.g. 0.5 CASE)
+  const baseQuantity = Math.round(quantity * conversionFactor * 1e6) / 1e6;
+  if (!Number.isInteger(baseQuantity)) {
+    throw new UomConversionError(
+      `${quantity} ${uom || info.baseUom} of ${info.sku} is not a whole number of ${info.baseUom}`
+    );
+  }
+
+  return { baseQuantity, conversionFactor };
+}
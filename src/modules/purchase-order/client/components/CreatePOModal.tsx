@@ -24,9 +24,12 @@ import {
   TableRow,
 } from '@client/components/ui/table';
 import { RadioGroup, RadioGroupItem } from '@client/components/ui/radio-group';
+import { Switch } from '@client/components/ui/switch';
 import { Search, AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
 import axios from 'axios';
 import { toast } from 'sonner';
+import { addDays, format } from 'date-fns';
+import { getConversionFactor } from '@client/lib/uom';
 
 interface CreatePOModalProps {
   open: boolean;
@@ -56,6 +59,8 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
   const [totalPages, setTotalPages] = useState(1);
   const [selectedItems, setSelectedItems] = useState<Map<string, any>>(new Map());
   const [expectedDeliveryDate, setExpectedDeliveryDate] = useState('');
+  const [deliveryDateTouched, setDeliveryDateTouched] = useState(false);
+  const [catalogOnly, setCatalogOnly] = useState(true);
   const [notes, setNotes] = useState('');
 
   useEffect(() => {
@@ -74,16 +79,30 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
 
   useEffect(() => {
     fetchProducts();
-  }, [currentPage, searchTerm]);
+  }, [currentPage, searchTerm, selectedSupplier, catalogOnly]);
 
-  // Prepopulate form when editing
+  // Expected date follows the longest supplier lead time of the selected items until set by hand
   useEffect(() => {
-    if (open && initialData && editMode) {
+    if (deliveryDateTouched) return;
+
+    const leadTimes = Array.from(selectedItems.values())
+      .map(item => item.leadTimeDays)
+      .filter((days): days is number => typeof days === 'number');
+
+    if (leadTimes.length > 0) {
+      setExpectedDeliveryDate(format(addDays(new Date(), Math.max(...leadTimes)), 'yyyy-MM-dd'));
+    }
+  }, [selectedItems, deliveryDateTouched]);
+
+  // Prepopulate form when editing or drafting from a replenishment proposal
+  useEffect(() => {
+    if (open && initialData) {
       setSelectedSupplier(initialData.supplierId || '');
       setDeliveryMethod(initialData.deliveryMethod || 'delivery');
       setSelectedSupplierLocation(initialData.supplierLocationId || '');
       setSelectedWarehouse(initialData.warehouseId || '');
       setExpectedDeliveryDate(initialData.expectedDeliveryDate || '');
+      setDeliveryDateTouched(!!initialData.expectedDeliveryDate);
       setNotes(initialData.notes || '');
 
       // Prepopulate selected items
@@ -96,17 +115,21 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
             name: item.name || '',
             orderedQuantity: item.orderedQuantity,
             unitCost: item.unitCost,
+            uom: item.uom || null,
+            baseUom: item.baseUom,
+            uoms: item.uoms || [],
           });
         });
         setSelectedItems(itemsMap);
       }
-    } else if (open && !editMode) {
+    } else if (open) {
       // Reset form for new PO
       setSelectedSupplier('');
       setDeliveryMethod('delivery');
       setSelectedSupplierLocation('');
       setSelectedWarehouse('');
       setExpectedDeliveryDate('');
+      setDeliveryDateTouched(false);
       setNotes('');
       setSelectedItems(new Map());
     }
@@ -154,6 +177,8 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
           page: currentPage,
           limit: 20,
           search: searchTerm || undefined,
+          supplierId: selectedSupplier || undefined,
+          catalogOnly: selectedSupplier && catalogOnly ? 'true' : undefined,
         },
       });
       setProducts(response.data.data || []);
@@ -176,7 +201,14 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
         sku: product.sku,
         name: product.name,
         orderedQuantity: qty,
-        unitCost: currentItem.unitCost || 0,
+        // Prefill from the supplier catalog: contract price while valid, else last purchase price
+        unitCost: currentItem.unitCost || parseFloat(product.suggestedUnitCost) || 0,
+        uom: currentItem.uom || null,
+        baseUom: product.baseUom,
+        uoms: product.uoms || [],
+        packSize: product.packSize,
+        minimumOrderQuantity: product.minimumOrderQuantity,
+        leadTimeDays: product.leadTimeDays,
       })));
     } else {
       const newItems = new Map(selectedItems);
@@ -199,6 +231,21 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
     }
   };
 
+  // Switching unit keeps the quantity as entered and rescales the unit price to the new unit
+  const handleUomChange = (productId: string, uom: string) => {
+    const currentItem = selectedItems.get(productId);
+    if (!currentItem) return;
+
+    const newUom = uom === currentItem.baseUom ? null : uom;
+    const oldFactor = getConversionFactor(currentItem.uom, currentItem.uoms);
+    const newFactor = getConversionFactor(newUom, currentItem.uoms);
+    setSelectedItems(new Map(selectedItems.set(productId, {
+      ...currentItem,
+      uom: newUom,
+      unitCost: Math.round((currentItem.unitCost || 0) / oldFactor * newFactor * 100) / 100,
+    })));
+  };
+
   const calculateTotal = () => {
     let total = 0;
     selectedItems.forEach(item => {
@@ -238,6 +285,25 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
       return;
     }
 
+    // Catalog pack size and minimum order quantity are in base units
+    const baseQuantity = (item: any) => item.orderedQuantity * getConversionFactor(item.uom, item.uoms);
+
+    const belowMinimum = Array.from(selectedItems.values()).find(
+      item => item.minimumOrderQuantity && baseQuantity(item) < item.minimumOrderQuantity
+    );
+    if (belowMinimum) {
+      toast.error(`${belowMinimum.sku}: minimum order quantity is ${belowMinimum.minimumOrderQuantity}`);
+      return;
+    }
+
+    const partialPack = Array.from(selectedItems.values()).find(
+      item => item.packSize > 1 && baseQuantity(item) % item.packSize !== 0
+    );
+    if (partialPack) {
+      toast.error(`${partialPack.sku}: order in multiples of the pack size (${partialPack.packSize})`);
+      return;
+    }
+
     const poData = {
       supplierId: selectedSupplier,
       deliveryMethod,
@@ -247,6 +313,7 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
       notes: notes || undefined,
       items: Array.from(selectedItems.values()),
       ...(editMode && initialData?.editId ? { editMode: true, editId: initialData.editId } : {}),
+      ...(!editMode && initialData?.replenishmentLineIds ? { replenishmentLineIds: initialData.replenishmentLineIds } : {}),
     };
 
     onProceedToConfirm(poData);
@@ -272,7 +339,13 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
               <Label htmlFor="supplier">
                 Supplier <span className="text-destructive">*</span>
               </Label>
-              <Select value={selectedSupplier} onValueChange={setSelectedSupplier}>
+              <Select
+                value={selectedSupplier}
+                onValueChange={(value) => {
+                  setSelectedSupplier(value);
+                  setCurrentPage(1);
+                }}
+              >
                 <SelectTrigger>
                   <SelectValue placeholder="Select supplier" />
                 </SelectTrigger>
@@ -362,7 +435,10 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
                 id="deliveryDate"
                 type="date"
                 value={expectedDeliveryDate}
-                onChange={(e) => setExpectedDeliveryDate(e.target.value)}
+                onChange={(e) => {
+                  setExpectedDeliveryDate(e.target.value);
+                  setDeliveryDateTouched(true);
+                }}
               />
             </div>
 
@@ -380,7 +456,22 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <h3 className="text-lg font-semibold">Items to Purchase</h3>
-              <div className="flex items-center gap-2">
+              <div className="flex items-center gap-4">
+                {selectedSupplier && (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="catalogOnly"
+                      checked={catalogOnly}
+                      onCheckedChange={(checked) => {
+                        setCatalogOnly(checked);
+                        setCurrentPage(1);
+                      }}
+                    />
+                    <Label htmlFor="catalogOnly" className="font-normal cursor-pointer">
+                      Supplier catalog only
+                    </Label>
+                  </div>
+                )}
                 <div className="relative">
                   <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
@@ -399,6 +490,7 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
                 <TableHeader>
                   <TableRow>
                     <TableHead>SKU</TableHead>
+                    <TableHead>Supplier SKU</TableHead>
                     <TableHead>Name</TableHead>
                     <TableHead className="text-right">Available Stock</TableHead>
                     <TableHead className="text-right">Quantity</TableHead>
@@ -407,6 +499,15 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
                   </TableRow>
                 </TableHeader>
                 <TableBody>
+                  {products.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                        {selectedSupplier && catalogOnly
+                          ? 'No products in this supplier\'s catalog'
+                          : 'No products found'}
+                      </TableCell>
+                    </TableRow>
+                  )}
                   {products.map((product) => {
                     const item = selectedItems.get(product.productId);
                     const isLowStock = product.minimumStockLevel && 
@@ -415,6 +516,7 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
                     return (
                       <TableRow key={product.productId}>
                         <TableCell className="font-medium">{product.sku}</TableCell>
+                        <TableCell className="font-mono text-sm">{product.supplierSku || '-'}</TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
                             {product.name}
@@ -422,18 +524,51 @@ export const CreatePOModal: React.FC<CreatePOModalProps> = ({
                               <AlertTriangle className="h-4 w-4 text-yellow-500" />
                             )}
                           </div>
+                          {product.inCatalog && (
+                            <div className="text-xs text-muted-foreground">
+                              Pack {product.packSize}
+                              {product.minimumOrderQuantity ? ` · MOQ ${product.minimumOrderQuantity}` : ''}
+                              {product.leadTimeDays !== null ? ` · ${product.leadTimeDays} day(s) lead time` : ''}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="text-right">
                           {product.totalAvailableStock}
                         </TableCell>
                         <TableCell className="text-right">
-                          <Input
-                            type="number"
-                            min="0"
-                            className="w-20 text-right"
-                            value={item?.orderedQuantity || ''}
-                            onChange={(e) => handleQuantityChange(product.productId, e.target.value)}
-                          />
+                          <div className="flex justify-end gap-1">
+                            <Input
+                              type="number"
+                              min="0"
+                              step={item?.uom ? 1 : product.packSize || 1}
+                              className="w-20 text-right"
+                              value={item?.orderedQuantity || ''}
+                              onChange={(e) => handleQuantityChange(product.productId, e.target.value)}
+                            />
+                            {product.uoms?.length > 0 ? (
+                              <Select
+                                value={item?.uom || product.baseUom}
+                                onValueChange={(value) => handleUomChange(product.productId, value)}
+                                disabled={!item?.orderedQuantity}
+                              >
+                                <SelectTrigger className="w-24">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={product.baseUom}>{product.baseUom}</SelectItem>
+                                  {product.uoms.map((unit: any) => (
+                                    <SelectItem key={unit.uom} value={unit.uom}>
+                                      {unit.uom} ({unit.conversionFactor})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <span className="w-24 self-center text-left text-sm text-muted-foreground">
+                                {product.baseUom}
+                              </span>
+                            )}
+                          </div>
                         </TableCell>
                         <TableCell className="text-right">
                           <Input
@@ -20,21 +20,28 @@ export const purchaseOrderSidebarMenus = {
         title: "Approve Purchase Order",
         url: "/console/modules/purchase-order/approve",
         roles: "ADMIN",
-        permissions: "purchase-order.edit",
+        permissions: "purchase-order.approve",
       },
       {
         id: "purchase-order-receive",
         title: "Receive",
         url: "/console/modules/purchase-order/receive",
         roles: "ADMIN",
-        permissions: "purchase-order.edit",
+        permissions: "purchase-order.receive",
       },
       {
         id: "purchase-order-putaway",
         title: "Putaway",
         url: "/console/modules/purchase-order/putaway",
         roles: "ADMIN",
-        permissions: "purchase-order.edit",
+        permissions: "purchase-order.putaway",
+      },
+      {
+        id: "purchase-order-replenishment",
+        title: "Replenishment",
+        url: "/console/modules/purchase-order/replenishment",
+        roles: "ADMIN",
+        permissions: "purchase-order.replenish",
       },
     ],
   };
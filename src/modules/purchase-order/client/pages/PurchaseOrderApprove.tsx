@@ -0,0 +1,256 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@client/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Check, Eye, X } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import { Label } from '@client/components/ui/label';
+import { Textarea } from '@client/components/ui/textarea';
+import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
+import { POPrintView } from '../components/POPrintView';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+type DecisionAction = 'approve' | 'reject';
+
+const PurchaseOrderApprove: React.FC = () => {
+  const [pendingPOs, setPendingPOs] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isPrintViewOpen, setIsPrintViewOpen] = useState(false);
+  const [selectedPO, setSelectedPO] = useState<any>(null);
+  const [decisionPO, setDecisionPO] = useState<any>(null);
+  const [decisionAction, setDecisionAction] = useState<DecisionAction>('approve');
+  const [decisionText, setDecisionText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchPendingPOs();
+  }, []);
+
+  const fetchPendingPOs = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/modules/purchase-order/orders', {
+        params: {
+          status: 'pending',
+          page: 1,
+          limit: 100,
+        },
+      });
+      setPendingPOs(response.data.data || []);
+    } catch (error: any) {
+      console.error('Error fetching pending POs:', error);
+      toast.error('Failed to fetch purchase orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const viewPODetails = async (poId: string) => {
+    try {
+      const response = await axios.get(`/api/modules/purchase-order/orders/${poId}`);
+      if (response.data.success) {
+        setSelectedPO(response.data.data);
+        setIsPrintViewOpen(true);
+      }
+    } catch (error) {
+      toast.error('Failed to fetch PO details');
+    }
+  };
+
+  const openDecision = (po: any, action: DecisionAction) => {
+    setDecisionPO(po);
+    setDecisionAction(action);
+    setDecisionText('');
+  };
+
+  const closeDecision = () => {
+    setDecisionPO(null);
+    setDecisionText('');
+  };
+
+  const handleSubmitDecision = async () => {
+    if (!decisionPO) return;
+
+    if (decisionAction === 'reject' && !decisionText.trim()) {
+      toast.error('Please enter a rejection reason');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const payload = decisionAction === 'approve'
+        ? { notes: decisionText.trim() || undefined }
+        : { reason: decisionText.trim() };
+
+      await axios.post(`/api/modules/purchase-order/orders/${decisionPO.id}/${decisionAction}`, payload);
+      toast.success(
+        `Purchase Order ${decisionPO.orderNumber} ${decisionAction === 'approve' ? 'approved' : 'rejected'}`
+      );
+      closeDecision();
+      fetchPendingPOs();
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || `Failed to ${decisionAction} purchase order`;
+      toast.error(errorMessage);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Approve Purchase Order</h1>
+        <p className="text-muted-foreground">
+          Review purchase orders awaiting approval
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending Approval</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO Number</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Order Date</TableHead>
+                  <TableHead>Total Amount</TableHead>
+                  <TableHead>Created By</TableHead>
+                  <TableHead className="w-[140px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pendingPOs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8">
+                      No purchase orders awaiting approval.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  pendingPOs.map((po) => (
+                    <TableRow key={po.id}>
+                      <TableCell className="font-medium">{po.orderNumber}</TableCell>
+                      <TableCell>{po.supplierName}</TableCell>
+                      <TableCell>{po.warehouseName}</TableCell>
+                      <TableCell>{new Date(po.orderDate).toLocaleDateString()}</TableCell>
+                      <TableCell>${parseFloat(po.totalAmount || 0).toFixed(2)}</TableCell>
+                      <TableCell>{po.createdByName || '-'}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => viewPODetails(po.id)}
+                            title="View PO"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openDecision(po, 'approve')}
+                            title="Approve PO"
+                            className="text-green-600 hover:text-green-700"
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openDecision(po, 'reject')}
+                            title="Reject PO"
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <POPrintView
+        open={isPrintViewOpen}
+        onOpenChange={setIsPrintViewOpen}
+        poData={selectedPO}
+        onClose={() => {
+          setIsPrintViewOpen(false);
+          setSelectedPO(null);
+        }}
+      />
+
+      <Dialog open={!!decisionPO} onOpenChange={(open) => !open && closeDecision()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decisionAction === 'approve' ? 'Approve' : 'Reject'} Purchase Order
+            </DialogTitle>
+            <DialogDescription>
+              {decisionAction === 'approve'
+                ? 'Approved purchase orders are locked and move on to receiving.'
+                : 'Rejected purchase orders return to the creator for editing and resubmission.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="decision-text">
+              {decisionAction === 'approve' ? 'Notes (optional)' : 'Rejection Reason'}
+            </Label>
+            <Textarea
+              id="decision-text"
+              value={decisionText}
+              onChange={(e) => setDecisionText(e.target.value)}
+              placeholder={
+                decisionAction === 'approve'
+                  ? `Comment on ${decisionPO?.orderNumber || 'this PO'}`
+                  : 'Explain why this purchase order is rejected'
+              }
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDecision} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmitDecision}
+              disabled={submitting}
+              variant={decisionAction === 'approve' ? 'default' : 'destructive'}
+            >
+              {submitting ? 'Saving...' : decisionAction === 'approve' ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default withModuleAuthorization(PurchaseOrderApprove, {
+  moduleId: 'purchase-order',
+  moduleName: 'Purchase Order'
+});
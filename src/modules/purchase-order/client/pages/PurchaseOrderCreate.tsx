@@ -46,14 +46,22 @@ const PurchaseOrderCreate: React.FC = () => {
   const fetchUnapprovedPOs = async () => {
     try {
       setLoading(true);
-      const response = await axios.get('/api/modules/purchase-order/orders', {
-        params: {
-          status: 'pending',
-          page: 1,
-          limit: 100,
-        },
-      });
-      setUnapprovedPOs(response.data.data || []);
+      // Rejected POs are listed alongside pending ones so they can be edited and resubmitted
+      const [pendingResponse, rejectedResponse] = await Promise.all(
+        ['pending', 'rejected'].map((status) =>
+          axios.get('/api/modules/purchase-order/orders', {
+            params: {
+              status,
+              page: 1,
+              limit: 100,
+            },
+          })
+        )
+      );
+      setUnapprovedPOs([
+        ...(rejectedResponse.data.data || []),
+        ...(pendingResponse.data.data || []),
+      ]);
     } catch (error: any) {
       console.error('Error fetching unapproved POs:', error);
       toast.error('Failed to fetch purchase orders');
@@ -125,8 +133,14 @@ const PurchaseOrderCreate: React.FC = () => {
             productId: item.productId,
             sku: item.productSku, // Include SKU for display
             name: item.productName, // Include name for display
-            orderedQuantity: item.orderedQuantity,
-            unitCost: parseFloat(item.unitCost || 0), // Parse to number
+            // Lines are stored in base units; edit them in the unit they were ordered in
+            orderedQuantity: item.orderedQuantity / item.uomConversionFactor,
+            unitCost: item.uomConversionFactor > 1
+              ? Math.round(parseFloat(item.totalCost || 0) / (item.orderedQuantity / item.uomConversionFactor) * 100) / 100
+              : parseFloat(item.unitCost || 0), // Parse to number
+            uom: item.uom,
+            baseUom: item.baseUom,
+            uoms: item.uoms,
             expectedExpiryDate: item.expectedExpiryDate,
             notes: item.notes,
           })),
@@ -206,7 +220,7 @@ const PurchaseOrderCreate: React.FC = () => {
 
       <Card>
         <CardHeader>
-          <CardTitle>Unapproved Purchase Orders</CardTitle>
+          <CardTitle>Unapproved &amp; Rejected Purchase Orders</CardTitle>
         </CardHeader>
         <CardContent>
           {loading ? (
@@ -227,7 +241,7 @@ const PurchaseOrderCreate: React.FC = () => {
                 {unapprovedPOs.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={6} className="text-center py-8">
-                      No unapproved purchase orders found.
+                      No unapproved or rejected purchase orders found.
                     </TableCell>
                   </TableRow>
                 ) : (
@@ -238,9 +252,22 @@ const PurchaseOrderCreate: React.FC = () => {
                       <TableCell>{new Date(po.orderDate).toLocaleDateString()}</TableCell>
                       <TableCell>${parseFloat(po.totalAmount || 0).toFixed(2)}</TableCell>
                       <TableCell>
-                        <span className="inline-flex items-center rounded-md bg-yellow-50 px-2 py-1 text-xs font-medium text-yellow-800 ring-1 ring-inset ring-yellow-600/20">
-                          Pending Approval
-                        </span>
+                        {po.status === 'rejected' ? (
+                          <div className="flex flex-col gap-1">
+                            <span className="inline-flex w-fit items-center rounded-md bg-red-50 px-2 py-1 text-xs font-medium text-red-800 ring-1 ring-inset ring-red-600/20">
+                              Rejected
+                            </span>
+                            {po.rejectionReason && (
+                              <span className="text-xs text-muted-foreground line-clamp-2">
+                                {po.rejectionReason}
+                              </span>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="inline-flex items-center rounded-md bg-yellow-50 px-2 py-1 text-xs font-medium text-yellow-800 ring-1 ring-inset ring-yellow-600/20">
+                            Pending Approval
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-2">
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@client/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Badge } from '@client/components/ui/badge';
+import { ArrowRightLeft } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@client/components/ui/select';
+import { Label } from '@client/components/ui/label';
+import { Textarea } from '@client/components/ui/textarea';
+import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+const PurchaseOrderPutaway: React.FC = () => {
+  const [tasks, setTasks] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedTask, setSelectedTask] = useState<any>(null);
+  const [suggestions, setSuggestions] = useState<any[]>([]);
+  const [destinationBinId, setDestinationBinId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchTasks();
+  }, []);
+
+  const fetchTasks = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/modules/purchase-order/putaway-tasks', {
+        params: {
+          status: 'pending',
+          page: 1,
+          limit: 100,
+        },
+      });
+      setTasks(response.data.data || []);
+    } catch (error: any) {
+      console.error('Error fetching putaway tasks:', error);
+      toast.error('Failed to fetch putaway tasks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openConfirm = async (task: any) => {
+    try {
+      const response = await axios.get(`/api/modules/purchase-order/putaway-tasks/${task.id}/suggestions`);
+      setSuggestions(response.data.data || []);
+      setDestinationBinId(task.suggestedBinId || '');
+      setNotes('');
+      setSelectedTask(task);
+    } catch (error) {
+      toast.error('Failed to load bin suggestions');
+    }
+  };
+
+  const closeConfirm = () => {
+    setSelectedTask(null);
+    setSuggestions([]);
+    setDestinationBinId('');
+    setNotes('');
+  };
+
+  const handleConfirm = async () => {
+    if (!selectedTask) return;
+
+    if (!destinationBinId) {
+      toast.error('Select a destination bin');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await axios.post(`/api/modules/purchase-order/putaway-tasks/${selectedTask.id}/confirm`, {
+        binId: destinationBinId,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(`${selectedTask.productSku} put away`);
+      (response.data.warnings || []).forEach((warning: string) => toast.warning(warning));
+      closeConfirm();
+      fetchTasks();
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to confirm putaway';
+      toast.error(errorMessage);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const selectedSuggestion = suggestions.find((suggestion) => suggestion.binId === destinationBinId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Putaway</h1>
+        <p className="text-muted-foreground">
+          Move received goods from staging to their storage bins
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pending Putaway</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead>PO Number</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead>Staging Bin</TableHead>
+                  <TableHead>Suggested Bin</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tasks.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8">
+                      No goods awaiting putaway.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  tasks.map((task) => (
+                    <TableRow key={task.id}>
+                      <TableCell className="font-medium">{task.receiptNumber}</TableCell>
+                      <TableCell>{task.orderNumber}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{task.productSku}</div>
+                        <div className="text-sm text-muted-foreground">{task.productName}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{task.quantity}</TableCell>
+                      <TableCell>{task.fromBinName}</TableCell>
+                      <TableCell>
+                        {task.suggestedBinName || <Badge variant="outline">Manual</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openConfirm(task)}
+                          title="Put Away"
+                        >
+                          <ArrowRightLeft className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedTask} onOpenChange={(open) => !open && closeConfirm()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Put Away {selectedTask?.productSku}</DialogTitle>
+            <DialogDescription>
+              Move {selectedTask?.quantity} unit(s) from {selectedTask?.fromBinName}. Choose another bin to override the suggestion.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Destination Bin</Label>
+              <Select value={destinationBinId} onValueChange={setDestinationBinId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select bin" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suggestions.map((suggestion) => (
+                    <SelectItem key={suggestion.binId} value={suggestion.binId}>
+                      {suggestion.zoneName} / {suggestion.binName}
+                      {suggestion.binId === selectedTask?.suggestedBinId ? ' (suggested)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedSuggestion && selectedSuggestion.reasons.length > 0 && (
+                <p className="text-sm text-muted-foreground">{selectedSuggestion.reasons.join(' · ')}</p>
+              )}
+              {suggestions.length === 0 && (
+                <p className="text-sm text-destructive">No bin in this warehouse can take this stock.</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="putaway-notes">Notes (optional)</Label>
+              <Textarea
+                id="putaway-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Reason for overriding the suggestion..."
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeConfirm} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={submitting || !destinationBinId}>
+              {submitting ? 'Saving...' : 'Confirm Putaway'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default withModuleAuthorization(PurchaseOrderPutaway, {
+  moduleId: 'purchase-order',
+  moduleName: 'Purchase Order'
+});
@@ -0,0 +1,396 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@client/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Eye, PackageCheck } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@client/components/ui/select';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Textarea } from '@client/components/ui/textarea';
+import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
+import { POPrintView } from '../components/POPrintView';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { formatUomBreakdown, getConversionFactor, ProductUnit } from '@client/lib/uom';
+
+interface ReceiptLine {
+  purchaseOrderItemId: string;
+  productSku: string;
+  productName: string;
+  orderedQuantity: number;
+  receivedQuantity: number;
+  baseUom: string;
+  uoms: ProductUnit[];
+  uom: string;
+  quantity: string;
+  binId: string;
+  batchNumber: string;
+  lotNumber: string;
+  expiryDate: string;
+}
+
+const PurchaseOrderReceive: React.FC = () => {
+  const [approvedPOs, setApprovedPOs] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isPrintViewOpen, setIsPrintViewOpen] = useState(false);
+  const [selectedPO, setSelectedPO] = useState<any>(null);
+  const [receivingPO, setReceivingPO] = useState<any>(null);
+  const [receiptLines, setReceiptLines] = useState<ReceiptLine[]>([]);
+  const [receivingBins, setReceivingBins] = useState<any[]>([]);
+  const [receiptNotes, setReceiptNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchApprovedPOs();
+  }, []);
+
+  const fetchApprovedPOs = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/modules/purchase-order/orders', {
+        params: {
+          status: 'approved',
+          page: 1,
+          limit: 100,
+        },
+      });
+      setApprovedPOs((response.data.data || []).filter((po: any) => po.workflowState === 'receive'));
+    } catch (error: any) {
+      console.error('Error fetching approved POs:', error);
+      toast.error('Failed to fetch purchase orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const viewPODetails = async (poId: string) => {
+    try {
+      const response = await axios.get(`/api/modules/purchase-order/orders/${poId}`);
+      if (response.data.success) {
+        setSelectedPO(response.data.data);
+        setIsPrintViewOpen(true);
+      }
+    } catch (error) {
+      toast.error('Failed to fetch PO details');
+    }
+  };
+
+  const openReceive = async (poId: string) => {
+    try {
+      const [poResponse, binsResponse] = await Promise.all([
+        axios.get(`/api/modules/purchase-order/orders/${poId}`),
+        axios.get(`/api/modules/purchase-order/orders/${poId}/receiving-bins`),
+      ]);
+
+      const po = poResponse.data.data;
+      setReceivingBins(binsResponse.data.data || []);
+      setReceiptLines(
+        (po.items || []).map((item: any) => ({
+          purchaseOrderItemId: item.id,
+          productSku: item.productSku || '',
+          productName: item.productName || '',
+          orderedQuantity: item.orderedQuantity,
+          receivedQuantity: item.receivedQuantity || 0,
+          baseUom: item.baseUom,
+          uoms: item.uoms || [],
+          uom: item.baseUom,
+          quantity: String(Math.max(item.orderedQuantity - (item.receivedQuantity || 0), 0)),
+          binId: '',
+          batchNumber: '',
+          lotNumber: '',
+          expiryDate: item.expectedExpiryDate || '',
+        }))
+      );
+      setReceiptNotes('');
+      setReceivingPO(po);
+    } catch (error) {
+      toast.error('Failed to load purchase order for receiving');
+    }
+  };
+
+  const closeReceive = () => {
+    setReceivingPO(null);
+    setReceiptLines([]);
+    setReceiptNotes('');
+  };
+
+  const updateLine = (index: number, field: keyof ReceiptLine, value: string) => {
+    setReceiptLines((lines) =>
+      lines.map((line, i) => (i === index ? { ...line, [field]: value } : line))
+    );
+  };
+
+  // Switching unit converts the quantity entered so far to the new unit
+  const updateLineUom = (index: number, uom: string) => {
+    setReceiptLines((lines) =>
+      lines.map((line, i) => {
+        if (i !== index) return line;
+        const baseQuantity = (parseFloat(line.quantity) || 0) * getConversionFactor(line.uom, line.uoms);
+        return { ...line, uom, quantity: String(baseQuantity / getConversionFactor(uom, line.uoms)) };
+      })
+    );
+  };
+
+  const handleSubmitReceipt = async () => {
+    if (!receivingPO) return;
+
+    const linesToReceive = receiptLines.filter((line) => parseFloat(line.quantity) > 0);
+    if (linesToReceive.length === 0) {
+      toast.error('Enter a quantity for at least one line');
+      return;
+    }
+
+    if (linesToReceive.some((line) => !line.binId)) {
+      toast.error('Select a staging bin for every line being received');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await axios.post(`/api/modules/purchase-order/orders/${receivingPO.id}/receipts`, {
+        notes: receiptNotes.trim() || undefined,
+        items: linesToReceive.map((line) => ({
+          purchaseOrderItemId: line.purchaseOrderItemId,
+          receivedQuantity: parseFloat(line.quantity),
+          uom: line.uom,
+          binId: line.binId,
+          batchNumber: line.batchNumber.trim() || undefined,
+          lotNumber: line.lotNumber.trim() || undefined,
+          expiryDate: line.expiryDate || undefined,
+        })),
+      });
+      toast.success(`Goods receipt ${response.data.data.receiptNumber} posted for ${receivingPO.orderNumber}`);
+      closeReceive();
+      fetchApprovedPOs();
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Failed to post goods receipt';
+      toast.error(errorMessage);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Receive</h1>
+        <p className="text-muted-foreground">
+          Receive goods against approved purchase orders
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Awaiting Receipt</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO Number</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Order Date</TableHead>
+                  <TableHead>Expected Delivery</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {approvedPOs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      No purchase orders awaiting receipt.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  approvedPOs.map((po) => (
+                    <TableRow key={po.id}>
+                      <TableCell className="font-medium">{po.orderNumber}</TableCell>
+                      <TableCell>{po.supplierName}</TableCell>
+                      <TableCell>{po.warehouseName}</TableCell>
+                      <TableCell>{new Date(po.orderDate).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {po.expectedDeliveryDate ? new Date(po.expectedDeliveryDate).toLocaleDateString() : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => viewPODetails(po.id)}
+                            title="View PO"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openReceive(po.id)}
+                            title="Receive Goods"
+                          >
+                            <PackageCheck className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <POPrintView
+        open={isPrintViewOpen}
+        onOpenChange={setIsPrintViewOpen}
+        poData={selectedPO}
+        onClose={() => {
+          setIsPrintViewOpen(false);
+          setSelectedPO(null);
+        }}
+      />
+
+      <Dialog open={!!receivingPO} onOpenChange={(open) => !open && closeReceive()}>
+        <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Receive {receivingPO?.orderNumber}</DialogTitle>
+            <DialogDescription>
+              Received goods are placed in the selected staging bins until they are put away.
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="w-[200px]">Quantity</TableHead>
+                <TableHead className="w-[180px]">Staging Bin</TableHead>
+                <TableHead>Batch</TableHead>
+                <TableHead>Lot</TableHead>
+                <TableHead>Expiry</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {receiptLines.map((line, index) => (
+                <TableRow key={line.purchaseOrderItemId}>
+                  <TableCell>
+                    <div className="font-medium">{line.productSku}</div>
+                    <div className="text-sm text-muted-foreground">{line.productName}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{formatUomBreakdown(line.orderedQuantity, line.baseUom, line.uoms)}</TableCell>
+                  <TableCell className="text-right">{formatUomBreakdown(line.receivedQuantity, line.baseUom, line.uoms)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Input
+                        type="number"
+                        min={0}
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, 'quantity', e.target.value)}
+                      />
+                      {line.uoms.length > 0 && (
+                        <Select value={line.uom} onValueChange={(value) => updateLineUom(index, value)}>
+                          <SelectTrigger className="w-24">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={line.baseUom}>{line.baseUom}</SelectItem>
+                            {line.uoms.map((unit) => (
+                              <SelectItem key={unit.uom} value={unit.uom}>
+                                {unit.uom}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Select value={line.binId} onValueChange={(value) => updateLine(index, 'binId', value)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select bin" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {receivingBins.map((bin) => (
+                          <SelectItem key={bin.id} value={bin.id}>
+                            {bin.zoneName} / {bin.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={line.batchNumber}
+                      onChange={(e) => updateLine(index, 'batchNumber', e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={line.lotNumber}
+                      onChange={(e) => updateLine(index, 'lotNumber', e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      value={line.expiryDate}
+                      onChange={(e) => updateLine(index, 'expiryDate', e.target.value)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="space-y-2">
+            <Label htmlFor="receipt-notes">Notes (optional)</Label>
+            <Textarea
+              id="receipt-notes"
+              value={receiptNotes}
+              onChange={(e) => setReceiptNotes(e.target.value)}
+              placeholder="Delivery note number, carrier, discrepancies..."
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeReceive} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmitReceipt} disabled={submitting}>
+              {submitting ? 'Posting...' : 'Post Receipt'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default withModuleAuthorization(PurchaseOrderReceive, {
+  moduleId: 'purchase-order',
+  moduleName: 'Purchase Order'
+});
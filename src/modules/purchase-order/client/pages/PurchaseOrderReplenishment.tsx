@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@client/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Badge } from '@client/components/ui/badge';
+import { FilePlus, RefreshCw, X } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
+import { CreatePOModal } from '../components/CreatePOModal';
+import { POConfirmationModal } from '../components/POConfirmationModal';
+import { POPrintView } from '../components/POPrintView';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+const statusBadge: Record<string, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  open: { label: 'Open', variant: 'default' },
+  ordered: { label: 'Ordered', variant: 'secondary' },
+  dismissed: { label: 'Dismissed', variant: 'outline' },
+  superseded: { label: 'Superseded', variant: 'outline' },
+};
+
+const PurchaseOrderReplenishment: React.FC = () => {
+  const [run, setRun] = useState<any>(null);
+  const [proposals, setProposals] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [draftData, setDraftData] = useState<any>(null);
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
+  const [isPrintViewOpen, setIsPrintViewOpen] = useState(false);
+  const [createdPO, setCreatedPO] = useState<any>(null);
+
+  useEffect(() => {
+    fetchProposals();
+  }, []);
+
+  const fetchProposals = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/modules/purchase-order/replenishment/proposals');
+      setRun(response.data.data.run);
+      setProposals(response.data.data.proposals || []);
+    } catch (error) {
+      console.error('Error fetching replenishment proposals:', error);
+      toast.error('Failed to fetch replenishment proposals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRun = async () => {
+    try {
+      setRunning(true);
+      const response = await axios.post('/api/modules/purchase-order/replenishment/runs');
+      toast.success(`Replenishment proposed ${response.data.data.productCount} product(s) to reorder`);
+      fetchProposals();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to run replenishment');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleDismiss = async (lineIds: string[]) => {
+    try {
+      await axios.post('/api/modules/purchase-order/replenishment/lines/dismiss', { lineIds });
+      toast.success('Proposal line dismissed');
+      fetchProposals();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to dismiss proposal line');
+    }
+  };
+
+  const openDraft = (proposal: any) => {
+    const openLines = proposal.lines.filter((line: any) => line.status === 'open');
+    setDraftData({
+      supplierId: proposal.supplierId || '',
+      deliveryMethod: 'delivery',
+      items: openLines.map((line: any) => ({
+        productId: line.productId,
+        sku: line.sku,
+        name: line.name,
+        orderedQuantity: line.suggestedQuantity,
+        unitCost: parseFloat(line.unitCost || 0),
+      })),
+      replenishmentLineIds: openLines.map((line: any) => line.id),
+    });
+    setIsCreateModalOpen(true);
+  };
+
+  const handleProceedToConfirm = (poData: any) => {
+    setDraftData(poData);
+    setIsCreateModalOpen(false);
+    setIsConfirmModalOpen(true);
+  };
+
+  const handleConfirmPO = async (poData: any) => {
+    try {
+      const response = await axios.post('/api/modules/purchase-order/orders', poData);
+
+      if (response.data.success) {
+        toast.success('Purchase Order created successfully');
+        setCreatedPO(response.data.data);
+        setIsConfirmModalOpen(false);
+        setIsPrintViewOpen(true);
+        fetchProposals();
+      }
+    } catch (error: any) {
+      console.error('Error creating PO:', error);
+      toast.error(error.response?.data?.message || 'Failed to create purchase order');
+      throw error;
+    }
+  };
+
+  const handlePrintViewClose = () => {
+    setIsPrintViewOpen(false);
+    setCreatedPO(null);
+    setDraftData(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Replenishment</h1>
+          <p className="text-muted-foreground">
+            {run
+              ? `Last run ${new Date(run.createdAt).toLocaleString()} (${run.trigger}) proposed ${run.productCount} product(s)`
+              : 'Products at or below their reorder point, drafted into purchase orders by supplier'}
+          </p>
+        </div>
+        <Button onClick={handleRun} disabled={running}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          {running ? 'Running...' : 'Run Now'}
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8">Loading...</div>
+      ) : proposals.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            {run ? 'No products need reordering.' : 'Replenishment has not run yet.'}
+          </CardContent>
+        </Card>
+      ) : (
+        proposals.map((proposal) => {
+          const openCount = proposal.lines.filter((line: any) => line.status === 'open').length;
+
+          return (
+            <Card key={proposal.supplierId ?? 'none'}>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle>{proposal.supplierName || 'No preferred supplier'}</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    {openCount} open line(s) · Estimated ${proposal.estimatedTotal.toFixed(2)}
+                  </p>
+                </div>
+                <Button onClick={() => openDraft(proposal)} disabled={openCount === 0}>
+                  <FilePlus className="mr-2 h-4 w-4" />
+                  Create PO
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Available</TableHead>
+                      <TableHead className="text-right">Reserved</TableHead>
+                      <TableHead className="text-right">On Order</TableHead>
+                      <TableHead className="text-right">Projected</TableHead>
+                      <TableHead className="text-right">Reorder Point</TableHead>
+                      <TableHead className="text-right">Suggested</TableHead>
+                      <TableHead className="text-right">Unit Cost</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-[60px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {proposal.lines.map((line: any) => (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          <div className="font-medium">{line.sku}</div>
+                          <div className="text-sm text-muted-foreground">{line.name}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{line.availableQuantity}</TableCell>
+                        <TableCell className="text-right">{line.reservedQuantity}</TableCell>
+                        <TableCell className="text-right">{line.openPoQuantity}</TableCell>
+                        <TableCell className="text-right">{line.projectedQuantity}</TableCell>
+                        <TableCell className="text-right">{line.reorderPoint}</TableCell>
+                        <TableCell className="text-right font-medium">{line.suggestedQuantity}</TableCell>
+                        <TableCell className="text-right">
+                          {line.unitCost ? `$${parseFloat(line.unitCost).toFixed(2)}` : '-'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={statusBadge[line.status]?.variant || 'outline'}>
+                            {statusBadge[line.status]?.label || line.status}
+                          </Badge>
+                          {line.orderNumber && (
+                            <div className="text-xs text-muted-foreground">{line.orderNumber}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {line.status === 'open' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDismiss([line.id])}
+                              title="Dismiss"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <CreatePOModal
+        open={isCreateModalOpen}
+        onOpenChange={setIsCreateModalOpen}
+        onProceedToConfirm={handleProceedToConfirm}
+        initialData={draftData}
+      />
+
+      <POConfirmationModal
+        open={isConfirmModalOpen}
+        onOpenChange={setIsConfirmModalOpen}
+        poData={draftData}
+        onConfirm={handleConfirmPO}
+        onBack={() => {
+          setIsConfirmModalOpen(false);
+          setIsCreateModalOpen(true);
+        }}
+      />
+
+      <POPrintView
+        open={isPrintViewOpen}
+        onOpenChange={setIsPrintViewOpen}
+        poData={createdPO}
+        onClose={handlePrintViewClose}
+      />
+    </div>
+  );
+};
+
+export default withModuleAuthorization(PurchaseOrderReplenishment, {
+  moduleId: 'purchase-order',
+  moduleName: 'Purchase Order'
+});
@@ -1,6 +1,9 @@
 import { RouteObject } from 'react-router';
 import PurchaseOrderCreate from '../pages/PurchaseOrderCreate';
-import { ApprovePOPage, ReceivePOPage, PutawayPOPage } from '../pages/PurchaseOrderPlaceholder';
+import PurchaseOrderApprove from '../pages/PurchaseOrderApprove';
+import PurchaseOrderReceive from '../pages/PurchaseOrderReceive';
+import PurchaseOrderPutaway from '../pages/PurchaseOrderPutaway';
+import PurchaseOrderReplenishment from '../pages/PurchaseOrderReplenishment';
 
 export const purchaseOrderReactRoutes = (basePath: string): RouteObject => {
   return {
@@ -8,9 +11,10 @@ export const purchaseOrderReactRoutes = (basePath: string): RouteObject => {
     children: [
       { index: true, Component: PurchaseOrderCreate },
       { path: 'create', Component: PurchaseOrderCreate },
-      { path: 'approve', Component: ApprovePOPage },
-      { path: 'receive', Component: ReceivePOPage },
-      { path: 'putaway', Component: PutawayPOPage },
+      { path: 'approve', Component: PurchaseOrderApprove },
+      { path: 'receive', Component: PurchaseOrderReceive },
+      { path: 'putaway', Component: PurchaseOrderPutaway },
+      { path: 'replenishment', Component: PurchaseOrderReplenishment },
     ]
   };
 };
@@ -0,0 +1,130 @@
+import { relations } from 'drizzle-orm';
+import { date, decimal, index, integer, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { tenant, user } from '@server/lib/db/schema/system';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { bins, warehouses } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { purchaseOrders, purchaseOrderItems } from './purchaseOrder';
+
+/**
+ * Goods Receipt (GRN) Table
+ * One row per receipt posted against an approved purchase order
+ */
+export const goodsReceipts = pgTable('goods_receipts', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  receiptNumber: varchar('receipt_number', { length: 100 }).notNull(),
+  purchaseOrderId: uuid('purchase_order_id')
+    .notNull()
+    .references(() => purchaseOrders.id),
+  warehouseId: uuid('warehouse_id')
+    .notNull()
+    .references(() => warehouses.id),
+  receiptDate: date('receipt_date').notNull(),
+  notes: text('notes'),
+  receivedBy: uuid('received_by')
+    .references(() => user.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    uniqueIndex('goods_receipts_tenant_number_idx').on(t.tenantId, t.receiptNumber),
+    index('goods_receipts_tenant_idx').on(t.tenantId),
+    index('goods_receipts_po_idx').on(t.purchaseOrderId),
+  ]
+);
+
+/**
+ * Goods Receipt Items Table
+ * One row per received PO line, linked to the inventory row it created in the staging bin
+ */
+export const goodsReceiptItems = pgTable('goods_receipt_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  goodsReceiptId: uuid('goods_receipt_id')
+    .notNull()
+    .references(() => goodsReceipts.id, { onDelete: 'cascade' }),
+  purchaseOrderItemId: uuid('purchase_order_item_id')
+    .notNull()
+    .references(() => purchaseOrderItems.id),
+  productId: uuid('product_id')
+    .notNull()
+    .references(() => products.id),
+  binId: uuid('bin_id')
+    .notNull()
+    .references(() => bins.id),
+  inventoryItemId: uuid('inventory_item_id')
+    .references(() => inventoryItems.id),
+  receivedQuantity: integer('received_quantity').notNull(),
+  batchNumber: varchar('batch_number', { length: 100 }),
+  lotNumber: varchar('lot_number', { length: 100 }),
+  expiryDate: date('expiry_date'),
+  unitCost: decimal('unit_cost', { precision: 10, scale: 2 }),
+  notes: text('notes'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+},
+  (t) => [
+    index('goods_receipt_items_tenant_idx').on(t.tenantId),
+    index('goods_receipt_items_receipt_idx').on(t.goodsReceiptId),
+    index('goods_receipt_items_po_item_idx').on(t.purchaseOrderItemId),
+  ]
+);
+
+// Relations
+export const goodsReceiptsRelations = relations(goodsReceipts, ({ one, many }) => ({
+  tenant: one(tenant, {
+    fields: [goodsReceipts.tenantId],
+    references: [tenant.id],
+  }),
+  purchaseOrder: one(purchaseOrders, {
+    fields: [goodsReceipts.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [goodsReceipts.warehouseId],
+    references: [warehouses.id],
+  }),
+  receiver: one(user, {
+    fields: [goodsReceipts.receivedBy],
+    references: [user.id],
+  }),
+  items: many(goodsReceiptItems),
+}));
+
+export const goodsReceiptItemsRelations = relations(goodsReceiptItems, ({ one }) => ({
+  goodsReceipt: one(goodsReceipts, {
+    fields: [goodsReceiptItems.goodsReceiptId],
+    references: [goodsReceipts.id],
+  }),
+  purchaseOrderItem: one(purchaseOrderItems, {
+    fields: [goodsReceiptItems.purchaseOrderItemId],
+    references: [purchaseOrderItems.id],
+  }),
+  product: one(products, {
+    fields: [goodsReceiptItems.productId],
+    references: [products.id],
+  }),
+  bin: one(bins, {
+    fields: [goodsReceiptItems.binId],
+    references: [bins.id],
+  }),
+  inventoryItem: one(inventoryItems, {
+    fields: [goodsReceiptItems.inventoryItemId],
+    references: [inventoryItems.id],
+  }),
+  tenant: one(tenant, {
+    fields: [goodsReceiptItems.tenantId],
+    references: [tenant.id],
+  }),
+}));
+
+// Types
+export type GoodsReceipt = typeof goodsReceipts.$inferSelect;
+export type NewGoodsReceipt = typeof goodsReceipts.$inferInsert;
+
+export type GoodsReceiptItem = typeof goodsReceiptItems.$inferSelect;
+export type NewGoodsReceiptItem = typeof goodsReceiptItems.$inferInsert;
@@ -23,7 +23,7 @@ export const purchaseOrders = pgTable('purchase_orders', {
     .references(() => warehouses.id),
   status: varchar('status', { 
     length: 50, 
-    enum: ['pending', 'approved', 'received', 'completed'] 
+    enum: ['pending', 'approved', 'rejected', 'received', 'completed'] 
   }).notNull().default('pending'),
   workflowState: varchar('workflow_state', { 
     length: 50, 
@@ -35,6 +35,14 @@ export const purchaseOrders = pgTable('purchase_orders', {
   notes: text('notes'),
   createdBy: uuid('created_by')
     .references(() => user.id),
+  approvedBy: uuid('approved_by')
+    .references(() => user.id),
+  approvedAt: timestamp('approved_at'),
+  approvalNotes: text('approval_notes'),
+  rejectedBy: uuid('rejected_by')
+    .references(() => user.id),
+  rejectedAt: timestamp('rejected_at'),
+  rejectionReason: text('rejection_reason'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
 },
@@ -69,6 +77,9 @@ export const purchaseOrderItems = pgTable('purchase_order_items', {
   receivedQuantity: integer('received_quantity').default(0).notNull(),
   unitCost: decimal('unit_cost', { precision: 10, scale: 2 }),
   totalCost: decimal('total_cost', { precision: 15, scale: 2 }),
+  // Unit the line was ordered in (null: the product's base unit). Quantities and unit cost are stored in base units.
+  uom: varchar('uom', { length: 20 }),
+  uomConversionFactor: integer('uom_conversion_factor').notNull().default(1),
   expectedExpiryDate: date('expected_expiry_date'),
   notes: text('notes'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -103,6 +114,14 @@ export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many })
     fields: [purchaseOrders.createdBy],
     references: [user.id],
   }),
+  approver: one(user, {
+    fields: [purchaseOrders.approvedBy],
+    references: [user.id],
+  }),
+  rejecter: one(user, {
+    fields: [purchaseOrders.rejectedBy],
+    references: [user.id],
+  }),
   items: many(purchaseOrderItems),
 }));
 
@@ -0,0 +1,103 @@
+import { relations } from 'drizzle-orm';
+import { boolean, index, integer, pgTable, text, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import { tenant, user } from '@server/lib/db/schema/system';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { bins, warehouses } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { purchaseOrders } from './purchaseOrder';
+import { goodsReceipts, goodsReceiptItems } from './goodsReceipt';
+
+/**
+ * Putaway Tasks Table
+ * One task per goods receipt line, moving the received stock from its staging bin to a storage bin
+ */
+export const putawayTasks = pgTable('putaway_tasks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  warehouseId: uuid('warehouse_id')
+    .notNull()
+    .references(() => warehouses.id),
+  purchaseOrderId: uuid('purchase_order_id')
+    .notNull()
+    .references(() => purchaseOrders.id),
+  goodsReceiptId: uuid('goods_receipt_id')
+    .notNull()
+    .references(() => goodsReceipts.id),
+  goodsReceiptItemId: uuid('goods_receipt_item_id')
+    .notNull()
+    .references(() => goodsReceiptItems.id),
+  productId: uuid('product_id')
+    .notNull()
+    .references(() => products.id),
+  inventoryItemId: uuid('inventory_item_id')
+    .notNull()
+    .references(() => inventoryItems.id),
+  quantity: integer('quantity').notNull(),
+  fromBinId: uuid('from_bin_id')
+    .notNull()
+    .references(() => bins.id),
+  suggestedBinId: uuid('suggested_bin_id')
+    .references(() => bins.id),
+  toBinId: uuid('to_bin_id')
+    .references(() => bins.id),
+  isOverridden: boolean('is_overridden').default(false).notNull(),
+  status: varchar('status', {
+    length: 50,
+    enum: ['pending', 'completed']
+  }).notNull().default('pending'),
+  notes: text('notes'),
+  completedBy: uuid('completed_by')
+    .references(() => user.id),
+  completedAt: timestamp('completed_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    index('putaway_tasks_tenant_idx').on(t.tenantId),
+    index('putaway_tasks_status_idx').on(t.tenantId, t.status),
+    index('putaway_tasks_po_idx').on(t.purchaseOrderId),
+    index('putaway_tasks_suggested_bin_idx').on(t.suggestedBinId),
+  ]
+);
+
+// Relations
+export const putawayTasksRelations = relations(putawayTasks, ({ one }) => ({
+  tenant: one(tenant, {
+    fields: [putawayTasks.tenantId],
+    references: [tenant.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [putawayTasks.warehouseId],
+    references: [warehouses.id],
+  }),
+  purchaseOrder: one(purchaseOrders, {
+    fields: [putawayTasks.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  goodsReceipt: one(goodsReceipts, {
+    fields: [putawayTasks.goodsReceiptId],
+    references: [goodsReceipts.id],
+  }),
+  goodsReceiptItem: one(goodsReceiptItems, {
+    fields: [putawayTasks.goodsReceiptItemId],
+    references: [goodsReceiptItems.id],
+  }),
+  product: one(products, {
+    fields: [putawayTasks.productId],
+    references: [products.id],
+  }),
+  inventoryItem: one(inventoryItems, {
+    fields: [putawayTasks.inventoryItemId],
+    references: [inventoryItems.id],
+  }),
+  completer: one(user, {
+    fields: [putawayTasks.completedBy],
+    references: [user.id],
+  }),
+}));
+
+// Types
+export type PutawayTask = typeof putawayTasks.$inferSelect;
+export type NewPutawayTask = typeof putawayTasks.$inferInsert;
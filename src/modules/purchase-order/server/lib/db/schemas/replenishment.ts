@@ -0,0 +1,109 @@
+import { relations } from 'drizzle-orm';
+import { decimal, index, integer, pgTable, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import { tenant, user } from '@server/lib/db/schema/system';
+import { products, suppliers } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { purchaseOrders } from './purchaseOrder';
+
+/**
+ * Replenishment Runs Table
+ * One evaluation of every product's projected stock against its reorder point, started by a buyer or by the scheduler
+ */
+export const replenishmentRuns = pgTable('replenishment_runs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  trigger: varchar('trigger', {
+    length: 50,
+    enum: ['manual', 'scheduled']
+  }).notNull(),
+  productCount: integer('product_count').notNull().default(0),
+  supplierCount: integer('supplier_count').notNull().default(0),
+  createdBy: uuid('created_by')
+    .references(() => user.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+},
+  (t) => [
+    index('replenishment_runs_tenant_created_idx').on(t.tenantId, t.createdAt),
+  ]
+);
+
+/**
+ * Replenishment Lines Table
+ * A product proposed for reordering by a run, with the figures behind the proposal. Open lines of
+ * earlier runs are superseded when a new run starts; lines become ordered once a PO is created from them.
+ */
+export const replenishmentLines = pgTable('replenishment_lines', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  runId: uuid('run_id')
+    .notNull()
+    .references(() => replenishmentRuns.id, { onDelete: 'cascade' }),
+  productId: uuid('product_id')
+    .notNull()
+    .references(() => products.id),
+  // Preferred catalog supplier, else the latest PO's supplier; null when there is neither
+  supplierId: uuid('supplier_id')
+    .references(() => suppliers.id),
+  availableQuantity: integer('available_quantity').notNull(),
+  reservedQuantity: integer('reserved_quantity').notNull(),
+  openPoQuantity: integer('open_po_quantity').notNull(),
+  projectedQuantity: integer('projected_quantity').notNull(),
+  reorderPoint: integer('reorder_point').notNull(),
+  minimumStockLevel: integer('minimum_stock_level'),
+  suggestedQuantity: integer('suggested_quantity').notNull(),
+  unitCost: decimal('unit_cost', { precision: 10, scale: 2 }),
+  status: varchar('status', {
+    length: 50,
+    enum: ['open', 'ordered', 'dismissed', 'superseded']
+  }).notNull().default('open'),
+  purchaseOrderId: uuid('purchase_order_id')
+    .references(() => purchaseOrders.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    index('replenishment_lines_run_idx').on(t.runId),
+    index('replenishment_lines_tenant_status_idx').on(t.tenantId, t.status),
+  ]
+);
+
+// Relations
+export const replenishmentRunsRelations = relations(replenishmentRuns, ({ one, many }) => ({
+  tenant: one(tenant, {
+    fields: [replenishmentRuns.tenantId],
+    references: [tenant.id],
+  }),
+  creator: one(user, {
+    fields: [replenishmentRuns.createdBy],
+    references: [user.id],
+  }),
+  lines: many(replenishmentLines),
+}));
+
+export const replenishmentLinesRelations = relations(replenishmentLines, ({ one }) => ({
+  run: one(replenishmentRuns, {
+    fields: [replenishmentLines.runId],
+    references: [replenishmentRuns.id],
+  }),
+  product: one(products, {
+    fields: [replenishmentLines.productId],
+    references: [products.id],
+  }),
+  supplier: one(suppliers, {
+    fields: [replenishmentLines.supplierId],
+    references: [suppliers.id],
+  }),
+  purchaseOrder: one(purchaseOrders, {
+    fields: [replenishmentLines.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+}));
+
+// Types
+export type ReplenishmentRun = typeof replenishmentRuns.$inferSelect;
+export type NewReplenishmentRun = typeof replenishmentRuns.$inferInsert;
+export type ReplenishmentLine = typeof replenishmentLines.$inferSelect;
+export type NewReplenishmentLine = typeof replenishmentLines.$inferInsert;
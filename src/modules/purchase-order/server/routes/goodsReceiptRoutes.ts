@@ -0,0 +1,963 @@
+import express from 'express';
+import { db } from '@server/lib/db';
+import { purchaseOrders, purchaseOrderItems } from '../lib/db/schemas/purchaseOrder';
+import { goodsReceipts, goodsReceiptItems } from '../lib/db/schemas/goodsReceipt';
+import { products, suppliers } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { aisles, bins, shelves, warehouseConfigs, warehouses, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { user } from '@server/lib/db/schema/system';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { eq, and, desc, asc, count, ilike, inArray, sql } from 'drizzle-orm';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { v4 as uuidv4 } from 'uuid';
+import { logAudit, getClientIp } from '@server/services/auditService';
+import { getTenantNumberOption } from '@server/services/optionService';
+import { generateDocumentNumber, linkDocumentNumber } from '@modules/document-numbering/server/services/documentNumberService';
+import { getActiveWorkflowSteps, getNextStep } from '@modules/workflow/server/services/workflowService';
+import { createPutawayTasks } from '../services/putawayService';
+import { recordStockMovement } from '@modules/inventory-items/server/services/stockMovementService';
+import { getProductUoms, toBaseQuantity, UomConversionError } from '@modules/master-data/server/services/uomService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('purchase-order'));
+
+// Tenant options (sys_option codes) controlling receipt tolerances, in percent of the ordered quantity
+const OVER_RECEIPT_TOLERANCE_OPTION = 'po.receipt.over_tolerance_pct';
+const UNDER_RECEIPT_TOLERANCE_OPTION = 'po.receipt.under_tolerance_pct';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     GoodsReceipt:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         tenantId:
+ *           type: string
+ *           format: uuid
+ *         receiptNumber:
+ *           type: string
+ *         purchaseOrderId:
+ *           type: string
+ *           format: uuid
+ *         warehouseId:
+ *           type: string
+ *           format: uuid
+ *         receiptDate:
+ *           type: string
+ *           format: date
+ *         notes:
+ *           type: string
+ *         receivedBy:
+ *           type: string
+ *           format: uuid
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     GoodsReceiptItem:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         goodsReceiptId:
+ *           type: string
+ *           format: uuid
+ *         purchaseOrderItemId:
+ *           type: string
+ *           format: uuid
+ *         productId:
+ *           type: string
+ *           format: uuid
+ *         binId:
+ *           type: string
+ *           format: uuid
+ *           description: Staging bin the goods were received into
+ *         inventoryItemId:
+ *           type: string
+ *           format: uuid
+ *         receivedQuantity:
+ *           type: integer
+ *         batchNumber:
+ *           type: string
+ *         lotNumber:
+ *           type: string
+ *         expiryDate:
+ *           type: string
+ *           format: date
+ *         unitCost:
+ *           type: number
+ *         notes:
+ *           type: string
+ */
+
+// ==================== HELPER FUNCTIONS ====================
+
+class ReceiptValidationError extends Error {}
+
+interface ReceiptLineInput {
+  purchaseOrderItemId: string;
+  receivedQuantity: number;
+  uom?: string;
+  binId: string;
+  batchNumber?: string;
+  lotNumber?: string;
+  expiryDate?: string;
+  notes?: string;
+}
+
+interface OrderLine {
+  id: string;
+  productId: string;
+  productSku: string | null;
+  orderedQuantity: number;
+  receivedQuantity: number;
+  unitCost: string | null;
+}
+
+/**
+ * Check that the requested quantities stay within the over-receipt tolerance of each PO line.
+ * Returns an error message, or null when every line is within tolerance.
+ */
+function checkOverReceipt(lines: OrderLine[], requested: ReceiptLineInput[], overTolerancePct: number): string | null {
+  const incomingByLine = new Map<string, number>();
+  for (const item of requested) {
+    incomingByLine.set(item.purchaseOrderItemId, (incomingByLine.get(item.purchaseOrderItemId) || 0) + item.receivedQuantity);
+  }
+
+  for (const line of lines) {
+    const incoming = incomingByLine.get(line.id);
+    if (!incoming) continue;
+
+    const maxQuantity = Math.floor(line.orderedQuantity * (1 + overTolerancePct / 100));
+    if (line.receivedQuantity + incoming > maxQuantity) {
+      return `Receiving ${incoming} of ${line.productSku || line.productId} exceeds the ordered quantity `
+        + `(${line.orderedQuantity} ordered, ${line.receivedQuantity} already received, ${overTolerancePct}% over-receipt tolerance)`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A line counts as fully received once it reaches the ordered quantity minus the under-receipt tolerance
+ */
+function isLineFullyReceived(line: OrderLine, underTolerancePct: number): boolean {
+  return line.receivedQuantity >= Math.ceil(line.orderedQuantity * (1 - underTolerancePct / 100));
+}
+
+async function getOrderLines(executor: Pick<typeof db, 'select'>, purchaseOrderId: string): Promise<OrderLine[]> {
+  return executor
+    .select({
+      id: purchaseOrderItems.id,
+      productId: purchaseOrderItems.productId,
+      productSku: products.sku,
+      orderedQuantity: purchaseOrderItems.orderedQuantity,
+      receivedQuantity: purchaseOrderItems.receivedQuantity,
+      unitCost: purchaseOrderItems.unitCost,
+    })
+    .from(purchaseOrderItems)
+    .leftJoin(products, eq(purchaseOrderItems.productId, products.id))
+    .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId));
+}
+
+async function getReceiptItems(goodsReceiptIds: string[]) {
+  if (goodsReceiptIds.length === 0) {
+    return [];
+  }
+
+  return db
+    .select({
+      id: goodsReceiptItems.id,
+      goodsReceiptId: goodsReceiptItems.goodsReceiptId,
+      purchaseOrderItemId: goodsReceiptItems.purchaseOrderItemId,
+      productId: goodsReceiptItems.productId,
+      productSku: products.sku,
+      productName: products.name,
+      binId: goodsReceiptItems.binId,
+      binName: bins.name,
+      inventoryItemId: goodsReceiptItems.inventoryItemId,
+      receivedQuantity: goodsReceiptItems.receivedQuantity,
+      batchNumber: goodsReceiptItems.batchNumber,
+      lotNumber: goodsReceiptItems.lotNumber,
+      expiryDate: goodsReceiptItems.expiryDate,
+      unitCost: goodsReceiptItems.unitCost,
+      notes: goodsReceiptItems.notes,
+    })
+    .from(goodsReceiptItems)
+    .leftJoin(products, eq(goodsReceiptItems.productId, products.id))
+    .leftJoin(bins, eq(goodsReceiptItems.binId, bins.id))
+    .where(inArray(goodsReceiptItems.goodsReceiptId, goodsReceiptIds))
+    .orderBy(asc(goodsReceiptItems.createdAt));
+}
+
+const receiptColumns = {
+  id: goodsReceipts.id,
+  tenantId: goodsReceipts.tenantId,
+  receiptNumber: goodsReceipts.receiptNumber,
+  purchaseOrderId: goodsReceipts.purchaseOrderId,
+  orderNumber: purchaseOrders.orderNumber,
+  supplierName: suppliers.name,
+  warehouseId: goodsReceipts.warehouseId,
+  warehouseName: warehouses.name,
+  receiptDate: goodsReceipts.receiptDate,
+  notes: goodsReceipts.notes,
+  receivedBy: goodsReceipts.receivedBy,
+  receivedByName: user.fullname,
+  createdAt: goodsReceipts.createdAt,
+};
+
+// ==================== RECEIVING ====================
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/orders/{id}/receiving-bins:
+ *   get:
+ *     summary: Get bins of the purchase order's warehouse that goods can be received into
+ *     tags: [Goods Receipts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of bins
+ *       404:
+ *         description: Purchase order not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/orders/:id/receiving-bins', authorized('ADMIN', 'purchase-order.receive'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+    const search = req.query.search as string;
+
+    const [order] = await db
+      .select({ warehouseId: purchaseOrders.warehouseId })
+      .from(purchaseOrders)
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.tenantId, tenantId)));
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found',
+      });
+    }
+
+    const whereConditions = [
+      eq(bins.tenantId, tenantId),
+      eq(zones.warehouseId, order.warehouseId),
+    ];
+    if (search) {
+      whereConditions.push(ilike(bins.name, `%${search}%`));
+    }
+
+    const data = await db
+      .select({
+        id: bins.id,
+        name: bins.name,
+        barcode: bins.barcode,
+        shelfName: shelves.name,
+        aisleName: aisles.name,
+        zoneName: zones.name,
+      })
+      .from(bins)
+      .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+      .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+      .innerJoin(zones, eq(aisles.zoneId, zones.id))
+      .where(and(...whereConditions))
+      .orderBy(asc(zones.name), asc(aisles.name), asc(shelves.name), asc(bins.name));
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error fetching receiving bins:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/orders/{id}/receipts:
+ *   post:
+ *     summary: Post a goods receipt against an approved purchase order
+ *     description: |
+ *       Creates inventory items in the given staging bins and increases the received quantity of each PO line.
+ *       Over-receipt is limited by the tenant option `po.receipt.over_tolerance_pct` (default 0).
+ *       Once every line is received (less the `po.receipt.under_tolerance_pct` tolerance, default 0),
+ *       the purchase order moves to `received` and on to the next active workflow step.
+ *       Each line gets a pending putaway task.
+ *     tags: [Goods Receipts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - items
+ *             properties:
+ *               receiptDate:
+ *                 type: string
+ *                 format: date
+ *               notes:
+ *                 type: string
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - purchaseOrderItemId
+ *                     - receivedQuantity
+ *                     - binId
+ *                   properties:
+ *                     purchaseOrderItemId:
+ *                       type: string
+ *                       format: uuid
+ *                     receivedQuantity:
+ *                       type: number
+ *                       description: In uom; must come to a whole number of base units
+ *                     uom:
+ *                       type: string
+ *                       description: Base or alternate unit of measure of the product (defaults to the base unit)
+ *                     binId:
+ *                       type: string
+ *                       format: uuid
+ *                       description: Staging bin
+ *                     batchNumber:
+ *                       type: string
+ *                     lotNumber:
+ *                       type: string
+ *                     expiryDate:
+ *                       type: string
+ *                       format: date
+ *                     notes:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Goods receipt posted successfully
+ *       400:
+ *         description: Invalid receipt lines or purchase order not open for receiving
+ *       404:
+ *         description: Purchase order not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/orders/:id/receipts', authorized('ADMIN', 'purchase-order.receive'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const { receiptDate, notes, items = [] } = req.body;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'At least one receipt line is required',
+      });
+    }
+
+    const requested: ReceiptLineInput[] = items.map((item: any) => ({
+      ...item,
+      receivedQuantity: Number(item.receivedQuantity),
+    }));
+
+    for (const item of requested) {
+      if (!item.purchaseOrderItemId || !item.binId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Each receipt line requires a purchase order line and a staging bin',
+        });
+      }
+      if (!Number.isFinite(item.receivedQuantity) || item.receivedQuantity <= 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Received quantity must be a positive number',
+        });
+      }
+    }
+
+    const [order] = await db
+      .select()
+      .from(purchaseOrders)
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.tenantId, tenantId)));
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found',
+      });
+    }
+
+    if (order.status !== 'approved' || order.workflowState !== 'receive') {
+      return res.status(400).json({
+        success: false,
+        message: 'Purchase order is not open for receiving',
+      });
+    }
+
+    // Validate lines against the PO and the warehouse's tracking requirements
+    const orderLines = await getOrderLines(db, id);
+    const orderLineMap = new Map(orderLines.map((line) => [line.id, line]));
+
+    const productIds = [...new Set(orderLines.map((line) => line.productId))];
+    const productRecords = await db
+      .select({ id: products.id, sku: products.sku, hasExpiryDate: products.hasExpiryDate })
+      .from(products)
+      .where(and(eq(products.tenantId, tenantId), inArray(products.id, productIds)));
+    const productMap = new Map(productRecords.map((product) => [product.id, product]));
+    const uomMap = await getProductUoms(tenantId, productIds);
+
+    const [warehouseConfig] = await db
+      .select()
+      .from(warehouseConfigs)
+      .where(and(
+        eq(warehouseConfigs.warehouseId, order.warehouseId),
+        eq(warehouseConfigs.tenantId, tenantId)
+      ))
+      .limit(1);
+
+    for (const item of requested) {
+      const line = orderLineMap.get(item.purchaseOrderItemId);
+      if (!line) {
+        return res.status(400).json({
+          success: false,
+          message: `Line ${item.purchaseOrderItemId} does not belong to purchase order ${order.orderNumber}`,
+        });
+      }
+
+      // Quantities received in an alternate unit are converted to base units before the tolerance checks
+      const uomInfo = uomMap.get(line.productId);
+      if (uomInfo) {
+        item.receivedQuantity = toBaseQuantity(uomInfo, item.receivedQuantity, item.uom).baseQuantity;
+      } else if (!Number.isInteger(item.receivedQuantity)) {
+        throw new UomConversionError('Received quantity must be a whole number');
+      }
+
+      const product = productMap.get(line.productId);
+      if (warehouseConfig?.requireBatchTracking && !item.batchNumber) {
+        return res.status(400).json({
+          success: false,
+          message: `Batch number is required for ${product?.sku || line.productId}`,
+        });
+      }
+      if (warehouseConfig?.requireExpiryTracking && product?.hasExpiryDate && !item.expiryDate) {
+        return res.status(400).json({
+          success: false,
+          message: `Expiry date is required for ${product.sku}`,
+        });
+      }
+    }
+
+    const binIds = [...new Set(requested.map((item) => item.binId))];
+    const validBins = await db
+      .select({ id: bins.id })
+      .from(bins)
+      .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+      .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+      .innerJoin(zones, eq(aisles.zoneId, zones.id))
+      .where(and(
+        eq(bins.tenantId, tenantId),
+        eq(zones.warehouseId, order.warehouseId),
+        inArray(bins.id, binIds)
+      ));
+
+    if (validBins.length !== binIds.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'Staging bins must belong to the purchase order warehouse',
+      });
+    }
+
+    const overTolerancePct = await getTenantNumberOption(tenantId, OVER_RECEIPT_TOLERANCE_OPTION, 0);
+    const underTolerancePct = await getTenantNumberOption(tenantId, UNDER_RECEIPT_TOLERANCE_OPTION, 0);
+
+    const overReceiptError = checkOverReceipt(orderLines, requested, overTolerancePct);
+    if (overReceiptError) {
+      return res.status(400).json({
+        success: false,
+        message: overReceiptError,
+      });
+    }
+
+    const workflowSteps = await getActiveWorkflowSteps(tenantId, 'PURCHASE_ORDER');
+
+    // Generate GRN number via document numbering service
+    let receiptNumber: string;
+    let documentHistoryId: string;
+    try {
+      const generated = await generateDocumentNumber(tenantId, req.headers.authorization, 'GRN', 'goods_receipts');
+      receiptNumber = generated.documentNumber;
+      documentHistoryId = generated.historyId;
+    } catch (error: any) {
+      console.error('Error generating GRN number:', error.response?.data || error.message);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to generate goods receipt number',
+      });
+    }
+
+    const receiptId = uuidv4();
+    const effectiveReceiptDate = receiptDate || new Date().toISOString().split('T')[0];
+
+    // Use transaction so inventory, received quantities and PO state change together
+    const result = await db.transaction(async (tx) => {
+      // Lock the PO so concurrent receipts against it are applied one at a time
+      const [lockedOrder] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for('update');
+
+      if (lockedOrder.status !== 'approved' || lockedOrder.workflowState !== 'receive') {
+        throw new ReceiptValidationError('Purchase order is not open for receiving');
+      }
+
+      // Re-check tolerance against the locked quantities
+      const lockedLines = await getOrderLines(tx, id);
+      const lockedOverReceiptError = checkOverReceipt(lockedLines, requested, overTolerancePct);
+      if (lockedOverReceiptError) {
+        throw new ReceiptValidationError(lockedOverReceiptError);
+      }
+
+      const [receipt] = await tx
+        .insert(goodsReceipts)
+        .values({
+          id: receiptId,
+          tenantId,
+          receiptNumber,
+          purchaseOrderId: id,
+          warehouseId: order.warehouseId,
+          receiptDate: effectiveReceiptDate,
+          notes: notes || null,
+          receivedBy: userId,
+        })
+        .returning();
+
+      const receiptItems = [];
+      for (const item of requested) {
+        const line = orderLineMap.get(item.purchaseOrderItemId)!;
+        const unitCost = line.unitCost;
+
+        const [inventoryItem] = await tx
+          .insert(inventoryItems)
+          .values({
+            tenantId,
+            productId: line.productId,
+            binId: item.binId,
+            availableQuantity: item.receivedQuantity,
+            reservedQuantity: 0,
+            expiryDate: item.expiryDate || null,
+            batchNumber: item.batchNumber || null,
+            lotNumber: item.lotNumber || null,
+            receivedDate: effectiveReceiptDate,
+            costPerUnit: unitCost,
+          })
+          .returning();
+
+        await recordStockMovement(tx, {
+          tenantId,
+          movementType: 'receipt',
+          inventoryItemId: inventoryItem.id,
+          productId: line.productId,
+          binId: item.binId,
+          toBinId: item.binId,
+          quantityDelta: item.receivedQuantity,
+          batchNumber: inventoryItem.batchNumber,
+          lotNumber: inventoryItem.lotNumber,
+          expiryDate: inventoryItem.expiryDate,
+          referenceType: 'goods_receipt',
+          referenceId: receiptId,
+          referenceNumber: receiptNumber,
+          createdBy: userId,
+        });
+
+        const [receiptItem] = await tx
+          .insert(goodsReceiptItems)
+          .values({
+            id: uuidv4(),
+            tenantId,
+            goodsReceiptId: receiptId,
+            purchaseOrderItemId: item.purchaseOrderItemId,
+            productId: line.productId,
+            binId: item.binId,
+            inventoryItemId: inventoryItem.id,
+            receivedQuantity: item.receivedQuantity,
+            batchNumber: item.batchNumber || null,
+            lotNumber: item.lotNumber || null,
+            expiryDate: item.expiryDate || null,
+            unitCost,
+            notes: item.notes || null,
+          })
+          .returning();
+
+        await tx
+          .update(purchaseOrderItems)
+          .set({
+            receivedQuantity: sql`${purchaseOrderItems.receivedQuantity} + ${item.receivedQuantity}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(purchaseOrderItems.id, item.purchaseOrderItemId));
+
+        receiptItems.push(receiptItem);
+      }
+
+      // Received stock waits in the staging bins until its putaway task is confirmed
+      const tasks = await createPutawayTasks(tx, {
+        tenantId,
+        warehouseId: order.warehouseId,
+        purchaseOrderId: id,
+        goodsReceiptId: receiptId,
+        lines: receiptItems.map((receiptItem) => ({
+          goodsReceiptItemId: receiptItem.id,
+          productId: receiptItem.productId,
+          inventoryItemId: receiptItem.inventoryItemId!,
+          binId: receiptItem.binId,
+          quantity: receiptItem.receivedQuantity,
+        })),
+      });
+
+      // Move the PO forward once every line has been received
+      const updatedLines = await getOrderLines(tx, id);
+      const isFullyReceived = updatedLines.every((line) => isLineFullyReceived(line, underTolerancePct));
+      let newState: typeof lockedOrder.workflowState = lockedOrder.workflowState;
+
+      if (isFullyReceived) {
+        newState = (getNextStep(workflowSteps, 'receive')?.stepKey || 'complete') as typeof newState;
+        await tx
+          .update(purchaseOrders)
+          .set({
+            status: 'received',
+            workflowState: newState,
+            updatedAt: new Date(),
+          })
+          .where(eq(purchaseOrders.id, id));
+      }
+
+      try {
+        await linkDocumentNumber(req.headers.authorization, documentHistoryId, receiptId);
+      } catch (error) {
+        console.error('Error updating document history:', error);
+        throw new Error('Failed to update document history');
+      }
+
+      return { receipt, receiptItems, putawayTasks: tasks, lines: updatedLines, isFullyReceived, newState };
+    });
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'purchase-order',
+      action: 'create',
+      resourceType: 'goods_receipt',
+      resourceId: receiptId,
+      description: `Posted goods receipt ${receiptNumber} against purchase order ${order.orderNumber} with ${requested.length} line(s)`,
+      changedFields: {
+        receiptNumber,
+        purchaseOrderId: id,
+        orderNumber: order.orderNumber,
+        lines: requested.map((item) => ({
+          purchaseOrderItemId: item.purchaseOrderItemId,
+          receivedQuantity: item.receivedQuantity,
+          binId: item.binId,
+          batchNumber: item.batchNumber || null,
+          expiryDate: item.expiryDate || null,
+        })),
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    if (result.isFullyReceived) {
+      await logAudit({
+        tenantId,
+        userId,
+        module: 'purchase-order',
+        action: 'state_change',
+        resourceType: 'purchase_order',
+        resourceId: id,
+        description: `Purchase order ${order.orderNumber} fully received with ${receiptNumber}`,
+        changedFields: {
+          status: { from: order.status, to: 'received' },
+          workflowState: { from: order.workflowState, to: result.newState },
+        },
+        previousState: order.workflowState || undefined,
+        newState: result.newState || undefined,
+        ipAddress: getClientIp(req),
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...result.receipt,
+        items: result.receiptItems,
+        putawayTasks: result.putawayTasks,
+        purchaseOrder: {
+          id,
+          orderNumber: order.orderNumber,
+          status: result.isFullyReceived ? 'received' : order.status,
+          workflowState: result.newState,
+          lines: result.lines,
+        },
+      },
+      message: result.isFullyReceived
+        ? 'Goods receipt posted, purchase order fully received'
+        : 'Goods receipt posted successfully',
+    });
+  } catch (error) {
+    if (error instanceof ReceiptValidationError || error instanceof UomConversionError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error posting goods receipt:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/orders/{id}/receipts:
+ *   get:
+ *     summary: Get all goods receipts posted against a purchase order
+ *     tags: [Goods Receipts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Goods receipts with their lines
+ *       404:
+ *         description: Purchase order not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/orders/:id/receipts', authorized('ADMIN', 'purchase-order.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+
+    const [order] = await db
+      .select({ id: purchaseOrders.id })
+      .from(purchaseOrders)
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.tenantId, tenantId)));
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found',
+      });
+    }
+
+    const receipts = await db
+      .select(receiptColumns)
+      .from(goodsReceipts)
+      .leftJoin(purchaseOrders, eq(goodsReceipts.purchaseOrderId, purchaseOrders.id))
+      .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .leftJoin(warehouses, eq(goodsReceipts.warehouseId, warehouses.id))
+      .leftJoin(user, eq(goodsReceipts.receivedBy, user.id))
+      .where(and(eq(goodsReceipts.purchaseOrderId, id), eq(goodsReceipts.tenantId, tenantId)))
+      .orderBy(desc(goodsReceipts.createdAt));
+
+    const items = await getReceiptItems(receipts.map((receipt) => receipt.id));
+
+    res.json({
+      success: true,
+      data: receipts.map((receipt) => ({
+        ...receipt,
+        items: items.filter((item) => item.goodsReceiptId === receipt.id),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching goods receipts:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/receipts:
+ *   get:
+ *     summary: Get all goods receipts
+ *     tags: [Goods Receipts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by receipt number
+ *     responses:
+ *       200:
+ *         description: List of goods receipts
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/receipts', authorized('ADMIN', 'purchase-order.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const search = req.query.search as string;
+    const offset = (page - 1) * limit;
+
+    const whereConditions = [eq(goodsReceipts.tenantId, tenantId)];
+    if (search) {
+      whereConditions.push(ilike(goodsReceipts.receiptNumber, `%${search}%`));
+    }
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(goodsReceipts)
+      .where(and(...whereConditions));
+
+    const data = await db
+      .select(receiptColumns)
+      .from(goodsReceipts)
+      .leftJoin(purchaseOrders, eq(goodsReceipts.purchaseOrderId, purchaseOrders.id))
+      .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .leftJoin(warehouses, eq(goodsReceipts.warehouseId, warehouses.id))
+      .leftJoin(user, eq(goodsReceipts.receivedBy, user.id))
+      .where(and(...whereConditions))
+      .orderBy(desc(goodsReceipts.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(totalResult.count / limit);
+
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching goods receipts:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/receipts/{id}:
+ *   get:
+ *     summary: Get a goods receipt by ID
+ *     tags: [Goods Receipts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Goods receipt found
+ *       404:
+ *         description: Goods receipt not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/receipts/:id', authorized('ADMIN', 'purchase-order.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+
+    const [receipt] = await db
+      .select(receiptColumns)
+      .from(goodsReceipts)
+      .leftJoin(purchaseOrders, eq(goodsReceipts.purchaseOrderId, purchaseOrders.id))
+      .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .leftJoin(warehouses, eq(goodsReceipts.warehouseId, warehouses.id))
+      .leftJoin(user, eq(goodsReceipts.receivedBy, user.id))
+      .where(and(eq(goodsReceipts.id, id), eq(goodsReceipts.tenantId, tenantId)));
+
+    if (!receipt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Goods receipt not found',
+      });
+    }
+
+    const items = await getReceiptItems([id]);
+
+    res.json({
+      success: true,
+      data: {
+        ...receipt,
+        items,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching goods receipt:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import express from 'express';
 import { db } from '@server/lib/db';
 import { purchaseOrders, purchaseOrderItems } from '../lib/db/schemas/purchaseOrder';
+import { replenishmentLines } from '../lib/db/schemas/replenishment';
 import { suppliers, supplierLocations, products } from '@modules/master-data/server/lib/db/schemas/masterData';
 import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
 import { warehouses } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
@@ -12,7 +13,10 @@ import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddlewar
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
 import { PODocumentGenerator } from '../services/poDocumentGenerator';
+import { getCatalogUnitCost, recordLastPurchasePrices } from '../services/supplierCatalogService';
+import { getProductUoms, toBaseQuantity, UomConversionError } from '@modules/master-data/server/services/uomService';
 import { logAudit, getClientIp } from '@server/services/auditService';
+import { getActiveWorkflowSteps, getNextStep, isStepActive } from '@modules/workflow/server/services/workflowService';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -59,7 +63,7 @@ router.use(checkModuleAuthorization('purchase-order'));
  *           description: Destination warehouse (required for both delivery and pickup)
  *         status:
  *           type: string
- *           enum: [pending, approved, received, completed]
+ *           enum: [pending, approved, rejected, received, completed]
  *         workflowState:
  *           type: string
  *           enum: [create, approve, receive, putaway, complete]
@@ -76,6 +80,22 @@ router.use(checkModuleAuthorization('purchase-order'));
  *         createdBy:
  *           type: string
  *           format: uuid
+ *         approvedBy:
+ *           type: string
+ *           format: uuid
+ *         approvedAt:
+ *           type: string
+ *           format: date-time
+ *         approvalNotes:
+ *           type: string
+ *         rejectedBy:
+ *           type: string
+ *           format: uuid
+ *         rejectedAt:
+ *           type: string
+ *           format: date-time
+ *         rejectionReason:
+ *           type: string
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -103,12 +123,20 @@ router.use(checkModuleAuthorization('purchase-order'));
  *           format: uuid
  *         orderedQuantity:
  *           type: integer
+ *           description: In the product's base unit of measure
  *         receivedQuantity:
  *           type: integer
  *         unitCost:
  *           type: number
+ *           description: Per base unit
  *         totalCost:
  *           type: number
+ *         uom:
+ *           type: string
+ *           description: Alternate unit of measure the line was ordered in; null when ordered in the base unit
+ *         uomConversionFactor:
+ *           type: integer
+ *           description: Base units per ordered unit
  *         expectedExpiryDate:
  *           type: string
  *           format: date
@@ -122,6 +150,157 @@ router.use(checkModuleAuthorization('purchase-order'));
  *           format: date-time
  */
 
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Convert PO lines entered in any unit of measure of their product to base units. The unit cost is
+ * entered per unit ordered: the line total is kept exact and the stored unit cost is per base unit.
+ */
+async function convertItemsToBaseUnits(tenantId: string, items: any[]) {
+  const uomMap = await getProductUoms(tenantId, [...new Set(items.map((item) => item.productId as string))]);
+
+  return items.map((item) => {
+    const info = uomMap.get(item.productId);
+    if (!info) {
+      throw new UomConversionError(`Product ${item.productId} not found`);
+    }
+
+    const quantity = Number(item.orderedQuantity);
+    const { baseQuantity, conversionFactor } = toBaseQuantity(info, quantity, item.uom);
+    const unitCost = item.unitCost ? parseFloat(item.unitCost) : null;
+
+    return {
+      ...item,
+      orderedQuantity: baseQuantity,
+      unitCost: unitCost !== null ? (unitCost / conversionFactor).toFixed(2) : null,
+      totalCost: unitCost !== null ? (unitCost * quantity).toFixed(2) : null,
+      uom: conversionFactor > 1 ? item.uom : null,
+      uomConversionFactor: conversionFactor,
+    };
+  });
+}
+
+/**
+ * PO line as printed: quantity and unit cost in the unit the line was ordered in
+ */
+function toDocumentItem(item: {
+  productSku: string | null;
+  productName: string | null;
+  orderedQuantity: number;
+  unitCost: string | null;
+  totalCost: string | null;
+  uom: string | null;
+  uomConversionFactor: number;
+  notes: string | null;
+}) {
+  const quantity = item.orderedQuantity / item.uomConversionFactor;
+
+  return {
+    productSku: item.productSku || 'N/A',
+    productName: item.productName || 'N/A',
+    orderedQuantity: quantity,
+    unitCost: item.uomConversionFactor > 1 && item.totalCost && quantity > 0
+      ? (parseFloat(item.totalCost) / quantity).toFixed(2)
+      : item.unitCost || '0.00',
+    totalCost: item.totalCost || '0.00',
+    uom: item.uom,
+    notes: item.notes,
+  };
+}
+
+/**
+ * Rebuild the PO document from the current database state and store it as a new version
+ */
+async function regeneratePODocument(id: string, tenantId: string, userId: string) {
+  const [completeOrder] = await db
+    .select({
+      id: purchaseOrders.id,
+      tenantId: purchaseOrders.tenantId,
+      orderNumber: purchaseOrders.orderNumber,
+      supplierId: purchaseOrders.supplierId,
+      supplierName: suppliers.name,
+      supplierEmail: suppliers.email,
+      supplierPhone: suppliers.phone,
+      supplierLocationId: purchaseOrders.supplierLocationId,
+      locationAddress: supplierLocations.address,
+      locationCity: supplierLocations.city,
+      locationState: supplierLocations.state,
+      locationPostalCode: supplierLocations.postalCode,
+      locationCountry: supplierLocations.country,
+      deliveryMethod: purchaseOrders.deliveryMethod,
+      warehouseId: purchaseOrders.warehouseId,
+      warehouseName: warehouses.name,
+      warehouseAddress: warehouses.address,
+      status: purchaseOrders.status,
+      workflowState: purchaseOrders.workflowState,
+      orderDate: purchaseOrders.orderDate,
+      expectedDeliveryDate: purchaseOrders.expectedDeliveryDate,
+      totalAmount: purchaseOrders.totalAmount,
+      notes: purchaseOrders.notes,
+      createdBy: purchaseOrders.createdBy,
+      createdByName: user.fullname,
+      createdAt: purchaseOrders.createdAt,
+      updatedAt: purchaseOrders.updatedAt,
+    })
+    .from(purchaseOrders)
+    .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+    .leftJoin(supplierLocations, eq(purchaseOrders.supplierLocationId, supplierLocations.id))
+    .leftJoin(warehouses, eq(purchaseOrders.warehouseId, warehouses.id))
+    .leftJoin(user, eq(purchaseOrders.createdBy, user.id))
+    .where(and(
+      eq(purchaseOrders.id, id),
+      eq(purchaseOrders.tenantId, tenantId)
+    ));
+
+  const orderItems = await db
+    .select({
+      id: purchaseOrderItems.id,
+      purchaseOrderId: purchaseOrderItems.purchaseOrderId,
+      productId: purchaseOrderItems.productId,
+      productName: products.name,
+      productSku: products.sku,
+      baseUom: products.baseUom,
+      orderedQuantity: purchaseOrderItems.orderedQuantity,
+      receivedQuantity: purchaseOrderItems.receivedQuantity,
+      unitCost: purchaseOrderItems.unitCost,
+      totalCost: purchaseOrderItems.totalCost,
+      uom: purchaseOrderItems.uom,
+      uomConversionFactor: purchaseOrderItems.uomConversionFactor,
+      expectedExpiryDate: purchaseOrderItems.expectedExpiryDate,
+      notes: purchaseOrderItems.notes,
+    })
+    .from(purchaseOrderItems)
+    .leftJoin(products, eq(purchaseOrderItems.productId, products.id))
+    .where(eq(purchaseOrderItems.purchaseOrderId, id));
+
+  return PODocumentGenerator.regenerateDocument(
+    {
+      id: completeOrder.id || id,
+      tenantId: completeOrder.tenantId || tenantId,
+      orderNumber: completeOrder.orderNumber || '',
+      orderDate: completeOrder.orderDate || new Date().toISOString().split('T')[0],
+      expectedDeliveryDate: completeOrder.expectedDeliveryDate,
+      deliveryMethod: completeOrder.deliveryMethod || 'delivery',
+      totalAmount: completeOrder.totalAmount || '0.00',
+      notes: completeOrder.notes,
+      supplierName: completeOrder.supplierName || 'N/A',
+      supplierEmail: completeOrder.supplierEmail,
+      supplierPhone: completeOrder.supplierPhone,
+      locationAddress: completeOrder.locationAddress,
+      locationCity: completeOrder.locationCity,
+      locationState: completeOrder.locationState,
+      locationPostalCode: completeOrder.locationPostalCode,
+      locationCountry: completeOrder.locationCountry,
+      warehouseName: completeOrder.warehouseName || 'N/A',
+      warehouseAddress: completeOrder.warehouseAddress || 'N/A',
+      warehouseCity: null, // Warehouse table doesn't have city field
+      createdByName: completeOrder.createdByName,
+      items: orderItems.map(toDocumentItem)
+    },
+    userId
+  );
+}
+
 // ==================== HELPER ENDPOINTS ====================
 
 /**
@@ -341,6 +520,7 @@ router.post('/preview-html', authorized('ADMIN', 'purchase-order.create'), async
         orderedQuantity: item.orderedQuantity,
         unitCost: item.unitCost.toString(),
         totalCost: totalCost.toString(),
+        uom: item.uom || null,
         notes: item.notes || null
       };
     });
@@ -409,6 +589,17 @@ router.post('/preview-html', authorized('ADMIN', 'purchase-order.create'), async
  *         name: search
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Include the supplier's catalog data (supplier SKU, pack size, MOQ, lead time, prices)
+ *       - in: query
+ *         name: catalogOnly
+ *         schema:
+ *           type: boolean
+ *         description: With supplierId, return only the products in the supplier's active catalog
  *     responses:
  *       200:
  *         description: List of inventory items with stock information
@@ -423,75 +614,69 @@ router.get('/products-with-stock', authorized('ADMIN', 'purchase-order.create'),
     const search = req.query.search as string;
     const offset = (page - 1) * limit;
 
+    const supplierId = req.query.supplierId as string;
+    const catalogOnly = req.query.catalogOnly === 'true';
+
     // Build search condition with proper parameterization to prevent SQL injection
     const searchPattern = search ? `%${search}%` : null;
+    const searchCondition = searchPattern
+      ? sql`AND (p.sku ILIKE ${searchPattern} OR p.name ILIKE ${searchPattern})`
+      : sql``;
+
+    // With a supplier, join its catalog for supplier SKU, ordering constraints and prices;
+    // catalogOnly limits the list to the products the supplier sells
+    const catalogJoin = supplierId
+      ? sql`${catalogOnly ? sql`INNER` : sql`LEFT`} JOIN supplier_products sp
+          ON sp.product_id = p.id AND sp.tenant_id = ${tenantId} AND sp.supplier_id = ${supplierId} AND sp.is_active = true`
+      : sql`LEFT JOIN supplier_products sp ON false`;
 
     // Use CTE (Common Table Expression) in a single SQL statement
     // This solves the connection pooling issue with temp views
-    const query = searchPattern
-      ? sql`
-        WITH tenant_products AS (
-          SELECT id, sku, name, minimum_stock_level
-          FROM products
-          WHERE tenant_id = ${tenantId}
-            AND (sku ILIKE ${searchPattern} OR name ILIKE ${searchPattern})
-        ),
-        tenant_inventory AS (
-          SELECT product_id, SUM(available_quantity) AS available_quantity
-          FROM inventory_items
-          WHERE tenant_id = ${tenantId}
-          GROUP BY product_id
-        )
-        SELECT 
-          p.id as product_id,
-          p.sku,
-          p.name,
-          p.minimum_stock_level,
-          COALESCE(i.available_quantity, 0) as total_available_stock
-        FROM tenant_products p
-        LEFT JOIN tenant_inventory i ON i.product_id = p.id
-        ORDER BY p.sku
-        LIMIT ${limit}
-        OFFSET ${offset}
-      `
-      : sql`
-        WITH tenant_products AS (
-          SELECT id, sku, name, minimum_stock_level
-          FROM products
-          WHERE tenant_id = ${tenantId}
-        ),
-        tenant_inventory AS (
-          SELECT product_id, SUM(available_quantity) AS available_quantity
-          FROM inventory_items
-          WHERE tenant_id = ${tenantId}
-          GROUP BY product_id
-        )
-        SELECT 
-          p.id as product_id,
-          p.sku,
-          p.name,
-          p.minimum_stock_level,
-          COALESCE(i.available_quantity, 0) as total_available_stock
-        FROM tenant_products p
-        LEFT JOIN tenant_inventory i ON i.product_id = p.id
-        ORDER BY p.sku
-        LIMIT ${limit}
-        OFFSET ${offset}
-      `;
-
-    // Get total count with the same CTE pattern
-    const countQuery = searchPattern
-      ? sql`
-        SELECT COUNT(*) as count
-        FROM products
-        WHERE tenant_id = ${tenantId}
-          AND (sku ILIKE ${searchPattern} OR name ILIKE ${searchPattern})
-      `
-      : sql`
-        SELECT COUNT(*) as count
-        FROM products
+    const query = sql`
+      WITH tenant_inventory AS (
+        SELECT product_id, SUM(available_quantity) AS available_quantity
+        FROM inventory_items
         WHERE tenant_id = ${tenantId}
-      `;
+        GROUP BY product_id
+      )
+      SELECT 
+        p.id as product_id,
+        p.sku,
+        p.name,
+        p.minimum_stock_level,
+        p.base_uom,
+        COALESCE((
+          SELECT json_agg(json_build_object('uom', pu.uom, 'conversionFactor', pu.conversion_factor)
+            ORDER BY pu.conversion_factor DESC)
+          FROM product_uoms pu
+          WHERE pu.product_id = p.id AND pu.is_active = true
+        ), '[]'::json) as uoms,
+        COALESCE(i.available_quantity, 0) as total_available_stock,
+        sp.supplier_sku,
+        sp.pack_size,
+        sp.minimum_order_quantity,
+        sp.lead_time_days,
+        sp.contract_price,
+        sp.contract_valid_from::text as contract_valid_from,
+        sp.contract_valid_to::text as contract_valid_to,
+        sp.last_purchase_price
+      FROM products p
+      ${catalogJoin}
+      LEFT JOIN tenant_inventory i ON i.product_id = p.id
+      WHERE p.tenant_id = ${tenantId}
+        ${searchCondition}
+      ORDER BY p.sku
+      LIMIT ${limit}
+      OFFSET ${offset}
+    `;
+
+    const countQuery = sql`
+      SELECT COUNT(*) as count
+      FROM products p
+      ${catalogJoin}
+      WHERE p.tenant_id = ${tenantId}
+        ${searchCondition}
+    `;
 
     const countResult = await db.execute<{ count: string }>(countQuery);
     const totalCount = parseInt(countResult[0].count);
@@ -501,16 +686,47 @@ router.get('/products-with-stock', authorized('ADMIN', 'purchase-order.create'),
       sku: string;
       name: string;
       minimum_stock_level: number;
+      base_uom: string;
+      uoms: { uom: string; conversionFactor: number }[];
       total_available_stock: number;
+      supplier_sku: string | null;
+      pack_size: number | null;
+      minimum_order_quantity: number | null;
+      lead_time_days: number | null;
+      contract_price: string | null;
+      contract_valid_from: string | null;
+      contract_valid_to: string | null;
+      last_purchase_price: string | null;
     }>(query);
 
+    const today = new Date().toISOString().split('T')[0];
+
     // Transform raw result to match expected format
     const formattedData = data.map(row => ({
       productId: row.product_id,
       sku: row.sku,
       name: row.name,
       minimumStockLevel: row.minimum_stock_level,
+      baseUom: row.base_uom,
+      uoms: row.uoms,
       totalAvailableStock: row.total_available_stock,
+      inCatalog: row.pack_size !== null,
+      supplierSku: row.supplier_sku,
+      packSize: row.pack_size,
+      minimumOrderQuantity: row.minimum_order_quantity,
+      leadTimeDays: row.lead_time_days,
+      contractPrice: row.contract_price,
+      contractValidFrom: row.contract_valid_from,
+      contractValidTo: row.contract_valid_to,
+      lastPurchasePrice: row.last_purchase_price,
+      suggestedUnitCost: row.pack_size !== null
+        ? getCatalogUnitCost({
+          contractPrice: row.contract_price,
+          contractValidFrom: row.contract_valid_from,
+          contractValidTo: row.contract_valid_to,
+          lastPurchasePrice: row.last_purchase_price,
+        }, today)
+        : null,
     }));
 
     console.log(`✅ Products query returned ${formattedData.length} products for tenant ${tenantId}`);
@@ -712,6 +928,7 @@ router.post('/preview', authorized('ADMIN', 'purchase-order.create'), async (req
           totalCost: item.unitCost && item.orderedQuantity
             ? (parseFloat(item.unitCost) * parseInt(item.orderedQuantity)).toFixed(2)
             : '0.00',
+          uom: item.uom || null,
           notes: item.notes?.toString() ?? null
         };
       })
@@ -785,7 +1002,7 @@ router.post('/preview', authorized('ADMIN', 'purchase-order.create'), async (req
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, approved, received, completed]
+ *           enum: [pending, approved, rejected, received, completed]
  *     responses:
  *       200:
  *         description: List of purchase orders
@@ -848,6 +1065,11 @@ router.get('/orders', authorized('ADMIN', 'purchase-order.view'), async (req, re
         notes: purchaseOrders.notes,
         createdBy: purchaseOrders.createdBy,
         createdByName: user.fullname,
+        approvedBy: purchaseOrders.approvedBy,
+        approvedAt: purchaseOrders.approvedAt,
+        rejectedBy: purchaseOrders.rejectedBy,
+        rejectedAt: purchaseOrders.rejectedAt,
+        rejectionReason: purchaseOrders.rejectionReason,
         createdAt: purchaseOrders.createdAt,
         updatedAt: purchaseOrders.updatedAt,
       })
@@ -935,6 +1157,12 @@ router.get('/orders/:id', authorized('ADMIN', 'purchase-order.view'), async (req
         notes: purchaseOrders.notes,
         createdBy: purchaseOrders.createdBy,
         createdByName: user.fullname,
+        approvedBy: purchaseOrders.approvedBy,
+        approvedAt: purchaseOrders.approvedAt,
+        approvalNotes: purchaseOrders.approvalNotes,
+        rejectedBy: purchaseOrders.rejectedBy,
+        rejectedAt: purchaseOrders.rejectedAt,
+        rejectionReason: purchaseOrders.rejectionReason,
         createdAt: purchaseOrders.createdAt,
         updatedAt: purchaseOrders.updatedAt,
       })
@@ -963,10 +1191,13 @@ router.get('/orders/:id', authorized('ADMIN', 'purchase-order.view'), async (req
         productId: purchaseOrderItems.productId,
         productName: products.name,
         productSku: products.sku,
+        baseUom: products.baseUom,
         orderedQuantity: purchaseOrderItems.orderedQuantity,
         receivedQuantity: purchaseOrderItems.receivedQuantity,
         unitCost: purchaseOrderItems.unitCost,
         totalCost: purchaseOrderItems.totalCost,
+        uom: purchaseOrderItems.uom,
+        uomConversionFactor: purchaseOrderItems.uomConversionFactor,
         expectedExpiryDate: purchaseOrderItems.expectedExpiryDate,
         notes: purchaseOrderItems.notes,
         createdAt: purchaseOrderItems.createdAt,
@@ -976,11 +1207,17 @@ router.get('/orders/:id', authorized('ADMIN', 'purchase-order.view'), async (req
       .leftJoin(products, eq(purchaseOrderItems.productId, products.id))
       .where(eq(purchaseOrderItems.purchaseOrderId, id));
 
+    // Alternate units let the order be edited and received in cases, pallets, etc.
+    const uomMap = await getProductUoms(tenantId, items.map((item) => item.productId));
+
     res.json({
       success: true,
       data: {
         ...record,
-        items,
+        items: items.map((item) => ({
+          ...item,
+          uoms: uomMap.get(item.productId)?.uoms || [],
+        })),
       },
     });
   } catch (error) {
@@ -1030,13 +1267,24 @@ router.get('/orders/:id', authorized('ADMIN', 'purchase-order.view'), async (req
  *                       format: uuid
  *                     orderedQuantity:
  *                       type: integer
+ *                       description: In uom
+ *                     uom:
+ *                       type: string
+ *                       description: Base or alternate unit of measure of the product (defaults to the base unit)
  *                     unitCost:
  *                       type: number
+ *                       description: Per uom
  *                     expectedExpiryDate:
  *                       type: string
  *                       format: date
  *                     notes:
  *                       type: string
+ *               replenishmentLineIds:
+ *                 type: array
+ *                 description: Open replenishment lines this PO fulfils; lines for products on the PO are marked ordered
+ *                 items:
+ *                   type: string
+ *                   format: uuid
  *     responses:
  *       201:
  *         description: Purchase order created successfully
@@ -1056,7 +1304,8 @@ router.post('/orders', authorized('ADMIN', 'purchase-order.create'), async (req,
       warehouseId,
       expectedDeliveryDate,
       notes,
-      items = []
+      items = [],
+      replenishmentLineIds = []
     } = req.body;
 
     // Validation
@@ -1095,6 +1344,8 @@ router.post('/orders', authorized('ADMIN', 'purchase-order.create'), async (req,
       });
     }
 
+    const baseItems = await convertItemsToBaseUnits(tenantId, items);
+
     // Fetch document numbering configuration to get default prefix
     const [docConfig] = await db
       .select()
@@ -1162,12 +1413,7 @@ router.post('/orders', authorized('ADMIN', 'purchase-order.create'), async (req,
       .where(eq(user.username, username));
 
     // Calculate total amount from items
-    const totalAmount = items.reduce((sum: number, item: any) => {
-      const itemTotal = item.unitCost && item.orderedQuantity 
-        ? parseFloat(item.unitCost) * parseInt(item.orderedQuantity)
-        : 0;
-      return sum + itemTotal;
-    }, 0);
+    const totalAmount = baseItems.reduce((sum: number, item) => sum + parseFloat(item.totalCost || '0'), 0);
 
     const orderId = uuidv4();
     const orderDate = new Date().toISOString().split('T')[0];
@@ -1214,23 +1460,38 @@ router.post('/orders', authorized('ADMIN', 'purchase-order.create'), async (req,
       }
 
       // Create items
-      const itemsToInsert = items.map((item: any) => ({
+      const itemsToInsert = baseItems.map((item) => ({
         id: uuidv4(),
         purchaseOrderId: newOrder.id,
         productId: item.productId,
         tenantId,
         orderedQuantity: item.orderedQuantity,
         receivedQuantity: 0,
-        unitCost: item.unitCost || null,
-        totalCost: item.unitCost && item.orderedQuantity
-          ? (parseFloat(item.unitCost) * parseInt(item.orderedQuantity)).toFixed(2)
-          : null,
+        unitCost: item.unitCost,
+        totalCost: item.totalCost,
+        uom: item.uom,
+        uomConversionFactor: item.uomConversionFactor,
         expectedExpiryDate: item.expectedExpiryDate || null,
         notes: item.notes || null,
       }));
 
       await tx.insert(purchaseOrderItems).values(itemsToInsert);
 
+      await recordLastPurchasePrices(tx, { tenantId, supplierId, orderDate, items: baseItems });
+
+      // PO drafted from a replenishment proposal: mark the lines it covers as ordered
+      if (Array.isArray(replenishmentLineIds) && replenishmentLineIds.length > 0) {
+        await tx
+          .update(replenishmentLines)
+          .set({ status: 'ordered', purchaseOrderId: newOrder.id })
+          .where(and(
+            eq(replenishmentLines.tenantId, tenantId),
+            eq(replenishmentLines.status, 'open'),
+            inArray(replenishmentLines.id, replenishmentLineIds),
+            inArray(replenishmentLines.productId, items.map((item: any) => item.productId))
+          ));
+      }
+
       // Fetch the complete PO with supplier, warehouse and items for response
       const [completeOrder] = await tx
         .select({
@@ -1276,10 +1537,13 @@ router.post('/orders', authorized('ADMIN', 'purchase-order.create'), async (req,
           productId: purchaseOrderItems.productId,
           productName: products.name,
           productSku: products.sku,
+          baseUom: products.baseUom,
           orderedQuantity: purchaseOrderItems.orderedQuantity,
           receivedQuantity: purchaseOrderItems.receivedQuantity,
           unitCost: purchaseOrderItems.unitCost,
           totalCost: purchaseOrderItems.totalCost,
+          uom: purchaseOrderItems.uom,
+          uomConversionFactor: purchaseOrderItems.uomConversionFactor,
           expectedExpiryDate: purchaseOrderItems.expectedExpiryDate,
           notes: purchaseOrderItems.notes,
         })
@@ -1310,14 +1574,7 @@ router.post('/orders', authorized('ADMIN', 'purchase-order.create'), async (req,
           warehouseAddress: completeOrder.warehouseAddress || 'N/A',
           warehouseCity: null, // Warehouse table doesn't have city field
           createdByName: completeOrder.createdByName,
-          items: orderItems.map(item => ({
-            productSku: item.productSku || 'N/A',
-            productName: item.productName || 'N/A',
-            orderedQuantity: item.orderedQuantity,
-            unitCost: item.unitCost || '0.00',
-            totalCost: item.totalCost || '0.00',
-            notes: item.notes
-          }))
+          items: orderItems.map(toDocumentItem)
         },
         currentUser?.id || ''
       );
@@ -1365,6 +1622,12 @@ router.post('/orders', authorized('ADMIN', 'purchase-order.create'), async (req,
       message: 'Purchase order created successfully',
     });
   } catch (error) {
+    if (error instanceof UomConversionError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
     console.error('Error creating purchase order:', error);
     res.status(500).json({
       success: false,
@@ -1424,11 +1687,13 @@ router.put('/orders/:id', authorized('ADMIN', 'purchase-order.edit'), async (req
       });
     }
 
-    // Only allow editing if PO is still unapproved
-    if (existingOrder.status !== 'pending' || existingOrder.workflowState !== 'approve') {
+    // Only allow editing while the PO awaits approval or after it has been rejected.
+    // Approved POs are locked.
+    const isRejected = existingOrder.status === 'rejected';
+    if (!isRejected && (existingOrder.status !== 'pending' || existingOrder.workflowState !== 'approve')) {
       return res.status(403).json({
         success: false,
-        message: 'Cannot edit purchase order: only unapproved purchase orders can be edited',
+        message: 'Cannot edit purchase order: only unapproved or rejected purchase orders can be edited',
       });
     }
 
@@ -1461,9 +1726,10 @@ router.put('/orders/:id', authorized('ADMIN', 'purchase-order.edit'), async (req
       });
     }
 
-    // Extract items if provided
+    // Extract items if provided, converted to base units
     const items = updateData.items;
     delete updateData.items;
+    const baseItems = items && items.length > 0 ? await convertItemsToBaseUnits(tenantId, items) : null;
 
     delete updateData.id;
     delete updateData.tenantId;
@@ -1472,15 +1738,22 @@ router.put('/orders/:id', authorized('ADMIN', 'purchase-order.edit'), async (req
     delete updateData.orderNumber; // Don't allow changing PO number
     delete updateData.status; // Don't allow changing status directly (unless approving)
     delete updateData.workflowState; // Don't allow changing workflow state directly
+    delete updateData.approvedBy;
+    delete updateData.approvedAt;
+    delete updateData.approvalNotes;
+    delete updateData.rejectedBy;
+    delete updateData.rejectedAt;
+    delete updateData.rejectionReason;
+
+    // Editing a rejected PO resubmits it for approval
+    if (isRejected) {
+      updateData.status = 'pending';
+      updateData.workflowState = 'approve';
+    }
 
     // Calculate total amount if items are provided
-    if (items && items.length > 0) {
-      const totalAmount = items.reduce((sum: number, item: any) => {
-        const itemTotal = item.unitCost && item.orderedQuantity
-          ? parseFloat(item.unitCost) * parseInt(item.orderedQuantity)
-          : 0;
-        return sum + itemTotal;
-      }, 0);
+    if (baseItems) {
+      const totalAmount = baseItems.reduce((sum: number, item) => sum + parseFloat(item.totalCost || '0'), 0);
       updateData.totalAmount = totalAmount.toFixed(2);
     }
 
@@ -1508,7 +1781,7 @@ router.put('/orders/:id', authorized('ADMIN', 'purchase-order.edit'), async (req
         .returning();
 
       // If items are provided, replace all items
-      if (items && items.length > 0) {
+      if (baseItems) {
         // Delete existing items
         await tx
           .delete(purchaseOrderItems)
@@ -1518,23 +1791,30 @@ router.put('/orders/:id', authorized('ADMIN', 'purchase-order.edit'), async (req
           ));
 
         // Insert new items
-        const itemsToInsert = items.map((item: any) => ({
+        const itemsToInsert = baseItems.map((item) => ({
           id: uuidv4(),
           purchaseOrderId: id,
           productId: item.productId,
           tenantId,
           orderedQuantity: item.orderedQuantity,
           receivedQuantity: 0,
-          unitCost: item.unitCost || null,
-          totalCost: item.unitCost && item.orderedQuantity
-            ? (parseFloat(item.unitCost) * parseInt(item.orderedQuantity)).toFixed(2)
-            : null,
+          unitCost: item.unitCost,
+          totalCost: item.totalCost,
+          uom: item.uom,
+          uomConversionFactor: item.uomConversionFactor,
           expectedExpiryDate: item.expectedExpiryDate || null,
           notes: item.notes || null,
         }));
 
         await tx.insert(purchaseOrderItems).values(itemsToInsert);
 
+        await recordLastPurchasePrices(tx, {
+          tenantId,
+          supplierId: updatedOrder.supplierId,
+          orderDate: updatedOrder.orderDate,
+          items: baseItems,
+        });
+
         changedFields.items = {
           from: 'previous items',
           to: `${items.length} item(s) updated`
@@ -1553,101 +1833,13 @@ router.put('/orders/:id', authorized('ADMIN', 'purchase-order.edit'), async (req
       });
     }
 
-    // Regenerate document if items were updated or PO was approved
+    // Regenerate document if items were updated
     const shouldRegenerateDocument = items && items.length > 0;
-    const isApproved = updateData.status === 'approved' && existingOrder.status !== 'approved';
 
-    if (shouldRegenerateDocument || isApproved) {
+    if (shouldRegenerateDocument) {
       try {
-        const [completeOrder] = await db
-          .select({
-            id: purchaseOrders.id,
-            tenantId: purchaseOrders.tenantId,
-            orderNumber: purchaseOrders.orderNumber,
-            supplierId: purchaseOrders.supplierId,
-            supplierName: suppliers.name,
-            supplierEmail: suppliers.email,
-            supplierPhone: suppliers.phone,
-            supplierLocationId: purchaseOrders.supplierLocationId,
-            locationAddress: supplierLocations.address,
-            locationCity: supplierLocations.city,
-            locationState: supplierLocations.state,
-            locationPostalCode: supplierLocations.postalCode,
-            locationCountry: supplierLocations.country,
-            deliveryMethod: purchaseOrders.deliveryMethod,
-            warehouseId: purchaseOrders.warehouseId,
-            warehouseName: warehouses.name,
-            warehouseAddress: warehouses.address,
-            status: purchaseOrders.status,
-            workflowState: purchaseOrders.workflowState,
-            orderDate: purchaseOrders.orderDate,
-            expectedDeliveryDate: purchaseOrders.expectedDeliveryDate,
-            totalAmount: purchaseOrders.totalAmount,
-            notes: purchaseOrders.notes,
-            createdBy: purchaseOrders.createdBy,
-            createdByName: user.fullname,
-            createdAt: purchaseOrders.createdAt,
-            updatedAt: purchaseOrders.updatedAt,
-          })
-          .from(purchaseOrders)
-          .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
-          .leftJoin(supplierLocations, eq(purchaseOrders.supplierLocationId, supplierLocations.id))
-          .leftJoin(warehouses, eq(purchaseOrders.warehouseId, warehouses.id))
-          .leftJoin(user, eq(purchaseOrders.createdBy, user.id))
-          .where(eq(purchaseOrders.id, id));
-
-        const orderItems = await db
-          .select({
-            id: purchaseOrderItems.id,
-            purchaseOrderId: purchaseOrderItems.purchaseOrderId,
-            productId: purchaseOrderItems.productId,
-            productName: products.name,
-            productSku: products.sku,
-            orderedQuantity: purchaseOrderItems.orderedQuantity,
-            receivedQuantity: purchaseOrderItems.receivedQuantity,
-            unitCost: purchaseOrderItems.unitCost,
-            totalCost: purchaseOrderItems.totalCost,
-            expectedExpiryDate: purchaseOrderItems.expectedExpiryDate,
-            notes: purchaseOrderItems.notes,
-          })
-          .from(purchaseOrderItems)
-          .leftJoin(products, eq(purchaseOrderItems.productId, products.id))
-          .where(eq(purchaseOrderItems.purchaseOrderId, id));
-
-        await PODocumentGenerator.regenerateDocument(
-          {
-            id: completeOrder.id || id,
-            tenantId: completeOrder.tenantId || tenantId,
-            orderNumber: completeOrder.orderNumber || '',
-            orderDate: completeOrder.orderDate || new Date().toISOString().split('T')[0],
-            expectedDeliveryDate: completeOrder.expectedDeliveryDate,
-            deliveryMethod: completeOrder.deliveryMethod || 'delivery',
-            totalAmount: completeOrder.totalAmount || '0.00',
-            notes: completeOrder.notes,
-            supplierName: completeOrder.supplierName || 'N/A',
-            supplierEmail: completeOrder.supplierEmail,
-            supplierPhone: completeOrder.supplierPhone,
-            locationAddress: completeOrder.locationAddress,
-            locationCity: completeOrder.locationCity,
-            locationState: completeOrder.locationState,
-            locationPostalCode: completeOrder.locationPostalCode,
-            locationCountry: completeOrder.locationCountry,
-            warehouseName: completeOrder.warehouseName || 'N/A',
-            warehouseAddress: completeOrder.warehouseAddress || 'N/A',
-            warehouseCity: null, // Warehouse table doesn't have city field
-            createdByName: completeOrder.createdByName,
-            items: orderItems.map(item => ({
-              productSku: item.productSku || 'N/A',
-              productName: item.productName || 'N/A',
-              orderedQuantity: item.orderedQuantity,
-              unitCost: item.unitCost || '0.00',
-              totalCost: item.totalCost || '0.00',
-              notes: item.notes
-            }))
-          },
-          userId
-        );
-        console.log('[PO Document Regenerated]', id, isApproved ? 'on approval' : 'on edit');
+        await regeneratePODocument(id, tenantId, userId);
+        console.log('[PO Document Regenerated]', id, 'on edit');
       } catch (docError) {
         console.error('Error regenerating PO document:', docError);
       }
@@ -1662,8 +1854,12 @@ router.put('/orders/:id', authorized('ADMIN', 'purchase-order.edit'), async (req
         action: 'update',
         resourceType: 'purchase_order',
         resourceId: id,
-        description: `Updated unapproved purchase order ${existingOrder.orderNumber}`,
+        description: isRejected
+          ? `Updated and resubmitted rejected purchase order ${existingOrder.orderNumber}`
+          : `Updated unapproved purchase order ${existingOrder.orderNumber}`,
         changedFields,
+        previousState: isRejected ? existingOrder.workflowState || undefined : undefined,
+        newState: isRejected ? 'approve' : undefined,
         ipAddress: getClientIp(req),
       });
     }
@@ -1674,6 +1870,12 @@ router.put('/orders/:id', authorized('ADMIN', 'purchase-order.edit'), async (req
       message: 'Purchase order updated successfully',
     });
   } catch (error) {
+    if (error instanceof UomConversionError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
     console.error('Error updating purchase order:', error);
     res.status(500).json({
       success: false,
@@ -1682,6 +1884,283 @@ router.put('/orders/:id', authorized('ADMIN', 'purchase-order.edit'), async (req
   }
 });
 
+/**
+ * @swagger
+ * /api/modules/purchase-order/orders/{id}/approve:
+ *   post:
+ *     summary: Approve a purchase order
+ *     description: Moves the PO from the approve step to the next active step of the tenant's PO workflow and locks it against edits
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *                 description: Optional approval comment
+ *     responses:
+ *       200:
+ *         description: Purchase order approved successfully
+ *       400:
+ *         description: Purchase order is not awaiting approval or approval step is inactive
+ *       404:
+ *         description: Purchase order not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/orders/:id/approve', authorized('ADMIN', 'purchase-order.approve'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const { notes } = req.body || {};
+
+    const [existingOrder] = await db
+      .select()
+      .from(purchaseOrders)
+      .where(and(
+        eq(purchaseOrders.id, id),
+        eq(purchaseOrders.tenantId, tenantId)
+      ));
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found',
+      });
+    }
+
+    if (existingOrder.status !== 'pending' || existingOrder.workflowState !== 'approve') {
+      return res.status(400).json({
+        success: false,
+        message: 'Purchase order is not awaiting approval',
+      });
+    }
+
+    const steps = await getActiveWorkflowSteps(tenantId, 'PURCHASE_ORDER');
+    if (!isStepActive(steps, 'approve')) {
+      return res.status(400).json({
+        success: false,
+        message: 'The approve step is not active in the purchase order workflow',
+      });
+    }
+
+    const nextStep = getNextStep(steps, 'approve');
+    const newState = (nextStep?.stepKey || 'complete') as typeof existingOrder.workflowState;
+
+    const [updatedOrder] = await db
+      .update(purchaseOrders)
+      .set({
+        status: 'approved',
+        workflowState: newState,
+        approvedBy: userId,
+        approvedAt: new Date(),
+        approvalNotes: notes || null,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(purchaseOrders.id, id),
+        eq(purchaseOrders.tenantId, tenantId),
+        eq(purchaseOrders.status, 'pending'),
+        eq(purchaseOrders.workflowState, 'approve')
+      ))
+      .returning();
+
+    if (!updatedOrder) {
+      return res.status(409).json({
+        success: false,
+        message: 'Purchase order was modified by another user, please reload',
+      });
+    }
+
+    try {
+      await regeneratePODocument(id, tenantId, userId);
+      console.log('[PO Document Regenerated]', id, 'on approval');
+    } catch (docError) {
+      console.error('Error regenerating PO document:', docError);
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'purchase-order',
+      action: 'approve',
+      resourceType: 'purchase_order',
+      resourceId: id,
+      description: `Approved purchase order ${existingOrder.orderNumber}${notes ? `: ${notes}` : ''}`,
+      changedFields: {
+        status: { from: existingOrder.status, to: 'approved' },
+        workflowState: { from: existingOrder.workflowState, to: newState },
+        approvalNotes: notes || null,
+      },
+      previousState: existingOrder.workflowState || undefined,
+      newState: newState || undefined,
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: updatedOrder,
+      message: 'Purchase order approved successfully',
+    });
+  } catch (error) {
+    console.error('Error approving purchase order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/orders/{id}/reject:
+ *   post:
+ *     summary: Reject a purchase order
+ *     description: Sends the PO back to the create step so it can be edited and resubmitted
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Purchase order rejected successfully
+ *       400:
+ *         description: Missing reason or purchase order is not awaiting approval
+ *       404:
+ *         description: Purchase order not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/orders/:id/reject', authorized('ADMIN', 'purchase-order.approve'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const { reason } = req.body || {};
+
+    if (!reason || !String(reason).trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Rejection reason is required',
+      });
+    }
+
+    const [existingOrder] = await db
+      .select()
+      .from(purchaseOrders)
+      .where(and(
+        eq(purchaseOrders.id, id),
+        eq(purchaseOrders.tenantId, tenantId)
+      ));
+
+    if (!existingOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found',
+      });
+    }
+
+    if (existingOrder.status !== 'pending' || existingOrder.workflowState !== 'approve') {
+      return res.status(400).json({
+        success: false,
+        message: 'Purchase order is not awaiting approval',
+      });
+    }
+
+    const steps = await getActiveWorkflowSteps(tenantId, 'PURCHASE_ORDER');
+    if (!isStepActive(steps, 'approve')) {
+      return res.status(400).json({
+        success: false,
+        message: 'The approve step is not active in the purchase order workflow',
+      });
+    }
+
+    const [updatedOrder] = await db
+      .update(purchaseOrders)
+      .set({
+        status: 'rejected',
+        workflowState: 'create',
+        rejectedBy: userId,
+        rejectedAt: new Date(),
+        rejectionReason: String(reason).trim(),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(purchaseOrders.id, id),
+        eq(purchaseOrders.tenantId, tenantId),
+        eq(purchaseOrders.status, 'pending'),
+        eq(purchaseOrders.workflowState, 'approve')
+      ))
+      .returning();
+
+    if (!updatedOrder) {
+      return res.status(409).json({
+        success: false,
+        message: 'Purchase order was modified by another user, please reload',
+      });
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'purchase-order',
+      action: 'reject',
+      resourceType: 'purchase_order',
+      resourceId: id,
+      description: `Rejected purchase order ${existingOrder.orderNumber}: ${String(reason).trim()}`,
+      changedFields: {
+        status: { from: existingOrder.status, to: 'rejected' },
+        workflowState: { from: existingOrder.workflowState, to: 'create' },
+        rejectionReason: String(reason).trim(),
+      },
+      previousState: existingOrder.workflowState || undefined,
+      newState: 'create',
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: updatedOrder,
+      message: 'Purchase order rejected successfully',
+    });
+  } catch (error) {
+    console.error('Error rejecting purchase order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/modules/purchase-order/orders/{id}:
@@ -1727,11 +2206,13 @@ router.delete('/orders/:id', authorized('ADMIN', 'purchase-order.delete'), async
       });
     }
 
-    // Only allow deleting if PO is still unapproved
-    if (existingOrder.status !== 'pending' || existingOrder.workflowState !== 'approve') {
+    // Only allow deleting if PO is still unapproved or has been rejected
+    const isDeletable = existingOrder.status === 'rejected'
+      || (existingOrder.status === 'pending' && existingOrder.workflowState === 'approve');
+    if (!isDeletable) {
       return res.status(403).json({
         success: false,
-        message: 'Cannot delete purchase order: only unapproved purchase orders can be deleted',
+        message: 'Cannot delete purchase order: only unapproved or rejected purchase orders can be deleted',
       });
     }
 
@@ -1800,7 +2281,7 @@ router.delete('/orders/:id', authorized('ADMIN', 'purchase-order.delete'), async
       action: 'delete',
       resourceType: 'purchase_order',
       resourceId: id,
-      description: `Deleted unapproved purchase order ${existingOrder.orderNumber}`,
+      description: `Deleted ${existingOrder.status === 'rejected' ? 'rejected' : 'unapproved'} purchase order ${existingOrder.orderNumber}`,
       ipAddress: getClientIp(req),
     });
 
@@ -1875,10 +2356,13 @@ router.get('/items', authorized('ADMIN', 'purchase-order.view'), async (req, res
         productId: purchaseOrderItems.productId,
         productName: products.name,
         productSku: products.sku,
+        baseUom: products.baseUom,
         orderedQuantity: purchaseOrderItems.orderedQuantity,
         receivedQuantity: purchaseOrderItems.receivedQuantity,
         unitCost: purchaseOrderItems.unitCost,
         totalCost: purchaseOrderItems.totalCost,
+        uom: purchaseOrderItems.uom,
+        uomConversionFactor: purchaseOrderItems.uomConversionFactor,
         expectedExpiryDate: purchaseOrderItems.expectedExpiryDate,
         notes: purchaseOrderItems.notes,
         createdAt: purchaseOrderItems.createdAt,
@@ -1951,10 +2435,13 @@ router.get('/items/:id', authorized('ADMIN', 'purchase-order.view'), async (req,
         productId: purchaseOrderItems.productId,
         productName: products.name,
         productSku: products.sku,
+        baseUom: products.baseUom,
         orderedQuantity: purchaseOrderItems.orderedQuantity,
         receivedQuantity: purchaseOrderItems.receivedQuantity,
         unitCost: purchaseOrderItems.unitCost,
         totalCost: purchaseOrderItems.totalCost,
+        uom: purchaseOrderItems.uom,
+        uomConversionFactor: purchaseOrderItems.uomConversionFactor,
         expectedExpiryDate: purchaseOrderItems.expectedExpiryDate,
         notes: purchaseOrderItems.notes,
         createdAt: purchaseOrderItems.createdAt,
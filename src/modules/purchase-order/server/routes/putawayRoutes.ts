@@ -0,0 +1,586 @@
+import express from 'express';
+import { db } from '@server/lib/db';
+import { purchaseOrders } from '../lib/db/schemas/purchaseOrder';
+import { goodsReceipts } from '../lib/db/schemas/goodsReceipt';
+import { putawayTasks } from '../lib/db/schemas/putaway';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { bins, warehouses } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { eq, and, desc, count, ilike, or } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { logAudit, getClientIp } from '@server/services/auditService';
+import { getActiveWorkflowSteps, getNextStep } from '@modules/workflow/server/services/workflowService';
+import { evaluatePutawayBins } from '../services/putawayService';
+import { getFrozenBins } from '@modules/inventory-items/server/services/cycleCountService';
+import { recordBinMove } from '@modules/inventory-items/server/services/stockMovementService';
+import { getBinCapacityWarnings } from '@modules/warehouse-setup/server/services/capacityService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('purchase-order'));
+
+const fromBins = alias(bins, 'from_bins');
+const suggestedBins = alias(bins, 'suggested_bins');
+const toBins = alias(bins, 'to_bins');
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PutawayTask:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         warehouseId:
+ *           type: string
+ *           format: uuid
+ *         purchaseOrderId:
+ *           type: string
+ *           format: uuid
+ *         goodsReceiptId:
+ *           type: string
+ *           format: uuid
+ *         goodsReceiptItemId:
+ *           type: string
+ *           format: uuid
+ *         productId:
+ *           type: string
+ *           format: uuid
+ *         inventoryItemId:
+ *           type: string
+ *           format: uuid
+ *         quantity:
+ *           type: integer
+ *         fromBinId:
+ *           type: string
+ *           format: uuid
+ *           description: Staging bin the goods were received into
+ *         suggestedBinId:
+ *           type: string
+ *           format: uuid
+ *           description: Suggested destination, set when the warehouse has autoAssignBins enabled
+ *         toBinId:
+ *           type: string
+ *           format: uuid
+ *           description: Confirmed destination
+ *         isOverridden:
+ *           type: boolean
+ *         status:
+ *           type: string
+ *           enum: [pending, completed]
+ *         completedBy:
+ *           type: string
+ *           format: uuid
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+// ==================== HELPER FUNCTIONS ====================
+
+class PutawayValidationError extends Error {}
+
+const taskColumns = {
+  id: putawayTasks.id,
+  warehouseId: putawayTasks.warehouseId,
+  warehouseName: warehouses.name,
+  purchaseOrderId: putawayTasks.purchaseOrderId,
+  orderNumber: purchaseOrders.orderNumber,
+  goodsReceiptId: putawayTasks.goodsReceiptId,
+  receiptNumber: goodsReceipts.receiptNumber,
+  goodsReceiptItemId: putawayTasks.goodsReceiptItemId,
+  productId: putawayTasks.productId,
+  productSku: products.sku,
+  productName: products.name,
+  inventoryItemId: putawayTasks.inventoryItemId,
+  quantity: putawayTasks.quantity,
+  fromBinId: putawayTasks.fromBinId,
+  fromBinName: fromBins.name,
+  suggestedBinId: putawayTasks.suggestedBinId,
+  suggestedBinName: suggestedBins.name,
+  toBinId: putawayTasks.toBinId,
+  toBinName: toBins.name,
+  isOverridden: putawayTasks.isOverridden,
+  status: putawayTasks.status,
+  notes: putawayTasks.notes,
+  completedBy: putawayTasks.completedBy,
+  completedAt: putawayTasks.completedAt,
+  createdAt: putawayTasks.createdAt,
+};
+
+function selectTasks() {
+  return db
+    .select(taskColumns)
+    .from(putawayTasks)
+    .leftJoin(warehouses, eq(putawayTasks.warehouseId, warehouses.id))
+    .leftJoin(purchaseOrders, eq(putawayTasks.purchaseOrderId, purchaseOrders.id))
+    .leftJoin(goodsReceipts, eq(putawayTasks.goodsReceiptId, goodsReceipts.id))
+    .leftJoin(products, eq(putawayTasks.productId, products.id))
+    .leftJoin(fromBins, eq(putawayTasks.fromBinId, fromBins.id))
+    .leftJoin(suggestedBins, eq(putawayTasks.suggestedBinId, suggestedBins.id))
+    .leftJoin(toBins, eq(putawayTasks.toBinId, toBins.id));
+}
+
+// ==================== PUTAWAY TASKS ====================
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/putaway-tasks:
+ *   get:
+ *     summary: Get all putaway tasks
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed]
+ *       - in: query
+ *         name: purchaseOrderId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by receipt number, PO number or product SKU
+ *     responses:
+ *       200:
+ *         description: List of putaway tasks
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/putaway-tasks', authorized('ADMIN', 'purchase-order.putaway'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = req.query.status as string;
+    const purchaseOrderId = req.query.purchaseOrderId as string;
+    const search = req.query.search as string;
+    const offset = (page - 1) * limit;
+
+    const whereConditions = [eq(putawayTasks.tenantId, tenantId)];
+    if (status) {
+      whereConditions.push(eq(putawayTasks.status, status as any));
+    }
+    if (purchaseOrderId) {
+      whereConditions.push(eq(putawayTasks.purchaseOrderId, purchaseOrderId));
+    }
+    if (search) {
+      whereConditions.push(
+        or(
+          ilike(goodsReceipts.receiptNumber, `%${search}%`),
+          ilike(purchaseOrders.orderNumber, `%${search}%`),
+          ilike(products.sku, `%${search}%`)
+        )!
+      );
+    }
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(putawayTasks)
+      .leftJoin(purchaseOrders, eq(putawayTasks.purchaseOrderId, purchaseOrders.id))
+      .leftJoin(goodsReceipts, eq(putawayTasks.goodsReceiptId, goodsReceipts.id))
+      .leftJoin(products, eq(putawayTasks.productId, products.id))
+      .where(and(...whereConditions));
+
+    const data = await selectTasks()
+      .where(and(...whereConditions))
+      .orderBy(desc(putawayTasks.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(totalResult.count / limit);
+
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching putaway tasks:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/putaway-tasks/{id}/suggestions:
+ *   get:
+ *     summary: Get ranked destination bins for a putaway task
+ *     description: |
+ *       Bins are checked against fixed SKU, category, the product temperature range and remaining weight/volume
+ *       capacity, then ranked by those matches and the bin accessibility score.
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: includeIneligible
+ *         schema:
+ *           type: boolean
+ *         description: Also return bins that fail a constraint, with the reasons
+ *     responses:
+ *       200:
+ *         description: Ranked bins
+ *       404:
+ *         description: Putaway task not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/putaway-tasks/:id/suggestions', authorized('ADMIN', 'purchase-order.putaway'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+
+    const [task] = await db
+      .select()
+      .from(putawayTasks)
+      .where(and(eq(putawayTasks.id, id), eq(putawayTasks.tenantId, tenantId)));
+
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        message: 'Putaway task not found',
+      });
+    }
+
+    const data = await evaluatePutawayBins(db, {
+      tenantId,
+      warehouseId: task.warehouseId,
+      productId: task.productId,
+      quantity: task.quantity,
+      excludeBinIds: [task.fromBinId],
+      excludeTaskId: task.id,
+      includeIneligible: req.query.includeIneligible === 'true',
+    });
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error fetching putaway suggestions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/putaway-tasks/{id}/confirm:
+ *   post:
+ *     summary: Confirm a putaway task, moving the stock from the staging bin to the destination bin
+ *     description: |
+ *       Uses the suggested bin unless `binId` overrides it. An overriding bin must still pass the bin constraints,
+ *       so a bin the stock would push over its max weight or volume is refused; a bin left nearly full is
+ *       reported in `warnings`. When the last pending task of a purchase order in the `putaway` step is confirmed,
+ *       the order moves to the next active workflow step.
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               binId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Destination bin, overriding the suggestion
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Putaway confirmed; `warnings` lists capacity warnings for the destination bin
+ *       400:
+ *         description: Task already completed, no destination, or destination not suitable (including over capacity)
+ *       404:
+ *         description: Putaway task not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/putaway-tasks/:id/confirm', authorized('ADMIN', 'purchase-order.putaway'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const { binId, notes } = req.body;
+
+    const [existing] = await db
+      .select({ id: putawayTasks.id, purchaseOrderId: putawayTasks.purchaseOrderId })
+      .from(putawayTasks)
+      .where(and(eq(putawayTasks.id, id), eq(putawayTasks.tenantId, tenantId)));
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Putaway task not found',
+      });
+    }
+
+    const workflowSteps = await getActiveWorkflowSteps(tenantId, 'PURCHASE_ORDER');
+
+    const result = await db.transaction(async (tx) => {
+      // Lock the PO first so the last two tasks of an order cannot both miss the completion check
+      const [order] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, existing.purchaseOrderId))
+        .for('update');
+
+      const [task] = await tx
+        .select()
+        .from(putawayTasks)
+        .where(eq(putawayTasks.id, id))
+        .for('update');
+
+      if (task.status !== 'pending') {
+        throw new PutawayValidationError('Putaway task is already completed');
+      }
+
+      const destinationBinId: string | null = binId || task.suggestedBinId;
+      if (!destinationBinId) {
+        throw new PutawayValidationError('Select a destination bin');
+      }
+      if (destinationBinId === task.fromBinId) {
+        throw new PutawayValidationError('Destination bin must differ from the staging bin');
+      }
+
+      const evaluations = await evaluatePutawayBins(tx, {
+        tenantId,
+        warehouseId: task.warehouseId,
+        productId: task.productId,
+        quantity: task.quantity,
+        excludeBinIds: [task.fromBinId],
+        excludeTaskId: task.id,
+        includeIneligible: true,
+      });
+      const destination = evaluations.find((evaluation) => evaluation.binId === destinationBinId);
+      if (!destination) {
+        throw new PutawayValidationError('Destination bin must belong to the task warehouse');
+      }
+      if (!destination.eligible) {
+        throw new PutawayValidationError(`Bin ${destination.binName} is not suitable: ${destination.reasons.join(', ')}`);
+      }
+
+      const frozenStaging = await getFrozenBins(tx, tenantId, [task.fromBinId]);
+      if (frozenStaging.size > 0) {
+        throw new PutawayValidationError(`Staging bin is frozen by cycle count ${frozenStaging.get(task.fromBinId)}`);
+      }
+
+      const [stagedItem] = await tx
+        .select()
+        .from(inventoryItems)
+        .where(eq(inventoryItems.id, task.inventoryItemId))
+        .for('update');
+
+      if (!stagedItem || stagedItem.binId !== task.fromBinId || stagedItem.availableQuantity < task.quantity) {
+        throw new PutawayValidationError('Staged stock for this task is no longer available in the staging bin');
+      }
+
+      // Move the whole row when possible so it keeps its link to the receipt line; otherwise split it
+      let destinationItemId = stagedItem.id;
+      if (stagedItem.availableQuantity === task.quantity && stagedItem.reservedQuantity === 0) {
+        await tx
+          .update(inventoryItems)
+          .set({ binId: destinationBinId, updatedAt: new Date() })
+          .where(eq(inventoryItems.id, stagedItem.id));
+      } else {
+        await tx
+          .update(inventoryItems)
+          .set({
+            availableQuantity: stagedItem.availableQuantity - task.quantity,
+            updatedAt: new Date(),
+          })
+          .where(eq(inventoryItems.id, stagedItem.id));
+
+        const [movedItem] = await tx
+          .insert(inventoryItems)
+          .values({
+            tenantId,
+            productId: stagedItem.productId,
+            binId: destinationBinId,
+            availableQuantity: task.quantity,
+            reservedQuantity: 0,
+            expiryDate: stagedItem.expiryDate,
+            batchNumber: stagedItem.batchNumber,
+            lotNumber: stagedItem.lotNumber,
+            receivedDate: stagedItem.receivedDate,
+            costPerUnit: stagedItem.costPerUnit,
+          })
+          .returning();
+        destinationItemId = movedItem.id;
+      }
+
+      await recordBinMove(tx, {
+        tenantId,
+        movementType: 'putaway',
+        productId: stagedItem.productId,
+        batchNumber: stagedItem.batchNumber,
+        lotNumber: stagedItem.lotNumber,
+        expiryDate: stagedItem.expiryDate,
+        fromBinId: task.fromBinId,
+        toBinId: destinationBinId,
+        fromInventoryItemId: stagedItem.id,
+        toInventoryItemId: destinationItemId,
+        quantity: task.quantity,
+        referenceType: 'putaway_task',
+        referenceId: task.id,
+        referenceNumber: order.orderNumber,
+        notes: notes || null,
+        createdBy: userId,
+      });
+
+      const isOverridden = !!task.suggestedBinId && task.suggestedBinId !== destinationBinId;
+      const [completedTask] = await tx
+        .update(putawayTasks)
+        .set({
+          toBinId: destinationBinId,
+          isOverridden,
+          status: 'completed',
+          notes: notes || task.notes,
+          completedBy: userId,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(putawayTasks.id, id))
+        .returning();
+
+      // Move the PO on once all of its received stock is put away
+      let orderCompleted = false;
+      let newState = order.workflowState;
+      if (order.workflowState === 'putaway') {
+        const [pending] = await tx
+          .select({ count: count() })
+          .from(putawayTasks)
+          .where(and(
+            eq(putawayTasks.purchaseOrderId, order.id),
+            eq(putawayTasks.status, 'pending')
+          ));
+
+        if (pending.count === 0) {
+          newState = (getNextStep(workflowSteps, 'putaway')?.stepKey || 'complete') as typeof newState;
+          await tx
+            .update(purchaseOrders)
+            .set({
+              status: newState === 'complete' ? 'completed' : order.status,
+              workflowState: newState,
+              updatedAt: new Date(),
+            })
+            .where(eq(purchaseOrders.id, order.id));
+          orderCompleted = true;
+        }
+      }
+
+      return { order, task: completedTask, destination, destinationItemId, isOverridden, orderCompleted, newState };
+    });
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'purchase-order',
+      action: 'update',
+      resourceType: 'putaway_task',
+      resourceId: id,
+      description: `Put away ${result.task.quantity} unit(s) for ${result.order.orderNumber} into bin ${result.destination.binName}`
+        + (result.isOverridden ? ' (suggestion overridden)' : ''),
+      changedFields: {
+        status: { from: 'pending', to: 'completed' },
+        fromBinId: result.task.fromBinId,
+        suggestedBinId: result.task.suggestedBinId,
+        toBinId: result.task.toBinId,
+        isOverridden: result.isOverridden,
+        inventoryItemId: result.destinationItemId,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    if (result.orderCompleted) {
+      await logAudit({
+        tenantId,
+        userId,
+        module: 'purchase-order',
+        action: 'state_change',
+        resourceType: 'purchase_order',
+        resourceId: result.order.id,
+        description: `Purchase order ${result.order.orderNumber} put away`,
+        changedFields: {
+          workflowState: { from: result.order.workflowState, to: result.newState },
+        },
+        previousState: result.order.workflowState || undefined,
+        newState: result.newState || undefined,
+        ipAddress: getClientIp(req),
+      });
+    }
+
+    const warnings = await getBinCapacityWarnings(db, tenantId, result.task.toBinId!);
+
+    res.json({
+      success: true,
+      data: result.task,
+      warnings,
+      message: result.orderCompleted
+        ? 'Putaway confirmed, purchase order putaway complete'
+        : 'Putaway confirmed successfully',
+    });
+  } catch (error) {
+    if (error instanceof PutawayValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error confirming putaway task:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,396 @@
+import express from 'express';
+import { db } from '@server/lib/db';
+import { purchaseOrders } from '../lib/db/schemas/purchaseOrder';
+import { replenishmentLines, replenishmentRuns } from '../lib/db/schemas/replenishment';
+import { products, suppliers } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { user } from '@server/lib/db/schema/system';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { eq, and, desc, asc, count, inArray } from 'drizzle-orm';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { logAudit, getClientIp } from '@server/services/auditService';
+import { runReplenishment } from '../services/replenishmentService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('purchase-order'));
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReplenishmentLine:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         runId:
+ *           type: string
+ *           format: uuid
+ *         productId:
+ *           type: string
+ *           format: uuid
+ *         supplierId:
+ *           type: string
+ *           format: uuid
+ *           description: Preferred catalog supplier, else the supplier of the product's latest PO; null if neither exists
+ *         availableQuantity:
+ *           type: integer
+ *           description: On hand less reserved
+ *         reservedQuantity:
+ *           type: integer
+ *         openPoQuantity:
+ *           type: integer
+ *           description: Still to be received on pending and approved POs
+ *         projectedQuantity:
+ *           type: integer
+ *           description: availableQuantity + openPoQuantity
+ *         reorderPoint:
+ *           type: integer
+ *         minimumStockLevel:
+ *           type: integer
+ *         suggestedQuantity:
+ *           type: integer
+ *           description: Rounded up to the supplier's minimum order quantity and pack size when the product is in its catalog
+ *         unitCost:
+ *           type: number
+ *           description: Catalog contract or last purchase price, else the unit cost on the latest PO
+ *         status:
+ *           type: string
+ *           enum: [open, ordered, dismissed, superseded]
+ *         purchaseOrderId:
+ *           type: string
+ *           format: uuid
+ */
+
+// ==================== REPLENISHMENT ====================
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/replenishment/runs:
+ *   get:
+ *     summary: Get replenishment runs
+ *     tags: [Replenishment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: List of replenishment runs, newest first
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/replenishment/runs', authorized('ADMIN', 'purchase-order.replenish'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const offset = (page - 1) * limit;
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(replenishmentRuns)
+      .where(eq(replenishmentRuns.tenantId, tenantId));
+
+    const data = await db
+      .select({
+        id: replenishmentRuns.id,
+        trigger: replenishmentRuns.trigger,
+        productCount: replenishmentRuns.productCount,
+        supplierCount: replenishmentRuns.supplierCount,
+        createdBy: replenishmentRuns.createdBy,
+        createdByName: user.fullname,
+        createdAt: replenishmentRuns.createdAt,
+      })
+      .from(replenishmentRuns)
+      .leftJoin(user, eq(replenishmentRuns.createdBy, user.id))
+      .where(eq(replenishmentRuns.tenantId, tenantId))
+      .orderBy(desc(replenishmentRuns.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(totalResult.count / limit);
+
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching replenishment runs:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/replenishment/proposals:
+ *   get:
+ *     summary: Get the draft POs proposed by a replenishment run, grouped by supplier
+ *     tags: [Replenishment]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: runId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Run to show (defaults to the latest run)
+ *     responses:
+ *       200:
+ *         description: The run and one proposal per supplier; run is null when replenishment has never run
+ *       404:
+ *         description: Run not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/replenishment/proposals', authorized('ADMIN', 'purchase-order.replenish'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const runId = req.query.runId as string;
+
+    const [run] = await db
+      .select()
+      .from(replenishmentRuns)
+      .where(runId
+        ? and(eq(replenishmentRuns.id, runId), eq(replenishmentRuns.tenantId, tenantId))
+        : eq(replenishmentRuns.tenantId, tenantId))
+      .orderBy(desc(replenishmentRuns.createdAt))
+      .limit(1);
+
+    if (!run) {
+      if (runId) {
+        return res.status(404).json({
+          success: false,
+          message: 'Replenishment run not found',
+        });
+      }
+      return res.json({
+        success: true,
+        data: { run: null, proposals: [] },
+      });
+    }
+
+    const lines = await db
+      .select({
+        id: replenishmentLines.id,
+        productId: replenishmentLines.productId,
+        sku: products.sku,
+        name: products.name,
+        supplierId: replenishmentLines.supplierId,
+        supplierName: suppliers.name,
+        availableQuantity: replenishmentLines.availableQuantity,
+        reservedQuantity: replenishmentLines.reservedQuantity,
+        openPoQuantity: replenishmentLines.openPoQuantity,
+        projectedQuantity: replenishmentLines.projectedQuantity,
+        reorderPoint: replenishmentLines.reorderPoint,
+        minimumStockLevel: replenishmentLines.minimumStockLevel,
+        suggestedQuantity: replenishmentLines.suggestedQuantity,
+        unitCost: replenishmentLines.unitCost,
+        status: replenishmentLines.status,
+        purchaseOrderId: replenishmentLines.purchaseOrderId,
+        orderNumber: purchaseOrders.orderNumber,
+      })
+      .from(replenishmentLines)
+      .innerJoin(products, eq(replenishmentLines.productId, products.id))
+      .leftJoin(suppliers, eq(replenishmentLines.supplierId, suppliers.id))
+      .leftJoin(purchaseOrders, eq(replenishmentLines.purchaseOrderId, purchaseOrders.id))
+      .where(eq(replenishmentLines.runId, run.id))
+      .orderBy(asc(suppliers.name), asc(products.sku));
+
+    const proposals = new Map<string | null, {
+      supplierId: string | null;
+      supplierName: string | null;
+      estimatedTotal: number;
+      lines: typeof lines;
+    }>();
+    for (const line of lines) {
+      let proposal = proposals.get(line.supplierId);
+      if (!proposal) {
+        proposal = { supplierId: line.supplierId, supplierName: line.supplierName, estimatedTotal: 0, lines: [] };
+        proposals.set(line.supplierId, proposal);
+      }
+      proposal.lines.push(line);
+      if (line.status === 'open') {
+        proposal.estimatedTotal += line.suggestedQuantity * parseFloat(line.unitCost || '0');
+      }
+    }
+
+    res.json({
+      success: true,
+      data: {
+        run,
+        proposals: [...proposals.values()].map((proposal) => ({
+          ...proposal,
+          estimatedTotal: Math.round(proposal.estimatedTotal * 100) / 100,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching replenishment proposals:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/replenishment/runs:
+ *   post:
+ *     summary: Run replenishment now
+ *     description: |
+ *       Proposes every active product whose projected stock (available + open PO quantity) is at or below its
+ *       reorder point, for enough units to reach the reorder point plus the minimum stock level. Open lines of
+ *       earlier runs are superseded.
+ *     tags: [Replenishment]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Run completed
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/replenishment/runs', authorized('ADMIN', 'purchase-order.replenish'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+
+    const run = await runReplenishment(tenantId, { trigger: 'manual', userId });
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'purchase-order',
+      action: 'create',
+      resourceType: 'replenishment_run',
+      resourceId: run.id,
+      description: `Ran replenishment: ${run.productCount} product(s) to reorder from ${run.supplierCount} supplier(s)`,
+      changedFields: {
+        productCount: run.productCount,
+        supplierCount: run.supplierCount,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: run,
+      message: 'Replenishment run completed',
+    });
+  } catch (error) {
+    console.error('Error running replenishment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/purchase-order/replenishment/lines/dismiss:
+ *   post:
+ *     summary: Dismiss open replenishment lines
+ *     tags: [Replenishment]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lineIds
+ *             properties:
+ *               lineIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       200:
+ *         description: Lines dismissed
+ *       400:
+ *         description: No lines given
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/replenishment/lines/dismiss', authorized('ADMIN', 'purchase-order.replenish'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { lineIds } = req.body;
+
+    if (!Array.isArray(lineIds) || lineIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'At least one line is required',
+      });
+    }
+
+    const dismissed = await db
+      .update(replenishmentLines)
+      .set({ status: 'dismissed' })
+      .where(and(
+        eq(replenishmentLines.tenantId, tenantId),
+        eq(replenishmentLines.status, 'open'),
+        inArray(replenishmentLines.id, lineIds)
+      ))
+      .returning({ id: replenishmentLines.id, runId: replenishmentLines.runId });
+
+    if (dismissed.length > 0) {
+      await logAudit({
+        tenantId,
+        userId: req.user!.id,
+        module: 'purchase-order',
+        action: 'update',
+        resourceType: 'replenishment_run',
+        resourceId: dismissed[0].runId,
+        description: `Dismissed ${dismissed.length} replenishment line(s)`,
+        changedFields: {
+          lineIds: dismissed.map((line) => line.id),
+          status: { from: 'open', to: 'dismissed' },
+        },
+        ipAddress: getClientIp(req),
+      });
+    }
+
+    res.json({
+      success: true,
+      data: dismissed,
+      message: `Dismissed ${dismissed.length} line(s)`,
+    });
+  } catch (error) {
+    console.error('Error dismissing replenishment lines:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
@@ -31,6 +31,8 @@ interface PODocumentData {
     orderedQuantity: number;
     unitCost: string;
     totalCost: string;
+    // Unit the quantity and unit cost are in; omitted for the product's base unit
+    uom?: string | null;
     notes: string | null;
   }>;
 }
@@ -330,7 +332,7 @@ export class PODocumentGenerator {
           ${item.productName}
           ${item.notes ? `<br><small style="color: #666;">${item.notes}</small>` : ''}
         </td>
-        <td class="text-center">${item.orderedQuantity}</td>
+        <td class="text-center">${item.orderedQuantity}${item.uom ? ` ${item.uom}` : ''}</td>
         <td class="text-right">$${parseFloat(item.unitCost).toFixed(2)}</td>
         <td class="text-right">$${parseFloat(item.totalCost).toFixed(2)}</td>
       </tr>
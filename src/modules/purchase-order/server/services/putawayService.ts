@@ -0,0 +1,359 @@
+import { db } from '@server/lib/db';
+import { putawayTasks } from '../lib/db/schemas/putaway';
+import { products, productTypes } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { aisles, bins, shelves, warehouseConfigs, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { getFrozenBins } from '@modules/inventory-items/server/services/cycleCountService';
+import { parseVolume } from '@modules/warehouse-setup/server/services/capacityService';
+import { and, eq, ne, sql } from 'drizzle-orm';
+
+type Executor = Pick<typeof db, 'select' | 'insert'>;
+
+export interface PutawayBinEvaluation {
+  binId: string;
+  binName: string;
+  zoneName: string;
+  aisleName: string;
+  shelfName: string;
+  eligible: boolean;
+  score: number;
+  reasons: string[];
+}
+
+interface TemperatureRange {
+  min: number;
+  max: number;
+}
+
+interface BinLoad {
+  weight: number;
+  volume: number;
+  productIds: Set<string>;
+}
+
+interface ProductProfile {
+  id: string;
+  sku: string;
+  weight: number;
+  volume: number | null;
+  category: string | null;
+  temperature: { min: number | null; max: number | null } | null;
+}
+
+// Score weights; hard constraints (fixed SKU, category, temperature, capacity) exclude a bin instead
+const FIXED_SKU_MATCH_SCORE = 1000;
+const CATEGORY_MATCH_SCORE = 200;
+const SAME_PRODUCT_SCORE = 100;
+const UNNEEDED_TEMPERATURE_PENALTY = 300;
+
+/**
+ * Parse a bin temperature such as "2-8", "-25 to -18", "2~8 °C" or "-18"; non-numeric values (e.g. "ambient") yield null
+ */
+function parseTemperature(value: string | null): TemperatureRange | null {
+  if (!value) return null;
+
+  const range = value.match(/(-?\d+(?:\.\d+)?)\s*(?:-|to|~|–)\s*(-?\d+(?:\.\d+)?)/i);
+  if (range) {
+    const [a, b] = [parseFloat(range[1]), parseFloat(range[2])];
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  }
+
+  const single = value.match(/-?\d+(?:\.\d+)?/);
+  if (single) {
+    const temperature = parseFloat(single[0]);
+    return { min: temperature, max: temperature };
+  }
+
+  return null;
+}
+
+async function getProductProfile(executor: Executor, tenantId: string, productId: string): Promise<ProductProfile | null> {
+  const [product] = await executor
+    .select({
+      id: products.id,
+      sku: products.sku,
+      weight: products.weight,
+      dimensions: products.dimensions,
+      category: productTypes.category,
+      requiredTemperatureMin: products.requiredTemperatureMin,
+      requiredTemperatureMax: products.requiredTemperatureMax,
+    })
+    .from(products)
+    .leftJoin(productTypes, eq(products.inventoryTypeId, productTypes.id))
+    .where(and(eq(products.id, productId), eq(products.tenantId, tenantId)));
+
+  if (!product) return null;
+
+  const min = product.requiredTemperatureMin !== null ? parseFloat(product.requiredTemperatureMin) : null;
+  const max = product.requiredTemperatureMax !== null ? parseFloat(product.requiredTemperatureMax) : null;
+
+  return {
+    id: product.id,
+    sku: product.sku,
+    weight: parseFloat(product.weight || '0'),
+    volume: parseVolume(product.dimensions),
+    category: product.category,
+    temperature: min !== null || max !== null ? { min, max } : null,
+  };
+}
+
+/**
+ * Current load of every bin in the warehouse: stock on hand plus stock already directed there by pending putaway tasks
+ */
+async function getBinLoads(
+  executor: Executor,
+  tenantId: string,
+  warehouseId: string,
+  excludeTaskId?: string
+): Promise<Map<string, BinLoad>> {
+  const stock = await executor
+    .select({
+      binId: inventoryItems.binId,
+      productId: inventoryItems.productId,
+      quantity: sql<number>`sum(${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity})`.mapWith(Number),
+      weight: products.weight,
+      dimensions: products.dimensions,
+    })
+    .from(inventoryItems)
+    .innerJoin(products, eq(inventoryItems.productId, products.id))
+    .innerJoin(bins, eq(inventoryItems.binId, bins.id))
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .where(and(eq(inventoryItems.tenantId, tenantId), eq(zones.warehouseId, warehouseId)))
+    .groupBy(inventoryItems.binId, inventoryItems.productId, products.weight, products.dimensions);
+
+  const incoming = await executor
+    .select({
+      binId: putawayTasks.suggestedBinId,
+      productId: putawayTasks.productId,
+      quantity: sql<number>`sum(${putawayTasks.quantity})`.mapWith(Number),
+      weight: products.weight,
+      dimensions: products.dimensions,
+    })
+    .from(putawayTasks)
+    .innerJoin(products, eq(putawayTasks.productId, products.id))
+    .where(and(
+      eq(putawayTasks.tenantId, tenantId),
+      eq(putawayTasks.warehouseId, warehouseId),
+      eq(putawayTasks.status, 'pending'),
+      excludeTaskId ? ne(putawayTasks.id, excludeTaskId) : undefined
+    ))
+    .groupBy(putawayTasks.suggestedBinId, putawayTasks.productId, products.weight, products.dimensions);
+
+  const loads = new Map<string, BinLoad>();
+  for (const row of [...stock, ...incoming]) {
+    if (!row.binId || row.quantity <= 0) continue;
+
+    const load = loads.get(row.binId) || { weight: 0, volume: 0, productIds: new Set<string>() };
+    load.weight += row.quantity * parseFloat(row.weight || '0');
+    load.volume += row.quantity * (parseVolume(row.dimensions) || 0);
+    load.productIds.add(row.productId);
+    loads.set(row.binId, load);
+  }
+
+  return loads;
+}
+
+function evaluateBin(
+  bin: typeof bins.$inferSelect,
+  product: ProductProfile,
+  quantity: number,
+  load: BinLoad | undefined
+): { eligible: boolean; score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  let eligible = true;
+  let score = bin.accessibilityScore;
+
+  if (bin.fixedSku) {
+    if (bin.fixedSku === product.sku) {
+      score += FIXED_SKU_MATCH_SCORE;
+      reasons.push(`Dedicated to ${product.sku}`);
+    } else {
+      eligible = false;
+      reasons.push(`Dedicated to ${bin.fixedSku}`);
+    }
+  }
+
+  if (bin.category) {
+    if (bin.category === product.category) {
+      score += CATEGORY_MATCH_SCORE;
+      reasons.push(`Category ${bin.category}`);
+    } else {
+      eligible = false;
+      reasons.push(`Reserved for category ${bin.category}`);
+    }
+  }
+
+  const binTemperature = parseTemperature(bin.requiredTemperature);
+  if (product.temperature) {
+    const min = product.temperature.min ?? -Infinity;
+    const max = product.temperature.max ?? Infinity;
+    if (!binTemperature) {
+      eligible = false;
+      reasons.push('Not temperature controlled');
+    } else if (binTemperature.min < min || binTemperature.max > max) {
+      eligible = false;
+      reasons.push(`Temperature ${bin.requiredTemperature} outside product range`);
+    } else {
+      reasons.push(`Temperature ${bin.requiredTemperature}`);
+    }
+  } else if (binTemperature) {
+    score -= UNNEEDED_TEMPERATURE_PENALTY;
+    reasons.push('Temperature controlled bin for an ambient product');
+  }
+
+  if (bin.maxWeight) {
+    const maxWeight = parseFloat(bin.maxWeight);
+    const requiredWeight = (load?.weight || 0) + quantity * product.weight;
+    if (requiredWeight > maxWeight) {
+      eligible = false;
+      reasons.push(`Exceeds max weight (${requiredWeight.toFixed(3)} of ${maxWeight} kg)`);
+    }
+  }
+
+  if (bin.maxVolume && product.volume !== null) {
+    const maxVolume = parseFloat(bin.maxVolume);
+    const requiredVolume = (load?.volume || 0) + quantity * product.volume;
+    if (requiredVolume > maxVolume) {
+      eligible = false;
+      reasons.push(`Exceeds max volume (${requiredVolume.toFixed(3)} of ${maxVolume} m³)`);
+    }
+  }
+
+  if (load?.productIds.has(product.id)) {
+    score += SAME_PRODUCT_SCORE;
+    reasons.push('Already holds this product');
+  }
+
+  return { eligible, score, reasons };
+}
+
+/**
+ * Evaluate every bin of a warehouse as a putaway destination for `quantity` units of a product.
+ * Results are ordered best first; ineligible bins are included (with the reasons) only when `includeIneligible` is set.
+ * Pass `excludeTaskId` when evaluating for an existing task so its own pending quantity is not counted twice.
+ */
+export async function evaluatePutawayBins(
+  executor: Executor,
+  params: {
+    tenantId: string;
+    warehouseId: string;
+    productId: string;
+    quantity: number;
+    excludeBinIds?: string[];
+    excludeTaskId?: string;
+    includeIneligible?: boolean;
+  }
+): Promise<PutawayBinEvaluation[]> {
+  const product = await getProductProfile(executor, params.tenantId, params.productId);
+  if (!product) return [];
+
+  const warehouseBins = await executor
+    .select({
+      bin: bins,
+      zoneName: zones.name,
+      aisleName: aisles.name,
+      shelfName: shelves.name,
+    })
+    .from(bins)
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .where(and(eq(bins.tenantId, params.tenantId), eq(zones.warehouseId, params.warehouseId)));
+
+  const loads = await getBinLoads(executor, params.tenantId, params.warehouseId, params.excludeTaskId);
+  const frozen = await getFrozenBins(executor, params.tenantId, warehouseBins.map(({ bin }) => bin.id));
+  const excluded = new Set(params.excludeBinIds || []);
+
+  return warehouseBins
+    .filter(({ bin }) => !excluded.has(bin.id))
+    .map(({ bin, zoneName, aisleName, shelfName }) => {
+      const evaluation = evaluateBin(bin, product, params.quantity, loads.get(bin.id));
+      // Bins under an open cycle count take no stock until the count is posted or cancelled
+      if (frozen.has(bin.id)) {
+        evaluation.eligible = false;
+        evaluation.reasons.push(`Frozen by cycle count ${frozen.get(bin.id)}`);
+      }
+
+      return {
+        binId: bin.id,
+        binName: bin.name,
+        zoneName,
+        aisleName,
+        shelfName,
+        ...evaluation,
+      };
+    })
+    .filter((evaluation) => params.includeIneligible || evaluation.eligible)
+    .sort((a, b) => Number(b.eligible) - Number(a.eligible) || b.score - a.score);
+}
+
+/**
+ * Create a pending putaway task for each received line.
+ * When the warehouse has autoAssignBins enabled, each task gets the best eligible bin as its suggestion.
+ */
+export async function createPutawayTasks(
+  executor: Executor,
+  params: {
+    tenantId: string;
+    warehouseId: string;
+    purchaseOrderId: string;
+    goodsReceiptId: string;
+    lines: Array<{
+      goodsReceiptItemId: string;
+      productId: string;
+      inventoryItemId: string;
+      binId: string;
+      quantity: number;
+    }>;
+  }
+) {
+  const [config] = await executor
+    .select({ autoAssignBins: warehouseConfigs.autoAssignBins })
+    .from(warehouseConfigs)
+    .where(and(
+      eq(warehouseConfigs.warehouseId, params.warehouseId),
+      eq(warehouseConfigs.tenantId, params.tenantId)
+    ))
+    .limit(1);
+
+  const autoAssignBins = config?.autoAssignBins ?? true;
+  const stagingBinIds = params.lines.map((line) => line.binId);
+  const tasks = [];
+
+  // Created one at a time so each suggestion accounts for the load of the tasks before it
+  for (const line of params.lines) {
+    let suggestedBinId: string | null = null;
+    if (autoAssignBins) {
+      const [best] = await evaluatePutawayBins(executor, {
+        tenantId: params.tenantId,
+        warehouseId: params.warehouseId,
+        productId: line.productId,
+        quantity: line.quantity,
+        excludeBinIds: stagingBinIds,
+      });
+      suggestedBinId = best?.binId || null;
+    }
+
+    const [task] = await executor
+      .insert(putawayTasks)
+      .values({
+        tenantId: params.tenantId,
+        warehouseId: params.warehouseId,
+        purchaseOrderId: params.purchaseOrderId,
+        goodsReceiptId: params.goodsReceiptId,
+        goodsReceiptItemId: line.goodsReceiptItemId,
+        productId: line.productId,
+        inventoryItemId: line.inventoryItemId,
+        quantity: line.quantity,
+        fromBinId: line.binId,
+        suggestedBinId,
+      })
+      .returning();
+
+    tasks.push(task);
+  }
+
+  return tasks;
+}
@@ -0,0 +1,226 @@
+import { db } from '@server/lib/db';
+import { purchaseOrders, purchaseOrderItems } from '../lib/db/schemas/purchaseOrder';
+import { replenishmentLines, replenishmentRuns, ReplenishmentRun } from '../lib/db/schemas/replenishment';
+import { products, supplierProducts } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { moduleAuthorization } from '@server/lib/db/schema/module';
+import { getTenantNumberOption } from '@server/services/optionService';
+import { getCatalogUnitCost, roundToOrderQuantity } from './supplierCatalogService';
+import { and, desc, eq, inArray, isNotNull, ne, sql } from 'drizzle-orm';
+
+// Tenant option (sys_option code): hours between scheduled runs. Scheduled runs supersede open suggestion lines,
+// so the schedule is opt-in: it stays off until a tenant sets a positive interval.
+export const REPLENISHMENT_INTERVAL_OPTION = 'po.replenishment.interval_hours';
+const DEFAULT_INTERVAL_HOURS = 0;
+
+// How often the scheduler checks whether a tenant's next run is due
+const SCHEDULER_TICK_MS = 15 * 60 * 1000;
+
+/**
+ * Compare each active product's projected stock with its reorder point and record the products to reorder.
+ *
+ * Projected stock is the available quantity (on hand less reserved) plus the quantity still to be received on
+ * pending and approved POs. A product is proposed when projected stock is at or below its reorder point, for
+ * enough units to bring it back to the reorder point plus its minimum stock level.
+ *
+ * The supplier is the product's preferred supplier in the supplier catalog, falling back to the supplier of its
+ * most recent PO. When the product is in that supplier's catalog, the quantity is rounded up to the minimum order
+ * quantity and pack size and the unit cost is the contract or last purchase price; otherwise the unit cost is the
+ * one on the most recent PO. Open lines of earlier runs are superseded.
+ */
+export async function runReplenishment(
+  tenantId: string,
+  params: { trigger: 'manual' | 'scheduled'; userId?: string | null }
+): Promise<ReplenishmentRun> {
+  const candidates = await db
+    .select({
+      id: products.id,
+      reorderPoint: products.reorderPoint,
+      minimumStockLevel: products.minimumStockLevel,
+    })
+    .from(products)
+    .where(and(
+      eq(products.tenantId, tenantId),
+      eq(products.active, true),
+      isNotNull(products.reorderPoint)
+    ));
+
+  const productIds = candidates.map((product) => product.id);
+
+  const stock = productIds.length === 0 ? [] : await db
+    .select({
+      productId: inventoryItems.productId,
+      available: sql<number>`coalesce(sum(${inventoryItems.availableQuantity}), 0)`.mapWith(Number),
+      reserved: sql<number>`coalesce(sum(${inventoryItems.reservedQuantity}), 0)`.mapWith(Number),
+    })
+    .from(inventoryItems)
+    .where(and(eq(inventoryItems.tenantId, tenantId), inArray(inventoryItems.productId, productIds)))
+    .groupBy(inventoryItems.productId);
+  const stockMap = new Map(stock.map((row) => [row.productId, row]));
+
+  const openPo = productIds.length === 0 ? [] : await db
+    .select({
+      productId: purchaseOrderItems.productId,
+      quantity: sql<number>`coalesce(sum(greatest(${purchaseOrderItems.orderedQuantity} - ${purchaseOrderItems.receivedQuantity}, 0)), 0)`.mapWith(Number),
+    })
+    .from(purchaseOrderItems)
+    .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+    .where(and(
+      eq(purchaseOrders.tenantId, tenantId),
+      inArray(purchaseOrders.status, ['pending', 'approved']),
+      inArray(purchaseOrderItems.productId, productIds)
+    ))
+    .groupBy(purchaseOrderItems.productId);
+  const openPoMap = new Map(openPo.map((row) => [row.productId, row.quantity]));
+
+  const proposals = candidates
+    .map((product) => {
+      const available = stockMap.get(product.id)?.available ?? 0;
+      const reserved = stockMap.get(product.id)?.reserved ?? 0;
+      const openPoQuantity = openPoMap.get(product.id) ?? 0;
+      const projectedQuantity = available + openPoQuantity;
+      const reorderPoint = product.reorderPoint!;
+      const target = reorderPoint + Math.max(product.minimumStockLevel ?? 0, 0);
+
+      return {
+        productId: product.id,
+        availableQuantity: available,
+        reservedQuantity: reserved,
+        openPoQuantity,
+        projectedQuantity,
+        reorderPoint,
+        minimumStockLevel: product.minimumStockLevel,
+        suggestedQuantity: projectedQuantity <= reorderPoint ? target - projectedQuantity : 0,
+      };
+    })
+    .filter((proposal) => proposal.suggestedQuantity > 0);
+
+  // Latest non-rejected PO line per product is the fallback supplier and cost
+  const lastPurchases = proposals.length === 0 ? [] : await db
+    .selectDistinctOn([purchaseOrderItems.productId], {
+      productId: purchaseOrderItems.productId,
+      supplierId: purchaseOrders.supplierId,
+      unitCost: purchaseOrderItems.unitCost,
+    })
+    .from(purchaseOrderItems)
+    .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+    .where(and(
+      eq(purchaseOrders.tenantId, tenantId),
+      ne(purchaseOrders.status, 'rejected'),
+      inArray(purchaseOrderItems.productId, proposals.map((proposal) => proposal.productId))
+    ))
+    .orderBy(purchaseOrderItems.productId, desc(purchaseOrders.orderDate), desc(purchaseOrders.createdAt));
+  const lastPurchaseMap = new Map(lastPurchases.map((row) => [row.productId, row]));
+
+  const catalogEntries = proposals.length === 0 ? [] : await db
+    .select({
+      productId: supplierProducts.productId,
+      supplierId: supplierProducts.supplierId,
+      isPreferred: supplierProducts.isPreferred,
+      packSize: supplierProducts.packSize,
+      minimumOrderQuantity: supplierProducts.minimumOrderQuantity,
+      contractPrice: supplierProducts.contractPrice,
+      contractValidFrom: supplierProducts.contractValidFrom,
+      contractValidTo: supplierProducts.contractValidTo,
+      lastPurchasePrice: supplierProducts.lastPurchasePrice,
+    })
+    .from(supplierProducts)
+    .where(and(
+      eq(supplierProducts.tenantId, tenantId),
+      eq(supplierProducts.isActive, true),
+      inArray(supplierProducts.productId, proposals.map((proposal) => proposal.productId))
+    ));
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const lines = proposals.map((proposal) => {
+    const entries = catalogEntries.filter((entry) => entry.productId === proposal.productId);
+    const lastPurchase = lastPurchaseMap.get(proposal.productId);
+    const supplierId = entries.find((entry) => entry.isPreferred)?.supplierId ?? lastPurchase?.supplierId ?? null;
+    const entry = entries.find((candidate) => candidate.supplierId === supplierId);
+
+    if (!entry) {
+      return { ...proposal, supplierId, unitCost: lastPurchase?.unitCost ?? null };
+    }
+
+    return {
+      ...proposal,
+      supplierId,
+      suggestedQuantity: roundToOrderQuantity(proposal.suggestedQuantity, entry),
+      unitCost: getCatalogUnitCost(entry, today) ?? lastPurchase?.unitCost ?? null,
+    };
+  });
+
+  return db.transaction(async (tx) => {
+    await tx
+      .update(replenishmentLines)
+      .set({ status: 'superseded' })
+      .where(and(eq(replenishmentLines.tenantId, tenantId), eq(replenishmentLines.status, 'open')));
+
+    const supplierIds = new Set(lines.map((line) => line.supplierId));
+
+    const [run] = await tx
+      .insert(replenishmentRuns)
+      .values({
+        tenantId,
+        trigger: params.trigger,
+        productCount: lines.length,
+        supplierCount: supplierIds.size,
+        createdBy: params.userId || null,
+      })
+      .returning();
+
+    if (lines.length > 0) {
+      await tx.insert(replenishmentLines).values(
+        lines.map((line) => ({
+          ...line,
+          tenantId,
+          runId: run.id,
+        }))
+      );
+    }
+
+    return run;
+  });
+}
+
+/**
+ * Run replenishment for every tenant with the purchase-order module enabled that has opted into scheduled runs and
+ * whose interval has elapsed
+ */
+async function runDueReplenishments() {
+  const tenants = await db
+    .select({ tenantId: moduleAuthorization.tenantId })
+    .from(moduleAuthorization)
+    .where(and(eq(moduleAuthorization.moduleId, 'purchase-order'), eq(moduleAuthorization.isEnabled, true)));
+
+  for (const { tenantId } of tenants) {
+    try {
+      const intervalHours = await getTenantNumberOption(tenantId, REPLENISHMENT_INTERVAL_OPTION, DEFAULT_INTERVAL_HOURS);
+      if (intervalHours <= 0) continue;
+
+      const [lastRun] = await db
+        .select({ createdAt: replenishmentRuns.createdAt })
+        .from(replenishmentRuns)
+        .where(and(eq(replenishmentRuns.tenantId, tenantId), eq(replenishmentRuns.trigger, 'scheduled')))
+        .orderBy(desc(replenishmentRuns.createdAt))
+        .limit(1);
+
+      if (lastRun && Date.now() - lastRun.createdAt.getTime() < intervalHours * 60 * 60 * 1000) continue;
+
+      await runReplenishment(tenantId, { trigger: 'scheduled' });
+    } catch (error) {
+      console.error(`[Replenishment] Scheduled run failed for tenant ${tenantId}:`, error);
+    }
+  }
+}
+
+/**
+ * Start the in-process replenishment scheduler. Call once at server startup.
+ */
+export function startReplenishmentScheduler() {
+  const timer = setInterval(() => {
+    runDueReplenishments().catch((error) => console.error('[Replenishment] Scheduler error:', error));
+  }, SCHEDULER_TICK_MS);
+  timer.unref();
+}
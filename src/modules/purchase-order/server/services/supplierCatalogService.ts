@@ -0,0 +1,78 @@
+import { db } from '@server/lib/db';
+import { supplierProducts } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { and, eq, isNull, lte, or } from 'drizzle-orm';
+
+type Executor = Pick<typeof db, 'update'>;
+
+interface CatalogPricing {
+  contractPrice: string | null;
+  contractValidFrom: string | null;
+  contractValidTo: string | null;
+  lastPurchasePrice: string | null;
+}
+
+interface CatalogOrdering {
+  packSize: number;
+  minimumOrderQuantity: number | null;
+}
+
+/**
+ * Unit cost to propose for a catalog entry on a date (YYYY-MM-DD): the contract price while the
+ * contract is valid, otherwise the last purchase price. Null when neither is known.
+ */
+export function getCatalogUnitCost(entry: CatalogPricing, onDate: string): string | null {
+  const contractValid = entry.contractPrice !== null &&
+    (!entry.contractValidFrom || entry.contractValidFrom <= onDate) &&
+    (!entry.contractValidTo || entry.contractValidTo >= onDate);
+
+  return contractValid ? entry.contractPrice : entry.lastPurchasePrice;
+}
+
+/**
+ * Round a quantity up to the supplier's minimum order quantity and then to a whole number of packs
+ */
+export function roundToOrderQuantity(quantity: number, entry: CatalogOrdering): number {
+  const packSize = Math.max(entry.packSize || 1, 1);
+  const atLeastMinimum = Math.max(quantity, entry.minimumOrderQuantity ?? 0);
+  return Math.ceil(atLeastMinimum / packSize) * packSize;
+}
+
+/**
+ * Add a number of days to a date (YYYY-MM-DD)
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+/**
+ * Store the unit costs of a purchase order as the last purchase price of the supplier's catalog
+ * entries. Products not in the supplier's catalog, and entries already priced from a later order, are left alone.
+ */
+export async function recordLastPurchasePrices(
+  executor: Executor,
+  params: {
+    tenantId: string;
+    supplierId: string;
+    orderDate: string;
+    items: { productId: string; unitCost?: string | number | null }[];
+  }
+) {
+  for (const item of params.items) {
+    if (!item.unitCost || Number(item.unitCost) <= 0) continue;
+
+    await executor
+      .update(supplierProducts)
+      .set({
+        lastPurchasePrice: Number(item.unitCost).toFixed(2),
+        lastPurchaseDate: params.orderDate,
+      })
+      .where(and(
+        eq(supplierProducts.tenantId, params.tenantId),
+        eq(supplierProducts.supplierId, params.supplierId),
+        eq(supplierProducts.productId, item.productId),
+        or(isNull(supplierProducts.lastPurchaseDate), lte(supplierProducts.lastPurchaseDate, params.orderDate))
+      ));
+  }
+}
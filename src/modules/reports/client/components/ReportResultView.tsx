@@ -0,0 +1,159 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@client/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+
+export type ReportFieldType = 'string' | 'number' | 'date' | 'datetime' | 'boolean';
+
+export interface ReportResultColumn {
+  key: string;
+  label: string;
+  type: ReportFieldType;
+}
+
+export interface ReportResult {
+  columns: ReportResultColumn[];
+  rows: Record<string, any>[];
+  truncated: boolean;
+}
+
+export interface ReportChartSettings {
+  type: 'bar' | 'line' | 'pie';
+  xColumn: string;
+  yColumn: string;
+}
+
+// Charts plot the first rows only; the table shows them all
+const MAX_CHART_POINTS = 100;
+
+const PIE_COLORS = ['var(--chart-1)', 'var(--chart-2)', 'var(--chart-3)', 'var(--chart-4)', 'var(--chart-5)'];
+
+export const formatReportValue = (column: ReportResultColumn, value: unknown) => {
+  if (value === null || value === undefined) return '';
+  if (column.type === 'boolean') return value ? 'Yes' : 'No';
+  if (column.type === 'number' && typeof value === 'number') {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+  return String(value);
+};
+
+interface ReportResultViewProps {
+  result: ReportResult;
+  chart?: ReportChartSettings | null;
+}
+
+const ReportResultView: React.FC<ReportResultViewProps> = ({ result, chart }) => {
+  const xColumn = chart && result.columns.find((column) => column.key === chart.xColumn);
+  const yColumn = chart && result.columns.find((column) => column.key === chart.yColumn);
+
+  const renderChart = () => {
+    if (!chart || !xColumn || !yColumn) return null;
+
+    const data = result.rows.slice(0, MAX_CHART_POINTS).map((row) => ({
+      ...row,
+      [xColumn.key]: formatReportValue(xColumn, row[xColumn.key]) || '(empty)',
+    }));
+    const chartConfig = {
+      [yColumn.key]: {
+        label: yColumn.label,
+        color: 'var(--chart-1)',
+      },
+    } satisfies ChartConfig;
+
+    return (
+      <div className="space-y-1">
+        <ChartContainer config={chartConfig} className="aspect-auto h-[300px] w-full">
+          {chart.type === 'pie' ? (
+            <PieChart>
+              <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+              <Pie data={data} dataKey={yColumn.key} nameKey={xColumn.key} outerRadius={110}>
+                {data.map((_, index) => (
+                  <Cell key={index} fill={PIE_COLORS[index % PIE_COLORS.length]} />
+                ))}
+              </Pie>
+            </PieChart>
+          ) : chart.type === 'line' ? (
+            <LineChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey={xColumn.key} tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+              <YAxis tickLine={false} axisLine={false} width={60} />
+              <ChartTooltip cursor={false} content={<ChartTooltipContent indicator="dot" />} />
+              <Line dataKey={yColumn.key} type="monotone" stroke={`var(--color-${yColumn.key})`} strokeWidth={2} dot={false} />
+            </LineChart>
+          ) : (
+            <BarChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey={xColumn.key} tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+              <YAxis tickLine={false} axisLine={false} width={60} />
+              <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+              <Bar dataKey={yColumn.key} fill={`var(--color-${yColumn.key})`} radius={4} />
+            </BarChart>
+          )}
+        </ChartContainer>
+        {result.rows.length > MAX_CHART_POINTS && (
+          <p className="text-xs text-muted-foreground">
+            The chart shows the first {MAX_CHART_POINTS} of {result.rows.length} rows.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {renderChart()}
+
+      <div className="text-sm text-muted-foreground">
+        {result.rows.length.toLocaleString()} rows
+        {result.truncated && ' (more rows matched; narrow the filters or group the report to see them all)'}
+      </div>
+
+      <div className="max-h-[500px] overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {result.columns.map((column) => (
+                <TableHead key={column.key} className={column.type === 'number' ? 'text-right' : ''}>
+                  {column.label}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={result.columns.length} className="text-center py-8 text-muted-foreground">
+                  No rows match the report's filters
+                </TableCell>
+              </TableRow>
+            ) : (
+              result.rows.map((row, index) => (
+                <TableRow key={index}>
+                  {result.columns.map((column) => (
+                    <TableCell key={column.key} className={column.type === 'number' ? 'text-right' : ''}>
+                      {formatReportValue(column, row[column.key])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default ReportResultView;
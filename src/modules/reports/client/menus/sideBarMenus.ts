@@ -24,6 +24,13 @@ export const reportsSidebarMenus = {
     roles: 'ADMIN',
     permissions: ['reports.view'],
     items: [
+      {
+        id: "report-builder",
+        title: "Report Builder",
+        url: "/console/reports",
+        roles: "ADMIN",
+        permissions: "reports.view",
+      },
       {
         id: "audit-log",
         title: "Audit Log",
@@ -32,5 +39,12 @@ export const reportsSidebarMenus = {
         permissions: "reports.audit-log.view",
 
       },
+      {
+        id: "valuation",
+        title: "Inventory Valuation",
+        url: "/console/reports/valuation",
+        roles: "ADMIN",
+        permissions: "reports.valuation.view",
+      },
     ],
   };
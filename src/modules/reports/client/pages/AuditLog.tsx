@@ -32,7 +32,9 @@ import {
   Eye,
   ChevronLeft,
   ChevronRight,
-  Calendar
+  Calendar,
+  ShieldCheck,
+  ShieldAlert
 } from 'lucide-react';
 import axios from 'axios';
 import { toast } from 'sonner';
@@ -57,11 +59,33 @@ interface AuditLog {
   createdAt: string;
 }
 
+interface ChainVerification {
+  valid: boolean;
+  checkedCount: number;
+  unchainedCount: number;
+  lastSequence: number | null;
+  brokenLink: {
+    id: string;
+    sequence: number;
+    expectedSequence: number;
+    createdAt: string;
+    reason: 'hash_mismatch' | 'previous_hash_mismatch' | 'missing_entry';
+  } | null;
+}
+
+const BREAK_REASONS: Record<string, string> = {
+  hash_mismatch: 'its content was changed after it was written',
+  previous_hash_mismatch: 'it does not link to the entry before it, which was changed or replaced',
+  missing_entry: 'entries before it were deleted',
+};
+
 const AuditLog: React.FC = () => {
   const [logs, setLogs] = useState<AuditLog[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedLog, setSelectedLog] = useState<AuditLog | null>(null);
   const [detailsModalOpen, setDetailsModalOpen] = useState(false);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
 
   // Pagination
   const [currentPage, setCurrentPage] = useState(1);
@@ -178,74 +202,55 @@ const AuditLog: React.FC = () => {
     setTimeout(() => fetchAuditLogs(), 100);
   };
 
+  const handleVerify = async () => {
+    try {
+      setVerifying(true);
+      const response = await axios.get('/api/audit-logs/verify');
+
+      if (response.data.success) {
+        setVerification(response.data.data);
+        if (response.data.data.valid) {
+          toast.success('Audit log integrity verified');
+        } else {
+          toast.error('Audit log integrity check failed');
+        }
+      }
+    } catch (error) {
+      console.error('Error verifying audit logs:', error);
+      toast.error('Failed to verify audit logs');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
   const handleViewDetails = (log: AuditLog) => {
     setSelectedLog(log);
     setDetailsModalOpen(true);
   };
 
-  const handleExportCSV = async () => {
+  const handleExport = async (exportFormat: 'csv' | 'ndjson') => {
     try {
-      const params: any = {
-        page: 1,
-        limit: 10000, // Get all records
-      };
+      // The export streams every matching entry, so only the filters are sent
+      const params: any = { format: exportFormat };
 
-      if (dateFrom) params.dateFrom = dateFrom;
-      if (dateTo) params.dateTo = dateTo;
+      if (dateFrom) params.startDate = dateFrom;
+      if (dateTo) params.endDate = `${dateTo}T23:59:59.999`;
       if (moduleFilter && moduleFilter !== 'all') params.module = moduleFilter;
       if (actionFilter && actionFilter !== 'all') params.action = actionFilter;
       if (resourceTypeFilter && resourceTypeFilter !== 'all') params.resourceType = resourceTypeFilter;
       if (userIdFilter) params.userId = userIdFilter;
       if (statusFilter && statusFilter !== 'all') params.status = statusFilter;
-      if (searchTerm) params.search = searchTerm;
 
-      const response = await axios.get('/api/audit-logs', { params });
+      const response = await axios.get('/api/audit-logs/export', { params, responseType: 'blob' });
 
-      if (response.data.success && response.data.data) {
-        const csvData = convertToCSV(response.data.data);
-        downloadCSV(csvData, `audit-logs-${format(new Date(), 'yyyy-MM-dd-HHmmss')}.csv`);
-        toast.success('Audit logs exported successfully');
-      }
+      downloadFile(response.data, `audit-logs-${format(new Date(), 'yyyy-MM-dd-HHmmss')}.${exportFormat}`);
+      toast.success('Audit logs exported successfully');
     } catch (error) {
       toast.error('Failed to export audit logs');
     }
   };
 
-  const convertToCSV = (data: AuditLog[]): string => {
-    const headers = [
-      'Timestamp',
-      'Module',
-      'Action',
-      'Resource Type',
-      'Resource ID',
-      'User',
-      'Description',
-      'Status',
-      'IP Address',
-    ];
-
-    const rows = data.map(log => [
-      format(new Date(log.createdAt), 'yyyy-MM-dd HH:mm:ss'),
-      log.module,
-      log.action,
-      log.resourceType,
-      log.resourceId,
-      log.userName || log.userId || 'System',
-      log.description || '',
-      log.status,
-      log.ipAddress || '',
-    ]);
-
-    const csvContent = [
-      headers.join(','),
-      ...rows.map(row => row.map(cell => `"${cell}"`).join(','))
-    ].join('\n');
-
-    return csvContent;
-  };
-
-  const downloadCSV = (csvContent: string, filename: string) => {
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const downloadFile = (blob: Blob, filename: string) => {
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
@@ -254,6 +259,7 @@ const AuditLog: React.FC = () => {
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
   };
 
   const getStatusBadgeClass = (status: string | null) => {
@@ -283,13 +289,59 @@ const AuditLog: React.FC = () => {
             <RefreshCw className="mr-2 h-4 w-4" />
             Refresh
           </Button>
-          <Button variant="outline" onClick={handleExportCSV}>
+          <Button variant="outline" onClick={() => handleExport('csv')}>
             <Download className="mr-2 h-4 w-4" />
             Export CSV
           </Button>
+          <Button variant="outline" onClick={() => handleExport('ndjson')}>
+            <Download className="mr-2 h-4 w-4" />
+            Export NDJSON
+          </Button>
+          <Button variant="outline" onClick={handleVerify} disabled={verifying}>
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            {verifying ? 'Verifying...' : 'Verify Integrity'}
+          </Button>
         </div>
       </div>
 
+      {verification && (
+        <div
+          className={`flex items-start gap-3 rounded-md border p-4 ${
+            verification.valid ? 'border-green-600/20 bg-green-50 text-green-800' : 'border-red-600/20 bg-red-50 text-red-800'
+          }`}
+        >
+          {verification.valid ? (
+            <ShieldCheck className="mt-0.5 h-5 w-5 shrink-0" />
+          ) : (
+            <ShieldAlert className="mt-0.5 h-5 w-5 shrink-0" />
+          )}
+          <div className="space-y-1 text-sm">
+            {verification.valid ? (
+              <div className="font-medium">
+                Hash chain intact: {verification.checkedCount.toLocaleString()} entries verified
+              </div>
+            ) : (
+              <>
+                <div className="font-medium">
+                  Hash chain broken at entry #{verification.brokenLink!.sequence}
+                  {' '}({format(new Date(verification.brokenLink!.createdAt), 'yyyy-MM-dd HH:mm:ss')})
+                </div>
+                <div>
+                  The entry does not verify because {BREAK_REASONS[verification.brokenLink!.reason]}.
+                  {' '}{verification.checkedCount.toLocaleString()} entries before it verified.
+                </div>
+                <div className="font-mono text-xs">{verification.brokenLink!.id}</div>
+              </>
+            )}
+            {verification.unchainedCount > 0 && (
+              <div>
+                {verification.unchainedCount.toLocaleString()} older entries were written before the hash chain and are not covered.
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Filters</CardTitle>
@@ -1,108 +1,637 @@
-import React from 'react';
-import { useNavigate } from 'react-router';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router';
+import axios from 'axios';
+import { toast } from 'sonner';
 import { Button } from '@client/components/ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@client/components/ui/card';
 import { Input } from '@client/components/ui/input';
 import { Label } from '@client/components/ui/label';
 import { Textarea } from '@client/components/ui/textarea';
-import { ArrowLeft, Save } from 'lucide-react';
+import { Switch } from '@client/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@client/components/ui/select';
+import { ArrowLeft, Play, Plus, Save, Trash2 } from 'lucide-react';
 import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
+import ReportResultView, {
+  ReportChartSettings,
+  ReportFieldType,
+  ReportResult,
+  ReportResultColumn,
+} from '../components/ReportResultView';
 
-const reportsSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  description: z.string().optional(),
-});
+interface DatasetField {
+  key: string;
+  label: string;
+  type: ReportFieldType;
+}
+
+interface Dataset {
+  key: string;
+  label: string;
+  description: string;
+  fields: DatasetField[];
+}
+
+type Aggregate = 'none' | 'count' | 'sum' | 'avg' | 'min' | 'max';
+type Operator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'in' | 'is_null' | 'not_null';
+
+interface ColumnRow {
+  field: string;
+  aggregate: Aggregate;
+}
+
+interface FilterRow {
+  field: string;
+  operator: Operator;
+  value: string;
+}
+
+interface SortRow {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+const AGGREGATE_LABELS: Record<Exclude<Aggregate, 'none'>, string> = {
+  count: 'Count of',
+  sum: 'Sum of',
+  avg: 'Average',
+  min: 'Min',
+  max: 'Max',
+};
 
-type ReportsFormData = z.infer<typeof reportsSchema>;
+const OPERATOR_LABELS: Record<Operator, string> = {
+  eq: 'equals',
+  neq: 'does not equal',
+  gt: 'greater than',
+  gte: 'at least',
+  lt: 'less than',
+  lte: 'at most',
+  contains: 'contains',
+  in: 'is one of',
+  is_null: 'is empty',
+  not_null: 'is not empty',
+};
+
+const operatorsFor = (type: ReportFieldType): Operator[] => {
+  if (type === 'boolean') return ['eq', 'neq', 'is_null', 'not_null'];
+  if (type === 'string') return ['eq', 'neq', 'contains', 'in', 'is_null', 'not_null'];
+  return ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'is_null', 'not_null'];
+};
+
+const aggregatesFor = (type: ReportFieldType): Aggregate[] => {
+  if (type === 'number') return ['none', 'count', 'sum', 'avg', 'min', 'max'];
+  if (type === 'boolean') return ['none', 'count'];
+  return ['none', 'count', 'min', 'max'];
+};
 
 const ReportsAdd: React.FC = () => {
   const navigate = useNavigate();
-  
-  const {
-    register,
-    handleSubmit,
-    formState: { errors, isSubmitting },
-  } = useForm<ReportsFormData>({
-    resolver: zodResolver(reportsSchema),
-  });
+  const { id } = useParams<{ id: string }>();
+  const isEdit = Boolean(id);
+
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [datasetKey, setDatasetKey] = useState('');
+  const [columns, setColumns] = useState<ColumnRow[]>([]);
+  const [groupRows, setGroupRows] = useState(false);
+  const [filters, setFilters] = useState<FilterRow[]>([]);
+  const [sort, setSort] = useState<SortRow[]>([]);
+  const [chart, setChart] = useState<ReportChartSettings | null>(null);
+
+  const [errors, setErrors] = useState<string[]>([]);
+  const [result, setResult] = useState<ReportResult | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
 
-  const onSubmit = async (data: ReportsFormData) => {
+  const dataset = datasets.find((item) => item.key === datasetKey);
+  const fieldOf = (key: string) => dataset?.fields.find((field) => field.key === key);
+  const aggregated = columns.some((column) => column.aggregate !== 'none');
+  const grouped = groupRows || aggregated;
+
+  // The result columns the definition produces, as the server names them
+  const outputColumns: ReportResultColumn[] = columns
+    .filter((column) => fieldOf(column.field))
+    .map((column) => {
+      const field = fieldOf(column.field)!;
+      if (column.aggregate === 'none') return field;
+      return {
+        key: `${field.key}_${column.aggregate}`,
+        label: `${AGGREGATE_LABELS[column.aggregate]} ${field.label}`,
+        type: ['count', 'sum', 'avg'].includes(column.aggregate) ? 'number' : field.type,
+      };
+    });
+
+  useEffect(() => {
+    fetchDatasets();
+  }, []);
+
+  const fetchDatasets = async () => {
+    try {
+      const response = await axios.get('/api/modules/reports/reports/datasets');
+      const available: Dataset[] = response.data.data || [];
+      setDatasets(available);
+
+      if (id) {
+        await fetchReport(id);
+      } else if (available.length > 0) {
+        selectDataset(available[0]);
+      }
+    } catch (error) {
+      console.error('Error fetching report datasets:', error);
+      toast.error('Failed to load report datasets');
+    }
+  };
+
+  const fetchReport = async (reportId: string) => {
     try {
-      // TODO: Replace with actual API call
-      console.log('Submitting:', data);
-      
-      // Navigate back to list
-      navigate('..');
+      const response = await axios.get(`/api/modules/reports/reports/${reportId}`);
+      const report = response.data.data;
+      setName(report.name);
+      setDescription(report.description || '');
+      setDatasetKey(report.dataset);
+      setColumns(report.columns.map((column: any) => ({ field: column.field, aggregate: column.aggregate || 'none' })));
+      setGroupRows(report.groupBy.length > 0);
+      setFilters(report.filters.map((filter: any) => ({
+        field: filter.field,
+        operator: filter.operator,
+        value: Array.isArray(filter.value) ? filter.value.join(', ') : filter.value === undefined ? '' : String(filter.value),
+      })));
+      setSort(report.sort);
+      setChart(report.chart);
     } catch (error) {
-      console.error('Error creating reports:', error);
+      console.error('Error fetching report:', error);
+      toast.error('Failed to load report');
     }
   };
 
+  const selectDataset = (next: Dataset) => {
+    setDatasetKey(next.key);
+    setColumns(next.fields.slice(0, 4).map((field) => ({ field: field.key, aggregate: 'none' })));
+    setGroupRows(false);
+    setFilters([]);
+    setSort([]);
+    setChart(null);
+    setResult(null);
+    setErrors([]);
+  };
+
+  const buildDefinition = () => ({
+    dataset: datasetKey,
+    columns: columns.map((column) => ({
+      field: column.field,
+      aggregate: column.aggregate === 'none' ? undefined : column.aggregate,
+    })),
+    filters: filters.map((filter) => ({
+      field: filter.field,
+      operator: filter.operator,
+      value: filter.operator === 'is_null' || filter.operator === 'not_null'
+        ? undefined
+        : filter.operator === 'in'
+          ? filter.value.split(',').map((value) => value.trim()).filter(Boolean)
+          : filter.value,
+    })),
+    groupBy: grouped ? columns.filter((column) => column.aggregate === 'none').map((column) => column.field) : [],
+    sort,
+    chart,
+  });
+
+  const handleError = (error: any, fallback: string) => {
+    const details: string[] = error.response?.data?.data?.errors || [];
+    setErrors(details);
+    toast.error(error.response?.data?.message || fallback);
+  };
+
+  const handlePreview = async () => {
+    try {
+      setPreviewing(true);
+      setErrors([]);
+      const response = await axios.post('/api/modules/reports/reports/preview', buildDefinition());
+      setResult(response.data.data);
+    } catch (error: any) {
+      console.error('Error previewing report:', error);
+      handleError(error, 'Failed to run report');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setErrors([]);
+      const payload = { name, description: description || null, ...buildDefinition() };
+      if (isEdit) {
+        await axios.put(`/api/modules/reports/reports/${id}`, payload);
+        toast.success('Report updated successfully');
+      } else {
+        await axios.post('/api/modules/reports/reports', payload);
+        toast.success('Report created successfully');
+      }
+      navigate('/console/reports');
+    } catch (error: any) {
+      console.error('Error saving report:', error);
+      handleError(error, 'Failed to save report');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateColumn = (index: number, changes: Partial<ColumnRow>) => {
+    setColumns((current) => current.map((column, i) => (i === index ? { ...column, ...changes } : column)));
+  };
+
+  const updateFilter = (index: number, changes: Partial<FilterRow>) => {
+    setFilters((current) => current.map((filter, i) => (i === index ? { ...filter, ...changes } : filter)));
+  };
+
+  const updateSort = (index: number, changes: Partial<SortRow>) => {
+    setSort((current) => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const renderFilterValue = (filter: FilterRow, index: number) => {
+    const field = fieldOf(filter.field);
+    if (!field || filter.operator === 'is_null' || filter.operator === 'not_null') {
+      return <div className="flex-1" />;
+    }
+    if (field.type === 'boolean') {
+      return (
+        <Select value={filter.value || 'true'} onValueChange={(value) => updateFilter(index, { value })}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">Yes</SelectItem>
+            <SelectItem value="false">No</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+    const inputType = filter.operator === 'in'
+      ? 'text'
+      : field.type === 'number' ? 'number' : field.type === 'date' || field.type === 'datetime' ? 'date' : 'text';
+    return (
+      <Input
+        className="flex-1"
+        type={inputType}
+        value={filter.value}
+        placeholder={filter.operator === 'in' ? 'Values separated by commas' : 'Value'}
+        onChange={(e) => updateFilter(index, { value: e.target.value })}
+      />
+    );
+  };
+
+  const numberColumns = outputColumns.filter((column) => column.type === 'number');
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
-        <Button variant="outline" size="sm" onClick={() => navigate('..')}>
+        <Button variant="outline" size="sm" onClick={() => navigate('/console/reports')}>
           <ArrowLeft className="mr-2 h-4 w-4" />
           Back
         </Button>
         <div>
-          <h1 className="text-3xl font-bold">Add Reports</h1>
+          <h1 className="text-3xl font-bold">{isEdit ? 'Edit Report' : 'New Report'}</h1>
           <p className="text-muted-foreground">
-            Create a new reports record
+            Pick a dataset, then the columns, filters, grouping and sort of the report
           </p>
         </div>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Details</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="name">Name *</Label>
-              <Input
-                id="name"
-                {...register('name')}
-                placeholder="Enter name"
-              />
-              {errors.name && (
-                <p className="text-sm text-destructive">{errors.name.message}</p>
-              )}
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name *</Label>
+                <Input id="name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Enter name" />
+              </div>
+              <div className="space-y-2">
+                <Label>Dataset *</Label>
+                <Select
+                  value={datasetKey}
+                  onValueChange={(value) => {
+                    const next = datasets.find((item) => item.key === value);
+                    if (next) selectDataset(next);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a dataset" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {datasets.map((item) => (
+                      <SelectItem key={item.key} value={item.key}>{item.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {dataset && <p className="text-xs text-muted-foreground">{dataset.description}</p>}
+              </div>
             </div>
-
             <div className="space-y-2">
               <Label htmlFor="description">Description</Label>
               <Textarea
                 id="description"
-                {...register('description')}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
                 placeholder="Enter description"
-                rows={3}
+                rows={2}
               />
-              {errors.description && (
-                <p className="text-sm text-destructive">{errors.description.message}</p>
-              )}
             </div>
+          </CardContent>
+        </Card>
 
-            <div className="flex gap-2 pt-4">
-              <Button type="submit" disabled={isSubmitting}>
-                <Save className="mr-2 h-4 w-4" />
-                {isSubmitting ? 'Creating...' : 'Create'}
-              </Button>
-              <Button 
-                type="button" 
-                variant="outline" 
-                onClick={() => navigate('..')}
-              >
-                Cancel
-              </Button>
+        {dataset && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Columns</CardTitle>
+                <CardDescription>
+                  Grouped reports return one row per combination of the columns without an aggregate.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {columns.map((column, index) => {
+                  const field = fieldOf(column.field);
+                  return (
+                    <div key={index} className="flex gap-2">
+                      <Select
+                        value={column.field}
+                        onValueChange={(value) => updateColumn(index, { field: value, aggregate: 'none' })}
+                      >
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Field" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {dataset.fields.map((item) => (
+                            <SelectItem key={item.key} value={item.key}>{item.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={column.aggregate}
+                        onValueChange={(value) => updateColumn(index, { aggregate: value as Aggregate })}
+                      >
+                        <SelectTrigger className="w-[180px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {aggregatesFor(field?.type || 'string').map((aggregate) => (
+                            <SelectItem key={aggregate} value={aggregate}>
+                              {aggregate === 'none' ? 'No aggregate' : AGGREGATE_LABELS[aggregate]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={columns.length === 1}
+                        onClick={() => setColumns((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <div className="flex items-center justify-between">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setColumns((current) => [...current, { field: dataset.fields[0].key, aggregate: 'none' }])}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Column
+                  </Button>
+                  <div className="flex items-center gap-2">
+                    <Switch id="groupRows" checked={grouped} disabled={aggregated} onCheckedChange={setGroupRows} />
+                    <Label htmlFor="groupRows">Group rows</Label>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Filters</CardTitle>
+                <CardDescription>Rows must match every filter. Filters apply before grouping.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {filters.map((filter, index) => {
+                  const field = fieldOf(filter.field);
+                  return (
+                    <div key={index} className="flex gap-2">
+                      <Select
+                        value={filter.field}
+                        onValueChange={(value) => updateFilter(index, { field: value, operator: 'eq', value: '' })}
+                      >
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Field" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {dataset.fields.map((item) => (
+                            <SelectItem key={item.key} value={item.key}>{item.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={filter.operator}
+                        onValueChange={(value) => updateFilter(index, { operator: value as Operator })}
+                      >
+                        <SelectTrigger className="w-[180px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {operatorsFor(field?.type || 'string').map((operator) => (
+                            <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {renderFilterValue(filter, index)}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setFilters((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFilters((current) => [...current, { field: dataset.fields[0].key, operator: 'eq', value: '' }])}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Filter
+                </Button>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Sort</CardTitle>
+                  <CardDescription>Without a sort, rows are ordered by the first column.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {sort.map((item, index) => (
+                    <div key={index} className="flex gap-2">
+                      <Select value={item.column} onValueChange={(value) => updateSort(index, { column: value })}>
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {outputColumns.map((column) => (
+                            <SelectItem key={column.key} value={column.key}>{column.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={item.direction}
+                        onValueChange={(value) => updateSort(index, { direction: value as SortRow['direction'] })}
+                      >
+                        <SelectTrigger className="w-[140px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="asc">Ascending</SelectItem>
+                          <SelectItem value="desc">Descending</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSort((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={outputColumns.length === 0}
+                    onClick={() => setSort((current) => [...current, { column: outputColumns[0].key, direction: 'asc' }])}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Sort
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Chart</CardTitle>
+                  <CardDescription>Show the result as a chart above the table.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <Select
+                    value={chart?.type || 'none'}
+                    onValueChange={(value) => setChart(value === 'none'
+                      ? null
+                      : {
+                        type: value as ReportChartSettings['type'],
+                        xColumn: chart?.xColumn || outputColumns[0]?.key || '',
+                        yColumn: chart?.yColumn || numberColumns[0]?.key || '',
+                      })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Table only</SelectItem>
+                      <SelectItem value="bar">Bar chart</SelectItem>
+                      <SelectItem value="line">Line chart</SelectItem>
+                      <SelectItem value="pie">Pie chart</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {chart && (
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      <div className="space-y-1">
+                        <Label>Categories</Label>
+                        <Select value={chart.xColumn} onValueChange={(value) => setChart({ ...chart, xColumn: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Column" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {outputColumns.map((column) => (
+                              <SelectItem key={column.key} value={column.key}>{column.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Values</Label>
+                        <Select value={chart.yColumn} onValueChange={(value) => setChart({ ...chart, yColumn: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Number column" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {numberColumns.map((column) => (
+                              <SelectItem key={column.key} value={column.key}>{column.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
             </div>
-          </form>
-        </CardContent>
-      </Card>
+          </>
+        )}
+
+        {errors.length > 0 && (
+          <div className="rounded-md border border-destructive/50 bg-destructive/5 p-4 text-sm text-destructive">
+            <ul className="list-disc pl-5 space-y-1">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={handlePreview} disabled={!dataset || previewing}>
+            <Play className="mr-2 h-4 w-4" />
+            {previewing ? 'Running...' : 'Preview'}
+          </Button>
+          <Button type="submit" disabled={!dataset || saving}>
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? 'Saving...' : isEdit ? 'Save Changes' : 'Create'}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => navigate('/console/reports')}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ReportResultView result={result} chart={chart} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router';
 import { Button } from '@client/components/ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
-import { Plus, Search, MoreHorizontal } from 'lucide-react';
+import { Badge } from '@client/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@client/components/ui/card';
+import { FileDown, FileSpreadsheet, FileText, Plus, RefreshCw, Search, MoreHorizontal } from 'lucide-react';
 import { Input } from '@client/components/ui/input';
 import {
   Table,
@@ -18,28 +19,139 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@client/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@client/components/ui/alert-dialog';
 import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
+import axios from 'axios';
+import { toast } from 'sonner';
+import ReportResultView, { ReportChartSettings, ReportResult } from '../components/ReportResultView';
+
+interface SavedReport {
+  id: string;
+  name: string;
+  description: string | null;
+  dataset: string;
+  chart: ReportChartSettings | null;
+  createdAt: string;
+  updatedAt: string;
+}
 
 const ReportsList: React.FC = () => {
-  const [data, setData] = useState([]);
+  const [data, setData] = useState<SavedReport[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [datasetLabels, setDatasetLabels] = useState<Record<string, string>>({});
+  const [selectedReport, setSelectedReport] = useState<SavedReport | null>(null);
+  const [result, setResult] = useState<ReportResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [deletingReport, setDeletingReport] = useState<SavedReport | null>(null);
 
   useEffect(() => {
-    // TODO: Fetch data from API
-    fetchData();
+    fetchDatasets();
   }, []);
 
+  useEffect(() => {
+    const timer = setTimeout(() => fetchData(), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const fetchDatasets = async () => {
+    try {
+      const response = await axios.get('/api/modules/reports/reports/datasets');
+      setDatasetLabels(Object.fromEntries(
+        (response.data.data || []).map((dataset: { key: string; label: string }) => [dataset.key, dataset.label])
+      ));
+    } catch (error) {
+      console.error('Error fetching report datasets:', error);
+    }
+  };
+
   const fetchData = async () => {
     try {
-      // TODO: Replace with actual API call
-      setLoading(false);
+      const response = await axios.get('/api/modules/reports/reports', {
+        params: { page: 1, limit: 100, search: searchTerm || undefined },
+      });
+      setData(response.data.data || []);
     } catch (error) {
       console.error('Error fetching data:', error);
+      toast.error('Failed to fetch reports');
+    } finally {
       setLoading(false);
     }
   };
 
+  const runReport = async (report: SavedReport) => {
+    try {
+      setSelectedReport(report);
+      setResult(null);
+      setRunning(true);
+      const response = await axios.get(`/api/modules/reports/reports/${report.id}/run`);
+      setResult(response.data.data);
+    } catch (error: any) {
+      console.error('Error running report:', error);
+      toast.error(error.response?.data?.message || 'Failed to run report');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const downloadFile = (blob: Blob, filename: string) => {
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExport = async (exportFormat: 'csv' | 'xlsx' | 'pdf') => {
+    if (!selectedReport) return;
+    try {
+      setExporting(true);
+      const url = `/api/modules/reports/reports/${selectedReport.id}/export`;
+      const response = await axios.get(url, { params: { format: exportFormat }, responseType: 'blob' });
+      const disposition = response.headers['content-disposition'] as string | undefined;
+      const filename = disposition?.match(/filename="([^"]+)"/)?.[1] || `report.${exportFormat}`;
+      downloadFile(response.data, filename);
+      toast.success('Report exported successfully');
+    } catch (error) {
+      console.error('Error exporting report:', error);
+      toast.error('Failed to export report');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deletingReport) return;
+    try {
+      await axios.delete(`/api/modules/reports/reports/${deletingReport.id}`);
+      toast.success('Report deleted successfully');
+      if (selectedReport?.id === deletingReport.id) {
+        setSelectedReport(null);
+        setResult(null);
+      }
+      fetchData();
+    } catch (error: any) {
+      console.error('Error deleting report:', error);
+      toast.error(error.response?.data?.message || 'Failed to delete report');
+    } finally {
+      setDeletingReport(null);
+    }
+  };
+
   if (loading) {
     return <div>Loading...</div>;
   }
@@ -50,20 +162,20 @@ const ReportsList: React.FC = () => {
         <div>
           <h1 className="text-3xl font-bold">Reports</h1>
           <p className="text-muted-foreground">
-            Manage your reports records
+            Build, run and export reports on inventory, purchase orders, stock movements and the audit log
           </p>
         </div>
         <Button asChild>
           <Link to="add">
             <Plus className="mr-2 h-4 w-4" />
-            Add Reports
+            New Report
           </Link>
         </Button>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Search & Filter</CardTitle>
+          <CardTitle>Saved Reports</CardTitle>
           <div className="flex gap-4">
             <div className="relative flex-1">
               <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
@@ -80,28 +192,32 @@ const ReportsList: React.FC = () => {
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>ID</TableHead>
                 <TableHead>Name</TableHead>
-                <TableHead>Created At</TableHead>
+                <TableHead>Dataset</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Updated At</TableHead>
                 <TableHead className="w-[100px]">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {data.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={4} className="text-center py-8">
-                    No reports found. 
+                  <TableCell colSpan={5} className="text-center py-8">
+                    No reports found.
                     <Link to="add" className="text-primary hover:underline ml-1">
                       Create your first one
                     </Link>
                   </TableCell>
                 </TableRow>
               ) : (
-                data.map((item: any) => (
-                  <TableRow key={item.id}>
-                    <TableCell>{item.id}</TableCell>
-                    <TableCell>{item.name}</TableCell>
-                    <TableCell>{new Date(item.createdAt).toLocaleDateString()}</TableCell>
+                data.map((item) => (
+                  <TableRow key={item.id} className={selectedReport?.id === item.id ? 'bg-muted/50' : ''}>
+                    <TableCell className="font-medium">{item.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{datasetLabels[item.dataset] || item.dataset}</Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{item.description}</TableCell>
+                    <TableCell>{new Date(item.updatedAt).toLocaleDateString()}</TableCell>
                     <TableCell>
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -110,13 +226,13 @@ const ReportsList: React.FC = () => {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
-                          <DropdownMenuItem asChild>
-                            <Link to={`${item.id}`}>View</Link>
+                          <DropdownMenuItem onClick={() => runReport(item)}>
+                            Run
                           </DropdownMenuItem>
                           <DropdownMenuItem asChild>
                             <Link to={`${item.id}/edit`}>Edit</Link>
                           </DropdownMenuItem>
-                          <DropdownMenuItem className="text-destructive">
+                          <DropdownMenuItem className="text-destructive" onClick={() => setDeletingReport(item)}>
                             Delete
                           </DropdownMenuItem>
                         </DropdownMenuContent>
@@ -129,6 +245,61 @@ const ReportsList: React.FC = () => {
           </Table>
         </CardContent>
       </Card>
+
+      {selectedReport && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>{selectedReport.name}</CardTitle>
+              {selectedReport.description && <CardDescription>{selectedReport.description}</CardDescription>}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => runReport(selectedReport)} disabled={running}>
+                <RefreshCw className={`mr-2 h-4 w-4 ${running ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={exporting || !result}>
+                <FileText className="mr-2 h-4 w-4" />
+                CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport('xlsx')} disabled={exporting || !result}>
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                XLSX
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport('pdf')} disabled={exporting || !result}>
+                <FileDown className="mr-2 h-4 w-4" />
+                PDF
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {running ? (
+              <div className="flex items-center justify-center py-12 text-muted-foreground">
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                Running report...
+              </div>
+            ) : result ? (
+              <ReportResultView result={result} chart={selectedReport.chart} />
+            ) : null}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={deletingReport !== null} onOpenChange={(open) => !open && setDeletingReport(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete the report "{deletingReport?.name}".
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,358 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Button } from '@client/components/ui/button';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Badge } from '@client/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@client/components/ui/tabs';
+import { Download, RefreshCw } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@client/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface ValuationLine {
+  warehouseId: string;
+  warehouseName: string;
+  productTypeId: string | null;
+  productTypeName: string | null;
+  productId: string;
+  productSku: string;
+  productName: string;
+  quantity: number;
+  unitCost: number;
+  value: number;
+  uncostedQuantity: number;
+}
+
+interface ValuationGroup {
+  id: string | null;
+  name: string | null;
+  quantity: number;
+  value: number;
+  productCount: number;
+}
+
+interface Valuation {
+  asOf: string;
+  method: 'fifo' | 'weighted_average';
+  methodOption: string;
+  totals: { quantity: number; value: number; uncostedQuantity: number; productCount: number };
+  byWarehouse: ValuationGroup[];
+  byProductType: ValuationGroup[];
+  lines: ValuationLine[];
+}
+
+const methodLabels: Record<string, string> = {
+  fifo: 'FIFO',
+  weighted_average: 'Weighted Average',
+};
+
+const formatMoney = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const Valuation = () => {
+  const [valuation, setValuation] = useState<Valuation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [asOf, setAsOf] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [warehouseId, setWarehouseId] = useState('all');
+  const [productTypeId, setProductTypeId] = useState('all');
+  const [groupBy, setGroupBy] = useState('product');
+  const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [productTypes, setProductTypes] = useState<any[]>([]);
+
+  useEffect(() => {
+    fetchFilterOptions();
+  }, []);
+
+  useEffect(() => {
+    fetchValuation();
+  }, [warehouseId, productTypeId]);
+
+  const filterParams = () => ({
+    asOf: asOf || undefined,
+    warehouseId: warehouseId !== 'all' ? warehouseId : undefined,
+    productTypeId: productTypeId !== 'all' ? productTypeId : undefined,
+  });
+
+  const fetchFilterOptions = async () => {
+    try {
+      const [warehouseResponse, productTypeResponse] = await Promise.all([
+        axios.get('/api/modules/warehouse-setup/warehouses', { params: { page: 1, limit: 100 } }),
+        axios.get('/api/modules/master-data/product-types', { params: { page: 1, limit: 100 } }),
+      ]);
+      setWarehouses(warehouseResponse.data.data || []);
+      setProductTypes(productTypeResponse.data.data || []);
+    } catch (error) {
+      console.error('Error fetching filter options:', error);
+    }
+  };
+
+  const fetchValuation = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/modules/reports/valuation', { params: filterParams() });
+      setValuation(response.data.data);
+    } catch (error: any) {
+      console.error('Error fetching valuation:', error);
+      toast.error(error.response?.data?.message || 'Failed to fetch inventory valuation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const response = await axios.get('/api/modules/reports/valuation/export', {
+        params: { ...filterParams(), groupBy },
+        responseType: 'blob',
+      });
+
+      const url = URL.createObjectURL(new Blob([response.data], { type: 'text/csv;charset=utf-8;' }));
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', `inventory-valuation-${groupBy}-${asOf}.csv`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success('Valuation exported successfully');
+    } catch (error) {
+      console.error('Error exporting valuation:', error);
+      toast.error('Failed to export valuation');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderGroupTable = (groups: ValuationGroup[], label: string) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Products</TableHead>
+          <TableHead className="text-right">Quantity</TableHead>
+          <TableHead className="text-right">Value</TableHead>
+          <TableHead className="text-right">Share</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groups.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={5} className="text-center py-8">
+              No stock on hand.
+            </TableCell>
+          </TableRow>
+        ) : (
+          groups.map((group) => (
+            <TableRow key={group.id ?? 'none'}>
+              <TableCell className="font-medium">{group.name || 'Unassigned'}</TableCell>
+              <TableCell className="text-right">{group.productCount}</TableCell>
+              <TableCell className="text-right">{group.quantity.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{formatMoney(group.value)}</TableCell>
+              <TableCell className="text-right">
+                {valuation && valuation.totals.value > 0
+                  ? `${((group.value / valuation.totals.value) * 100).toFixed(1)}%`
+                  : '-'}
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Inventory Valuation</h1>
+          <p className="text-muted-foreground">
+            Value of on-hand stock per warehouse, product type and product as of a date
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={exporting || !valuation}>
+          <Download className="mr-2 h-4 w-4" />
+          {exporting ? 'Exporting...' : 'Export CSV'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="valuation-as-of">As Of</Label>
+              <Input
+                id="valuation-as-of"
+                type="date"
+                value={asOf}
+                onChange={(e) => setAsOf(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Warehouse</Label>
+              <Select value={warehouseId} onValueChange={setWarehouseId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Warehouses</SelectItem>
+                  {warehouses.map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Product Type</Label>
+              <Select value={productTypeId} onValueChange={setProductTypeId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Product Types</SelectItem>
+                  {productTypes.map((productType) => (
+                    <SelectItem key={productType.id} value={productType.id}>{productType.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={fetchValuation} disabled={loading}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              {loading ? 'Calculating...' : 'Run Valuation'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {valuation && (
+        <div className="grid grid-cols-4 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Total Value</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatMoney(valuation.totals.value)}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Units On Hand</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{valuation.totals.quantity.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground">{valuation.totals.productCount} product(s)</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Costing Method</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Badge variant="secondary">{methodLabels[valuation.method]}</Badge>
+              <p className="text-xs text-muted-foreground mt-2">
+                Set by the tenant option <code>{valuation.methodOption}</code>
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Uncosted Units</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{valuation.totals.uncostedQuantity.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground">Valued at zero; no cost recorded</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {loading && !valuation ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : valuation && (
+            <Tabs value={groupBy} onValueChange={setGroupBy}>
+              <TabsList>
+                <TabsTrigger value="product">By Product</TabsTrigger>
+                <TabsTrigger value="warehouse">By Warehouse</TabsTrigger>
+                <TabsTrigger value="productType">By Product Type</TabsTrigger>
+              </TabsList>
+              <TabsContent value="product">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Product Type</TableHead>
+                      <TableHead>Warehouse</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Unit Cost</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {valuation.lines.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8">
+                          No stock on hand.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      valuation.lines.map((line) => (
+                        <TableRow key={`${line.productId}-${line.warehouseId}`}>
+                          <TableCell>
+                            <div className="font-medium">{line.productSku}</div>
+                            <div className="text-sm text-muted-foreground">{line.productName}</div>
+                          </TableCell>
+                          <TableCell>{line.productTypeName || '-'}</TableCell>
+                          <TableCell>{line.warehouseName}</TableCell>
+                          <TableCell className="text-right">
+                            {line.quantity.toLocaleString()}
+                            {line.uncostedQuantity > 0 && (
+                              <div className="text-xs text-muted-foreground">{line.uncostedQuantity} uncosted</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatMoney(line.unitCost)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(line.value)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+              <TabsContent value="warehouse">
+                {renderGroupTable(valuation.byWarehouse, 'Warehouse')}
+              </TabsContent>
+              <TabsContent value="productType">
+                {renderGroupTable(valuation.byProductType, 'Product Type')}
+              </TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default withModuleAuthorization(Valuation, {
+  moduleId: 'reports',
+  moduleName: 'Reports'
+});
@@ -2,11 +2,9 @@ import { RouteObject } from 'react-router';
 
 import ReportsList from '../pages/ReportsList';
 import ReportsAdd from '../pages/ReportsAdd';
-// TODO: Import other pages when created
-// import ReportsView from '../pages/ReportsView';
-// import ReportsEdit from '../pages/ReportsEdit';
 
 import AuditLog from '../pages/AuditLog';
+import Valuation from '../pages/Valuation';
 
 
 export const reportsReactRoutes = (basePath: string): RouteObject => {
@@ -14,13 +12,12 @@ export const reportsReactRoutes = (basePath: string): RouteObject => {
     path: basePath,
     children: [
 
-//      { index: true, Component: ReportsList },
-//      { path: 'add', Component: ReportsAdd },
-      // TODO: Uncomment when pages are created
-      // { path: ':id', Component: ReportsView },
-      // { path: ':id/edit', Component: ReportsEdit },
+      { index: true, Component: ReportsList },
+      { path: 'add', Component: ReportsAdd },
+      { path: ':id/edit', Component: ReportsAdd },
 
       { path: 'audit-log', Component: AuditLog },
+      { path: 'valuation', Component: Valuation },
 
     ]
   };
@@ -1,14 +1,47 @@
 import { sql } from 'drizzle-orm';
-import { pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
-import { tenant } from '@server/lib/db/schema/system'; // Adjust import path as needed
+import { jsonb, pgTable, text, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import { tenant, user } from '@server/lib/db/schema/system'; // Adjust import path as needed
+
+export interface ReportColumn {
+  field: string;
+  // Set on grouped reports for the columns that are not grouped by
+  aggregate?: 'count' | 'sum' | 'avg' | 'min' | 'max';
+}
+
+export interface ReportFilter {
+  field: string;
+  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'in' | 'is_null' | 'not_null';
+  value?: string | number | boolean | Array<string | number>;
+}
+
+export interface ReportSort {
+  // Key of a result column: the field, or `<field>_<aggregate>` for an aggregated column
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface ReportChart {
+  type: 'bar' | 'line' | 'pie';
+  xColumn: string;
+  yColumn: string;
+}
 
 export const reports = pgTable('reports', {
   id: uuid('id').default(sql`gen_random_uuid()`).primaryKey(),
   tenantId: uuid('tenant_id').references(() => tenant.id).notNull(),
   name: text('name').notNull(),
   description: text('description'),
+  // Report definition: the dataset queried and the columns, filters, grouping and sort applied to it
+  dataset: varchar('dataset', { length: 50 }).notNull().default('inventory_items'),
+  columns: jsonb('columns').$type<ReportColumn[]>().notNull().default([]),
+  filters: jsonb('filters').$type<ReportFilter[]>().notNull().default([]),
+  groupBy: jsonb('group_by').$type<string[]>().notNull().default([]),
+  sort: jsonb('sort').$type<ReportSort[]>().notNull().default([]),
+  // Null renders the result as a table only
+  chart: jsonb('chart').$type<ReportChart | null>(),
+  createdBy: uuid('created_by').references(() => user.id),
   createdAt: timestamp('created_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
-  updatedAt: timestamp('updated_at').default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp('updated_at').default(sql`CURRENT_TIMESTAMP`).notNull().$onUpdate(() => new Date()),
 });
 
 export type Reports = typeof reports.$inferSelect;
@@ -1,36 +1,165 @@
 import express from 'express';
 import { db } from '@server/lib/db'; // Adjust import path as needed
 import { reports } from '../lib/db/schemas/reports';
-import { authenticated, authorized } from '@server/middleware/authMiddleware'; // Adjust import path as needed
+import { authenticated, authorized, isAuthorized } from '@server/middleware/authMiddleware'; // Adjust import path as needed
 import { eq, and, desc, count, ilike } from 'drizzle-orm';
 import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { describeReportDatasets, REPORT_DATASETS } from '../services/reportDatasets';
+import {
+  exportReport,
+  parseReportQuery,
+  REPORT_EXPORT_FORMATS,
+  reportDefinitionSchema,
+  ReportExportFormat,
+  reportQuerySchema,
+  ReportValidationError,
+  runReport,
+} from '../services/reportService';
 
 const router = express.Router();
 router.use(authenticated());
 router.use(checkModuleAuthorization('reports'));
 
+/**
+ * Whether the user may build, run and export reports on the dataset. Datasets with their own permission (the audit
+ * log) need it on top of the reports permissions.
+ */
+async function canUseDataset(username: string, dataset: string) {
+  const permission = REPORT_DATASETS[dataset]?.permission;
+  return !permission || isAuthorized(username, 'ADMIN', permission);
+}
+
+function datasetForbidden(res: express.Response) {
+  return res.status(403).json({
+    success: false,
+    message: 'You do not have access to this dataset',
+  });
+}
+
+/**
+ * The saved report of the tenant, or undefined
+ */
+async function findReport(tenantId: string, id: string) {
+  const [record] = await db
+    .select()
+    .from(reports)
+    .where(and(
+      eq(reports.id, id),
+      eq(reports.tenantId, tenantId)
+    ));
+  return record;
+}
+
 /**
  * @swagger
  * components:
  *   schemas:
- *     Reports:
+ *     ReportDefinition:
  *       type: object
  *       required:
- *         - name
+ *         - dataset
+ *         - columns
  *       properties:
- *         id:
- *           type: string
- *           format: uuid
- *         name:
- *           type: string
- *         description:
- *           type: string
- *         createdAt:
+ *         dataset:
  *           type: string
- *           format: date-time
- *         updatedAt:
- *           type: string
- *           format: date-time
+ *           enum: [inventory_items, stock, purchase_orders, stock_movements, audit_logs]
+ *         columns:
+ *           type: array
+ *           items:
+ *             type: object
+ *             required: [field]
+ *             properties:
+ *               field:
+ *                 type: string
+ *               aggregate:
+ *                 type: string
+ *                 enum: [count, sum, avg, min, max]
+ *         filters:
+ *           type: array
+ *           items:
+ *             type: object
+ *             required: [field, operator]
+ *             properties:
+ *               field:
+ *                 type: string
+ *               operator:
+ *                 type: string
+ *                 enum: [eq, neq, gt, gte, lt, lte, contains, in, is_null, not_null]
+ *               value:
+ *                 description: A string, number or boolean; a list for `in`; left out for `is_null` / `not_null`
+ *         groupBy:
+ *           type: array
+ *           items:
+ *             type: string
+ *         sort:
+ *           type: array
+ *           items:
+ *             type: object
+ *             required: [column]
+ *             properties:
+ *               column:
+ *                 type: string
+ *                 description: A result column key, the field or `<field>_<aggregate>`
+ *               direction:
+ *                 type: string
+ *                 enum: [asc, desc]
+ *         chart:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             type:
+ *               type: string
+ *               enum: [bar, line, pie]
+ *             xColumn:
+ *               type: string
+ *             yColumn:
+ *               type: string
+ *     Reports:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ReportDefinition'
+ *         - type: object
+ *           required:
+ *             - name
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             description:
+ *               type: string
+ *             createdBy:
+ *               type: string
+ *               format: uuid
+ *             createdAt:
+ *               type: string
+ *               format: date-time
+ *             updatedAt:
+ *               type: string
+ *               format: date-time
+ *     ReportResult:
+ *       type: object
+ *       properties:
+ *         columns:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               key:
+ *                 type: string
+ *               label:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [string, number, date, datetime, boolean]
+ *         rows:
+ *           type: array
+ *           items:
+ *             type: object
+ *             description: Values keyed by column key
+ *         truncated:
+ *           type: boolean
+ *           description: More rows matched than a run returns (10000)
  */
 
 /**
@@ -72,7 +201,7 @@ router.get('/reports', authorized('ADMIN','reports.view'), async (req, res) => {
 
     // Build where conditions
     const whereConditions = [eq(reports.tenantId, tenantId)];
-    
+
     if (search) {
       whereConditions.push(ilike(reports.name, `%${search}%`));
     }
@@ -128,40 +257,47 @@ router.get('/reports', authorized('ADMIN','reports.view'), async (req, res) => {
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - name
- *             properties:
- *               name:
- *                 type: string
- *               description:
- *                 type: string
+ *             allOf:
+ *               - $ref: '#/components/schemas/ReportDefinition'
+ *               - type: object
+ *                 required:
+ *                   - name
+ *                 properties:
+ *                   name:
+ *                     type: string
+ *                   description:
+ *                     type: string
  *     responses:
  *       201:
  *         description: Reports created successfully
  *       400:
- *         description: Bad request
+ *         description: Invalid report definition; data.errors lists the problems
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden, including datasets the user has no access to (the audit log needs system.audit.view)
  */
 router.post('/reports', authorized('ADMIN','reports.create'), async (req, res) => {
   try {
     const tenantId = req.user!.activeTenantId;
-    const { name, description } = req.body;
-
-    if (!name) {
-      return res.status(400).json({
-        success: false,
-        message: 'Name is required',
-      });
+    const definition = parseReportQuery(req.body, reportDefinitionSchema);
+    if (!await canUseDataset(req.user!.username, definition.dataset)) {
+      return datasetForbidden(res);
     }
 
     const [newRecord] = await db
       .insert(reports)
       .values({
         tenantId,
-        name,
-        description,
+        name: definition.name,
+        description: definition.description,
+        dataset: definition.dataset,
+        columns: definition.columns,
+        filters: definition.filters,
+        groupBy: definition.groupBy,
+        sort: definition.sort,
+        chart: definition.chart ?? null,
+        createdBy: req.user!.id,
       })
       .returning();
 
@@ -171,6 +307,9 @@ router.post('/reports', authorized('ADMIN','reports.create'), async (req, res) =
       message: 'Reports created successfully',
     });
   } catch (error) {
+    if (error instanceof ReportValidationError) {
+      return res.status(400).json({ success: false, message: error.message, data: { errors: error.errors } });
+    }
     console.error('Error creating reports:', error);
     res.status(500).json({
       success: false,
@@ -179,6 +318,91 @@ router.post('/reports', authorized('ADMIN','reports.create'), async (req, res) =
   }
 });
 
+/**
+ * @swagger
+ * /api/modules/reports/reports/datasets:
+ *   get:
+ *     summary: The datasets reports can be built on and their fields
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Datasets with their key, label, description and fields (key, label, type)
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/reports/datasets', authorized('ADMIN','reports.view'), async (req, res) => {
+  try {
+    const datasets = describeReportDatasets();
+    const usable = await Promise.all(datasets.map(({ key }) => canUseDataset(req.user!.username, key)));
+
+    res.json({
+      success: true,
+      data: datasets.filter((_, index) => usable[index]),
+    });
+  } catch (error) {
+    console.error('Error fetching report datasets:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/reports/reports/preview:
+ *   post:
+ *     summary: Run an unsaved report definition
+ *     description: Used by the report builder to show the result while a report is edited. Nothing is saved.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReportDefinition'
+ *     responses:
+ *       200:
+ *         description: The report result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReportResult'
+ *       400:
+ *         description: Invalid report definition; data.errors lists the problems
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden, including datasets the user has no access to (the audit log needs system.audit.view)
+ */
+router.post('/reports/preview', authorized('ADMIN',['reports.create','reports.edit']), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const query = parseReportQuery(req.body, reportQuerySchema);
+    if (!await canUseDataset(req.user!.username, query.dataset)) {
+      return datasetForbidden(res);
+    }
+
+    res.json({
+      success: true,
+      data: await runReport(tenantId, query),
+    });
+  } catch (error) {
+    if (error instanceof ReportValidationError) {
+      return res.status(400).json({ success: false, message: error.message, data: { errors: error.errors } });
+    }
+    console.error('Error previewing report:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/modules/reports/reports/{id}:
@@ -207,13 +431,7 @@ router.get('/reports/:id', authorized('ADMIN','reports.view'), async (req, res)
     const tenantId = req.user!.activeTenantId;
     const { id } = req.params;
 
-    const [record] = await db
-      .select()
-      .from(reports)
-      .where(and(
-        eq(reports.id, id),
-        eq(reports.tenantId, tenantId)
-      ));
+    const record = await findReport(tenantId, id);
 
     if (!record) {
       return res.status(404).json({
@@ -235,4 +453,295 @@ router.get('/reports/:id', authorized('ADMIN','reports.view'), async (req, res)
   }
 });
 
+/**
+ * @swagger
+ * /api/modules/reports/reports/{id}:
+ *   put:
+ *     summary: Update a Reports
+ *     description: Replaces the name, description and the whole definition.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ReportDefinition'
+ *               - type: object
+ *                 required:
+ *                   - name
+ *                 properties:
+ *                   name:
+ *                     type: string
+ *                   description:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Reports updated successfully
+ *       400:
+ *         description: Invalid report definition; data.errors lists the problems
+ *       404:
+ *         description: Reports not found
+ *       403:
+ *         description: Forbidden, including datasets the user has no access to (the audit log needs system.audit.view)
+ */
+router.put('/reports/:id', authorized('ADMIN','reports.edit'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+    const definition = parseReportQuery(req.body, reportDefinitionSchema);
+    if (!await canUseDataset(req.user!.username, definition.dataset)) {
+      return datasetForbidden(res);
+    }
+
+    const [updated] = await db
+      .update(reports)
+      .set({
+        name: definition.name,
+        description: definition.description ?? null,
+        dataset: definition.dataset,
+        columns: definition.columns,
+        filters: definition.filters,
+        groupBy: definition.groupBy,
+        sort: definition.sort,
+        chart: definition.chart ?? null,
+      })
+      .where(and(eq(reports.id, id), eq(reports.tenantId, tenantId)))
+      .returning();
+
+    if (!updated) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reports not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: updated,
+      message: 'Reports updated successfully',
+    });
+  } catch (error) {
+    if (error instanceof ReportValidationError) {
+      return res.status(400).json({ success: false, message: error.message, data: { errors: error.errors } });
+    }
+    console.error('Error updating reports:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/reports/reports/{id}:
+ *   delete:
+ *     summary: Delete a Reports
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Reports deleted successfully
+ *       404:
+ *         description: Reports not found
+ */
+router.delete('/reports/:id', authorized('ADMIN','reports.delete'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+
+    const [deleted] = await db
+      .delete(reports)
+      .where(and(eq(reports.id, id), eq(reports.tenantId, tenantId)))
+      .returning();
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reports not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Reports deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting reports:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/reports/reports/{id}/run:
+ *   get:
+ *     summary: Run a saved report
+ *     description: |
+ *       Runs the report against the current data of the active tenant. Filters apply to the dataset's rows before
+ *       grouping. At most 10000 rows are returned; `truncated` tells whether more matched.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The report result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReportResult'
+ *       400:
+ *         description: The saved definition is no longer valid
+ *       404:
+ *         description: Reports not found
+ *       403:
+ *         description: Forbidden, including datasets the user has no access to (the audit log needs system.audit.view)
+ */
+router.get('/reports/:id/run', authorized('ADMIN','reports.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const record = await findReport(tenantId, req.params.id);
+
+    if (!record) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reports not found',
+      });
+    }
+    if (!await canUseDataset(req.user!.username, record.dataset)) {
+      return datasetForbidden(res);
+    }
+
+    res.json({
+      success: true,
+      data: await runReport(tenantId, parseReportQuery(record, reportQuerySchema)),
+    });
+  } catch (error) {
+    if (error instanceof ReportValidationError) {
+      return res.status(400).json({ success: false, message: error.message, data: { errors: error.errors } });
+    }
+    console.error('Error running report:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/reports/reports/{id}/export:
+ *   get:
+ *     summary: Export the result of a saved report
+ *     description: |
+ *       Downloads the result as CSV, XLSX or a PDF table (A4 landscape, long cells cut off).
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, pdf]
+ *           default: csv
+ *     responses:
+ *       200:
+ *         description: The exported result
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Unknown format or the saved definition is no longer valid
+ *       404:
+ *         description: Reports not found
+ *       403:
+ *         description: Forbidden, including datasets the user has no access to (the audit log needs system.audit.view)
+ */
+router.get('/reports/:id/export', authorized('ADMIN','reports.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const format = (req.query.format as string) || 'csv';
+
+    if (!REPORT_EXPORT_FORMATS.includes(format as ReportExportFormat)) {
+      return res.status(400).json({
+        success: false,
+        message: `format must be one of: ${REPORT_EXPORT_FORMATS.join(', ')}`,
+      });
+    }
+
+    const record = await findReport(tenantId, req.params.id);
+
+    if (!record) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reports not found',
+      });
+    }
+    if (!await canUseDataset(req.user!.username, record.dataset)) {
+      return datasetForbidden(res);
+    }
+
+    const definition = parseReportQuery(record, reportDefinitionSchema);
+    const file = await exportReport(tenantId, definition, format as ReportExportFormat);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.data);
+  } catch (error) {
+    if (error instanceof ReportValidationError) {
+      return res.status(400).json({ success: false, message: error.message, data: { errors: error.errors } });
+    }
+    console.error('Error exporting report:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,271 @@
+import express from 'express';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { format } from 'fast-csv';
+import {
+  getInventoryValuation,
+  getValuationMethod,
+  groupValuation,
+  VALUATION_METHOD_OPTION,
+} from '../services/valuationService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('reports'));
+
+class ValuationValidationError extends Error {}
+
+const groupings = ['product', 'warehouse', 'productType'] as const;
+type Grouping = typeof groupings[number];
+
+/**
+ * Parse the shared valuation query parameters. `asOf` is a date and includes the whole day.
+ */
+function parseValuationQuery(query: express.Request['query']) {
+  const asOfParam = query.asOf as string | undefined;
+  let asOf = new Date();
+  if (asOfParam) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOfParam) || isNaN(new Date(asOfParam).getTime())) {
+      throw new ValuationValidationError('asOf must be a date in YYYY-MM-DD format');
+    }
+    asOf = new Date(`${asOfParam}T23:59:59.999`);
+  }
+
+  const groupBy = (query.groupBy as string | undefined) || 'product';
+  if (!groupings.includes(groupBy as Grouping)) {
+    throw new ValuationValidationError(`groupBy must be one of: ${groupings.join(', ')}`);
+  }
+
+  return {
+    asOf,
+    asOfDate: asOfParam || new Date().toISOString().split('T')[0],
+    groupBy: groupBy as Grouping,
+    warehouseId: (query.warehouseId as string) || undefined,
+    productTypeId: (query.productTypeId as string) || undefined,
+    productId: (query.productId as string) || undefined,
+  };
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     InventoryValuationLine:
+ *       type: object
+ *       properties:
+ *         warehouseId:
+ *           type: string
+ *           format: uuid
+ *         warehouseName:
+ *           type: string
+ *         productTypeId:
+ *           type: string
+ *           format: uuid
+ *         productTypeName:
+ *           type: string
+ *         productId:
+ *           type: string
+ *           format: uuid
+ *         productSku:
+ *           type: string
+ *         productName:
+ *           type: string
+ *         quantity:
+ *           type: integer
+ *         unitCost:
+ *           type: number
+ *           description: Value divided by quantity
+ *         value:
+ *           type: number
+ *         uncostedQuantity:
+ *           type: integer
+ *           description: Units without a known cost, valued at zero
+ */
+
+// ==================== INVENTORY VALUATION ====================
+
+/**
+ * @swagger
+ * /api/modules/reports/valuation:
+ *   get:
+ *     summary: Value on-hand inventory as of a date
+ *     description: |
+ *       Replays the stock ledger up to the end of `asOf` and values the remaining stock per product and warehouse
+ *       with the tenant's costing method (sys_option `inventory.valuation.method`: `fifo` or `weighted_average`,
+ *       default `fifo`). Costs come from the goods receipt / PO line unit cost, the adjustment unit cost or the
+ *       inventory row's cost per unit. The response includes the product lines and roll-ups by warehouse and
+ *       product type.
+ *     tags: [Inventory Valuation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Valuation date (defaults to now)
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: productTypeId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: productId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Valuation with totals, product lines and warehouse / product type roll-ups
+ *       400:
+ *         description: Invalid date
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/valuation', authorized('ADMIN', 'reports.valuation.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { asOf, warehouseId, productTypeId, productId } = parseValuationQuery(req.query);
+    const method = await getValuationMethod(tenantId);
+
+    const lines = await getInventoryValuation(tenantId, { asOf, method, warehouseId, productTypeId, productId });
+
+    res.json({
+      success: true,
+      data: {
+        asOf,
+        method,
+        methodOption: VALUATION_METHOD_OPTION,
+        totals: {
+          quantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+          value: Math.round(lines.reduce((sum, line) => sum + line.value, 0) * 100) / 100,
+          uncostedQuantity: lines.reduce((sum, line) => sum + line.uncostedQuantity, 0),
+          productCount: new Set(lines.map((line) => line.productId)).size,
+        },
+        byWarehouse: groupValuation(lines, 'warehouse'),
+        byProductType: groupValuation(lines, 'productType'),
+        lines,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ValuationValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error valuing inventory:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/reports/valuation/export:
+ *   get:
+ *     summary: Export the inventory valuation to CSV
+ *     tags: [Inventory Valuation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [product, warehouse, productType]
+ *           default: product
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: productTypeId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: productId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: CSV file with one row per product and warehouse, warehouse or product type
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid date or grouping
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/valuation/export', authorized('ADMIN', 'reports.valuation.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { asOf, asOfDate, groupBy, warehouseId, productTypeId, productId } = parseValuationQuery(req.query);
+    const method = await getValuationMethod(tenantId);
+
+    const lines = await getInventoryValuation(tenantId, { asOf, method, warehouseId, productTypeId, productId });
+
+    const rows = groupBy === 'product'
+      ? lines.map((line) => ({
+        'As Of': asOfDate,
+        'Method': method,
+        'Warehouse': line.warehouseName,
+        'Product Type': line.productTypeName ?? '',
+        'SKU': line.productSku,
+        'Product': line.productName,
+        'Quantity': line.quantity,
+        'Unit Cost': line.unitCost,
+        'Value': line.value,
+        'Uncosted Quantity': line.uncostedQuantity,
+      }))
+      : groupValuation(lines, groupBy).map((group) => ({
+        'As Of': asOfDate,
+        'Method': method,
+        [groupBy === 'warehouse' ? 'Warehouse' : 'Product Type']: group.name ?? '',
+        'Products': group.productCount,
+        'Quantity': group.quantity,
+        'Value': group.value,
+      }));
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="inventory-valuation-${groupBy}-${asOfDate}.csv"`);
+
+    const csvStream = format({ headers: true });
+    csvStream.pipe(res);
+    rows.forEach((row) => csvStream.write(row));
+    csvStream.end();
+  } catch (error) {
+    if (error instanceof ValuationValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error exporting inventory valuation:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,234 @@
+import { db } from '@server/lib/db';
+import { auditLogs, user } from '@server/lib/db/schema';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { stockMovements } from '@modules/inventory-items/server/lib/db/schemas/stockMovements';
+import { purchaseOrders } from '@modules/purchase-order/server/lib/db/schemas/purchaseOrder';
+import { products, productTypes, suppliers } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { aisles, bins, shelves, warehouses, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { eq, SQL, sql } from 'drizzle-orm';
+import type { PgColumn, PgSelect } from 'drizzle-orm/pg-core';
+
+export type ReportFieldType = 'string' | 'number' | 'date' | 'datetime' | 'boolean';
+
+export interface ReportField {
+  label: string;
+  type: ReportFieldType;
+  expression: SQL | PgColumn;
+}
+
+export interface ReportDataset {
+  label: string;
+  description: string;
+  fields: Record<string, ReportField>;
+  // Column the tenant condition of every run applies to
+  tenantColumn: PgColumn;
+  // The dataset's tables and joins, selecting `selection`
+  from: (selection: Record<string, SQL.Aliased>, tenantId: string) => PgSelect;
+  // Permission needed on top of the reports permissions to build, run or export reports on the dataset
+  permission?: string;
+}
+
+// Per product totals of the stock information dataset
+const stockTotals = (tenantId: string) => db
+  .select({
+    productId: inventoryItems.productId,
+    availableQuantity: sql<number>`sum(${inventoryItems.availableQuantity})`.as('available_quantity'),
+    reservedQuantity: sql<number>`sum(${inventoryItems.reservedQuantity})`.as('reserved_quantity'),
+    // Reserved units are still on hand, so they count towards the value
+    stockValue: sql<number>`sum((${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity}) * coalesce(${inventoryItems.costPerUnit}, 0))`.as('stock_value'),
+    binCount: sql<number>`count(distinct ${inventoryItems.binId})`.as('bin_count'),
+  })
+  .from(inventoryItems)
+  .where(eq(inventoryItems.tenantId, tenantId))
+  .groupBy(inventoryItems.productId)
+  .as('stock_totals');
+
+// Column references of the subquery, for the field expressions
+const stock = {
+  availableQuantity: sql`coalesce(${sql.identifier('stock_totals')}.${sql.identifier('available_quantity')}, 0)`,
+  reservedQuantity: sql`coalesce(${sql.identifier('stock_totals')}.${sql.identifier('reserved_quantity')}, 0)`,
+  stockValue: sql`coalesce(${sql.identifier('stock_totals')}.${sql.identifier('stock_value')}, 0)`,
+  binCount: sql`coalesce(${sql.identifier('stock_totals')}.${sql.identifier('bin_count')}, 0)`,
+};
+
+/**
+ * The datasets reports can be built on. Field keys are what report definitions reference; every run is
+ * restricted to the tenant through `tenantColumn`, and rows of other tables are only reached through the
+ * dataset's own joins.
+ */
+export const REPORT_DATASETS: Record<string, ReportDataset> = {
+  inventory_items: {
+    label: 'Inventory Items',
+    description: 'Stock per product, bin and batch',
+    tenantColumn: inventoryItems.tenantId,
+    fields: {
+      sku: { label: 'SKU', type: 'string', expression: products.sku },
+      productName: { label: 'Product', type: 'string', expression: products.name },
+      productType: { label: 'Product Type', type: 'string', expression: productTypes.name },
+      warehouse: { label: 'Warehouse', type: 'string', expression: warehouses.name },
+      zone: { label: 'Zone', type: 'string', expression: zones.name },
+      bin: { label: 'Bin', type: 'string', expression: bins.name },
+      batchNumber: { label: 'Batch Number', type: 'string', expression: inventoryItems.batchNumber },
+      lotNumber: { label: 'Lot Number', type: 'string', expression: inventoryItems.lotNumber },
+      availableQuantity: { label: 'Available Quantity', type: 'number', expression: inventoryItems.availableQuantity },
+      reservedQuantity: { label: 'Reserved Quantity', type: 'number', expression: inventoryItems.reservedQuantity },
+      costPerUnit: { label: 'Cost per Unit', type: 'number', expression: inventoryItems.costPerUnit },
+      stockValue: {
+        label: 'Stock Value',
+        type: 'number',
+        expression: sql`(${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity}) * coalesce(${inventoryItems.costPerUnit}, 0)`,
+      },
+      expiryDate: { label: 'Expiry Date', type: 'date', expression: inventoryItems.expiryDate },
+      receivedDate: { label: 'Received Date', type: 'date', expression: inventoryItems.receivedDate },
+      createdAt: { label: 'Created At', type: 'datetime', expression: inventoryItems.createdAt },
+    },
+    from: (selection) => db
+      .select(selection)
+      .from(inventoryItems)
+      .innerJoin(products, eq(inventoryItems.productId, products.id))
+      .leftJoin(productTypes, eq(products.inventoryTypeId, productTypes.id))
+      .innerJoin(bins, eq(inventoryItems.binId, bins.id))
+      .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+      .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+      .innerJoin(zones, eq(aisles.zoneId, zones.id))
+      .innerJoin(warehouses, eq(zones.warehouseId, warehouses.id))
+      .$dynamic(),
+  },
+
+  stock: {
+    label: 'Stock Information',
+    description: 'Stock totals per product against its reorder point, including products without stock',
+    tenantColumn: products.tenantId,
+    fields: {
+      sku: { label: 'SKU', type: 'string', expression: products.sku },
+      productName: { label: 'Product', type: 'string', expression: products.name },
+      productType: { label: 'Product Type', type: 'string', expression: productTypes.name },
+      baseUom: { label: 'Base UoM', type: 'string', expression: products.baseUom },
+      active: { label: 'Active', type: 'boolean', expression: products.active },
+      availableQuantity: { label: 'Available Quantity', type: 'number', expression: stock.availableQuantity },
+      reservedQuantity: { label: 'Reserved Quantity', type: 'number', expression: stock.reservedQuantity },
+      onHandQuantity: {
+        label: 'On Hand Quantity',
+        type: 'number',
+        expression: sql`${stock.availableQuantity} + ${stock.reservedQuantity}`,
+      },
+      stockValue: { label: 'Stock Value', type: 'number', expression: stock.stockValue },
+      binCount: { label: 'Bins', type: 'number', expression: stock.binCount },
+      minimumStockLevel: { label: 'Minimum Stock Level', type: 'number', expression: products.minimumStockLevel },
+      reorderPoint: { label: 'Reorder Point', type: 'number', expression: products.reorderPoint },
+      belowReorderPoint: {
+        label: 'Below Reorder Point',
+        type: 'boolean',
+        expression: sql`coalesce(${stock.availableQuantity} <= ${products.reorderPoint}, false)`,
+      },
+    },
+    from: (selection, tenantId) => {
+      const totals = stockTotals(tenantId);
+      return db
+        .select(selection)
+        .from(products)
+        .leftJoin(productTypes, eq(products.inventoryTypeId, productTypes.id))
+        .leftJoin(totals, eq(totals.productId, products.id))
+        .$dynamic();
+    },
+  },
+
+  purchase_orders: {
+    label: 'Purchase Orders',
+    description: 'Purchase order headers with supplier and warehouse',
+    tenantColumn: purchaseOrders.tenantId,
+    fields: {
+      orderNumber: { label: 'Order Number', type: 'string', expression: purchaseOrders.orderNumber },
+      supplier: { label: 'Supplier', type: 'string', expression: suppliers.name },
+      warehouse: { label: 'Warehouse', type: 'string', expression: warehouses.name },
+      status: { label: 'Status', type: 'string', expression: purchaseOrders.status },
+      workflowState: { label: 'Workflow State', type: 'string', expression: purchaseOrders.workflowState },
+      deliveryMethod: { label: 'Delivery Method', type: 'string', expression: purchaseOrders.deliveryMethod },
+      orderDate: { label: 'Order Date', type: 'date', expression: purchaseOrders.orderDate },
+      orderMonth: { label: 'Order Month', type: 'string', expression: sql`to_char(${purchaseOrders.orderDate}, 'YYYY-MM')` },
+      expectedDeliveryDate: { label: 'Expected Delivery Date', type: 'date', expression: purchaseOrders.expectedDeliveryDate },
+      totalAmount: { label: 'Total Amount', type: 'number', expression: purchaseOrders.totalAmount },
+      createdAt: { label: 'Created At', type: 'datetime', expression: purchaseOrders.createdAt },
+    },
+    from: (selection) => db
+      .select(selection)
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .innerJoin(warehouses, eq(purchaseOrders.warehouseId, warehouses.id))
+      .$dynamic(),
+  },
+
+  stock_movements: {
+    label: 'Stock Movements',
+    description: 'The stock ledger: every change of on-hand quantity per product and bin',
+    tenantColumn: stockMovements.tenantId,
+    fields: {
+      createdAt: { label: 'Created At', type: 'datetime', expression: stockMovements.createdAt },
+      movementDate: { label: 'Date', type: 'date', expression: sql`${stockMovements.createdAt}::date` },
+      movementType: { label: 'Movement Type', type: 'string', expression: stockMovements.movementType },
+      sku: { label: 'SKU', type: 'string', expression: products.sku },
+      productName: { label: 'Product', type: 'string', expression: products.name },
+      warehouse: { label: 'Warehouse', type: 'string', expression: warehouses.name },
+      bin: { label: 'Bin', type: 'string', expression: bins.name },
+      quantityDelta: { label: 'Quantity Change', type: 'number', expression: stockMovements.quantityDelta },
+      batchNumber: { label: 'Batch Number', type: 'string', expression: stockMovements.batchNumber },
+      reasonCode: { label: 'Reason Code', type: 'string', expression: stockMovements.reasonCode },
+      referenceType: { label: 'Reference Type', type: 'string', expression: stockMovements.referenceType },
+      referenceNumber: { label: 'Reference Number', type: 'string', expression: stockMovements.referenceNumber },
+      createdBy: { label: 'Created By', type: 'string', expression: user.username },
+    },
+    from: (selection) => db
+      .select(selection)
+      .from(stockMovements)
+      .innerJoin(products, eq(stockMovements.productId, products.id))
+      .innerJoin(bins, eq(stockMovements.binId, bins.id))
+      .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+      .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+      .innerJoin(zones, eq(aisles.zoneId, zones.id))
+      .innerJoin(warehouses, eq(zones.warehouseId, warehouses.id))
+      .leftJoin(user, eq(stockMovements.createdBy, user.id))
+      .$dynamic(),
+  },
+
+  audit_logs: {
+    label: 'Audit Logs',
+    description: 'Audit trail entries still in the audit log (archived entries are not included)',
+    tenantColumn: auditLogs.tenantId,
+    permission: 'system.audit.view',
+    fields: {
+      createdAt: { label: 'Created At', type: 'datetime', expression: auditLogs.createdAt },
+      date: { label: 'Date', type: 'date', expression: sql`${auditLogs.createdAt}::date` },
+      module: { label: 'Module', type: 'string', expression: auditLogs.module },
+      action: { label: 'Action', type: 'string', expression: auditLogs.action },
+      resourceType: { label: 'Resource Type', type: 'string', expression: auditLogs.resourceType },
+      resourceId: { label: 'Resource ID', type: 'string', expression: auditLogs.resourceId },
+      username: { label: 'User', type: 'string', expression: user.username },
+      status: { label: 'Status', type: 'string', expression: auditLogs.status },
+      description: { label: 'Description', type: 'string', expression: auditLogs.description },
+      previousState: { label: 'Previous State', type: 'string', expression: auditLogs.previousState },
+      newState: { label: 'New State', type: 'string', expression: auditLogs.newState },
+      ipAddress: { label: 'IP Address', type: 'string', expression: auditLogs.ipAddress },
+    },
+    from: (selection) => db
+      .select(selection)
+      .from(auditLogs)
+      .leftJoin(user, eq(auditLogs.userId, user.id))
+      .$dynamic(),
+  },
+};
+
+export function isReportDataset(value: string): boolean {
+  return Object.prototype.hasOwnProperty.call(REPORT_DATASETS, value);
+}
+
+/**
+ * The datasets and their fields without the query parts, for the report builder
+ */
+export function describeReportDatasets() {
+  return Object.entries(REPORT_DATASETS).map(([key, dataset]) => ({
+    key,
+    label: dataset.label,
+    description: dataset.description,
+    fields: Object.entries(dataset.fields).map(([field, { label, type }]) => ({ key: field, label, type })),
+  }));
+}
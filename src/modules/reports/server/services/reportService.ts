@@ -0,0 +1,434 @@
+import { and, eq, gt, gte, inArray, isNotNull, isNull, lt, lte, ne, SQL, sql } from 'drizzle-orm';
+import { writeToBuffer } from 'fast-csv';
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { z } from 'zod';
+import { isReportDataset, REPORT_DATASETS, ReportDataset, ReportField, ReportFieldType } from './reportDatasets';
+
+export class ReportValidationError extends Error {
+  constructor(message: string, public errors: string[] = []) {
+    super(message);
+  }
+}
+
+// Runs return at most this many rows and report whether more matched
+export const MAX_REPORT_ROWS = 10000;
+
+export const REPORT_AGGREGATES = ['count', 'sum', 'avg', 'min', 'max'] as const;
+export const REPORT_FILTER_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in', 'is_null', 'not_null'] as const;
+
+export const REPORT_EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const;
+export type ReportExportFormat = (typeof REPORT_EXPORT_FORMATS)[number];
+
+const CONTENT_TYPES: Record<ReportExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+const AGGREGATE_LABELS: Record<(typeof REPORT_AGGREGATES)[number], string> = {
+  count: 'Count of',
+  sum: 'Sum of',
+  avg: 'Average',
+  min: 'Min',
+  max: 'Max',
+};
+
+// ==================== Report definition ====================
+
+const filterValue = z.union([z.string(), z.number(), z.boolean()]);
+
+/**
+ * What a report runs: the dataset and the columns, filters, grouping and sort applied to it
+ */
+export const reportQuerySchema = z.object({
+  dataset: z.string().min(1, 'Dataset is required'),
+  columns: z
+    .array(z.object({
+      field: z.string().min(1),
+      aggregate: z.enum(REPORT_AGGREGATES).optional(),
+    }))
+    .min(1, 'Select at least one column')
+    .max(50, 'A report can have at most 50 columns'),
+  filters: z
+    .array(z.object({
+      field: z.string().min(1),
+      operator: z.enum(REPORT_FILTER_OPERATORS),
+      value: z.union([filterValue, z.array(z.union([z.string(), z.number()]))]).optional(),
+    }))
+    .max(50)
+    .default([]),
+  groupBy: z.array(z.string().min(1)).max(10).default([]),
+  sort: z
+    .array(z.object({
+      column: z.string().min(1),
+      direction: z.enum(['asc', 'desc']).default('asc'),
+    }))
+    .max(10)
+    .default([]),
+  chart: z
+    .object({
+      type: z.enum(['bar', 'line', 'pie']),
+      xColumn: z.string().min(1),
+      yColumn: z.string().min(1),
+    })
+    .nullish(),
+});
+
+export const reportDefinitionSchema = reportQuerySchema.extend({
+  name: z.string().trim().min(1, 'Name is required').max(255, 'Name is too long'),
+  description: z.string().trim().max(1000, 'Description is too long').nullish(),
+});
+
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+export type ReportDefinition = z.infer<typeof reportDefinitionSchema>;
+
+export interface ReportResultColumn {
+  key: string;
+  label: string;
+  type: ReportFieldType;
+}
+
+export interface ReportResult {
+  columns: ReportResultColumn[];
+  rows: Record<string, unknown>[];
+  truncated: boolean;
+}
+
+function columnKey(field: string, aggregate?: string) {
+  return aggregate ? `${field}_${aggregate}` : field;
+}
+
+/**
+ * The result columns of a valid query, in the order they were selected
+ */
+function resultColumns(dataset: ReportDataset, query: ReportQuery): ReportResultColumn[] {
+  return query.columns.map(({ field, aggregate }) => {
+    const definition = dataset.fields[field];
+    return {
+      key: columnKey(field, aggregate),
+      label: aggregate ? `${AGGREGATE_LABELS[aggregate]} ${definition.label}` : definition.label,
+      type: aggregate === 'count' || aggregate === 'sum' || aggregate === 'avg' ? 'number' : definition.type,
+    };
+  });
+}
+
+/**
+ * Check that a parsed query only references the dataset's fields and its own result columns, and that a
+ * grouped report aggregates every column it does not group by
+ */
+function checkReportQuery(query: ReportQuery): string[] {
+  if (!isReportDataset(query.dataset)) {
+    return [`dataset: Unknown dataset ${query.dataset}`];
+  }
+  const dataset = REPORT_DATASETS[query.dataset];
+
+  const errors: string[] = [];
+  const hasField = (field: string) => Object.prototype.hasOwnProperty.call(dataset.fields, field);
+
+  const keys = new Set<string>();
+  query.columns.forEach(({ field, aggregate }, index) => {
+    if (!hasField(field)) {
+      errors.push(`columns.${index}.field: Unknown field ${field}`);
+      return;
+    }
+    const { type } = dataset.fields[field];
+    if ((aggregate === 'sum' || aggregate === 'avg') && type !== 'number') {
+      errors.push(`columns.${index}.aggregate: ${aggregate} needs a number field`);
+    }
+    if ((aggregate === 'min' || aggregate === 'max') && type === 'boolean') {
+      errors.push(`columns.${index}.aggregate: ${aggregate} does not apply to a yes/no field`);
+    }
+    const key = columnKey(field, aggregate);
+    if (keys.has(key)) {
+      errors.push(`columns.${index}: ${key} is selected twice`);
+    }
+    keys.add(key);
+  });
+
+  const aggregated = query.columns.some((column) => column.aggregate);
+  if (aggregated || query.groupBy.length > 0) {
+    query.groupBy.forEach((field, index) => {
+      if (!query.columns.some((column) => column.field === field && !column.aggregate)) {
+        errors.push(`groupBy.${index}: ${field} must also be selected as a column without aggregate`);
+      }
+    });
+    query.columns.forEach(({ field, aggregate }, index) => {
+      if (!aggregate && !query.groupBy.includes(field)) {
+        errors.push(`columns.${index}: ${field} must be grouped by or aggregated`);
+      }
+    });
+  }
+
+  query.filters.forEach(({ field, operator, value }, index) => {
+    if (!hasField(field)) {
+      errors.push(`filters.${index}.field: Unknown field ${field}`);
+      return;
+    }
+    const { type } = dataset.fields[field];
+    if (operator === 'is_null' || operator === 'not_null') return;
+    if (value === undefined || value === '') {
+      errors.push(`filters.${index}.value: A value is required`);
+      return;
+    }
+    if (operator === 'in' && (!Array.isArray(value) || value.length === 0)) {
+      errors.push(`filters.${index}.value: in needs a list of values`);
+      return;
+    }
+    if (operator !== 'in' && Array.isArray(value)) {
+      errors.push(`filters.${index}.value: ${operator} needs a single value`);
+      return;
+    }
+    if (operator === 'contains' && type !== 'string') {
+      errors.push(`filters.${index}.operator: contains needs a text field`);
+    }
+    if (type === 'boolean' && operator !== 'eq' && operator !== 'neq') {
+      errors.push(`filters.${index}.operator: Yes/no fields can only be compared with eq or neq`);
+    }
+    const values = Array.isArray(value) ? value : [value];
+    if (type === 'number' && values.some((item) => !Number.isFinite(Number(item)))) {
+      errors.push(`filters.${index}.value: Must be a number`);
+    }
+    if ((type === 'date' || type === 'datetime') && values.some((item) => isNaN(new Date(String(item)).getTime()))) {
+      errors.push(`filters.${index}.value: Must be a date`);
+    }
+  });
+
+  query.sort.forEach(({ column }, index) => {
+    if (!keys.has(column)) {
+      errors.push(`sort.${index}.column: ${column} is not a column of the report`);
+    }
+  });
+
+  if (query.chart) {
+    const columns = query.columns.every(({ field }) => hasField(field)) ? resultColumns(dataset, query) : [];
+    const x = columns.find((column) => column.key === query.chart!.xColumn);
+    const y = columns.find((column) => column.key === query.chart!.yColumn);
+    if (!x) {
+      errors.push(`chart.xColumn: ${query.chart.xColumn} is not a column of the report`);
+    }
+    if (!y || y.type !== 'number') {
+      errors.push(`chart.yColumn: ${query.chart.yColumn} must be a number column of the report`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and check a report query, or a full definition with `schema` = reportDefinitionSchema
+ */
+export function parseReportQuery<T extends typeof reportQuerySchema | typeof reportDefinitionSchema>(
+  input: unknown,
+  schema: T
+): z.infer<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    const errors = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    throw new ReportValidationError('Invalid report definition', errors);
+  }
+
+  const errors = checkReportQuery(result.data);
+  if (errors.length > 0) {
+    throw new ReportValidationError('Invalid report definition', errors);
+  }
+  return result.data as z.infer<T>;
+}
+
+// ==================== Running ====================
+
+function selectExpression(field: ReportField, aggregate: ReportQuery['columns'][number]['aggregate'], type: ReportFieldType) {
+  const value = aggregate ? sql`${sql.raw(aggregate)}(${field.expression})` : sql`${field.expression}`;
+  if (type === 'number') {
+    // Sums and decimals come back as strings
+    return value.mapWith(Number);
+  }
+  if (type === 'datetime') {
+    return sql`to_char(${value}, 'YYYY-MM-DD HH24:MI:SS')`;
+  }
+  if (type === 'date') {
+    return sql`${value}::text`;
+  }
+  return value;
+}
+
+function coerceFilterValue(type: ReportFieldType, value: string | number | boolean) {
+  if (type === 'number') return Number(value);
+  if (type === 'boolean') return value === true || value === 'true';
+  return String(value);
+}
+
+function filterCondition(field: ReportField, filter: ReportQuery['filters'][number]): SQL | undefined {
+  const expression = sql`${field.expression}`;
+  const { type } = field;
+  const { operator, value } = filter;
+
+  switch (operator) {
+    case 'is_null':
+      return isNull(expression);
+    case 'not_null':
+      return isNotNull(expression);
+    case 'contains':
+      return sql`${expression}::text ilike ${`%${value}%`}`;
+    case 'in':
+      return inArray(expression, (value as Array<string | number>).map((item) => coerceFilterValue(type, item)));
+  }
+
+  const operand = coerceFilterValue(type, value as string | number | boolean);
+  const comparisons = { eq, neq: ne, gt, gte, lt, lte };
+  return comparisons[operator](expression, operand);
+}
+
+/**
+ * Run a checked report query for the tenant. Filters apply to the dataset's rows before grouping; without a sort
+ * the rows are ordered by the first column.
+ */
+export async function runReport(tenantId: string, query: ReportQuery): Promise<ReportResult> {
+  const dataset = REPORT_DATASETS[query.dataset];
+  const columns = resultColumns(dataset, query);
+
+  const selection: Record<string, SQL.Aliased> = {};
+  query.columns.forEach(({ field, aggregate }, index) => {
+    const column = columns[index];
+    selection[column.key] = selectExpression(dataset.fields[field], aggregate, column.type).as(column.key);
+  });
+
+  const sort = query.sort.length > 0 ? query.sort : [{ column: columns[0].key, direction: 'asc' as const }];
+
+  let statement = dataset
+    .from(selection, tenantId)
+    .where(and(
+      eq(dataset.tenantColumn, tenantId),
+      ...query.filters.map((filter) => filterCondition(dataset.fields[filter.field], filter))
+    ));
+  if (query.groupBy.length > 0) {
+    statement = statement.groupBy(...query.groupBy.map((field) => dataset.fields[field].expression));
+  }
+  const rows = await statement
+    .orderBy(...sort.map(({ column, direction }) => sql`${sql.identifier(column)} ${sql.raw(direction)} nulls last`))
+    .limit(MAX_REPORT_ROWS + 1);
+
+  const truncated = rows.length > MAX_REPORT_ROWS;
+  return {
+    columns,
+    rows: truncated ? rows.slice(0, MAX_REPORT_ROWS) : rows,
+    truncated,
+  };
+}
+
+// ==================== Export ====================
+
+function displayValue(column: ReportResultColumn, value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (column.type === 'boolean') return value ? 'Yes' : 'No';
+  if (column.type === 'number' && typeof value === 'number') {
+    return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  }
+  return String(value);
+}
+
+// PDF table layout, in points
+const PDF_MARGIN = 34;
+const PDF_ROW_HEIGHT = 14;
+const PDF_CELL_PADDING = 3;
+
+/**
+ * The result as an A4 landscape PDF table; the header row repeats on every page and long cells are cut off
+ */
+function renderReportPdf(
+  report: { name: string; description?: string | null; dataset: string },
+  result: ReportResult
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: PDF_MARGIN, info: { Title: report.name } });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const columnWidth = width / Math.max(result.columns.length, 1);
+    const meta = [
+      REPORT_DATASETS[report.dataset].label,
+      `${result.rows.length} rows${result.truncated ? ` (first ${MAX_REPORT_ROWS} only)` : ''}`,
+      `Generated ${new Date().toLocaleString('en-US')}`,
+    ].join(' · ');
+
+    doc.font('Helvetica-Bold').fontSize(16).text(report.name);
+    if (report.description) {
+      doc.font('Helvetica').fontSize(10).text(report.description);
+    }
+    doc.font('Helvetica').fontSize(9).fillColor('#555555').text(meta).fillColor('#000000').moveDown();
+
+    const drawRow = (cells: string[], header: boolean) => {
+      const y = doc.y;
+      if (header) {
+        doc.rect(left, y, width, PDF_ROW_HEIGHT).fill('#f0f0f0').fillColor('#000000');
+      }
+      doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+      cells.forEach((cell, index) => {
+        doc.text(cell, left + index * columnWidth + PDF_CELL_PADDING, y + PDF_CELL_PADDING, {
+          width: columnWidth - 2 * PDF_CELL_PADDING,
+          height: PDF_ROW_HEIGHT - PDF_CELL_PADDING,
+          ellipsis: true,
+          align: result.columns[index].type === 'number' ? 'right' : 'left',
+        });
+      });
+      doc
+        .moveTo(left, y + PDF_ROW_HEIGHT)
+        .lineTo(left + width, y + PDF_ROW_HEIGHT)
+        .lineWidth(0.5)
+        .strokeColor('#cccccc')
+        .stroke();
+      doc.x = left;
+      doc.y = y + PDF_ROW_HEIGHT;
+    };
+
+    const header = result.columns.map((column) => column.label);
+    drawRow(header, true);
+    for (const row of result.rows) {
+      if (doc.y + PDF_ROW_HEIGHT > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        drawRow(header, true);
+      }
+      drawRow(result.columns.map((column) => displayValue(column, row[column.key])), false);
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * Run a saved report and write the result as CSV, XLSX or PDF
+ */
+export async function exportReport(
+  tenantId: string,
+  report: ReportDefinition,
+  format: ReportExportFormat
+): Promise<{ filename: string; contentType: string; data: Buffer }> {
+  const result = await runReport(tenantId, report);
+  const slug = report.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+  const filename = `${slug}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (format === 'pdf') {
+    return { filename, contentType: CONTENT_TYPES.pdf, data: await renderReportPdf(report, result) };
+  }
+
+  if (format === 'csv') {
+    const data = await writeToBuffer(
+      result.rows.map((row) => Object.fromEntries(result.columns.map((column) => [column.label, row[column.key] ?? '']))),
+      { headers: result.columns.map((column) => column.label) }
+    );
+    return { filename, contentType: CONTENT_TYPES.csv, data };
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(report.name.slice(0, 31).replace(/[\\/?*[\]:]/g, ' '));
+  worksheet.columns = result.columns.map((column) => ({ header: column.label, key: column.key, width: 20 }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.addRows(result.rows);
+
+  const data = Buffer.from(await workbook.xlsx.writeBuffer());
+  return { filename, contentType: CONTENT_TYPES.xlsx, data };
+}
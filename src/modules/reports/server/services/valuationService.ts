@@ -0,0 +1,228 @@
+import { db } from '@server/lib/db';
+import { stockMovements } from '@modules/inventory-items/server/lib/db/schemas/stockMovements';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { inventoryAdjustments } from '@modules/inventory-items/server/lib/db/schemas/adjustments';
+import { goodsReceiptItems } from '@modules/purchase-order/server/lib/db/schemas/goodsReceipt';
+import { purchaseOrderItems } from '@modules/purchase-order/server/lib/db/schemas/purchaseOrder';
+import { products, productTypes } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { aisles, bins, shelves, warehouses, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { getTenantOption } from '@server/services/optionService';
+import { and, asc, eq, inArray, lte, notInArray, sql } from 'drizzle-orm';
+
+// Tenant option (sys_option code) selecting the costing method
+export const VALUATION_METHOD_OPTION = 'inventory.valuation.method';
+
+export const valuationMethods = ['fifo', 'weighted_average'] as const;
+export type ValuationMethod = typeof valuationMethods[number];
+
+export interface ValuationLine {
+  warehouseId: string;
+  warehouseName: string;
+  productTypeId: string | null;
+  productTypeName: string | null;
+  productId: string;
+  productSku: string;
+  productName: string;
+  quantity: number;
+  unitCost: number;
+  value: number;
+  uncostedQuantity: number;
+}
+
+export interface ValuationGroup {
+  id: string | null;
+  name: string | null;
+  quantity: number;
+  value: number;
+  productCount: number;
+}
+
+type CostLayer = { quantity: number; unitCost: number | null };
+
+/**
+ * The tenant's costing method; anything other than `weighted_average` values stock FIFO
+ */
+export async function getValuationMethod(tenantId: string): Promise<ValuationMethod> {
+  const value = await getTenantOption(tenantId, VALUATION_METHOD_OPTION, 'fifo');
+  return value === 'weighted_average' ? 'weighted_average' : 'fifo';
+}
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Value on-hand stock per product and warehouse as it stood at `asOf`, replaying the stock ledger.
+ *
+ * Units entering a warehouse (receipts, opening balances, positive adjustments and manual edits) form cost
+ * layers priced at the goods receipt / PO line unit cost, the adjustment unit cost or the inventory row's
+ * cost per unit, in that order. FIFO consumes the oldest layers first; weighted average keeps a perpetual
+ * moving average that only changes on inbound units. Transfers and putaway stay inside a warehouse and do
+ * not affect value. Units without any known cost are valued at zero and reported as `uncostedQuantity`.
+ */
+export async function getInventoryValuation(
+  tenantId: string,
+  params: {
+    asOf: Date;
+    method: ValuationMethod;
+    warehouseId?: string;
+    productTypeId?: string;
+    productId?: string;
+  }
+): Promise<ValuationLine[]> {
+  const unitCost = sql<string | null>`coalesce(${goodsReceiptItems.unitCost}, ${purchaseOrderItems.unitCost}, ${inventoryAdjustments.unitCost}, ${inventoryItems.costPerUnit})`;
+
+  const movements = await db
+    .select({
+      productId: stockMovements.productId,
+      warehouseId: zones.warehouseId,
+      quantityDelta: stockMovements.quantityDelta,
+      unitCost,
+    })
+    .from(stockMovements)
+    .innerJoin(bins, eq(stockMovements.binId, bins.id))
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .innerJoin(products, eq(stockMovements.productId, products.id))
+    .leftJoin(inventoryItems, eq(stockMovements.inventoryItemId, inventoryItems.id))
+    .leftJoin(goodsReceiptItems, and(
+      eq(stockMovements.referenceType, 'goods_receipt'),
+      eq(goodsReceiptItems.goodsReceiptId, stockMovements.referenceId),
+      eq(goodsReceiptItems.inventoryItemId, stockMovements.inventoryItemId)
+    ))
+    .leftJoin(purchaseOrderItems, eq(goodsReceiptItems.purchaseOrderItemId, purchaseOrderItems.id))
+    .leftJoin(inventoryAdjustments, and(
+      eq(stockMovements.referenceType, 'inventory_adjustment'),
+      eq(inventoryAdjustments.id, stockMovements.referenceId)
+    ))
+    .where(and(
+      eq(stockMovements.tenantId, tenantId),
+      lte(stockMovements.createdAt, params.asOf),
+      // Bin moves are skipped: transfers (transferStock) and putaways only move stock between bins of one
+      // warehouse, so their legs cancel out within the warehouse and carry no cost layers across warehouses
+      notInArray(stockMovements.movementType, ['transfer', 'putaway']),
+      params.warehouseId ? eq(zones.warehouseId, params.warehouseId) : undefined,
+      params.productTypeId ? eq(products.inventoryTypeId, params.productTypeId) : undefined,
+      params.productId ? eq(stockMovements.productId, params.productId) : undefined
+    ))
+    .orderBy(asc(stockMovements.createdAt), asc(stockMovements.id));
+
+  // Replay per product and warehouse. The FIFO layers are kept for both methods so
+  // uncosted units can be reported; the running average is only used for weighted average.
+  const states = new Map<string, {
+    productId: string;
+    warehouseId: string;
+    layers: CostLayer[];
+    quantity: number;
+    averageCost: number;
+    lastCost: number | null;
+  }>();
+
+  for (const movement of movements) {
+    const key = `${movement.productId}:${movement.warehouseId}`;
+    let state = states.get(key);
+    if (!state) {
+      state = { productId: movement.productId, warehouseId: movement.warehouseId, layers: [], quantity: 0, averageCost: 0, lastCost: null };
+      states.set(key, state);
+    }
+
+    if (movement.quantityDelta > 0) {
+      const cost = movement.unitCost !== null ? parseFloat(movement.unitCost) : state.lastCost;
+      state.layers.push({ quantity: movement.quantityDelta, unitCost: cost });
+      if (state.quantity <= 0) {
+        state.averageCost = cost ?? 0;
+      } else {
+        state.averageCost = (state.quantity * state.averageCost + movement.quantityDelta * (cost ?? 0))
+          / (state.quantity + movement.quantityDelta);
+      }
+      state.quantity += movement.quantityDelta;
+      if (cost !== null) state.lastCost = cost;
+    } else {
+      let remaining = -movement.quantityDelta;
+      while (remaining > 0 && state.layers.length > 0) {
+        const layer = state.layers[0];
+        const consumed = Math.min(layer.quantity, remaining);
+        layer.quantity -= consumed;
+        remaining -= consumed;
+        if (layer.quantity === 0) state.layers.shift();
+      }
+      state.quantity += movement.quantityDelta;
+    }
+  }
+
+  const onHand = [...states.values()].filter((state) => state.quantity > 0);
+  if (onHand.length === 0) {
+    return [];
+  }
+
+  const productRows = await db
+    .select({
+      id: products.id,
+      sku: products.sku,
+      name: products.name,
+      productTypeId: products.inventoryTypeId,
+      productTypeName: productTypes.name,
+    })
+    .from(products)
+    .leftJoin(productTypes, eq(products.inventoryTypeId, productTypes.id))
+    .where(inArray(products.id, [...new Set(onHand.map((state) => state.productId))]));
+  const productMap = new Map(productRows.map((row) => [row.id, row]));
+
+  const warehouseRows = await db
+    .select({ id: warehouses.id, name: warehouses.name })
+    .from(warehouses)
+    .where(inArray(warehouses.id, [...new Set(onHand.map((state) => state.warehouseId))]));
+  const warehouseMap = new Map(warehouseRows.map((row) => [row.id, row.name]));
+
+  return onHand
+    .map((state) => {
+      const product = productMap.get(state.productId)!;
+      const uncostedQuantity = state.layers
+        .filter((layer) => layer.unitCost === null)
+        .reduce((sum, layer) => sum + layer.quantity, 0);
+      const value = params.method === 'fifo'
+        ? state.layers.reduce((sum, layer) => sum + layer.quantity * (layer.unitCost ?? 0), 0)
+        : state.quantity * state.averageCost;
+
+      return {
+        warehouseId: state.warehouseId,
+        warehouseName: warehouseMap.get(state.warehouseId) ?? '',
+        productTypeId: product.productTypeId,
+        productTypeName: product.productTypeName,
+        productId: product.id,
+        productSku: product.sku,
+        productName: product.name,
+        quantity: state.quantity,
+        unitCost: round(value / state.quantity, 4),
+        value: round(value, 2),
+        uncostedQuantity,
+      };
+    })
+    .sort((a, b) => a.warehouseName.localeCompare(b.warehouseName) || a.productSku.localeCompare(b.productSku));
+}
+
+/**
+ * Roll valuation lines up by warehouse or product type, highest value first
+ */
+export function groupValuation(lines: ValuationLine[], by: 'warehouse' | 'productType'): ValuationGroup[] {
+  const groups = new Map<string | null, ValuationGroup & { productIds: Set<string> }>();
+
+  for (const line of lines) {
+    const id = by === 'warehouse' ? line.warehouseId : line.productTypeId;
+    const name = by === 'warehouse' ? line.warehouseName : line.productTypeName;
+    let group = groups.get(id);
+    if (!group) {
+      group = { id, name, quantity: 0, value: 0, productCount: 0, productIds: new Set() };
+      groups.set(id, group);
+    }
+    group.quantity += line.quantity;
+    group.value += line.value;
+    group.productIds.add(line.productId);
+  }
+
+  return [...groups.values()]
+    .map(({ productIds, ...group }) => ({ ...group, value: round(group.value, 2), productCount: productIds.size }))
+    .sort((a, b) => b.value - a.value);
+}
@@ -0,0 +1,404 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import { Button } from '@client/components/ui/button';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Textarea } from '@client/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@client/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+import { Plus, Search, Trash2 } from 'lucide-react';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+interface OrderLine {
+  productId: string;
+  sku: string;
+  name: string;
+  orderedQuantity: string;
+  unitPrice: string;
+  batchNumber: string;
+}
+
+interface SalesOrderFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+  order?: any;
+}
+
+export const SalesOrderFormDialog: React.FC<SalesOrderFormDialogProps> = ({
+  open,
+  onOpenChange,
+  onSaved,
+  order,
+}) => {
+  const editMode = !!order;
+  const [customers, setCustomers] = useState<any[]>([]);
+  const [customerLocations, setCustomerLocations] = useState<any[]>([]);
+  const [warehouses, setWarehouses] = useState<any[]>([]);
+  const [products, setProducts] = useState<any[]>([]);
+  const [productSearch, setProductSearch] = useState('');
+  const [customerId, setCustomerId] = useState('');
+  const [customerLocationId, setCustomerLocationId] = useState('');
+  const [warehouseId, setWarehouseId] = useState('');
+  const [requestedDeliveryDate, setRequestedDeliveryDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchCustomers();
+      fetchWarehouses();
+      fetchProducts('');
+      setProductSearch('');
+
+      if (order) {
+        setCustomerId(order.customerId || '');
+        setCustomerLocationId(order.customerLocationId || '');
+        setWarehouseId(order.warehouseId || '');
+        setRequestedDeliveryDate(order.requestedDeliveryDate || '');
+        setNotes(order.notes || '');
+        setLines(
+          (order.items || []).map((item: any) => ({
+            productId: item.productId,
+            sku: item.productSku || '',
+            name: item.productName || '',
+            orderedQuantity: String(item.orderedQuantity),
+            unitPrice: item.unitPrice || '',
+            batchNumber: item.batchNumber || '',
+          }))
+        );
+      } else {
+        setCustomerId('');
+        setCustomerLocationId('');
+        setWarehouseId('');
+        setRequestedDeliveryDate('');
+        setNotes('');
+        setLines([]);
+      }
+    }
+  }, [open, order]);
+
+  useEffect(() => {
+    if (customerId) {
+      fetchCustomerLocations(customerId);
+    } else {
+      setCustomerLocations([]);
+    }
+  }, [customerId]);
+
+  const fetchCustomers = async () => {
+    try {
+      const response = await axios.get('/api/modules/master-data/customers', {
+        params: { page: 1, limit: 100 },
+      });
+      setCustomers(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching customers:', error);
+      toast.error('Failed to fetch customers');
+    }
+  };
+
+  const fetchCustomerLocations = async (id: string) => {
+    try {
+      const response = await axios.get(`/api/modules/master-data/customers/${id}`);
+      if (response.data.success) {
+        setCustomerLocations(response.data.data.locations || []);
+      }
+    } catch (error) {
+      console.error('Error fetching customer locations:', error);
+    }
+  };
+
+  const fetchWarehouses = async () => {
+    try {
+      const response = await axios.get('/api/modules/warehouse-setup/warehouses', {
+        params: { page: 1, limit: 100 },
+      });
+      setWarehouses(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+      toast.error('Failed to fetch warehouses');
+    }
+  };
+
+  const fetchProducts = async (search: string) => {
+    try {
+      const response = await axios.get('/api/modules/master-data/products', {
+        params: { page: 1, limit: 20, search: search || undefined },
+      });
+      setProducts(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching products:', error);
+      toast.error('Failed to fetch products');
+    }
+  };
+
+  const addLine = (product: any) => {
+    if (lines.some((line) => line.productId === product.id)) {
+      toast.error(`${product.sku} is already on this order`);
+      return;
+    }
+    setLines([...lines, { productId: product.id, sku: product.sku, name: product.name, orderedQuantity: '1', unitPrice: '', batchNumber: '' }]);
+  };
+
+  const updateLine = (index: number, field: keyof OrderLine, value: string) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const removeLine = (index: number) => {
+    setLines(lines.filter((_, i) => i !== index));
+  };
+
+  const totalAmount = lines.reduce(
+    (sum, line) => sum + (parseFloat(line.unitPrice) || 0) * (parseInt(line.orderedQuantity) || 0),
+    0
+  );
+
+  const handleSubmit = async () => {
+    if (!customerId || !warehouseId) {
+      toast.error('Select a customer and a warehouse');
+      return;
+    }
+
+    if (lines.length === 0) {
+      toast.error('Add at least one item');
+      return;
+    }
+
+    const payload = {
+      customerId,
+      customerLocationId: customerLocationId || undefined,
+      warehouseId,
+      requestedDeliveryDate: requestedDeliveryDate || undefined,
+      notes: notes.trim() || undefined,
+      items: lines.map((line) => ({
+        productId: line.productId,
+        orderedQuantity: parseInt(line.orderedQuantity),
+        unitPrice: line.unitPrice || undefined,
+        batchNumber: line.batchNumber.trim() || undefined,
+      })),
+    };
+
+    try {
+      setSubmitting(true);
+      if (editMode) {
+        await axios.put(`/api/modules/sales-order/orders/${order.id}`, payload);
+        toast.success(`Sales order ${order.orderNumber} updated`);
+      } else {
+        const response = await axios.post('/api/modules/sales-order/orders', payload);
+        toast.success(`Sales order ${response.data.data.orderNumber} created`);
+      }
+      onOpenChange(false);
+      onSaved();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save sales order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editMode ? `Edit ${order.orderNumber}` : 'Create Sales Order'}</DialogTitle>
+          <DialogDescription>
+            The order moves through the steps of your sales order workflow once it is saved.
+            Saving an allocated order releases its reserved stock.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Customer</Label>
+            <Select
+              value={customerId}
+              onValueChange={(value) => {
+                setCustomerId(value);
+                setCustomerLocationId('');
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select customer" />
+              </SelectTrigger>
+              <SelectContent>
+                {customers.map((customer) => (
+                  <SelectItem key={customer.id} value={customer.id}>
+                    {customer.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Ship-to Location</Label>
+            <Select value={customerLocationId} onValueChange={setCustomerLocationId} disabled={!customerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select location (optional)" />
+              </SelectTrigger>
+              <SelectContent>
+                {customerLocations.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {[location.address, location.city].filter(Boolean).join(', ') || location.locationType}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Ship-from Warehouse</Label>
+            <Select value={warehouseId} onValueChange={setWarehouseId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select warehouse" />
+              </SelectTrigger>
+              <SelectContent>
+                {warehouses.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="requested-delivery-date">Requested Delivery Date</Label>
+            <Input
+              id="requested-delivery-date"
+              type="date"
+              value={requestedDeliveryDate}
+              onChange={(e) => setRequestedDeliveryDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Add Products</Label>
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search products..."
+              value={productSearch}
+              onChange={(e) => {
+                setProductSearch(e.target.value);
+                fetchProducts(e.target.value);
+              }}
+              className="pl-8"
+            />
+          </div>
+          <div className="max-h-40 overflow-y-auto border rounded-md">
+            {products.map((product) => (
+              <div key={product.id} className="flex items-center justify-between px-3 py-1 border-b last:border-b-0">
+                <span className="text-sm">
+                  <span className="font-medium">{product.sku}</span> — {product.name}
+                </span>
+                <Button variant="ghost" size="icon" onClick={() => addLine(product)} title="Add Product">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="w-[120px]">Quantity</TableHead>
+              <TableHead className="w-[140px]">Batch</TableHead>
+              <TableHead className="w-[140px]">Unit Price</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="w-[60px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
+                  No items added.
+                </TableCell>
+              </TableRow>
+            ) : (
+              lines.map((line, index) => (
+                <TableRow key={line.productId}>
+                  <TableCell>
+                    <div className="font-medium">{line.sku}</div>
+                    <div className="text-sm text-muted-foreground">{line.name}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={line.orderedQuantity}
+                      onChange={(e) => updateLine(index, 'orderedQuantity', e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      placeholder="Any"
+                      value={line.batchNumber}
+                      onChange={(e) => updateLine(index, 'batchNumber', e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={line.unitPrice}
+                      onChange={(e) => updateLine(index, 'unitPrice', e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    ${((parseFloat(line.unitPrice) || 0) * (parseInt(line.orderedQuantity) || 0)).toFixed(2)}
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" onClick={() => removeLine(index)} title="Remove">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        <div className="text-right font-medium">Total: ${totalAmount.toFixed(2)}</div>
+
+        <div className="space-y-2">
+          <Label htmlFor="so-notes">Notes</Label>
+          <Textarea id="so-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? 'Saving...' : editMode ? 'Save Changes' : 'Create Sales Order'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
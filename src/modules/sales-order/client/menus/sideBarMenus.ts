@@ -0,0 +1,26 @@
+import { ShoppingBag } from 'lucide-react';
+
+export const salesOrderSidebarMenus = {
+    id: 'sales-order',
+    title: 'Sales Order',
+    url: '/console/modules/sales-order',
+    icon: ShoppingBag,
+    roles: 'ADMIN',
+    permissions: ['sales-order.view'],
+    items: [
+      {
+        id: "sales-order-list",
+        title: "Sales Orders",
+        url: "/console/modules/sales-order/orders",
+        roles: "ADMIN",
+        permissions: "sales-order.view",
+      },
+      {
+        id: "sales-order-picking",
+        title: "Picking",
+        url: "/console/modules/sales-order/picking",
+        roles: "ADMIN",
+        permissions: "sales-order.pick",
+      },
+    ],
+  };
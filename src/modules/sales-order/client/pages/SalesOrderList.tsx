@@ -0,0 +1,427 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@client/components/ui/button';
+import { Badge } from '@client/components/ui/badge';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Textarea } from '@client/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Ban, ChevronRight, Eye, PackageCheck, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@client/components/ui/alert-dialog';
+import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
+import { SalesOrderFormDialog } from '../components/SalesOrderFormDialog';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+// Orders can be edited or deleted until stock has been committed to them
+const EDITABLE_STATES = ['create', 'allocate'];
+
+// Orders can be cancelled until they have been packed
+const CANCELLABLE_STATES = ['create', 'allocate', 'pick'];
+
+const SalesOrderList: React.FC = () => {
+  const [orders, setOrders] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<any>(null);
+  const [viewingOrder, setViewingOrder] = useState<any>(null);
+  const [deletingOrder, setDeletingOrder] = useState<any>(null);
+  const [cancellingOrder, setCancellingOrder] = useState<any>(null);
+  const [cancelReason, setCancelReason] = useState('');
+
+  useEffect(() => {
+    fetchOrders();
+  }, [searchTerm]);
+
+  const fetchOrders = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/modules/sales-order/orders', {
+        params: {
+          page: 1,
+          limit: 100,
+          search: searchTerm || undefined,
+        },
+      });
+      setOrders(response.data.data || []);
+    } catch (error: any) {
+      console.error('Error fetching sales orders:', error);
+      toast.error('Failed to fetch sales orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchOrder = async (id: string) => {
+    const response = await axios.get(`/api/modules/sales-order/orders/${id}`);
+    return response.data.data;
+  };
+
+  const handleView = async (id: string) => {
+    try {
+      setViewingOrder(await fetchOrder(id));
+    } catch (error) {
+      toast.error('Failed to fetch sales order details');
+    }
+  };
+
+  const handleEdit = async (id: string) => {
+    try {
+      setEditingOrder(await fetchOrder(id));
+      setFormOpen(true);
+    } catch (error) {
+      toast.error('Failed to fetch sales order details');
+    }
+  };
+
+  const handleCreate = () => {
+    setEditingOrder(null);
+    setFormOpen(true);
+  };
+
+  const handleAdvance = async (order: any) => {
+    try {
+      const response = await axios.post(`/api/modules/sales-order/orders/${order.id}/advance`);
+      toast.success(`${order.orderNumber}: ${response.data.message}`);
+      fetchOrders();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to advance sales order');
+    }
+  };
+
+  const handleAllocate = async (order: any) => {
+    try {
+      const response = await axios.post(`/api/modules/sales-order/orders/${order.id}/allocate`);
+      if (response.data.data.fullyAllocated) {
+        toast.success(`${order.orderNumber}: ${response.data.message}`);
+      } else {
+        toast.warning(`${order.orderNumber}: ${response.data.message}`);
+      }
+      fetchOrders();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to allocate sales order');
+    }
+  };
+
+  const openCancel = (order: any) => {
+    setCancelReason('');
+    setCancellingOrder(order);
+  };
+
+  const confirmCancel = async () => {
+    if (!cancellingOrder) return;
+
+    if (!cancelReason.trim()) {
+      toast.error('Enter a cancellation reason');
+      return;
+    }
+
+    try {
+      await axios.post(`/api/modules/sales-order/orders/${cancellingOrder.id}/cancel`, {
+        reason: cancelReason.trim(),
+      });
+      toast.success(`Sales order ${cancellingOrder.orderNumber} cancelled`);
+      setCancellingOrder(null);
+      fetchOrders();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to cancel sales order');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deletingOrder) return;
+
+    try {
+      await axios.delete(`/api/modules/sales-order/orders/${deletingOrder.id}`);
+      toast.success(`Sales order ${deletingOrder.orderNumber} deleted`);
+      fetchOrders();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to delete sales order');
+    } finally {
+      setDeletingOrder(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Sales Orders</h1>
+          <p className="text-muted-foreground">
+            Create sales orders and move them through your sales order workflow
+          </p>
+        </div>
+        <Button onClick={handleCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Create Sales Order
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Orders</CardTitle>
+          <div className="relative max-w-sm">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by SO number or customer..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SO Number</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Order Date</TableHead>
+                  <TableHead>Total Amount</TableHead>
+                  <TableHead>Step</TableHead>
+                  <TableHead className="w-[180px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8">
+                      No sales orders found.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  orders.map((order) => {
+                    const isOpen = order.status === 'open';
+                    const editable = isOpen && EDITABLE_STATES.includes(order.workflowState);
+                    return (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-medium">{order.orderNumber}</TableCell>
+                        <TableCell>{order.customerName}</TableCell>
+                        <TableCell>{order.warehouseName}</TableCell>
+                        <TableCell>{new Date(order.orderDate).toLocaleDateString()}</TableCell>
+                        <TableCell>${parseFloat(order.totalAmount || 0).toFixed(2)}</TableCell>
+                        <TableCell>
+                          {order.status === 'cancelled' ? (
+                            <Badge variant="destructive">Cancelled</Badge>
+                          ) : (
+                            <Badge variant={order.status === 'completed' ? 'default' : 'secondary'} className="capitalize">
+                              {order.workflowState}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button variant="ghost" size="icon" onClick={() => handleView(order.id)} title="View">
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {editable && (
+                              <Button variant="ghost" size="icon" onClick={() => handleEdit(order.id)} title="Edit">
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {isOpen && order.workflowState === 'allocate' && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleAllocate(order)}
+                                title="Allocate Stock"
+                              >
+                                <PackageCheck className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {isOpen && order.workflowState !== 'complete' && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleAdvance(order)}
+                                title="Move to Next Step"
+                              >
+                                <ChevronRight className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {isOpen && CANCELLABLE_STATES.includes(order.workflowState) && (
+                              <Button variant="ghost" size="icon" onClick={() => openCancel(order)} title="Cancel Order">
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {editable && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setDeletingOrder(order)}
+                                title="Delete"
+                                className="text-destructive hover:text-destructive"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <SalesOrderFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        onSaved={fetchOrders}
+        order={editingOrder}
+      />
+
+      <Dialog open={!!viewingOrder} onOpenChange={(open) => !open && setViewingOrder(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Sales Order {viewingOrder?.orderNumber}</DialogTitle>
+          </DialogHeader>
+          {viewingOrder && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Customer</div>
+                  <div className="font-medium">{viewingOrder.customerName}</div>
+                  <div>
+                    {[viewingOrder.locationAddress, viewingOrder.locationCity, viewingOrder.locationCountry]
+                      .filter(Boolean)
+                      .join(', ')}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Ship From</div>
+                  <div className="font-medium">{viewingOrder.warehouseName}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Step</div>
+                  <div className="font-medium capitalize">
+                    {viewingOrder.status === 'cancelled' ? 'Cancelled' : viewingOrder.workflowState}
+                  </div>
+                  {viewingOrder.cancellationReason && (
+                    <div className="text-muted-foreground">{viewingOrder.cancellationReason}</div>
+                  )}
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Requested Delivery</div>
+                  <div className="font-medium">
+                    {viewingOrder.requestedDeliveryDate
+                      ? new Date(viewingOrder.requestedDeliveryDate).toLocaleDateString()
+                      : '-'}
+                  </div>
+                </div>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Allocated</TableHead>
+                    <TableHead className="text-right">Picked</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {viewingOrder.items.map((item: any) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="font-medium">{item.productSku}</TableCell>
+                      <TableCell>{item.productName}</TableCell>
+                      <TableCell>{item.batchNumber || '-'}</TableCell>
+                      <TableCell className="text-right">{item.orderedQuantity}</TableCell>
+                      <TableCell className="text-right">{item.allocatedQuantity}</TableCell>
+                      <TableCell className="text-right">{item.pickedQuantity}</TableCell>
+                      <TableCell className="text-right">${parseFloat(item.unitPrice || 0).toFixed(2)}</TableCell>
+                      <TableCell className="text-right">${parseFloat(item.totalPrice || 0).toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="text-right font-medium">
+                Total: ${parseFloat(viewingOrder.totalAmount || 0).toFixed(2)}
+              </div>
+              {viewingOrder.notes && <p className="text-sm text-muted-foreground">{viewingOrder.notes}</p>}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!cancellingOrder} onOpenChange={(open) => !open && setCancellingOrder(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {cancellingOrder?.orderNumber}</DialogTitle>
+            <DialogDescription>
+              Stock reserved for this order is released back to available inventory.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancel-reason">Reason</Label>
+            <Textarea id="cancel-reason" value={cancelReason} onChange={(e) => setCancelReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancellingOrder(null)}>
+              Keep Order
+            </Button>
+            <Button variant="destructive" onClick={confirmCancel}>
+              Cancel Order
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingOrder} onOpenChange={(open) => !open && setDeletingOrder(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete sales order "{deletingOrder?.orderNumber}".
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default withModuleAuthorization(SalesOrderList, {
+  moduleId: 'sales-order',
+  moduleName: 'Sales Order'
+});
@@ -0,0 +1,367 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@client/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Badge } from '@client/components/ui/badge';
+import { Checkbox } from '@client/components/ui/checkbox';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Textarea } from '@client/components/ui/textarea';
+import { Check, Eye, Layers } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+const LINE_STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  picked: 'default',
+  short: 'destructive',
+  cancelled: 'outline',
+};
+
+const SalesOrderPicking: React.FC = () => {
+  const [orders, setOrders] = useState<any[]>([]);
+  const [waves, setWaves] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [viewingWave, setViewingWave] = useState<any>(null);
+  const [confirmingLine, setConfirmingLine] = useState<any>(null);
+  const [pickedQuantity, setPickedQuantity] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [ordersResponse, wavesResponse] = await Promise.all([
+        axios.get('/api/modules/sales-order/orders', {
+          params: { page: 1, limit: 100, status: 'open', workflowState: 'pick' },
+        }),
+        axios.get('/api/modules/sales-order/waves', {
+          params: { page: 1, limit: 50 },
+        }),
+      ]);
+      setOrders(ordersResponse.data.data || []);
+      setWaves(wavesResponse.data.data || []);
+      setSelectedOrderIds([]);
+    } catch (error: any) {
+      console.error('Error fetching picking data:', error);
+      toast.error('Failed to fetch picking data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleOrder = (order: any, checked: boolean) => {
+    if (!checked) {
+      setSelectedOrderIds(selectedOrderIds.filter((id) => id !== order.id));
+      return;
+    }
+
+    const selectedWarehouse = orders.find((o) => o.id === selectedOrderIds[0])?.warehouseId;
+    if (selectedWarehouse && selectedWarehouse !== order.warehouseId) {
+      toast.error('A wave can only contain orders from one warehouse');
+      return;
+    }
+    setSelectedOrderIds([...selectedOrderIds, order.id]);
+  };
+
+  const handleCreateWave = async () => {
+    try {
+      setCreating(true);
+      const response = await axios.post('/api/modules/sales-order/waves', { salesOrderIds: selectedOrderIds });
+      toast.success(`Pick wave ${response.data.data.waveNumber} created`);
+      setViewingWave(response.data.data);
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to create pick wave');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const openWave = async (id: string) => {
+    try {
+      const response = await axios.get(`/api/modules/sales-order/waves/${id}`);
+      setViewingWave(response.data.data);
+    } catch (error) {
+      toast.error('Failed to fetch pick wave');
+    }
+  };
+
+  const openConfirm = (line: any) => {
+    setPickedQuantity(String(line.quantity));
+    setNotes('');
+    setConfirmingLine(line);
+  };
+
+  const handleConfirm = async () => {
+    if (!confirmingLine || !viewingWave) return;
+
+    try {
+      setSubmitting(true);
+      const response = await axios.post(
+        `/api/modules/sales-order/waves/${viewingWave.id}/lines/${confirmingLine.id}/confirm`,
+        { pickedQuantity: parseInt(pickedQuantity), notes: notes.trim() || undefined }
+      );
+      if (response.data.data.line.shortQuantity > 0) {
+        toast.warning(response.data.message);
+      } else {
+        toast.success(response.data.message);
+      }
+      setConfirmingLine(null);
+      openWave(viewingWave.id);
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to confirm pick');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Picking</h1>
+        <p className="text-muted-foreground">
+          Group allocated sales orders into pick waves and confirm what was picked
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Orders Ready to Pick</CardTitle>
+          <Button onClick={handleCreateWave} disabled={selectedOrderIds.length === 0 || creating}>
+            <Layers className="h-4 w-4 mr-2" />
+            {creating ? 'Creating...' : `Create Wave (${selectedOrderIds.length})`}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40px]"></TableHead>
+                  <TableHead>SO Number</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Requested Delivery</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8">
+                      No sales orders are waiting to be picked.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  orders.map((order) => (
+                    <TableRow key={order.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedOrderIds.includes(order.id)}
+                          onCheckedChange={(checked) => toggleOrder(order, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{order.orderNumber}</TableCell>
+                      <TableCell>{order.customerName}</TableCell>
+                      <TableCell>{order.warehouseName}</TableCell>
+                      <TableCell>
+                        {order.requestedDeliveryDate
+                          ? new Date(order.requestedDeliveryDate).toLocaleDateString()
+                          : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pick Waves</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Wave</TableHead>
+                <TableHead>Warehouse</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Lines</TableHead>
+                <TableHead className="text-right">Pending</TableHead>
+                <TableHead className="text-right">Short</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="w-[80px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {waves.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8">
+                    No pick waves found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                waves.map((wave) => (
+                  <TableRow key={wave.id}>
+                    <TableCell className="font-medium">{wave.waveNumber}</TableCell>
+                    <TableCell>{wave.warehouseName}</TableCell>
+                    <TableCell>
+                      <Badge variant={wave.status === 'completed' ? 'default' : 'secondary'} className="capitalize">
+                        {wave.status.replace('_', ' ')}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{wave.totalLines}</TableCell>
+                    <TableCell className="text-right">{wave.pendingLines}</TableCell>
+                    <TableCell className="text-right">{wave.shortLines}</TableCell>
+                    <TableCell>{new Date(wave.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => openWave(wave.id)} title="Open Pick List">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!viewingWave} onOpenChange={(open) => !open && setViewingWave(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Pick List {viewingWave?.waveNumber}</DialogTitle>
+            <DialogDescription>
+              Lines are in walking order through {viewingWave?.warehouseName}.
+            </DialogDescription>
+          </DialogHeader>
+          {viewingWave && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Batch / Expiry</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Picked</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {viewingWave.lines.map((line: any) => (
+                  <TableRow key={line.id}>
+                    <TableCell>{line.sequence}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{line.binName}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {[line.zoneName, line.aisleName, line.shelfName].filter(Boolean).join(' / ')}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{line.productSku}</div>
+                      <div className="text-sm text-muted-foreground">{line.productName}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{line.batchNumber || '-'}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {line.expiryDate ? new Date(line.expiryDate).toLocaleDateString() : ''}
+                      </div>
+                    </TableCell>
+                    <TableCell>{line.orderNumber}</TableCell>
+                    <TableCell className="text-right">{line.quantity}</TableCell>
+                    <TableCell className="text-right">{line.status === 'pending' ? '-' : line.pickedQuantity}</TableCell>
+                    <TableCell>
+                      <Badge variant={LINE_STATUS_VARIANTS[line.status]} className="capitalize">
+                        {line.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {line.status === 'pending' && (
+                        <Button variant="ghost" size="icon" onClick={() => openConfirm(line)} title="Confirm Pick">
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!confirmingLine} onOpenChange={(open) => !open && setConfirmingLine(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Confirm Pick</DialogTitle>
+            <DialogDescription>
+              {confirmingLine?.productSku} from {confirmingLine?.binName} for {confirmingLine?.orderNumber}.
+              Enter less than {confirmingLine?.quantity} to record a short pick.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="picked-quantity">Picked Quantity</Label>
+              <Input
+                id="picked-quantity"
+                type="number"
+                min={0}
+                max={confirmingLine?.quantity}
+                value={pickedQuantity}
+                onChange={(e) => setPickedQuantity(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pick-notes">Notes</Label>
+              <Textarea id="pick-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmingLine(null)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={submitting || pickedQuantity === ''}>
+              {submitting ? 'Saving...' : 'Confirm Pick'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default withModuleAuthorization(SalesOrderPicking, {
+  moduleId: 'sales-order',
+  moduleName: 'Sales Order'
+});
@@ -0,0 +1,14 @@
+import { RouteObject } from 'react-router';
+import SalesOrderList from '../pages/SalesOrderList';
+import SalesOrderPicking from '../pages/SalesOrderPicking';
+
+export const salesOrderReactRoutes = (basePath: string): RouteObject => {
+  return {
+    path: basePath,
+    children: [
+      { index: true, Component: SalesOrderList },
+      { path: 'orders', Component: SalesOrderList },
+      { path: 'picking', Component: SalesOrderPicking },
+    ]
+  };
+};
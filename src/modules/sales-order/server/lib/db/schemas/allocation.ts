@@ -0,0 +1,85 @@
+import { relations } from 'drizzle-orm';
+import { date, index, integer, pgTable, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import { tenant, user } from '@server/lib/db/schema/system';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { bins } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { salesOrders, salesOrderItems } from './salesOrder';
+
+/**
+ * Sales Order Allocations Table
+ * One row per inventory row reserved for a sales order line.
+ * While `reserved`, the quantity is held in inventory_items.reserved_quantity; `picked` allocations have left the bin.
+ */
+export const salesOrderAllocations = pgTable('sales_order_allocations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  salesOrderId: uuid('sales_order_id')
+    .notNull()
+    .references(() => salesOrders.id, { onDelete: 'cascade' }),
+  salesOrderItemId: uuid('sales_order_item_id')
+    .notNull()
+    .references(() => salesOrderItems.id, { onDelete: 'cascade' }),
+  inventoryItemId: uuid('inventory_item_id')
+    .notNull()
+    .references(() => inventoryItems.id),
+  productId: uuid('product_id')
+    .notNull()
+    .references(() => products.id),
+  binId: uuid('bin_id')
+    .notNull()
+    .references(() => bins.id),
+  batchNumber: varchar('batch_number', { length: 100 }),
+  expiryDate: date('expiry_date'),
+  quantity: integer('quantity').notNull(),
+  status: varchar('status', {
+    length: 50,
+    enum: ['reserved', 'picked', 'released']
+  }).notNull().default('reserved'),
+  createdBy: uuid('created_by')
+    .references(() => user.id),
+  releasedAt: timestamp('released_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    index('sales_order_allocations_tenant_idx').on(t.tenantId),
+    index('sales_order_allocations_so_idx').on(t.salesOrderId),
+    index('sales_order_allocations_so_item_idx').on(t.salesOrderItemId),
+    index('sales_order_allocations_inventory_item_idx').on(t.inventoryItemId),
+  ]
+);
+
+// Relations
+export const salesOrderAllocationsRelations = relations(salesOrderAllocations, ({ one }) => ({
+  tenant: one(tenant, {
+    fields: [salesOrderAllocations.tenantId],
+    references: [tenant.id],
+  }),
+  salesOrder: one(salesOrders, {
+    fields: [salesOrderAllocations.salesOrderId],
+    references: [salesOrders.id],
+  }),
+  salesOrderItem: one(salesOrderItems, {
+    fields: [salesOrderAllocations.salesOrderItemId],
+    references: [salesOrderItems.id],
+  }),
+  inventoryItem: one(inventoryItems, {
+    fields: [salesOrderAllocations.inventoryItemId],
+    references: [inventoryItems.id],
+  }),
+  product: one(products, {
+    fields: [salesOrderAllocations.productId],
+    references: [products.id],
+  }),
+  bin: one(bins, {
+    fields: [salesOrderAllocations.binId],
+    references: [bins.id],
+  }),
+}));
+
+// Types
+export type SalesOrderAllocation = typeof salesOrderAllocations.$inferSelect;
+export type NewSalesOrderAllocation = typeof salesOrderAllocations.$inferInsert;
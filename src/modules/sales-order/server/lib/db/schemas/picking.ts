@@ -0,0 +1,154 @@
+import { relations } from 'drizzle-orm';
+import { date, index, integer, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { tenant, user } from '@server/lib/db/schema/system';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { bins, warehouses } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { salesOrders, salesOrderItems } from './salesOrder';
+import { salesOrderAllocations } from './allocation';
+
+/**
+ * Pick Waves Table
+ * A batch of sales orders from one warehouse that is picked in a single walk.
+ */
+export const pickWaves = pgTable('pick_waves', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  warehouseId: uuid('warehouse_id')
+    .notNull()
+    .references(() => warehouses.id),
+  waveNumber: varchar('wave_number', { length: 100 }).notNull(),
+  status: varchar('status', {
+    length: 50,
+    enum: ['pending', 'in_progress', 'completed']
+  }).notNull().default('pending'),
+  notes: text('notes'),
+  createdBy: uuid('created_by')
+    .references(() => user.id),
+  completedAt: timestamp('completed_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    uniqueIndex('pick_waves_tenant_number_idx').on(t.tenantId, t.waveNumber),
+    index('pick_waves_tenant_idx').on(t.tenantId),
+    index('pick_waves_warehouse_idx').on(t.warehouseId),
+    index('pick_waves_status_idx').on(t.status),
+  ]
+);
+
+/**
+ * Pick List Items Table
+ * One line per allocation to pick, in walking order (`sequence`) through the warehouse.
+ */
+export const pickListItems = pgTable('pick_list_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  waveId: uuid('wave_id')
+    .notNull()
+    .references(() => pickWaves.id, { onDelete: 'cascade' }),
+  salesOrderId: uuid('sales_order_id')
+    .notNull()
+    .references(() => salesOrders.id, { onDelete: 'cascade' }),
+  salesOrderItemId: uuid('sales_order_item_id')
+    .notNull()
+    .references(() => salesOrderItems.id, { onDelete: 'cascade' }),
+  allocationId: uuid('allocation_id')
+    .notNull()
+    .references(() => salesOrderAllocations.id, { onDelete: 'cascade' }),
+  inventoryItemId: uuid('inventory_item_id')
+    .notNull()
+    .references(() => inventoryItems.id),
+  productId: uuid('product_id')
+    .notNull()
+    .references(() => products.id),
+  binId: uuid('bin_id')
+    .notNull()
+    .references(() => bins.id),
+  batchNumber: varchar('batch_number', { length: 100 }),
+  expiryDate: date('expiry_date'),
+  sequence: integer('sequence').notNull(),
+  quantity: integer('quantity').notNull(),
+  pickedQuantity: integer('picked_quantity').default(0).notNull(),
+  shortQuantity: integer('short_quantity').default(0).notNull(),
+  status: varchar('status', {
+    length: 50,
+    enum: ['pending', 'picked', 'short', 'cancelled']
+  }).notNull().default('pending'),
+  notes: text('notes'),
+  pickedBy: uuid('picked_by')
+    .references(() => user.id),
+  pickedAt: timestamp('picked_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    index('pick_list_items_tenant_idx').on(t.tenantId),
+    index('pick_list_items_wave_idx').on(t.waveId),
+    index('pick_list_items_so_idx').on(t.salesOrderId),
+    index('pick_list_items_status_idx').on(t.status),
+  ]
+);
+
+// Relations
+export const pickWavesRelations = relations(pickWaves, ({ one, many }) => ({
+  tenant: one(tenant, {
+    fields: [pickWaves.tenantId],
+    references: [tenant.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [pickWaves.warehouseId],
+    references: [warehouses.id],
+  }),
+  creator: one(user, {
+    fields: [pickWaves.createdBy],
+    references: [user.id],
+  }),
+  items: many(pickListItems),
+}));
+
+export const pickListItemsRelations = relations(pickListItems, ({ one }) => ({
+  wave: one(pickWaves, {
+    fields: [pickListItems.waveId],
+    references: [pickWaves.id],
+  }),
+  salesOrder: one(salesOrders, {
+    fields: [pickListItems.salesOrderId],
+    references: [salesOrders.id],
+  }),
+  salesOrderItem: one(salesOrderItems, {
+    fields: [pickListItems.salesOrderItemId],
+    references: [salesOrderItems.id],
+  }),
+  allocation: one(salesOrderAllocations, {
+    fields: [pickListItems.allocationId],
+    references: [salesOrderAllocations.id],
+  }),
+  inventoryItem: one(inventoryItems, {
+    fields: [pickListItems.inventoryItemId],
+    references: [inventoryItems.id],
+  }),
+  product: one(products, {
+    fields: [pickListItems.productId],
+    references: [products.id],
+  }),
+  bin: one(bins, {
+    fields: [pickListItems.binId],
+    references: [bins.id],
+  }),
+  picker: one(user, {
+    fields: [pickListItems.pickedBy],
+    references: [user.id],
+  }),
+}));
+
+// Types
+export type PickWave = typeof pickWaves.$inferSelect;
+export type NewPickWave = typeof pickWaves.$inferInsert;
+
+export type PickListItem = typeof pickListItems.$inferSelect;
+export type NewPickListItem = typeof pickListItems.$inferInsert;
@@ -0,0 +1,132 @@
+import { relations } from 'drizzle-orm';
+import { date, decimal, index, integer, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { tenant, user } from '@server/lib/db/schema/system';
+import { customers, customerLocations, products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { warehouses } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+
+// SO workflow steps seeded by the workflow module, in order
+export const salesOrderWorkflowStates = ['create', 'allocate', 'pick', 'pack', 'ship', 'deliver', 'complete'] as const;
+export type SalesOrderWorkflowState = typeof salesOrderWorkflowStates[number];
+
+export const salesOrders = pgTable('sales_orders', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  orderNumber: varchar('order_number', { length: 100 }).notNull(),
+  customerId: uuid('customer_id')
+    .notNull()
+    .references(() => customers.id),
+  customerLocationId: uuid('customer_location_id')
+    .references(() => customerLocations.id),
+  warehouseId: uuid('warehouse_id')
+    .notNull()
+    .references(() => warehouses.id),
+  status: varchar('status', {
+    length: 50,
+    enum: ['open', 'completed', 'cancelled']
+  }).notNull().default('open'),
+  workflowState: varchar('workflow_state', {
+    length: 50,
+    enum: salesOrderWorkflowStates
+  }).notNull().default('create'),
+  orderDate: date('order_date').notNull(),
+  requestedDeliveryDate: date('requested_delivery_date'),
+  totalAmount: decimal('total_amount', { precision: 15, scale: 2 }),
+  notes: text('notes'),
+  createdBy: uuid('created_by')
+    .references(() => user.id),
+  cancelledBy: uuid('cancelled_by')
+    .references(() => user.id),
+  cancelledAt: timestamp('cancelled_at'),
+  cancellationReason: text('cancellation_reason'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    uniqueIndex('sales_orders_tenant_number_idx').on(t.tenantId, t.orderNumber),
+    index('sales_orders_tenant_idx').on(t.tenantId),
+    index('sales_orders_customer_idx').on(t.customerId),
+    index('sales_orders_status_idx').on(t.status),
+    index('sales_orders_warehouse_idx').on(t.warehouseId),
+  ]
+);
+
+export const salesOrderItems = pgTable('sales_order_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  salesOrderId: uuid('sales_order_id')
+    .notNull()
+    .references(() => salesOrders.id, { onDelete: 'cascade' }),
+  productId: uuid('product_id')
+    .notNull()
+    .references(() => products.id),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  orderedQuantity: integer('ordered_quantity').notNull(),
+  allocatedQuantity: integer('allocated_quantity').default(0).notNull(),
+  pickedQuantity: integer('picked_quantity').default(0).notNull(),
+  batchNumber: varchar('batch_number', { length: 100 }),
+  unitPrice: decimal('unit_price', { precision: 10, scale: 2 }),
+  totalPrice: decimal('total_price', { precision: 15, scale: 2 }),
+  notes: text('notes'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    index('sales_order_items_tenant_idx').on(t.tenantId),
+    index('sales_order_items_so_idx').on(t.salesOrderId),
+    index('sales_order_items_product_idx').on(t.productId),
+  ]
+);
+
+// Relations
+export const salesOrdersRelations = relations(salesOrders, ({ one, many }) => ({
+  tenant: one(tenant, {
+    fields: [salesOrders.tenantId],
+    references: [tenant.id],
+  }),
+  customer: one(customers, {
+    fields: [salesOrders.customerId],
+    references: [customers.id],
+  }),
+  customerLocation: one(customerLocations, {
+    fields: [salesOrders.customerLocationId],
+    references: [customerLocations.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [salesOrders.warehouseId],
+    references: [warehouses.id],
+  }),
+  creator: one(user, {
+    fields: [salesOrders.createdBy],
+    references: [user.id],
+  }),
+  canceller: one(user, {
+    fields: [salesOrders.cancelledBy],
+    references: [user.id],
+  }),
+  items: many(salesOrderItems),
+}));
+
+export const salesOrderItemsRelations = relations(salesOrderItems, ({ one }) => ({
+  salesOrder: one(salesOrders, {
+    fields: [salesOrderItems.salesOrderId],
+    references: [salesOrders.id],
+  }),
+  product: one(products, {
+    fields: [salesOrderItems.productId],
+    references: [products.id],
+  }),
+  tenant: one(tenant, {
+    fields: [salesOrderItems.tenantId],
+    references: [tenant.id],
+  }),
+}));
+
+// Types
+export type SalesOrder = typeof salesOrders.$inferSelect;
+export type NewSalesOrder = typeof salesOrders.$inferInsert;
+
+export type SalesOrderItem = typeof salesOrderItems.$inferSelect;
+export type NewSalesOrderItem = typeof salesOrderItems.$inferInsert;
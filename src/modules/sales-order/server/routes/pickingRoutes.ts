@@ -0,0 +1,736 @@
+import express from 'express';
+import { db } from '@server/lib/db';
+import { salesOrders } from '../lib/db/schemas/salesOrder';
+import { pickListItems, pickWaves } from '../lib/db/schemas/picking';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { aisles, bins, shelves, warehouses, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { user } from '@server/lib/db/schema/system';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { eq, and, desc, asc, count, ilike, inArray } from 'drizzle-orm';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { v4 as uuidv4 } from 'uuid';
+import { logAudit, getClientIp } from '@server/services/auditService';
+import { generateDocumentNumber, linkDocumentNumber } from '@modules/document-numbering/server/services/documentNumberService';
+import { getActiveWorkflowSteps } from '@modules/workflow/server/services/workflowService';
+import { getNextState } from '../services/salesOrderWorkflowService';
+import {
+  PickingError,
+  confirmPickLine,
+  createWaveLines,
+  getOrderPickProgress,
+  refreshWaveStatus,
+} from '../services/pickingService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('sales-order'));
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PickWave:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         warehouseId:
+ *           type: string
+ *           format: uuid
+ *         waveNumber:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, in_progress, completed]
+ *         notes:
+ *           type: string
+ *         createdBy:
+ *           type: string
+ *           format: uuid
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *     PickListItem:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         waveId:
+ *           type: string
+ *           format: uuid
+ *         salesOrderId:
+ *           type: string
+ *           format: uuid
+ *         salesOrderItemId:
+ *           type: string
+ *           format: uuid
+ *         allocationId:
+ *           type: string
+ *           format: uuid
+ *         inventoryItemId:
+ *           type: string
+ *           format: uuid
+ *         productId:
+ *           type: string
+ *           format: uuid
+ *         binId:
+ *           type: string
+ *           format: uuid
+ *         batchNumber:
+ *           type: string
+ *         expiryDate:
+ *           type: string
+ *           format: date
+ *         sequence:
+ *           type: integer
+ *           description: Position of the line on the pick path
+ *         quantity:
+ *           type: integer
+ *         pickedQuantity:
+ *           type: integer
+ *         shortQuantity:
+ *           type: integer
+ *         status:
+ *           type: string
+ *           enum: [pending, picked, short, cancelled]
+ *         pickedBy:
+ *           type: string
+ *           format: uuid
+ *         pickedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+// ==================== HELPER FUNCTIONS ====================
+
+const lineColumns = {
+  id: pickListItems.id,
+  waveId: pickListItems.waveId,
+  sequence: pickListItems.sequence,
+  salesOrderId: pickListItems.salesOrderId,
+  orderNumber: salesOrders.orderNumber,
+  salesOrderItemId: pickListItems.salesOrderItemId,
+  allocationId: pickListItems.allocationId,
+  inventoryItemId: pickListItems.inventoryItemId,
+  productId: pickListItems.productId,
+  productSku: products.sku,
+  productName: products.name,
+  binId: pickListItems.binId,
+  binName: bins.name,
+  shelfName: shelves.name,
+  aisleName: aisles.name,
+  zoneName: zones.name,
+  batchNumber: pickListItems.batchNumber,
+  expiryDate: pickListItems.expiryDate,
+  quantity: pickListItems.quantity,
+  pickedQuantity: pickListItems.pickedQuantity,
+  shortQuantity: pickListItems.shortQuantity,
+  status: pickListItems.status,
+  notes: pickListItems.notes,
+  pickedBy: pickListItems.pickedBy,
+  pickedByName: user.fullname,
+  pickedAt: pickListItems.pickedAt,
+};
+
+async function getWaveDetail(id: string, tenantId: string) {
+  const [wave] = await db
+    .select({
+      id: pickWaves.id,
+      waveNumber: pickWaves.waveNumber,
+      warehouseId: pickWaves.warehouseId,
+      warehouseName: warehouses.name,
+      status: pickWaves.status,
+      notes: pickWaves.notes,
+      createdBy: pickWaves.createdBy,
+      createdByName: user.fullname,
+      completedAt: pickWaves.completedAt,
+      createdAt: pickWaves.createdAt,
+      updatedAt: pickWaves.updatedAt,
+    })
+    .from(pickWaves)
+    .leftJoin(warehouses, eq(pickWaves.warehouseId, warehouses.id))
+    .leftJoin(user, eq(pickWaves.createdBy, user.id))
+    .where(and(eq(pickWaves.id, id), eq(pickWaves.tenantId, tenantId)));
+
+  if (!wave) {
+    return null;
+  }
+
+  const lines = await db
+    .select(lineColumns)
+    .from(pickListItems)
+    .leftJoin(salesOrders, eq(pickListItems.salesOrderId, salesOrders.id))
+    .leftJoin(products, eq(pickListItems.productId, products.id))
+    .leftJoin(bins, eq(pickListItems.binId, bins.id))
+    .leftJoin(shelves, eq(bins.shelfId, shelves.id))
+    .leftJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .leftJoin(zones, eq(aisles.zoneId, zones.id))
+    .leftJoin(user, eq(pickListItems.pickedBy, user.id))
+    .where(eq(pickListItems.waveId, id))
+    .orderBy(asc(pickListItems.sequence));
+
+  return { ...wave, lines };
+}
+
+// ==================== PICK WAVES ====================
+
+/**
+ * @swagger
+ * /api/modules/sales-order/waves:
+ *   get:
+ *     summary: Get all pick waves
+ *     tags: [Picking]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, in_progress, completed]
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by wave number
+ *     responses:
+ *       200:
+ *         description: List of pick waves with line counts
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/waves', authorized('ADMIN', 'sales-order.pick'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = req.query.status as string;
+    const warehouseId = req.query.warehouseId as string;
+    const search = req.query.search as string;
+    const offset = (page - 1) * limit;
+
+    const whereConditions = [eq(pickWaves.tenantId, tenantId)];
+    if (status) {
+      whereConditions.push(eq(pickWaves.status, status as any));
+    }
+    if (warehouseId) {
+      whereConditions.push(eq(pickWaves.warehouseId, warehouseId));
+    }
+    if (search) {
+      whereConditions.push(ilike(pickWaves.waveNumber, `%${search}%`));
+    }
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(pickWaves)
+      .where(and(...whereConditions));
+
+    const waves = await db
+      .select({
+        id: pickWaves.id,
+        waveNumber: pickWaves.waveNumber,
+        warehouseId: pickWaves.warehouseId,
+        warehouseName: warehouses.name,
+        status: pickWaves.status,
+        notes: pickWaves.notes,
+        createdByName: user.fullname,
+        completedAt: pickWaves.completedAt,
+        createdAt: pickWaves.createdAt,
+      })
+      .from(pickWaves)
+      .leftJoin(warehouses, eq(pickWaves.warehouseId, warehouses.id))
+      .leftJoin(user, eq(pickWaves.createdBy, user.id))
+      .where(and(...whereConditions))
+      .orderBy(desc(pickWaves.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const waveIds = waves.map((wave) => wave.id);
+    const lineCounts = waveIds.length > 0
+      ? await db
+        .select({
+          waveId: pickListItems.waveId,
+          status: pickListItems.status,
+          count: count(),
+        })
+        .from(pickListItems)
+        .where(inArray(pickListItems.waveId, waveIds))
+        .groupBy(pickListItems.waveId, pickListItems.status)
+      : [];
+
+    const data = waves.map((wave) => {
+      const counts = lineCounts.filter((row) => row.waveId === wave.id);
+      return {
+        ...wave,
+        totalLines: counts.reduce((sum, row) => sum + row.count, 0),
+        pendingLines: counts.find((row) => row.status === 'pending')?.count || 0,
+        shortLines: counts.find((row) => row.status === 'short')?.count || 0,
+      };
+    });
+
+    const totalPages = Math.ceil(totalResult.count / limit);
+
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching pick waves:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/sales-order/waves/{id}:
+ *   get:
+ *     summary: Get a pick wave with its pick list in walking order
+ *     tags: [Picking]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Pick wave with lines sorted by sequence
+ *       404:
+ *         description: Pick wave not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/waves/:id', authorized('ADMIN', 'sales-order.pick'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const wave = await getWaveDetail(req.params.id, tenantId);
+
+    if (!wave) {
+      return res.status(404).json({
+        success: false,
+        message: 'Pick wave not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: wave,
+    });
+  } catch (error) {
+    console.error('Error fetching pick wave:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/sales-order/waves:
+ *   post:
+ *     summary: Create a pick wave for several sales orders
+ *     description: |
+ *       All orders must be open, in the pick step and ship from the same warehouse. Their reserved
+ *       allocations become pick lines, sequenced by zone, aisle and shelf and then by bin accessibility score.
+ *     tags: [Picking]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - salesOrderIds
+ *             properties:
+ *               salesOrderIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Pick wave created
+ *       400:
+ *         description: Invalid orders or nothing left to pick
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/waves', authorized('ADMIN', 'sales-order.pick'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { salesOrderIds, notes } = req.body;
+
+    if (!Array.isArray(salesOrderIds) || salesOrderIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'At least one sales order is required',
+      });
+    }
+
+    const orderIds: string[] = [...new Set<string>(salesOrderIds)];
+
+    const orders = await db
+      .select()
+      .from(salesOrders)
+      .where(and(eq(salesOrders.tenantId, tenantId), inArray(salesOrders.id, orderIds)));
+
+    if (orders.length !== orderIds.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'One or more sales orders were not found',
+      });
+    }
+
+    const warehouseIds = new Set(orders.map((order) => order.warehouseId));
+    if (warehouseIds.size > 1) {
+      return res.status(400).json({
+        success: false,
+        message: 'All sales orders in a wave must ship from the same warehouse',
+      });
+    }
+
+    // Generate wave number via document numbering service
+    let waveNumber: string;
+    let documentHistoryId: string;
+
+    try {
+      const generated = await generateDocumentNumber(tenantId, req.headers.authorization, 'WAVE', 'pick_waves');
+      waveNumber = generated.documentNumber;
+      documentHistoryId = generated.historyId;
+    } catch (error: any) {
+      console.error('Error generating wave number:', error.response?.data || error.message);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to generate wave number',
+      });
+    }
+
+    const waveId = uuidv4();
+    const warehouseId = orders[0].warehouseId;
+
+    const lines = await db.transaction(async (tx) => {
+      // Lock the orders in a fixed order so concurrent waves and cancellations queue behind each other
+      const locked = await tx
+        .select()
+        .from(salesOrders)
+        .where(inArray(salesOrders.id, orderIds))
+        .orderBy(asc(salesOrders.id))
+        .for('update');
+
+      for (const order of locked) {
+        if (order.status !== 'open' || order.workflowState !== 'pick') {
+          throw new PickingError(`Sales order ${order.orderNumber} is not ready for picking`);
+        }
+      }
+
+      await tx.insert(pickWaves).values({
+        id: waveId,
+        tenantId,
+        warehouseId,
+        waveNumber,
+        notes: notes || null,
+        createdBy: userId,
+      });
+
+      const created = await createWaveLines(tx, { tenantId, waveId, salesOrderIds: orderIds });
+      if (created.length === 0) {
+        throw new PickingError('The selected sales orders have no reserved stock left to pick');
+      }
+
+      // Update document history with the actual document ID
+      try {
+        await linkDocumentNumber(req.headers.authorization, documentHistoryId, waveId);
+      } catch (error) {
+        console.error('Error updating document history:', error);
+        throw new Error('Failed to update document history');
+      }
+
+      return created;
+    });
+
+    const wave = await getWaveDetail(waveId, tenantId);
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'sales-order',
+      action: 'create',
+      resourceType: 'pick_wave',
+      resourceId: waveId,
+      description: `Created pick wave ${waveNumber} with ${lines.length} line(s) for ${orderIds.length} sales order(s)`,
+      changedFields: {
+        waveNumber,
+        warehouseId,
+        salesOrders: orders.map((order) => order.orderNumber),
+        lineCount: lines.length,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: wave,
+      message: 'Pick wave created successfully',
+    });
+  } catch (error) {
+    if (error instanceof PickingError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    console.error('Error creating pick wave:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// ==================== PICK CONFIRMATION ====================
+
+/**
+ * @swagger
+ * /api/modules/sales-order/waves/{id}/lines/{lineId}/confirm:
+ *   post:
+ *     summary: Confirm the quantity picked for a pick line
+ *     description: |
+ *       Picking less than the line quantity records a short pick: the missing units are released from the
+ *       reservation back to available stock, removed from the order line's allocation, and the bin is flagged
+ *       for a cycle count. When all lines of an order are picked
+ *       without shortfall, the order moves to the next step of the SO workflow.
+ *     tags: [Picking]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - pickedQuantity
+ *             properties:
+ *               pickedQuantity:
+ *                 type: integer
+ *                 minimum: 0
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Pick confirmed
+ *       400:
+ *         description: Invalid quantity or line already confirmed
+ *       404:
+ *         description: Pick line not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/waves/:id/lines/:lineId/confirm', authorized('ADMIN', 'sales-order.pick'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id, lineId } = req.params;
+    const { notes } = req.body;
+    const pickedQuantity = Number(req.body.pickedQuantity);
+
+    if (!Number.isInteger(pickedQuantity) || pickedQuantity < 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Picked quantity must be a whole number of zero or more',
+      });
+    }
+
+    const [existing] = await db
+      .select()
+      .from(pickListItems)
+      .where(and(eq(pickListItems.id, lineId), eq(pickListItems.waveId, id), eq(pickListItems.tenantId, tenantId)));
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Pick line not found',
+      });
+    }
+
+    if (pickedQuantity > existing.quantity) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot pick more than the ${existing.quantity} unit(s) on the line`,
+      });
+    }
+
+    const steps = await getActiveWorkflowSteps(tenantId, 'SALES_ORDER');
+
+    const result = await db.transaction(async (tx) => {
+      // Same lock order as cancellation: order, then pick line, then inventory
+      const [order] = await tx
+        .select()
+        .from(salesOrders)
+        .where(eq(salesOrders.id, existing.salesOrderId))
+        .for('update');
+
+      const [line] = await tx
+        .select()
+        .from(pickListItems)
+        .where(eq(pickListItems.id, lineId))
+        .for('update');
+
+      if (line.status !== 'pending') {
+        throw new PickingError(`Pick line is already ${line.status}`);
+      }
+
+      const updated = await confirmPickLine(tx, line, { userId, pickedQuantity, notes });
+      const waveStatus = await refreshWaveStatus(tx, id);
+
+      const progress = await getOrderPickProgress(tx, order.id);
+      let orderState = order.workflowState;
+      if (
+        order.status === 'open' &&
+        order.workflowState === 'pick' &&
+        progress.pendingLines === 0 &&
+        progress.reservedAllocations === 0 &&
+        progress.shortLines === 0
+      ) {
+        orderState = getNextState(steps, 'pick');
+        await tx
+          .update(salesOrders)
+          .set({
+            workflowState: orderState,
+            status: orderState === 'complete' ? 'completed' : order.status,
+            updatedAt: new Date(),
+          })
+          .where(eq(salesOrders.id, order.id));
+      }
+
+      return { order, updated, waveStatus, orderState, progress };
+    });
+
+    const { order, updated, waveStatus, orderState, progress } = result;
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'sales-order',
+      action: 'pick',
+      resourceType: 'pick_list_item',
+      resourceId: lineId,
+      description: updated.shortQuantity > 0
+        ? `Short pick on ${order.orderNumber}: picked ${pickedQuantity} of ${updated.quantity}`
+        : `Picked ${pickedQuantity} for ${order.orderNumber}`,
+      changedFields: {
+        waveId: id,
+        salesOrderId: order.id,
+        inventoryItemId: updated.inventoryItemId,
+        binId: updated.binId,
+        quantity: updated.quantity,
+        pickedQuantity,
+        shortQuantity: updated.shortQuantity,
+      },
+      previousState: 'pending',
+      newState: updated.status,
+      ipAddress: getClientIp(req),
+    });
+
+    if (orderState !== order.workflowState) {
+      await logAudit({
+        tenantId,
+        userId,
+        module: 'sales-order',
+        action: 'state_change',
+        resourceType: 'sales_order',
+        resourceId: order.id,
+        description: `Moved sales order ${order.orderNumber} from pick to ${orderState} after picking`,
+        changedFields: {
+          workflowState: { from: order.workflowState, to: orderState },
+        },
+        previousState: order.workflowState,
+        newState: orderState,
+        ipAddress: getClientIp(req),
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        line: updated,
+        waveStatus,
+        salesOrder: {
+          id: order.id,
+          orderNumber: order.orderNumber,
+          workflowState: orderState,
+          shortLines: progress.shortLines,
+        },
+      },
+      message: updated.shortQuantity > 0
+        ? `Short pick recorded, ${updated.shortQuantity} unit(s) missing`
+        : 'Pick confirmed',
+    });
+  } catch (error) {
+    if (error instanceof PickingError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    console.error('Error confirming pick:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
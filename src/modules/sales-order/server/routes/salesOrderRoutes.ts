@@ -0,0 +1,1423 @@
+import express from 'express';
+import { db } from '@server/lib/db';
+import { salesOrders, salesOrderItems, SalesOrderWorkflowState } from '../lib/db/schemas/salesOrder';
+import { salesOrderAllocations } from '../lib/db/schemas/allocation';
+import { pickListItems } from '../lib/db/schemas/picking';
+import { customers, customerLocations, products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { bins, warehouses } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { user } from '@server/lib/db/schema/system';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { eq, and, desc, count, ilike, or, inArray, asc } from 'drizzle-orm';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { v4 as uuidv4 } from 'uuid';
+import { logAudit, getClientIp } from '@server/services/auditService';
+import { generateDocumentNumber, linkDocumentNumber } from '@modules/document-numbering/server/services/documentNumberService';
+import { getActiveWorkflowSteps } from '@modules/workflow/server/services/workflowService';
+import { getNextState } from '../services/salesOrderWorkflowService';
+import { allocateOrderLine, getAllocationConfig, releaseOrderAllocations } from '../services/allocationService';
+import { getOrderPickProgress, refreshWaveStatus } from '../services/pickingService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('sales-order'));
+
+// Orders can be edited or deleted until stock has been committed to them
+const EDITABLE_STATES: SalesOrderWorkflowState[] = ['create', 'allocate'];
+
+// Orders can be cancelled until they have been packed
+const CANCELLABLE_STATES: SalesOrderWorkflowState[] = ['create', 'allocate', 'pick'];
+
+class SalesOrderValidationError extends Error {}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SalesOrder:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         tenantId:
+ *           type: string
+ *           format: uuid
+ *         orderNumber:
+ *           type: string
+ *         customerId:
+ *           type: string
+ *           format: uuid
+ *         customerLocationId:
+ *           type: string
+ *           format: uuid
+ *           description: Ship-to location
+ *         warehouseId:
+ *           type: string
+ *           format: uuid
+ *           description: Ship-from warehouse
+ *         status:
+ *           type: string
+ *           enum: [open, completed, cancelled]
+ *         workflowState:
+ *           type: string
+ *           enum: [create, allocate, pick, pack, ship, deliver, complete]
+ *         orderDate:
+ *           type: string
+ *           format: date
+ *         requestedDeliveryDate:
+ *           type: string
+ *           format: date
+ *         totalAmount:
+ *           type: number
+ *         notes:
+ *           type: string
+ *         createdBy:
+ *           type: string
+ *           format: uuid
+ *         cancelledAt:
+ *           type: string
+ *           format: date-time
+ *         cancellationReason:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     SalesOrderItem:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         salesOrderId:
+ *           type: string
+ *           format: uuid
+ *         productId:
+ *           type: string
+ *           format: uuid
+ *         orderedQuantity:
+ *           type: integer
+ *         allocatedQuantity:
+ *           type: integer
+ *           description: Quantity reserved in inventory or already picked for this line
+ *         pickedQuantity:
+ *           type: integer
+ *         batchNumber:
+ *           type: string
+ *           description: Requested batch; allocation only reserves stock from this batch
+ *         unitPrice:
+ *           type: number
+ *         totalPrice:
+ *           type: number
+ *         notes:
+ *           type: string
+ */
+
+// ==================== HELPER FUNCTIONS ====================
+
+interface OrderInput {
+  customerId?: string;
+  customerLocationId?: string;
+  warehouseId?: string;
+  items?: Array<{
+    productId: string;
+    orderedQuantity: number | string;
+    unitPrice?: number | string;
+    batchNumber?: string;
+    notes?: string;
+  }>;
+}
+
+/**
+ * Validate the header and lines of a create/update request.
+ * Returns an error message, or null when the order is valid.
+ */
+async function validateOrderInput(tenantId: string, input: OrderInput): Promise<string | null> {
+  const { customerId, customerLocationId, warehouseId, items = [] } = input;
+
+  if (!customerId) {
+    return 'Customer is required';
+  }
+
+  if (!warehouseId) {
+    return 'Ship-from warehouse is required';
+  }
+
+  if (!items || items.length === 0) {
+    return 'At least one item is required';
+  }
+
+  for (const item of items) {
+    const quantity = Number(item.orderedQuantity);
+    if (!item.productId || !Number.isInteger(quantity) || quantity <= 0) {
+      return 'Each item requires a product and a positive whole quantity';
+    }
+  }
+
+  const [customer] = await db
+    .select({ id: customers.id })
+    .from(customers)
+    .where(and(eq(customers.id, customerId), eq(customers.tenantId, tenantId)));
+  if (!customer) {
+    return 'Customer not found';
+  }
+
+  if (customerLocationId) {
+    const [location] = await db
+      .select({ id: customerLocations.id })
+      .from(customerLocations)
+      .where(and(
+        eq(customerLocations.id, customerLocationId),
+        eq(customerLocations.customerId, customerId),
+        eq(customerLocations.tenantId, tenantId)
+      ));
+    if (!location) {
+      return 'Customer location does not belong to the customer';
+    }
+  }
+
+  const [warehouse] = await db
+    .select({ id: warehouses.id })
+    .from(warehouses)
+    .where(and(eq(warehouses.id, warehouseId), eq(warehouses.tenantId, tenantId)));
+  if (!warehouse) {
+    return 'Warehouse not found';
+  }
+
+  const productIds = [...new Set(items.map((item) => item.productId))];
+  const found = await db
+    .select({ id: products.id })
+    .from(products)
+    .where(and(eq(products.tenantId, tenantId), inArray(products.id, productIds)));
+  if (found.length !== productIds.length) {
+    return 'One or more products were not found';
+  }
+
+  return null;
+}
+
+function buildOrderItems(tenantId: string, salesOrderId: string, items: NonNullable<OrderInput['items']>) {
+  return items.map((item) => {
+    const quantity = Number(item.orderedQuantity);
+    const unitPrice = item.unitPrice !== undefined && item.unitPrice !== '' ? parseFloat(String(item.unitPrice)) : null;
+    return {
+      id: uuidv4(),
+      salesOrderId,
+      productId: item.productId,
+      tenantId,
+      orderedQuantity: quantity,
+      batchNumber: item.batchNumber?.trim() || null,
+      unitPrice: unitPrice !== null ? unitPrice.toFixed(2) : null,
+      totalPrice: unitPrice !== null ? (unitPrice * quantity).toFixed(2) : null,
+      notes: item.notes || null,
+    };
+  });
+}
+
+function calculateTotal(orderItems: ReturnType<typeof buildOrderItems>): string {
+  return orderItems
+    .reduce((sum, item) => sum + (item.totalPrice ? parseFloat(item.totalPrice) : 0), 0)
+    .toFixed(2);
+}
+
+async function getSalesOrderDetail(id: string, tenantId: string) {
+  const [record] = await db
+    .select({
+      id: salesOrders.id,
+      tenantId: salesOrders.tenantId,
+      orderNumber: salesOrders.orderNumber,
+      customerId: salesOrders.customerId,
+      customerName: customers.name,
+      customerEmail: customers.email,
+      customerPhone: customers.phone,
+      customerLocationId: salesOrders.customerLocationId,
+      locationAddress: customerLocations.address,
+      locationCity: customerLocations.city,
+      locationState: customerLocations.state,
+      locationPostalCode: customerLocations.postalCode,
+      locationCountry: customerLocations.country,
+      warehouseId: salesOrders.warehouseId,
+      warehouseName: warehouses.name,
+      status: salesOrders.status,
+      workflowState: salesOrders.workflowState,
+      orderDate: salesOrders.orderDate,
+      requestedDeliveryDate: salesOrders.requestedDeliveryDate,
+      totalAmount: salesOrders.totalAmount,
+      notes: salesOrders.notes,
+      createdBy: salesOrders.createdBy,
+      createdByName: user.fullname,
+      cancelledAt: salesOrders.cancelledAt,
+      cancellationReason: salesOrders.cancellationReason,
+      createdAt: salesOrders.createdAt,
+      updatedAt: salesOrders.updatedAt,
+    })
+    .from(salesOrders)
+    .leftJoin(customers, eq(salesOrders.customerId, customers.id))
+    .leftJoin(customerLocations, eq(salesOrders.customerLocationId, customerLocations.id))
+    .leftJoin(warehouses, eq(salesOrders.warehouseId, warehouses.id))
+    .leftJoin(user, eq(salesOrders.createdBy, user.id))
+    .where(and(eq(salesOrders.id, id), eq(salesOrders.tenantId, tenantId)));
+
+  if (!record) {
+    return null;
+  }
+
+  const items = await db
+    .select({
+      id: salesOrderItems.id,
+      salesOrderId: salesOrderItems.salesOrderId,
+      productId: salesOrderItems.productId,
+      productName: products.name,
+      productSku: products.sku,
+      orderedQuantity: salesOrderItems.orderedQuantity,
+      allocatedQuantity: salesOrderItems.allocatedQuantity,
+      pickedQuantity: salesOrderItems.pickedQuantity,
+      batchNumber: salesOrderItems.batchNumber,
+      unitPrice: salesOrderItems.unitPrice,
+      totalPrice: salesOrderItems.totalPrice,
+      notes: salesOrderItems.notes,
+      createdAt: salesOrderItems.createdAt,
+      updatedAt: salesOrderItems.updatedAt,
+    })
+    .from(salesOrderItems)
+    .leftJoin(products, eq(salesOrderItems.productId, products.id))
+    .where(eq(salesOrderItems.salesOrderId, id));
+
+  return { ...record, items };
+}
+
+// ==================== SALES ORDERS CRUD ====================
+
+/**
+ * @swagger
+ * /api/modules/sales-order/orders:
+ *   get:
+ *     summary: Get all sales orders
+ *     tags: [Sales Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search by order number, customer or notes
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, completed]
+ *       - in: query
+ *         name: workflowState
+ *         schema:
+ *           type: string
+ *           enum: [create, allocate, pick, pack, ship, deliver, complete]
+ *     responses:
+ *       200:
+ *         description: List of sales orders
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/orders', authorized('ADMIN', 'sales-order.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const search = req.query.search as string;
+    const status = req.query.status as string;
+    const workflowState = req.query.workflowState as string;
+    const offset = (page - 1) * limit;
+
+    const whereConditions = [eq(salesOrders.tenantId, tenantId)];
+
+    if (search) {
+      whereConditions.push(
+        or(
+          ilike(salesOrders.orderNumber, `%${search}%`),
+          ilike(customers.name, `%${search}%`),
+          ilike(salesOrders.notes, `%${search}%`)
+        )!
+      );
+    }
+
+    if (status) {
+      whereConditions.push(eq(salesOrders.status, status as any));
+    }
+
+    if (workflowState) {
+      whereConditions.push(eq(salesOrders.workflowState, workflowState as any));
+    }
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(salesOrders)
+      .leftJoin(customers, eq(salesOrders.customerId, customers.id))
+      .where(and(...whereConditions));
+
+    const data = await db
+      .select({
+        id: salesOrders.id,
+        orderNumber: salesOrders.orderNumber,
+        customerId: salesOrders.customerId,
+        customerName: customers.name,
+        customerLocationId: salesOrders.customerLocationId,
+        locationCity: customerLocations.city,
+        warehouseId: salesOrders.warehouseId,
+        warehouseName: warehouses.name,
+        status: salesOrders.status,
+        workflowState: salesOrders.workflowState,
+        orderDate: salesOrders.orderDate,
+        requestedDeliveryDate: salesOrders.requestedDeliveryDate,
+        totalAmount: salesOrders.totalAmount,
+        notes: salesOrders.notes,
+        createdBy: salesOrders.createdBy,
+        createdByName: user.fullname,
+        createdAt: salesOrders.createdAt,
+        updatedAt: salesOrders.updatedAt,
+      })
+      .from(salesOrders)
+      .leftJoin(customers, eq(salesOrders.customerId, customers.id))
+      .leftJoin(customerLocations, eq(salesOrders.customerLocationId, customerLocations.id))
+      .leftJoin(warehouses, eq(salesOrders.warehouseId, warehouses.id))
+      .leftJoin(user, eq(salesOrders.createdBy, user.id))
+      .where(and(...whereConditions))
+      .orderBy(desc(salesOrders.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(totalResult.count / limit);
+
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching sales orders:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/sales-order/orders/{id}:
+ *   get:
+ *     summary: Get a sales order by ID with its items
+ *     tags: [Sales Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Sales order found
+ *       404:
+ *         description: Sales order not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/orders/:id', authorized('ADMIN', 'sales-order.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+
+    const order = await getSalesOrderDetail(id, tenantId);
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sales order not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: order,
+    });
+  } catch (error) {
+    console.error('Error fetching sales order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/sales-order/orders:
+ *   post:
+ *     summary: Create a new sales order
+ *     description: |
+ *       The order number is issued by document numbering (document type `SO`).
+ *       The order starts in the first active step after `create` of the tenant's SO workflow.
+ *     tags: [Sales Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - customerId
+ *               - warehouseId
+ *               - items
+ *             properties:
+ *               customerId:
+ *                 type: string
+ *                 format: uuid
+ *               customerLocationId:
+ *                 type: string
+ *                 format: uuid
+ *               warehouseId:
+ *                 type: string
+ *                 format: uuid
+ *               requestedDeliveryDate:
+ *                 type: string
+ *                 format: date
+ *               notes:
+ *                 type: string
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - productId
+ *                     - orderedQuantity
+ *                   properties:
+ *                     productId:
+ *                       type: string
+ *                       format: uuid
+ *                     orderedQuantity:
+ *                       type: integer
+ *                     unitPrice:
+ *                       type: number
+ *                     notes:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Sales order created successfully
+ *       400:
+ *         description: Invalid input
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/orders', authorized('ADMIN', 'sales-order.create'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const {
+      customerId,
+      customerLocationId,
+      warehouseId,
+      requestedDeliveryDate,
+      notes,
+      items = []
+    } = req.body;
+
+    const validationError = await validateOrderInput(tenantId, req.body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError,
+      });
+    }
+
+    // Generate SO number via document numbering service
+    let orderNumber: string;
+    let documentHistoryId: string;
+    try {
+      const generated = await generateDocumentNumber(tenantId, req.headers.authorization, 'SO', 'sales_orders');
+      orderNumber = generated.documentNumber;
+      documentHistoryId = generated.historyId;
+    } catch (error: any) {
+      console.error('Error generating SO number:', error.response?.data || error.message);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to generate SO number',
+      });
+    }
+
+    const steps = await getActiveWorkflowSteps(tenantId, 'SALES_ORDER');
+    const workflowState = getNextState(steps, 'create');
+
+    const orderId = uuidv4();
+    const orderItems = buildOrderItems(tenantId, orderId, items);
+    const totalAmount = calculateTotal(orderItems);
+
+    await db.transaction(async (tx) => {
+      await tx.insert(salesOrders).values({
+        id: orderId,
+        tenantId,
+        orderNumber,
+        customerId,
+        customerLocationId: customerLocationId || null,
+        warehouseId,
+        status: workflowState === 'complete' ? 'completed' : 'open',
+        workflowState,
+        orderDate: new Date().toISOString().split('T')[0],
+        requestedDeliveryDate: requestedDeliveryDate || null,
+        totalAmount,
+        notes: notes || null,
+        createdBy: userId,
+      });
+
+      await tx.insert(salesOrderItems).values(orderItems);
+
+      // Update document history with the actual document ID
+      try {
+        await linkDocumentNumber(req.headers.authorization, documentHistoryId, orderId);
+      } catch (error) {
+        console.error('Error updating document history:', error);
+        throw new Error('Failed to update document history');
+      }
+    });
+
+    const order = await getSalesOrderDetail(orderId, tenantId);
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'sales-order',
+      action: 'create',
+      resourceType: 'sales_order',
+      resourceId: orderId,
+      description: `Created sales order ${orderNumber} for customer ${order?.customerName} with ${items.length} item(s)`,
+      changedFields: {
+        orderNumber,
+        customerId,
+        customerName: order?.customerName,
+        warehouseId,
+        warehouseName: order?.warehouseName,
+        totalAmount,
+        itemCount: items.length,
+        workflowState,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: order,
+      message: 'Sales order created successfully',
+    });
+  } catch (error) {
+    console.error('Error creating sales order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/sales-order/orders/{id}:
+ *   put:
+ *     summary: Update a sales order and replace its items
+ *     description: Only open orders that have not moved past the allocate step can be edited. Existing allocations are released.
+ *     tags: [Sales Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Sales order updated successfully
+ *       400:
+ *         description: Invalid input or order can no longer be edited
+ *       404:
+ *         description: Sales order not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.put('/orders/:id', authorized('ADMIN', 'sales-order.edit'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const {
+      customerId,
+      customerLocationId,
+      warehouseId,
+      requestedDeliveryDate,
+      notes,
+      items = []
+    } = req.body;
+
+    const [existing] = await db
+      .select()
+      .from(salesOrders)
+      .where(and(eq(salesOrders.id, id), eq(salesOrders.tenantId, tenantId)));
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sales order not found',
+      });
+    }
+
+    if (existing.status !== 'open' || !EDITABLE_STATES.includes(existing.workflowState)) {
+      return res.status(400).json({
+        success: false,
+        message: existing.status !== 'open'
+          ? `Sales order is ${existing.status} and cannot be edited`
+          : `Sales order cannot be edited in the ${existing.workflowState} step`,
+      });
+    }
+
+    const validationError = await validateOrderInput(tenantId, req.body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError,
+      });
+    }
+
+    const orderItems = buildOrderItems(tenantId, id, items);
+    const totalAmount = calculateTotal(orderItems);
+
+    await db.transaction(async (tx) => {
+      // Lock the order so an allocation cannot run while its lines are replaced
+      await tx.select({ id: salesOrders.id }).from(salesOrders).where(eq(salesOrders.id, id)).for('update');
+
+      // Replacing the lines drops their allocations, so hand the reserved stock back first
+      await releaseOrderAllocations(tx, id);
+
+      await tx
+        .update(salesOrders)
+        .set({
+          customerId,
+          customerLocationId: customerLocationId || null,
+          warehouseId,
+          requestedDeliveryDate: requestedDeliveryDate || null,
+          totalAmount,
+          notes: notes || null,
+          updatedAt: new Date(),
+        })
+        .where(eq(salesOrders.id, id));
+
+      await tx.delete(salesOrderItems).where(eq(salesOrderItems.salesOrderId, id));
+      await tx.insert(salesOrderItems).values(orderItems);
+    });
+
+    const order = await getSalesOrderDetail(id, tenantId);
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'sales-order',
+      action: 'update',
+      resourceType: 'sales_order',
+      resourceId: id,
+      description: `Updated sales order ${existing.orderNumber}`,
+      changedFields: {
+        customerId: { from: existing.customerId, to: customerId },
+        warehouseId: { from: existing.warehouseId, to: warehouseId },
+        totalAmount: { from: existing.totalAmount, to: totalAmount },
+        itemCount: items.length,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: order,
+      message: 'Sales order updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating sales order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/sales-order/orders/{id}/advance:
+ *   post:
+ *     summary: Move a sales order to the next active step of the tenant's SO workflow
+ *     description: |
+ *       Reaching the `complete` step sets the order status to `completed`.
+ *       An order can only leave the `allocate` step once every line is fully allocated, and the `pick`
+ *       step once all of its reserved stock has been picked.
+ *     tags: [Sales Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Sales order advanced
+ *       400:
+ *         description: Sales order is already complete, cancelled, not fully allocated or not fully picked
+ *       404:
+ *         description: Sales order not found
+ *       409:
+ *         description: Sales order was changed by another request
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/orders/:id/advance', authorized('ADMIN', 'sales-order.edit'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const [existing] = await db
+      .select()
+      .from(salesOrders)
+      .where(and(eq(salesOrders.id, id), eq(salesOrders.tenantId, tenantId)));
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sales order not found',
+      });
+    }
+
+    if (existing.workflowState === 'complete') {
+      return res.status(400).json({
+        success: false,
+        message: 'Sales order is already complete',
+      });
+    }
+
+    if (existing.status !== 'open') {
+      return res.status(400).json({
+        success: false,
+        message: `Sales order is ${existing.status}`,
+      });
+    }
+
+    if (existing.workflowState === 'allocate') {
+      const items = await db
+        .select({
+          orderedQuantity: salesOrderItems.orderedQuantity,
+          allocatedQuantity: salesOrderItems.allocatedQuantity,
+        })
+        .from(salesOrderItems)
+        .where(eq(salesOrderItems.salesOrderId, id));
+
+      if (items.some((item) => item.allocatedQuantity < item.orderedQuantity)) {
+        return res.status(400).json({
+          success: false,
+          message: 'All lines must be fully allocated before the order can move on',
+        });
+      }
+    }
+
+    if (existing.workflowState === 'pick') {
+      const progress = await getOrderPickProgress(db, id);
+      if (progress.pendingLines > 0 || progress.reservedAllocations > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'All reserved stock must be picked before the order can move on',
+        });
+      }
+    }
+
+    const steps = await getActiveWorkflowSteps(tenantId, 'SALES_ORDER');
+    const nextState = getNextState(steps, existing.workflowState);
+
+    const [updated] = await db
+      .update(salesOrders)
+      .set({
+        workflowState: nextState,
+        status: nextState === 'complete' ? 'completed' : existing.status,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(salesOrders.id, id),
+        eq(salesOrders.status, 'open'),
+        eq(salesOrders.workflowState, existing.workflowState)
+      ))
+      .returning();
+
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        message: 'Sales order was changed by another request, please reload',
+      });
+    }
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'sales-order',
+      action: 'state_change',
+      resourceType: 'sales_order',
+      resourceId: id,
+      description: `Moved sales order ${existing.orderNumber} from ${existing.workflowState} to ${nextState}`,
+      changedFields: {
+        workflowState: { from: existing.workflowState, to: nextState },
+      },
+      previousState: existing.workflowState,
+      newState: nextState,
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: updated,
+      message: `Sales order moved to ${nextState}`,
+    });
+  } catch (error) {
+    console.error('Error advancing sales order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/sales-order/orders/{id}:
+ *   delete:
+ *     summary: Delete a sales order
+ *     description: Only open orders that have not moved past the allocate step can be deleted. Existing allocations are released.
+ *     tags: [Sales Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Sales order deleted successfully
+ *       400:
+ *         description: Sales order can no longer be deleted
+ *       404:
+ *         description: Sales order not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete('/orders/:id', authorized('ADMIN', 'sales-order.delete'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const [existing] = await db
+      .select()
+      .from(salesOrders)
+      .where(and(eq(salesOrders.id, id), eq(salesOrders.tenantId, tenantId)));
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sales order not found',
+      });
+    }
+
+    if (existing.status !== 'open' || !EDITABLE_STATES.includes(existing.workflowState)) {
+      return res.status(400).json({
+        success: false,
+        message: existing.status !== 'open'
+          ? `Sales order is ${existing.status} and cannot be deleted`
+          : `Sales order cannot be deleted in the ${existing.workflowState} step`,
+      });
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.select({ id: salesOrders.id }).from(salesOrders).where(eq(salesOrders.id, id)).for('update');
+      await releaseOrderAllocations(tx, id);
+      await tx.delete(salesOrders).where(eq(salesOrders.id, id));
+    });
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'sales-order',
+      action: 'delete',
+      resourceType: 'sales_order',
+      resourceId: id,
+      description: `Deleted sales order ${existing.orderNumber}`,
+      changedFields: {
+        orderNumber: existing.orderNumber,
+        customerId: existing.customerId,
+        totalAmount: existing.totalAmount,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      message: 'Sales order deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting sales order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// ==================== ALLOCATION ====================
+
+/**
+ * @swagger
+ * /api/modules/sales-order/orders/{id}/allocate:
+ *   post:
+ *     summary: Reserve stock for the unallocated quantity of every line
+ *     description: |
+ *       Stock is picked from the ship-from warehouse in the order of its picking strategy
+ *       (FEFO by expiry date, FIFO or LIFO by received date). Expired stock, stock awaiting putaway and,
+ *       when the warehouse requires it, untracked batches/expiry dates are skipped. A line with a requested
+ *       batch only reserves from that batch. Lines that cannot be covered are allocated partially and can be
+ *       allocated again once stock arrives. When every line is fully allocated the order moves to the next step.
+ *     tags: [Sales Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Allocation result per line, including any shortfall
+ *       400:
+ *         description: Sales order is not open or not in the allocate step
+ *       404:
+ *         description: Sales order not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/orders/:id/allocate', authorized('ADMIN', 'sales-order.allocate'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const steps = await getActiveWorkflowSteps(tenantId, 'SALES_ORDER');
+
+    const result = await db.transaction(async (tx) => {
+      // Serialise allocations of the same order; inventory rows are locked by the allocation service
+      const [order] = await tx
+        .select()
+        .from(salesOrders)
+        .where(and(eq(salesOrders.id, id), eq(salesOrders.tenantId, tenantId)))
+        .for('update');
+
+      if (!order) {
+        return null;
+      }
+
+      if (order.status !== 'open') {
+        throw new SalesOrderValidationError(`Sales order is ${order.status}`);
+      }
+
+      if (order.workflowState !== 'allocate') {
+        throw new SalesOrderValidationError(`Sales order cannot be allocated in the ${order.workflowState} step`);
+      }
+
+      const config = await getAllocationConfig(tx, tenantId, order.warehouseId);
+      const items = await tx
+        .select()
+        .from(salesOrderItems)
+        .where(eq(salesOrderItems.salesOrderId, id))
+        .orderBy(asc(salesOrderItems.createdAt));
+
+      const lines = [];
+      for (const item of items) {
+        const outstanding = item.orderedQuantity - item.allocatedQuantity;
+        let allocatedNow = 0;
+
+        if (outstanding > 0) {
+          const allocation = await allocateOrderLine(tx, config, {
+            tenantId,
+            userId,
+            warehouseId: order.warehouseId,
+            salesOrderId: id,
+            salesOrderItemId: item.id,
+            productId: item.productId,
+            quantity: outstanding,
+            batchNumber: item.batchNumber,
+          });
+          allocatedNow = allocation.allocatedQuantity;
+        }
+
+        const allocatedQuantity = item.allocatedQuantity + allocatedNow;
+        lines.push({
+          salesOrderItemId: item.id,
+          productId: item.productId,
+          batchNumber: item.batchNumber,
+          orderedQuantity: item.orderedQuantity,
+          allocatedNow,
+          allocatedQuantity,
+          shortQuantity: item.orderedQuantity - allocatedQuantity,
+        });
+      }
+
+      const fullyAllocated = lines.every((line) => line.shortQuantity === 0);
+      const nextState = fullyAllocated ? getNextState(steps, 'allocate') : order.workflowState;
+
+      if (fullyAllocated) {
+        await tx
+          .update(salesOrders)
+          .set({
+            workflowState: nextState,
+            status: nextState === 'complete' ? 'completed' : order.status,
+            updatedAt: new Date(),
+          })
+          .where(eq(salesOrders.id, id));
+      }
+
+      return { order, lines, fullyAllocated, nextState, pickingStrategy: config.pickingStrategy };
+    });
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sales order not found',
+      });
+    }
+
+    const { order, lines, fullyAllocated, nextState, pickingStrategy } = result;
+    const allocatedNow = lines.reduce((sum, line) => sum + line.allocatedNow, 0);
+    const shortQuantity = lines.reduce((sum, line) => sum + line.shortQuantity, 0);
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'sales-order',
+      action: 'allocate',
+      resourceType: 'sales_order',
+      resourceId: id,
+      description: fullyAllocated
+        ? `Allocated sales order ${order.orderNumber} (${pickingStrategy}) and moved it to ${nextState}`
+        : `Partially allocated sales order ${order.orderNumber} (${pickingStrategy}), ${shortQuantity} unit(s) short`,
+      changedFields: {
+        pickingStrategy,
+        allocatedQuantity: allocatedNow,
+        shortQuantity,
+        lines: lines.map((line) => ({
+          salesOrderItemId: line.salesOrderItemId,
+          allocatedNow: line.allocatedNow,
+          shortQuantity: line.shortQuantity,
+        })),
+      },
+      previousState: order.workflowState,
+      newState: nextState,
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: {
+        salesOrderId: id,
+        pickingStrategy,
+        fullyAllocated,
+        workflowState: nextState,
+        lines,
+      },
+      message: fullyAllocated
+        ? `Sales order fully allocated and moved to ${nextState}`
+        : `Sales order partially allocated, ${shortQuantity} unit(s) short`,
+    });
+  } catch (error) {
+    if (error instanceof SalesOrderValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    console.error('Error allocating sales order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/sales-order/orders/{id}/allocations:
+ *   get:
+ *     summary: Get the stock allocations of a sales order
+ *     tags: [Sales Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [reserved, picked, released]
+ *     responses:
+ *       200:
+ *         description: Allocations with product and bin details
+ *       404:
+ *         description: Sales order not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/orders/:id/allocations', authorized('ADMIN', 'sales-order.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+    const status = req.query.status as string;
+
+    const [order] = await db
+      .select({ id: salesOrders.id })
+      .from(salesOrders)
+      .where(and(eq(salesOrders.id, id), eq(salesOrders.tenantId, tenantId)));
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sales order not found',
+      });
+    }
+
+    const whereConditions = [eq(salesOrderAllocations.salesOrderId, id)];
+    if (status) {
+      whereConditions.push(eq(salesOrderAllocations.status, status as any));
+    }
+
+    const allocations = await db
+      .select({
+        id: salesOrderAllocations.id,
+        salesOrderItemId: salesOrderAllocations.salesOrderItemId,
+        inventoryItemId: salesOrderAllocations.inventoryItemId,
+        productId: salesOrderAllocations.productId,
+        productSku: products.sku,
+        productName: products.name,
+        binId: salesOrderAllocations.binId,
+        binName: bins.name,
+        batchNumber: salesOrderAllocations.batchNumber,
+        expiryDate: salesOrderAllocations.expiryDate,
+        quantity: salesOrderAllocations.quantity,
+        status: salesOrderAllocations.status,
+        createdAt: salesOrderAllocations.createdAt,
+        releasedAt: salesOrderAllocations.releasedAt,
+      })
+      .from(salesOrderAllocations)
+      .leftJoin(products, eq(salesOrderAllocations.productId, products.id))
+      .leftJoin(bins, eq(salesOrderAllocations.binId, bins.id))
+      .where(and(...whereConditions))
+      .orderBy(asc(salesOrderAllocations.createdAt));
+
+    res.json({
+      success: true,
+      data: allocations,
+    });
+  } catch (error) {
+    console.error('Error fetching sales order allocations:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/sales-order/orders/{id}/cancel:
+ *   post:
+ *     summary: Cancel a sales order and release its reserved stock
+ *     description: Open orders can be cancelled until they leave the pick step. Pending pick lines of the order are cancelled.
+ *     tags: [Sales Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Sales order cancelled
+ *       400:
+ *         description: Missing reason or order can no longer be cancelled
+ *       404:
+ *         description: Sales order not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/orders/:id/cancel', authorized('ADMIN', 'sales-order.cancel'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cancellation reason is required',
+      });
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(salesOrders)
+        .where(and(eq(salesOrders.id, id), eq(salesOrders.tenantId, tenantId)))
+        .for('update');
+
+      if (!order) {
+        return null;
+      }
+
+      if (order.status !== 'open') {
+        throw new SalesOrderValidationError(`Sales order is already ${order.status}`);
+      }
+
+      if (!CANCELLABLE_STATES.includes(order.workflowState)) {
+        throw new SalesOrderValidationError(`Sales order cannot be cancelled in the ${order.workflowState} step`);
+      }
+
+      const releasedQuantity = await releaseOrderAllocations(tx, id);
+
+      // Drop the order's open pick lines; their waves may complete as a result
+      const cancelledLines = await tx
+        .update(pickListItems)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(and(eq(pickListItems.salesOrderId, id), eq(pickListItems.status, 'pending')))
+        .returning({ waveId: pickListItems.waveId });
+
+      for (const waveId of new Set(cancelledLines.map((line) => line.waveId))) {
+        await refreshWaveStatus(tx, waveId);
+      }
+
+      const [updated] = await tx
+        .update(salesOrders)
+        .set({
+          status: 'cancelled',
+          cancelledBy: userId,
+          cancelledAt: new Date(),
+          cancellationReason: reason,
+          updatedAt: new Date(),
+        })
+        .where(eq(salesOrders.id, id))
+        .returning();
+
+      return { order, updated, releasedQuantity };
+    });
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sales order not found',
+      });
+    }
+
+    const { order, updated, releasedQuantity } = result;
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'sales-order',
+      action: 'cancel',
+      resourceType: 'sales_order',
+      resourceId: id,
+      description: `Cancelled sales order ${order.orderNumber} in the ${order.workflowState} step, released ${releasedQuantity} unit(s)`,
+      changedFields: {
+        status: { from: order.status, to: 'cancelled' },
+        reason,
+        releasedQuantity,
+      },
+      previousState: order.status,
+      newState: 'cancelled',
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: updated,
+      message: 'Sales order cancelled successfully',
+    });
+  } catch (error) {
+    if (error instanceof SalesOrderValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    console.error('Error cancelling sales order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,220 @@
+import { db } from '@server/lib/db';
+import { salesOrderItems } from '../lib/db/schemas/salesOrder';
+import { salesOrderAllocations } from '../lib/db/schemas/allocation';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { aisles, bins, shelves, warehouseConfigs, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { putawayTasks } from '@modules/purchase-order/server/lib/db/schemas/putaway';
+import { and, asc, desc, eq, gt, gte, inArray, isNotNull, isNull, notExists, or, sql } from 'drizzle-orm';
+
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+export type PickingStrategy = 'FEFO' | 'FIFO' | 'LIFO';
+
+export interface AllocationConfig {
+  pickingStrategy: PickingStrategy;
+  requireBatchTracking: boolean;
+  requireExpiryTracking: boolean;
+}
+
+export interface AllocateLineParams {
+  tenantId: string;
+  userId: string;
+  warehouseId: string;
+  salesOrderId: string;
+  salesOrderItemId: string;
+  productId: string;
+  quantity: number;
+  batchNumber?: string | null;
+}
+
+/**
+ * Read the warehouse settings that drive allocation. Unknown strategies fall back to FEFO, the column default.
+ */
+export async function getAllocationConfig(executor: Executor, tenantId: string, warehouseId: string): Promise<AllocationConfig> {
+  const [config] = await executor
+    .select()
+    .from(warehouseConfigs)
+    .where(and(eq(warehouseConfigs.warehouseId, warehouseId), eq(warehouseConfigs.tenantId, tenantId)))
+    .limit(1);
+
+  const strategy = config?.pickingStrategy?.toUpperCase();
+  return {
+    pickingStrategy: strategy === 'FIFO' || strategy === 'LIFO' ? strategy : 'FEFO',
+    requireBatchTracking: config?.requireBatchTracking ?? false,
+    requireExpiryTracking: config?.requireExpiryTracking ?? true,
+  };
+}
+
+function strategyOrder(strategy: PickingStrategy) {
+  switch (strategy) {
+    case 'FIFO':
+      return [sql`${inventoryItems.receivedDate} asc nulls last`, asc(inventoryItems.createdAt)];
+    case 'LIFO':
+      return [sql`${inventoryItems.receivedDate} desc nulls last`, desc(inventoryItems.createdAt)];
+    default:
+      return [
+        sql`${inventoryItems.expiryDate} asc nulls last`,
+        sql`${inventoryItems.receivedDate} asc nulls last`,
+        asc(inventoryItems.createdAt),
+      ];
+  }
+}
+
+/**
+ * Reserve stock for one sales order line, choosing inventory rows in the warehouse's picking strategy order.
+ *
+ * Expired rows and stock still waiting for putaway are never allocated. A requested batch restricts the
+ * candidates to that batch; warehouses that require batch/expiry tracking only allocate tracked rows.
+ * Candidate rows are locked (`FOR UPDATE`) before their free quantity is read, so concurrent allocations
+ * queue on the same row instead of reserving it twice. Allocates as much as is free (partial allocation)
+ * and must run inside a transaction.
+ */
+export async function allocateOrderLine(
+  executor: Executor,
+  config: AllocationConfig,
+  params: AllocateLineParams
+): Promise<{ allocatedQuantity: number; allocations: typeof salesOrderAllocations.$inferSelect[] }> {
+  const today = new Date().toISOString().split('T')[0];
+
+  const [product] = await executor
+    .select({ hasExpiryDate: products.hasExpiryDate })
+    .from(products)
+    .where(eq(products.id, params.productId));
+
+  const conditions = [
+    eq(inventoryItems.tenantId, params.tenantId),
+    eq(inventoryItems.productId, params.productId),
+    gt(inventoryItems.availableQuantity, 0),
+    or(isNull(inventoryItems.expiryDate), gt(inventoryItems.expiryDate, today)),
+    inArray(
+      inventoryItems.binId,
+      executor
+        .select({ id: bins.id })
+        .from(bins)
+        .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+        .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+        .innerJoin(zones, eq(aisles.zoneId, zones.id))
+        .where(eq(zones.warehouseId, params.warehouseId))
+    ),
+    notExists(
+      executor
+        .select({ id: putawayTasks.id })
+        .from(putawayTasks)
+        .where(and(eq(putawayTasks.inventoryItemId, inventoryItems.id), eq(putawayTasks.status, 'pending')))
+    ),
+  ];
+
+  if (params.batchNumber) {
+    conditions.push(eq(inventoryItems.batchNumber, params.batchNumber));
+  } else if (config.requireBatchTracking) {
+    conditions.push(isNotNull(inventoryItems.batchNumber));
+  }
+
+  if (config.requireExpiryTracking && product?.hasExpiryDate) {
+    conditions.push(isNotNull(inventoryItems.expiryDate));
+  }
+
+  const candidates = await executor
+    .select()
+    .from(inventoryItems)
+    .where(and(...conditions))
+    .orderBy(...strategyOrder(config.pickingStrategy))
+    .for('update', { of: inventoryItems });
+
+  let remaining = params.quantity;
+  const allocations = [];
+
+  for (const row of candidates) {
+    if (remaining <= 0) break;
+
+    const take = Math.min(row.availableQuantity, remaining);
+    if (take <= 0) continue;
+
+    const [updated] = await executor
+      .update(inventoryItems)
+      .set({
+        availableQuantity: sql`${inventoryItems.availableQuantity} - ${take}`,
+        reservedQuantity: sql`${inventoryItems.reservedQuantity} + ${take}`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(inventoryItems.id, row.id), gte(inventoryItems.availableQuantity, take)))
+      .returning({ id: inventoryItems.id });
+
+    // The row is locked, so this only guards against a caller running outside a transaction
+    if (!updated) continue;
+
+    const [allocation] = await executor
+      .insert(salesOrderAllocations)
+      .values({
+        tenantId: params.tenantId,
+        salesOrderId: params.salesOrderId,
+        salesOrderItemId: params.salesOrderItemId,
+        inventoryItemId: row.id,
+        productId: params.productId,
+        binId: row.binId,
+        batchNumber: row.batchNumber,
+        expiryDate: row.expiryDate,
+        quantity: take,
+        createdBy: params.userId,
+      })
+      .returning();
+
+    allocations.push(allocation);
+    remaining -= take;
+  }
+
+  const allocatedQuantity = params.quantity - remaining;
+  if (allocatedQuantity > 0) {
+    await executor
+      .update(salesOrderItems)
+      .set({
+        allocatedQuantity: sql`${salesOrderItems.allocatedQuantity} + ${allocatedQuantity}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(salesOrderItems.id, params.salesOrderItemId));
+  }
+
+  return { allocatedQuantity, allocations };
+}
+
+/**
+ * Release every reserved allocation of a sales order, returning the stock to available.
+ * Must run inside a transaction. Returns the total quantity released.
+ */
+export async function releaseOrderAllocations(executor: Executor, salesOrderId: string): Promise<number> {
+  const reserved = await executor
+    .select()
+    .from(salesOrderAllocations)
+    .where(and(eq(salesOrderAllocations.salesOrderId, salesOrderId), eq(salesOrderAllocations.status, 'reserved')))
+    .for('update');
+
+  let releasedQuantity = 0;
+  for (const allocation of reserved) {
+    await executor
+      .update(inventoryItems)
+      .set({
+        availableQuantity: sql`${inventoryItems.availableQuantity} + ${allocation.quantity}`,
+        reservedQuantity: sql`greatest(${inventoryItems.reservedQuantity} - ${allocation.quantity}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(inventoryItems.id, allocation.inventoryItemId));
+
+    await executor
+      .update(salesOrderItems)
+      .set({
+        allocatedQuantity: sql`greatest(${salesOrderItems.allocatedQuantity} - ${allocation.quantity}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(salesOrderItems.id, allocation.salesOrderItemId));
+
+    await executor
+      .update(salesOrderAllocations)
+      .set({ status: 'released', releasedAt: new Date(), updatedAt: new Date() })
+      .where(eq(salesOrderAllocations.id, allocation.id));
+
+    releasedQuantity += allocation.quantity;
+  }
+
+  return releasedQuantity;
+}
@@ -0,0 +1,246 @@
+import { db } from '@server/lib/db';
+import { salesOrderItems } from '../lib/db/schemas/salesOrder';
+import { salesOrderAllocations } from '../lib/db/schemas/allocation';
+import { pickListItems, pickWaves, PickListItem } from '../lib/db/schemas/picking';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { aisles, bins, shelves, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { getFrozenBins } from '@modules/inventory-items/server/services/cycleCountService';
+import { recordStockMovement } from '@modules/inventory-items/server/services/stockMovementService';
+import { and, asc, count, desc, eq, inArray, notExists, sql } from 'drizzle-orm';
+
+type Executor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+export class PickingError extends Error {}
+
+/**
+ * Create the pick lines of a wave from the reserved allocations of its orders.
+ *
+ * Lines are sequenced along the warehouse hierarchy (zone → aisle → shelf) and, within a shelf,
+ * by bin accessibility score (most accessible first) so pickers walk a single path.
+ * Allocations that are already on a pending pick line are skipped.
+ */
+export async function createWaveLines(
+  executor: Executor,
+  params: { tenantId: string; waveId: string; salesOrderIds: string[] }
+): Promise<PickListItem[]> {
+  const allocations = await executor
+    .select({
+      id: salesOrderAllocations.id,
+      salesOrderId: salesOrderAllocations.salesOrderId,
+      salesOrderItemId: salesOrderAllocations.salesOrderItemId,
+      inventoryItemId: salesOrderAllocations.inventoryItemId,
+      productId: salesOrderAllocations.productId,
+      binId: salesOrderAllocations.binId,
+      batchNumber: salesOrderAllocations.batchNumber,
+      expiryDate: salesOrderAllocations.expiryDate,
+      quantity: salesOrderAllocations.quantity,
+    })
+    .from(salesOrderAllocations)
+    .innerJoin(bins, eq(salesOrderAllocations.binId, bins.id))
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .where(and(
+      eq(salesOrderAllocations.tenantId, params.tenantId),
+      inArray(salesOrderAllocations.salesOrderId, params.salesOrderIds),
+      eq(salesOrderAllocations.status, 'reserved'),
+      notExists(
+        executor
+          .select({ id: pickListItems.id })
+          .from(pickListItems)
+          .where(and(eq(pickListItems.allocationId, salesOrderAllocations.id), eq(pickListItems.status, 'pending')))
+      )
+    ))
+    .orderBy(
+      asc(zones.name),
+      asc(aisles.name),
+      asc(shelves.name),
+      desc(bins.accessibilityScore),
+      asc(bins.name),
+      asc(salesOrderAllocations.createdAt)
+    );
+
+  if (allocations.length === 0) {
+    return [];
+  }
+
+  return executor
+    .insert(pickListItems)
+    .values(
+      allocations.map((allocation, index) => ({
+        tenantId: params.tenantId,
+        waveId: params.waveId,
+        salesOrderId: allocation.salesOrderId,
+        salesOrderItemId: allocation.salesOrderItemId,
+        allocationId: allocation.id,
+        inventoryItemId: allocation.inventoryItemId,
+        productId: allocation.productId,
+        binId: allocation.binId,
+        batchNumber: allocation.batchNumber,
+        expiryDate: allocation.expiryDate,
+        sequence: index + 1,
+        quantity: allocation.quantity,
+      }))
+    )
+    .returning();
+}
+
+/**
+ * Record the quantity actually picked for a pending pick line. The line must already be locked by the caller.
+ *
+ * The line's reservation is consumed in full: picked units leave the bin and the short units are released back
+ * to available stock rather than written off, since a picker who misses them does not prove them gone. The bin is
+ * flagged for a cycle count, whose posting corrects the stock. The order line keeps the picked quantity and loses
+ * the short quantity
+ * from its allocation. Must run inside a transaction.
+ */
+export async function confirmPickLine(
+  executor: Executor,
+  line: PickListItem,
+  params: { userId: string; pickedQuantity: number; notes?: string | null }
+): Promise<PickListItem> {
+  const { pickedQuantity } = params;
+  const shortQuantity = line.quantity - pickedQuantity;
+
+  const [inventoryRow] = await executor
+    .select()
+    .from(inventoryItems)
+    .where(eq(inventoryItems.id, line.inventoryItemId))
+    .for('update');
+
+  if (!inventoryRow) {
+    throw new PickingError('Inventory record for this pick line no longer exists');
+  }
+
+  const frozen = await getFrozenBins(executor, line.tenantId, [inventoryRow.binId]);
+  if (frozen.size > 0) {
+    throw new PickingError(`Bin is frozen by cycle count ${frozen.get(inventoryRow.binId)}`);
+  }
+
+  // The reservation normally covers the whole line; anything it no longer covers comes out of free stock
+  const fromReserved = Math.min(inventoryRow.reservedQuantity, line.quantity);
+  const fromAvailable = Math.max(pickedQuantity - fromReserved, 0);
+  if (fromAvailable > inventoryRow.availableQuantity) {
+    throw new PickingError(`Only ${fromReserved + inventoryRow.availableQuantity} unit(s) are on hand in this bin`);
+  }
+  const released = fromReserved + fromAvailable - pickedQuantity;
+
+  await executor
+    .update(inventoryItems)
+    .set({
+      reservedQuantity: sql`${inventoryItems.reservedQuantity} - ${fromReserved}`,
+      availableQuantity: sql`${inventoryItems.availableQuantity} - ${fromAvailable} + ${released}`,
+      updatedAt: new Date(),
+    })
+    .where(eq(inventoryItems.id, line.inventoryItemId));
+
+  if (shortQuantity > 0) {
+    await executor
+      .update(bins)
+      .set({ countRequestedAt: new Date() })
+      .where(eq(bins.id, inventoryRow.binId));
+  }
+
+  // Picked units leave the bin; released units stay on hand, so only the pick is a stock movement
+  const [wave] = await executor
+    .select({ waveNumber: pickWaves.waveNumber })
+    .from(pickWaves)
+    .where(eq(pickWaves.id, line.waveId));
+  const movement = {
+    tenantId: line.tenantId,
+    inventoryItemId: inventoryRow.id,
+    productId: inventoryRow.productId,
+    binId: inventoryRow.binId,
+    fromBinId: inventoryRow.binId,
+    batchNumber: inventoryRow.batchNumber,
+    lotNumber: inventoryRow.lotNumber,
+    expiryDate: inventoryRow.expiryDate,
+    referenceType: 'pick_list_item',
+    referenceId: line.id,
+    referenceNumber: wave?.waveNumber ?? null,
+    notes: params.notes || null,
+    createdBy: params.userId,
+  };
+  if (pickedQuantity > 0) {
+    await recordStockMovement(executor, { ...movement, movementType: 'pick', quantityDelta: -pickedQuantity });
+  }
+
+  await executor
+    .update(salesOrderAllocations)
+    .set({ status: 'picked', updatedAt: new Date() })
+    .where(eq(salesOrderAllocations.id, line.allocationId));
+
+  await executor
+    .update(salesOrderItems)
+    .set({
+      pickedQuantity: sql`${salesOrderItems.pickedQuantity} + ${pickedQuantity}`,
+      allocatedQuantity: sql`greatest(${salesOrderItems.allocatedQuantity} - ${shortQuantity}, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(salesOrderItems.id, line.salesOrderItemId));
+
+  const [updated] = await executor
+    .update(pickListItems)
+    .set({
+      pickedQuantity,
+      shortQuantity,
+      status: shortQuantity > 0 ? 'short' : 'picked',
+      notes: params.notes || line.notes,
+      pickedBy: params.userId,
+      pickedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(pickListItems.id, line.id))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Move a wave to `in_progress` once picking has started and to `completed` when no pending lines remain
+ */
+export async function refreshWaveStatus(executor: Executor, waveId: string): Promise<'pending' | 'in_progress' | 'completed'> {
+  const [pending] = await executor
+    .select({ count: count() })
+    .from(pickListItems)
+    .where(and(eq(pickListItems.waveId, waveId), eq(pickListItems.status, 'pending')));
+
+  const status = pending.count === 0 ? 'completed' : 'in_progress';
+
+  const [wave] = await executor
+    .update(pickWaves)
+    .set({
+      status,
+      completedAt: status === 'completed' ? new Date() : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(pickWaves.id, waveId))
+    .returning({ status: pickWaves.status });
+
+  return wave.status;
+}
+
+/**
+ * Summarise the picking progress of a sales order: pending pick lines, short lines and
+ * allocations that are still reserved but not yet on a pick line.
+ */
+export async function getOrderPickProgress(executor: Executor, salesOrderId: string) {
+  const [lines] = await executor
+    .select({
+      pending: sql<number>`count(*) filter (where ${pickListItems.status} = 'pending')`.mapWith(Number),
+      short: sql<number>`count(*) filter (where ${pickListItems.status} = 'short')`.mapWith(Number),
+    })
+    .from(pickListItems)
+    .where(eq(pickListItems.salesOrderId, salesOrderId));
+
+  const [reserved] = await executor
+    .select({ count: count() })
+    .from(salesOrderAllocations)
+    .where(and(eq(salesOrderAllocations.salesOrderId, salesOrderId), eq(salesOrderAllocations.status, 'reserved')));
+
+  return {
+    pendingLines: lines.pending,
+    shortLines: lines.short,
+    reservedAllocations: reserved.count,
+  };
+}
@@ -0,0 +1,13 @@
+import { WorkflowStep } from '@modules/workflow/server/lib/db/schemas/workflow';
+import { salesOrderWorkflowStates, SalesOrderWorkflowState } from '../lib/db/schemas/salesOrder';
+
+/**
+ * Resolve the workflow state that follows `current` among the tenant's active SO steps.
+ * Falls back to the seeded step order when the tenant has no active SO workflow.
+ */
+export function getNextState(steps: WorkflowStep[], current: SalesOrderWorkflowState): SalesOrderWorkflowState {
+  const activeKeys = new Set(steps.map((step) => step.stepKey));
+  const remaining = salesOrderWorkflowStates.slice(salesOrderWorkflowStates.indexOf(current) + 1);
+  const next = remaining.find((state) => steps.length === 0 || activeKeys.has(state));
+  return next || 'complete';
+}
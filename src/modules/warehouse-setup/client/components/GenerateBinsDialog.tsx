@@ -0,0 +1,295 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@client/components/ui/dialog';
+import { Button } from '@client/components/ui/button';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Checkbox } from '@client/components/ui/checkbox';
+import { Badge } from '@client/components/ui/badge';
+import { Eye, Loader2 } from 'lucide-react';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+const DEFAULT_PATTERN = '{zone}-{aisle:02}-{shelf}-{bin:03}';
+
+// Names shown in the preview; the total is always reported
+const PREVIEW_LIMIT = 50;
+
+interface GenerateBinsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  zone: {
+    id: string;
+    name: string;
+    aisles?: { id: string; name: string; shelves?: { id: string; name: string }[] }[];
+  } | null;
+  // Aisle whose shelves start selected; all shelves of the zone when omitted
+  aisleId?: string | null;
+  onSuccess: () => void;
+}
+
+export function GenerateBinsDialog({ open, onOpenChange, zone, aisleId, onSuccess }: GenerateBinsDialogProps) {
+  const [selectedShelfIds, setSelectedShelfIds] = useState<string[]>([]);
+  const [pattern, setPattern] = useState(DEFAULT_PATTERN);
+  const [count, setCount] = useState(10);
+  const [startIndex, setStartIndex] = useState(1);
+  const [maxWeight, setMaxWeight] = useState('');
+  const [maxVolume, setMaxVolume] = useState('');
+  const [category, setCategory] = useState('');
+  const [requiredTemperature, setRequiredTemperature] = useState('');
+  const [accessibilityScore, setAccessibilityScore] = useState(50);
+  const [preview, setPreview] = useState<{ total: number; bins: any[]; collisions: any[] } | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const aisles = (zone?.aisles || []).filter((aisle) => !aisleId || aisle.id === aisleId);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedShelfIds(aisles.flatMap((aisle) => (aisle.shelves || []).map((shelf) => shelf.id)));
+      setPreview(null);
+    }
+  }, [open, zone?.id, aisleId]);
+
+  // Any change invalidates the preview
+  useEffect(() => {
+    setPreview(null);
+  }, [selectedShelfIds, pattern, count, startIndex]);
+
+  const buildRequest = () => ({
+    shelfIds: selectedShelfIds,
+    pattern,
+    count,
+    startIndex,
+    defaults: {
+      maxWeight: maxWeight || undefined,
+      maxVolume: maxVolume || undefined,
+      category: category || undefined,
+      requiredTemperature: requiredTemperature || undefined,
+      accessibilityScore,
+    },
+  });
+
+  const toggleShelf = (shelfId: string, checked: boolean) => {
+    setSelectedShelfIds((current) => checked ? [...current, shelfId] : current.filter((id) => id !== shelfId));
+  };
+
+  const toggleAisle = (shelfIds: string[], checked: boolean) => {
+    setSelectedShelfIds((current) => checked
+      ? [...new Set([...current, ...shelfIds])]
+      : current.filter((id) => !shelfIds.includes(id)));
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const response = await axios.post('/api/modules/warehouse-setup/bins/bulk/preview', buildRequest());
+      setPreview(response.data.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to preview bins');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await axios.post('/api/modules/warehouse-setup/bins/bulk', buildRequest());
+      toast.success(response.data.message);
+      onOpenChange(false);
+      onSuccess();
+    } catch (error: any) {
+      if (error.response?.status === 409) {
+        setPreview((current) => ({
+          total: current?.total ?? 0,
+          bins: current?.bins ?? [],
+          collisions: error.response.data.data.collisions,
+        }));
+      }
+      toast.error(error.response?.data?.message || 'Failed to generate bins');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!isSubmitting) {
+      onOpenChange(newOpen);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Generate Bins</DialogTitle>
+          <DialogDescription>Create bins in bulk on the shelves of zone {zone?.name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Shelves ({selectedShelfIds.length} selected)</Label>
+            <div className="border rounded-md max-h-72 overflow-y-auto p-3 space-y-3">
+              {aisles.length === 0 && (
+                <p className="text-sm text-muted-foreground">No aisles in this zone</p>
+              )}
+              {aisles.map((aisle) => {
+                const shelfIds = (aisle.shelves || []).map((shelf) => shelf.id);
+                return (
+                  <div key={aisle.id} className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`aisle-${aisle.id}`}
+                        checked={shelfIds.length > 0 && shelfIds.every((id) => selectedShelfIds.includes(id))}
+                        onCheckedChange={(checked) => toggleAisle(shelfIds, checked === true)}
+                        disabled={shelfIds.length === 0}
+                      />
+                      <Label htmlFor={`aisle-${aisle.id}`} className="font-medium">Aisle {aisle.name}</Label>
+                    </div>
+                    <div className="pl-6 flex flex-wrap gap-x-4 gap-y-1">
+                      {(aisle.shelves || []).map((shelf) => (
+                        <div key={shelf.id} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`shelf-${shelf.id}`}
+                            checked={selectedShelfIds.includes(shelf.id)}
+                            onCheckedChange={(checked) => toggleShelf(shelf.id, checked === true)}
+                          />
+                          <Label htmlFor={`shelf-${shelf.id}`} className="text-sm font-normal">{shelf.name}</Label>
+                        </div>
+                      ))}
+                      {shelfIds.length === 0 && (
+                        <span className="text-sm text-muted-foreground">No shelves</span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bin-pattern">Naming Pattern</Label>
+              <Input id="bin-pattern" value={pattern} onChange={(e) => setPattern(e.target.value)} />
+              <p className="text-xs text-muted-foreground">
+                {'{warehouse} {zone} {aisle} {shelf} {bin}'}; add a width such as {'{bin:03}'} to zero-pad numbers
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="bin-count">Bins per Shelf</Label>
+                <Input
+                  id="bin-count"
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={count}
+                  onChange={(e) => setCount(parseInt(e.target.value) || 1)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bin-start">First Bin Number</Label>
+                <Input
+                  id="bin-start"
+                  type="number"
+                  min={0}
+                  value={startIndex}
+                  onChange={(e) => setStartIndex(parseInt(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bin-max-weight">Max Weight</Label>
+                <Input id="bin-max-weight" type="number" value={maxWeight} onChange={(e) => setMaxWeight(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bin-max-volume">Max Volume</Label>
+                <Input id="bin-max-volume" type="number" value={maxVolume} onChange={(e) => setMaxVolume(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bin-category">Category</Label>
+                <Input id="bin-category" value={category} onChange={(e) => setCategory(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bin-temperature">Required Temperature</Label>
+                <Input
+                  id="bin-temperature"
+                  value={requiredTemperature}
+                  onChange={(e) => setRequiredTemperature(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bin-score">Accessibility Score</Label>
+                <Input
+                  id="bin-score"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={accessibilityScore}
+                  onChange={(e) => setAccessibilityScore(parseInt(e.target.value) || 0)}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{preview.total} bin(s) to create</span>
+              {preview.collisions.length > 0 ? (
+                <Badge variant="destructive">{preview.collisions.length} collision(s)</Badge>
+              ) : (
+                <Badge variant="secondary">No collisions</Badge>
+              )}
+            </div>
+            {preview.collisions.length > 0 && (
+              <div className="border border-destructive rounded-md max-h-40 overflow-y-auto p-3 text-sm space-y-1">
+                {preview.collisions.map((collision, index) => (
+                  <div key={`${collision.shelfId}-${collision.name}-${index}`}>
+                    <span className="font-mono">{collision.name}</span>
+                    <span className="text-muted-foreground"> on {collision.shelfPath}: </span>
+                    {collision.reason === 'existing' ? 'already exists' : 'repeated by the pattern'}
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="border rounded-md max-h-40 overflow-y-auto p-3 text-sm font-mono flex flex-wrap gap-x-4 gap-y-1">
+              {preview.bins.slice(0, PREVIEW_LIMIT).map((bin, index) => (
+                <span key={`${bin.shelfId}-${index}`}>{bin.name}</span>
+              ))}
+              {preview.total > PREVIEW_LIMIT && (
+                <span className="text-muted-foreground">and {preview.total - PREVIEW_LIMIT} more</span>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handlePreview}
+            disabled={isPreviewing || isSubmitting || selectedShelfIds.length === 0}
+          >
+            {isPreviewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+            Preview
+          </Button>
+          <Button
+            onClick={handleGenerate}
+            disabled={isSubmitting || !preview || preview.collisions.length > 0}
+          >
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Generate {preview ? `${preview.total} Bins` : 'Bins'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@client/components/ui/dialog';
+import { Button } from '@client/components/ui/button';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Badge } from '@client/components/ui/badge';
+import { Eye, Loader2 } from 'lucide-react';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+// Changes listed in the diff; the summary always has the totals
+const DIFF_LIMIT = 200;
+
+interface ImportLayoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Warehouse to merge into; null to import as a warehouse matched or created by name
+  warehouse: { id: string; name: string } | null;
+  onSuccess: () => void;
+}
+
+export function ImportLayoutDialog({ open, onOpenChange, warehouse, onSuccess }: ImportLayoutDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [warehouseName, setWarehouseName] = useState('');
+  const [diff, setDiff] = useState<any>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setWarehouseName('');
+      setDiff(null);
+      setErrors([]);
+    }
+  }, [open, warehouse?.id]);
+
+  // Any change invalidates the diff
+  useEffect(() => {
+    setDiff(null);
+    setErrors([]);
+  }, [file, warehouseName]);
+
+  const url = warehouse
+    ? `/api/modules/warehouse-setup/warehouses/${warehouse.id}/layout/import`
+    : '/api/modules/warehouse-setup/warehouses/layout/import';
+
+  const upload = (dryRun: boolean) => {
+    const formData = new FormData();
+    formData.append('file', file!);
+    return axios.post(url, formData, {
+      params: { dryRun, name: warehouse ? undefined : warehouseName || undefined },
+    });
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const response = await upload(true);
+      setDiff(response.data.data);
+      setErrors([]);
+    } catch (error: any) {
+      setErrors(error.response?.data?.data?.errors || []);
+      toast.error(error.response?.data?.message || 'Failed to read layout');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await upload(false);
+      toast.success(response.data.message);
+      onOpenChange(false);
+      onSuccess();
+    } catch (error: any) {
+      setErrors(error.response?.data?.data?.errors || []);
+      toast.error(error.response?.data?.message || 'Failed to import layout');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!isSubmitting) {
+      onOpenChange(newOpen);
+    }
+  };
+
+  const formatValue = (value: unknown) => (value === null || value === undefined || value === '' ? '-' : String(value));
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Layout</DialogTitle>
+          <DialogDescription>
+            {warehouse
+              ? `Merge zones, aisles, shelves and bins into ${warehouse.name} by name. Nothing is deleted.`
+              : 'Import a layout as a warehouse. A warehouse with the same name is merged into; otherwise one is created.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="layout-file">Layout File</Label>
+            <Input
+              id="layout-file"
+              type="file"
+              accept=".json,.csv"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+            <p className="text-xs text-muted-foreground">JSON or CSV exported from a warehouse</p>
+          </div>
+          {!warehouse && (
+            <div className="space-y-2">
+              <Label htmlFor="layout-warehouse-name">Warehouse Name</Label>
+              <Input
+                id="layout-warehouse-name"
+                value={warehouseName}
+                onChange={(e) => setWarehouseName(e.target.value)}
+                placeholder="Name in the file"
+              />
+              <p className="text-xs text-muted-foreground">Set a new name to copy the layout to another site</p>
+            </div>
+          )}
+        </div>
+
+        {errors.length > 0 && (
+          <div className="border border-destructive rounded-md max-h-40 overflow-y-auto p-3 text-sm space-y-1">
+            {errors.map((error, index) => (
+              <div key={index}>{error}</div>
+            ))}
+          </div>
+        )}
+
+        {diff && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{diff.warehouseName}</span>
+              {!diff.warehouseId && <Badge>New warehouse</Badge>}
+              <Badge variant="secondary">{diff.summary.create} to create</Badge>
+              <Badge variant="secondary">{diff.summary.update} to update</Badge>
+              <Badge variant="outline">{diff.summary.unchanged} unchanged</Badge>
+            </div>
+            {diff.warnings.length > 0 && (
+              <div className="border rounded-md max-h-32 overflow-y-auto p-3 text-sm text-muted-foreground space-y-1">
+                {diff.warnings.map((warning: string, index: number) => (
+                  <div key={index}>{warning}</div>
+                ))}
+              </div>
+            )}
+            {diff.changes.length > 0 && (
+              <div className="border rounded-md max-h-72 overflow-y-auto p-3 text-sm space-y-1">
+                {diff.changes.slice(0, DIFF_LIMIT).map((change: any, index: number) => (
+                  <div key={`${change.level}-${change.path}-${index}`}>
+                    <Badge variant={change.action === 'create' ? 'default' : 'secondary'} className="mr-2 capitalize">
+                      {change.action}
+                    </Badge>
+                    <span className="capitalize text-muted-foreground">{change.level} </span>
+                    <span className="font-mono">{change.path || diff.warehouseName}</span>
+                    {change.changes && Object.entries(change.changes).map(([field, value]: [string, any]) => (
+                      <span key={field} className="text-muted-foreground">
+                        {'; '}{field}: {formatValue(value.from)} → {formatValue(value.to)}
+                      </span>
+                    ))}
+                  </div>
+                ))}
+                {diff.changes.length > DIFF_LIMIT && (
+                  <div className="text-muted-foreground">and {diff.changes.length - DIFF_LIMIT} more</div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handlePreview}
+            disabled={!file || isPreviewing || isSubmitting}
+          >
+            {isPreviewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+            Preview Changes
+          </Button>
+          <Button onClick={handleImport} disabled={isSubmitting || !diff}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
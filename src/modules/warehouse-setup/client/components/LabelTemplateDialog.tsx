@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@client/components/ui/dialog';
+import { Button } from '@client/components/ui/button';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Switch } from '@client/components/ui/switch';
+import { Textarea } from '@client/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@client/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { labelTemplateFormSchema, type LabelTemplateFormData } from '../schemas/warehouseSchemas';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+const PLACEHOLDERS = {
+  bin: ['name', 'barcode', 'path', 'warehouse', 'zone', 'aisle', 'shelf'],
+  product: ['name', 'sku', 'barcode', 'baseUom'],
+};
+
+const DEFAULT_VALUES: LabelTemplateFormData = {
+  name: '',
+  targetType: 'bin',
+  symbology: 'code128',
+  widthMm: 100,
+  heightMm: 50,
+  pageSize: 'label',
+  textLines: '{{name}}\n{{path}}',
+  fontSizePt: 10,
+  showBarcodeText: true,
+  isDefault: false,
+  isActive: true,
+};
+
+interface LabelTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Template to edit; null to create one
+  template: any | null;
+  onSuccess: () => void;
+}
+
+export function LabelTemplateDialog({ open, onOpenChange, template, onSuccess }: LabelTemplateDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+    control,
+  } = useForm<LabelTemplateFormData>({
+    resolver: zodResolver(labelTemplateFormSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset(template
+        ? {
+          name: template.name,
+          targetType: template.targetType,
+          symbology: template.symbology,
+          widthMm: template.widthMm,
+          heightMm: template.heightMm,
+          pageSize: template.pageSize,
+          textLines: template.textLines,
+          fontSizePt: template.fontSizePt,
+          showBarcodeText: template.showBarcodeText,
+          isDefault: template.isDefault,
+          isActive: template.isActive,
+        }
+        : DEFAULT_VALUES);
+    }
+  }, [open, template, reset]);
+
+  const targetType = watch('targetType');
+  const showBarcodeText = watch('showBarcodeText');
+  const isDefault = watch('isDefault');
+  const isActive = watch('isActive');
+
+  const onSubmit = async (data: LabelTemplateFormData) => {
+    setIsSubmitting(true);
+    try {
+      if (template) {
+        await axios.put(`/api/modules/warehouse-setup/label-templates/${template.id}`, data);
+        toast.success('Label template updated successfully');
+      } else {
+        await axios.post('/api/modules/warehouse-setup/label-templates', data);
+        toast.success('Label template created successfully');
+      }
+      onOpenChange(false);
+      onSuccess();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save label template');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!isSubmitting) {
+      onOpenChange(newOpen);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Edit Label Template' : 'Add Label Template'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">
+                Name <span className="text-destructive">*</span>
+              </Label>
+              <Input id="name" {...register('name')} placeholder="Bin label 100x50" />
+              {errors.name && (
+                <p className="text-sm text-destructive">{errors.name.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="targetType">Labels For</Label>
+              <Controller
+                name="targetType"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger id="targetType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="bin">Bins</SelectItem>
+                      <SelectItem value="product">Products</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="symbology">Barcode</Label>
+              <Controller
+                name="symbology"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger id="symbology">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="code128">Code 128</SelectItem>
+                      <SelectItem value="qrcode">QR Code</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="pageSize">Page</Label>
+              <Controller
+                name="pageSize"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger id="pageSize">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="label">Label printer (one label per page)</SelectItem>
+                      <SelectItem value="A4">A4 sheet</SelectItem>
+                      <SelectItem value="letter">Letter sheet</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="widthMm">Width (mm)</Label>
+              <Input id="widthMm" type="number" {...register('widthMm', { valueAsNumber: true })} />
+              {errors.widthMm && (
+                <p className="text-sm text-destructive">{errors.widthMm.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="heightMm">Height (mm)</Label>
+              <Input id="heightMm" type="number" {...register('heightMm', { valueAsNumber: true })} />
+              {errors.heightMm && (
+                <p className="text-sm text-destructive">{errors.heightMm.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fontSizePt">Font Size (pt)</Label>
+              <Input id="fontSizePt" type="number" {...register('fontSizePt', { valueAsNumber: true })} />
+              {errors.fontSizePt && (
+                <p className="text-sm text-destructive">{errors.fontSizePt.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="textLines">Text Lines</Label>
+            <Textarea id="textLines" rows={3} {...register('textLines')} />
+            <p className="text-sm text-muted-foreground">
+              One line each. Placeholders: {PLACEHOLDERS[targetType].map((placeholder) => `{{${placeholder}}}`).join(' ')}
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="showBarcodeText">Print the barcode value</Label>
+            <Switch
+              id="showBarcodeText"
+              checked={showBarcodeText}
+              onCheckedChange={(checked) => setValue('showBarcodeText', checked)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="isDefault">Default</Label>
+              <p className="text-sm text-muted-foreground">
+                Used when printing without choosing a template
+              </p>
+            </div>
+            <Switch
+              id="isDefault"
+              checked={isDefault}
+              onCheckedChange={(checked) => setValue('isDefault', checked)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="isActive">Active</Label>
+            <Switch
+              id="isActive"
+              checked={isActive}
+              onCheckedChange={(checked) => setValue('isActive', checked)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {template ? 'Save Template' : 'Create Template'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import { Button } from '@client/components/ui/button';
+import { Input } from '@client/components/ui/input';
+import { Label } from '@client/components/ui/label';
+import { Checkbox } from '@client/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@client/components/ui/select';
+import { Eye, Printer } from 'lucide-react';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+const DEFAULT_TEMPLATE = 'default';
+
+interface PrintLabelsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: 'bin' | 'product';
+  // For bin labels: the warehouse, zone, aisle, shelf or bin whose bins to label
+  scope?: { level: 'warehouse' | 'zone' | 'aisle' | 'shelf' | 'bin'; id: string; name: string };
+  // For product labels
+  productIds?: string[];
+  onPrinted?: () => void;
+}
+
+export const PrintLabelsDialog: React.FC<PrintLabelsDialogProps> = ({
+  open,
+  onOpenChange,
+  targetType,
+  scope,
+  productIds,
+  onPrinted,
+}) => {
+  const [templates, setTemplates] = useState<any[]>([]);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE);
+  const [copies, setCopies] = useState(1);
+  const [assignMissingBarcodes, setAssignMissingBarcodes] = useState(true);
+  const [htmlContent, setHtmlContent] = useState('');
+  const [labelCount, setLabelCount] = useState<number | null>(null);
+  const [missingBarcodeCount, setMissingBarcodeCount] = useState(0);
+  const [batchNumber, setBatchNumber] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setTemplateId(DEFAULT_TEMPLATE);
+      setCopies(1);
+      setAssignMissingBarcodes(true);
+      setHtmlContent('');
+      setLabelCount(null);
+      setBatchNumber(null);
+      fetchTemplates();
+    }
+  }, [open, targetType]);
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await axios.get('/api/modules/warehouse-setup/label-templates', {
+        params: { targetType },
+      });
+      setTemplates((response.data.data || []).filter((template: any) => template.isActive));
+    } catch (error) {
+      console.error('Error fetching label templates:', error);
+      toast.error('Failed to fetch label templates');
+    }
+  };
+
+  const buildRequest = () => ({
+    targetType,
+    ...(targetType === 'bin' ? { scope: scope && { level: scope.level, id: scope.id } } : { productIds }),
+    templateId: templateId === DEFAULT_TEMPLATE ? undefined : templateId,
+    copies,
+    assignMissingBarcodes,
+  });
+
+  const handlePreview = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.post('/api/modules/warehouse-setup/labels/preview', buildRequest());
+      setHtmlContent(response.data.data.html);
+      setLabelCount(response.data.data.labelCount);
+      setMissingBarcodeCount(response.data.data.missingBarcodeCount);
+      setBatchNumber(null);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to preview labels');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateBatch = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.post('/api/modules/warehouse-setup/labels/batches', buildRequest());
+      const batch = response.data.data;
+
+      // Load the stored document so what is printed is what was saved
+      const htmlResponse = await axios.get(
+        `/api/modules/document-numbering/documents/${batch.documentId}/view`,
+        { responseType: 'text' }
+      );
+      setHtmlContent(htmlResponse.data);
+      setLabelCount(batch.labelCount);
+      setBatchNumber(batch.batchNumber);
+      toast.success(
+        batch.assignedBarcodes > 0
+          ? `${response.data.message}; ${batch.assignedBarcodes} bin(s) given a barcode`
+          : response.data.message
+      );
+      onPrinted?.();
+
+      // Give the iframe a moment to render before opening the print dialog
+      setTimeout(handlePrint, 300);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to create label batch');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePrint = () => {
+    const iframe = document.getElementById('label-document-iframe') as HTMLIFrameElement;
+    if (iframe && iframe.contentWindow) {
+      iframe.contentWindow.print();
+    }
+  };
+
+  const subject = targetType === 'bin'
+    ? `bins in ${scope?.level} ${scope?.name}`
+    : `${productIds?.length || 0} product(s)`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[70rem] sm:max-w-[70rem] max-h-[95vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Print Labels{batchNumber ? ` - ${batchNumber}` : ''}</DialogTitle>
+          <DialogDescription>Labels for {subject}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_TEMPLATE}>Default</SelectItem>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name} ({template.widthMm}x{template.heightMm}mm, {template.symbology === 'qrcode' ? 'QR' : 'Code 128'})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="label-copies">Copies per {targetType}</Label>
+            <Input
+              id="label-copies"
+              type="number"
+              min={1}
+              max={100}
+              value={copies}
+              onChange={(e) => setCopies(Math.max(1, parseInt(e.target.value) || 1))}
+            />
+          </div>
+          {targetType === 'bin' && (
+            <div className="flex items-center gap-2 pb-2">
+              <Checkbox
+                id="assign-missing-barcodes"
+                checked={assignMissingBarcodes}
+                onCheckedChange={(checked) => setAssignMissingBarcodes(checked === true)}
+              />
+              <Label htmlFor="assign-missing-barcodes">Save barcodes for bins without one</Label>
+            </div>
+          )}
+        </div>
+
+        {labelCount !== null && (
+          <p className="text-sm text-muted-foreground">
+            {labelCount} label(s)
+            {targetType === 'bin' && missingBarcodeCount > 0 && !batchNumber
+              ? `; ${missingBarcodeCount} bin(s) have no barcode and get one derived from their id`
+              : ''}
+          </p>
+        )}
+
+        <div className="flex-1 overflow-hidden border rounded-md">
+          {htmlContent ? (
+            <iframe
+              id="label-document-iframe"
+              srcDoc={htmlContent}
+              className="w-full h-[500px] border-0"
+              title="Labels"
+            />
+          ) : (
+            <div className="flex items-center justify-center h-[500px] text-muted-foreground">
+              {loading ? 'Loading labels...' : 'Preview the labels before printing'}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={handlePreview} disabled={loading}>
+            <Eye className="mr-2 h-4 w-4" />
+            Preview
+          </Button>
+          {batchNumber ? (
+            <Button onClick={handlePrint}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print Again
+            </Button>
+          ) : (
+            <Button onClick={handleCreateBatch} disabled={loading}>
+              <Printer className="mr-2 h-4 w-4" />
+              {loading ? 'Generating...' : 'Create & Print'}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@client/components/ui/accordion';
 import { Button } from '@client/components/ui/button';
 import { Badge } from '@client/components/ui/badge';
-import { Plus, Warehouse, MapPin, Grid3x3, Layers, Package, MoreVertical, Edit, Trash2 } from 'lucide-react';
+import { Plus, Warehouse, MapPin, Grid3x3, Layers, Package, MoreVertical, Edit, Trash2, Printer, Boxes, Download, Upload } from 'lucide-react';
 import { useAuth } from '@client/provider/AuthProvider';
 import axios from 'axios';
 import {
@@ -21,6 +21,9 @@ import { EditZoneDialog } from './EditZoneDialog';
 import { EditAisleDialog } from './EditAisleDialog';
 import { EditShelfDialog } from './EditShelfDialog';
 import { EditBinDialog } from './EditBinDialog';
+import { PrintLabelsDialog } from './PrintLabelsDialog';
+import { GenerateBinsDialog } from './GenerateBinsDialog';
+import { ImportLayoutDialog } from './ImportLayoutDialog';
 
 interface Bin {
   id: string;
@@ -59,6 +62,75 @@ interface Zone {
   aisles?: Aisle[];
 }
 
+interface Utilization {
+  weight: number;
+  volume: number;
+  maxWeight: number | null;
+  maxVolume: number | null;
+  weightPercent: number | null;
+  volumePercent: number | null;
+  skuCount: number;
+  quantity: number;
+  binCount: number;
+  occupiedBinCount: number;
+}
+
+interface UtilizationReport {
+  warningPercent: number;
+  warehouses: Record<string, Utilization>;
+  zones: Record<string, Utilization>;
+  aisles: Record<string, Utilization>;
+  shelves: Record<string, Utilization>;
+  bins: Record<string, Utilization>;
+}
+
+// Below this utilization a location shows green; amber from here up to the warning level, red from there
+const UTILIZATION_AMBER_PERCENT = 70;
+
+const UTILIZATION_COLORS = {
+  green: { bar: 'bg-green-500', text: 'text-green-600' },
+  amber: { bar: 'bg-amber-500', text: 'text-amber-600' },
+  red: { bar: 'bg-red-500', text: 'text-red-600' },
+};
+
+const UtilizationIndicator = ({ utilization, warningPercent }: { utilization?: Utilization; warningPercent: number }) => {
+  if (!utilization) return null;
+
+  const details = [
+    `Weight: ${utilization.weight} kg${utilization.maxWeight !== null ? ` of ${utilization.maxWeight} kg (${utilization.weightPercent}%)` : ''}`,
+    `Volume: ${utilization.volume} m³${utilization.maxVolume !== null ? ` of ${utilization.maxVolume} m³ (${utilization.volumePercent}%)` : ''}`,
+    `${utilization.skuCount} SKU(s), ${utilization.quantity} unit(s)`,
+    `${utilization.occupiedBinCount} of ${utilization.binCount} bin(s) occupied`,
+  ].join('\n');
+
+  // The fuller of weight and volume decides the colour
+  const percents = [utilization.weightPercent, utilization.volumePercent].filter((value): value is number => value !== null);
+  if (percents.length === 0) {
+    return (
+      <span className="text-xs text-muted-foreground whitespace-nowrap" title={details}>
+        {utilization.skuCount} SKU{utilization.skuCount === 1 ? '' : 's'}
+      </span>
+    );
+  }
+
+  const percent = Math.max(...percents);
+  const colors = percent >= warningPercent
+    ? UTILIZATION_COLORS.red
+    : percent >= UTILIZATION_AMBER_PERCENT ? UTILIZATION_COLORS.amber : UTILIZATION_COLORS.green;
+
+  return (
+    <div className="flex items-center gap-2 text-xs whitespace-nowrap" title={details}>
+      <div className="w-16 h-1.5 rounded-full bg-muted overflow-hidden">
+        <div className={`h-full ${colors.bar}`} style={{ width: `${Math.min(percent, 100)}%` }} />
+      </div>
+      <span className={`font-medium ${colors.text}`}>{percent}%</span>
+      <span className="text-muted-foreground">
+        {utilization.skuCount} SKU{utilization.skuCount === 1 ? '' : 's'}
+      </span>
+    </div>
+  );
+};
+
 interface WarehouseType {
   id: string;
   name: string;
@@ -74,6 +146,7 @@ interface WarehouseType {
 export const WarehouseHierarchyView = () => {
   const { token: accessToken } = useAuth();
   const [warehouses, setWarehouses] = useState<WarehouseType[]>([]);
+  const [utilization, setUtilization] = useState<UtilizationReport | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshKey, setRefreshKey] = useState(0);
   const [expandedWarehouses, setExpandedWarehouses] = useState<string[]>([]);
@@ -104,6 +177,32 @@ export const WarehouseHierarchyView = () => {
   const [editingShelf, setEditingShelf] = useState<Shelf | null>(null);
   const [editingBin, setEditingBin] = useState<Bin | null>(null);
 
+  const [generateBinsDialogOpen, setGenerateBinsDialogOpen] = useState(false);
+  const [generatingZone, setGeneratingZone] = useState<Zone | null>(null);
+  const [generatingAisleId, setGeneratingAisleId] = useState<string | null>(null);
+
+  const [importLayoutDialogOpen, setImportLayoutDialogOpen] = useState(false);
+  const [importLayoutWarehouse, setImportLayoutWarehouse] = useState<{ id: string; name: string } | null>(null);
+
+  const [labelsDialogOpen, setLabelsDialogOpen] = useState(false);
+  const [labelScope, setLabelScope] = useState<{
+    level: 'warehouse' | 'zone' | 'aisle' | 'shelf' | 'bin';
+    id: string;
+    name: string;
+  } | null>(null);
+
+  // Utilization is shown when available but never holds up the layout
+  const fetchUtilization = async () => {
+    try {
+      const response = await axios.get('/api/modules/warehouse-setup/utilization', {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      setUtilization(response.data.data);
+    } catch (error: any) {
+      console.error('Error fetching utilization:', error);
+    }
+  };
+
   const fetchWarehouses = async () => {
     if (!accessToken) return;
     
@@ -114,6 +213,7 @@ export const WarehouseHierarchyView = () => {
         params: { limit: 100, includeHierarchy: true }
       });
       setWarehouses(response.data.data || []);
+      fetchUtilization();
     } catch (error: any) {
       console.error('Error fetching warehouses:', error);
     } finally {
@@ -132,6 +232,7 @@ export const WarehouseHierarchyView = () => {
       });
       setWarehouses(response.data.data || []);
       setRefreshKey(prev => prev + 1);
+      fetchUtilization();
     } catch (error: any) {
       console.error('Error fetching warehouses:', error);
     }
@@ -141,6 +242,35 @@ export const WarehouseHierarchyView = () => {
     fetchWarehouses();
   }, [accessToken]);
 
+  const handleExportLayout = async (warehouse: WarehouseType, format: 'json' | 'csv') => {
+    try {
+      const response = await axios.get(`/api/modules/warehouse-setup/warehouses/${warehouse.id}/layout`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        params: { format },
+        responseType: 'blob',
+      });
+
+      const url = URL.createObjectURL(new Blob([response.data]));
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', `${warehouse.name.replace(/[^\w.-]+/g, '_')}-layout.${format}`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Error exporting layout:', error);
+    }
+  };
+
+  const openImportLayout = (warehouse: { id: string; name: string } | null) => {
+    setImportLayoutWarehouse(warehouse);
+    setImportLayoutDialogOpen(true);
+  };
+
+  const warningPercent = utilization?.warningPercent ?? 90;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center p-12">
@@ -174,10 +304,16 @@ export const WarehouseHierarchyView = () => {
             Hierarchical view of warehouses, zones, aisles, shelves, and bins
           </p>
         </div>
-        <Button onClick={() => setWarehouseDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Warehouse
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => openImportLayout(null)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Layout
+          </Button>
+          <Button onClick={() => setWarehouseDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Warehouse
+          </Button>
+        </div>
       </div>
 
       <div className="space-y-2" key={refreshKey}>
@@ -201,6 +337,7 @@ export const WarehouseHierarchyView = () => {
                           <div className="text-sm text-muted-foreground">{warehouse.address}</div>
                         )}
                       </div>
+                      <UtilizationIndicator utilization={utilization?.warehouses[warehouse.id]} warningPercent={warningPercent} />
                       <Badge variant={warehouse.isActive ? 'default' : 'secondary'}>
                         {warehouse.isActive ? 'Active' : 'Inactive'}
                       </Badge>
@@ -223,6 +360,27 @@ export const WarehouseHierarchyView = () => {
                           <Plus className="h-4 w-4 mr-2" />
                           Add Zone
                         </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => {
+                            setLabelScope({ level: 'warehouse', id: warehouse.id, name: warehouse.name });
+                            setLabelsDialogOpen(true);
+                          }}
+                        >
+                          <Printer className="h-4 w-4 mr-2" />
+                          Print Labels
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleExportLayout(warehouse, 'json')}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Export Layout (JSON)
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleExportLayout(warehouse, 'csv')}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Export Layout (CSV)
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => openImportLayout({ id: warehouse.id, name: warehouse.name })}>
+                          <Upload className="h-4 w-4 mr-2" />
+                          Import Layout
+                        </DropdownMenuItem>
                         <DropdownMenuItem
                           onClick={() => {
                             setEditingWarehouse(warehouse);
@@ -265,6 +423,7 @@ export const WarehouseHierarchyView = () => {
                                     <div className="text-xs text-muted-foreground">{zone.description}</div>
                                   )}
                                 </div>
+                                <UtilizationIndicator utilization={utilization?.zones[zone.id]} warningPercent={warningPercent} />
                               </div>
                             </AccordionTrigger>
                             <div className="absolute right-3 top-2">
@@ -284,6 +443,25 @@ export const WarehouseHierarchyView = () => {
                                     <Plus className="h-4 w-4 mr-2" />
                                     Add Aisle
                                   </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => {
+                                      setGeneratingZone(zone);
+                                      setGeneratingAisleId(null);
+                                      setGenerateBinsDialogOpen(true);
+                                    }}
+                                  >
+                                    <Boxes className="h-4 w-4 mr-2" />
+                                    Generate Bins
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => {
+                                      setLabelScope({ level: 'zone', id: zone.id, name: zone.name });
+                                      setLabelsDialogOpen(true);
+                                    }}
+                                  >
+                                    <Printer className="h-4 w-4 mr-2" />
+                                    Print Labels
+                                  </DropdownMenuItem>
                                   <DropdownMenuItem
                                     onClick={() => {
                                       setEditingZone(zone);
@@ -326,6 +504,7 @@ export const WarehouseHierarchyView = () => {
                                               <div className="text-xs text-muted-foreground">{aisle.description}</div>
                                             )}
                                           </div>
+                                          <UtilizationIndicator utilization={utilization?.aisles[aisle.id]} warningPercent={warningPercent} />
                                         </div>
                                       </AccordionTrigger>
                                       <div className="absolute right-3 top-2">
@@ -345,6 +524,25 @@ export const WarehouseHierarchyView = () => {
                                               <Plus className="h-4 w-4 mr-2" />
                                               Add Shelf
                                             </DropdownMenuItem>
+                                            <DropdownMenuItem
+                                              onClick={() => {
+                                                setGeneratingZone(zone);
+                                                setGeneratingAisleId(aisle.id);
+                                                setGenerateBinsDialogOpen(true);
+                                              }}
+                                            >
+                                              <Boxes className="h-4 w-4 mr-2" />
+                                              Generate Bins
+                                            </DropdownMenuItem>
+                                            <DropdownMenuItem
+                                              onClick={() => {
+                                                setLabelScope({ level: 'aisle', id: aisle.id, name: aisle.name });
+                                                setLabelsDialogOpen(true);
+                                              }}
+                                            >
+                                              <Printer className="h-4 w-4 mr-2" />
+                                              Print Labels
+                                            </DropdownMenuItem>
                                             <DropdownMenuItem
                                               onClick={() => {
                                                 setEditingAisle(aisle);
@@ -387,6 +585,7 @@ export const WarehouseHierarchyView = () => {
                                                         <div className="text-xs text-muted-foreground">{shelf.description}</div>
                                                       )}
                                                     </div>
+                                                    <UtilizationIndicator utilization={utilization?.shelves[shelf.id]} warningPercent={warningPercent} />
                                                   </div>
                                                 </AccordionTrigger>
                                                 <div className="absolute right-3 top-2">
@@ -406,6 +605,15 @@ export const WarehouseHierarchyView = () => {
                                                         <Plus className="h-4 w-4 mr-2" />
                                                         Add Bin
                                                       </DropdownMenuItem>
+                                                      <DropdownMenuItem
+                                                        onClick={() => {
+                                                          setLabelScope({ level: 'shelf', id: shelf.id, name: shelf.name });
+                                                          setLabelsDialogOpen(true);
+                                                        }}
+                                                      >
+                                                        <Printer className="h-4 w-4 mr-2" />
+                                                        Print Labels
+                                                      </DropdownMenuItem>
                                                       <DropdownMenuItem
                                                         onClick={() => {
                                                           setEditingShelf(shelf);
@@ -446,6 +654,7 @@ export const WarehouseHierarchyView = () => {
                                                             )}
                                                           </div>
                                                         </div>
+                                                        <UtilizationIndicator utilization={utilization?.bins[bin.id]} warningPercent={warningPercent} />
                                                         <DropdownMenu>
                                                           <DropdownMenuTrigger asChild>
                                                             <Button variant="ghost" size="sm">
@@ -453,6 +662,15 @@ export const WarehouseHierarchyView = () => {
                                                             </Button>
                                                           </DropdownMenuTrigger>
                                                           <DropdownMenuContent align="end">
+                                                            <DropdownMenuItem
+                                                              onClick={() => {
+                                                                setLabelScope({ level: 'bin', id: bin.id, name: bin.name });
+                                                                setLabelsDialogOpen(true);
+                                                              }}
+                                                            >
+                                                              <Printer className="h-4 w-4 mr-2" />
+                                                              Print Labels
+                                                            </DropdownMenuItem>
                                                             <DropdownMenuItem
                                                               onClick={() => {
                                                                 setEditingBin(bin);
@@ -574,6 +792,31 @@ export const WarehouseHierarchyView = () => {
         bin={editingBin}
         onSuccess={refreshWarehouses}
       />
+
+      <GenerateBinsDialog
+        open={generateBinsDialogOpen}
+        onOpenChange={setGenerateBinsDialogOpen}
+        zone={generatingZone}
+        aisleId={generatingAisleId}
+        onSuccess={refreshWarehouses}
+      />
+
+      <ImportLayoutDialog
+        open={importLayoutDialogOpen}
+        onOpenChange={setImportLayoutDialogOpen}
+        warehouse={importLayoutWarehouse}
+        onSuccess={refreshWarehouses}
+      />
+
+      {labelScope && (
+        <PrintLabelsDialog
+          open={labelsDialogOpen}
+          onOpenChange={setLabelsDialogOpen}
+          targetType="bin"
+          scope={labelScope}
+          onPrinted={refreshWarehouses}
+        />
+      )}
     </div>
   );
 };
@@ -15,6 +15,13 @@ export const warehouseSetupSidebarMenus = {
         roles: "ADMIN",
         permissions: "warehouse-setup.view",
       },
+      {
+        id: "warehouse-setup-labels",
+        title: "Labels",
+        url: "/console/modules/warehouse-setup/labels",
+        roles: "ADMIN",
+        permissions: "warehouse-setup.labels",
+      },
       {
         id: "warehouse-setup-list",
         title: "Warehouse Setup List",
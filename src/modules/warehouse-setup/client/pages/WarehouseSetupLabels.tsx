@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@client/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@client/components/ui/card';
+import { Badge } from '@client/components/ui/badge';
+import { Pencil, Plus, Printer, Trash2 } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@client/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@client/components/ui/dialog';
+import { withModuleAuthorization } from '@client/components/auth/withModuleAuthorization';
+import { LabelTemplateDialog } from '../components/LabelTemplateDialog';
+import axios from 'axios';
+import { toast } from 'sonner';
+
+const WarehouseSetupLabels: React.FC = () => {
+  const [templates, setTemplates] = useState<any[]>([]);
+  const [batches, setBatches] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<any>(null);
+  const [reprintBatch, setReprintBatch] = useState<any>(null);
+  const [reprintHtml, setReprintHtml] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [templatesResponse, batchesResponse] = await Promise.all([
+        axios.get('/api/modules/warehouse-setup/label-templates'),
+        axios.get('/api/modules/warehouse-setup/labels/batches', { params: { limit: 20 } }),
+      ]);
+      setTemplates(templatesResponse.data.data || []);
+      setBatches(batchesResponse.data.data || []);
+    } catch (error) {
+      console.error('Error fetching labels:', error);
+      toast.error('Failed to fetch label templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = () => {
+    setEditingTemplate(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (template: any) => {
+    setEditingTemplate(template);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (template: any) => {
+    if (!window.confirm(`Are you sure you want to delete "${template.name}"?`)) return;
+    try {
+      await axios.delete(`/api/modules/warehouse-setup/label-templates/${template.id}`);
+      toast.success('Label template deleted successfully');
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to delete label template');
+    }
+  };
+
+  const handleReprint = async (batch: any) => {
+    try {
+      const response = await axios.get(
+        `/api/modules/document-numbering/documents/${batch.documentId}/view`,
+        { responseType: 'text' }
+      );
+      setReprintHtml(response.data);
+      setReprintBatch(batch);
+    } catch (error) {
+      console.error('Error fetching label document:', error);
+      toast.error('Failed to load label document');
+    }
+  };
+
+  const handlePrint = () => {
+    const iframe = document.getElementById('label-batch-iframe') as HTMLIFrameElement;
+    if (iframe && iframe.contentWindow) {
+      iframe.contentWindow.print();
+    }
+  };
+
+  const describeScope = (batch: any) => {
+    if (batch.targetType === 'product') {
+      return `${batch.scope?.productIds?.length || 0} product(s)`;
+    }
+    return `${batch.scope?.level} ${batch.scope?.name || ''}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Labels</h1>
+          <p className="text-muted-foreground">
+            Label templates for bins and products, and printed label batches
+          </p>
+        </div>
+        <Button onClick={handleAdd}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Template
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Templates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No templates yet. Labels print with the built-in layout.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>For</TableHead>
+                  <TableHead>Barcode</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>Page</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-medium">
+                      {template.name}
+                      {template.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                    </TableCell>
+                    <TableCell className="capitalize">{template.targetType}</TableCell>
+                    <TableCell>{template.symbology === 'qrcode' ? 'QR Code' : 'Code 128'}</TableCell>
+                    <TableCell>{template.widthMm} x {template.heightMm} mm</TableCell>
+                    <TableCell>{template.pageSize === 'label' ? 'Label printer' : template.pageSize}</TableCell>
+                    <TableCell>
+                      <Badge variant={template.isActive ? 'default' : 'outline'}>
+                        {template.isActive ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => handleEdit(template)} title="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(template)} title="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Batches</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {batches.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No labels printed yet. Print bin labels from the warehouse hierarchy and product labels from master data.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Labels For</TableHead>
+                  <TableHead>Template</TableHead>
+                  <TableHead className="text-right">Labels</TableHead>
+                  <TableHead>Printed</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch.id}>
+                    <TableCell className="font-medium">{batch.batchNumber}</TableCell>
+                    <TableCell>{describeScope(batch)}</TableCell>
+                    <TableCell>{batch.templateName || 'Default'}</TableCell>
+                    <TableCell className="text-right">{batch.labelCount}</TableCell>
+                    <TableCell>
+                      <div>{new Date(batch.createdAt).toLocaleString()}</div>
+                      {batch.createdByName && (
+                        <div className="text-sm text-muted-foreground">{batch.createdByName}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {batch.documentId && (
+                        <Button variant="ghost" size="icon" onClick={() => handleReprint(batch)} title="Reprint">
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <LabelTemplateDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        template={editingTemplate}
+        onSuccess={fetchData}
+      />
+
+      <Dialog open={!!reprintBatch} onOpenChange={(open) => !open && setReprintBatch(null)}>
+        <DialogContent className="max-w-[70rem] sm:max-w-[70rem] max-h-[95vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Labels - {reprintBatch?.batchNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="flex-1 overflow-hidden border rounded-md">
+            <iframe
+              id="label-batch-iframe"
+              srcDoc={reprintHtml}
+              className="w-full h-[500px] border-0"
+              title="Labels"
+            />
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button onClick={handlePrint}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default withModuleAuthorization(WarehouseSetupLabels, {
+  moduleId: 'warehouse-setup',
+  moduleName: 'Warehouse Setup'
+});
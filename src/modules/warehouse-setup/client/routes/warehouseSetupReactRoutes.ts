@@ -2,6 +2,7 @@ import { RouteObject } from 'react-router';
 import WarehouseSetupList from '../pages/WarehouseSetupList';
 import WarehouseSetupAdd from '../pages/WarehouseSetupAdd';
 import WarehouseSetupManagement from '../pages/WarehouseSetupManagement';
+import WarehouseSetupLabels from '../pages/WarehouseSetupLabels';
 // TODO: Import other pages when created
 // import WarehouseSetupView from '../pages/WarehouseSetupView';
 // import WarehouseSetupEdit from '../pages/WarehouseSetupEdit';
@@ -13,6 +14,7 @@ export const warehouseSetupReactRoutes = (basePath: string): RouteObject => {
       { index: true, Component: WarehouseSetupList },
       { path: 'add', Component: WarehouseSetupAdd },
       { path: 'management', Component: WarehouseSetupManagement },
+      { path: 'labels', Component: WarehouseSetupLabels },
       // TODO: Uncomment when pages are created
       // { path: ':id', Component: WarehouseSetupView },
       // { path: ':id/edit', Component: WarehouseSetupEdit },
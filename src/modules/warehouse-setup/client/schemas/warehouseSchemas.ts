@@ -40,8 +40,23 @@ export const binFormSchema = z.object({
   shelfId: z.string().uuid(),
 });
 
+export const labelTemplateFormSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255, 'Name is too long'),
+  targetType: z.enum(['bin', 'product']),
+  symbology: z.enum(['code128', 'qrcode']),
+  widthMm: z.number().int().min(10, 'At least 10 mm').max(300, 'At most 300 mm'),
+  heightMm: z.number().int().min(10, 'At least 10 mm').max(300, 'At most 300 mm'),
+  pageSize: z.enum(['label', 'A4', 'letter']),
+  textLines: z.string(),
+  fontSizePt: z.number().int().min(4, 'At least 4 pt').max(72, 'At most 72 pt'),
+  showBarcodeText: z.boolean(),
+  isDefault: z.boolean(),
+  isActive: z.boolean(),
+});
+
 export type WarehouseFormData = z.infer<typeof warehouseFormSchema>;
 export type ZoneFormData = z.infer<typeof zoneFormSchema>;
 export type AisleFormData = z.infer<typeof aisleFormSchema>;
 export type ShelfFormData = z.infer<typeof shelfFormSchema>;
 export type BinFormData = z.infer<typeof binFormSchema>;
+export type LabelTemplateFormData = z.infer<typeof labelTemplateFormSchema>;
@@ -0,0 +1,105 @@
+import { relations } from 'drizzle-orm';
+import { boolean, index, integer, jsonb, pgTable, text, timestamp, uniqueIndex, uuid, varchar } from 'drizzle-orm/pg-core';
+import { tenant, user } from '@server/lib/db/schema/system';
+import { generatedDocuments } from '@modules/document-numbering/server/lib/db/schemas/documentNumbering';
+
+/**
+ * Label Templates Table
+ * Symbology, size and text of the labels printed for bins or products. Text lines may use placeholders
+ * such as {{name}} or {{path}}; the tenant default for a target type is used when a batch names no template.
+ */
+export const labelTemplates = pgTable('label_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  name: varchar('name', { length: 255 }).notNull(),
+  targetType: varchar('target_type', {
+    length: 20,
+    enum: ['bin', 'product']
+  }).notNull(),
+  symbology: varchar('symbology', {
+    length: 20,
+    enum: ['code128', 'qrcode']
+  }).notNull().default('code128'),
+  widthMm: integer('width_mm').notNull(),
+  heightMm: integer('height_mm').notNull(),
+  // 'label' prints one label per page for label printers; A4 and letter tile labels on sheets
+  pageSize: varchar('page_size', {
+    length: 20,
+    enum: ['label', 'A4', 'letter']
+  }).notNull().default('label'),
+  // One line of text per line, with placeholders
+  textLines: text('text_lines').notNull(),
+  fontSizePt: integer('font_size_pt').notNull().default(10),
+  showBarcodeText: boolean('show_barcode_text').notNull().default(true),
+  isDefault: boolean('is_default').notNull().default(false),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull().$onUpdate(() => new Date()),
+},
+  (t) => [
+    uniqueIndex('label_templates_unique_idx').on(t.tenantId, t.name),
+  ]
+);
+
+/**
+ * Label Batches Table
+ * One print run of labels, kept as a generated document so it can be reprinted
+ */
+export const labelBatches = pgTable('label_batches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+  batchNumber: varchar('batch_number', { length: 100 }).notNull(),
+  templateId: uuid('template_id')
+    .references(() => labelTemplates.id, { onDelete: 'set null' }),
+  targetType: varchar('target_type', {
+    length: 20,
+    enum: ['bin', 'product']
+  }).notNull(),
+  // { level, id, name } of the warehouse subtree for bin labels, { productIds } for product labels
+  scope: jsonb('scope').notNull(),
+  labelCount: integer('label_count').notNull(),
+  documentId: uuid('document_id')
+    .references(() => generatedDocuments.id),
+  createdBy: uuid('created_by')
+    .references(() => user.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+},
+  (t) => [
+    uniqueIndex('label_batches_number_idx').on(t.tenantId, t.batchNumber),
+    index('label_batches_tenant_created_idx').on(t.tenantId, t.createdAt),
+  ]
+);
+
+// Relations
+export const labelTemplatesRelations = relations(labelTemplates, ({ one, many }) => ({
+  tenant: one(tenant, {
+    fields: [labelTemplates.tenantId],
+    references: [tenant.id],
+  }),
+  batches: many(labelBatches),
+}));
+
+export const labelBatchesRelations = relations(labelBatches, ({ one }) => ({
+  tenant: one(tenant, {
+    fields: [labelBatches.tenantId],
+    references: [tenant.id],
+  }),
+  template: one(labelTemplates, {
+    fields: [labelBatches.templateId],
+    references: [labelTemplates.id],
+  }),
+  document: one(generatedDocuments, {
+    fields: [labelBatches.documentId],
+    references: [generatedDocuments.id],
+  }),
+}));
+
+export type LabelTemplate = typeof labelTemplates.$inferSelect;
+export type NewLabelTemplate = typeof labelTemplates.$inferInsert;
+
+export type LabelBatch = typeof labelBatches.$inferSelect;
+export type NewLabelBatch = typeof labelBatches.$inferInsert;
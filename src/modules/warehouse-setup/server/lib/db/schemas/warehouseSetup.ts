@@ -101,6 +101,8 @@ export const bins = pgTable('bins', {
   category: varchar('category', { length: 100 }),
   requiredTemperature: varchar('required_temperature', { length: 50 }),
   accessibilityScore: integer('accessibility_score').default(50).notNull(),
+  // Set by a short pick so the bin gets counted; cleared when a cycle count of the bin is posted
+  countRequestedAt: timestamp('count_requested_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 },
   (t) => [
@@ -0,0 +1,213 @@
+import express from 'express';
+import { db } from '@server/lib/db';
+import { warehouses } from '../lib/db/schemas/warehouseSetup';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { eq, and } from 'drizzle-orm';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { CAPACITY_WARNING_PERCENT, getBinUtilization, getUtilization } from '../services/capacityService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('warehouse-setup'));
+
+// ==================== UTILIZATION ====================
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Utilization:
+ *       type: object
+ *       properties:
+ *         weight:
+ *           type: number
+ *           description: Weight of the stock on hand (available + reserved) in kg
+ *         volume:
+ *           type: number
+ *           description: Volume of the stock on hand in m³; products without dimensions add nothing
+ *         maxWeight:
+ *           type: number
+ *           nullable: true
+ *           description: Sum of the max weights of the bins that have one
+ *         maxVolume:
+ *           type: number
+ *           nullable: true
+ *           description: Sum of the max volumes of the bins that have one
+ *         weightPercent:
+ *           type: number
+ *           nullable: true
+ *           description: Load of the bins with a max weight against that limit; above 100 when overfilled
+ *         volumePercent:
+ *           type: number
+ *           nullable: true
+ *         skuCount:
+ *           type: integer
+ *           description: Distinct products stored
+ *         quantity:
+ *           type: integer
+ *         binCount:
+ *           type: integer
+ *         occupiedBinCount:
+ *           type: integer
+ */
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/utilization:
+ *   get:
+ *     summary: Get bin utilization rolled up through shelves, aisles, zones and warehouses
+ *     description: |
+ *       Every level is keyed by id. Weight comes from products.weight (kg) and volume from products.dimensions
+ *       ("40x30x30 cm"; mm, cm, m, in and ft are understood, cm when no unit is given), compared with
+ *       bins.maxWeight (kg) and bins.maxVolume (m³).
+ *     tags: [Bins]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only this warehouse; all warehouses of the tenant by default
+ *     responses:
+ *       200:
+ *         description: Utilization by level
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     warningPercent:
+ *                       type: number
+ *                       description: Utilization from which bins count as nearly full
+ *                     total:
+ *                       $ref: '#/components/schemas/Utilization'
+ *                     warehouses:
+ *                       type: object
+ *                       additionalProperties:
+ *                         $ref: '#/components/schemas/Utilization'
+ *                     zones:
+ *                       type: object
+ *                       additionalProperties:
+ *                         $ref: '#/components/schemas/Utilization'
+ *                     aisles:
+ *                       type: object
+ *                       additionalProperties:
+ *                         $ref: '#/components/schemas/Utilization'
+ *                     shelves:
+ *                       type: object
+ *                       additionalProperties:
+ *                         $ref: '#/components/schemas/Utilization'
+ *                     bins:
+ *                       type: object
+ *                       additionalProperties:
+ *                         $ref: '#/components/schemas/Utilization'
+ *       404:
+ *         description: Warehouse not found
+ */
+router.get('/utilization', authorized('ADMIN', 'warehouse-setup.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const warehouseId = (req.query.warehouseId as string) || undefined;
+
+    if (warehouseId) {
+      const [warehouse] = await db
+        .select({ id: warehouses.id })
+        .from(warehouses)
+        .where(and(eq(warehouses.id, warehouseId), eq(warehouses.tenantId, tenantId)));
+      if (!warehouse) {
+        return res.status(404).json({ success: false, message: 'Warehouse not found' });
+      }
+    }
+
+    const report = await getUtilization(db, tenantId, warehouseId);
+
+    res.json({ success: true, data: { warningPercent: CAPACITY_WARNING_PERCENT, ...report } });
+  } catch (error) {
+    console.error('Error fetching utilization:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/bins/{id}/utilization:
+ *   get:
+ *     summary: Get the utilization of a bin and its stock by product
+ *     tags: [Bins]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bin utilization
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     binId:
+ *                       type: string
+ *                       format: uuid
+ *                     binName:
+ *                       type: string
+ *                     utilization:
+ *                       $ref: '#/components/schemas/Utilization'
+ *                     contents:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           productId:
+ *                             type: string
+ *                             format: uuid
+ *                           sku:
+ *                             type: string
+ *                           name:
+ *                             type: string
+ *                           quantity:
+ *                             type: integer
+ *                           weight:
+ *                             type: number
+ *                           volume:
+ *                             type: number
+ *                           hasVolume:
+ *                             type: boolean
+ *                             description: False when the product dimensions could not be read
+ *       404:
+ *         description: Bin not found
+ */
+router.get('/bins/:id/utilization', authorized('ADMIN', 'warehouse-setup.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+
+    const utilization = await getBinUtilization(db, tenantId, req.params.id);
+    if (!utilization) {
+      return res.status(404).json({ success: false, message: 'Bin not found' });
+    }
+
+    res.json({ success: true, data: utilization });
+  } catch (error) {
+    console.error('Error fetching bin utilization:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
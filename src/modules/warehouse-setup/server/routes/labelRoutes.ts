@@ -0,0 +1,750 @@
+import express from 'express';
+import { db } from '@server/lib/db';
+import { labelBatches, labelTemplates } from '../lib/db/schemas/labels';
+import { user } from '@server/lib/db/schema/system';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { eq, and, asc, desc, count, ne } from 'drizzle-orm';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { logAudit, getClientIp } from '@server/services/auditService';
+import { generateDocumentNumber, linkDocumentNumber } from '@modules/document-numbering/server/services/documentNumberService';
+import {
+  BIN_SCOPE_LEVELS,
+  BinLabelData,
+  BinScopeLevel,
+  LabelData,
+  LabelTargetType,
+  LabelValidationError,
+  MAX_LABELS_PER_BATCH,
+  assignBinBarcodes,
+  getBinLabels,
+  getProductLabels,
+  parseTemplateInput,
+  renderLabelsHtml,
+  resolveLabelTemplate,
+  saveLabelDocument,
+} from '../services/labelService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('warehouse-setup'));
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LabelTemplate:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *         targetType:
+ *           type: string
+ *           enum: [bin, product]
+ *         symbology:
+ *           type: string
+ *           enum: [code128, qrcode]
+ *         widthMm:
+ *           type: integer
+ *         heightMm:
+ *           type: integer
+ *         pageSize:
+ *           type: string
+ *           enum: [label, A4, letter]
+ *           description: label prints one label per page; A4 and letter tile labels on sheets
+ *         textLines:
+ *           type: string
+ *           description: |
+ *             Newline-separated text printed with the barcode. Bin labels may use {{name}}, {{barcode}}, {{path}},
+ *             {{warehouse}}, {{zone}}, {{aisle}} and {{shelf}}; product labels {{name}}, {{sku}}, {{barcode}} and {{baseUom}}.
+ *         fontSizePt:
+ *           type: integer
+ *         showBarcodeText:
+ *           type: boolean
+ *           description: Print the encoded value under (or beside) the barcode
+ *         isDefault:
+ *           type: boolean
+ *           description: Used when a batch names no template; one default per target type
+ *         isActive:
+ *           type: boolean
+ *     LabelRequest:
+ *       type: object
+ *       required:
+ *         - targetType
+ *       properties:
+ *         targetType:
+ *           type: string
+ *           enum: [bin, product]
+ *         scope:
+ *           type: object
+ *           description: For bin labels, the part of the warehouse to label
+ *           properties:
+ *             level:
+ *               type: string
+ *               enum: [warehouse, zone, aisle, shelf, bin]
+ *             id:
+ *               type: string
+ *               format: uuid
+ *         productIds:
+ *           type: array
+ *           description: For product labels
+ *           items:
+ *             type: string
+ *             format: uuid
+ *         templateId:
+ *           type: string
+ *           format: uuid
+ *           description: Defaults to the tenant's default template for the target type, else a built-in layout
+ *         copies:
+ *           type: integer
+ *           default: 1
+ *           description: Labels printed per bin or product (1-100)
+ *         assignMissingBarcodes:
+ *           type: boolean
+ *           default: true
+ *           description: Store the barcode derived for bins without one when the batch is created
+ */
+
+interface LabelRequest {
+  targetType: LabelTargetType;
+  scope: { level: BinScopeLevel; id: string; name: string | null } | { productIds: string[] };
+  layout: Awaited<ReturnType<typeof resolveLabelTemplate>>['layout'];
+  templateId: string | null;
+  labels: LabelData[];
+  copies: number;
+}
+
+/**
+ * Validate a preview or batch request and load the labels it covers. Throws LabelValidationError.
+ */
+async function loadLabelRequest(tenantId: string, body: any): Promise<LabelRequest> {
+  const { targetType, scope, productIds, templateId } = body;
+  const copies = body.copies ?? 1;
+
+  if (targetType !== 'bin' && targetType !== 'product') {
+    throw new LabelValidationError('targetType must be bin or product');
+  }
+  if (!Number.isInteger(copies) || copies < 1 || copies > 100) {
+    throw new LabelValidationError('copies must be a whole number between 1 and 100');
+  }
+
+  const { template, layout } = await resolveLabelTemplate(tenantId, targetType, templateId);
+
+  let request: LabelRequest;
+  if (targetType === 'bin') {
+    if (!scope || !BIN_SCOPE_LEVELS.includes(scope.level) || !scope.id) {
+      throw new LabelValidationError(`scope must name a ${BIN_SCOPE_LEVELS.join(', ')} by level and id`);
+    }
+    const { scopeName, labels } = await getBinLabels(tenantId, scope);
+    if (labels.length === 0) {
+      throw new LabelValidationError(`No bins found in the selected ${scope.level}`);
+    }
+    request = {
+      targetType,
+      scope: { level: scope.level, id: scope.id, name: scopeName },
+      layout,
+      templateId: template?.id ?? null,
+      labels,
+      copies,
+    };
+  } else {
+    if (!Array.isArray(productIds) || productIds.length === 0) {
+      throw new LabelValidationError('At least one product is required');
+    }
+    const labels = await getProductLabels(tenantId, productIds);
+    if (labels.length === 0) {
+      throw new LabelValidationError('No products found');
+    }
+    request = { targetType, scope: { productIds }, layout, templateId: template?.id ?? null, labels, copies };
+  }
+
+  if (request.labels.length * copies > MAX_LABELS_PER_BATCH) {
+    throw new LabelValidationError(`A batch may hold at most ${MAX_LABELS_PER_BATCH} labels`);
+  }
+
+  return request;
+}
+
+// ==================== LABEL TEMPLATES ====================
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/label-templates:
+ *   get:
+ *     summary: Get label templates
+ *     tags: [Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: targetType
+ *         schema:
+ *           type: string
+ *           enum: [bin, product]
+ *     responses:
+ *       200:
+ *         description: Templates, defaults first
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/label-templates', authorized('ADMIN', 'warehouse-setup.labels'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const targetType = req.query.targetType as string;
+
+    const data = await db
+      .select()
+      .from(labelTemplates)
+      .where(targetType === 'bin' || targetType === 'product'
+        ? and(eq(labelTemplates.tenantId, tenantId), eq(labelTemplates.targetType, targetType))
+        : eq(labelTemplates.tenantId, tenantId))
+      .orderBy(asc(labelTemplates.targetType), desc(labelTemplates.isDefault), asc(labelTemplates.name));
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error fetching label templates:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/label-templates:
+ *   post:
+ *     summary: Create a label template
+ *     tags: [Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LabelTemplate'
+ *     responses:
+ *       201:
+ *         description: Template created
+ *       400:
+ *         description: Invalid template
+ *       409:
+ *         description: A template with this name exists
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/label-templates', authorized('ADMIN', 'warehouse-setup.labels'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const values = parseTemplateInput(req.body);
+
+    const [existing] = await db
+      .select({ id: labelTemplates.id })
+      .from(labelTemplates)
+      .where(and(eq(labelTemplates.tenantId, tenantId), eq(labelTemplates.name, values.name)));
+
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: 'A label template with this name already exists',
+      });
+    }
+
+    const template = await db.transaction(async (tx) => {
+      if (values.isDefault) {
+        await tx
+          .update(labelTemplates)
+          .set({ isDefault: false })
+          .where(and(eq(labelTemplates.tenantId, tenantId), eq(labelTemplates.targetType, values.targetType)));
+      }
+
+      const [created] = await tx
+        .insert(labelTemplates)
+        .values({ ...values, tenantId })
+        .returning();
+      return created;
+    });
+
+    await logAudit({
+      tenantId,
+      userId: req.user!.id,
+      module: 'warehouse-setup',
+      action: 'create',
+      resourceType: 'label_template',
+      resourceId: template.id,
+      description: `Created ${template.targetType} label template ${template.name}`,
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: template,
+      message: 'Label template created successfully',
+    });
+  } catch (error) {
+    if (error instanceof LabelValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error creating label template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/label-templates/{id}:
+ *   put:
+ *     summary: Update a label template
+ *     tags: [Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LabelTemplate'
+ *     responses:
+ *       200:
+ *         description: Template updated
+ *       400:
+ *         description: Invalid template
+ *       404:
+ *         description: Template not found
+ *       409:
+ *         description: A template with this name exists
+ *       401:
+ *         description: Unauthorized
+ */
+router.put('/label-templates/:id', authorized('ADMIN', 'warehouse-setup.labels'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+    const values = parseTemplateInput(req.body);
+
+    const [current] = await db
+      .select()
+      .from(labelTemplates)
+      .where(and(eq(labelTemplates.id, id), eq(labelTemplates.tenantId, tenantId)));
+
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        message: 'Label template not found',
+      });
+    }
+
+    const [duplicate] = await db
+      .select({ id: labelTemplates.id })
+      .from(labelTemplates)
+      .where(and(
+        eq(labelTemplates.tenantId, tenantId),
+        eq(labelTemplates.name, values.name),
+        ne(labelTemplates.id, id)
+      ));
+
+    if (duplicate) {
+      return res.status(409).json({
+        success: false,
+        message: 'A label template with this name already exists',
+      });
+    }
+
+    const template = await db.transaction(async (tx) => {
+      if (values.isDefault) {
+        await tx
+          .update(labelTemplates)
+          .set({ isDefault: false })
+          .where(and(
+            eq(labelTemplates.tenantId, tenantId),
+            eq(labelTemplates.targetType, values.targetType),
+            ne(labelTemplates.id, id)
+          ));
+      }
+
+      const [updated] = await tx
+        .update(labelTemplates)
+        .set(values)
+        .where(and(eq(labelTemplates.id, id), eq(labelTemplates.tenantId, tenantId)))
+        .returning();
+      return updated;
+    });
+
+    await logAudit({
+      tenantId,
+      userId: req.user!.id,
+      module: 'warehouse-setup',
+      action: 'update',
+      resourceType: 'label_template',
+      resourceId: template.id,
+      description: `Updated label template ${template.name}`,
+      previousState: JSON.stringify(current),
+      newState: JSON.stringify(template),
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      data: template,
+      message: 'Label template updated successfully',
+    });
+  } catch (error) {
+    if (error instanceof LabelValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error updating label template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/label-templates/{id}:
+ *   delete:
+ *     summary: Delete a label template
+ *     description: Batches printed with the template keep their documents
+ *     tags: [Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Template deleted
+ *       404:
+ *         description: Template not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete('/label-templates/:id', authorized('ADMIN', 'warehouse-setup.labels'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+
+    const [deleted] = await db
+      .delete(labelTemplates)
+      .where(and(eq(labelTemplates.id, id), eq(labelTemplates.tenantId, tenantId)))
+      .returning();
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        message: 'Label template not found',
+      });
+    }
+
+    await logAudit({
+      tenantId,
+      userId: req.user!.id,
+      module: 'warehouse-setup',
+      action: 'delete',
+      resourceType: 'label_template',
+      resourceId: deleted.id,
+      description: `Deleted label template ${deleted.name}`,
+      previousState: JSON.stringify(deleted),
+      ipAddress: getClientIp(req),
+    });
+
+    res.json({
+      success: true,
+      message: 'Label template deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting label template:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// ==================== LABEL BATCHES ====================
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/labels/preview:
+ *   post:
+ *     summary: Render labels without saving them
+ *     description: Bins without a barcode are shown with the barcode a batch would assign them
+ *     tags: [Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LabelRequest'
+ *     responses:
+ *       200:
+ *         description: Label HTML and count
+ *       400:
+ *         description: Invalid request, nothing to label, or a value the symbology cannot encode
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/labels/preview', authorized('ADMIN', 'warehouse-setup.labels'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const request = await loadLabelRequest(tenantId, req.body);
+    const html = renderLabelsHtml(request.layout, request.labels, 'Label preview', request.copies);
+
+    res.json({
+      success: true,
+      data: {
+        html,
+        labelCount: request.labels.length * request.copies,
+        missingBarcodeCount: request.targetType === 'bin'
+          ? (request.labels as BinLabelData[]).filter((label) => label.barcodeAssigned).length
+          : 0,
+      },
+    });
+  } catch (error) {
+    if (error instanceof LabelValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error previewing labels:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/labels/batches:
+ *   post:
+ *     summary: Create a label batch
+ *     description: |
+ *       Renders the labels into an HTML document numbered with the LBL document type and stored as a generated
+ *       document (document type label_batch), viewable and printable through
+ *       /api/modules/document-numbering/documents/{documentId}/view. Print to PDF from the browser.
+ *     tags: [Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LabelRequest'
+ *     responses:
+ *       201:
+ *         description: Batch created, with its document id and the number of bins given a barcode
+ *       400:
+ *         description: Invalid request, nothing to label, or a value the symbology cannot encode
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Failed to generate the batch number
+ */
+router.post('/labels/batches', authorized('ADMIN', 'warehouse-setup.labels'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const userId = req.user!.id;
+    const assignMissingBarcodes = req.body.assignMissingBarcodes ?? true;
+
+    const request = await loadLabelRequest(tenantId, req.body);
+    const labelCount = request.labels.length * request.copies;
+
+    let batchNumber: string;
+    let documentHistoryId: string;
+
+    try {
+      const generated = await generateDocumentNumber(tenantId, req.headers.authorization, 'LBL', 'label_batches');
+      batchNumber = generated.documentNumber;
+      documentHistoryId = generated.historyId;
+    } catch (error: any) {
+      console.error('Error generating label batch number:', error.response?.data || error.message);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to generate label batch number',
+      });
+    }
+
+    const html = renderLabelsHtml(request.layout, request.labels, batchNumber, request.copies);
+
+    const { batch, assignedBarcodes } = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(labelBatches)
+        .values({
+          tenantId,
+          batchNumber,
+          templateId: request.templateId,
+          targetType: request.targetType,
+          scope: request.scope,
+          labelCount,
+          createdBy: userId,
+        })
+        .returning();
+
+      const assigned = request.targetType === 'bin' && assignMissingBarcodes
+        ? await assignBinBarcodes(tx, tenantId, request.labels as BinLabelData[])
+        : 0;
+
+      const documentId = await saveLabelDocument(tx, { tenantId, batchId: created.id, batchNumber, html, userId });
+
+      const [withDocument] = await tx
+        .update(labelBatches)
+        .set({ documentId })
+        .where(eq(labelBatches.id, created.id))
+        .returning();
+
+      await linkDocumentNumber(req.headers.authorization, documentHistoryId, created.id);
+
+      return { batch: withDocument, assignedBarcodes: assigned };
+    });
+
+    await logAudit({
+      tenantId,
+      userId,
+      module: 'warehouse-setup',
+      action: 'create',
+      resourceType: 'label_batch',
+      resourceId: batch.id,
+      description: `Printed label batch ${batchNumber}: ${labelCount} ${request.targetType} label(s)`,
+      changedFields: {
+        labelCount,
+        scope: request.scope,
+        assignedBarcodes,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { ...batch, assignedBarcodes },
+      message: `Label batch ${batchNumber} created`,
+    });
+  } catch (error) {
+    if (error instanceof LabelValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error creating label batch:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/labels/batches:
+ *   get:
+ *     summary: Get label batches
+ *     tags: [Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Label batches, newest first, with their document ids for reprinting
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/labels/batches', authorized('ADMIN', 'warehouse-setup.labels'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const offset = (page - 1) * limit;
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(labelBatches)
+      .where(eq(labelBatches.tenantId, tenantId));
+
+    const data = await db
+      .select({
+        id: labelBatches.id,
+        batchNumber: labelBatches.batchNumber,
+        targetType: labelBatches.targetType,
+        scope: labelBatches.scope,
+        labelCount: labelBatches.labelCount,
+        templateId: labelBatches.templateId,
+        templateName: labelTemplates.name,
+        documentId: labelBatches.documentId,
+        createdBy: labelBatches.createdBy,
+        createdByName: user.fullname,
+        createdAt: labelBatches.createdAt,
+      })
+      .from(labelBatches)
+      .leftJoin(labelTemplates, eq(labelBatches.templateId, labelTemplates.id))
+      .leftJoin(user, eq(labelBatches.createdBy, user.id))
+      .where(eq(labelBatches.tenantId, tenantId))
+      .orderBy(desc(labelBatches.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const totalPages = Math.ceil(totalResult.count / limit);
+
+    res.json({
+      success: true,
+      data,
+      pagination: {
+        page,
+        limit,
+        total: totalResult.count,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching label batches:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,385 @@
+import express from 'express';
+import fileUpload from 'express-fileupload';
+import { db } from '@server/lib/db';
+import { warehouses } from '../lib/db/schemas/warehouseSetup';
+import { authenticated, authorized } from '@server/middleware/authMiddleware';
+import { eq, and } from 'drizzle-orm';
+import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
+import { logAuditChanges, getClientIp } from '@server/services/auditService';
+import {
+  LayoutValidationError,
+  WarehouseLayout,
+  exportLayout,
+  layoutToCsv,
+  parseLayout,
+  parseLayoutCsv,
+  planLayoutImport,
+} from '../services/layoutService';
+
+const router = express.Router();
+router.use(authenticated());
+router.use(checkModuleAuthorization('warehouse-setup'));
+
+/**
+ * Read the layout from an uploaded .json or .csv file, or from a JSON body
+ */
+async function readLayout(req: express.Request): Promise<WarehouseLayout> {
+  const file = req.files?.file as fileUpload.UploadedFile | undefined;
+  if (!file) {
+    return parseLayout(req.body);
+  }
+  if (Array.isArray(file)) {
+    throw new LayoutValidationError('Upload a single layout file');
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') {
+    return parseLayoutCsv(file.data);
+  }
+  if (extension === 'json') {
+    let document: unknown;
+    try {
+      document = JSON.parse(file.data.toString('utf8'));
+    } catch {
+      throw new LayoutValidationError('The file is not valid JSON');
+    }
+    return parseLayout(document);
+  }
+  throw new LayoutValidationError('Only .json and .csv layout files can be imported');
+}
+
+async function importLayout(req: express.Request, res: express.Response, warehouseId?: string) {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const dryRun = req.query.dryRun === 'true';
+
+    if (warehouseId) {
+      const [warehouse] = await db
+        .select({ id: warehouses.id })
+        .from(warehouses)
+        .where(and(eq(warehouses.id, warehouseId), eq(warehouses.tenantId, tenantId)));
+      if (!warehouse) {
+        return res.status(404).json({ success: false, message: 'Warehouse not found' });
+      }
+    }
+
+    const layout = await readLayout(req);
+
+    const plan = await planLayoutImport(tenantId, layout, {
+      warehouseId,
+      warehouseName: (req.query.name as string) || undefined,
+    });
+
+    if (dryRun) {
+      return res.json({
+        success: true,
+        data: plan.diff,
+        message: `${plan.diff.summary.create} to create, ${plan.diff.summary.update} to update`,
+      });
+    }
+
+    const { warehouseId: importedId, changes } = await db.transaction((tx) => plan.apply(tx));
+
+    await logAuditChanges({
+      tenantId,
+      userId: req.user!.id,
+      module: 'warehouse-setup',
+      description: `Imported layout into warehouse ${plan.diff.warehouseName}`,
+      ipAddress: getClientIp(req),
+    }, changes);
+
+    res.status(plan.diff.warehouseId ? 200 : 201).json({
+      success: true,
+      data: { ...plan.diff, warehouseId: importedId },
+      message: 'Layout imported successfully',
+    });
+  } catch (error) {
+    if (error instanceof LayoutValidationError) {
+      return res.status(400).json({ success: false, message: error.message, data: { errors: error.errors } });
+    }
+    console.error('Error importing warehouse layout:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
+
+// ==================== LAYOUT IMPORT / EXPORT ====================
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WarehouseLayout:
+ *       type: object
+ *       description: A warehouse, its configuration and its zone/aisle/shelf/bin tree, nested by name
+ *       properties:
+ *         version:
+ *           type: integer
+ *           enum: [1]
+ *         warehouse:
+ *           type: object
+ *           properties:
+ *             name:
+ *               type: string
+ *             address:
+ *               type: string
+ *               nullable: true
+ *             isActive:
+ *               type: boolean
+ *         config:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             pickingStrategy:
+ *               type: string
+ *               enum: [FIFO, FEFO, LIFO]
+ *             autoAssignBins:
+ *               type: boolean
+ *             requireBatchTracking:
+ *               type: boolean
+ *             requireExpiryTracking:
+ *               type: boolean
+ *         zones:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               aisles:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   description: |
+ *                     Aisles have name, description and shelves; shelves have name, description and bins; bins have
+ *                     name, barcode, maxWeight, maxVolume, fixedSku, category, requiredTemperature and accessibilityScore
+ *     WarehouseLayoutDiff:
+ *       type: object
+ *       properties:
+ *         warehouseId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Null on a dry run that would create the warehouse
+ *         warehouseName:
+ *           type: string
+ *         changes:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               level:
+ *                 type: string
+ *                 enum: [warehouse, config, zone, aisle, shelf, bin]
+ *               path:
+ *                 type: string
+ *               action:
+ *                 type: string
+ *                 enum: [create, update]
+ *               changes:
+ *                 type: object
+ *                 description: Changed fields with their current (from) and imported (to) values
+ *         summary:
+ *           type: object
+ *           properties:
+ *             create:
+ *               type: integer
+ *             update:
+ *               type: integer
+ *             unchanged:
+ *               type: integer
+ *         warnings:
+ *           type: array
+ *           items:
+ *             type: string
+ */
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/warehouses/{id}/layout:
+ *   get:
+ *     summary: Export a warehouse layout
+ *     description: The warehouse, its configuration and all zones, aisles, shelves and bins as nested JSON or flat CSV
+ *     tags: [Warehouses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Layout file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WarehouseLayout'
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Warehouse not found
+ */
+router.get('/warehouses/:id/layout', authorized('ADMIN', 'warehouse-setup.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { id } = req.params;
+    const format = (req.query.format as string) || 'json';
+
+    if (format !== 'json' && format !== 'csv') {
+      return res.status(400).json({ success: false, message: 'Format must be json or csv' });
+    }
+
+    const layout = await exportLayout(tenantId, id);
+    if (!layout) {
+      return res.status(404).json({ success: false, message: 'Warehouse not found' });
+    }
+
+    const filename = `${(layout.warehouse.name || 'warehouse').replace(/[^\w.-]+/g, '_')}-layout.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      return res.send(await layoutToCsv(layout));
+    }
+    res.json(layout);
+  } catch (error) {
+    console.error('Error exporting warehouse layout:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/warehouses/layout/import:
+ *   post:
+ *     summary: Import a layout as a warehouse
+ *     description: |
+ *       Merges the layout into the warehouse with the given name (the name in the layout by default), creating the
+ *       warehouse when there is none. Zones, aisles, shelves and bins are matched by name under their parent and
+ *       created or updated; nothing is deleted. With dryRun=true only the diff is returned.
+ *     tags: [Warehouses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Warehouse to import into, e.g. a new site; overrides the name in the layout
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WarehouseLayout'
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: .json or .csv layout file
+ *     responses:
+ *       200:
+ *         description: Diff (dry run) or the layout was merged into an existing warehouse
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/WarehouseLayoutDiff'
+ *       201:
+ *         description: Warehouse created from the layout
+ *       400:
+ *         description: Invalid layout; data.errors lists the problems
+ */
+router.post(
+  '/warehouses/layout/import',
+  authorized('ADMIN', ['warehouse-setup.create', 'warehouse-setup.edit'], 'and'),
+  (req, res) => importLayout(req, res)
+);
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/warehouses/{id}/layout/import:
+ *   post:
+ *     summary: Merge a layout into a warehouse
+ *     description: |
+ *       Merges the configuration and zone/aisle/shelf/bin tree of the layout into the warehouse, matching by name;
+ *       the warehouse's own name, address and status are kept. Nothing is deleted. Bin barcodes that another bin
+ *       already has are left out and reported as warnings. With dryRun=true only the diff is returned.
+ *     tags: [Warehouses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/WarehouseLayout'
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: .json or .csv layout file
+ *     responses:
+ *       200:
+ *         description: Diff (dry run) or the merge result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/WarehouseLayoutDiff'
+ *       400:
+ *         description: Invalid layout; data.errors lists the problems
+ *       404:
+ *         description: Warehouse not found
+ */
+router.post(
+  '/warehouses/:id/layout/import',
+  authorized('ADMIN', ['warehouse-setup.create', 'warehouse-setup.edit'], 'and'),
+  (req, res) => importLayout(req, res, req.params.id)
+);
+
+export default router;
@@ -5,6 +5,8 @@ import { authenticated, authorized } from '@server/middleware/authMiddleware';
 import { eq, and, desc, count, ilike } from 'drizzle-orm';
 import { checkModuleAuthorization } from '@server/middleware/moduleAuthMiddleware';
 import { v4 as uuidv4 } from 'uuid';
+import { BinGeneratorError, createPlannedBins, planBins } from '../services/binGeneratorService';
+import { logAuditChanges, getClientIp } from '@server/services/auditService';
 
 const router = express.Router();
 router.use(authenticated());
@@ -1126,6 +1128,148 @@ router.post('/bins', authorized('ADMIN', 'warehouse-setup.create'), async (req,
   }
 });
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     BulkBinRequest:
+ *       type: object
+ *       required:
+ *         - shelfIds
+ *         - pattern
+ *         - count
+ *       properties:
+ *         shelfIds:
+ *           type: array
+ *           description: Shelves to add bins to, across any aisles
+ *           items:
+ *             type: string
+ *             format: uuid
+ *         pattern:
+ *           type: string
+ *           description: |
+ *             Bin name pattern using {warehouse}, {zone}, {aisle}, {shelf} and {bin} (the bin number). A width such as
+ *             {aisle:02} or {bin:03} left-pads numeric values with zeros.
+ *           example: '{zone}-{aisle:02}-{shelf}-{bin:03}'
+ *         count:
+ *           type: integer
+ *           description: Bins per shelf (1-1000)
+ *         startIndex:
+ *           type: integer
+ *           default: 1
+ *           description: Number of the first bin on each shelf
+ *         defaults:
+ *           type: object
+ *           description: Attributes given to every generated bin
+ *           properties:
+ *             maxWeight:
+ *               type: number
+ *             maxVolume:
+ *               type: number
+ *             category:
+ *               type: string
+ *             requiredTemperature:
+ *               type: string
+ *             accessibilityScore:
+ *               type: integer
+ *               default: 50
+ */
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/bins/bulk/preview:
+ *   post:
+ *     summary: Preview bulk bin generation
+ *     tags: [Bins]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BulkBinRequest'
+ *     responses:
+ *       200:
+ *         description: The bins that would be created and the names that collide with existing or repeated names
+ *       400:
+ *         description: Invalid request
+ */
+router.post('/bins/bulk/preview', authorized('ADMIN', 'warehouse-setup.create'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const plan = await planBins(tenantId, req.body);
+
+    res.json({
+      success: true,
+      data: { total: plan.bins.length, bins: plan.bins, collisions: plan.collisions },
+    });
+  } catch (error) {
+    if (error instanceof BinGeneratorError) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error previewing bins:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/modules/warehouse-setup/bins/bulk:
+ *   post:
+ *     summary: Generate bins in bulk
+ *     description: Creates every bin in one transaction; nothing is created when any name collides.
+ *     tags: [Bins]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BulkBinRequest'
+ *     responses:
+ *       201:
+ *         description: Bins created
+ *       400:
+ *         description: Invalid request
+ *       409:
+ *         description: Name collisions, returned in data.collisions
+ */
+router.post('/bins/bulk', authorized('ADMIN', 'warehouse-setup.create'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const plan = await planBins(tenantId, req.body);
+
+    if (plan.collisions.length > 0) {
+      return res.status(409).json({
+        success: false,
+        data: { collisions: plan.collisions },
+        message: `${plan.collisions.length} bin name(s) collide with existing or repeated names`,
+      });
+    }
+
+    const createdBins = await db.transaction((tx) => createPlannedBins(tx, tenantId, plan.bins, plan.defaults));
+
+    await logAuditChanges({
+      tenantId,
+      userId: req.user!.id,
+      module: 'warehouse-setup',
+      description: 'Generated bins',
+      ipAddress: getClientIp(req),
+    }, createdBins.map((bin) => ({ resourceType: 'bin', resourceId: bin.id, before: null, after: bin })));
+
+    const created = createdBins.length;
+    res.status(201).json({ success: true, data: { created }, message: `${created} bin(s) created successfully` });
+  } catch (error) {
+    if (error instanceof BinGeneratorError) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error generating bins:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
 /**
  * @swagger
  * /api/modules/warehouse-setup/bins/{id}:
@@ -0,0 +1,200 @@
+import { db } from '@server/lib/db';
+import { aisles, bins, shelves, warehouses, zones } from '../lib/db/schemas/warehouseSetup';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+type Executor = Pick<typeof db, 'insert'>;
+
+export class BinGeneratorError extends Error {}
+
+// Bins per shelf and bins per request
+const MAX_BINS_PER_SHELF = 1000;
+const MAX_BINS_PER_REQUEST = 10000;
+
+const INSERT_CHUNK_SIZE = 500;
+
+const PATTERN_TOKEN = /\{(\w+)(?::(\d+))?\}/g;
+const PATTERN_FIELDS = ['warehouse', 'zone', 'aisle', 'shelf', 'bin'];
+
+export interface BinDefaults {
+  maxWeight: string | null;
+  maxVolume: string | null;
+  category: string | null;
+  requiredTemperature: string | null;
+  accessibilityScore: number;
+}
+
+export interface PlannedBin {
+  shelfId: string;
+  // "Warehouse / Zone / Aisle / Shelf"
+  shelfPath: string;
+  name: string;
+}
+
+export interface BinCollision extends PlannedBin {
+  // existing: the shelf already has a bin with this name; duplicate: the pattern gives the name twice on the shelf
+  reason: 'existing' | 'duplicate';
+}
+
+export interface BinPlan {
+  bins: PlannedBin[];
+  collisions: BinCollision[];
+  defaults: BinDefaults;
+}
+
+/**
+ * Fill a naming pattern. {warehouse}, {zone}, {aisle} and {shelf} are the location names and {bin} the bin number;
+ * a width ({aisle:02}) left-pads numeric values with zeros and leaves other names as they are.
+ */
+export function formatBinName(pattern: string, values: Record<string, string | number>): string {
+  return pattern.replace(PATTERN_TOKEN, (_, field: string, width?: string) => {
+    const value = String(values[field]);
+    return width && /^\d+$/.test(value) ? value.padStart(parseInt(width), '0') : value;
+  });
+}
+
+function parseDecimal(value: unknown, field: string): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new BinGeneratorError(`${field} must be a non-negative number`);
+  }
+  return parsed.toString();
+}
+
+function parseDefaults(defaults: any = {}): BinDefaults {
+  const accessibilityScore = defaults.accessibilityScore ?? 50;
+  if (!Number.isInteger(accessibilityScore) || accessibilityScore < 0 || accessibilityScore > 100) {
+    throw new BinGeneratorError('accessibilityScore must be a whole number between 0 and 100');
+  }
+
+  return {
+    maxWeight: parseDecimal(defaults.maxWeight, 'maxWeight'),
+    maxVolume: parseDecimal(defaults.maxVolume, 'maxVolume'),
+    category: defaults.category || null,
+    requiredTemperature: defaults.requiredTemperature || null,
+    accessibilityScore,
+  };
+}
+
+/**
+ * Work out the bins a bulk request would create: `count` bins on each shelf, numbered from `startIndex`, named
+ * by `pattern`. Names the shelf already has, or that the pattern repeats on a shelf, are returned as collisions.
+ * Throws BinGeneratorError for an invalid request.
+ */
+export async function planBins(tenantId: string, body: any): Promise<BinPlan> {
+  const { shelfIds, pattern } = body;
+  const count = body.count;
+  const startIndex = body.startIndex ?? 1;
+
+  if (!Array.isArray(shelfIds) || shelfIds.length === 0) {
+    throw new BinGeneratorError('At least one shelf is required');
+  }
+  if (!pattern || typeof pattern !== 'string' || !pattern.trim()) {
+    throw new BinGeneratorError('Naming pattern is required');
+  }
+  const unknownTokens = [...pattern.matchAll(PATTERN_TOKEN)]
+    .map((match) => match[1])
+    .filter((field) => !PATTERN_FIELDS.includes(field));
+  if (unknownTokens.length > 0) {
+    throw new BinGeneratorError(`Unknown pattern token(s): ${[...new Set(unknownTokens)].join(', ')}`);
+  }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_BINS_PER_SHELF) {
+    throw new BinGeneratorError(`count must be a whole number between 1 and ${MAX_BINS_PER_SHELF}`);
+  }
+  if (!Number.isInteger(startIndex) || startIndex < 0) {
+    throw new BinGeneratorError('startIndex must be a non-negative whole number');
+  }
+
+  const uniqueShelfIds = [...new Set<string>(shelfIds)];
+  if (uniqueShelfIds.length * count > MAX_BINS_PER_REQUEST) {
+    throw new BinGeneratorError(`At most ${MAX_BINS_PER_REQUEST} bins can be generated at once`);
+  }
+
+  const defaults = parseDefaults(body.defaults);
+
+  const shelfRows = await db
+    .select({
+      id: shelves.id,
+      name: shelves.name,
+      aisleName: aisles.name,
+      zoneName: zones.name,
+      warehouseName: warehouses.name,
+    })
+    .from(shelves)
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .innerJoin(warehouses, eq(zones.warehouseId, warehouses.id))
+    .where(and(eq(shelves.tenantId, tenantId), inArray(shelves.id, uniqueShelfIds)))
+    .orderBy(asc(warehouses.name), asc(zones.name), asc(aisles.name), asc(shelves.name));
+
+  if (shelfRows.length !== uniqueShelfIds.length) {
+    throw new BinGeneratorError(`${uniqueShelfIds.length - shelfRows.length} shelf(s) not found`);
+  }
+
+  const existingRows = await db
+    .select({ shelfId: bins.shelfId, name: bins.name })
+    .from(bins)
+    .where(and(eq(bins.tenantId, tenantId), inArray(bins.shelfId, uniqueShelfIds)));
+  const existing = new Set(existingRows.map((row) => `${row.shelfId}\u0000${row.name}`));
+
+  const planned: PlannedBin[] = [];
+  const collisions: BinCollision[] = [];
+
+  for (const shelf of shelfRows) {
+    const shelfPath = [shelf.warehouseName, shelf.zoneName, shelf.aisleName, shelf.name].join(' / ');
+    const seen = new Set<string>();
+
+    for (let index = startIndex; index < startIndex + count; index++) {
+      const name = formatBinName(pattern, {
+        warehouse: shelf.warehouseName,
+        zone: shelf.zoneName,
+        aisle: shelf.aisleName,
+        shelf: shelf.name,
+        bin: index,
+      }).trim();
+
+      if (!name || name.length > 255) {
+        throw new BinGeneratorError(`The pattern gives an empty or over-long name on shelf ${shelfPath}`);
+      }
+
+      const bin = { shelfId: shelf.id, shelfPath, name };
+      if (seen.has(name)) {
+        collisions.push({ ...bin, reason: 'duplicate' });
+      } else if (existing.has(`${shelf.id}\u0000${name}`)) {
+        collisions.push({ ...bin, reason: 'existing' });
+      }
+      seen.add(name);
+      planned.push(bin);
+    }
+  }
+
+  return { bins: planned, collisions, defaults };
+}
+
+/**
+ * Insert planned bins with the same attributes and return the created rows. Run inside a transaction so the
+ * batch is all or nothing.
+ */
+export async function createPlannedBins(
+  executor: Executor,
+  tenantId: string,
+  planned: PlannedBin[],
+  defaults: BinDefaults
+): Promise<(typeof bins.$inferSelect)[]> {
+  const created: (typeof bins.$inferSelect)[] = [];
+  for (let offset = 0; offset < planned.length; offset += INSERT_CHUNK_SIZE) {
+    const rows = await executor.insert(bins).values(
+      planned.slice(offset, offset + INSERT_CHUNK_SIZE).map((bin) => ({
+        id: uuidv4(),
+        shelfId: bin.shelfId,
+        tenantId,
+        name: bin.name,
+        ...defaults,
+      }))
+    ).returning();
+    created.push(...rows);
+  }
+
+  return created;
+}
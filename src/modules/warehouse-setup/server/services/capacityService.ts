@@ -0,0 +1,334 @@
+import { db } from '@server/lib/db';
+import { aisles, bins, shelves, zones } from '../lib/db/schemas/warehouseSetup';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { and, asc, eq, sql } from 'drizzle-orm';
+
+type Executor = Pick<typeof db, 'select'>;
+
+// Bins filled to at least this share of their max weight or volume are reported as nearly full
+export const CAPACITY_WARNING_PERCENT = 90;
+
+// Metres per unit of product dimensions; bins.maxVolume is in m³ and dimensions without a unit are in cm
+const METRES_PER_UNIT: Record<string, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  in: 0.0254,
+  ft: 0.3048,
+};
+
+export interface Utilization {
+  // Stock on hand (available + reserved) in kg and m³
+  weight: number;
+  volume: number;
+  // Sum of the limits of the bins that have one; null when none has
+  maxWeight: number | null;
+  maxVolume: number | null;
+  // Load of the limited bins against their limits; above 100 when a bin is overfilled
+  weightPercent: number | null;
+  volumePercent: number | null;
+  skuCount: number;
+  quantity: number;
+  binCount: number;
+  occupiedBinCount: number;
+}
+
+export interface UtilizationReport {
+  // All bins in the report
+  total: Utilization;
+  warehouses: Record<string, Utilization>;
+  zones: Record<string, Utilization>;
+  aisles: Record<string, Utilization>;
+  shelves: Record<string, Utilization>;
+  bins: Record<string, Utilization>;
+}
+
+export interface BinContent {
+  productId: string;
+  sku: string;
+  name: string;
+  quantity: number;
+  weight: number;
+  volume: number;
+  // False when the product has no parseable dimensions and so adds nothing to the volume
+  hasVolume: boolean;
+}
+
+export interface BinUtilization {
+  binId: string;
+  binName: string;
+  utilization: Utilization;
+  contents: BinContent[];
+}
+
+interface Accumulator {
+  weight: number;
+  volume: number;
+  limitedWeight: number;
+  limitedVolume: number;
+  maxWeight: number | null;
+  maxVolume: number | null;
+  productIds: Set<string>;
+  quantity: number;
+  binCount: number;
+  occupiedBinCount: number;
+}
+
+interface StockRow {
+  binId: string;
+  productId: string;
+  quantity: number;
+  weight: string | null;
+  dimensions: string | null;
+}
+
+/**
+ * Unit volume in m³ from product dimensions such as "40x30x30 cm", "400 x 300 x 300 mm" or "10x12x8in"
+ */
+export function parseVolume(dimensions: string | null): number | null {
+  if (!dimensions) return null;
+
+  const values = dimensions.match(/\d+(?:\.\d+)?/g);
+  if (!values || values.length < 3) return null;
+
+  const unit = dimensions.match(/(mm|cm|m|in|ft)(?:ch|ches)?\.?\s*$/i)?.[1].toLowerCase() || 'cm';
+  const metres = METRES_PER_UNIT[unit];
+
+  return values.slice(0, 3).reduce((volume, value) => volume * parseFloat(value) * metres, 1);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function emptyAccumulator(): Accumulator {
+  return {
+    weight: 0,
+    volume: 0,
+    limitedWeight: 0,
+    limitedVolume: 0,
+    maxWeight: null,
+    maxVolume: null,
+    productIds: new Set<string>(),
+    quantity: 0,
+    binCount: 0,
+    occupiedBinCount: 0,
+  };
+}
+
+function addInto(target: Accumulator, source: Accumulator) {
+  target.weight += source.weight;
+  target.volume += source.volume;
+  target.limitedWeight += source.limitedWeight;
+  target.limitedVolume += source.limitedVolume;
+  if (source.maxWeight !== null) target.maxWeight = (target.maxWeight || 0) + source.maxWeight;
+  if (source.maxVolume !== null) target.maxVolume = (target.maxVolume || 0) + source.maxVolume;
+  source.productIds.forEach((productId) => target.productIds.add(productId));
+  target.quantity += source.quantity;
+  target.binCount += source.binCount;
+  target.occupiedBinCount += source.occupiedBinCount;
+}
+
+function toUtilization(accumulator: Accumulator): Utilization {
+  const percent = (load: number, limit: number | null) => (limit ? round((load / limit) * 100, 1) : null);
+
+  return {
+    weight: round(accumulator.weight, 3),
+    volume: round(accumulator.volume, 6),
+    maxWeight: accumulator.maxWeight !== null ? round(accumulator.maxWeight, 3) : null,
+    maxVolume: accumulator.maxVolume !== null ? round(accumulator.maxVolume, 3) : null,
+    weightPercent: percent(accumulator.limitedWeight, accumulator.maxWeight),
+    volumePercent: percent(accumulator.limitedVolume, accumulator.maxVolume),
+    skuCount: accumulator.productIds.size,
+    quantity: accumulator.quantity,
+    binCount: accumulator.binCount,
+    occupiedBinCount: accumulator.occupiedBinCount,
+  };
+}
+
+/**
+ * Accumulate stock rows into the bin they are in
+ */
+function loadBin(
+  bin: { maxWeight: string | null; maxVolume: string | null },
+  rows: StockRow[]
+): Accumulator {
+  const accumulator = emptyAccumulator();
+  accumulator.binCount = 1;
+
+  for (const row of rows) {
+    if (row.quantity <= 0) continue;
+    accumulator.weight += row.quantity * parseFloat(row.weight || '0');
+    accumulator.volume += row.quantity * (parseVolume(row.dimensions) || 0);
+    accumulator.productIds.add(row.productId);
+    accumulator.quantity += row.quantity;
+  }
+  accumulator.occupiedBinCount = accumulator.quantity > 0 ? 1 : 0;
+
+  if (bin.maxWeight) {
+    accumulator.maxWeight = parseFloat(bin.maxWeight);
+    accumulator.limitedWeight = accumulator.weight;
+  }
+  if (bin.maxVolume) {
+    accumulator.maxVolume = parseFloat(bin.maxVolume);
+    accumulator.limitedVolume = accumulator.volume;
+  }
+
+  return accumulator;
+}
+
+/**
+ * Utilization of every bin of the tenant (or of one warehouse), rolled up through shelves, aisles, zones and
+ * warehouses. Percentages of a roll-up compare the load of the bins that have a limit with the sum of those limits.
+ */
+export async function getUtilization(
+  executor: Executor,
+  tenantId: string,
+  warehouseId?: string
+): Promise<UtilizationReport> {
+  const binRows = await executor
+    .select({
+      id: bins.id,
+      maxWeight: bins.maxWeight,
+      maxVolume: bins.maxVolume,
+      shelfId: shelves.id,
+      aisleId: aisles.id,
+      zoneId: zones.id,
+      warehouseId: zones.warehouseId,
+    })
+    .from(bins)
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .where(and(eq(bins.tenantId, tenantId), warehouseId ? eq(zones.warehouseId, warehouseId) : undefined));
+
+  const stock = await executor
+    .select({
+      binId: inventoryItems.binId,
+      productId: inventoryItems.productId,
+      quantity: sql<number>`sum(${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity})`.mapWith(Number),
+      weight: products.weight,
+      dimensions: products.dimensions,
+    })
+    .from(inventoryItems)
+    .innerJoin(products, eq(inventoryItems.productId, products.id))
+    .innerJoin(bins, eq(inventoryItems.binId, bins.id))
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .where(and(eq(inventoryItems.tenantId, tenantId), warehouseId ? eq(zones.warehouseId, warehouseId) : undefined))
+    .groupBy(inventoryItems.binId, inventoryItems.productId, products.weight, products.dimensions);
+
+  const stockByBin = new Map<string, StockRow[]>();
+  for (const row of stock) {
+    const rows = stockByBin.get(row.binId) || [];
+    rows.push(row);
+    stockByBin.set(row.binId, rows);
+  }
+
+  const total = emptyAccumulator();
+  const levels = {
+    warehouses: new Map<string, Accumulator>(),
+    zones: new Map<string, Accumulator>(),
+    aisles: new Map<string, Accumulator>(),
+    shelves: new Map<string, Accumulator>(),
+  };
+  const add = (level: Map<string, Accumulator>, id: string, load: Accumulator) => {
+    const accumulator = level.get(id) || emptyAccumulator();
+    addInto(accumulator, load);
+    level.set(id, accumulator);
+  };
+
+  const report: UtilizationReport = { total: toUtilization(total), warehouses: {}, zones: {}, aisles: {}, shelves: {}, bins: {} };
+  for (const bin of binRows) {
+    const load = loadBin(bin, stockByBin.get(bin.id) || []);
+    report.bins[bin.id] = toUtilization(load);
+    addInto(total, load);
+    add(levels.shelves, bin.shelfId, load);
+    add(levels.aisles, bin.aisleId, load);
+    add(levels.zones, bin.zoneId, load);
+    add(levels.warehouses, bin.warehouseId, load);
+  }
+
+  report.total = toUtilization(total);
+  for (const [level, accumulators] of Object.entries(levels)) {
+    const target = report[level as keyof typeof levels];
+    accumulators.forEach((accumulator, id) => {
+      target[id] = toUtilization(accumulator);
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Utilization of one bin with its stock by product, or null if the bin is not one of the tenant's
+ */
+export async function getBinUtilization(
+  executor: Executor,
+  tenantId: string,
+  binId: string
+): Promise<BinUtilization | null> {
+  const [bin] = await executor
+    .select({ id: bins.id, name: bins.name, maxWeight: bins.maxWeight, maxVolume: bins.maxVolume })
+    .from(bins)
+    .where(and(eq(bins.id, binId), eq(bins.tenantId, tenantId)));
+
+  if (!bin) return null;
+
+  const stock = await executor
+    .select({
+      binId: inventoryItems.binId,
+      productId: inventoryItems.productId,
+      sku: products.sku,
+      name: products.name,
+      quantity: sql<number>`sum(${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity})`.mapWith(Number),
+      weight: products.weight,
+      dimensions: products.dimensions,
+    })
+    .from(inventoryItems)
+    .innerJoin(products, eq(inventoryItems.productId, products.id))
+    .where(and(eq(inventoryItems.tenantId, tenantId), eq(inventoryItems.binId, binId)))
+    .groupBy(inventoryItems.binId, inventoryItems.productId, products.sku, products.name, products.weight, products.dimensions)
+    .orderBy(asc(products.sku));
+
+  const rows = stock.filter((row) => row.quantity > 0);
+
+  return {
+    binId: bin.id,
+    binName: bin.name,
+    utilization: toUtilization(loadBin(bin, rows)),
+    contents: rows.map((row) => {
+      const unitVolume = parseVolume(row.dimensions);
+      return {
+        productId: row.productId,
+        sku: row.sku,
+        name: row.name,
+        quantity: row.quantity,
+        weight: round(row.quantity * parseFloat(row.weight || '0'), 3),
+        volume: round(row.quantity * (unitVolume || 0), 6),
+        hasVolume: unitVolume !== null,
+      };
+    }),
+  };
+}
+
+/**
+ * Warnings for a bin filled to CAPACITY_WARNING_PERCENT or more of its max weight or volume
+ */
+export async function getBinCapacityWarnings(executor: Executor, tenantId: string, binId: string): Promise<string[]> {
+  const bin = await getBinUtilization(executor, tenantId, binId);
+  if (!bin) return [];
+
+  const { weightPercent, volumePercent } = bin.utilization;
+  const warnings: string[] = [];
+  if (weightPercent !== null && weightPercent >= CAPACITY_WARNING_PERCENT) {
+    warnings.push(`Bin ${bin.binName} is at ${weightPercent}% of its max weight`);
+  }
+  if (volumePercent !== null && volumePercent >= CAPACITY_WARNING_PERCENT) {
+    warnings.push(`Bin ${bin.binName} is at ${volumePercent}% of its max volume`);
+  }
+  return warnings;
+}
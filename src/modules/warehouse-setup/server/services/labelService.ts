@@ -0,0 +1,418 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import bwipjs from 'bwip-js/node';
+import { db } from '@server/lib/db';
+import { aisles, bins, shelves, warehouses, zones } from '../lib/db/schemas/warehouseSetup';
+import { labelTemplates, LabelTemplate } from '../lib/db/schemas/labels';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { generatedDocuments } from '@modules/document-numbering/server/lib/db/schemas/documentNumbering';
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+
+type Executor = Pick<typeof db, 'insert' | 'update'>;
+
+export class LabelValidationError extends Error {}
+
+export type LabelTargetType = 'bin' | 'product';
+export type BinScopeLevel = 'warehouse' | 'zone' | 'aisle' | 'shelf' | 'bin';
+
+export const BIN_SCOPE_LEVELS: BinScopeLevel[] = ['warehouse', 'zone', 'aisle', 'shelf', 'bin'];
+
+// Placeholders the text lines of a template may use, by target type
+export const LABEL_PLACEHOLDERS: Record<LabelTargetType, string[]> = {
+  bin: ['name', 'barcode', 'path', 'warehouse', 'zone', 'aisle', 'shelf'],
+  product: ['name', 'sku', 'barcode', 'baseUom'],
+};
+
+// Upper bound on the labels in one batch, copies included
+export const MAX_LABELS_PER_BATCH = 5000;
+
+export type LabelLayout = Pick<
+  LabelTemplate,
+  'symbology' | 'widthMm' | 'heightMm' | 'pageSize' | 'textLines' | 'fontSizePt' | 'showBarcodeText'
+>;
+
+// Used when the tenant has no default template for the target type
+const BUILT_IN_LAYOUTS: Record<LabelTargetType, LabelLayout> = {
+  bin: {
+    symbology: 'code128',
+    widthMm: 100,
+    heightMm: 50,
+    pageSize: 'label',
+    textLines: '{{name}}\n{{path}}',
+    fontSizePt: 12,
+    showBarcodeText: true,
+  },
+  product: {
+    symbology: 'code128',
+    widthMm: 50,
+    heightMm: 30,
+    pageSize: 'label',
+    textLines: '{{sku}}\n{{name}}',
+    fontSizePt: 8,
+    showBarcodeText: true,
+  },
+};
+
+export interface LabelData {
+  // Value encoded in the barcode
+  barcode: string;
+  // Placeholder values
+  fields: Record<string, string>;
+}
+
+export interface BinLabelData extends LabelData {
+  binId: string;
+  // True when the bin had no barcode and one was derived for it
+  barcodeAssigned: boolean;
+}
+
+/**
+ * Validate and normalize the body of a template create or update. Throws LabelValidationError.
+ */
+export function parseTemplateInput(body: any): Omit<typeof labelTemplates.$inferInsert, 'tenantId'> {
+  const { name, targetType, symbology, widthMm, heightMm, pageSize, textLines, fontSizePt, showBarcodeText, isDefault, isActive } = body;
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    throw new LabelValidationError('Template name is required');
+  }
+  if (targetType !== 'bin' && targetType !== 'product') {
+    throw new LabelValidationError('targetType must be bin or product');
+  }
+  if (symbology !== undefined && symbology !== 'code128' && symbology !== 'qrcode') {
+    throw new LabelValidationError('symbology must be code128 or qrcode');
+  }
+  if (pageSize !== undefined && !['label', 'A4', 'letter'].includes(pageSize)) {
+    throw new LabelValidationError('pageSize must be label, A4 or letter');
+  }
+  for (const [field, value, min, max] of [
+    ['widthMm', widthMm, 10, 300],
+    ['heightMm', heightMm, 10, 300],
+  ] as const) {
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new LabelValidationError(`${field} must be a whole number of millimetres between ${min} and ${max}`);
+    }
+  }
+  if (fontSizePt !== undefined && (!Number.isInteger(fontSizePt) || fontSizePt < 4 || fontSizePt > 72)) {
+    throw new LabelValidationError('fontSizePt must be a whole number between 4 and 72');
+  }
+
+  const lines = typeof textLines === 'string' ? textLines : '';
+  const unknown = [...lines.matchAll(/\{\{\s*(\w+)\s*\}\}/g)]
+    .map((match) => match[1])
+    .filter((placeholder) => !LABEL_PLACEHOLDERS[targetType as LabelTargetType].includes(placeholder));
+  if (unknown.length > 0) {
+    throw new LabelValidationError(
+      `Unknown placeholder(s) for ${targetType} labels: ${[...new Set(unknown)].join(', ')}`
+    );
+  }
+
+  return {
+    name: name.trim(),
+    targetType,
+    symbology: symbology ?? 'code128',
+    widthMm,
+    heightMm,
+    pageSize: pageSize ?? 'label',
+    textLines: lines,
+    fontSizePt: fontSizePt ?? 10,
+    showBarcodeText: showBarcodeText ?? true,
+    isDefault: isDefault ?? false,
+    isActive: isActive ?? true,
+  };
+}
+
+/**
+ * The template to print with: the given one, else the tenant's active default for the target type, else a
+ * built-in layout (template null).
+ */
+export async function resolveLabelTemplate(
+  tenantId: string,
+  targetType: LabelTargetType,
+  templateId?: string | null
+): Promise<{ template: LabelTemplate | null; layout: LabelLayout }> {
+  const [template] = await db
+    .select()
+    .from(labelTemplates)
+    .where(templateId
+      ? and(eq(labelTemplates.tenantId, tenantId), eq(labelTemplates.id, templateId))
+      : and(
+        eq(labelTemplates.tenantId, tenantId),
+        eq(labelTemplates.targetType, targetType),
+        eq(labelTemplates.isDefault, true),
+        eq(labelTemplates.isActive, true)
+      ))
+    .orderBy(desc(labelTemplates.updatedAt))
+    .limit(1);
+
+  if (templateId) {
+    if (!template || !template.isActive) {
+      throw new LabelValidationError('Label template not found');
+    }
+    if (template.targetType !== targetType) {
+      throw new LabelValidationError(`Template ${template.name} is for ${template.targetType} labels`);
+    }
+  }
+
+  return template ? { template, layout: template } : { template: null, layout: BUILT_IN_LAYOUTS[targetType] };
+}
+
+/**
+ * Barcode for a bin that has none, derived from its id so previews and batches agree
+ */
+export function deriveBinBarcode(binId: string): string {
+  return `BIN-${binId.replace(/-/g, '').slice(0, 12).toUpperCase()}`;
+}
+
+/**
+ * Labels for every bin under a warehouse, zone, aisle or shelf (or a single bin), in location order.
+ * Bins without a barcode get a derived one; the caller decides whether to store it.
+ */
+export async function getBinLabels(
+  tenantId: string,
+  scope: { level: BinScopeLevel; id: string }
+): Promise<{ scopeName: string | null; labels: BinLabelData[] }> {
+  const scopeColumn = {
+    warehouse: warehouses.id,
+    zone: zones.id,
+    aisle: aisles.id,
+    shelf: shelves.id,
+    bin: bins.id,
+  }[scope.level];
+
+  const rows = await db
+    .select({
+      id: bins.id,
+      name: bins.name,
+      barcode: bins.barcode,
+      shelfName: shelves.name,
+      aisleName: aisles.name,
+      zoneName: zones.name,
+      warehouseName: warehouses.name,
+    })
+    .from(bins)
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .innerJoin(warehouses, eq(zones.warehouseId, warehouses.id))
+    .where(and(eq(bins.tenantId, tenantId), eq(scopeColumn, scope.id)))
+    .orderBy(asc(warehouses.name), asc(zones.name), asc(aisles.name), asc(shelves.name), asc(bins.name));
+
+  const scopeName = rows.length === 0 ? null : {
+    warehouse: rows[0].warehouseName,
+    zone: rows[0].zoneName,
+    aisle: rows[0].aisleName,
+    shelf: rows[0].shelfName,
+    bin: rows[0].name,
+  }[scope.level];
+
+  const labels = rows.map((row) => {
+    const barcode = row.barcode || deriveBinBarcode(row.id);
+    return {
+      binId: row.id,
+      barcode,
+      barcodeAssigned: !row.barcode,
+      fields: {
+        name: row.name,
+        barcode,
+        path: [row.warehouseName, row.zoneName, row.aisleName, row.shelfName, row.name].join(' / '),
+        warehouse: row.warehouseName,
+        zone: row.zoneName,
+        aisle: row.aisleName,
+        shelf: row.shelfName,
+      },
+    };
+  });
+
+  return { scopeName, labels };
+}
+
+/**
+ * Labels for the given products, in the order given. The barcode is the product's GTIN / EAN, or its SKU
+ * when it has none (the scan endpoint resolves both).
+ */
+export async function getProductLabels(tenantId: string, productIds: string[]): Promise<LabelData[]> {
+  if (productIds.length === 0) return [];
+
+  const rows = await db
+    .select({
+      id: products.id,
+      sku: products.sku,
+      name: products.name,
+      barcode: products.barcode,
+      baseUom: products.baseUom,
+    })
+    .from(products)
+    .where(and(eq(products.tenantId, tenantId), inArray(products.id, productIds)));
+  const productMap = new Map(rows.map((row) => [row.id, row]));
+
+  return productIds
+    .map((productId) => productMap.get(productId))
+    .filter((product) => product !== undefined)
+    .map((product) => {
+      const barcode = product.barcode || product.sku;
+      return {
+        barcode,
+        fields: {
+          name: product.name,
+          sku: product.sku,
+          barcode,
+          baseUom: product.baseUom,
+        },
+      };
+    });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderBarcodeSvg(symbology: LabelLayout['symbology'], text: string): string {
+  let svg: string;
+  try {
+    svg = symbology === 'qrcode'
+      ? bwipjs.toSVG({ bcid: 'qrcode', text })
+      : bwipjs.toSVG({ bcid: 'code128', text, scale: 2, height: 10 });
+  } catch {
+    throw new LabelValidationError(
+      `"${text}" cannot be encoded as ${symbology === 'qrcode' ? 'a QR code' : 'Code 128'}`
+    );
+  }
+
+  // A linear barcode may stretch to fill the label; a QR code keeps its square shape
+  return symbology === 'code128' ? svg.replace('<svg ', '<svg preserveAspectRatio="none" ') : svg;
+}
+
+/**
+ * Render labels as a print-ready HTML document. 'label' page size prints one label per page, sized to the
+ * label; A4 and letter tile the labels across sheets. Users save as PDF from the browser's print dialog.
+ */
+export function renderLabelsHtml(layout: LabelLayout, labels: LabelData[], title: string, copies: number = 1): string {
+  const isLabelPage = layout.pageSize === 'label';
+  const pageRule = isLabelPage
+    ? `size: ${layout.widthMm}mm ${layout.heightMm}mm; margin: 0;`
+    : `size: ${layout.pageSize}; margin: 10mm;`;
+
+  const lines = layout.textLines.split('\n').filter((line) => line.trim() !== '');
+
+  const labelHtml = labels.map((label) => {
+    const svg = renderBarcodeSvg(layout.symbology, label.barcode);
+    const text = lines
+      .map((line) => line.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, placeholder: string) => label.fields[placeholder] ?? ''))
+      .map((line) => `<div class="line">${escapeHtml(line)}</div>`)
+      .join('');
+    const barcodeText = layout.showBarcodeText
+      ? `<div class="line barcode-text">${escapeHtml(label.barcode)}</div>`
+      : '';
+
+    const html = layout.symbology === 'qrcode'
+      ? `<div class="label qrcode"><div class="barcode">${svg}</div><div class="text">${text}${barcodeText}</div></div>`
+      : `<div class="label code128"><div class="barcode">${svg}</div><div class="text">${barcodeText}${text}</div></div>`;
+
+    return html.repeat(copies);
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    @page { ${pageRule} }
+    * { box-sizing: border-box; }
+    body { margin: 0; font-family: Arial, Helvetica, sans-serif; color: #000; }
+    .sheet { display: flex; flex-wrap: wrap; gap: ${isLabelPage ? 0 : 2}mm; }
+    .label {
+      width: ${layout.widthMm}mm;
+      height: ${layout.heightMm}mm;
+      padding: 2mm;
+      overflow: hidden;
+      display: flex;
+      break-inside: avoid;
+      page-break-inside: avoid;
+      ${isLabelPage ? '' : 'border: 0.2mm dashed #ccc;'}
+    }
+    ${isLabelPage ? '.label { break-after: page; page-break-after: always; } .label:last-child { break-after: auto; page-break-after: auto; }' : ''}
+    .label.code128 { flex-direction: column; }
+    .label.qrcode { flex-direction: row; align-items: center; gap: 2mm; }
+    .code128 .barcode { flex: 1 1 auto; min-height: 0; }
+    .qrcode .barcode { height: 100%; aspect-ratio: 1; flex: 0 0 auto; }
+    .barcode svg { display: block; width: 100%; height: 100%; }
+    .text { font-size: ${layout.fontSizePt}pt; line-height: 1.2; overflow: hidden; }
+    .code128 .text { text-align: center; }
+    .line { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+    .barcode-text { font-family: 'Courier New', monospace; }
+  </style>
+</head>
+<body>
+  <div class="sheet">
+${labelHtml}
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Write a label batch's HTML to storage and record it as a generated document
+ */
+export async function saveLabelDocument(
+  executor: Executor,
+  params: { tenantId: string; batchId: string; batchNumber: string; html: string; userId: string }
+): Promise<string> {
+  const year = new Date().getFullYear();
+  const dirPath = path.join(
+    process.cwd(),
+    'storage',
+    'warehouse-setup',
+    'labels',
+    'tenants',
+    params.tenantId,
+    year.toString()
+  );
+
+  await fs.mkdir(dirPath, { recursive: true });
+
+  const fileName = `${params.batchNumber}.html`;
+  const filePath = path.join(dirPath, fileName);
+  await fs.writeFile(filePath, params.html, 'utf-8');
+  const fileStats = await fs.stat(filePath);
+
+  const [document] = await executor
+    .insert(generatedDocuments)
+    .values({
+      tenantId: params.tenantId,
+      documentType: 'label_batch',
+      documentNumber: params.batchNumber,
+      referenceType: 'label_batch',
+      referenceId: params.batchId,
+      files: {
+        html: {
+          path: `storage/warehouse-setup/labels/tenants/${params.tenantId}/${year}/${fileName}`,
+          size: fileStats.size,
+          generated_at: new Date().toISOString(),
+        },
+      },
+      version: 1,
+      generatedBy: params.userId,
+    })
+    .returning();
+
+  return document.id;
+}
+
+/**
+ * Store the derived barcodes of bins that had none, so their labels scan back to them
+ */
+export async function assignBinBarcodes(executor: Executor, tenantId: string, labels: BinLabelData[]): Promise<number> {
+  const assigned = labels.filter((label) => label.barcodeAssigned);
+  for (const label of assigned) {
+    await executor
+      .update(bins)
+      .set({ barcode: label.barcode })
+      .where(and(eq(bins.id, label.binId), eq(bins.tenantId, tenantId)));
+  }
+  return assigned.length;
+}
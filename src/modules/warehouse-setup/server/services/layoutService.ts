@@ -0,0 +1,749 @@
+import { db } from '@server/lib/db';
+import { AuditedChange } from '@server/services/auditService';
+import { aisles, bins, shelves, warehouseConfigs, warehouses, zones } from '../lib/db/schemas/warehouseSetup';
+import { and, asc, eq, inArray, isNotNull } from 'drizzle-orm';
+import { parse, writeToBuffer } from 'fast-csv';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+type Executor = Pick<typeof db, 'insert' | 'update'>;
+
+export class LayoutValidationError extends Error {
+  constructor(message: string, public errors: string[] = []) {
+    super(message);
+  }
+}
+
+export const LAYOUT_VERSION = 1;
+
+const INSERT_CHUNK_SIZE = 500;
+
+export const LAYOUT_CSV_COLUMNS = [
+  'level',
+  'warehouse',
+  'zone',
+  'aisle',
+  'shelf',
+  'bin',
+  'description',
+  'address',
+  'isActive',
+  'pickingStrategy',
+  'autoAssignBins',
+  'requireBatchTracking',
+  'requireExpiryTracking',
+  'barcode',
+  'maxWeight',
+  'maxVolume',
+  'fixedSku',
+  'category',
+  'requiredTemperature',
+  'accessibilityScore',
+];
+
+const LEVELS = ['warehouse', 'zone', 'aisle', 'shelf', 'bin'] as const;
+type Level = (typeof LEVELS)[number];
+
+// ==================== Layout document ====================
+
+const name = z.string().trim().min(1, 'Name is required').max(255, 'Name is too long');
+
+// Attributes left out keep their current value on merge; null clears them
+const decimal = z
+  .union([z.number(), z.string().trim()])
+  .nullish()
+  .transform((value, ctx) => {
+    if (value === undefined || value === null) return value;
+    if (value === '') return null;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      ctx.addIssue({ code: 'custom', message: 'Must be a non-negative number' });
+      return z.NEVER;
+    }
+    return parsed.toString();
+  });
+
+const optionalText = (max?: number) => {
+  const text = max ? z.string().max(max, 'Too long') : z.string();
+  return text.nullish().transform((value) => (value === '' ? null : value));
+};
+
+const binLayoutSchema = z.object({
+  name,
+  barcode: optionalText(100),
+  maxWeight: decimal,
+  maxVolume: decimal,
+  fixedSku: optionalText(255),
+  category: optionalText(100),
+  requiredTemperature: optionalText(50),
+  accessibilityScore: z.number().int().min(0).max(100).optional(),
+});
+
+const shelfLayoutSchema = z.object({
+  name,
+  description: optionalText(),
+  bins: z.array(binLayoutSchema).default([]),
+});
+
+const aisleLayoutSchema = z.object({
+  name,
+  description: optionalText(),
+  shelves: z.array(shelfLayoutSchema).default([]),
+});
+
+const zoneLayoutSchema = z.object({
+  name,
+  description: optionalText(),
+  aisles: z.array(aisleLayoutSchema).default([]),
+});
+
+export const warehouseLayoutSchema = z.object({
+  version: z.literal(LAYOUT_VERSION).optional(),
+  warehouse: z
+    .object({
+      name: name.optional(),
+      address: optionalText(),
+      isActive: z.boolean().optional(),
+    })
+    .default({ address: undefined }),
+  config: z
+    .object({
+      pickingStrategy: z.enum(['FIFO', 'FEFO', 'LIFO']).optional(),
+      autoAssignBins: z.boolean().optional(),
+      requireBatchTracking: z.boolean().optional(),
+      requireExpiryTracking: z.boolean().optional(),
+    })
+    .nullish(),
+  zones: z.array(zoneLayoutSchema).default([]),
+});
+
+export type WarehouseLayout = z.infer<typeof warehouseLayoutSchema>;
+type ZoneLayout = z.infer<typeof zoneLayoutSchema>;
+type BinLayout = z.infer<typeof binLayoutSchema>;
+
+/**
+ * Validate a layout document; names must be unique among siblings as they are what layouts merge on
+ */
+export function parseLayout(input: unknown): WarehouseLayout {
+  const result = warehouseLayoutSchema.safeParse(input);
+  if (!result.success) {
+    const errors = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    throw new LayoutValidationError('Invalid layout', errors);
+  }
+
+  const layout = result.data;
+  const errors: string[] = [];
+  const checkUnique = (names: string[], parent: string) => {
+    const seen = new Set<string>();
+    for (const childName of names) {
+      if (seen.has(childName)) errors.push(`${parent}: ${childName} is listed more than once`);
+      seen.add(childName);
+    }
+  };
+
+  checkUnique(layout.zones.map((zone) => zone.name), 'warehouse');
+  for (const zone of layout.zones) {
+    checkUnique(zone.aisles.map((aisle) => aisle.name), zone.name);
+    for (const aisle of zone.aisles) {
+      checkUnique(aisle.shelves.map((shelf) => shelf.name), `${zone.name} / ${aisle.name}`);
+      for (const shelf of aisle.shelves) {
+        checkUnique(shelf.bins.map((bin) => bin.name), `${zone.name} / ${aisle.name} / ${shelf.name}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new LayoutValidationError('Invalid layout', errors);
+  }
+  return layout;
+}
+
+// ==================== Export ====================
+
+/**
+ * Read a warehouse, its configuration and its zone/aisle/shelf/bin tree as a layout document.
+ * Returns null when the warehouse does not exist.
+ */
+export async function exportLayout(tenantId: string, warehouseId: string): Promise<WarehouseLayout | null> {
+  const warehouse = await db.query.warehouses.findFirst({
+    where: and(eq(warehouses.id, warehouseId), eq(warehouses.tenantId, tenantId)),
+    with: {
+      config: true,
+      zones: {
+        orderBy: asc(zones.name),
+        with: {
+          aisles: {
+            orderBy: asc(aisles.name),
+            with: {
+              shelves: {
+                orderBy: asc(shelves.name),
+                with: { bins: { orderBy: asc(bins.name) } },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!warehouse) return null;
+
+  return {
+    version: LAYOUT_VERSION,
+    warehouse: { name: warehouse.name, address: warehouse.address, isActive: warehouse.isActive },
+    config: warehouse.config
+      ? {
+        pickingStrategy: warehouse.config.pickingStrategy as 'FIFO' | 'FEFO' | 'LIFO',
+        autoAssignBins: warehouse.config.autoAssignBins,
+        requireBatchTracking: warehouse.config.requireBatchTracking,
+        requireExpiryTracking: warehouse.config.requireExpiryTracking,
+      }
+      : null,
+    zones: warehouse.zones.map((zone) => ({
+      name: zone.name,
+      description: zone.description,
+      aisles: zone.aisles.map((aisle) => ({
+        name: aisle.name,
+        description: aisle.description,
+        shelves: aisle.shelves.map((shelf) => ({
+          name: shelf.name,
+          description: shelf.description,
+          bins: shelf.bins.map((bin) => ({
+            name: bin.name,
+            barcode: bin.barcode,
+            maxWeight: bin.maxWeight,
+            maxVolume: bin.maxVolume,
+            fixedSku: bin.fixedSku,
+            category: bin.category,
+            requiredTemperature: bin.requiredTemperature,
+            accessibilityScore: bin.accessibilityScore,
+          })),
+        })),
+      })),
+    })),
+  };
+}
+
+/**
+ * Flatten a layout to CSV: a warehouse row, then one row per zone, aisle, shelf and bin named by its path
+ */
+export async function layoutToCsv(layout: WarehouseLayout): Promise<Buffer> {
+  const rows: Record<string, unknown>[] = [];
+  const warehouseName = layout.warehouse.name ?? '';
+
+  rows.push({
+    level: 'warehouse',
+    warehouse: warehouseName,
+    address: layout.warehouse.address,
+    isActive: layout.warehouse.isActive,
+    ...layout.config,
+  });
+
+  for (const zone of layout.zones) {
+    rows.push({ level: 'zone', warehouse: warehouseName, zone: zone.name, description: zone.description });
+    for (const aisle of zone.aisles) {
+      rows.push({
+        level: 'aisle',
+        warehouse: warehouseName,
+        zone: zone.name,
+        aisle: aisle.name,
+        description: aisle.description,
+      });
+      for (const shelf of aisle.shelves) {
+        rows.push({
+          level: 'shelf',
+          warehouse: warehouseName,
+          zone: zone.name,
+          aisle: aisle.name,
+          shelf: shelf.name,
+          description: shelf.description,
+        });
+        for (const bin of shelf.bins) {
+          rows.push({
+            level: 'bin',
+            warehouse: warehouseName,
+            zone: zone.name,
+            aisle: aisle.name,
+            shelf: shelf.name,
+            bin: bin.name,
+            ...bin,
+          });
+        }
+      }
+    }
+  }
+
+  return writeToBuffer(
+    rows.map((row) => Object.fromEntries(LAYOUT_CSV_COLUMNS.map((column) => [column, row[column] ?? '']))),
+    { headers: LAYOUT_CSV_COLUMNS }
+  );
+}
+
+// ==================== CSV import ====================
+
+function readCsvRows(data: Buffer): Promise<{ headers: string[]; rows: Record<string, string>[] }> {
+  return new Promise((resolve, reject) => {
+    let headers: string[] = [];
+    const rows: Record<string, string>[] = [];
+    const stream = parse<Record<string, string>, Record<string, string>>({
+      headers: (names) => {
+        headers = names.map((column) => (column || '').replace(/^\uFEFF/, '').trim());
+        return headers;
+      },
+      ignoreEmpty: true,
+      trim: true,
+    })
+      .on('data', (row: Record<string, string>) => rows.push(row))
+      .on('end', () => resolve({ headers, rows }))
+      .on('error', (error) => reject(new LayoutValidationError(`Could not read the CSV file: ${error.message}`)));
+
+    stream.write(data);
+    stream.end();
+  });
+}
+
+/**
+ * Build a layout document from the flat CSV. Parent rows are optional; a bin row creates its zone, aisle and
+ * shelf. Columns missing from the file leave the current values in place, while empty cells clear them.
+ */
+export async function parseLayoutCsv(data: Buffer): Promise<WarehouseLayout> {
+  const { headers, rows } = await readCsvRows(data);
+  if (!headers.includes('level')) {
+    throw new LayoutValidationError('Missing column: level');
+  }
+
+  const errors: string[] = [];
+  const present = new Set(headers);
+  const layout: any = { version: LAYOUT_VERSION, warehouse: {}, zones: [] };
+
+  const cell = (row: Record<string, string>, column: string): string | null | undefined =>
+    present.has(column) ? row[column] || null : undefined;
+
+  const flag = (row: Record<string, string>, column: string, rowNumber: number): boolean | undefined => {
+    const value = cell(row, column)?.toLowerCase();
+    if (!value) return undefined;
+    if (['true', 'yes', '1'].includes(value)) return true;
+    if (['false', 'no', '0'].includes(value)) return false;
+    errors.push(`Row ${rowNumber}: ${column} must be true or false`);
+    return undefined;
+  };
+
+  const child = (list: any[], childName: string, init: () => any) => {
+    let node = list.find((item) => item.name === childName);
+    if (!node) {
+      node = { name: childName, ...init() };
+      list.push(node);
+    }
+    return node;
+  };
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const level = (row.level || '').toLowerCase() as Level;
+    if (!LEVELS.includes(level)) {
+      errors.push(`Row ${rowNumber}: level must be one of ${LEVELS.join(', ')}`);
+      return;
+    }
+
+    if (level === 'warehouse') {
+      layout.warehouse = {
+        name: cell(row, 'warehouse') || undefined,
+        address: cell(row, 'address'),
+        isActive: flag(row, 'isActive', rowNumber),
+      };
+      layout.config = {
+        pickingStrategy: cell(row, 'pickingStrategy')?.toUpperCase() || undefined,
+        autoAssignBins: flag(row, 'autoAssignBins', rowNumber),
+        requireBatchTracking: flag(row, 'requireBatchTracking', rowNumber),
+        requireExpiryTracking: flag(row, 'requireExpiryTracking', rowNumber),
+      };
+      return;
+    }
+
+    const depth = LEVELS.indexOf(level);
+    const path = LEVELS.slice(1, depth + 1).map((column) => row[column] || '');
+    if (path.some((part) => !part)) {
+      errors.push(`Row ${rowNumber}: ${LEVELS.slice(1, depth + 1).join(', ')} are required for a ${level} row`);
+      return;
+    }
+
+    const [zoneName, aisleName, shelfName, binName] = path;
+    const description = cell(row, 'description');
+    const zone = child(layout.zones, zoneName, () => ({ aisles: [] }));
+    if (level === 'zone') {
+      zone.description = description;
+      return;
+    }
+
+    const aisle = child(zone.aisles, aisleName, () => ({ shelves: [] }));
+    if (level === 'aisle') {
+      aisle.description = description;
+      return;
+    }
+
+    const shelf = child(aisle.shelves, shelfName, () => ({ bins: [] }));
+    if (level === 'shelf') {
+      shelf.description = description;
+      return;
+    }
+
+    if (shelf.bins.some((bin: any) => bin.name === binName)) {
+      errors.push(`Row ${rowNumber}: bin ${path.join(' / ')} is listed more than once`);
+      return;
+    }
+
+    const score = cell(row, 'accessibilityScore');
+    shelf.bins.push({
+      name: binName,
+      barcode: cell(row, 'barcode'),
+      maxWeight: cell(row, 'maxWeight'),
+      maxVolume: cell(row, 'maxVolume'),
+      fixedSku: cell(row, 'fixedSku'),
+      category: cell(row, 'category'),
+      requiredTemperature: cell(row, 'requiredTemperature'),
+      accessibilityScore: score ? Number(score) : undefined,
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new LayoutValidationError('Invalid layout', errors);
+  }
+  return parseLayout(layout);
+}
+
+// ==================== Diff and merge ====================
+
+export interface LayoutChange {
+  level: 'warehouse' | 'config' | Exclude<Level, 'warehouse'>;
+  // Names from the zone down, "Zone A / 01 / S1 / B001"; empty for the warehouse and its config
+  path: string;
+  action: 'create' | 'update';
+  changes?: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface LayoutDiff {
+  // Null when the import creates the warehouse
+  warehouseId: string | null;
+  warehouseName: string;
+  changes: LayoutChange[];
+  summary: {
+    create: number;
+    update: number;
+    unchanged: number;
+  };
+  // Bin barcodes left out because another bin already has them
+  warnings: string[];
+}
+
+export interface LayoutPlan {
+  diff: LayoutDiff;
+  // Returns the id of the imported warehouse and the records written, for the audit trail
+  apply: (executor: Executor) => Promise<{ warehouseId: string; changes: AuditedChange[] }>;
+}
+
+type Row = Record<string, any>;
+
+// Audit trail resource type of each table a layout import writes
+const RESOURCE_TYPES = new Map<unknown, string>([
+  [warehouses, 'warehouse'],
+  [warehouseConfigs, 'warehouse_config'],
+  [zones, 'zone'],
+  [aisles, 'aisle'],
+  [shelves, 'shelf'],
+  [bins, 'bin'],
+]);
+
+/**
+ * Fields of `next` that are set and differ from `current`
+ */
+function changedFields(current: Row, next: Row): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const [field, value] of Object.entries(next)) {
+    if (value === undefined) continue;
+    const from = current[field] ?? null;
+    const same = typeof value === 'string' && from !== null && !Number.isNaN(Number(value)) && field.startsWith('max')
+      ? Number(from) === Number(value)
+      : from === value;
+    if (!same) changes[field] = { from, to: value };
+  }
+  return changes;
+}
+
+function pickDefined<T extends Row>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+async function loadWarehouseTree(tenantId: string, warehouseId: string) {
+  const zoneRows = await db
+    .select()
+    .from(zones)
+    .where(and(eq(zones.tenantId, tenantId), eq(zones.warehouseId, warehouseId)));
+  const zoneIds = zoneRows.map((zone) => zone.id);
+
+  const aisleRows = zoneIds.length === 0 ? [] : await db
+    .select()
+    .from(aisles)
+    .where(and(eq(aisles.tenantId, tenantId), inArray(aisles.zoneId, zoneIds)));
+  const aisleIds = aisleRows.map((aisle) => aisle.id);
+
+  const shelfRows = aisleIds.length === 0 ? [] : await db
+    .select()
+    .from(shelves)
+    .where(and(eq(shelves.tenantId, tenantId), inArray(shelves.aisleId, aisleIds)));
+  const shelfIds = shelfRows.map((shelf) => shelf.id);
+
+  const binRows = shelfIds.length === 0 ? [] : await db
+    .select()
+    .from(bins)
+    .where(and(eq(bins.tenantId, tenantId), inArray(bins.shelfId, shelfIds)));
+
+  return { zoneRows, aisleRows, shelfRows, binRows };
+}
+
+/**
+ * Compare a layout with a warehouse and work out what merging it would create and update. Nodes are matched by
+ * name under their parent; nothing is deleted, so nodes missing from the layout stay as they are.
+ *
+ * With `warehouseId` the layout merges into that warehouse and the warehouse's own name, address and status are
+ * left alone. Without it the layout merges into the warehouse named `warehouseName` (or the name in the layout),
+ * which is created if the tenant has none by that name.
+ */
+export async function planLayoutImport(
+  tenantId: string,
+  layout: WarehouseLayout,
+  target: { warehouseId?: string; warehouseName?: string }
+): Promise<LayoutPlan> {
+  const changes: LayoutChange[] = [];
+  const warnings: string[] = [];
+  let unchanged = 0;
+
+  const record = (change: LayoutChange) => {
+    if (change.action === 'update' && Object.keys(change.changes || {}).length === 0) {
+      unchanged++;
+    } else {
+      changes.push(change);
+    }
+  };
+
+  // Writes, in parent-before-child order
+  const inserts = { warehouses: [] as Row[], configs: [] as Row[], zones: [] as Row[], aisles: [] as Row[], shelves: [] as Row[], bins: [] as Row[] };
+  const updates: { table: typeof warehouses | typeof warehouseConfigs | typeof zones | typeof aisles | typeof shelves | typeof bins; id: string; values: Row; before: Row }[] = [];
+
+  // Target warehouse
+  let warehouse: typeof warehouses.$inferSelect | undefined;
+  if (target.warehouseId) {
+    [warehouse] = await db
+      .select()
+      .from(warehouses)
+      .where(and(eq(warehouses.id, target.warehouseId), eq(warehouses.tenantId, tenantId)));
+    if (!warehouse) {
+      throw new LayoutValidationError('Warehouse not found');
+    }
+  } else {
+    const warehouseName = (target.warehouseName || layout.warehouse.name || '').trim();
+    if (!warehouseName) {
+      throw new LayoutValidationError('A warehouse name is required to import a layout as a new warehouse');
+    }
+    [warehouse] = await db
+      .select()
+      .from(warehouses)
+      .where(and(eq(warehouses.name, warehouseName), eq(warehouses.tenantId, tenantId)));
+
+    const values = { address: layout.warehouse.address, isActive: layout.warehouse.isActive };
+    if (warehouse) {
+      const fieldChanges = changedFields(warehouse, values);
+      record({ level: 'warehouse', path: '', action: 'update', changes: fieldChanges });
+      if (Object.keys(fieldChanges).length > 0) {
+        updates.push({ table: warehouses, id: warehouse.id, values: pickDefined(values), before: warehouse });
+      }
+    } else {
+      const id = uuidv4();
+      inserts.warehouses.push({
+        id,
+        tenantId,
+        name: warehouseName,
+        address: values.address ?? null,
+        isActive: values.isActive ?? true,
+      });
+      record({ level: 'warehouse', path: '', action: 'create' });
+      warehouse = { id, tenantId, name: warehouseName } as typeof warehouses.$inferSelect;
+    }
+  }
+
+  const warehouseId = warehouse.id;
+  const isNew = inserts.warehouses.length > 0;
+
+  // Configuration
+  const [config] = isNew ? [] : await db
+    .select()
+    .from(warehouseConfigs)
+    .where(and(eq(warehouseConfigs.warehouseId, warehouseId), eq(warehouseConfigs.tenantId, tenantId)));
+  const configValues = layout.config ?? {};
+  if (config) {
+    const fieldChanges = changedFields(config, configValues);
+    record({ level: 'config', path: '', action: 'update', changes: fieldChanges });
+    if (Object.keys(fieldChanges).length > 0) {
+      updates.push({ table: warehouseConfigs, id: config.id, values: pickDefined(configValues), before: config });
+    }
+  } else {
+    inserts.configs.push({
+      id: uuidv4(),
+      warehouseId,
+      tenantId,
+      pickingStrategy: configValues.pickingStrategy ?? 'FEFO',
+      autoAssignBins: configValues.autoAssignBins ?? true,
+      requireBatchTracking: configValues.requireBatchTracking ?? false,
+      requireExpiryTracking: configValues.requireExpiryTracking ?? true,
+    });
+    record({ level: 'config', path: '', action: 'create' });
+  }
+
+  // Existing tree, and the barcodes of all bins of the tenant so imported ones stay unique
+  const tree = isNew
+    ? { zoneRows: [], aisleRows: [], shelfRows: [], binRows: [] }
+    : await loadWarehouseTree(tenantId, warehouseId);
+  const barcodeRows = await db
+    .select({ id: bins.id, barcode: bins.barcode })
+    .from(bins)
+    .where(and(eq(bins.tenantId, tenantId), isNotNull(bins.barcode)));
+  const barcodeOwners = new Map(barcodeRows.map((row) => [row.barcode!, row.id]));
+
+  const childrenOf = <T extends { name: string }>(rows: T[], parentField: keyof T, parentId: string | undefined) =>
+    new Map(parentId ? rows.filter((row) => row[parentField] === parentId).map((row) => [row.name, row]) : []);
+
+  const binValues = (bin: BinLayout, path: string, binId: string) => {
+    let barcode = bin.barcode;
+    if (barcode) {
+      const owner = barcodeOwners.get(barcode);
+      if (owner && owner !== binId) {
+        warnings.push(`${path}: barcode ${barcode} already belongs to another bin and was left out`);
+        barcode = undefined;
+      } else {
+        barcodeOwners.set(barcode, binId);
+      }
+    }
+    return {
+      barcode,
+      maxWeight: bin.maxWeight,
+      maxVolume: bin.maxVolume,
+      fixedSku: bin.fixedSku,
+      category: bin.category,
+      requiredTemperature: bin.requiredTemperature,
+      accessibilityScore: bin.accessibilityScore,
+    };
+  };
+
+  const existingZones = childrenOf(tree.zoneRows, 'warehouseId', warehouseId);
+  for (const zone of layout.zones as ZoneLayout[]) {
+    const currentZone = existingZones.get(zone.name);
+    const zoneId = currentZone?.id ?? uuidv4();
+    mergeNode(currentZone, zones, { description: zone.description }, zone.name, 'zone', () => {
+      inserts.zones.push({ id: zoneId, warehouseId, tenantId, name: zone.name, description: zone.description ?? null });
+    });
+
+    const existingAisles = childrenOf(tree.aisleRows, 'zoneId', currentZone?.id);
+    for (const aisle of zone.aisles) {
+      const aislePath = `${zone.name} / ${aisle.name}`;
+      const currentAisle = existingAisles.get(aisle.name);
+      const aisleId = currentAisle?.id ?? uuidv4();
+      mergeNode(currentAisle, aisles, { description: aisle.description }, aislePath, 'aisle', () => {
+        inserts.aisles.push({ id: aisleId, zoneId, tenantId, name: aisle.name, description: aisle.description ?? null });
+      });
+
+      const existingShelves = childrenOf(tree.shelfRows, 'aisleId', currentAisle?.id);
+      for (const shelf of aisle.shelves) {
+        const shelfPath = `${aislePath} / ${shelf.name}`;
+        const currentShelf = existingShelves.get(shelf.name);
+        const shelfId = currentShelf?.id ?? uuidv4();
+        mergeNode(currentShelf, shelves, { description: shelf.description }, shelfPath, 'shelf', () => {
+          inserts.shelves.push({ id: shelfId, aisleId, tenantId, name: shelf.name, description: shelf.description ?? null });
+        });
+
+        const existingBins = childrenOf(tree.binRows, 'shelfId', currentShelf?.id);
+        for (const bin of shelf.bins) {
+          const binPath = `${shelfPath} / ${bin.name}`;
+          const currentBin = existingBins.get(bin.name);
+          const binId = currentBin?.id ?? uuidv4();
+          const values = binValues(bin, binPath, binId);
+          mergeNode(currentBin, bins, values, binPath, 'bin', () => {
+            inserts.bins.push({
+              id: binId,
+              shelfId,
+              tenantId,
+              name: bin.name,
+              ...values,
+              accessibilityScore: values.accessibilityScore ?? 50,
+            });
+          });
+        }
+      }
+    }
+  }
+
+  function mergeNode(
+    current: Row | undefined,
+    table: (typeof updates)[number]['table'],
+    values: Row,
+    path: string,
+    level: LayoutChange['level'],
+    insert: () => void
+  ) {
+    if (!current) {
+      insert();
+      record({ level, path, action: 'create' });
+      return;
+    }
+    const fieldChanges = changedFields(current, values);
+    record({ level, path, action: 'update', changes: fieldChanges });
+    if (Object.keys(fieldChanges).length > 0) {
+      updates.push({ table, id: current.id, values: pickDefined(values), before: current });
+    }
+  }
+
+  const diff: LayoutDiff = {
+    warehouseId: isNew ? null : warehouseId,
+    warehouseName: warehouse.name,
+    changes,
+    summary: {
+      create: changes.filter((change) => change.action === 'create').length,
+      update: changes.filter((change) => change.action === 'update').length,
+      unchanged,
+    },
+    warnings,
+  };
+
+  const apply = async (executor: Executor) => {
+    const auditChanges: AuditedChange[] = [];
+
+    const insertAll = async (table: (typeof updates)[number]['table'], rows: Row[]) => {
+      for (let offset = 0; offset < rows.length; offset += INSERT_CHUNK_SIZE) {
+        const inserted: Row[] = await executor
+          .insert(table)
+          .values(rows.slice(offset, offset + INSERT_CHUNK_SIZE) as any)
+          .returning();
+        for (const row of inserted) {
+          auditChanges.push({ resourceType: RESOURCE_TYPES.get(table)!, resourceId: row.id, before: null, after: row });
+        }
+      }
+    };
+
+    await insertAll(warehouses, inserts.warehouses);
+    await insertAll(warehouseConfigs, inserts.configs);
+    for (const update of updates) {
+      const [after]: Row[] = await executor
+        .update(update.table)
+        .set(update.values)
+        .where(eq(update.table.id, update.id))
+        .returning();
+      auditChanges.push({ resourceType: RESOURCE_TYPES.get(update.table)!, resourceId: update.id, before: update.before, after });
+    }
+    await insertAll(zones, inserts.zones);
+    await insertAll(aisles, inserts.aisles);
+    await insertAll(shelves, inserts.shelves);
+    await insertAll(bins, inserts.bins);
+
+    return { warehouseId, changes: auditChanges };
+  };
+
+  return { diff, apply };
+}
@@ -0,0 +1,55 @@
+import { db } from '@server/lib/db';
+import { workflows, workflowSteps, WorkflowStep } from '../lib/db/schemas/workflow';
+import { eq, and, desc, asc } from 'drizzle-orm';
+
+export type WorkflowType = 'PURCHASE_ORDER' | 'SALES_ORDER';
+
+/**
+ * Get the active steps of the tenant's workflow for a document type, ordered by stepOrder.
+ * The default workflow wins when a tenant has more than one active workflow of the same type.
+ */
+export async function getActiveWorkflowSteps(tenantId: string, type: WorkflowType): Promise<WorkflowStep[]> {
+  const [workflow] = await db
+    .select()
+    .from(workflows)
+    .where(and(
+      eq(workflows.tenantId, tenantId),
+      eq(workflows.type, type),
+      eq(workflows.isActive, true)
+    ))
+    .orderBy(desc(workflows.isDefault))
+    .limit(1);
+
+  if (!workflow) {
+    return [];
+  }
+
+  return db
+    .select()
+    .from(workflowSteps)
+    .where(and(
+      eq(workflowSteps.workflowId, workflow.id),
+      eq(workflowSteps.isActive, true)
+    ))
+    .orderBy(asc(workflowSteps.stepOrder));
+}
+
+/**
+ * Check whether a step is part of the active workflow
+ */
+export function isStepActive(steps: WorkflowStep[], stepKey: string): boolean {
+  return steps.some((step) => step.stepKey === stepKey);
+}
+
+/**
+ * Resolve the step that follows `stepKey` in the active workflow.
+ * Inactive steps are skipped; returns null when `stepKey` is the last active step.
+ */
+export function getNextStep(steps: WorkflowStep[], stepKey: string): WorkflowStep | null {
+  const current = steps.find((step) => step.stepKey === stepKey);
+  if (!current) {
+    return null;
+  }
+
+  return steps.find((step) => step.stepOrder > current.stepOrder) || null;
+}
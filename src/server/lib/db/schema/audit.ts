@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, timestamp, jsonb, index } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, jsonb, index, integer, uniqueIndex } from 'drizzle-orm/pg-core';
 import { tenant, user } from './system';
 
 export const auditLogs = pgTable('audit_logs', {
@@ -30,10 +30,50 @@ export const auditLogs = pgTable('audit_logs', {
   ipAddress: varchar('ip_address', { length: 50 }),
   
   createdAt: timestamp('created_at').defaultNow().notNull(),
+
+  // Tamper-evident hash chain per tenant: position in the chain, the previous entry's hash and the SHA-256 of
+  // this entry's content and the previous hash. Null on entries written before the chain was introduced.
+  sequence: integer('sequence'),
+  previousHash: varchar('previous_hash', { length: 64 }),
+  hash: varchar('hash', { length: 64 }),
 },
 (table) => [
   index('audit_logs_tenant_idx').on(table.tenantId),
   index('audit_logs_created_at_idx').on(table.createdAt.desc()),
   index('audit_logs_resource_idx').on(table.resourceType, table.resourceId),
   index('audit_logs_tenant_time_idx').on(table.tenantId, table.createdAt.desc()),
+  uniqueIndex('audit_logs_tenant_sequence_idx').on(table.tenantId, table.sequence),
+]);
+
+
+// Audit entries moved out of audit_logs by the retention policy, one row per archive file
+export const auditLogArchives = pgTable('audit_log_archives', {
+  id: uuid('id').primaryKey().defaultRandom(),
+
+  tenantId: uuid('tenant_id')
+    .notNull()
+    .references(() => tenant.id),
+
+  // Entries created before this moment were archived
+  cutoff: timestamp('cutoff').notNull(),
+  rowCount: integer('row_count').notNull(),
+  fromDate: timestamp('from_date'),
+  toDate: timestamp('to_date'),
+
+  // Last chained entry archived; chain verification continues from it
+  toSequence: integer('to_sequence'),
+  lastHash: varchar('last_hash', { length: 64 }),
+
+  // Gzipped NDJSON under storage/, and the SHA-256 of its uncompressed content
+  filePath: varchar('file_path', { length: 500 }).notNull(),
+  fileSize: integer('file_size').notNull(),
+  contentHash: varchar('content_hash', { length: 64 }).notNull(),
+
+  trigger: varchar('trigger', { length: 20 }).notNull(), // scheduled, manual
+  createdBy: uuid('created_by')
+    .references(() => user.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+},
+(table) => [
+  index('audit_log_archives_tenant_idx').on(table.tenantId, table.createdAt.desc()),
 ]);
@@ -5,8 +5,19 @@ export * from './audit';
 export * from '@modules/sample-module/server/lib/db/schemas/sampleModule';
 export * from '@modules/master-data/server/lib/db/schemas/masterData';
 export * from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+export * from '@modules/warehouse-setup/server/lib/db/schemas/labels';
 export * from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+export * from '@modules/inventory-items/server/lib/db/schemas/stockMovements';
+export * from '@modules/inventory-items/server/lib/db/schemas/adjustments';
+export * from '@modules/inventory-items/server/lib/db/schemas/cycleCounts';
+export * from '@modules/inventory-items/server/lib/db/schemas/stockTransfers';
 export * from '@modules/document-numbering/server/lib/db/schemas/documentNumbering';
 export * from '@modules/purchase-order/server/lib/db/schemas/purchaseOrder';
+export * from '@modules/purchase-order/server/lib/db/schemas/goodsReceipt';
+export * from '@modules/purchase-order/server/lib/db/schemas/putaway';
+export * from '@modules/purchase-order/server/lib/db/schemas/replenishment';
+export * from '@modules/sales-order/server/lib/db/schemas/salesOrder';
+export * from '@modules/sales-order/server/lib/db/schemas/allocation';
+export * from '@modules/sales-order/server/lib/db/schemas/picking';
 export * from '@modules/workflow/server/lib/db/schemas/workflow';
 export * from '@modules/reports/server/lib/db/schemas/reports';
\ No newline at end of file
@@ -92,6 +92,9 @@ async function seed() {
     { id: crypto.randomUUID(), code: "system.module.view", name: "View Module", description: "Permission to view module", tenantId: sysTenantId },
     { id: crypto.randomUUID(), code: "system.module.manage", name: "Manage Module", description: "Permission to manage module", tenantId: sysTenantId },
 
+    { id: crypto.randomUUID(), code: "system.audit.view", name: "View Audit Logs", description: "Permission to export, verify and download archived audit logs", tenantId: sysTenantId },
+    { id: crypto.randomUUID(), code: "system.audit.archive", name: "Archive Audit Logs", description: "Permission to archive audit logs", tenantId: sysTenantId },
+
     // public tenant permissions
     { id: crypto.randomUUID(), code: "system.tenant.view", name: "View Tenant", description: "Permission to view tenant", tenantId: pubTenantId },
     { id: crypto.randomUUID(), code: "system.tenant.edit", name: "Edit Tenant", description: "Permission to edit tenant", tenantId: pubTenantId },
@@ -120,6 +123,9 @@ async function seed() {
     { id: crypto.randomUUID(), code: "system.module.view", name: "View Module", description: "Permission to view module", tenantId: pubTenantId },
     { id: crypto.randomUUID(), code: "system.module.manage", name: "Manage Module", description: "Permission to manage module", tenantId: pubTenantId },
 
+    { id: crypto.randomUUID(), code: "system.audit.view", name: "View Audit Logs", description: "Permission to export, verify and download archived audit logs", tenantId: pubTenantId },
+    { id: crypto.randomUUID(), code: "system.audit.archive", name: "Archive Audit Logs", description: "Permission to archive audit logs", tenantId: pubTenantId },
+
   ]);
 
   console.log("Seeding module registry");
@@ -1,6 +1,7 @@
 import { db } from ".";
 import { productTypes, packageTypes, products } from "@modules/master-data/server/lib/db/schemas/masterData";
 import { inventoryItems } from "@modules/inventory-items/server/lib/db/schemas/inventoryItems";
+import { stockMovements } from "@modules/inventory-items/server/lib/db/schemas/stockMovements";
 import { tenant } from "./schema/system";
 import { bins } from "@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup";
 import { sql } from "drizzle-orm";
@@ -367,6 +368,25 @@ async function seedMasterDataAndInventory() {
     await db.insert(inventoryItems).values(inventoryItemData);
     console.log(`✓ Seeded ${inventoryItemData.length} inventory items`);
 
+    // Opening balances so the stock ledger agrees with the seeded quantities
+    await db.insert(stockMovements).values(
+      inventoryItemData.map((item) => ({
+        tenantId,
+        movementType: 'opening_balance' as const,
+        inventoryItemId: item.id,
+        productId: item.productId,
+        binId: item.binId,
+        toBinId: item.binId,
+        quantityDelta: item.availableQuantity + item.reservedQuantity,
+        batchNumber: item.batchNumber,
+        lotNumber: item.lotNumber,
+        expiryDate: item.expiryDate,
+        referenceType: 'inventory_item',
+        referenceId: item.id,
+      }))
+    );
+    console.log(`✓ Seeded ${inventoryItemData.length} opening balance movements`);
+
     console.log("\n=== Seeding Summary ===");
     console.log(`Product Types: ${productTypeData.length}`);
     console.log(`Package Types: ${packageTypeData.length}`);
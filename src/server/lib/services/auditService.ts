@@ -1,5 +1,4 @@
-import { db } from '../db';
-import { auditLogs } from '../db/schema';
+import { logAudit } from '../../services/auditService';
 import { v4 as uuidv4 } from 'uuid';
 
 interface AuditLogParams {
@@ -20,28 +19,9 @@ interface AuditLogParams {
 }
 
 export class AuditService {
+  // Writes through logAudit, so these entries join the tenant's audit hash chain
   static async log(params: AuditLogParams) {
-    try {
-      await db.insert(auditLogs).values({
-        id: uuidv4(),
-        tenantId: params.tenantId,
-        userId: params.userId || null,
-        module: params.module,
-        action: params.action,
-        resourceType: params.resourceType,
-        resourceId: params.resourceId,
-        changedFields: params.changedFields || null,
-        description: params.description || null,
-        previousState: params.previousState || null,
-        newState: params.newState || null,
-        batchId: params.batchId || null,
-        status: params.status || 'success',
-        errorMessage: params.errorMessage || null,
-        ipAddress: params.ipAddress || null,
-      });
-    } catch (error) {
-      console.error('Failed to write audit log:', error);
-    }
+    await logAudit(params);
   }
 
   static async logCreate(params: Omit<AuditLogParams, 'action' | 'previousState'>) {
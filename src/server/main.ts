@@ -7,18 +7,34 @@ import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
 import { fileURLToPath } from 'url';
 import masterDataRoutes from '../modules/master-data/server/routes/masterDataRoutes';
+import masterDataImportExportRoutes from '../modules/master-data/server/routes/importExportRoutes';
 import warehouseSetupRoutes from '../modules/warehouse-setup/server/routes/warehouseSetupRoutes';
 import warehouseRoutes from '../modules/warehouse-setup/server/routes/warehouseRoutes';
 import zoneRoutes from '../modules/warehouse-setup/server/routes/zoneRoutes';
+import labelRoutes from '../modules/warehouse-setup/server/routes/labelRoutes';
+import layoutRoutes from '../modules/warehouse-setup/server/routes/layoutRoutes';
+import capacityRoutes from '../modules/warehouse-setup/server/routes/capacityRoutes';
 import inventoryItemsRoutes from '../modules/inventory-items/server/routes/inventoryItemsRoutes';
+import adjustmentRoutes from '../modules/inventory-items/server/routes/adjustmentRoutes';
+import cycleCountRoutes from '../modules/inventory-items/server/routes/cycleCountRoutes';
+import transferRoutes from '../modules/inventory-items/server/routes/transferRoutes';
+import stockMovementRoutes from '../modules/inventory-items/server/routes/stockMovementRoutes';
+import scanRoutes from '../modules/inventory-items/server/routes/scanRoutes';
 import documentNumberConfigRoutes from '../modules/document-numbering/server/routes/documentNumberConfigRoutes';
 import documentNumberGeneratorRoutes from '../modules/document-numbering/server/routes/documentNumberGeneratorRoutes';
 import documentNumberHistoryRoutes from '../modules/document-numbering/server/routes/documentNumberHistoryRoutes';
 import documentNumberTrackerRoutes from '../modules/document-numbering/server/routes/documentNumberTrackerRoutes';
 import generatedDocumentsRoutes from '../modules/document-numbering/server/routes/generatedDocumentsRoutes';
 import purchaseOrderRoutes from '../modules/purchase-order/server/routes/purchaseOrderRoutes';
+import goodsReceiptRoutes from '../modules/purchase-order/server/routes/goodsReceiptRoutes';
+import putawayRoutes from '../modules/purchase-order/server/routes/putawayRoutes';
+import replenishmentRoutes from '../modules/purchase-order/server/routes/replenishmentRoutes';
+import { startReplenishmentScheduler } from '../modules/purchase-order/server/services/replenishmentService';
+import salesOrderRoutes from '../modules/sales-order/server/routes/salesOrderRoutes';
+import pickingRoutes from '../modules/sales-order/server/routes/pickingRoutes';
 import workflowRoutes from '../modules/workflow/server/routes/workflowRoutes';
 import reportsRoutes from '../modules/reports/server/routes/reportsRoutes';
+import valuationRoutes from '../modules/reports/server/routes/valuationRoutes';
 import ViteExpress from "vite-express";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -33,6 +49,9 @@ import roleRoutes from "./routes/system/role";
 import tenantRoutes from "./routes/system/tenant";
 import userRoutes from "./routes/system/user";
 import auditLogRoutes from "./routes/auditLogRoutes";
+import dashboardRoutes from "./routes/dashboardRoutes";
+import { auditTrail } from "./middleware/auditMiddleware";
+import { startAuditRetentionScheduler } from "./services/auditArchiveService";
 
 
 const app = express();
@@ -97,6 +116,9 @@ app.get('/api-docs-json', (req, res) => {
   res.json(swaggerDocs);
 });
 
+// audit trail of every mutating API request
+app.use('/api', auditTrail());
+
 // auth routes
 app.use('/api/auth', authRoutes);
 
@@ -109,6 +131,7 @@ app.use('/api/system/user', userRoutes);
 app.use('/api/system/module-authorization', moduleAuthorizationRoutes);
 app.use('/api/system/module-registry', moduleRegistryRoutes);
 app.use('/api/audit-logs', auditLogRoutes);
+app.use('/api/dashboard', dashboardRoutes);
 
 // demo routes
 app.use('/api/demo/department', departmentRoutes);
@@ -118,14 +141,23 @@ app.use('/api/modules/sample-module', sampleModuleRoutes);
 
 // master-data routes
 app.use('/api/modules/master-data', masterDataRoutes);
+app.use('/api/modules/master-data', masterDataImportExportRoutes);
 
 // warehouse-setup routes
 app.use('/api/modules/warehouse-setup', warehouseSetupRoutes);
 app.use('/api/modules/warehouse-setup', warehouseRoutes);
 app.use('/api/modules/warehouse-setup', zoneRoutes);
+app.use('/api/modules/warehouse-setup', labelRoutes);
+app.use('/api/modules/warehouse-setup', layoutRoutes);
+app.use('/api/modules/warehouse-setup', capacityRoutes);
 
 // inventory-items routes
 app.use('/api/modules/inventory-items', inventoryItemsRoutes);
+app.use('/api/modules/inventory-items', adjustmentRoutes);
+app.use('/api/modules/inventory-items', cycleCountRoutes);
+app.use('/api/modules/inventory-items', transferRoutes);
+app.use('/api/modules/inventory-items', stockMovementRoutes);
+app.use('/api/modules/inventory-items', scanRoutes);
 
 // document-numbering routes
 app.use('/api/modules/document-numbering', documentNumberConfigRoutes);
@@ -136,13 +168,23 @@ app.use('/api/modules/document-numbering', generatedDocumentsRoutes);
 
 // purchase-order routes
 app.use('/api/modules/purchase-order', purchaseOrderRoutes);
+app.use('/api/modules/purchase-order', goodsReceiptRoutes);
+app.use('/api/modules/purchase-order', putawayRoutes);
+app.use('/api/modules/purchase-order', replenishmentRoutes);
+
+// sales-order routes
+app.use('/api/modules/sales-order', salesOrderRoutes);
+app.use('/api/modules/sales-order', pickingRoutes);
 
 // workflow routes
 app.use('/api/modules/workflow', workflowRoutes);
 
 // reports routes
 app.use('/api/modules/reports', reportsRoutes);
+app.use('/api/modules/reports', valuationRoutes);
 
-ViteExpress.listen(app, 5000, () =>
-  console.log("Server is listening on port 5000..."),
-);
+ViteExpress.listen(app, 5000, () => {
+  console.log("Server is listening on port 5000...");
+  startReplenishmentScheduler();
+  startAuditRetentionScheduler();
+});
@@ -0,0 +1,354 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { and, asc, eq, getTableColumns } from 'drizzle-orm';
+import { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { db } from '../lib/db';
+import {
+  aisles,
+  bins,
+  cycleCountLines,
+  cycleCounts,
+  customers,
+  department,
+  documentNumberConfig,
+  documentNumberHistory,
+  generatedDocuments,
+  inventoryAdjustments,
+  inventoryItems,
+  labelTemplates,
+  moduleRegistry,
+  option,
+  packageTypes,
+  permission,
+  pickListItems,
+  pickWaves,
+  productTypes,
+  products,
+  purchaseOrderItems,
+  purchaseOrders,
+  putawayTasks,
+  reports,
+  role,
+  rolePermission,
+  salesOrders,
+  sampleModule,
+  shelves,
+  supplierProducts,
+  suppliers,
+  tenant,
+  user,
+  userRole,
+  warehouseConfigs,
+  warehouses,
+  workflowSteps,
+  workflows,
+  zones,
+} from '../lib/db/schema';
+import {
+  auditContext,
+  AuditContext,
+  AuditSnapshot,
+  diffSnapshots,
+  getClientIp,
+  logAudit,
+  stateOf,
+  toAuditValue,
+} from '../services/auditService';
+import { getTokenUser } from './authMiddleware';
+
+interface AuditedResource {
+  resourceType: string;
+  // The record as the tenant sees it, or null when it does not exist
+  load: (id: string, tenantId: string) => Promise<AuditSnapshot | null>;
+}
+
+/**
+ * Loads a row of the table by id, within the tenant when the table is tenant scoped
+ */
+function tableRow(table: PgTable): AuditedResource['load'] {
+  const columns = getTableColumns(table) as Record<string, PgColumn>;
+  return async (id, tenantId) => {
+    const [row] = await db
+      .select()
+      .from(table)
+      .where(and(eq(columns.id, id), columns.tenantId ? eq(columns.tenantId, tenantId) : undefined));
+    return (row as AuditSnapshot) || null;
+  };
+}
+
+/**
+ * A user with the codes of their roles in the tenant, so role assignments show up in the diff
+ */
+async function loadUser(id: string, tenantId: string): Promise<AuditSnapshot | null> {
+  const [row] = await db.select().from(user).where(eq(user.id, id));
+  if (!row) {
+    return null;
+  }
+
+  const roles = await db
+    .select({ code: role.code })
+    .from(userRole)
+    .innerJoin(role, eq(userRole.roleId, role.id))
+    .where(and(eq(userRole.userId, id), eq(userRole.tenantId, tenantId)))
+    .orderBy(asc(role.code));
+
+  return { ...row, roles: roles.map((r) => r.code) };
+}
+
+/**
+ * A role with the codes of its permissions
+ */
+async function loadRole(id: string, tenantId: string): Promise<AuditSnapshot | null> {
+  const [row] = await db.select().from(role).where(and(eq(role.id, id), eq(role.tenantId, tenantId)));
+  if (!row) {
+    return null;
+  }
+
+  const permissions = await db
+    .select({ code: permission.code })
+    .from(rolePermission)
+    .innerJoin(permission, eq(rolePermission.permissionId, permission.id))
+    .where(and(eq(rolePermission.roleId, id), eq(rolePermission.tenantId, tenantId)))
+    .orderBy(asc(permission.code));
+
+  return { ...row, permissions: permissions.map((p) => p.code) };
+}
+
+/**
+ * Records whose before and after state the audit trail diffs, by API path below `/api` with the ids left out.
+ * A request is matched to the longest registered path; the path segments after it name the action
+ * (e.g. `modules/purchase-order/orders/:id/approve`). Mutations of paths not listed here are still audited,
+ * with the request body in place of the diff.
+ */
+const AUDITED_RESOURCES: Record<string, AuditedResource> = {
+  'system/user': { resourceType: 'user', load: loadUser },
+  'system/role': { resourceType: 'role', load: loadRole },
+  'system/permission': { resourceType: 'permission', load: tableRow(permission) },
+  'system/tenant': { resourceType: 'tenant', load: tableRow(tenant) },
+  'system/option': { resourceType: 'option', load: tableRow(option) },
+  'system/module-registry': { resourceType: 'module', load: tableRow(moduleRegistry) },
+  'demo/department': { resourceType: 'department', load: tableRow(department) },
+  'modules/sample-module/sample-module': { resourceType: 'sample_module', load: tableRow(sampleModule) },
+  'modules/master-data/product-types': { resourceType: 'product_type', load: tableRow(productTypes) },
+  'modules/master-data/package-types': { resourceType: 'package_type', load: tableRow(packageTypes) },
+  'modules/master-data/products': { resourceType: 'product', load: tableRow(products) },
+  'modules/master-data/suppliers': { resourceType: 'supplier', load: tableRow(suppliers) },
+  'modules/master-data/suppliers/products': { resourceType: 'supplier_product', load: tableRow(supplierProducts) },
+  'modules/master-data/customers': { resourceType: 'customer', load: tableRow(customers) },
+  'modules/warehouse-setup/warehouses': { resourceType: 'warehouse', load: tableRow(warehouses) },
+  'modules/warehouse-setup/warehouse-configs': { resourceType: 'warehouse_config', load: tableRow(warehouseConfigs) },
+  'modules/warehouse-setup/zones': { resourceType: 'zone', load: tableRow(zones) },
+  'modules/warehouse-setup/aisles': { resourceType: 'aisle', load: tableRow(aisles) },
+  'modules/warehouse-setup/shelves': { resourceType: 'shelf', load: tableRow(shelves) },
+  'modules/warehouse-setup/bins': { resourceType: 'bin', load: tableRow(bins) },
+  'modules/warehouse-setup/label-templates': { resourceType: 'label_template', load: tableRow(labelTemplates) },
+  'modules/inventory-items/inventory-items': { resourceType: 'inventory_item', load: tableRow(inventoryItems) },
+  'modules/inventory-items/adjustments': { resourceType: 'inventory_adjustment', load: tableRow(inventoryAdjustments) },
+  'modules/inventory-items/cycle-counts': { resourceType: 'cycle_count', load: tableRow(cycleCounts) },
+  'modules/inventory-items/cycle-counts/lines': { resourceType: 'cycle_count_line', load: tableRow(cycleCountLines) },
+  'modules/document-numbering/configs': { resourceType: 'document_number_config', load: tableRow(documentNumberConfig) },
+  'modules/document-numbering/history': { resourceType: 'document_number_history', load: tableRow(documentNumberHistory) },
+  'modules/document-numbering/documents': { resourceType: 'generated_document', load: tableRow(generatedDocuments) },
+  'modules/purchase-order/orders': { resourceType: 'purchase_order', load: tableRow(purchaseOrders) },
+  'modules/purchase-order/items': { resourceType: 'purchase_order_item', load: tableRow(purchaseOrderItems) },
+  'modules/purchase-order/putaway-tasks': { resourceType: 'putaway_task', load: tableRow(putawayTasks) },
+  'modules/sales-order/orders': { resourceType: 'sales_order', load: tableRow(salesOrders) },
+  'modules/sales-order/waves': { resourceType: 'pick_wave', load: tableRow(pickWaves) },
+  'modules/sales-order/waves/lines': { resourceType: 'pick_list_item', load: tableRow(pickListItems) },
+  'modules/workflow/workflows': { resourceType: 'workflow', load: tableRow(workflows) },
+  'modules/workflow/steps': { resourceType: 'workflow_step', load: tableRow(workflowSteps) },
+  'modules/reports/reports': { resourceType: 'report', load: tableRow(reports) },
+};
+
+// Paths below `/api` that are never audited: signing in, and reading the audit trail itself
+const UNAUDITED_PATHS = ['auth', 'audit-logs'];
+
+const METHOD_ACTIONS: Record<string, string> = {
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+// Action segments of the system routes (`/add`, `/:id/edit`, `/:id/delete`) and the bulk routes
+const ACTION_ALIASES: Record<string, string> = {
+  add: 'create',
+  edit: 'update',
+  delete: 'delete',
+  bulk: 'bulk_create',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface PathPart {
+  name: string;
+  id?: string;
+}
+
+interface AuditTarget {
+  module: string;
+  resourceType: string;
+  resource?: AuditedResource;
+  id?: string;
+  action: string;
+}
+
+/**
+ * Splits a path below `/api` into its named segments, each with the id that follows it
+ */
+function parsePath(path: string): PathPart[] {
+  const parts: PathPart[] = [];
+  for (const segment of path.split('/').filter(Boolean).map(decodeURIComponent)) {
+    const last = parts[parts.length - 1];
+    if (UUID_PATTERN.test(segment) && last && !last.id) {
+      last.id = segment;
+    } else {
+      parts.push({ name: segment });
+    }
+  }
+  return parts;
+}
+
+/**
+ * The module, record and action a mutating request is about, or null when it is not audited
+ */
+function resolveTarget(method: string, path: string, dryRun: boolean): AuditTarget | null {
+  const parts = parsePath(path);
+  if (parts.length === 0 || UNAUDITED_PATHS.includes(parts[0].name) || dryRun) {
+    return null;
+  }
+
+  const last = parts[parts.length - 1].name;
+  if (last.startsWith('preview') || last.startsWith('validate-')) {
+    return null;
+  }
+
+  const module = parts[0].name === 'modules' && parts[1] ? parts[1].name : parts[0].name;
+
+  let matched = 0;
+  for (let length = parts.length; length > 0; length--) {
+    if (AUDITED_RESOURCES[parts.slice(0, length).map((part) => part.name).join('/')]) {
+      matched = length;
+      break;
+    }
+  }
+
+  // Unregistered paths name the resource after the first segment below the module
+  const resourceLength = matched || Math.min(parts.length, parts[0].name === 'modules' ? 3 : 2);
+  const resourcePart = parts[resourceLength - 1];
+  const resource = matched
+    ? AUDITED_RESOURCES[parts.slice(0, matched).map((part) => part.name).join('/')]
+    : undefined;
+
+  const actionNames = parts.slice(resourceLength).map((part) => part.name);
+  const action = actionNames.length === 0
+    ? METHOD_ACTIONS[method]
+    : ACTION_ALIASES[actionNames.join('/')] || actionNames.join('_').replace(/-/g, '_');
+
+  return {
+    module,
+    resourceType: resource?.resourceType || resourcePart.name.replace(/-/g, '_'),
+    resource,
+    id: resourcePart.id,
+    action,
+  };
+}
+
+/**
+ * Audit trail for every mutating API request (POST, PUT, PATCH, DELETE) of a signed-in user.
+ *
+ * Writes one audit entry per request once the response is sent: the module, action and record resolved
+ * from the path, the user, client IP and outcome, and for the records in AUDITED_RESOURCES the field-level
+ * diff between the record before and after the request. Routes that write their own audit entries through
+ * `logAudit` replace the generic entry. Every entry a request writes carries the same batchId, which a client
+ * can set with the `X-Batch-Id` header (a UUID) to group the requests of a bulk operation.
+ */
+export const auditTrail = () => async (req: Request, res: Response, next: NextFunction) => {
+  if (!METHOD_ACTIONS[req.method]) {
+    return next();
+  }
+
+  const path = req.originalUrl.split('?')[0].replace(/^\/api\/?/, '');
+  const target = resolveTarget(req.method, path, req.query.dryRun === 'true');
+  if (!target) {
+    return next();
+  }
+
+  let tenantId: string;
+  let userId: string;
+  let before: AuditSnapshot | null = null;
+  try {
+    // Requests without a valid token are rejected by the routes and have no tenant to be audited in
+    const currentUser = await getTokenUser(req);
+    if (!currentUser) {
+      return next();
+    }
+    tenantId = currentUser.activeTenantId;
+    userId = currentUser.id;
+
+    if (target.resource && target.id) {
+      before = await target.resource.load(target.id, tenantId);
+    }
+  } catch (error) {
+    console.error('Failed to prepare audit log:', error);
+    return next();
+  }
+
+  const requestedBatchId = req.get('X-Batch-Id');
+  const context: AuditContext = {
+    batchId: requestedBatchId && UUID_PATTERN.test(requestedBatchId) ? requestedBatchId.toLowerCase() : randomUUID(),
+    logged: false,
+  };
+
+  let responseBody: any;
+  const json = res.json.bind(res);
+  res.json = (body) => {
+    responseBody = body;
+    return json(body);
+  };
+
+  res.on('finish', async () => {
+    if (context.logged) {
+      return;
+    }
+
+    try {
+      const succeeded = res.statusCode < 400;
+      const createdId = responseBody?.data?.id ?? responseBody?.id;
+      const resourceId = target.id || (typeof createdId === 'string' ? createdId : undefined);
+
+      let after: AuditSnapshot | null = null;
+      if (succeeded && target.resource && resourceId && req.method !== 'DELETE') {
+        after = await target.resource.load(resourceId, tenantId);
+      }
+
+      // Failed requests record what was asked for, not the record (which may belong to another tenant)
+      const changedFields = succeeded && target.resource && (before || after)
+        ? diffSnapshots(before, after)
+        : toAuditValue('', req.body) as Record<string, unknown> | null;
+      const previousState = succeeded ? stateOf(before) : undefined;
+      const newState = succeeded ? stateOf(after) : undefined;
+
+      await logAudit({
+        tenantId,
+        userId,
+        module: target.module,
+        action: target.action,
+        resourceType: target.resourceType,
+        resourceId: resourceId || context.batchId,
+        changedFields: changedFields && Object.keys(changedFields).length > 0 ? changedFields : undefined,
+        description: `${req.method} /api/${path}`,
+        previousState: previousState !== newState ? previousState : undefined,
+        newState: previousState !== newState ? newState : undefined,
+        batchId: context.batchId,
+        status: succeeded ? 'success' : 'failure',
+        errorMessage: succeeded ? undefined : responseBody?.message || responseBody?.error || `HTTP ${res.statusCode}`,
+        ipAddress: getClientIp(req),
+      });
+    } catch (error) {
+      console.error('Failed to write audit log:', error);
+    }
+  });
+
+  auditContext.run(context, next);
+};
@@ -37,7 +37,7 @@ export const authenticated = () => async (req: Request, res: Response, next: Nex
     if (!currentUser) {
       return res.status(401).json({ message: 'Unauthorized.' });
     }
-    req.user = { username: currentUser.username, activeTenantId: currentUser.activeTenantId }; // Attach decoded user information to the request
+    req.user = { id: currentUser.id, username: currentUser.username, activeTenantId: currentUser.activeTenantId }; // Attach decoded user information to the request
     next();
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -47,6 +47,47 @@ export const authenticated = () => async (req: Request, res: Response, next: Nex
   }
 };
 
+/**
+ * The active user the request's bearer token belongs to, or null when it carries no valid token.
+ * For middleware that runs before the routers authenticate the request.
+ */
+export async function getTokenUser(req: Request) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+
+  try {
+    const decoded = jwt.verify(authHeader.split(' ')[1], ACCESS_TOKEN_SECRET) as DecodedToken;
+    if (!decoded.username) {
+      return null;
+    }
+    const [currentUser] = await db
+      .select({ id: user.id, username: user.username, activeTenantId: user.activeTenantId })
+      .from(user)
+      .where(and(
+        eq(user.username, decoded.username),
+        eq(user.status, "active"))
+      )
+      .limit(1);
+    return currentUser || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the user passes `authorized(roles, permissions)`: SYSADMIN, one of the roles or one of the permissions.
+ * For routes that can only decide on access once the record is loaded.
+ */
+export async function isAuthorized(username: string, roles: string | string[], permissions: string | string[]) {
+  if (await userHasRoles(username, ['SYSADMIN'])) {
+    return true;
+  }
+  return await userHasRoles(username, Array.isArray(roles) ? roles : [roles])
+    || await userHasPermissions(username, Array.isArray(permissions) ? permissions : [permissions]);
+}
+
 export const authorized = (
   roles: string | string[],
   permissions: string | string[],
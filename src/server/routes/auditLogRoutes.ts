@@ -1,12 +1,67 @@
-import express from 'express';
+import express, { Request } from 'express';
+import { format } from 'fast-csv';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { db } from '../lib/db';
-import { auditLogs } from '../lib/db/schema';
-import { authenticated } from '../middleware/authMiddleware';
+import { auditLogArchives, auditLogs } from '../lib/db/schema';
+import { authenticated, authorized, hasPermissions } from '../middleware/authMiddleware';
+import { getClientIp, verifyAuditChain } from '../services/auditService';
+import {
+  archiveAuditLogs,
+  AuditArchiveError,
+  getAuditRetention,
+  iterateAuditLogs,
+  retentionCutoff,
+} from '../services/auditArchiveService';
 import { and, eq, desc, gte, lte, sql } from 'drizzle-orm';
 
 const router = express.Router();
 router.use(authenticated());
 
+const EXPORT_FORMATS = ['csv', 'ndjson'];
+
+const CSV_HEADERS = [
+  'id', 'createdAt', 'module', 'action', 'resourceType', 'resourceId', 'userId', 'username', 'description',
+  'changedFields', 'previousState', 'newState', 'batchId', 'status', 'errorMessage', 'ipAddress', 'sequence',
+  'previousHash', 'hash',
+];
+
+/**
+ * Filter conditions of the audit log list and export query parameters
+ */
+function auditLogConditions(tenantId: string, query: Request['query']) {
+  const { module, action, resourceType, resourceId, userId, startDate, endDate, status } = query;
+  const conditions = [eq(auditLogs.tenantId, tenantId)];
+
+  if (module) {
+    conditions.push(eq(auditLogs.module, module as string));
+  }
+  if (action) {
+    conditions.push(eq(auditLogs.action, action as string));
+  }
+  if (resourceType) {
+    conditions.push(eq(auditLogs.resourceType, resourceType as string));
+  }
+  if (resourceId) {
+    conditions.push(eq(auditLogs.resourceId, resourceId as string));
+  }
+  if (userId) {
+    conditions.push(eq(auditLogs.userId, userId as string));
+  }
+  if (startDate) {
+    conditions.push(gte(auditLogs.createdAt, new Date(startDate as string)));
+  }
+  if (endDate) {
+    conditions.push(lte(auditLogs.createdAt, new Date(endDate as string)));
+  }
+  if (status) {
+    conditions.push(eq(auditLogs.status, status as string));
+  }
+
+  return conditions;
+}
+
 /**
  * @swagger
  * /api/audit-logs:
@@ -80,48 +135,12 @@ router.use(authenticated());
 router.get('/', async (req, res) => {
   try {
     const tenantId = req.user!.activeTenantId;
-    const {
-      module,
-      action,
-      resourceType,
-      resourceId,
-      userId,
-      startDate,
-      endDate,
-      status,
-      limit = '50',
-      offset = '0',
-    } = req.query;
+    const { limit = '50', offset = '0' } = req.query;
 
     const limitNum = Math.min(parseInt(limit as string) || 50, 500);
     const offsetNum = parseInt(offset as string) || 0;
 
-    const conditions = [eq(auditLogs.tenantId, tenantId)];
-
-    if (module) {
-      conditions.push(eq(auditLogs.module, module as string));
-    }
-    if (action) {
-      conditions.push(eq(auditLogs.action, action as string));
-    }
-    if (resourceType) {
-      conditions.push(eq(auditLogs.resourceType, resourceType as string));
-    }
-    if (resourceId) {
-      conditions.push(eq(auditLogs.resourceId, resourceId as string));
-    }
-    if (userId) {
-      conditions.push(eq(auditLogs.userId, userId as string));
-    }
-    if (startDate) {
-      conditions.push(gte(auditLogs.createdAt, new Date(startDate as string)));
-    }
-    if (endDate) {
-      conditions.push(lte(auditLogs.createdAt, new Date(endDate as string)));
-    }
-    if (status) {
-      conditions.push(eq(auditLogs.status, status as string));
-    }
+    const conditions = auditLogConditions(tenantId, req.query);
 
     const logs = await db
       .select()
@@ -154,6 +173,400 @@ router.get('/', async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/audit-logs/export:
+ *   get:
+ *     summary: Export audit logs as CSV or NDJSON
+ *     description: |
+ *       Streams every audit entry matching the filters, oldest first, without a row limit. Takes the filters of
+ *       GET /api/audit-logs. changedFields is a JSON string in the CSV.
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, ndjson]
+ *           default: csv
+ *       - in: query
+ *         name: module
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: resourceType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: resourceId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [success, failure]
+ *     responses:
+ *       200:
+ *         description: Audit log file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get('/export', authorized('ADMIN', 'system.audit.view'), async (req, res) => {
+  const exportFormat = (req.query.format as string) || 'csv';
+  if (!EXPORT_FORMATS.includes(exportFormat)) {
+    return res.status(400).json({
+      success: false,
+      message: `format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+    });
+  }
+
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const rows = iterateAuditLogs(and(...auditLogConditions(tenantId, req.query)));
+    const fileName = `audit-logs-${new Date().toISOString().slice(0, 10)}.${exportFormat}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    if (exportFormat === 'ndjson') {
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      await pipeline(
+        Readable.from((async function* () {
+          for await (const row of rows) {
+            yield `${JSON.stringify(row)}\n`;
+          }
+        })()),
+        res
+      );
+    } else {
+      res.setHeader('Content-Type', 'text/csv');
+      await pipeline(
+        Readable.from((async function* () {
+          for await (const row of rows) {
+            yield {
+              ...row,
+              createdAt: row.createdAt.toISOString(),
+              changedFields: row.changedFields === null ? '' : JSON.stringify(row.changedFields),
+            };
+          }
+        })()),
+        format({ headers: CSV_HEADERS }),
+        res
+      );
+    }
+  } catch (error) {
+    console.error('Error exporting audit logs:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to export audit logs',
+      });
+    } else {
+      res.destroy();
+    }
+  }
+});
+
+/**
+ * @swagger
+ * /api/audit-logs/archives:
+ *   get:
+ *     summary: Get the audit log retention setting and archives
+ *     description: |
+ *       The retention is the tenant option `audit.retention_days` (0, the default, keeps entries indefinitely).
+ *       Once a day, entries older than the retention are moved to a gzipped NDJSON archive under storage/ and
+ *       deleted from the audit log.
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Retention setting and archives, newest first
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get('/archives', authorized('ADMIN', 'system.audit.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const data = await getAuditRetention(tenantId);
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error fetching audit log archives:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch audit log archives',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/audit-logs/archives:
+ *   post:
+ *     summary: Archive audit log entries now
+ *     description: |
+ *       Moves the entries past the tenant's retention, or only those created before an earlier `before`, to a
+ *       gzipped NDJSON archive under storage/ and deletes them from the audit log. Entries inside the retention
+ *       window are never archived: a later `before` is moved back to the start of the window. The archival is
+ *       itself audited.
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               before:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Archive created
+ *       200:
+ *         description: Nothing to archive
+ *       400:
+ *         description: Invalid cutoff, or no retention set for the tenant
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post('/archives', hasPermissions('system.audit.archive'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const { retentionDays } = await getAuditRetention(tenantId);
+    if (retentionDays <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No retention is set for the tenant; its audit log entries are kept indefinitely',
+      });
+    }
+
+    const retentionStart = retentionCutoff(retentionDays);
+    const before = req.body?.before ? new Date(req.body.before) : retentionStart;
+    if (Number.isNaN(before.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'before must be a valid date',
+      });
+    }
+    // Entries still inside the retention window stay in the audit log
+    const cutoff = before < retentionStart ? before : retentionStart;
+
+    const archive = await archiveAuditLogs(tenantId, {
+      cutoff,
+      trigger: 'manual',
+      userId: req.user!.id,
+      ipAddress: getClientIp(req),
+    });
+
+    if (!archive) {
+      return res.json({
+        success: true,
+        data: null,
+        message: 'No audit log entries to archive',
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: archive,
+      message: `${archive.rowCount} audit log entries archived`,
+    });
+  } catch (error) {
+    if (error instanceof AuditArchiveError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    console.error('Error archiving audit logs:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to archive audit logs',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/audit-logs/archives/{id}/download:
+ *   get:
+ *     summary: Download an audit log archive (gzipped NDJSON)
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Archive file
+ *         content:
+ *           application/gzip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Archive not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get('/archives/:id/download', authorized('ADMIN', 'system.audit.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const [archive] = await db
+      .select()
+      .from(auditLogArchives)
+      .where(and(eq(auditLogArchives.id, req.params.id), eq(auditLogArchives.tenantId, tenantId)));
+
+    if (!archive) {
+      return res.status(404).json({
+        success: false,
+        message: 'Archive not found',
+      });
+    }
+
+    res.download(path.join(process.cwd(), archive.filePath), path.basename(archive.filePath), (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({
+          success: false,
+          message: 'Archive file not found',
+        });
+      }
+    });
+  } catch (error) {
+    console.error('Error downloading audit log archive:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to download audit log archive',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/audit-logs/verify:
+ *   get:
+ *     summary: Verify the tenant's audit log hash chain
+ *     description: |
+ *       Every audit entry stores the SHA-256 of its content and the previous entry's hash, chained per tenant.
+ *       Walks the chain from the first entry and reports the first broken link: an entry altered after it was
+ *       written (hash_mismatch), an entry not linking to the one before it (previous_hash_mismatch), or a gap in
+ *       the sequence left by deleted entries (missing_entry).
+ *     tags: [Audit Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     valid:
+ *                       type: boolean
+ *                     checkedCount:
+ *                       type: integer
+ *                       description: Entries verified before the first broken link, or all of them
+ *                     unchainedCount:
+ *                       type: integer
+ *                       description: Entries written before the hash chain was introduced
+ *                     lastSequence:
+ *                       type: integer
+ *                       nullable: true
+ *                     brokenLink:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         sequence:
+ *                           type: integer
+ *                         expectedSequence:
+ *                           type: integer
+ *                         createdAt:
+ *                           type: string
+ *                           format: date-time
+ *                         reason:
+ *                           type: string
+ *                           enum: [hash_mismatch, previous_hash_mismatch, missing_entry]
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get('/verify', authorized('ADMIN', 'system.audit.view'), async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const data = await verifyAuditChain(tenantId);
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error verifying audit log chain:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify audit logs',
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/audit-logs/resource/{type}/{id}:
@@ -0,0 +1,188 @@
+import express from 'express';
+import { db } from '../lib/db';
+import { authenticated, isAuthorized } from '../middleware/authMiddleware';
+import { isModuleAuthorized } from '../middleware/moduleAuthMiddleware';
+import { warehouses } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { DashboardAccess, getDashboardKpis } from '../services/dashboardService';
+import { and, eq } from 'drizzle-orm';
+
+const router = express.Router();
+router.use(authenticated());
+
+// Time series windows the dashboard chart offers
+const SERIES_DAYS = [7, 30, 90];
+
+/**
+ * Whether the tenant has the module and the user passes the check of the module's own endpoint
+ */
+async function canSee(tenantId: string, username: string, moduleId: string, permission: string) {
+  return await isModuleAuthorized(moduleId, tenantId) && await isAuthorized(username, 'ADMIN', permission);
+}
+
+/**
+ * @swagger
+ * /api/dashboard:
+ *   get:
+ *     summary: Get the warehouse KPIs for the dashboard
+ *     description: |
+ *       On-hand units and value, open purchase orders by workflow state, stock near expiry (within the tenant option
+ *       `dashboard.expiry_warning_days`, 30 days by default, and already expired), active products at or below their
+ *       reorder point, bin utilization, and daily receipts and adjustments. Everything but the purchase orders is
+ *       measured on the stock in the selected warehouse; the purchase orders are those delivering to it.
+ *
+ *       Sections are null when the caller could not read them from their own endpoint: the stock value needs the
+ *       reports module and `reports.valuation.view`, the purchase orders the purchase-order module and
+ *       `purchase-order.view`, and bin utilization the warehouse-setup module and `warehouse-setup.view` (or the
+ *       ADMIN role).
+ *     tags: [Dashboard]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only this warehouse; all warehouses by default
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           enum: [7, 30, 90]
+ *           default: 90
+ *         description: Length of the receipts and adjustments time series
+ *     responses:
+ *       200:
+ *         description: Dashboard KPIs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     warehouseId:
+ *                       type: string
+ *                       nullable: true
+ *                     warehouses:
+ *                       type: array
+ *                       description: The tenant's warehouses for the filter
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           name:
+ *                             type: string
+ *                     onHand:
+ *                       type: object
+ *                       properties:
+ *                         quantity:
+ *                           type: integer
+ *                         value:
+ *                           type: number
+ *                           nullable: true
+ *                           description: On-hand units at the unit cost of their inventory rows
+ *                         uncostedQuantity:
+ *                           type: integer
+ *                           nullable: true
+ *                         productCount:
+ *                           type: integer
+ *                     openPurchaseOrders:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         total:
+ *                           type: integer
+ *                         byState:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               state:
+ *                                 type: string
+ *                               count:
+ *                                 type: integer
+ *                     nearExpiry:
+ *                       type: object
+ *                       description: Inventory rows expiring within `days`; items lists the first 10 by expiry date
+ *                     belowReorderPoint:
+ *                       type: object
+ *                       description: Products at or below their reorder point; items lists the 10 furthest below
+ *                     binUtilization:
+ *                       nullable: true
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/Utilization'
+ *                     series:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           date:
+ *                             type: string
+ *                             format: date
+ *                             description: UTC day
+ *                           receipts:
+ *                             type: integer
+ *                           adjustments:
+ *                             type: integer
+ *                             description: Net units of adjustments and posted cycle counts
+ *       400:
+ *         description: Invalid days
+ *       404:
+ *         description: Warehouse not found
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', async (req, res) => {
+  try {
+    const tenantId = req.user!.activeTenantId;
+    const warehouseId = (req.query.warehouseId as string) || undefined;
+    const days = req.query.days ? Number(req.query.days) : 90;
+
+    if (!SERIES_DAYS.includes(days)) {
+      return res.status(400).json({
+        success: false,
+        message: `days must be one of: ${SERIES_DAYS.join(', ')}`,
+      });
+    }
+
+    if (warehouseId) {
+      const [warehouse] = await db
+        .select({ id: warehouses.id })
+        .from(warehouses)
+        .where(and(eq(warehouses.id, warehouseId), eq(warehouses.tenantId, tenantId)));
+      if (!warehouse) {
+        return res.status(404).json({
+          success: false,
+          message: 'Warehouse not found',
+        });
+      }
+    }
+
+    const username = req.user!.username;
+    const access: DashboardAccess = {
+      stockValue: await canSee(tenantId, username, 'reports', 'reports.valuation.view'),
+      purchaseOrders: await canSee(tenantId, username, 'purchase-order', 'purchase-order.view'),
+      binUtilization: await canSee(tenantId, username, 'warehouse-setup', 'warehouse-setup.view'),
+    };
+
+    const data = await getDashboardKpis(tenantId, { warehouseId, days, access });
+
+    res.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error('Error fetching dashboard:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,230 @@
+import { createHash } from 'crypto';
+import { createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { db } from '../lib/db';
+import { auditLogArchives, auditLogs, tenant, user } from '../lib/db/schema';
+import { logAudit } from './auditService';
+import { getTenantNumberOption } from './optionService';
+import { and, asc, desc, eq, getTableColumns, lt, SQL, sql } from 'drizzle-orm';
+
+// Tenant option (sys_option code): days audit entries stay in audit_logs before they are archived; 0 keeps them
+export const AUDIT_RETENTION_DAYS_OPTION = 'audit.retention_days';
+const DEFAULT_RETENTION_DAYS = 0;
+
+// The scheduler archives a tenant at most once per interval
+const ARCHIVE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const SCHEDULER_TICK_MS = 60 * 60 * 1000;
+
+// Entries read per query while streaming
+const PAGE_SIZE = 1000;
+
+export class AuditArchiveError extends Error {}
+
+export type AuditLogRow = typeof auditLogs.$inferSelect & { username: string | null };
+
+/**
+ * Streams the audit entries matching `where` oldest first, reading them a page at a time so large ranges never
+ * sit in memory. Pages continue after the last entry read (created_at, id), which stays exact for the
+ * microsecond timestamps the database keeps.
+ */
+export async function* iterateAuditLogs(where: SQL | undefined): AsyncGenerator<AuditLogRow> {
+  let cursor: { createdAt: string; id: string } | null = null;
+
+  while (true) {
+    const page = await db
+      .select({
+        ...getTableColumns(auditLogs),
+        username: user.username,
+        cursorCreatedAt: sql<string>`${auditLogs.createdAt}::text`,
+      })
+      .from(auditLogs)
+      .leftJoin(user, eq(auditLogs.userId, user.id))
+      .where(and(
+        where,
+        cursor ? sql`(${auditLogs.createdAt}, ${auditLogs.id}) > (${cursor.createdAt}::timestamp, ${cursor.id})` : undefined
+      ))
+      .orderBy(asc(auditLogs.createdAt), asc(auditLogs.id))
+      .limit(PAGE_SIZE);
+
+    for (const { cursorCreatedAt, ...row } of page) {
+      yield row;
+    }
+
+    if (page.length < PAGE_SIZE) {
+      return;
+    }
+    const last: { cursorCreatedAt: string; id: string } = page[page.length - 1];
+    cursor = { createdAt: last.cursorCreatedAt, id: last.id };
+  }
+}
+
+/**
+ * Moves the tenant's audit entries created before `cutoff` to a gzipped NDJSON file under
+ * `storage/audit-logs/tenants/<tenantId>/<year>/` and deletes them from audit_logs. The archive row keeps the
+ * last archived link of the hash chain, so verification continues from it, and the archival itself is audited.
+ * Returns null when there is nothing to archive.
+ */
+export async function archiveAuditLogs(
+  tenantId: string,
+  params: { cutoff: Date; trigger: 'scheduled' | 'manual'; userId?: string; ipAddress?: string }
+) {
+  const { cutoff } = params;
+  if (Number.isNaN(cutoff.getTime()) || cutoff.getTime() > Date.now()) {
+    throw new AuditArchiveError('The archive cutoff must be a date in the past');
+  }
+
+  const where = and(eq(auditLogs.tenantId, tenantId), lt(auditLogs.createdAt, cutoff));
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)`.mapWith(Number) })
+    .from(auditLogs)
+    .where(where);
+  if (count === 0) {
+    return null;
+  }
+
+  const now = new Date();
+  const year = now.getFullYear();
+  const fileName = `audit-logs-${now.toISOString().replace(/[:.]/g, '-')}.ndjson.gz`;
+  const dirPath = path.join(process.cwd(), 'storage', 'audit-logs', 'tenants', tenantId, year.toString());
+  const filePath = path.join(dirPath, fileName);
+  await fs.mkdir(dirPath, { recursive: true });
+
+  const contentHash = createHash('sha256');
+  let rowCount = 0;
+  let fromDate: Date | null = null;
+  let toDate: Date | null = null;
+  let lastLink: { sequence: number; hash: string | null } | null = null;
+
+  async function* lines() {
+    for await (const row of iterateAuditLogs(where)) {
+      const line = `${JSON.stringify(row)}\n`;
+      contentHash.update(line);
+      rowCount++;
+      fromDate = fromDate || row.createdAt;
+      toDate = row.createdAt;
+      if (row.sequence !== null && (!lastLink || row.sequence > lastLink.sequence)) {
+        lastLink = { sequence: row.sequence, hash: row.hash };
+      }
+      yield line;
+    }
+  }
+
+  let archive: typeof auditLogArchives.$inferSelect;
+  try {
+    await pipeline(Readable.from(lines()), createGzip(), createWriteStream(filePath));
+    const fileStats = await fs.stat(filePath);
+    const link = lastLink as { sequence: number; hash: string | null } | null;
+
+    archive = await db.transaction(async (tx) => {
+      const deleted = await tx.delete(auditLogs).where(where).returning({ id: auditLogs.id });
+      if (deleted.length !== rowCount) {
+        throw new Error(`Archived ${rowCount} audit entries but ${deleted.length} matched for deletion`);
+      }
+
+      const [record] = await tx
+        .insert(auditLogArchives)
+        .values({
+          tenantId,
+          cutoff,
+          rowCount,
+          fromDate,
+          toDate,
+          toSequence: link?.sequence ?? null,
+          lastHash: link?.hash ?? null,
+          filePath: `storage/audit-logs/tenants/${tenantId}/${year}/${fileName}`,
+          fileSize: fileStats.size,
+          contentHash: contentHash.digest('hex'),
+          trigger: params.trigger,
+          createdBy: params.userId || null,
+        })
+        .returning();
+      return record;
+    });
+  } catch (error) {
+    await fs.rm(filePath, { force: true });
+    throw error;
+  }
+
+  await logAudit({
+    tenantId,
+    userId: params.userId,
+    module: 'system',
+    action: 'archive',
+    resourceType: 'audit_log_archive',
+    resourceId: archive.id,
+    description: `Archived ${archive.rowCount} audit log entries created before ${cutoff.toISOString()}`,
+    changedFields: {
+      cutoff: cutoff.toISOString(),
+      rowCount: archive.rowCount,
+      toSequence: archive.toSequence,
+      filePath: archive.filePath,
+      contentHash: archive.contentHash,
+      trigger: archive.trigger,
+    },
+    ipAddress: params.ipAddress,
+  });
+
+  return archive;
+}
+
+/**
+ * The tenant's retention in days (0 keeps entries indefinitely) and its archives, newest first
+ */
+export async function getAuditRetention(tenantId: string) {
+  const retentionDays = await getTenantNumberOption(tenantId, AUDIT_RETENTION_DAYS_OPTION, DEFAULT_RETENTION_DAYS);
+  const archives = await db
+    .select()
+    .from(auditLogArchives)
+    .where(eq(auditLogArchives.tenantId, tenantId))
+    .orderBy(desc(auditLogArchives.createdAt));
+
+  return { retentionDays, archives };
+}
+
+/**
+ * The start of the retention window: entries created before it are due for archiving
+ */
+export function retentionCutoff(retentionDays: number): Date {
+  return new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Archive the entries past retention of every tenant with a retention set, at most once a day per tenant
+ */
+async function runDueAuditArchives() {
+  const tenants = await db.select({ tenantId: tenant.id }).from(tenant);
+
+  for (const { tenantId } of tenants) {
+    try {
+      const retentionDays = await getTenantNumberOption(tenantId, AUDIT_RETENTION_DAYS_OPTION, DEFAULT_RETENTION_DAYS);
+      if (retentionDays <= 0) continue;
+
+      const [lastArchive] = await db
+        .select({ createdAt: auditLogArchives.createdAt })
+        .from(auditLogArchives)
+        .where(and(eq(auditLogArchives.tenantId, tenantId), eq(auditLogArchives.trigger, 'scheduled')))
+        .orderBy(desc(auditLogArchives.createdAt))
+        .limit(1);
+
+      if (lastArchive && Date.now() - lastArchive.createdAt.getTime() < ARCHIVE_INTERVAL_MS) continue;
+
+      await archiveAuditLogs(tenantId, { cutoff: retentionCutoff(retentionDays), trigger: 'scheduled' });
+    } catch (error) {
+      console.error(`[Audit] Scheduled archive failed for tenant ${tenantId}:`, error);
+    }
+  }
+}
+
+/**
+ * Start the in-process audit retention scheduler. Call once at server startup.
+ */
+export function startAuditRetentionScheduler() {
+  const timer = setInterval(() => {
+    runDueAuditArchives().catch((error) => console.error('[Audit] Scheduler error:', error));
+  }, SCHEDULER_TICK_MS);
+  timer.unref();
+}
@@ -1,5 +1,8 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash, randomUUID } from 'crypto';
 import { db } from '../lib/db';
-import { auditLogs } from '../lib/db/schema';
+import { auditLogArchives, auditLogs, tenant } from '../lib/db/schema';
+import { and, asc, desc, eq, gt, isNotNull, isNull, sql } from 'drizzle-orm';
 
 export interface AuditLogData {
   tenantId: string;
@@ -18,29 +21,328 @@ export interface AuditLogData {
   ipAddress?: string;
 }
 
+export interface AuditContext {
+  // Shared by every audit entry the request writes
+  batchId: string;
+  // Set once the request has written an entry of its own; the audit middleware then skips its generic entry
+  logged: boolean;
+}
+
+// Per-request audit context, set by the audit middleware for the mutating API requests
+export const auditContext = new AsyncLocalStorage<AuditContext>();
+
 export async function logAudit(data: AuditLogData) {
+  await writeAuditEntries(data.tenantId, [data]);
+}
+
+// A record as the audit trail diffs it
+export type AuditSnapshot = Record<string, unknown>;
+
+// A record a bulk operation created (no `before`) or updated
+export interface AuditedChange {
+  resourceType: string;
+  resourceId: string;
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+}
+
+/**
+ * Audit a bulk operation with one entry per record it created or updated: the field-level diff of the record,
+ * action `create` or `update`, and the request's batchId, so the whole operation can be reconstructed
+ */
+export async function logAuditChanges(
+  data: Omit<AuditLogData, 'action' | 'resourceType' | 'resourceId' | 'changedFields' | 'previousState' | 'newState'>,
+  changes: AuditedChange[]
+) {
+  await writeAuditEntries(data.tenantId, changes.map((change) => {
+    const previousState = stateOf(change.before);
+    const newState = stateOf(change.after);
+    const changedFields = diffSnapshots(change.before, change.after);
+    return {
+      ...data,
+      action: change.before ? 'update' : 'create',
+      resourceType: change.resourceType,
+      resourceId: change.resourceId,
+      changedFields: Object.keys(changedFields).length > 0 ? changedFields : undefined,
+      previousState: previousState !== newState ? previousState : undefined,
+      newState: previousState !== newState ? newState : undefined,
+    };
+  }));
+}
+
+// Entries inserted per statement, within the parameter limit of a query
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Append entries to the tenant's audit hash chain, in order and in one transaction
+ */
+async function writeAuditEntries(tenantId: string, entries: AuditLogData[]) {
+  const context = auditContext.getStore();
+  if (entries.length === 0) {
+    return;
+  }
+
   try {
-    await db.insert(auditLogs).values({
-      tenantId: data.tenantId,
-      userId: data.userId || null,
-      module: data.module,
-      action: data.action,
-      resourceType: data.resourceType,
-      resourceId: data.resourceId,
-      changedFields: data.changedFields || null,
-      description: data.description || null,
-      previousState: data.previousState || null,
-      newState: data.newState || null,
-      batchId: data.batchId || null,
-      status: data.status || 'success',
-      errorMessage: data.errorMessage || null,
-      ipAddress: data.ipAddress || null,
+    await db.transaction(async (tx) => {
+      // Locking the tenant row serializes the tenant's audit writes, so each entry links to the latest one
+      await tx.select({ id: tenant.id }).from(tenant).where(eq(tenant.id, tenantId)).for('no key update');
+
+      const [last] = await tx
+        .select({ sequence: auditLogs.sequence, hash: auditLogs.hash })
+        .from(auditLogs)
+        .where(and(eq(auditLogs.tenantId, tenantId), isNotNull(auditLogs.sequence)))
+        .orderBy(desc(auditLogs.sequence))
+        .limit(1);
+
+      let sequence = last?.sequence ?? 0;
+      let previousHash = last?.hash ?? null;
+      const rows = entries.map((data) => {
+        const entry: HashedAuditEntry = {
+          id: randomUUID(),
+          tenantId,
+          userId: data.userId || null,
+          module: data.module,
+          action: data.action,
+          resourceType: data.resourceType,
+          resourceId: data.resourceId,
+          changedFields: data.changedFields || null,
+          description: data.description || null,
+          previousState: data.previousState || null,
+          newState: data.newState || null,
+          batchId: data.batchId || context?.batchId || null,
+          status: data.status || 'success',
+          errorMessage: data.errorMessage || null,
+          ipAddress: data.ipAddress || null,
+          createdAt: new Date(),
+          sequence: ++sequence,
+          previousHash,
+        };
+        const hash = hashAuditEntry(entry);
+        previousHash = hash;
+        return { ...entry, hash };
+      });
+
+      for (let offset = 0; offset < rows.length; offset += INSERT_CHUNK_SIZE) {
+        await tx.insert(auditLogs).values(rows.slice(offset, offset + INSERT_CHUNK_SIZE));
+      }
     });
+
+    // Only a written entry replaces the middleware's; after a failed write the generic entry still records the request
+    if (context) {
+      context.logged = true;
+    }
   } catch (error) {
     console.error('Failed to write audit log:', error);
   }
 }
 
+// Fields left out of the diffs: they change on every write
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+const SENSITIVE_FIELD = /password|secret|token/i;
+const REDACTED = '[redacted]';
+
+/**
+ * A value as stored in the audit trail: sensitive fields redacted, dates as ISO strings
+ */
+export function toAuditValue(field: string, value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (SENSITIVE_FIELD.test(field)) {
+    return REDACTED;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => toAuditValue('', item));
+  }
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, toAuditValue(key, item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Field-level changes between two snapshots as `{ field: { from, to } }`; a missing snapshot (create or
+ * delete) lists every field that has a value
+ */
+export function diffSnapshots(before: AuditSnapshot | null, after: AuditSnapshot | null) {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    // Compare the raw values, so a changed password still shows up although both sides are redacted
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from: toAuditValue(field, from), to: toAuditValue(field, to) };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * The workflow state (or, without one, the status) of a record, for previousState/newState
+ */
+export function stateOf(snapshot: AuditSnapshot | null): string | undefined {
+  const state = snapshot?.workflowState ?? snapshot?.status;
+  return typeof state === 'string' ? state.slice(0, 50) : undefined;
+}
+
+// The columns of an audit entry its hash covers
+type HashedAuditEntry = Omit<typeof auditLogs.$inferSelect, 'hash'>;
+
+/**
+ * JSON with the object keys sorted at every level; jsonb does not keep key order, so the hash of
+ * changedFields has to be independent of it
+ */
+function canonicalJson(value: unknown): string {
+  const normalized = JSON.parse(JSON.stringify(value ?? null));
+  const sortKeys = (item: unknown): unknown => {
+    if (Array.isArray(item)) {
+      return item.map(sortKeys);
+    }
+    if (item && typeof item === 'object') {
+      return Object.fromEntries(
+        Object.keys(item).sort().map((key) => [key, sortKeys((item as Record<string, unknown>)[key])])
+      );
+    }
+    return item;
+  };
+  return JSON.stringify(sortKeys(normalized));
+}
+
+/**
+ * SHA-256 (hex) of an audit entry's content together with its position and the previous entry's hash
+ */
+export function hashAuditEntry(entry: HashedAuditEntry): string {
+  return createHash('sha256')
+    .update(canonicalJson({
+      sequence: entry.sequence,
+      previousHash: entry.previousHash,
+      id: entry.id,
+      tenantId: entry.tenantId,
+      userId: entry.userId,
+      module: entry.module,
+      action: entry.action,
+      resourceType: entry.resourceType,
+      resourceId: entry.resourceId,
+      changedFields: entry.changedFields,
+      description: entry.description,
+      previousState: entry.previousState,
+      newState: entry.newState,
+      batchId: entry.batchId,
+      status: entry.status,
+      errorMessage: entry.errorMessage,
+      ipAddress: entry.ipAddress,
+      createdAt: entry.createdAt.toISOString(),
+    }))
+    .digest('hex');
+}
+
+// Entries read per query while walking the chain
+const VERIFY_PAGE_SIZE = 1000;
+
+export interface AuditChainBreak {
+  // The first entry that does not verify; for a missing entry, the one after the gap
+  id: string;
+  sequence: number;
+  createdAt: Date;
+  // hash_mismatch: the entry was altered; previous_hash_mismatch: the entry before it was altered or replaced;
+  // missing_entry: entries before it were deleted
+  reason: 'hash_mismatch' | 'previous_hash_mismatch' | 'missing_entry';
+  expectedSequence: number;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checkedCount: number;
+  // Entries written before the hash chain was introduced, which it does not cover
+  unchainedCount: number;
+  lastSequence: number | null;
+  brokenLink: AuditChainBreak | null;
+}
+
+/**
+ * Walks the tenant's audit chain from its first entry (or the last one archived) and reports the first broken
+ * link: an entry whose content no longer matches its hash, that does not point to the previous entry's hash, or
+ * that follows a gap in the sequence. Deleting the newest entries cannot be detected from the chain alone.
+ */
+export async function verifyAuditChain(tenantId: string): Promise<AuditChainVerification> {
+  const [{ unchainedCount }] = await db
+    .select({ unchainedCount: sql<number>`count(*)`.mapWith(Number) })
+    .from(auditLogs)
+    .where(and(eq(auditLogs.tenantId, tenantId), isNull(auditLogs.sequence)));
+
+  // Archived entries are gone from audit_logs; the chain continues from the last one archived
+  const [anchor] = await db
+    .select({ toSequence: auditLogArchives.toSequence, lastHash: auditLogArchives.lastHash })
+    .from(auditLogArchives)
+    .where(and(eq(auditLogArchives.tenantId, tenantId), isNotNull(auditLogArchives.toSequence)))
+    .orderBy(desc(auditLogArchives.toSequence))
+    .limit(1);
+
+  let checkedCount = 0;
+  let lastSequence = anchor?.toSequence ?? 0;
+  let lastHash: string | null = anchor?.lastHash ?? null;
+
+  while (true) {
+    const page = await db
+      .select()
+      .from(auditLogs)
+      .where(and(eq(auditLogs.tenantId, tenantId), gt(auditLogs.sequence, lastSequence)))
+      .orderBy(asc(auditLogs.sequence))
+      .limit(VERIFY_PAGE_SIZE);
+
+    for (const row of page) {
+      const { hash, ...entry } = row;
+      const sequence = row.sequence!;
+      const expectedSequence = lastSequence + 1;
+
+      const reason = sequence !== expectedSequence
+        ? 'missing_entry'
+        : row.previousHash !== lastHash
+          ? 'previous_hash_mismatch'
+          : hash !== hashAuditEntry(entry)
+            ? 'hash_mismatch'
+            : null;
+
+      if (reason) {
+        return {
+          valid: false,
+          checkedCount,
+          unchainedCount,
+          lastSequence: lastSequence || null,
+          brokenLink: { id: row.id, sequence, createdAt: row.createdAt, reason, expectedSequence },
+        };
+      }
+
+      checkedCount++;
+      lastSequence = sequence;
+      lastHash = hash;
+    }
+
+    if (page.length < VERIFY_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return {
+    valid: true,
+    checkedCount,
+    unchainedCount,
+    lastSequence: lastSequence || null,
+    brokenLink: null,
+  };
+}
+
 export function getClientIp(req: any): string | undefined {
   const forwarded = req.headers['x-forwarded-for'];
   if (forwarded) {
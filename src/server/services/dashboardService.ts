@@ -0,0 +1,295 @@
+import { db } from '../lib/db';
+import { inventoryItems } from '@modules/inventory-items/server/lib/db/schemas/inventoryItems';
+import { stockMovements } from '@modules/inventory-items/server/lib/db/schemas/stockMovements';
+import { products } from '@modules/master-data/server/lib/db/schemas/masterData';
+import { purchaseOrders } from '@modules/purchase-order/server/lib/db/schemas/purchaseOrder';
+import { aisles, bins, shelves, warehouses, zones } from '@modules/warehouse-setup/server/lib/db/schemas/warehouseSetup';
+import { CAPACITY_WARNING_PERCENT, getUtilization, Utilization } from '@modules/warehouse-setup/server/services/capacityService';
+import { getTenantNumberOption } from './optionService';
+import { and, asc, eq, inArray, isNotNull, lte, notInArray, sql } from 'drizzle-orm';
+
+// Tenant option (sys_option code): days ahead in which stock counts as near expiry
+export const EXPIRY_WARNING_DAYS_OPTION = 'dashboard.expiry_warning_days';
+const DEFAULT_EXPIRY_WARNING_DAYS = 30;
+
+// Rows listed per attention list; the counts always cover everything
+const LIST_LIMIT = 10;
+
+export interface DashboardSeriesPoint {
+  date: string;
+  // Units received
+  receipts: number;
+  // Net units added (positive) or removed (negative) by adjustments and posted cycle counts
+  adjustments: number;
+}
+
+// KPI sections other endpoints restrict; each is left out (null) for callers who could not read it there
+export interface DashboardAccess {
+  // Stock value, like the valuation report
+  stockValue: boolean;
+  purchaseOrders: boolean;
+  binUtilization: boolean;
+}
+
+export interface DashboardKpis {
+  warehouseId: string | null;
+  warehouses: Array<{ id: string; name: string }>;
+  onHand: {
+    quantity: number;
+    value: number | null;
+    uncostedQuantity: number | null;
+    productCount: number;
+  };
+  openPurchaseOrders: {
+    total: number;
+    byState: Array<{ state: string; count: number }>;
+  } | null;
+  nearExpiry: {
+    days: number;
+    count: number;
+    quantity: number;
+    items: Array<{
+      inventoryItemId: string;
+      sku: string;
+      productName: string;
+      batchNumber: string | null;
+      expiryDate: string;
+      daysToExpiry: number;
+      quantity: number;
+      binName: string;
+      warehouseName: string;
+    }>;
+  };
+  belowReorderPoint: {
+    count: number;
+    items: Array<{
+      productId: string;
+      sku: string;
+      productName: string;
+      availableQuantity: number;
+      reorderPoint: number;
+    }>;
+  };
+  binUtilization: (Utilization & {
+    warningPercent: number;
+    nearlyFullBinCount: number;
+  }) | null;
+  series: DashboardSeriesPoint[];
+}
+
+// Local calendar date as YYYY-MM-DD
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Condition on the zone joined to a stock query, when a warehouse is selected
+ */
+function inWarehouse(warehouseId?: string) {
+  return warehouseId ? eq(zones.warehouseId, warehouseId) : undefined;
+}
+
+/**
+ * Daily receipts and adjustments over the last `days` days, one point per day including days without movements.
+ *
+ * Days are UTC days on both sides. `created_at` has no time zone and is filled by the database in its session time
+ * zone, so the buckets and the cutoff convert between that zone and UTC in SQL; the day keys are built in UTC.
+ */
+async function getSeries(tenantId: string, days: number, warehouseId?: string): Promise<DashboardSeriesPoint[]> {
+  const start = new Date();
+  start.setUTCHours(0, 0, 0, 0);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+
+  const day = sql<string>`to_char(${stockMovements.createdAt}::timestamptz at time zone 'UTC', 'YYYY-MM-DD')`;
+  const rows = await db
+    .select({
+      date: day,
+      receipts: sql<number>`coalesce(sum(${stockMovements.quantityDelta}) filter (where ${stockMovements.movementType} = 'receipt'), 0)`.mapWith(Number),
+      adjustments: sql<number>`coalesce(sum(${stockMovements.quantityDelta}) filter (where ${stockMovements.movementType} in ('adjustment', 'count_variance')), 0)`.mapWith(Number),
+    })
+    .from(stockMovements)
+    .innerJoin(bins, eq(stockMovements.binId, bins.id))
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .where(and(
+      eq(stockMovements.tenantId, tenantId),
+      sql`${stockMovements.createdAt} >= ${start.toISOString()}::timestamptz::timestamp`,
+      inArray(stockMovements.movementType, ['receipt', 'adjustment', 'count_variance']),
+      inWarehouse(warehouseId)
+    ))
+    .groupBy(day);
+
+  const byDate = new Map(rows.map((row) => [row.date, row]));
+  const series: DashboardSeriesPoint[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const date = new Date(start);
+    date.setUTCDate(start.getUTCDate() + offset);
+    const key = date.toISOString().slice(0, 10);
+    const row = byDate.get(key);
+    series.push({ date: key, receipts: row?.receipts || 0, adjustments: row?.adjustments || 0 });
+  }
+
+  return series;
+}
+
+/**
+ * The tenant's warehouse KPIs for the dashboard, for one warehouse or all of them.
+ *
+ * On-hand units are the available and reserved quantity of the inventory rows, valued at each row's unit cost.
+ * The dashboard reads the current rows rather than replaying the stock ledger like the valuation report, so the
+ * two can differ where a row's cost is not the cost its costing method would assign. Open POs are those neither completed
+ * nor rejected, by workflow state. Products below their reorder point compare the available quantity (in the
+ * warehouse when one is selected) with the product's reorder point. Sections `access` denies are not queried.
+ */
+export async function getDashboardKpis(
+  tenantId: string,
+  params: { warehouseId?: string; days: number; access: DashboardAccess }
+): Promise<DashboardKpis> {
+  const { warehouseId, days, access } = params;
+
+  const warehouseList = await db
+    .select({ id: warehouses.id, name: warehouses.name })
+    .from(warehouses)
+    .where(eq(warehouses.tenantId, tenantId))
+    .orderBy(asc(warehouses.name));
+
+  // On hand
+  const [stock] = await db
+    .select({
+      quantity: sql<number>`coalesce(sum(${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity}), 0)`.mapWith(Number),
+      productCount: sql<number>`count(distinct ${inventoryItems.productId}) filter (where ${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity} > 0)`.mapWith(Number),
+      value: sql<number>`coalesce(sum((${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity}) * ${inventoryItems.costPerUnit}), 0)`.mapWith(Number),
+      uncostedQuantity: sql<number>`coalesce(sum(${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity}) filter (where ${inventoryItems.costPerUnit} is null), 0)`.mapWith(Number),
+    })
+    .from(inventoryItems)
+    .innerJoin(bins, eq(inventoryItems.binId, bins.id))
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .where(and(eq(inventoryItems.tenantId, tenantId), inWarehouse(warehouseId)));
+
+  // Open purchase orders
+  const orders = !access.purchaseOrders ? null : await db
+    .select({
+      state: purchaseOrders.workflowState,
+      count: sql<number>`count(*)`.mapWith(Number),
+    })
+    .from(purchaseOrders)
+    .where(and(
+      eq(purchaseOrders.tenantId, tenantId),
+      notInArray(purchaseOrders.status, ['completed', 'rejected']),
+      warehouseId ? eq(purchaseOrders.warehouseId, warehouseId) : undefined
+    ))
+    .groupBy(purchaseOrders.workflowState);
+
+  // Near expiry, including stock already expired
+  const expiryDays = await getTenantNumberOption(tenantId, EXPIRY_WARNING_DAYS_OPTION, DEFAULT_EXPIRY_WARNING_DAYS);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const cutoff = new Date(today);
+  cutoff.setDate(cutoff.getDate() + expiryDays);
+
+  const expiring = await db
+    .select({
+      inventoryItemId: inventoryItems.id,
+      sku: products.sku,
+      productName: products.name,
+      batchNumber: inventoryItems.batchNumber,
+      expiryDate: inventoryItems.expiryDate,
+      quantity: sql<number>`${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity}`.mapWith(Number),
+      binName: bins.name,
+      warehouseName: warehouses.name,
+    })
+    .from(inventoryItems)
+    .innerJoin(products, eq(inventoryItems.productId, products.id))
+    .innerJoin(bins, eq(inventoryItems.binId, bins.id))
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .innerJoin(warehouses, eq(zones.warehouseId, warehouses.id))
+    .where(and(
+      eq(inventoryItems.tenantId, tenantId),
+      isNotNull(inventoryItems.expiryDate),
+      lte(inventoryItems.expiryDate, toDateString(cutoff)),
+      sql`${inventoryItems.availableQuantity} + ${inventoryItems.reservedQuantity} > 0`,
+      inWarehouse(warehouseId)
+    ))
+    .orderBy(asc(inventoryItems.expiryDate), asc(products.sku));
+
+  // Below reorder point
+  const reorderProducts = await db
+    .select({
+      productId: products.id,
+      sku: products.sku,
+      productName: products.name,
+      reorderPoint: products.reorderPoint,
+    })
+    .from(products)
+    .where(and(eq(products.tenantId, tenantId), eq(products.active, true), isNotNull(products.reorderPoint)))
+    .orderBy(asc(products.sku));
+
+  const available = await db
+    .select({
+      productId: inventoryItems.productId,
+      quantity: sql<number>`coalesce(sum(${inventoryItems.availableQuantity}), 0)`.mapWith(Number),
+    })
+    .from(inventoryItems)
+    .innerJoin(bins, eq(inventoryItems.binId, bins.id))
+    .innerJoin(shelves, eq(bins.shelfId, shelves.id))
+    .innerJoin(aisles, eq(shelves.aisleId, aisles.id))
+    .innerJoin(zones, eq(aisles.zoneId, zones.id))
+    .where(and(eq(inventoryItems.tenantId, tenantId), inWarehouse(warehouseId)))
+    .groupBy(inventoryItems.productId);
+  const availableMap = new Map(available.map((row) => [row.productId, row.quantity]));
+
+  const belowReorder = reorderProducts
+    .map((product) => ({
+      productId: product.productId,
+      sku: product.sku,
+      productName: product.productName,
+      availableQuantity: availableMap.get(product.productId) || 0,
+      reorderPoint: product.reorderPoint!,
+    }))
+    .filter((product) => product.availableQuantity <= product.reorderPoint)
+    .sort((a, b) => a.availableQuantity - a.reorderPoint - (b.availableQuantity - b.reorderPoint));
+
+  // Bin utilization
+  const utilization = access.binUtilization ? await getUtilization(db, tenantId, warehouseId) : null;
+
+  return {
+    warehouseId: warehouseId || null,
+    warehouses: warehouseList,
+    onHand: {
+      quantity: stock.quantity,
+      value: access.stockValue ? Math.round(stock.value * 100) / 100 : null,
+      uncostedQuantity: access.stockValue ? stock.uncostedQuantity : null,
+      productCount: stock.productCount,
+    },
+    openPurchaseOrders: orders && {
+      total: orders.reduce((sum, row) => sum + row.count, 0),
+      byState: orders.map((row) => ({ state: row.state || 'create', count: row.count })),
+    },
+    nearExpiry: {
+      days: expiryDays,
+      count: expiring.length,
+      quantity: expiring.reduce((sum, row) => sum + row.quantity, 0),
+      items: expiring.slice(0, LIST_LIMIT).map((row) => ({
+        ...row,
+        expiryDate: row.expiryDate!,
+        daysToExpiry: Math.round((new Date(`${row.expiryDate}T00:00:00`).getTime() - today.getTime()) / 86400000),
+      })),
+    },
+    belowReorderPoint: {
+      count: belowReorder.length,
+      items: belowReorder.slice(0, LIST_LIMIT),
+    },
+    binUtilization: utilization && {
+      ...utilization.total,
+      warningPercent: CAPACITY_WARNING_PERCENT,
+      nearlyFullBinCount: Object.values(utilization.bins).filter((bin) =>
+        Math.max(bin.weightPercent ?? 0, bin.volumePercent ?? 0) >= CAPACITY_WARNING_PERCENT
+      ).length,
+    },
+    series: await getSeries(tenantId, days, warehouseId),
+  };
+}
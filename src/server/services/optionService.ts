@@ -0,0 +1,46 @@
+import { db } from '../lib/db';
+import { option } from '../lib/db/schema';
+import { and, asc, eq, like } from 'drizzle-orm';
+
+/**
+ * Read a tenant setting stored in sys_option, falling back to `defaultValue` when it is not configured
+ */
+export async function getTenantOption(tenantId: string, code: string, defaultValue: string): Promise<string> {
+  const [record] = await db
+    .select({ value: option.value })
+    .from(option)
+    .where(and(
+      eq(option.tenantId, tenantId),
+      eq(option.code, code)
+    ))
+    .limit(1);
+
+  return record?.value ?? defaultValue;
+}
+
+/**
+ * Read a numeric tenant setting stored in sys_option.
+ * Non-numeric values fall back to `defaultValue`.
+ */
+export async function getTenantNumberOption(tenantId: string, code: string, defaultValue: number): Promise<number> {
+  const value = parseFloat(await getTenantOption(tenantId, code, String(defaultValue)));
+  return Number.isFinite(value) ? value : defaultValue;
+}
+
+/**
+ * List the tenant settings whose code starts with `prefix`, ordered by code.
+ * Used for tenant-maintained lists such as reason codes, one sys_option row per entry.
+ */
+export async function getTenantOptionsByPrefix(
+  tenantId: string,
+  prefix: string
+): Promise<Array<{ code: string; name: string; value: string }>> {
+  return db
+    .select({ code: option.code, name: option.name, value: option.value })
+    .from(option)
+    .where(and(
+      eq(option.tenantId, tenantId),
+      like(option.code, `${prefix}%`)
+    ))
+    .orderBy(asc(option.code));
+}